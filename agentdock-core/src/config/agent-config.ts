@@ -38,7 +38,9 @@ export async function loadAgentConfig(
   apiKey?: string
 ): Promise<AgentConfig> {
   try {
-    if (!apiKey) {
+    // Self-hosted providers may run without a key
+    const keyRequired = !template || ProviderRegistry.requiresApiKey(ProviderRegistry.getProviderFromNodes(template.nodes || []));
+    if (!apiKey && keyRequired) {
       throw createError(
         'config',
         'API key not found. Please add your API key in settings.',
@@ -0,0 +1,260 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * @fileoverview Tests for the conversation store and its search
+ */
+
+import type { CoreMessage } from 'ai';
+import { ConversationStore, toConversationEntries } from '../store';
+import { createSearchSnippet, getSearchTerms, scoreSearchText } from '../search';
+import { MemoryStorageProvider } from '../../storage/providers/memory-provider';
+import { StorageProvider } from '../../storage/types';
+
+const userMessage = (content: string) => ({ type: 'message' as const, role: 'user' as const, content });
+const assistantMessage = (content: string) => ({ type: 'message' as const, role: 'assistant' as const, content });
+
+describe('toConversationEntries', () => {
+  it('splits response messages into text, tool call and tool result entries', () => {
+    const messages: CoreMessage[] = [
+      {
+        role: 'assistant',
+        content: [
+          { type: 'text', text: 'Checking the weather' },
+          { type: 'tool-call', toolCallId: 'call-1', toolName: 'weather', args: { city: 'Paris' } }
+        ]
+      },
+      {
+        role: 'tool',
+        content: [{ type: 'tool-result', toolCallId: 'call-1', toolName: 'weather', result: { temperature: 21 } }]
+      }
+    ];
+
+    expect(toConversationEntries(messages)).toEqual([
+      { type: 'message', role: 'assistant', content: 'Checking the weather', messageId: undefined },
+      { type: 'tool_call', role: 'assistant', content: '{"city":"Paris"}', toolName: 'weather', toolCallId: 'call-1', messageId: undefined },
+      { type: 'tool_result', role: 'tool', content: '{"temperature":21}', toolName: 'weather', toolCallId: 'call-1', messageId: undefined }
+    ]);
+  });
+
+  it('keeps the ID of chat messages and skips empty ones', () => {
+    const entries = toConversationEntries([
+      { id: 'msg-1', role: 'user', content: 'Hello' },
+      { id: 'msg-2', role: 'assistant', content: '  ' }
+    ]);
+
+    expect(entries).toEqual([{ type: 'message', role: 'user', content: 'Hello', messageId: 'msg-1' }]);
+  });
+});
+
+describe('conversation search', () => {
+  it('matches text containing every term, ignoring case and accents', () => {
+    const terms = getSearchTerms('Café  PARIS, cafe');
+
+    expect(terms).toEqual(['cafe', 'paris']);
+    expect(scoreSearchText('The best café in Paris', terms)).toBe(2);
+    expect(scoreSearchText('The best café in Lyon', terms)).toBe(0);
+  });
+
+  it('scores phrases and repeated terms higher', () => {
+    const terms = getSearchTerms('rate limit');
+
+    expect(scoreSearchText('rate limit reached', terms)).toBeGreaterThan(scoreSearchText('limit the rate', terms));
+    expect(scoreSearchText('rate, rate and limit', terms)).toBeGreaterThan(scoreSearchText('rate and limit', terms));
+  });
+
+  it('cuts a snippet around the first match', () => {
+    const text = `${'a'.repeat(100)} needle ${'b'.repeat(200)}`;
+    const snippet = createSearchSnippet(text, ['needle']);
+
+    expect(snippet.startsWith('…')).toBe(true);
+    expect(snippet.endsWith('…')).toBe(true);
+    expect(snippet).toContain('needle');
+    expect(createSearchSnippet('short needle text', ['needle'])).toBe('short needle text');
+  });
+});
+
+describe('ConversationStore', () => {
+  let storage: MemoryStorageProvider;
+  let store: ConversationStore;
+
+  beforeEach(() => {
+    storage = new MemoryStorageProvider({ namespace: 'test' });
+    store = new ConversationStore({ storage });
+  });
+
+  afterEach(async () => {
+    await storage.destroy();
+  });
+
+  it('appends entries and records the conversation', async () => {
+    await store.append('session-1', [userMessage('How do I reset my password?')], { userId: 'user-1', agentId: 'support' });
+    const count = await store.append('session-1', [assistantMessage('Use the reset link on the login page.')]);
+
+    expect(count).toBe(2);
+    expect(await store.getConversation('session-1')).toEqual({
+      sessionId: 'session-1',
+      userId: 'user-1',
+      agentId: 'support',
+      title: 'How do I reset my password?',
+      createdAt: expect.any(Number),
+      updatedAt: expect.any(Number)
+    });
+
+    const page = await store.getMessages('session-1');
+    expect(page.entries.map(entry => entry.content)).toEqual([
+      'How do I reset my password?',
+      'Use the reset link on the login page.'
+    ]);
+    expect(page.entries[0]).toMatchObject({ id: expect.any(String), createdAt: expect.any(Number) });
+    expect(page.hasMore).toBe(false);
+  });
+
+  it('pages through entries oldest first', async () => {
+    await store.append('session-1', Array.from({ length: 5 }, (_, i) => userMessage(`message ${i}`)));
+
+    const first = await store.getMessages('session-1', { limit: 2 });
+    const last = await store.getMessages('session-1', { offset: 4, limit: 2 });
+
+    expect(first.entries.map(entry => entry.content)).toEqual(['message 0', 'message 1']);
+    expect(first.hasMore).toBe(true);
+    expect(last.entries.map(entry => entry.content)).toEqual(['message 4']);
+    expect(last.hasMore).toBe(false);
+    expect((await store.getMessages('unknown')).entries).toEqual([]);
+  });
+
+  it('lists a user\'s conversations, most recently updated first', async () => {
+    const now = jest.spyOn(Date, 'now');
+    now.mockReturnValue(1000);
+    await store.append('older', [userMessage('First chat')], { userId: 'user-1', agentId: 'support' });
+    now.mockReturnValue(2000);
+    await store.append('newer', [userMessage('Second chat')], { userId: 'user-1', agentId: 'research' });
+    await store.append('other-user', [userMessage('Not mine')], { userId: 'user-2' });
+    now.mockReturnValue(3000);
+    await store.append('older', [assistantMessage('Reply')]);
+    now.mockRestore();
+
+    expect((await store.listConversations('user-1')).map(c => c.sessionId)).toEqual(['older', 'newer']);
+    expect((await store.listConversations('user-1', { agentId: 'research' })).map(c => c.sessionId)).toEqual(['newer']);
+    expect((await store.listConversations('user-1', { offset: 1, limit: 1 })).map(c => c.sessionId)).toEqual(['newer']);
+  });
+
+  it('searches across a user\'s conversations only', async () => {
+    await store.append('billing', [
+      userMessage('Why is there a second charge on my invoice?'),
+      assistantMessage('The duplicate invoice charge was refunded.')
+    ], { userId: 'user-1' });
+    await store.append('travel', [userMessage('Find flights to Lisbon')], { userId: 'user-1' });
+    await store.append('private', [userMessage('invoice charge for user two')], { userId: 'user-2' });
+
+    const results = await store.search('user-1', 'invoice charge');
+
+    expect(results.map(result => result.entry.content)).toEqual([
+      'The duplicate invoice charge was refunded.',
+      'Why is there a second charge on my invoice?'
+    ]);
+    expect(results[0]).toMatchObject({
+      conversation: { sessionId: 'billing', title: 'Why is there a second charge on my invoice?' },
+      snippet: 'The duplicate invoice charge was refunded.'
+    });
+    expect(await store.search('user-1', '  ')).toEqual([]);
+    expect(await store.search('user-1', 'invoice lisbon')).toEqual([]);
+  });
+
+  it('finds tool calls and results', async () => {
+    await store.append('session-1', toConversationEntries([
+      { role: 'assistant', content: [{ type: 'tool-call', toolCallId: 'c1', toolName: 'stock_price', args: { symbol: 'ACME' } }] },
+      { role: 'tool', content: [{ type: 'tool-result', toolCallId: 'c1', toolName: 'stock_price', result: 'ACME trades at 42' }] }
+    ]), { userId: 'user-1' });
+
+    const results = await store.search('user-1', 'acme');
+
+    expect(results.map(result => result.entry.type).sort()).toEqual(['tool_call', 'tool_result']);
+  });
+
+  it('keeps entries appended concurrently', async () => {
+    await Promise.all(
+      Array.from({ length: 10 }, (_, i) => store.append('session-1', [userMessage(`message ${i}`)], { userId: 'user-1' }))
+    );
+
+    const page = await store.getMessages('session-1', { limit: 20 });
+    expect(page.entries).toHaveLength(10);
+    expect(await store.listConversations('user-1')).toHaveLength(1);
+  });
+
+  it('works with providers without the atomic operations', async () => {
+    const basic: StorageProvider = Object.assign(new MemoryStorageProvider({ namespace: 'basic' }), {
+      compareAndSet: undefined,
+      appendToList: undefined
+    });
+    const basicStore = new ConversationStore({ storage: basic });
+
+    await basicStore.append('session-1', [userMessage('one')], { userId: 'user-1' });
+    await basicStore.append('session-1', [assistantMessage('two')], { userId: 'user-1' });
+
+    expect((await basicStore.getMessages('session-1')).entries.map(entry => entry.content)).toEqual(['one', 'two']);
+    expect(await basicStore.listConversations('user-1')).toHaveLength(1);
+    await basic.destroy?.();
+  });
+
+  it('truncates a conversation from an edited message on', async () => {
+    await store.append('session-1', [
+      { ...userMessage('First question'), messageId: 'msg-1' },
+      assistantMessage('First answer'),
+      { ...userMessage('Second question'), messageId: 'msg-2' },
+      assistantMessage('Second answer')
+    ], { userId: 'user-1' });
+
+    expect(await store.truncateFrom('session-1', 'msg-2')).toBe(2);
+    expect((await store.getMessages('session-1')).entries.map(entry => entry.content)).toEqual(['First question', 'First answer']);
+    expect(await store.truncateFrom('session-1', 'unknown')).toBe(0);
+
+    expect(await store.truncateFrom('session-1', 'msg-1')).toBe(2);
+    expect((await store.getMessages('session-1')).entries).toEqual([]);
+    expect(await store.getConversation('session-1')).toMatchObject({ userId: 'user-1' });
+  });
+
+  it('copies a conversation up to a message into a forked session', async () => {
+    await store.append('session-1', [
+      { ...userMessage('First question'), messageId: 'msg-1' },
+      assistantMessage('First answer'),
+      { ...userMessage('Second question'), messageId: 'msg-2' },
+      assistantMessage('Second answer')
+    ], { userId: 'user-1', agentId: 'agent-1' });
+
+    expect(await store.forkConversation('session-1', 'session-2', 'msg-2')).toBe(2);
+    expect((await store.getMessages('session-2')).entries.map(entry => entry.content)).toEqual(['First question', 'First answer']);
+    expect(await store.getConversation('session-2')).toMatchObject({ userId: 'user-1', agentId: 'agent-1', title: 'First question' });
+    expect((await store.listConversations('user-1')).map(conversation => conversation.sessionId).sort()).toEqual(['session-1', 'session-2']);
+    expect((await store.getMessages('session-1')).entries).toHaveLength(4);
+
+    expect(await store.forkConversation('session-1', 'session-3', 'unrecorded')).toBe(4);
+    expect(await store.forkConversation('session-none', 'session-4', 'msg-1')).toBeNull();
+    expect(await store.getConversation('session-4')).toBeNull();
+  });
+
+  it('deletes a conversation and drops it from the user\'s list', async () => {
+    await store.append('session-1', [userMessage('Delete me')], { userId: 'user-1' });
+
+    expect(await store.deleteConversation('session-1')).toBe(true);
+    expect(await store.getConversation('session-1')).toBeNull();
+    expect((await store.getMessages('session-1')).entries).toEqual([]);
+    expect(await store.listConversations('user-1')).toEqual([]);
+  });
+
+  it('expires conversations with a TTL', async () => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+    try {
+      const expiring = new ConversationStore({ storage, ttlSeconds: 60 });
+      await expiring.append('session-1', [userMessage('Short-lived')], { userId: 'user-1' });
+
+      jest.advanceTimersByTime(61 * 1000);
+
+      expect(await expiring.getConversation('session-1')).toBeNull();
+      expect((await expiring.getMessages('session-1')).entries).toEqual([]);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,6 @@
+/**
+ * @fileoverview Server-side conversation history with pagination and full-text search.
+ */
+
+export * from './store';
+export * from './search';
@@ -0,0 +1,67 @@
+/**
+ * @fileoverview Full-text matching of conversation entries.
+ *
+ * Matching is case- and accent-insensitive: an entry matches when every term of the
+ * query appears in its content, as a whole word or the start or middle of one.
+ */
+
+// Characters kept before the first match; twice as many are kept after it
+const SNIPPET_CONTEXT_LENGTH = 60;
+
+/**
+ * Lower-cases text and strips accents, so `Café` matches `cafe`
+ */
+export function normalizeSearchText(text: string): string {
+  return text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+/**
+ * Splits a query into its distinct normalized terms
+ */
+export function getSearchTerms(query: string): string[] {
+  const terms = normalizeSearchText(query).split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+  return [...new Set(terms)];
+}
+
+function countOccurrences(text: string, term: string): number {
+  let count = 0;
+  for (let index = text.indexOf(term); index !== -1; index = text.indexOf(term, index + term.length)) {
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Scores text against the terms of a query: 0 unless every term occurs.
+ * Each occurrence counts, and the query appearing as a phrase counts double.
+ */
+export function scoreSearchText(text: string, terms: string[]): number {
+  if (terms.length === 0) return 0;
+
+  const normalized = normalizeSearchText(text);
+  let score = 0;
+  for (const term of terms) {
+    const occurrences = countOccurrences(normalized, term);
+    if (occurrences === 0) return 0;
+    score += occurrences;
+  }
+  if (terms.length > 1 && normalized.includes(terms.join(' '))) {
+    score *= 2;
+  }
+  return score;
+}
+
+/**
+ * Cuts the part of the text around the first matched term, marking cut ends with an ellipsis
+ */
+export function createSearchSnippet(text: string, terms: string[]): string {
+  const normalized = normalizeSearchText(text);
+  const positions = terms.map(term => normalized.indexOf(term)).filter(index => index !== -1);
+  const first = positions.length > 0 ? Math.min(...positions) : 0;
+
+  // Normalizing can change the length of text with accents, so the position is approximate there
+  const start = Math.max(0, first - SNIPPET_CONTEXT_LENGTH);
+  const end = Math.min(text.length, first + SNIPPET_CONTEXT_LENGTH * 2);
+  const snippet = text.slice(start, end).replace(/\s+/g, ' ').trim();
+  return `${start > 0 ? '…' : ''}${snippet}${end < text.length ? '…' : ''}`;
+}
@@ -0,0 +1,458 @@
+/**
+ * @fileoverview Durable conversation history, kept on the server per session.
+ *
+ * Every message, tool call and tool result is appended to a list per session, next to a
+ * record describing the conversation. Conversations with a user ID are indexed per user,
+ * so the user can list and search them from any device.
+ *
+ * Storage keys, all in the store's namespace:
+ * - `conversation:<sessionId>` the `Conversation` record
+ * - `messages:<sessionId>` the list of `ConversationEntry` items, oldest first
+ * - `user:<userId>` the list of the user's session IDs
+ */
+
+import type { CoreMessage } from 'ai';
+import { logger, LogCategory } from '../logging';
+import { StorageProvider, StorageOptions } from '../storage/types';
+import { getStorageFactory } from '../storage/factory';
+import { SessionId } from '../types/session';
+import { Message } from '../types/messages';
+import { toolResultToText } from '../orchestration/conditions';
+import { createSearchSnippet, getSearchTerms, scoreSearchText } from './search';
+
+const DEFAULT_NAMESPACE = 'conversations';
+const DEFAULT_PAGE_SIZE = 50;
+const DEFAULT_SEARCH_LIMIT = 20;
+const DEFAULT_MAX_SEARCH_SESSIONS = 100;
+const MAX_TITLE_LENGTH = 80;
+
+export type ConversationEntryType = 'message' | 'tool_call' | 'tool_result';
+
+/**
+ * One item of a conversation: a message, or a tool call or result made while answering
+ */
+export interface ConversationEntry {
+  id: string;
+  type: ConversationEntryType;
+  role: 'user' | 'assistant' | 'system' | 'tool';
+
+  /** Message text; the arguments of a tool call or the result of a tool as text */
+  content: string;
+
+  toolName?: string;
+  toolCallId?: string;
+
+  /** ID of the message the entry came from, when it had one */
+  messageId?: string;
+
+  /** When the entry was added (timestamp) */
+  createdAt: number;
+}
+
+/**
+ * An entry to append; the ID and time are filled in when missing
+ */
+export type NewConversationEntry = Omit<ConversationEntry, 'id' | 'createdAt'> &
+  Partial<Pick<ConversationEntry, 'id' | 'createdAt'>>;
+
+/**
+ * Record describing a stored conversation
+ */
+export interface Conversation {
+  sessionId: SessionId;
+  userId?: string;
+  agentId?: string;
+
+  /** Start of the first user message */
+  title: string;
+
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Who a conversation belongs to, recorded when its first entries are appended
+ */
+export interface ConversationOwner {
+  userId?: string;
+  agentId?: string;
+}
+
+export interface ConversationPageOptions {
+  /** Entries to skip from the start of the conversation (default 0) */
+  offset?: number;
+
+  /** Entries to return (default 50) */
+  limit?: number;
+}
+
+/**
+ * Entries of a conversation, oldest first
+ */
+export interface ConversationPage {
+  sessionId: SessionId;
+  entries: ConversationEntry[];
+  offset: number;
+  limit: number;
+
+  /** Whether entries follow this page */
+  hasMore: boolean;
+}
+
+export interface ConversationListOptions {
+  offset?: number;
+  limit?: number;
+
+  /** Only conversations with this agent */
+  agentId?: string;
+}
+
+export interface ConversationSearchOptions {
+  /** Results to return (default 20) */
+  limit?: number;
+
+  /** Only conversations with this agent */
+  agentId?: string;
+}
+
+/**
+ * An entry matching a search, with the conversation it belongs to
+ */
+export interface ConversationSearchResult {
+  conversation: Conversation;
+  entry: ConversationEntry;
+
+  /** Part of the entry around the first match */
+  snippet: string;
+
+  /** Higher for entries with more and closer matches */
+  score: number;
+}
+
+export interface ConversationStoreOptions {
+  /** Where conversations are kept (default: in-memory storage) */
+  storage?: StorageProvider;
+
+  /** Storage namespace of the conversations (default `conversations`) */
+  namespace?: string;
+
+  /** How long a conversation is kept after its last entry (default: until deleted) */
+  ttlSeconds?: number;
+
+  /** Most recent conversations of a user a search looks through (default 100) */
+  maxSearchSessions?: number;
+}
+
+/**
+ * Converts messages to conversation entries: text becomes a message entry, and tool
+ * calls and results become entries of their own. Accepts both AgentDock messages and
+ * the response messages of the AI SDK.
+ */
+export function toConversationEntries(messages: (Message | CoreMessage)[]): NewConversationEntry[] {
+  const entries: NewConversationEntry[] = [];
+
+  for (const message of messages) {
+    const messageId = 'id' in message && typeof message.id === 'string' ? message.id : undefined;
+    const role = message.role === 'tool' ? 'tool' : message.role === 'data' ? 'assistant' : message.role;
+
+    if (typeof message.content === 'string') {
+      if (message.content.trim()) {
+        entries.push({ type: 'message', role, content: message.content, messageId });
+      }
+      continue;
+    }
+
+    for (const part of message.content) {
+      if (part.type === 'text' && part.text.trim()) {
+        entries.push({ type: 'message', role, content: part.text, messageId });
+      } else if (part.type === 'tool-call') {
+        entries.push({
+          type: 'tool_call',
+          role: 'assistant',
+          content: toolResultToText(part.args),
+          toolName: part.toolName,
+          toolCallId: part.toolCallId,
+          messageId
+        });
+      } else if (part.type === 'tool-result') {
+        entries.push({
+          type: 'tool_result',
+          role: 'tool',
+          content: toolResultToText(part.result),
+          toolName: part.toolName,
+          toolCallId: part.toolCallId,
+          messageId
+        });
+      }
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Server-side store of conversation history, built on a `StorageProvider`
+ */
+export class ConversationStore {
+  private storage: StorageProvider;
+  private namespace: string;
+  private ttlSeconds?: number;
+  private maxSearchSessions: number;
+
+  constructor(options: ConversationStoreOptions = {}) {
+    this.namespace = options.namespace || DEFAULT_NAMESPACE;
+    this.ttlSeconds = options.ttlSeconds;
+    this.maxSearchSessions = options.maxSearchSessions || DEFAULT_MAX_SEARCH_SESSIONS;
+    this.storage = options.storage || getStorageFactory().getProvider({ type: 'memory', namespace: this.namespace });
+  }
+
+  private get storageOptions(): StorageOptions {
+    return { namespace: this.namespace, ttlSeconds: this.ttlSeconds };
+  }
+
+  /**
+   * Appends entries to a session's conversation, creating the conversation on first use
+   *
+   * @returns The number of entries in the conversation
+   */
+  async append(sessionId: SessionId, entries: NewConversationEntry[], owner: ConversationOwner = {}): Promise<number> {
+    const now = Date.now();
+    const items: ConversationEntry[] = entries.map(entry => ({
+      ...entry,
+      id: entry.id || crypto.randomUUID(),
+      createdAt: entry.createdAt ?? now
+    }));
+
+    await this.touchConversation(sessionId, items, owner, now);
+    const count = await this.appendEntries(`messages:${sessionId}`, items);
+
+    logger.debug(LogCategory.STORAGE, 'ConversationStore', 'Appended conversation entries', {
+      sessionId: sessionId.substring(0, 8) + '...',
+      added: items.length,
+      count
+    });
+    return count;
+  }
+
+  /**
+   * Gets the record of a session's conversation, or null when nothing was stored for it
+   */
+  async getConversation(sessionId: SessionId): Promise<Conversation | null> {
+    return this.storage.get<Conversation>(`conversation:${sessionId}`, { namespace: this.namespace });
+  }
+
+  /**
+   * Gets a page of a session's entries, oldest first
+   */
+  async getMessages(sessionId: SessionId, options: ConversationPageOptions = {}): Promise<ConversationPage> {
+    const offset = Math.max(0, options.offset ?? 0);
+    const limit = Math.max(1, options.limit ?? DEFAULT_PAGE_SIZE);
+
+    // One entry past the page tells whether more follow
+    const entries = await this.storage.getList<ConversationEntry>(
+      `messages:${sessionId}`,
+      offset,
+      offset + limit,
+      { namespace: this.namespace }
+    ) || [];
+
+    return {
+      sessionId,
+      entries: entries.slice(0, limit),
+      offset,
+      limit,
+      hasMore: entries.length > limit
+    };
+  }
+
+  /**
+   * Lists a user's conversations, most recently updated first
+   */
+  async listConversations(userId: string, options: ConversationListOptions = {}): Promise<Conversation[]> {
+    const sessionIds = await this.storage.getList<SessionId>(`user:${userId}`, 0, -1, { namespace: this.namespace }) || [];
+    const keys = [...new Set(sessionIds)].map(sessionId => `conversation:${sessionId}`);
+    if (keys.length === 0) return [];
+
+    const records = await this.storage.getMany<Conversation>(keys, { namespace: this.namespace });
+    const conversations = Object.values(records)
+      .filter((conversation): conversation is Conversation => !!conversation && conversation.userId === userId)
+      .filter(conversation => !options.agentId || conversation.agentId === options.agentId)
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+
+    const offset = options.offset ?? 0;
+    return conversations.slice(offset, options.limit === undefined ? undefined : offset + options.limit);
+  }
+
+  /**
+   * Searches the entries of a user's most recent conversations.
+   * Every term of the query has to occur in an entry for it to match.
+   */
+  async search(userId: string, query: string, options: ConversationSearchOptions = {}): Promise<ConversationSearchResult[]> {
+    const terms = getSearchTerms(query);
+    if (terms.length === 0) return [];
+
+    const conversations = await this.listConversations(userId, {
+      agentId: options.agentId,
+      limit: this.maxSearchSessions
+    });
+
+    const results: ConversationSearchResult[] = [];
+    for (const conversation of conversations) {
+      const entries = await this.storage.getList<ConversationEntry>(
+        `messages:${conversation.sessionId}`,
+        0,
+        -1,
+        { namespace: this.namespace }
+      ) || [];
+
+      for (const entry of entries) {
+        const score = scoreSearchText(entry.content, terms);
+        if (score > 0) {
+          results.push({ conversation, entry, snippet: createSearchSnippet(entry.content, terms), score });
+        }
+      }
+    }
+
+    logger.debug(LogCategory.STORAGE, 'ConversationStore', 'Searched conversations', {
+      terms: terms.length,
+      conversations: conversations.length,
+      matches: results.length
+    });
+
+    return results
+      .sort((a, b) => b.score - a.score || b.entry.createdAt - a.entry.createdAt)
+      .slice(0, options.limit ?? DEFAULT_SEARCH_LIMIT);
+  }
+
+  /**
+   * Removes the entries of a message and everything after it, for when the conversation is
+   * rewound to edit that message. The conversation record is kept.
+   *
+   * @returns The number of entries removed; 0 when no entry came from the message
+   */
+  async truncateFrom(sessionId: SessionId, messageId: string): Promise<number> {
+    const key = `messages:${sessionId}`;
+    const entries = await this.storage.getList<ConversationEntry>(key, 0, -1, { namespace: this.namespace }) || [];
+    const index = entries.findIndex(entry => entry.messageId === messageId);
+    if (index < 0) return 0;
+
+    if (index === 0) {
+      await this.storage.deleteList(key, { namespace: this.namespace });
+    } else {
+      await this.storage.saveList(key, entries.slice(0, index), this.storageOptions);
+    }
+
+    logger.debug(LogCategory.STORAGE, 'ConversationStore', 'Truncated conversation', {
+      sessionId: sessionId.substring(0, 8) + '...',
+      removed: entries.length - index,
+      count: index
+    });
+    return entries.length - index;
+  }
+
+  /**
+   * Copies a conversation into a new session when the session is forked at a message. As with
+   * `truncateFrom`, the entries of that message and everything after it are left out; all entries
+   * are copied when none came from the message. The copy belongs to the same user and agent.
+   *
+   * @returns The number of entries copied, or null when the session has no conversation
+   */
+  async forkConversation(sessionId: SessionId, forkSessionId: SessionId, messageId: string): Promise<number | null> {
+    const source = await this.getConversation(sessionId);
+    if (!source) return null;
+
+    const entries = await this.storage.getList<ConversationEntry>(`messages:${sessionId}`, 0, -1, { namespace: this.namespace }) || [];
+    const index = entries.findIndex(entry => entry.messageId === messageId);
+    const copied = index < 0 ? entries : entries.slice(0, index);
+
+    const now = Date.now();
+    await this.storage.set<Conversation>(`conversation:${forkSessionId}`, {
+      ...source,
+      sessionId: forkSessionId,
+      title: copied.length > 0 ? source.title : '',
+      createdAt: now,
+      updatedAt: now
+    }, this.storageOptions);
+    if (copied.length > 0) {
+      await this.storage.saveList(`messages:${forkSessionId}`, copied, this.storageOptions);
+    }
+    if (source.userId) {
+      await this.appendEntries(`user:${source.userId}`, [forkSessionId]);
+    }
+
+    logger.debug(LogCategory.STORAGE, 'ConversationStore', 'Forked conversation', {
+      sessionId: sessionId.substring(0, 8) + '...',
+      forkSessionId: forkSessionId.substring(0, 8) + '...',
+      count: copied.length
+    });
+    return copied.length;
+  }
+
+  /**
+   * Deletes a session's conversation. It drops out of the user's index when that is next read.
+   *
+   * @returns Whether there was a conversation to delete
+   */
+  async deleteConversation(sessionId: SessionId): Promise<boolean> {
+    const options = { namespace: this.namespace };
+    const [deleted] = await Promise.all([
+      this.storage.delete(`conversation:${sessionId}`, options),
+      this.storage.deleteList(`messages:${sessionId}`, options)
+    ]);
+    return deleted;
+  }
+
+  /**
+   * Creates the conversation record, or refreshes its update time and expiry
+   */
+  private async touchConversation(
+    sessionId: SessionId,
+    entries: ConversationEntry[],
+    owner: ConversationOwner,
+    now: number
+  ): Promise<void> {
+    const key = `conversation:${sessionId}`;
+    const firstUserEntry = entries.find(entry => entry.type === 'message' && entry.role === 'user');
+    const title = firstUserEntry ? firstUserEntry.content.replace(/\s+/g, ' ').trim().slice(0, MAX_TITLE_LENGTH) : '';
+    const existing = await this.getConversation(sessionId);
+
+    if (existing) {
+      await this.storage.set<Conversation>(key, { ...existing, title: existing.title || title, updatedAt: now }, this.storageOptions);
+      return;
+    }
+
+    const conversation: Conversation = {
+      sessionId,
+      ...(owner.userId && { userId: owner.userId }),
+      ...(owner.agentId && { agentId: owner.agentId }),
+      title,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    // Only the call that creates the record indexes it, when the provider can tell which one did
+    if (this.storage.compareAndSet) {
+      if (!(await this.storage.compareAndSet<Conversation>(key, null, conversation, this.storageOptions))) return;
+    } else {
+      await this.storage.set<Conversation>(key, conversation, this.storageOptions);
+    }
+
+    if (owner.userId) {
+      await this.appendEntries(`user:${owner.userId}`, [sessionId]);
+    }
+  }
+
+  /**
+   * Appends to a list, atomically when the provider supports it
+   */
+  private async appendEntries<T>(key: string, values: T[]): Promise<number> {
+    if (this.storage.appendToList) {
+      return this.storage.appendToList(key, values, this.storageOptions);
+    }
+
+    const current = await this.storage.getList<T>(key, 0, -1, { namespace: this.namespace }) || [];
+    const updated = [...current, ...values];
+    await this.storage.saveList(key, updated, this.storageOptions);
+    return updated.length;
+  }
+}
@@ -43,6 +43,7 @@ export enum ErrorCode {
   DECRYPTION_FAILED = 'DECRYPTION_FAILED',
   TAMPERING_DETECTED = 'TAMPERING_DETECTED',
   MAX_RETRIES_EXCEEDED = 'MAX_RETRIES_EXCEEDED',
+  STORAGE_LOCKED = 'STORAGE_LOCKED',
   
   // Generic errors
   UNKNOWN = 'UNKNOWN_ERROR',
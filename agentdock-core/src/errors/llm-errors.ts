@@ -168,6 +168,28 @@ const ERROR_PATTERNS: Record<LLMProvider | 'byok', ProviderErrorPattern[]> = {
       userMessage: "Invalid Groq API key. Please check your credentials."
     }
   ],
+
+  // Self-hosted OpenAI-compatible servers (vLLM, llama.cpp server, Ollama)
+  'openai-compatible': [
+    {
+      pattern: /context\s*length|maximum\s*context\s*length|token\s*limit/i,
+      errorCode: ErrorCodes.LLM_EXECUTION,
+      statusCode: 400,
+      userMessage: "The prompt exceeds the model server's maximum context length. Please reduce your input."
+    },
+    {
+      pattern: /invalid\s*api\s*key|api\s*key\s*invalid|authentication|unauthorized/i,
+      errorCode: ErrorCodes.LLM_API_KEY,
+      statusCode: 401,
+      userMessage: "The model server rejected the API key. Please check your credentials."
+    },
+    {
+      pattern: /ECONNREFUSED|fetch\s*failed|service\s*unavailable|5\d\d/i,
+      errorCode: ErrorCodes.SERVICE_UNAVAILABLE,
+      statusCode: 503,
+      userMessage: "The model server is not reachable. Please check that it is running and that the base URL is correct."
+    }
+  ],
   
   // BYOK mode error patterns
   byok: [
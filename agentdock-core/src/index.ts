@@ -97,6 +97,16 @@ export * from './llm';
  */
 export * from './session';
 
+//=============================================================================
+// Conversation history
+//=============================================================================
+
+/**
+ * Server-side conversation history
+ * For reopening and searching past conversations
+ */
+export * from './conversations';
+
 //=============================================================================
 // Orchestration system
 //=============================================================================
@@ -109,8 +119,26 @@ import {
   OrchestrationManager,
   createOrchestrationManager,
   OrchestrationStateManager,
-  StepSequencer
+  StepSequencer,
+  createToolViolationResult,
+  describeSequence,
+  withToolEnforcement
 } from './orchestration/index';
+import type { OrchestrationStateSnapshot, ToolCallAuthorization, ToolViolationResult } from './orchestration/index';
+import {
+  simulateOrchestration,
+  SimulationScriptSchema
+} from './orchestration/simulator';
+import type {
+  SimulationScript,
+  SimulationTurn,
+  SimulationToolCall,
+  SimulationExpectation,
+  SimulationOptions,
+  SimulationResult,
+  SimulatedTurn,
+  SimulatedToolCall
+} from './orchestration/simulator';
 
 // Export all orchestration components explicitly
 export {
@@ -119,7 +147,25 @@ export {
   createOrchestrationManager,
   
   OrchestrationStateManager,
-  StepSequencer
+  StepSequencer,
+  createToolViolationResult,
+  describeSequence,
+  withToolEnforcement,
+
+  // From orchestration/simulator.ts
+  simulateOrchestration,
+  SimulationScriptSchema
+};
+export type { OrchestrationStateSnapshot, ToolCallAuthorization, ToolViolationResult };
+export type {
+  SimulationScript,
+  SimulationTurn,
+  SimulationToolCall,
+  SimulationExpectation,
+  SimulationOptions,
+  SimulationResult,
+  SimulatedTurn,
+  SimulatedToolCall
 };
 
 // Re-export the orchestration types
@@ -155,7 +201,8 @@ export {
  */
 export {
   createSystemPrompt,
-  addOrchestrationToPrompt
+  addOrchestrationToPrompt,
+  formatDynamicState
 } from './utils/prompt-utils';
 
 //=============================================================================
@@ -0,0 +1,392 @@
+/**
+ * @jest-environment node
+ */
+
+import type { EmbeddingModel, LanguageModelV1, LanguageModelV1StreamPart } from 'ai';
+import { z } from 'zod';
+import { CoreLLM, createLLM } from '..';
+import { CachedLanguageModel, LLMCacheOptions } from '../cache';
+import { createAnthropicModel } from '../model-utils';
+import { LLMConfig } from '../types';
+import { AgentNode } from '../../nodes/agent-node';
+import { OrchestrationManager } from '../../orchestration';
+import { MemoryStorageProvider } from '../../storage/providers/memory-provider';
+
+jest.mock('../../logging');
+
+// Provider adapters hand back scripted models instead of SDK clients
+jest.mock('../model-utils', () => ({
+  createAnthropicModel: jest.fn(),
+  createOpenAIModel: jest.fn(),
+  createGeminiModel: jest.fn(),
+  createDeepSeekModel: jest.fn(),
+  createGroqModel: jest.fn(),
+  createOpenAICompatibleModel: jest.fn()
+}));
+
+/**
+ * A model that answers every call with the given stream parts, counting its calls
+ */
+function scriptedModel(parts: LanguageModelV1StreamPart[] = [
+  { type: 'text-delta', textDelta: 'Paris is the ' },
+  { type: 'text-delta', textDelta: 'capital of France.' },
+  { type: 'finish', finishReason: 'stop', usage: { promptTokens: 12, completionTokens: 6 } }
+]) {
+  const finish = parts.find(part => part.type === 'finish') as Extract<LanguageModelV1StreamPart, { type: 'finish' }>;
+  return {
+    specificationVersion: 'v1',
+    provider: 'anthropic.messages',
+    modelId: 'claude-3-7-sonnet',
+    defaultObjectGenerationMode: 'json',
+    doGenerate: jest.fn(async () => ({
+      text: parts.map(part => (part.type === 'text-delta' ? part.textDelta : '')).join(''),
+      toolCalls: parts.flatMap(part => (part.type === 'tool-call' ? [part] : [])),
+      finishReason: finish.finishReason,
+      usage: finish.usage,
+      rawCall: { rawPrompt: null, rawSettings: {} }
+    })),
+    doStream: jest.fn(async () => ({
+      stream: new ReadableStream({
+        start(controller) {
+          parts.forEach(part => controller.enqueue(part));
+          controller.close();
+        }
+      }),
+      rawCall: { rawPrompt: null, rawSettings: {} }
+    }))
+  } as unknown as LanguageModelV1 & { doGenerate: jest.Mock; doStream: jest.Mock };
+}
+
+/**
+ * Embeds text as the keywords it mentions, so rephrasings of a question land on the same vector
+ */
+function keywordEmbeddingModel() {
+  const keywords = ['capital', 'france', 'weather', 'paris'];
+  return {
+    specificationVersion: 'v1',
+    provider: 'test',
+    modelId: 'keywords',
+    maxEmbeddingsPerCall: 1,
+    supportsParallelCalls: true,
+    doEmbed: jest.fn(async ({ values }: { values: string[] }) => ({
+      embeddings: values.map(value => keywords.map(keyword => (value.toLowerCase().includes(keyword) ? 1 : 0)))
+    }))
+  } as unknown as EmbeddingModel<string> & { doEmbed: jest.Mock };
+}
+
+function createCachedLLM(model: LanguageModelV1, options: LLMCacheOptions) {
+  return new CoreLLM({
+    model: new CachedLanguageModel(model, options),
+    config: { provider: 'anthropic', apiKey: 'sk-ant-test', model: model.modelId }
+  });
+}
+
+async function streamToText(llm: CoreLLM, options: Parameters<CoreLLM['streamText']>[0]) {
+  const result = await llm.streamText(options);
+  let text = '';
+  for await (const delta of result.textStream) {
+    text += delta;
+  }
+  return { text, result };
+}
+
+const ask = (content: string) => [{ role: 'user' as const, content }];
+
+describe('CachedLanguageModel', () => {
+  let storage: MemoryStorageProvider;
+
+  beforeEach(() => {
+    storage = new MemoryStorageProvider({ namespace: 'cache-test' });
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await storage.destroy();
+  });
+
+  it('replays a cached response as a stream and reports it in the token usage', async () => {
+    const model = scriptedModel();
+    const llm = createCachedLLM(model, { storage });
+
+    const first = await streamToText(llm, { messages: ask('What is the capital of France?') });
+    expect(llm.getLastTokenUsage()).toMatchObject({ promptTokens: 12, completionTokens: 6, cacheStatus: 'miss' });
+
+    const second = await streamToText(llm, { messages: ask('What is the capital of France?') });
+    expect(second.text).toBe(first.text);
+    expect(second.text).toBe('Paris is the capital of France.');
+    expect(model.doStream).toHaveBeenCalledTimes(1);
+    expect(llm.getLastTokenUsage()).toMatchObject({
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 0,
+      cacheStatus: 'hit',
+      cachedTokens: 18
+    });
+  });
+
+  it('answers generateText from the cache too', async () => {
+    const model = scriptedModel();
+    const llm = createCachedLLM(model, { storage });
+
+    await llm.generateText({ messages: ask('What is the capital of France?') });
+    const result = await llm.generateText({ messages: ask('What is the capital of France?') });
+
+    expect(result.text).toBe('Paris is the capital of France.');
+    expect(model.doGenerate).toHaveBeenCalledTimes(1);
+    expect(llm.getLastTokenUsage()).toMatchObject({ cacheStatus: 'hit', cachedTokens: 18 });
+  });
+
+  it('replays tool calls', async () => {
+    const model = scriptedModel([
+      { type: 'tool-call', toolCallType: 'function', toolCallId: 'call-1', toolName: 'search', args: '{"query":"capital of France"}' },
+      { type: 'finish', finishReason: 'tool-calls', usage: { promptTokens: 20, completionTokens: 8 } }
+    ]);
+    const llm = createCachedLLM(model, { storage });
+    const tools = { search: { description: 'Searches the web', parameters: z.object({ query: z.string() }) } };
+
+    await streamToText(llm, { messages: ask('Look up the capital of France'), tools });
+    const result = await llm.generateText({ messages: ask('Look up the capital of France'), tools });
+
+    expect(model.doStream).toHaveBeenCalledTimes(1);
+    expect(model.doGenerate).not.toHaveBeenCalled();
+    expect(result.toolCalls).toEqual([
+      expect.objectContaining({ toolCallId: 'call-1', toolName: 'search', args: { query: 'capital of France' } })
+    ]);
+  });
+
+  it('keys entries on the model, call settings and tools', async () => {
+    const model = scriptedModel();
+    const llm = createCachedLLM(model, { storage });
+    const tools = { search: { description: 'Searches the web', parameters: z.object({ query: z.string() }) } };
+
+    await llm.generateText({ messages: ask('Hi'), temperature: 0 });
+    await llm.generateText({ messages: ask('Hi'), temperature: 0.7 });
+    await llm.generateText({ messages: ask('Hi'), temperature: 0, tools });
+    await llm.generateText({ messages: ask('Hi there'), temperature: 0 });
+    await llm.generateText({ messages: ask('Hi'), temperature: 0, maxTokens: 50 });
+    await llm.generateText({ messages: ask('Hi'), temperature: 0, topP: 0.5 });
+    await llm.generateText({ messages: ask('Hi'), temperature: 0, stopSequences: ['\n'] });
+    expect(model.doGenerate).toHaveBeenCalledTimes(7);
+
+    await llm.generateText({ messages: ask('Hi'), temperature: 0, maxTokens: 50 });
+    expect(model.doGenerate).toHaveBeenCalledTimes(7);
+
+    const otherModel = { ...scriptedModel(), modelId: 'claude-3-5-haiku' } as ReturnType<typeof scriptedModel>;
+    await createCachedLLM(otherModel, { storage }).generateText({ messages: ask('Hi'), temperature: 0 });
+    expect(otherModel.doGenerate).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps entries of different scopes apart', async () => {
+    const model = scriptedModel();
+    await createCachedLLM(model, { storage, scope: 'user-a' }).generateText({ messages: ask('Hi') });
+    await createCachedLLM(model, { storage, scope: 'user-b' }).generateText({ messages: ask('Hi') });
+    expect(model.doGenerate).toHaveBeenCalledTimes(2);
+
+    await createCachedLLM(model, { storage, scope: 'user-a' }).generateText({ messages: ask('Hi') });
+    expect(model.doGenerate).toHaveBeenCalledTimes(2);
+  });
+
+  it('leaves excluded messages out of the key', async () => {
+    const model = scriptedModel();
+    const llm = createCachedLLM(model, {
+      storage,
+      excludeFromKey: message => message.role === 'system' && message.content.startsWith('Current time:')
+    });
+    const withTime = (time: string) => [
+      { role: 'system' as const, content: `Current time: ${time}` },
+      ...ask('Hi')
+    ];
+
+    await llm.generateText({ messages: withTime('09:00') });
+    await llm.generateText({ messages: withTime('17:30') });
+    expect(model.doGenerate).toHaveBeenCalledTimes(1);
+    expect(model.doGenerate.mock.calls[0][0].prompt[0]).toMatchObject({ role: 'system', content: 'Current time: 09:00' });
+  });
+
+  it('expires entries after their TTL', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+    const model = scriptedModel();
+    const llm = createCachedLLM(model, { storage, ttlSeconds: 60 });
+
+    await llm.generateText({ messages: ask('Hi') });
+    now.mockReturnValue(1_000_000 + 59_000);
+    await llm.generateText({ messages: ask('Hi') });
+    expect(model.doGenerate).toHaveBeenCalledTimes(1);
+
+    now.mockReturnValue(1_000_000 + 61_000);
+    await llm.generateText({ messages: ask('Hi') });
+    expect(model.doGenerate).toHaveBeenCalledTimes(2);
+  });
+
+  it('matches similar messages after the same conversation in similarity mode', async () => {
+    const model = scriptedModel();
+    const embeddingModel = keywordEmbeddingModel();
+    const llm = createCachedLLM(model, { storage, similarity: { embeddingModel, threshold: 0.9 } });
+
+    await llm.generateText({ messages: ask('What is the capital of France?') });
+    const similar = await llm.generateText({ messages: ask('france: capital city?') });
+    expect(similar.text).toBe('Paris is the capital of France.');
+    expect(model.doGenerate).toHaveBeenCalledTimes(1);
+
+    await llm.generateText({ messages: ask('How is the weather in Paris?') });
+    expect(model.doGenerate).toHaveBeenCalledTimes(2);
+
+    // The same question in another conversation is a different context
+    await llm.generateText({
+      messages: [
+        { role: 'user', content: 'I am planning a trip.' },
+        { role: 'assistant', content: 'Where to?' },
+        { role: 'user', content: 'What is the capital of France?' }
+      ]
+    });
+    expect(model.doGenerate).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not cache responses that ended in an error', async () => {
+    const model = scriptedModel([
+      { type: 'text-delta', textDelta: 'Paris' },
+      { type: 'error', error: new Error('Overloaded') },
+      { type: 'finish', finishReason: 'error', usage: { promptTokens: 12, completionTokens: 1 } }
+    ]);
+    const llm = createCachedLLM(model, { storage });
+
+    await streamToText(llm, { messages: ask('Hi') });
+    await streamToText(llm, { messages: ask('Hi') });
+
+    expect(model.doStream).toHaveBeenCalledTimes(2);
+    expect(await storage.list('', { namespace: 'llm-cache' })).toEqual([]);
+  });
+
+  it('calls the model when the cache cannot be read', async () => {
+    const model = scriptedModel();
+    jest.spyOn(storage, 'get').mockRejectedValue(new Error('Connection refused'));
+    const cached = new CachedLanguageModel(model, { storage });
+    const llm = new CoreLLM({ model: cached, config: { provider: 'anthropic', apiKey: 'sk-ant-test', model: model.modelId } });
+
+    const result = await llm.generateText({ messages: ask('Hi') });
+
+    expect(result.text).toBe('Paris is the capital of France.');
+    await expect(cached.getCacheStatus()).resolves.toBe('miss');
+  });
+
+  it('wraps models created through createLLM when the config enables the cache', async () => {
+    const model = scriptedModel();
+    (createAnthropicModel as jest.Mock).mockReturnValue(model);
+    const config: LLMConfig = { provider: 'anthropic', apiKey: 'sk-ant-test', model: 'claude-3-7-sonnet', cache: { storage } };
+
+    await createLLM(config).generateText({ messages: ask('Hi') });
+    await createLLM(config).generateText({ messages: ask('Hi') });
+
+    expect(model.doGenerate).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('AgentNode response cache', () => {
+  let storage: MemoryStorageProvider;
+  let model: ReturnType<typeof scriptedModel>;
+
+  const agentConfig = (cache?: unknown, orchestration?: unknown) => ({
+    version: '1.0',
+    agentId: 'cached-agent',
+    name: 'Cached Agent',
+    description: '',
+    personality: 'You help.' as any,
+    nodes: ['llm.anthropic'],
+    nodeConfigurations: {
+      'llm.anthropic': { model: 'claude-3-7-sonnet', ...(cache ? { cache } : {}) }
+    },
+    chatSettings: {},
+    ...(orchestration ? { orchestration } : {})
+  });
+
+  const createAgent = (cache?: unknown, orchestration?: unknown, scope: string | null = 'user-a') =>
+    new AgentNode('agent', { apiKey: 'sk-ant-test', agentConfig: agentConfig(cache, orchestration) as any, cache: { storage, scope: scope ?? undefined } });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    storage = new MemoryStorageProvider({ namespace: 'agent-cache-test' });
+    model = scriptedModel();
+    (createAnthropicModel as jest.Mock).mockImplementation((config: LLMConfig) => ({ ...model, modelId: config.model }));
+  });
+
+  afterEach(async () => {
+    await storage.destroy();
+  });
+
+  async function send(agent: AgentNode, sessionId: string) {
+    const orchestrationManager = new OrchestrationManager({ storageProvider: storage });
+    const result = await agent.handleMessage({
+      messages: [{ id: 'msg-1', role: 'user', content: 'What is the capital of France?', createdAt: new Date(0) }] as any,
+      sessionId,
+      orchestrationManager
+    });
+    let text = '';
+    for await (const delta of result.textStream) {
+      text += delta;
+    }
+    return text;
+  }
+
+  it('answers a repeated message from the cache declared in the LLM node configuration', async () => {
+    const first = createAgent({ ttlSeconds: 600 });
+    expect(await send(first, 'session-a')).toBe('Paris is the capital of France.');
+    await expect(first.getCacheStatus()).resolves.toBe('miss');
+
+    const second = createAgent({ ttlSeconds: 600 });
+    expect(await send(second, 'session-b')).toBe('Paris is the capital of France.');
+    await expect(second.getCacheStatus()).resolves.toBe('hit');
+    await expect(second.getAnsweringProvider()).resolves.toEqual({ provider: 'anthropic', model: 'claude-3-7-sonnet' });
+    expect(model.doStream).toHaveBeenCalledTimes(1);
+  });
+
+  it('still tells the model the current time', async () => {
+    await send(createAgent({ ttlSeconds: 600 }), 'session-a');
+    const prompt = JSON.stringify(model.doStream.mock.calls[0][0].prompt);
+    expect(prompt).toContain('Current time:');
+    expect(prompt).toContain('ISO timestamp:');
+  });
+
+  it('keeps one user\'s answers from another unless the template shares them', async () => {
+    await send(createAgent({ ttlSeconds: 600 }, undefined, 'user-a'), 'session-a');
+    const otherUser = createAgent({ ttlSeconds: 600 }, undefined, 'user-b');
+    await send(otherUser, 'session-b');
+    await expect(otherUser.getCacheStatus()).resolves.toBe('miss');
+
+    await send(createAgent({ ttlSeconds: 600, shared: true }, undefined, 'user-a'), 'session-c');
+    const sharing = createAgent({ ttlSeconds: 600, shared: true }, undefined, 'user-b');
+    await send(sharing, 'session-d');
+    await expect(sharing.getCacheStatus()).resolves.toBe('hit');
+    expect(model.doStream).toHaveBeenCalledTimes(3);
+  });
+
+  it('leaves an unshared cache off without a scope', async () => {
+    const agent = createAgent({ ttlSeconds: 600 }, undefined, null);
+    await expect(agent.getCacheStatus()).resolves.toBeUndefined();
+  });
+
+  it('routes with a model of its own, so the classification is neither cached nor reported', async () => {
+    model.doGenerate.mockResolvedValue({
+      text: JSON.stringify({ step: 'General', confidence: 0.9, reason: 'A general question' }),
+      finishReason: 'stop',
+      usage: { promptTokens: 30, completionTokens: 10 },
+      rawCall: { rawPrompt: null, rawSettings: {} }
+    });
+    const orchestration = { router: {}, steps: [{ name: 'General', description: 'Answers questions', isDefault: true }] };
+
+    const agent = createAgent({ ttlSeconds: 600 }, orchestration);
+    expect(await send(agent, 'session-a')).toBe('Paris is the capital of France.');
+
+    expect(model.doGenerate).toHaveBeenCalledTimes(1);
+    await expect(agent.getCacheStatus()).resolves.toBe('miss');
+    expect(await storage.list('', { namespace: 'llm-cache' })).toHaveLength(1);
+  });
+
+  it('leaves the cache off unless the template enables it', async () => {
+    const agent = createAgent();
+    await expect(agent.getCacheStatus()).resolves.toBeUndefined();
+  });
+
+  it('rejects an invalid cache configuration', () => {
+    expect(() => createAgent({ ttlSeconds: -5 })).toThrow('Invalid cache configuration');
+  });
+});
@@ -0,0 +1,294 @@
+/**
+ * @jest-environment node
+ */
+
+import type { LanguageModelV1 } from 'ai';
+import { CoreLLM, createLLM } from '..';
+import { ErrorCode } from '../../errors';
+import { AgentNode } from '../../nodes/agent-node';
+import {
+  CircuitBreakerRegistry,
+  FailoverLanguageModel,
+  FailoverTarget,
+  classifyProviderError,
+  getCircuitBreakerKey
+} from '../failover';
+import { parseProviderError } from '../../errors/llm-errors';
+import { createAnthropicModel, createGroqModel, createOpenAIModel } from '../model-utils';
+import { LLMConfig } from '../types';
+
+jest.mock('../../logging');
+
+// Provider adapters hand back scripted models instead of SDK clients
+jest.mock('../model-utils', () => ({
+  createAnthropicModel: jest.fn(),
+  createOpenAIModel: jest.fn(),
+  createGeminiModel: jest.fn(),
+  createDeepSeekModel: jest.fn(),
+  createGroqModel: jest.fn()
+}));
+
+/**
+ * A model that fails with the given error messages, in order, and answers once they run out
+ */
+function scriptedModel(provider: string, modelId: string, failures: string[] = [], text = `Hello from ${provider}`) {
+  const remaining = [...failures];
+  const answer = async () => {
+    const failure = remaining.shift();
+    if (failure) throw new Error(failure);
+  };
+
+  return {
+    specificationVersion: 'v1',
+    provider,
+    modelId,
+    defaultObjectGenerationMode: 'json',
+    doGenerate: jest.fn(async () => {
+      await answer();
+      return {
+        text,
+        finishReason: 'stop',
+        usage: { promptTokens: 3, completionTokens: 4 },
+        rawCall: { rawPrompt: null, rawSettings: {} }
+      };
+    }),
+    doStream: jest.fn(async () => {
+      await answer();
+      return {
+        stream: new ReadableStream({
+          start(controller) {
+            controller.enqueue({ type: 'text-delta', textDelta: text });
+            controller.enqueue({ type: 'finish', finishReason: 'stop', usage: { promptTokens: 3, completionTokens: 4 } });
+            controller.close();
+          }
+        }),
+        rawCall: { rawPrompt: null, rawSettings: {} }
+      };
+    })
+  } as unknown as LanguageModelV1 & { doGenerate: jest.Mock; doStream: jest.Mock };
+}
+
+function createChainLLM(targets: FailoverTarget[], breakers: CircuitBreakerRegistry, failureThreshold = 2) {
+  const model = new FailoverLanguageModel(targets, { breakers, circuitBreaker: { failureThreshold, cooldownMs: 1000 } });
+  return { model, llm: new CoreLLM({ model, config: { provider: 'anthropic', apiKey: 'sk-ant-test', model: model.modelId } }) };
+}
+
+const messages = [{ role: 'user' as const, content: 'Hi' }];
+
+describe('classifyProviderError', () => {
+  it('maps parsed provider errors to failure categories', () => {
+    expect(classifyProviderError(parseProviderError(new Error('Overloaded'), 'anthropic'))).toBe('transient');
+    expect(classifyProviderError(parseProviderError(new Error('Rate limit reached'), 'openai'))).toBe('transient');
+    expect(classifyProviderError(parseProviderError(new Error('fetch failed'), 'groq'))).toBe('transient');
+    expect(classifyProviderError(parseProviderError(new Error('Invalid API key'), 'openai'))).toBe('auth');
+    expect(classifyProviderError(parseProviderError(new Error('maximum context length exceeded'), 'openai'))).toBe('request');
+  });
+});
+
+describe('FailoverLanguageModel', () => {
+  let now: number;
+  let breakers: CircuitBreakerRegistry;
+
+  beforeEach(() => {
+    now = 0;
+    breakers = new CircuitBreakerRegistry(() => now);
+  });
+
+  it('moves down the chain when a provider fails and reports who answered', async () => {
+    const anthropic = scriptedModel('anthropic.messages', 'claude-3-7-sonnet', ['Overloaded']);
+    const openai = scriptedModel('openai.chat', 'gpt-4o');
+    const { model, llm } = createChainLLM([
+      { provider: 'anthropic', model: anthropic },
+      { provider: 'openai', model: openai }
+    ], breakers);
+
+    const result = await llm.generateText({ messages });
+
+    expect(result.text).toBe('Hello from openai.chat');
+    expect(anthropic.doGenerate).toHaveBeenCalledTimes(1);
+    await expect(model.getAnsweringProvider()).resolves.toEqual({ provider: 'openai', model: 'gpt-4o' });
+    expect(breakers.getState('anthropic')).toMatchObject({ consecutiveFailures: 1, lastFailure: 'transient' });
+  });
+
+  it('fails over when a stream cannot be started', async () => {
+    const anthropic = scriptedModel('anthropic.messages', 'claude-3-7-sonnet', ['Rate limit exceeded']);
+    const groq = scriptedModel('groq.chat', 'llama-3.3-70b');
+    const { model, llm } = createChainLLM([
+      { provider: 'anthropic', model: anthropic },
+      { provider: 'groq', model: groq }
+    ], breakers);
+
+    const result = await llm.streamText({ messages });
+    let text = '';
+    for await (const delta of result.textStream) {
+      text += delta;
+    }
+
+    expect(text).toBe('Hello from groq.chat');
+    await expect(model.getAnsweringProvider()).resolves.toEqual({ provider: 'groq', model: 'llama-3.3-70b' });
+  });
+
+  it('skips a provider while its breaker is open and lets it back in after the cooldown', async () => {
+    const anthropic = scriptedModel('anthropic.messages', 'claude-3-7-sonnet', ['Overloaded', 'Overloaded']);
+    const openai = scriptedModel('openai.chat', 'gpt-4o');
+    const { model, llm } = createChainLLM([
+      { provider: 'anthropic', model: anthropic },
+      { provider: 'openai', model: openai }
+    ], breakers);
+
+    await llm.generateText({ messages });
+    await llm.generateText({ messages });
+    expect(breakers.isAvailable('anthropic')).toBe(false);
+
+    await llm.generateText({ messages });
+    expect(anthropic.doGenerate).toHaveBeenCalledTimes(2);
+    expect(model.getLastAnsweringProvider()?.provider).toBe('openai');
+
+    now = 1000;
+    await llm.generateText({ messages });
+    expect(anthropic.doGenerate).toHaveBeenCalledTimes(3);
+    expect(model.getLastAnsweringProvider()?.provider).toBe('anthropic');
+    expect(breakers.getState('anthropic')).toBeUndefined();
+  });
+
+  it('opens the breaker at once when a key is rejected', async () => {
+    const openai = scriptedModel('openai.chat', 'gpt-4o', ['Invalid API key provided']);
+    const groq = scriptedModel('groq.chat', 'llama-3.3-70b');
+    const { llm } = createChainLLM([
+      { provider: 'openai', model: openai },
+      { provider: 'groq', model: groq }
+    ], breakers, 5);
+
+    await llm.generateText({ messages });
+
+    expect(breakers.isAvailable('openai')).toBe(false);
+    expect(breakers.getState('openai')?.lastFailure).toBe('auth');
+  });
+
+  it('keeps a rejected key from taking other keys for the provider out of rotation', async () => {
+    const rejected = scriptedModel('openai.chat', 'gpt-4o', ['Invalid API key provided']);
+    const valid = scriptedModel('openai.chat', 'gpt-4o');
+    const groq = scriptedModel('groq.chat', 'llama-3.3-70b');
+
+    await createChainLLM([
+      { provider: 'openai', model: rejected, apiKey: 'sk-user-typo' },
+      { provider: 'groq', model: groq }
+    ], breakers).llm.generateText({ messages });
+    const { model, llm } = createChainLLM([
+      { provider: 'openai', model: valid, apiKey: 'sk-user-valid' },
+      { provider: 'groq', model: groq }
+    ], breakers);
+    await llm.generateText({ messages });
+
+    expect(breakers.isAvailable(await getCircuitBreakerKey('openai', 'sk-user-typo'))).toBe(false);
+    expect(breakers.isAvailable('openai')).toBe(true);
+    expect(model.getLastAnsweringProvider()?.provider).toBe('openai');
+    expect(await getCircuitBreakerKey('openai', 'sk-user-typo')).not.toContain('typo');
+  });
+
+  it('does not fail over when the request itself is refused', async () => {
+    const openai = scriptedModel('openai.chat', 'gpt-4o', ['This model\'s maximum context length is 128000 tokens']);
+    const groq = scriptedModel('groq.chat', 'llama-3.3-70b');
+    const { model, llm } = createChainLLM([
+      { provider: 'openai', model: openai },
+      { provider: 'groq', model: groq }
+    ], breakers);
+
+    await expect(llm.generateText({ messages })).rejects.toThrow('maximum context length');
+
+    expect(groq.doGenerate).not.toHaveBeenCalled();
+    expect(breakers.isAvailable('openai')).toBe(true);
+    await expect(model.getAnsweringProvider()).resolves.toBeUndefined();
+  });
+
+  it('reports the last error when every provider fails, and refuses calls while all are cooling down', async () => {
+    const anthropic = scriptedModel('anthropic.messages', 'claude-3-7-sonnet', ['Overloaded']);
+    const openai = scriptedModel('openai.chat', 'gpt-4o', ['Rate limit reached']);
+    const model = new FailoverLanguageModel([
+      { provider: 'anthropic', model: anthropic },
+      { provider: 'openai', model: openai }
+    ], { breakers, circuitBreaker: { failureThreshold: 1, cooldownMs: 1000 } });
+
+    await expect(model.doGenerate({} as any)).rejects.toMatchObject({ code: ErrorCode.LLM_RATE_LIMIT });
+    await expect(model.getAnsweringProvider()).resolves.toBeUndefined();
+
+    await expect(model.doGenerate({} as any)).rejects.toMatchObject({ code: ErrorCode.SERVICE_UNAVAILABLE });
+    expect(anthropic.doGenerate).toHaveBeenCalledTimes(1);
+    expect(openai.doGenerate).toHaveBeenCalledTimes(1);
+  });
+
+  it('chains models created through the provider adapters', async () => {
+    (createAnthropicModel as jest.Mock).mockImplementation((config: LLMConfig) =>
+      scriptedModel('anthropic.messages', config.model, ['Service unavailable']));
+    (createOpenAIModel as jest.Mock).mockImplementation((config: LLMConfig) =>
+      scriptedModel('openai.chat', config.model));
+
+    const primary = createLLM({ provider: 'anthropic', apiKey: 'sk-ant-test', model: 'claude-3-7-sonnet' });
+    const backup = createLLM({ provider: 'openai', apiKey: 'sk-test', model: 'gpt-4o-mini' });
+    const { model, llm } = createChainLLM([
+      { provider: 'anthropic', model: primary.getModel() as LanguageModelV1 },
+      { provider: 'openai', model: backup.getModel() as LanguageModelV1 }
+    ], breakers);
+
+    const result = await llm.generateText({ messages });
+
+    expect(result.text).toBe('Hello from openai.chat');
+    expect(llm.getModelId()).toBe('claude-3-7-sonnet');
+    expect(model.getLastAnsweringProvider()).toEqual({ provider: 'openai', model: 'gpt-4o-mini' });
+  });
+});
+
+describe('AgentNode failover chains', () => {
+  const agentConfig = (failover?: unknown) => ({
+    version: '1.0',
+    agentId: 'failover-agent',
+    name: 'Failover Agent',
+    description: '',
+    personality: 'You help.' as any,
+    nodes: ['llm.anthropic'],
+    nodeConfigurations: {
+      'llm.anthropic': { model: 'claude-3-7-sonnet', ...(failover ? { failover } : {}) },
+      'llm.groq': { model: 'llama-3.3-70b' }
+    },
+    chatSettings: {}
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    (createAnthropicModel as jest.Mock).mockImplementation((config: LLMConfig) => scriptedModel('anthropic.messages', config.model));
+    (createOpenAIModel as jest.Mock).mockImplementation((config: LLMConfig) => scriptedModel('openai.chat', config.model));
+    (createGroqModel as jest.Mock).mockImplementation((config: LLMConfig) => scriptedModel('groq.chat', config.model));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('builds the chain from the node configuration, leaving out providers without keys', () => {
+    new AgentNode('agent', {
+      apiKey: 'sk-ant-test',
+      provider: 'anthropic',
+      agentConfig: agentConfig({ chain: [{ provider: 'openai', model: 'gpt-4o' }, { provider: 'groq' }] }),
+      failoverApiKeys: { groq: 'gsk_test' }
+    });
+
+    expect(createOpenAIModel).not.toHaveBeenCalled();
+    // Groq has no model in the chain, so its own node configuration is used
+    expect(createGroqModel).toHaveBeenCalledWith(expect.objectContaining({ provider: 'groq', model: 'llama-3.3-70b' }));
+  });
+
+  it('reports the primary provider when there is no chain', async () => {
+    const agent = new AgentNode('agent', { apiKey: 'sk-ant-test', provider: 'anthropic', agentConfig: agentConfig() });
+
+    await expect(agent.getAnsweringProvider()).resolves.toEqual({ provider: 'anthropic', model: 'claude-3-7-sonnet' });
+  });
+
+  it('rejects an invalid chain', () => {
+    expect(() => new AgentNode('agent', {
+      apiKey: 'sk-ant-test',
+      provider: 'anthropic',
+      agentConfig: agentConfig({ chain: [{ provider: 'mistral' }] })
+    })).toThrow('Invalid failover configuration');
+  });
+});
@@ -22,6 +22,15 @@ describe('LLMOrchestrationService', () => {
   const sessionId: SessionId = 'test-session-id';
   let mockCoreLLM: ReturnType<typeof createMockCoreLLM>;
   let mockOrchestrationManager: ReturnType<typeof createMockOrchestrationManager>;
+  const storedState = {
+    cumulativeTokenUsage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+    recentlyUsedTools: [] as string[]
+  };
+
+  // Updates computed from the current state are applied to the stored state
+  const appliedUpdates = () => (mockOrchestrationManager.updateState as jest.Mock).mock.calls.map(
+    ([, update]) => typeof update === 'function' ? update(storedState) : update
+  );
 
   beforeEach(() => {
     jest.clearAllMocks();
@@ -49,10 +58,7 @@ describe('LLMOrchestrationService', () => {
     });
     
     mockOrchestrationManager = createMockOrchestrationManager({
-      getState: jest.fn().mockResolvedValue({ 
-        cumulativeTokenUsage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 }, 
-        recentlyUsedTools: [] 
-      })
+      getState: jest.fn().mockResolvedValue(storedState)
     });
     
     service = new LLMOrchestrationService(mockCoreLLM, mockOrchestrationManager, sessionId);
@@ -77,10 +83,9 @@ describe('LLMOrchestrationService', () => {
   it('should update token usage via OrchestrationManager onFinish', async () => {
     await service.streamWithOrchestration({ messages: [] });
 
-    // Verify getState was called (to get current usage)
-    expect(mockOrchestrationManager.getState).toHaveBeenCalledWith(sessionId);
-    // Verify updateState was called with cumulative usage
-    expect(mockOrchestrationManager.updateState).toHaveBeenCalledWith(sessionId, {
+    // Verify updateState was called with usage added to the stored totals
+    expect(mockOrchestrationManager.updateState).toHaveBeenCalledWith(sessionId, expect.any(Function));
+    expect(appliedUpdates()).toContainEqual({
       cumulativeTokenUsage: {
         promptTokens: 110, // 10 (initial) + 100 (from mock finish event)
         completionTokens: 55, // 5 (initial) + 50 (from mock finish event)
@@ -89,6 +94,24 @@ describe('LLMOrchestrationService', () => {
     });
   });
 
+  it('should count tokens answered from the response cache separately', async () => {
+    (mockCoreLLM.streamText as jest.Mock).mockImplementationOnce(async (options: any) => {
+      await options.onFinish({
+        finishReason: 'stop',
+        usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+        steps: [{ providerMetadata: { agentdock: { cache: 'hit', cachedTokens: 150 } } }],
+        response: { messages: [] }
+      });
+      return {};
+    });
+
+    await service.streamWithOrchestration({ messages: [] });
+
+    expect(appliedUpdates()).toContainEqual({
+      cumulativeTokenUsage: { promptTokens: 10, completionTokens: 5, totalTokens: 15, cachedTokens: 150 }
+    });
+  });
+
   it('should track executed tools via OrchestrationManager onFinish', async () => {
     mockOrchestrationManager.updateState = jest.fn().mockResolvedValue({});
     
@@ -135,12 +158,30 @@ describe('LLMOrchestrationService', () => {
     await testService.streamWithOrchestration({ messages: [] });
 
     // Verify updateState was called with recentlyUsedTools
-    expect(mockOrchestrationManager.updateState).toHaveBeenCalledWith(
-      sessionId,
-      expect.objectContaining({
-        recentlyUsedTools: ['testTool']
+    expect(appliedUpdates()).toContainEqual({ recentlyUsedTools: ['testTool'] });
+  });
+  
+  it('should pass step text and tool results to the orchestration pipeline', async () => {
+    const orchestration = { steps: [{ name: 'query', description: '', sequence: ['testTool'], return: 'tool_result' }] };
+    const testMockCoreLLM = createMockCoreLLM({
+      streamText: jest.fn().mockImplementation(async (options) => {
+        await options.onStepFinish({
+          stepType: 'initial',
+          finishReason: 'tool-calls',
+          text: 'Looking that up',
+          toolResults: [{ type: 'tool-result', toolCallId: 'call-1', toolName: 'testTool', args: {}, result: { content: 'done' } }]
+        });
+        return {};
       })
-    );
+    });
+
+    const testService = new LLMOrchestrationService(testMockCoreLLM, mockOrchestrationManager, sessionId, orchestration);
+    await testService.streamWithOrchestration({ messages: [] });
+
+    expect(mockOrchestrationManager.recordStepOutput).toHaveBeenCalledWith(orchestration, sessionId, {
+      text: 'Looking that up',
+      toolResults: [{ toolName: 'testTool', result: { content: 'done' } }]
+    });
   });
   
   it('should call original onFinish callback if provided', async () => {
@@ -0,0 +1,200 @@
+/**
+ * @jest-environment node
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { createLLM } from '..';
+import { createOpenAICompatibleModel } from '../model-utils';
+import { ProviderRegistry } from '../provider-registry';
+import { AgentNode } from '../../nodes/agent-node';
+
+jest.mock('../../logging');
+
+interface RecordedRequest {
+  url?: string;
+  authorization?: string;
+  body: any;
+}
+
+/**
+ * Stub of a self-hosted server speaking the chat completions protocol. Streams the
+ * reply word by word as server-sent events, or answers in one JSON body.
+ */
+function startStubServer(reply: string) {
+  const requests: RecordedRequest[] = [];
+
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      const body = JSON.parse(raw);
+      requests.push({ url: req.url, authorization: req.headers.authorization, body });
+
+      if (req.url !== '/v1/chat/completions') {
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: { message: 'Not found' } }));
+        return;
+      }
+
+      const base = { id: 'chatcmpl-stub', created: 0, model: body.model };
+      if (!body.stream) {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({
+          ...base,
+          object: 'chat.completion',
+          choices: [{ index: 0, message: { role: 'assistant', content: reply }, finish_reason: 'stop' }],
+          usage: { prompt_tokens: 5, completion_tokens: 3, total_tokens: 8 }
+        }));
+        return;
+      }
+
+      res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+      const send = (data: unknown) => res.write(`data: ${JSON.stringify(data)}\n\n`);
+      reply.split(/(?<= )/).forEach((content, index) => send({
+        ...base,
+        object: 'chat.completion.chunk',
+        choices: [{ index: 0, delta: index === 0 ? { role: 'assistant', content } : { content }, finish_reason: null }]
+      }));
+      send({ ...base, object: 'chat.completion.chunk', choices: [{ index: 0, delta: {}, finish_reason: 'stop' }] });
+      res.end('data: [DONE]\n\n');
+    });
+  });
+
+  return new Promise<{ baseURL: string; requests: RecordedRequest[]; close: () => Promise<void> }>(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        baseURL: `http://127.0.0.1:${port}/v1`,
+        requests,
+        close: () => new Promise(done => server.close(() => done()))
+      });
+    });
+  });
+}
+
+const messages = [{ role: 'user' as const, content: 'Say hello' }];
+
+describe('OpenAI-compatible provider', () => {
+  let stub: Awaited<ReturnType<typeof startStubServer>>;
+
+  beforeAll(async () => {
+    stub = await startStubServer('Hello from the local server');
+  });
+
+  afterAll(async () => {
+    await stub.close();
+  });
+
+  beforeEach(() => {
+    stub.requests.length = 0;
+  });
+
+  it('streams chat completions from the configured base URL', async () => {
+    const llm = createLLM({ provider: 'openai-compatible', apiKey: '', model: 'llama3.1', baseURL: stub.baseURL });
+
+    const result = await llm.streamText({ messages });
+    let text = '';
+    for await (const delta of result.textStream) {
+      text += delta;
+    }
+
+    expect(text).toBe('Hello from the local server');
+    expect(stub.requests).toHaveLength(1);
+    expect(stub.requests[0]).toMatchObject({
+      url: '/v1/chat/completions',
+      authorization: 'Bearer not-needed',
+      body: { model: 'llama3.1', stream: true, messages: [{ role: 'user', content: 'Say hello' }] }
+    });
+  });
+
+  it('generates text and sends the API key when one is given', async () => {
+    const llm = createLLM({ provider: 'openai-compatible', apiKey: 'local-key', model: 'qwen2.5', baseURL: stub.baseURL });
+
+    const result = await llm.generateText({ messages });
+
+    expect(result.text).toBe('Hello from the local server');
+    expect(result.usage).toMatchObject({ promptTokens: 5, completionTokens: 3 });
+    expect(stub.requests[0]).toMatchObject({ authorization: 'Bearer local-key', body: { model: 'qwen2.5' } });
+  });
+
+  it('requires a base URL', () => {
+    expect(() => createLLM({ provider: 'openai-compatible', apiKey: '', model: 'llama3.1' }))
+      .toThrow('A base URL is required for OpenAI-compatible providers');
+  });
+
+  it('runs an agent from its llm.openai-compatible node without an API key', async () => {
+    const agent = new AgentNode('agent', {
+      apiKey: '',
+      agentConfig: {
+        version: '1.0',
+        agentId: 'local-agent',
+        name: 'Local Agent',
+        description: '',
+        personality: 'You help.' as any,
+        nodes: ['llm.openai-compatible'],
+        nodeConfigurations: {
+          'llm.openai-compatible': { model: 'llama3.1', baseURL: stub.baseURL }
+        },
+        chatSettings: {}
+      }
+    });
+
+    await expect(agent.getAnsweringProvider()).resolves.toEqual({ provider: 'openai-compatible', model: 'llama3.1' });
+  });
+});
+
+describe('ProviderRegistry', () => {
+  let stub: Awaited<ReturnType<typeof startStubServer>>;
+
+  beforeAll(async () => {
+    stub = await startStubServer('Hello from a registered provider');
+  });
+
+  afterAll(async () => {
+    await stub.close();
+  });
+
+  it('plugs registered providers into createLLM and the node types', async () => {
+    ProviderRegistry.registerProvider({
+      id: 'ollama',
+      displayName: 'Ollama',
+      defaultModel: 'llama3.1',
+      validateApiKey: () => true,
+      requiresApiKey: false,
+      createModel: config => createOpenAICompatibleModel({ ...config, baseURL: stub.baseURL })
+    });
+
+    expect(ProviderRegistry.getProviderFromNodes(['search', 'llm.ollama'])).toBe('ollama');
+    expect(ProviderRegistry.getNodeTypeFromProvider('ollama')).toBe('llm.ollama');
+    expect(ProviderRegistry.requiresApiKey('ollama')).toBe(false);
+
+    const result = await createLLM({ provider: 'ollama', apiKey: '', model: 'llama3.1' }).generateText({ messages });
+    expect(result.text).toBe('Hello from a registered provider');
+  });
+
+  it('uses the node type a provider registers', () => {
+    ProviderRegistry.registerProvider({
+      id: 'vllm-cluster',
+      displayName: 'vLLM cluster',
+      defaultModel: 'mistral-7b-instruct',
+      nodeType: 'llm.vllm',
+      validateApiKey: () => true,
+      createModel: config => createOpenAICompatibleModel({ ...config, baseURL: stub.baseURL })
+    });
+
+    expect(ProviderRegistry.getProviderFromNodeType('llm.vllm')).toBe('vllm-cluster');
+    expect(ProviderRegistry.getNodeTypeFromProvider('vllm-cluster')).toBe('llm.vllm');
+  });
+
+  it('rejects unknown node types and providers instead of falling back', () => {
+    expect(() => ProviderRegistry.getProviderFromNodes(['llm.mistral'])).toThrow('Unknown LLM node type: llm.mistral');
+    expect(() => ProviderRegistry.getProviderFromNodeType('llm.mistral')).toThrow('Unknown LLM node type: llm.mistral');
+    expect(() => ProviderRegistry.getNodeTypeFromProvider('mistral')).toThrow('Unknown LLM provider: mistral');
+    expect(() => createLLM({ provider: 'mistral', apiKey: 'key', model: 'mistral-large' })).toThrow('Unsupported provider: mistral');
+  });
+
+  it('keeps Anthropic as the default for agents without an LLM node', () => {
+    expect(ProviderRegistry.getProviderFromNodes(['search', 'deep_research'])).toBe('anthropic');
+  });
+});
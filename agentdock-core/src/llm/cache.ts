@@ -0,0 +1,463 @@
+/**
+ * @fileoverview Opt-in response cache for language model calls.
+ *
+ * The cache is a language model wrapping the provider's model, so `CoreLLM.generateText`
+ * and `streamText` go through it unchanged. A template enables it on its LLM node:
+ *
+ * ```json
+ * "nodeConfigurations": {
+ *   "llm.anthropic": {
+ *     "model": "claude-3-7-sonnet-20250219",
+ *     "cache": { "ttlSeconds": 3600 }
+ *   }
+ * }
+ * ```
+ *
+ * Calls are keyed on the provider, model, prompt, tools and call settings, within a scope such
+ * as the user, so one user's answers are not replayed to another. With an embedding
+ * model configured, a call whose final user message is close enough to a cached one, after
+ * the same conversation, is answered from the cache too. Hits are replayed as a stream of
+ * the recorded parts, report no token usage, and are marked in the provider metadata of the
+ * finish part (`providerMetadata.agentdock.cache`) so callers can account for them.
+ *
+ * Messages matched by `excludeFromKey`, such as the current time, reach the model but are
+ * left out of the key.
+ */
+
+import {
+  cosineSimilarity,
+  embed,
+  type EmbeddingModel,
+  type LanguageModelV1,
+  type LanguageModelV1CallOptions,
+  type LanguageModelV1Prompt,
+  type LanguageModelV1StreamPart
+} from 'ai';
+import { z } from 'zod';
+import { logger, LogCategory } from '../logging';
+import { StorageProvider } from '../storage/types';
+import { getStorageFactory } from '../storage/factory';
+import { sha256 } from '../utils/security-utils';
+
+const DEFAULT_NAMESPACE = 'llm-cache';
+const DEFAULT_TTL_SECONDS = 60 * 60;
+const DEFAULT_SIMILARITY_THRESHOLD = 0.95;
+const DEFAULT_MAX_CANDIDATES = 50;
+
+/** Key of the provider metadata entry that reports the cache status */
+export const CACHE_METADATA_KEY = 'agentdock';
+
+export type CacheStatus = 'hit' | 'miss';
+
+/**
+ * Cache settings for programmatic use, e.g. evaluation runs
+ */
+export interface LLMCacheOptions {
+  /** Where entries are kept (default: in-memory storage) */
+  storage?: StorageProvider;
+
+  /** Storage namespace of the entries (default `llm-cache`) */
+  namespace?: string;
+
+  /** How long an entry is kept (default one hour) */
+  ttlSeconds?: number;
+
+  /**
+   * Only calls with the same scope share entries, e.g. a user ID. Without one, every caller
+   * of the namespace shares them.
+   */
+  scope?: string;
+
+  /**
+   * Messages the model sees but the cache does not key on, e.g. the current time. A cached
+   * answer is then reused whatever they say.
+   */
+  excludeFromKey?: (message: LanguageModelV1Prompt[number]) => boolean;
+
+  /** Also answer calls whose final user message is similar to a cached one */
+  similarity?: {
+    embeddingModel: EmbeddingModel<string>;
+
+    /** Cosine similarity a cached message needs to be reused (default 0.95) */
+    threshold?: number;
+
+    /** Cached messages compared per call (default 50) */
+    maxCandidates?: number;
+  };
+}
+
+/**
+ * Cache settings declared under `cache` in an LLM node configuration
+ */
+export const LLMCacheConfigSchema = z.object({
+  ttlSeconds: z.number().int().min(1).optional(),
+  namespace: z.string().min(1).optional(),
+  similarityThreshold: z.number().min(0).max(1).optional(),
+
+  /** Share cached responses between all users of the agent instead of keeping them per user */
+  shared: z.boolean().optional()
+});
+
+export type LLMCacheConfig = z.infer<typeof LLMCacheConfigSchema>;
+
+type GenerateResult = Awaited<ReturnType<LanguageModelV1['doGenerate']>>;
+type StreamResult = Awaited<ReturnType<LanguageModelV1['doStream']>>;
+type ToolCallPart = Extract<LanguageModelV1StreamPart, { type: 'tool-call' }>;
+type ToolCall = Omit<ToolCallPart, 'type'>;
+
+/**
+ * A recorded response, enough to replay it as a generated result or a stream
+ */
+export interface CachedResponse {
+  text: string;
+  reasoning?: string;
+  toolCalls: ToolCall[];
+  finishReason: GenerateResult['finishReason'];
+
+  /** Tokens the original call used */
+  usage: { promptTokens: number; completionTokens: number };
+}
+
+interface CacheEntry {
+  response: CachedResponse;
+  createdAt: number;
+
+  /** Embedding of the final user message, in similarity mode */
+  embedding?: number[];
+}
+
+interface CacheLookup {
+  key: string;
+  query?: string;
+  embedding?: number[];
+}
+
+// Finish reasons worth replaying; errors and interruptions are not cached
+const CACHEABLE_FINISH_REASONS = new Set(['stop', 'length', 'tool-calls']);
+
+/**
+ * Text of the final message when it comes from the user; tool steps have none
+ */
+function getFinalUserText(prompt: LanguageModelV1CallOptions['prompt']): string | undefined {
+  const last = prompt[prompt.length - 1];
+  if (!last || last.role !== 'user') return undefined;
+  const text = last.content
+    .map(part => (part.type === 'text' ? part.text : ''))
+    .join('')
+    .trim();
+  return text || undefined;
+}
+
+/**
+ * Splits text into word-sized deltas, keeping the whitespace
+ */
+function toTextDeltas(text: string): string[] {
+  return text.match(/\S*\s+|\S+/g) || [];
+}
+
+/**
+ * Language model that answers repeated calls from a cache kept in a storage provider
+ */
+export class CachedLanguageModel implements LanguageModelV1 {
+  readonly specificationVersion = 'v1';
+  private storage: StorageProvider;
+  private namespace: string;
+  private ttlSeconds: number;
+  private lastStatus: CacheStatus | undefined;
+  private firstStatus: Promise<CacheStatus | undefined>;
+  private resolveFirstStatus!: (status: CacheStatus | undefined) => void;
+
+  constructor(private model: LanguageModelV1, private options: LLMCacheOptions = {}) {
+    this.namespace = options.namespace || DEFAULT_NAMESPACE;
+    this.ttlSeconds = options.ttlSeconds || DEFAULT_TTL_SECONDS;
+    this.storage = options.storage || getStorageFactory().getProvider({ type: 'memory', namespace: this.namespace });
+    this.firstStatus = new Promise(resolve => {
+      this.resolveFirstStatus = resolve;
+    });
+  }
+
+  get provider(): string {
+    return this.model.provider;
+  }
+
+  get modelId(): string {
+    return this.model.modelId;
+  }
+
+  get defaultObjectGenerationMode(): LanguageModelV1['defaultObjectGenerationMode'] {
+    return this.model.defaultObjectGenerationMode;
+  }
+
+  get supportsImageUrls(): boolean | undefined {
+    return this.model.supportsImageUrls;
+  }
+
+  get supportsStructuredOutputs(): boolean | undefined {
+    return this.model.supportsStructuredOutputs;
+  }
+
+  /**
+   * The wrapped model
+   */
+  getInnerModel(): LanguageModelV1 {
+    return this.model;
+  }
+
+  /**
+   * Whether the first call was answered from the cache; undefined when it failed
+   */
+  getCacheStatus(): Promise<CacheStatus | undefined> {
+    return this.firstStatus;
+  }
+
+  /**
+   * Whether the latest call was answered from the cache
+   */
+  getLastCacheStatus(): CacheStatus | undefined {
+    return this.lastStatus;
+  }
+
+  async doGenerate(options: LanguageModelV1CallOptions): Promise<GenerateResult> {
+    const lookup = await this.createLookup(options);
+    const cached = await this.find(lookup);
+    if (cached) {
+      const { response } = cached;
+      this.reportStatus('hit');
+      return {
+        text: response.text,
+        reasoning: response.reasoning,
+        toolCalls: response.toolCalls.map(toolCall => ({ ...toolCall })),
+        finishReason: response.finishReason,
+        usage: { promptTokens: 0, completionTokens: 0 },
+        rawCall: { rawPrompt: null, rawSettings: {} },
+        providerMetadata: this.hitMetadata(response)
+      };
+    }
+
+    this.reportStatus('miss');
+    const result = await this.model.doGenerate(options);
+    await this.store(lookup, {
+      text: result.text || '',
+      reasoning: typeof result.reasoning === 'string' ? result.reasoning : undefined,
+      toolCalls: result.toolCalls || [],
+      finishReason: result.finishReason,
+      usage: result.usage
+    });
+    return {
+      ...result,
+      providerMetadata: { ...result.providerMetadata, [CACHE_METADATA_KEY]: { cache: 'miss' } }
+    };
+  }
+
+  async doStream(options: LanguageModelV1CallOptions): Promise<StreamResult> {
+    const lookup = await this.createLookup(options);
+    const cached = await this.find(lookup);
+    if (cached) {
+      this.reportStatus('hit');
+      return {
+        stream: this.replay(cached.response),
+        rawCall: { rawPrompt: null, rawSettings: {} }
+      };
+    }
+
+    this.reportStatus('miss');
+    const result = await this.model.doStream(options);
+
+    // Record the parts as they pass, and keep the response once it has finished cleanly
+    const recorded: CachedResponse = { text: '', toolCalls: [], finishReason: 'unknown', usage: { promptTokens: 0, completionTokens: 0 } };
+    let failed = false;
+    const store = (response: CachedResponse) => this.store(lookup, response);
+    const stream = result.stream.pipeThrough(new TransformStream<LanguageModelV1StreamPart, LanguageModelV1StreamPart>({
+      transform(part, controller) {
+        switch (part.type) {
+          case 'text-delta':
+            recorded.text += part.textDelta;
+            break;
+          case 'reasoning':
+            recorded.reasoning = (recorded.reasoning || '') + part.textDelta;
+            break;
+          case 'tool-call': {
+            const { type, ...toolCall } = part;
+            recorded.toolCalls.push(toolCall);
+            break;
+          }
+          case 'error':
+            failed = true;
+            break;
+          case 'finish':
+            recorded.finishReason = part.finishReason;
+            recorded.usage = part.usage;
+            controller.enqueue({
+              ...part,
+              providerMetadata: { ...part.providerMetadata, [CACHE_METADATA_KEY]: { cache: 'miss' } }
+            });
+            return;
+        }
+        controller.enqueue(part);
+      },
+      async flush() {
+        if (!failed) {
+          await store(recorded);
+        }
+      }
+    }));
+
+    return { ...result, stream };
+  }
+
+  private reportStatus(status: CacheStatus): void {
+    this.lastStatus = status;
+    this.resolveFirstStatus(status);
+  }
+
+  private hitMetadata(response: CachedResponse) {
+    return {
+      [CACHE_METADATA_KEY]: {
+        cache: 'hit',
+        cachedTokens: response.usage.promptTokens + response.usage.completionTokens
+      }
+    };
+  }
+
+  private replay(response: CachedResponse): ReadableStream<LanguageModelV1StreamPart> {
+    const metadata = this.hitMetadata(response);
+    return new ReadableStream({
+      start(controller) {
+        if (response.reasoning) {
+          controller.enqueue({ type: 'reasoning', textDelta: response.reasoning });
+        }
+        for (const textDelta of toTextDeltas(response.text)) {
+          controller.enqueue({ type: 'text-delta', textDelta });
+        }
+        for (const toolCall of response.toolCalls) {
+          controller.enqueue({ type: 'tool-call', ...toolCall });
+        }
+        controller.enqueue({
+          type: 'finish',
+          finishReason: response.finishReason,
+          usage: { promptTokens: 0, completionTokens: 0 },
+          providerMetadata: metadata
+        });
+        controller.close();
+      }
+    });
+  }
+
+  /**
+   * Builds the storage key. Everything before the final user message, together with the
+   * model settings, forms the context; similar messages are only matched within it.
+   */
+  private async createLookup(options: LanguageModelV1CallOptions): Promise<CacheLookup> {
+    const { excludeFromKey } = this.options;
+    const prompt = excludeFromKey ? options.prompt.filter(message => !excludeFromKey(message)) : options.prompt;
+    const query = this.options.similarity ? getFinalUserText(prompt) : undefined;
+    const context = {
+      scope: this.options.scope,
+      provider: this.model.provider,
+      model: this.model.modelId,
+      tools: options.mode,
+      temperature: options.temperature,
+      maxTokens: options.maxTokens,
+      topP: options.topP,
+      topK: options.topK,
+      frequencyPenalty: options.frequencyPenalty,
+      presencePenalty: options.presencePenalty,
+      stopSequences: options.stopSequences,
+      responseFormat: options.responseFormat,
+      seed: options.seed,
+      prompt: query === undefined ? prompt : prompt.slice(0, -1)
+    };
+    const [contextHash, messageHash] = await Promise.all([
+      sha256(JSON.stringify(context)),
+      sha256(JSON.stringify(prompt[prompt.length - 1] ?? null))
+    ]);
+    return { key: `${contextHash}:${messageHash}`, query };
+  }
+
+  private async find(lookup: CacheLookup): Promise<CacheEntry | null> {
+    try {
+      const entry = await this.storage.get<CacheEntry>(lookup.key, { namespace: this.namespace });
+      if (entry || !lookup.query || !this.options.similarity) {
+        return entry;
+      }
+      return await this.findSimilar(lookup, this.options.similarity);
+    } catch (error) {
+      // A broken cache must not break the call
+      logger.warn(LogCategory.LLM, 'CachedLanguageModel', 'Cache lookup failed', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return null;
+    }
+  }
+
+  private async findSimilar(
+    lookup: CacheLookup,
+    similarity: NonNullable<LLMCacheOptions['similarity']>
+  ): Promise<CacheEntry | null> {
+    const { embedding } = await embed({ model: similarity.embeddingModel, value: lookup.query! });
+    lookup.embedding = embedding;
+
+    const contextPrefix = `${lookup.key.split(':')[0]}:`;
+    const keys = await this.storage.list(contextPrefix, {
+      namespace: this.namespace,
+      limit: similarity.maxCandidates || DEFAULT_MAX_CANDIDATES
+    });
+    if (keys.length === 0) return null;
+
+    const candidates = await this.storage.getMany<CacheEntry>(keys, { namespace: this.namespace });
+    const threshold = similarity.threshold ?? DEFAULT_SIMILARITY_THRESHOLD;
+    let best: { entry: CacheEntry; score: number } | null = null;
+    for (const entry of Object.values(candidates)) {
+      if (!entry?.embedding) continue;
+      const score = cosineSimilarity(embedding, entry.embedding);
+      if (score >= threshold && (!best || score > best.score)) {
+        best = { entry, score };
+      }
+    }
+
+    if (best) {
+      logger.debug(LogCategory.LLM, 'CachedLanguageModel', 'Answered from a similar cached message', {
+        score: best.score,
+        threshold
+      });
+    }
+    return best?.entry || null;
+  }
+
+  private async store(lookup: CacheLookup, response: CachedResponse): Promise<void> {
+    if (!CACHEABLE_FINISH_REASONS.has(response.finishReason)) return;
+    if (!response.text && response.toolCalls.length === 0) return;
+
+    try {
+      let embedding = lookup.embedding;
+      if (!embedding && lookup.query && this.options.similarity) {
+        embedding = (await embed({ model: this.options.similarity.embeddingModel, value: lookup.query })).embedding;
+      }
+      const entry: CacheEntry = { response, createdAt: Date.now(), ...(embedding ? { embedding } : {}) };
+      await this.storage.set(lookup.key, entry, { namespace: this.namespace, ttlSeconds: this.ttlSeconds });
+    } catch (error) {
+      logger.warn(LogCategory.LLM, 'CachedLanguageModel', 'Could not store response in cache', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+}
+
+/**
+ * Reads the cache status and the tokens served from cache out of the provider metadata
+ * of a call's steps
+ */
+export function getCacheUsage(
+  steps: { providerMetadata?: Record<string, Record<string, unknown>> }[] = []
+): { cacheStatus: CacheStatus; cachedTokens: number } | undefined {
+  const statuses = steps
+    .map(step => step.providerMetadata?.[CACHE_METADATA_KEY])
+    .filter((metadata): metadata is Record<string, unknown> => !!metadata && typeof metadata.cache === 'string');
+  if (statuses.length === 0) return undefined;
+
+  return {
+    // A multi-step call only counts as a hit when no step reached the provider
+    cacheStatus: statuses.every(metadata => metadata.cache === 'hit') ? 'hit' : 'miss',
+    cachedTokens: statuses.reduce((sum, metadata) => sum + (typeof metadata.cachedTokens === 'number' ? metadata.cachedTokens : 0), 0)
+  };
+}
@@ -26,6 +26,7 @@ import { TokenUsage, LLMConfig } from './types';
 import { createError, ErrorCode } from '../errors';
 import { maskSensitiveData } from '../utils/security-utils';
 import { parseProviderError } from '../errors/llm-errors';
+import { getCacheUsage } from './cache';
 
 // --- TYPE DEFINITIONS based on Vercel AI SDK Docs ---
 
@@ -38,6 +39,7 @@ type StreamTextOnFinishResult = {
   text: string;
   reasoning?: string | undefined;
   response?: { messages?: CoreMessage[] };
+  steps?: { providerMetadata?: Record<string, Record<string, unknown>> }[];
 };
 
 // --- TYPE DEFINITIONS ---
@@ -177,7 +179,8 @@ export class CoreLLM {
           promptTokens: result.usage.promptTokens,
           completionTokens: result.usage.completionTokens,
           totalTokens: result.usage.totalTokens,
-          provider: this.getProvider()
+          provider: this.getProvider(),
+          ...getCacheUsage(result.steps as StreamTextOnFinishResult['steps'])
         };
         
         console.log(`[Token Usage] ${this.getProvider()} - ${this.getModelId()}: Prompt: ${result.usage.promptTokens}, Completion: ${result.usage.completionTokens}, Total: ${result.usage.totalTokens}`);
@@ -261,7 +264,8 @@ export class CoreLLM {
             promptTokens: completion.usage.prompt_tokens || completion.usage.promptTokens,
             completionTokens: completion.usage.completion_tokens || completion.usage.completionTokens,
             totalTokens: completion.usage.total_tokens || completion.usage.totalTokens,
-            provider: this.getProvider()
+            provider: this.getProvider(),
+            ...getCacheUsage(completion.steps)
           };
           this.lastTokenUsage = usage;
           console.log(`[Token Usage] ${this.getProvider()} - ${this.getModelId()}: Prompt: ${usage.promptTokens}, Completion: ${usage.completionTokens}, Total: ${usage.totalTokens}`);
@@ -4,7 +4,8 @@
 
 import { CoreLLM } from './core-llm';
 import { LLMConfig } from './types';
-import { createAnthropicModel, createOpenAIModel, createGeminiModel, createDeepSeekModel, createGroqModel } from './model-utils';
+import { ProviderRegistry } from './provider-registry';
+import { CachedLanguageModel } from './cache';
 import { createError, ErrorCode } from '../errors';
 import { logger, LogCategory } from '../logging';
 
@@ -22,28 +23,16 @@ export function createLLM(config: LLMConfig): CoreLLM {
     }
   );
 
-  // Create the appropriate model based on the provider
-  let model;
-  switch (config.provider) {
-    case 'anthropic':
-      model = createAnthropicModel(config);
-      break;
-    case 'openai':
-      model = createOpenAIModel(config);
-      break;
-    case 'gemini':
-      model = createGeminiModel(config);
-      break;
-    case 'deepseek':
-      model = createDeepSeekModel(config);
-      break;
-    case 'groq':
-      model = createGroqModel(config);
-      break;
-    default:
-      throw createError('llm', `Unsupported provider: ${config.provider}`, ErrorCode.LLM_EXECUTION);
+  // Create the model with the adapter registered for the provider
+  const provider = ProviderRegistry.getProvider(config.provider);
+  if (!provider?.createModel) {
+    throw createError('llm', `Unsupported provider: ${config.provider}`, ErrorCode.LLM_EXECUTION);
   }
+  const model = provider.createModel(config);
 
-  // Create and return the CoreLLM instance
-  return new CoreLLM({ model, config });
+  // Create and return the CoreLLM instance, answering repeated calls from the cache when enabled
+  return new CoreLLM({
+    model: config.cache ? new CachedLanguageModel(model, config.cache) : model,
+    config
+  });
 } 
\ No newline at end of file
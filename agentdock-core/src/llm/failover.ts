@@ -0,0 +1,344 @@
+/**
+ * @fileoverview Ordered failover across LLM providers, with per-provider circuit breakers.
+ *
+ * A template declares the chain on its primary LLM node:
+ *
+ * ```json
+ * "nodeConfigurations": {
+ *   "llm.anthropic": {
+ *     "model": "claude-3-7-sonnet-20250219",
+ *     "failover": {
+ *       "chain": [
+ *         { "provider": "openai", "model": "gpt-4o" },
+ *         { "provider": "groq" }
+ *       ],
+ *       "circuitBreaker": { "failureThreshold": 3, "cooldownMs": 60000 }
+ *     }
+ *   }
+ * }
+ * ```
+ *
+ * The chain is a language model wrapping the models of each provider, so `CoreLLM`
+ * streams, generates and calls tools through it unchanged. A call goes to the first
+ * provider whose breaker is closed; when it fails before answering, the error is
+ * classified with `parseProviderError` and the next provider is tried. Errors that
+ * come from the stream once a provider has answered are not retried elsewhere.
+ *
+ * Breakers are shared by every chain in the process. A target called with its own API key
+ * gets a breaker for that key, so a rejected key only takes its own callers out of rotation.
+ */
+
+import type { LanguageModelV1, LanguageModelV1CallOptions } from 'ai';
+import { z } from 'zod';
+import { AgentError, createError, ErrorCode } from '../errors';
+import { parseProviderError } from '../errors/llm-errors';
+import { logger, LogCategory } from '../logging';
+import { sha256 } from '../utils/security-utils';
+import { ProviderRegistry } from './provider-registry';
+import { LLMProvider } from './types';
+
+const DEFAULT_FAILURE_THRESHOLD = 3;
+const DEFAULT_COOLDOWN_MS = 60 * 1000;
+
+/**
+ * How a provider error affects the chain
+ * - `transient`: rate limits, overload and outages; counts towards opening the breaker
+ * - `auth`: the key was rejected; opens the breaker straight away
+ * - `request`: the request itself was refused (e.g. context length); not retried elsewhere
+ */
+export type ProviderFailureCategory = 'transient' | 'auth' | 'request';
+
+/**
+ * Circuit breaker settings, shared by every provider in a chain
+ */
+export interface CircuitBreakerOptions {
+  /** Consecutive transient failures that open a provider's breaker (default 3) */
+  failureThreshold?: number;
+
+  /** How long an open breaker keeps the provider out of the chain (default 60s) */
+  cooldownMs?: number;
+}
+
+/**
+ * One provider in a failover chain, after the primary
+ */
+export interface FailoverChainEntry {
+  provider: LLMProvider;
+
+  /** Model to use; defaults to the provider's node configuration, then the provider default */
+  model?: string;
+}
+
+/**
+ * Failover chain declared under `failover` in the primary LLM node configuration
+ */
+export interface FailoverConfig {
+  chain: FailoverChainEntry[];
+  circuitBreaker?: CircuitBreakerOptions;
+}
+
+export const FailoverConfigSchema = z.object({
+  chain: z.array(z.object({
+    provider: z.string().refine(
+      provider => ProviderRegistry.getProvider(provider) !== undefined,
+      provider => ({ message: `Unknown provider: ${provider}` })
+    ),
+    model: z.string().optional()
+  })).min(1, 'A failover chain needs at least one provider'),
+  circuitBreaker: z.object({
+    failureThreshold: z.number().int().min(1).optional(),
+    cooldownMs: z.number().int().min(0).optional()
+  }).optional()
+});
+
+/**
+ * A provider's model, as one link of the chain
+ */
+export interface FailoverTarget {
+  provider: LLMProvider;
+  model: LanguageModelV1;
+
+  /** API key the model calls the provider with; the breaker is kept per provider and key */
+  apiKey?: string;
+}
+
+/**
+ * Provider and model that answered a call
+ */
+export interface AnsweringProvider {
+  provider: LLMProvider;
+  model: string;
+}
+
+/**
+ * Health of one provider
+ */
+export interface CircuitBreakerState {
+  consecutiveFailures: number;
+
+  /** When the breaker closes again; unset while closed */
+  openUntil?: number;
+
+  lastFailure?: ProviderFailureCategory;
+}
+
+/**
+ * Maps a provider error to its failure category, using the error codes of `parseProviderError`
+ */
+export function classifyProviderError(error: AgentError): ProviderFailureCategory {
+  switch (error.code) {
+    case ErrorCode.LLM_API_KEY:
+      return 'auth';
+    case ErrorCode.LLM_RATE_LIMIT:
+    case ErrorCode.LLM_OVERLOADED:
+    case ErrorCode.SERVICE_UNAVAILABLE:
+      return 'transient';
+    default:
+      // Unrecognised errors are reported as 500s; known request problems as 4xx
+      return error.httpStatus >= 400 && error.httpStatus < 500 ? 'request' : 'transient';
+  }
+}
+
+/**
+ * Gets the circuit breaker key of a provider called with an API key. Only a hash of the key is kept.
+ */
+export async function getCircuitBreakerKey(provider: LLMProvider, apiKey?: string): Promise<string> {
+  if (!apiKey) return provider;
+  return `${provider}:${(await sha256(apiKey)).slice(0, 16)}`;
+}
+
+/**
+ * Tracks provider health across requests, per breaker key (see `getCircuitBreakerKey`). A breaker opens after too many consecutive
+ * transient failures, or at once for a rejected key, and lets the provider back in
+ * once its cooldown is over. One failure after the cooldown opens it again.
+ */
+export class CircuitBreakerRegistry {
+  private states = new Map<string, CircuitBreakerState>();
+
+  constructor(private now: () => number = Date.now) {}
+
+  isAvailable(key: string): boolean {
+    const openUntil = this.states.get(key)?.openUntil;
+    return openUntil === undefined || this.now() >= openUntil;
+  }
+
+  recordSuccess(key: string): void {
+    this.states.delete(key);
+  }
+
+  recordFailure(key: string, category: ProviderFailureCategory, options: CircuitBreakerOptions = {}): void {
+    if (category === 'request') return;
+
+    const { failureThreshold = DEFAULT_FAILURE_THRESHOLD, cooldownMs = DEFAULT_COOLDOWN_MS } = options;
+    const state = this.states.get(key) || { consecutiveFailures: 0 };
+    const consecutiveFailures = state.consecutiveFailures + 1;
+    const open = category === 'auth' || consecutiveFailures >= failureThreshold;
+
+    this.states.set(key, {
+      consecutiveFailures,
+      openUntil: open ? this.now() + cooldownMs : state.openUntil,
+      lastFailure: category
+    });
+
+    if (open) {
+      logger.warn(LogCategory.LLM, 'CircuitBreakerRegistry', 'Opened circuit breaker', {
+        breaker: key,
+        category,
+        consecutiveFailures,
+        cooldownMs
+      });
+    }
+  }
+
+  getState(key: string): CircuitBreakerState | undefined {
+    return this.states.get(key);
+  }
+
+  reset(): void {
+    this.states.clear();
+  }
+}
+
+let breakerRegistry: CircuitBreakerRegistry | null = null;
+
+/**
+ * Gets the process-wide circuit breakers
+ */
+export function getCircuitBreakerRegistry(): CircuitBreakerRegistry {
+  if (!breakerRegistry) {
+    breakerRegistry = new CircuitBreakerRegistry();
+  }
+  return breakerRegistry;
+}
+
+/**
+ * Language model that sends each call down an ordered chain of provider models
+ */
+export class FailoverLanguageModel implements LanguageModelV1 {
+  readonly specificationVersion = 'v1';
+  private breakers: CircuitBreakerRegistry;
+  private circuitBreaker: CircuitBreakerOptions;
+  private answered: AnsweringProvider | undefined;
+  private firstAnswer: Promise<AnsweringProvider | undefined>;
+  private resolveFirstAnswer!: (answer: AnsweringProvider | undefined) => void;
+  private breakerKeys: Promise<string[]> | undefined;
+
+  constructor(
+    private targets: FailoverTarget[],
+    options: { breakers?: CircuitBreakerRegistry; circuitBreaker?: CircuitBreakerOptions } = {}
+  ) {
+    if (targets.length === 0) {
+      throw createError('llm', 'A failover chain needs at least one provider', ErrorCode.LLM_EXECUTION);
+    }
+    this.breakers = options.breakers || getCircuitBreakerRegistry();
+    this.circuitBreaker = options.circuitBreaker || {};
+    this.firstAnswer = new Promise(resolve => {
+      this.resolveFirstAnswer = resolve;
+    });
+  }
+
+  // The primary model describes the chain to the AI SDK
+  get provider(): string {
+    return this.targets[0].model.provider;
+  }
+
+  get modelId(): string {
+    return this.targets[0].model.modelId;
+  }
+
+  get defaultObjectGenerationMode(): LanguageModelV1['defaultObjectGenerationMode'] {
+    return this.targets[0].model.defaultObjectGenerationMode;
+  }
+
+  get supportsImageUrls(): boolean | undefined {
+    return this.targets[0].model.supportsImageUrls;
+  }
+
+  get supportsStructuredOutputs(): boolean | undefined {
+    return this.targets[0].model.supportsStructuredOutputs;
+  }
+
+  doGenerate(options: LanguageModelV1CallOptions): ReturnType<LanguageModelV1['doGenerate']> {
+    return this.callChain(model => model.doGenerate(options));
+  }
+
+  doStream(options: LanguageModelV1CallOptions): ReturnType<LanguageModelV1['doStream']> {
+    return this.callChain(model => model.doStream(options));
+  }
+
+  /**
+   * Provider that answered the first call, or undefined when every provider failed
+   */
+  getAnsweringProvider(): Promise<AnsweringProvider | undefined> {
+    return this.firstAnswer;
+  }
+
+  /**
+   * Provider that answered the latest call
+   */
+  getLastAnsweringProvider(): AnsweringProvider | undefined {
+    return this.answered;
+  }
+
+  private getBreakerKeys(): Promise<string[]> {
+    this.breakerKeys ??= Promise.all(this.targets.map(target => getCircuitBreakerKey(target.provider, target.apiKey)));
+    return this.breakerKeys;
+  }
+
+  private async callChain<T>(call: (model: LanguageModelV1) => PromiseLike<T>): Promise<T> {
+    const keys = await this.getBreakerKeys();
+    const available = this.targets
+      .map((target, index) => ({ ...target, breakerKey: keys[index], primary: index === 0 }))
+      .filter(target => this.breakers.isAvailable(target.breakerKey));
+    if (available.length === 0) {
+      this.resolveFirstAnswer(undefined);
+      throw createError(
+        'llm',
+        'All providers in the failover chain are cooling down. Please try again shortly.',
+        ErrorCode.SERVICE_UNAVAILABLE,
+        { providers: this.targets.map(target => target.provider) },
+        503
+      );
+    }
+
+    let lastError: AgentError | undefined;
+    for (const [index, target] of available.entries()) {
+      try {
+        const result = await call(target.model);
+        this.breakers.recordSuccess(target.breakerKey);
+        this.answered = { provider: target.provider, model: target.model.modelId };
+        this.resolveFirstAnswer(this.answered);
+        if (!target.primary) {
+          logger.info(LogCategory.LLM, 'FailoverLanguageModel', 'Answered by failover provider', {
+            provider: target.provider,
+            model: target.model.modelId
+          });
+        }
+        return result;
+      } catch (error) {
+        const parsed = parseProviderError(error, target.provider);
+        const category = classifyProviderError(parsed);
+        this.breakers.recordFailure(target.breakerKey, category, this.circuitBreaker);
+
+        const next = available[index + 1];
+        logger.warn(LogCategory.LLM, 'FailoverLanguageModel', 'Provider call failed', {
+          provider: target.provider,
+          model: target.model.modelId,
+          category,
+          code: parsed.code,
+          nextProvider: category === 'request' ? undefined : next?.provider
+        });
+
+        // The request itself was refused, so another provider would not fare better
+        if (category === 'request') {
+          this.resolveFirstAnswer(undefined);
+          throw error;
+        }
+        lastError = parsed;
+      }
+    }
+
+    this.resolveFirstAnswer(undefined);
+    throw lastError;
+  }
+}
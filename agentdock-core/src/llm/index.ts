@@ -46,13 +46,32 @@ export type {
   StreamTextResult  // Backward compatibility type alias
 } from './core-llm';
 export { createLLM } from './create-llm';
-export { createAnthropicModel, createOpenAIModel, createGeminiModel, createDeepSeekModel, createGroqModel } from './model-utils';
+export { createAnthropicModel, createOpenAIModel, createGeminiModel, createDeepSeekModel, createGroqModel, createOpenAICompatibleModel } from './model-utils';
 export { ModelRegistry } from './model-registry';
 export { ModelService } from './model-service';
 export * from './providers'; // Includes adapters and validation functions
 export * from './types'; // Internal LLM types (LLMConfig, TokenUsage etc.)
 export * from './provider-registry';
 export { LLMOrchestrationService } from './llm-orchestration-service';
+export {
+  FailoverLanguageModel,
+  FailoverConfigSchema,
+  CircuitBreakerRegistry,
+  getCircuitBreakerRegistry,
+  getCircuitBreakerKey,
+  classifyProviderError
+} from './failover';
+export type {
+  FailoverConfig,
+  FailoverChainEntry,
+  FailoverTarget,
+  AnsweringProvider,
+  CircuitBreakerOptions,
+  CircuitBreakerState,
+  ProviderFailureCategory
+} from './failover';
+export { CachedLanguageModel, LLMCacheConfigSchema, getCacheUsage } from './cache';
+export type { LLMCacheOptions, LLMCacheConfig, CacheStatus, CachedResponse } from './cache';
 
 
 // Re-export AI SDK Functions 
@@ -4,9 +4,10 @@
  */
 
 import { CoreLLM } from './core-llm';
+import { getCacheUsage } from './cache';
 import { OrchestrationManager } from '../orchestration';
 import { SessionId } from '../types/session';
-import { AIOrchestrationState } from '../types/orchestration';
+import { AIOrchestrationState, OrchestrationConfig } from '../types/orchestration';
 import { 
   AgentDockStreamResult, 
   CoreMessage, 
@@ -73,6 +74,7 @@ type OnFinishResult = {
   text: string;
   reasoning?: string | undefined;
   response?: { messages?: CoreMessage[] };
+  steps?: { providerMetadata?: Record<string, Record<string, unknown>> }[];
 };
 
 // Type for the argument passed to the streamText onStepFinish callback
@@ -123,7 +125,8 @@ export class LLMOrchestrationService {
   constructor(
     private llm: CoreLLM,
     private orchestrationManager: OrchestrationManager,
-    private sessionId: SessionId
+    private sessionId: SessionId,
+    private orchestration?: OrchestrationConfig
   ) {
     if (!llm || !orchestrationManager || !sessionId) {
         throw new Error('LLMOrchestrationService requires llm, orchestrationManager, and sessionId');
@@ -157,7 +160,7 @@ export class LLMOrchestrationService {
       // Use waitUntil for token updates if it's available
       // This makes sure the updates complete even after response streaming
       if (usage) {
-        this.updateTokenUsage(usage);
+        this.updateTokenUsage(usage, getCacheUsage(event.steps)?.cachedTokens);
       }
       
       // Call original onFinish if provided
@@ -186,30 +189,32 @@ export class LLMOrchestrationService {
 
             // Tool tracking logic 
             try {
-              // Fetch current state once before the loop
+              // Fetch current state once to see whether anything is new
               const currentState = await this.orchestrationManager.getState(this.sessionId);
-              let currentTools = currentState?.recentlyUsedTools || [];
-              let updated = false;
-
-              // Iterate through all tools found in this step
+              const knownTools = currentState?.recentlyUsedTools || [];
               // Use non-null assertion as toolNamesFound guarantees it exists
-              for (const toolName of event.toolNames!) {
-                if (toolName && typeof toolName === 'string' && !currentTools.includes(toolName)) {
-                  currentTools = [...currentTools, toolName]; // Update local copy
-                  updated = true;
-                  logger.info(LogCategory.LLM, 'LLMOrchestrationService', 'Tracking new tool from onStepFinish', {
-                    sessionId: this.sessionId?.substring(0, 8),
-                    toolName: toolName
-                  });
-                }
+              const newTools = event.toolNames!.filter(
+                (toolName, index, names) => toolName && typeof toolName === 'string' &&
+                  !knownTools.includes(toolName) && names.indexOf(toolName) === index
+              );
+              for (const toolName of newTools) {
+                logger.info(LogCategory.LLM, 'LLMOrchestrationService', 'Tracking new tool from onStepFinish', {
+                  sessionId: this.sessionId?.substring(0, 8),
+                  toolName: toolName
+                });
               }
               
-              // If any new tools were added, update the state in storage
-              if (updated) {
-                await this.orchestrationManager.updateState(this.sessionId, { recentlyUsedTools: currentTools });
+              // If any new tools were found, add them to the tools stored now, which parallel tool calls may have changed
+              if (newTools.length > 0) {
+                const updatedState = await this.orchestrationManager.updateState(this.sessionId, (state) => ({
+                  recentlyUsedTools: [
+                    ...(state.recentlyUsedTools || []),
+                    ...newTools.filter(toolName => !(state.recentlyUsedTools || []).includes(toolName))
+                  ]
+                }));
                 logger.info(LogCategory.LLM, 'LLMOrchestrationService', 'Updated recentlyUsedTools in storage', {
                   sessionId: this.sessionId?.substring(0, 8),
-                  updatedToolList: currentTools
+                  updatedToolList: updatedState?.recentlyUsedTools
                 });
               }
             } catch (error) {
@@ -229,6 +234,11 @@ export class LLMOrchestrationService {
             });
         }
         
+        // Store pipeline step outputs and advance the pipeline
+        if (this.orchestration?.steps?.length) {
+            await this.recordPipelineOutput(event);
+        }
+        
         // Call original onStepFinish regardless of event content,
         // as the consumer might need other event types
         if (options.onStepFinish) {
@@ -302,13 +312,34 @@ export class LLMOrchestrationService {
     }
   }
 
+  /**
+   * Passes a generation step's text and tool results to the orchestration pipeline.
+   */
+  private async recordPipelineOutput(event: HandleStepFinishEvent): Promise<void> {
+    try {
+      const toolResults = (event.toolResults || []).map(toolResult => ({
+        toolName: toolResult.toolName,
+        result: toolResult.result
+      }));
+      await this.orchestrationManager.recordStepOutput(this.orchestration!, this.sessionId, {
+        text: event.text,
+        toolResults
+      });
+    } catch (error) {
+      logger.error(LogCategory.LLM, 'LLMOrchestrationService', 'Error recording pipeline output in onStepFinish', { 
+        sessionId: this.sessionId?.substring(0, 8),
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
   /**
    * Updates token usage in the session state.
    * Uses waitUntil when available to ensure the update completes.
    */
-  private updateTokenUsage(usage: TokenUsage): void {
+  private updateTokenUsage(usage: TokenUsage, cachedTokens?: number): void {
     // Create the token update promise
-    const updatePromise = this.performTokenUsageUpdate(usage);
+    const updatePromise = this.performTokenUsageUpdate(usage, cachedTokens);
     
     // Use the background task runner which will use waitUntil if available
     runBackgroundTask(updatePromise);
@@ -321,26 +352,31 @@ export class LLMOrchestrationService {
 
   /**
    * Performs the actual token usage update operation.
+   * Tokens served from the response cache are counted separately from the billed ones.
    */
-  private async performTokenUsageUpdate(usage: TokenUsage): Promise<void> {
+  private async performTokenUsageUpdate(usage: TokenUsage, cachedTokens = 0): Promise<void> {
     try {
-      // Get current state
-      const currentState = await this.orchestrationManager.getState(this.sessionId);
-      const currentUsage = currentState?.cumulativeTokenUsage || { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
-      
-      // Calculate new totals
+      // Calculate the tokens to add
       const promptTokensToAdd = typeof usage.promptTokens === 'number' ? usage.promptTokens : 0;
       const completionTokensToAdd = typeof usage.completionTokens === 'number' ? usage.completionTokens : 0;
       const totalTokensToAdd = typeof usage.totalTokens === 'number' ? usage.totalTokens : 0;
       
-      const newUsage = {
-        promptTokens: (currentUsage.promptTokens || 0) + promptTokensToAdd,
-        completionTokens: (currentUsage.completionTokens || 0) + completionTokensToAdd,
-        totalTokens: (currentUsage.totalTokens || 0) + totalTokensToAdd,
-      };
-      
-      // Update the state with new token usage
-      await this.orchestrationManager.updateState(this.sessionId, { cumulativeTokenUsage: newUsage });
+      // Add them to the stored totals, which a concurrent update is retried against
+      const updatedState = await this.orchestrationManager.updateState(this.sessionId, (state) => {
+        const currentUsage: NonNullable<AIOrchestrationState['cumulativeTokenUsage']> =
+          state.cumulativeTokenUsage || { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+        return {
+          cumulativeTokenUsage: {
+            promptTokens: (currentUsage.promptTokens || 0) + promptTokensToAdd,
+            completionTokens: (currentUsage.completionTokens || 0) + completionTokensToAdd,
+            totalTokens: (currentUsage.totalTokens || 0) + totalTokensToAdd,
+            ...(cachedTokens || currentUsage.cachedTokens
+              ? { cachedTokens: (currentUsage.cachedTokens || 0) + cachedTokens }
+              : {})
+          }
+        };
+      });
+      const newUsage = updatedState?.cumulativeTokenUsage;
       
       logger.info(LogCategory.LLM, 'LLMOrchestrationService', 'Token usage updated successfully', {
         sessionId: this.sessionId?.substring(0, 8),
@@ -3,10 +3,9 @@ import { createAnthropic } from '@ai-sdk/anthropic';
 import { createOpenAI } from '@ai-sdk/openai';
 import { createGoogleGenerativeAI } from '@ai-sdk/google';
 import { createGroq } from '@ai-sdk/groq';
-import { LLMConfig, GeminiConfig, DeepSeekConfig, GroqConfig } from './types';
+import { LLMConfig, GeminiConfig, DeepSeekConfig, GroqConfig, OpenAICompatibleConfig } from './types';
 import { createError, ErrorCode } from '../errors';
 import { logger, LogCategory } from '../logging';
-import { ProviderRegistry } from './provider-registry';
 
 // Add structuredClone polyfill if it doesn't exist
 if (typeof globalThis.structuredClone === 'undefined') {
@@ -194,4 +193,32 @@ export function createGroqModel(config: LLMConfig): LanguageModel {
     );
     throw createError('llm', `Error creating Groq model: ${(error as Error).message}`, ErrorCode.LLM_EXECUTION);
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Create a model served by an OpenAI-compatible server (vLLM, llama.cpp server, Ollama, ...)
+ */
+export function createOpenAICompatibleModel(config: LLMConfig): LanguageModel {
+  const compatibleConfig = config as OpenAICompatibleConfig;
+
+  // The server is chosen by URL, so there is no default to fall back on
+  if (!compatibleConfig.baseURL) {
+    throw createError('llm', 'A base URL is required for OpenAI-compatible providers', ErrorCode.CONFIG_VALIDATION);
+  }
+
+  logger.debug(
+    LogCategory.LLM,
+    'createOpenAICompatibleModel',
+    'Creating OpenAI-compatible model',
+    { baseURL: compatibleConfig.baseURL, model: config.model }
+  );
+
+  // Local servers usually ignore the key, but the client always sends one
+  return createOpenAI({
+    name: 'openai-compatible',
+    baseURL: compatibleConfig.baseURL,
+    apiKey: config.apiKey || 'not-needed',
+    headers: compatibleConfig.headers,
+    compatibility: 'compatible'
+  }).chat(config.model);
+}
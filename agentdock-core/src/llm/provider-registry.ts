@@ -1,19 +1,32 @@
 /**
  * @fileoverview Provider registry for LLM providers.
- * Provides a centralized registry for provider metadata.
+ * Provides a centralized registry for provider metadata and the adapters that
+ * create each provider's models.
  */
 
-import { LLMProvider, ProviderMetadata } from './types';
+import { BuiltInLLMProvider, LLMProvider, ProviderMetadata } from './types';
+import {
+  createAnthropicModel,
+  createOpenAIModel,
+  createGeminiModel,
+  createDeepSeekModel,
+  createGroqModel,
+  createOpenAICompatibleModel
+} from './model-utils';
+import { createError, ErrorCode } from '../errors';
 import { logger, LogCategory } from '../logging';
 
+const LLM_NODE_PREFIX = 'llm.';
+
 // Default provider metadata
-const DEFAULT_PROVIDERS: Record<LLMProvider, ProviderMetadata> = {
+const DEFAULT_PROVIDERS: Record<BuiltInLLMProvider, ProviderMetadata> = {
   'anthropic': {
     id: 'anthropic',
     displayName: 'Anthropic',
     description: 'Claude models by Anthropic',
     defaultModel: 'claude-3-7-sonnet-20250219',
     validateApiKey: (key: string) => key.startsWith('sk-ant-'),
+    createModel: createAnthropicModel,
     applyConfig: (baseConfig, modelConfig, options) => {
       // Apply Anthropic-specific configurations
       // Currently no special configurations needed
@@ -25,6 +38,7 @@ const DEFAULT_PROVIDERS: Record<LLMProvider, ProviderMetadata> = {
     description: 'GPT models by OpenAI',
     defaultModel: 'gpt-4',
     validateApiKey: (key: string) => key.startsWith('sk-') && !key.startsWith('sk-ant-'),
+    createModel: createOpenAIModel,
     applyConfig: (baseConfig, modelConfig, options) => {
       // Apply OpenAI-specific configurations
       // Currently no special configurations needed
@@ -36,6 +50,7 @@ const DEFAULT_PROVIDERS: Record<LLMProvider, ProviderMetadata> = {
     description: 'Gemini models by Google',
     defaultModel: 'gemini-2.0-flash-exp',
     validateApiKey: (key: string) => key.length > 0, // Google API keys don't have a specific format to validate
+    createModel: createGeminiModel,
     applyConfig: (baseConfig, modelConfig, options) => {
       // Apply Gemini-specific configurations
       
@@ -85,6 +100,7 @@ const DEFAULT_PROVIDERS: Record<LLMProvider, ProviderMetadata> = {
     description: 'DeepSeek models including DeepSeek-V3 and DeepSeek-R1',
     defaultModel: 'deepseek-chat',
     validateApiKey: (key: string) => key.length > 0, // DeepSeek API keys don't have a specific format to validate
+    createModel: createDeepSeekModel,
     applyConfig: (baseConfig, modelConfig, options) => {
       // Apply DeepSeek-specific configurations
       
@@ -110,6 +126,7 @@ const DEFAULT_PROVIDERS: Record<LLMProvider, ProviderMetadata> = {
     description: 'Groq API for ultra-fast LLM inference with models like Llama 3',
     defaultModel: 'llama-3.1-8b-instant',
     validateApiKey: (key: string) => key.startsWith('gsk_') || key.length > 25, // Groq API keys start with gsk_
+    createModel: createGroqModel,
     applyConfig: (baseConfig, modelConfig, options) => {
       // Apply Groq-specific configurations
       
@@ -123,6 +140,15 @@ const DEFAULT_PROVIDERS: Record<LLMProvider, ProviderMetadata> = {
         baseConfig.extractReasoning = options.extractReasoning;
       }
     }
+  },
+  'openai-compatible': {
+    id: 'openai-compatible',
+    displayName: 'OpenAI-Compatible',
+    description: 'Self-hosted servers that speak the OpenAI chat completions API, such as vLLM, llama.cpp server and Ollama',
+    defaultModel: 'llama3.1',
+    validateApiKey: () => true, // Keys are server-specific, and often not needed at all
+    requiresApiKey: false,
+    createModel: createOpenAICompatibleModel
   }
 };
 
@@ -138,7 +164,8 @@ export class ProviderRegistry {
 
   /**
    * Register a provider with the registry
-   * This allows applications to override default provider metadata
+   * This allows applications to override default provider metadata, or to plug in
+   * a new provider by giving its `createModel` adapter
    */
   static registerProvider(provider: ProviderMetadata): void {
     logger.debug(LogCategory.LLM, 'ProviderRegistry', `Registering provider: ${provider.id}`);
@@ -159,61 +186,44 @@ export class ProviderRegistry {
     return Array.from(this.providers.values());
   }
 
+  /**
+   * Whether calls to the provider need an API key
+   */
+  static requiresApiKey(provider: LLMProvider): boolean {
+    return this.getProvider(provider)?.requiresApiKey !== false;
+  }
+
   /**
    * Get provider from node type
+   * Throws for node types no registered provider answers to
    */
   static getProviderFromNodeType(nodeType: string): LLMProvider {
-    if (nodeType === 'llm.openai') {
-      return 'openai';
-    }
-    if (nodeType === 'llm.gemini') {
-      return 'gemini';
-    }
-    if (nodeType === 'llm.deepseek') {
-      return 'deepseek';
-    }
-    if (nodeType === 'llm.groq') {
-      return 'groq';
+    const provider = this.getAllProviders().find(metadata => this.nodeTypeOf(metadata) === nodeType);
+    if (!provider) {
+      throw createError('llm', `Unknown LLM node type: ${nodeType}`, ErrorCode.CONFIG_VALIDATION, { nodeType });
     }
-    return 'anthropic';
+    return provider.id;
   }
 
   /**
    * Get node type from provider
+   * Throws for providers that are not registered
    */
   static getNodeTypeFromProvider(provider: LLMProvider): string {
-    if (provider === 'openai') {
-      return 'llm.openai';
+    const metadata = this.getProvider(provider);
+    if (!metadata) {
+      throw createError('llm', `Unknown LLM provider: ${provider}`, ErrorCode.CONFIG_VALIDATION, { provider });
     }
-    if (provider === 'gemini') {
-      return 'llm.gemini';
-    }
-    if (provider === 'deepseek') {
-      return 'llm.deepseek';
-    }
-    if (provider === 'groq') {
-      return 'llm.groq';
-    }
-    return 'llm.anthropic';
+    return this.nodeTypeOf(metadata);
   }
 
   /**
    * Get provider from node list
+   * Uses the first LLM node; agents without one default to Anthropic
    */
   static getProviderFromNodes(nodes: string[]): LLMProvider {
-    if (nodes.includes('llm.openai')) {
-      return 'openai';
-    }
-    if (nodes.includes('llm.gemini')) {
-      return 'gemini';
-    }
-    if (nodes.includes('llm.deepseek')) {
-      return 'deepseek';
-    }
-    if (nodes.includes('llm.groq')) {
-      return 'groq';
-    }
-    return 'anthropic';
+    const llmNode = nodes.find(node => node.startsWith(LLM_NODE_PREFIX));
+    return llmNode ? this.getProviderFromNodeType(llmNode) : 'anthropic';
   }
 
   /**
@@ -227,4 +237,8 @@ export class ProviderRegistry {
     }
     return providerMetadata.validateApiKey(apiKey);
   }
+
+  private static nodeTypeOf(metadata: ProviderMetadata): string {
+    return metadata.nodeType || `${LLM_NODE_PREFIX}${metadata.id}`;
+  }
 } 
\ No newline at end of file
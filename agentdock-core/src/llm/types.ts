@@ -10,12 +10,24 @@ export interface TokenUsage {
   completionTokens: number;
   totalTokens: number;
   provider?: string;
+
+  /** Whether the call was answered from the response cache */
+  cacheStatus?: CacheStatus;
+
+  /** Tokens the cached response originally used; not billed again */
+  cachedTokens?: number;
 }
 
+/**
+ * Providers that ship with AgentDock
+ */
+export type BuiltInLLMProvider = 'anthropic' | 'openai' | 'gemini' | 'deepseek' | 'groq' | 'openai-compatible';
+
 /**
  * LLM provider types
+ * Further providers can be plugged in with `ProviderRegistry.registerProvider`
  */
-export type LLMProvider = 'anthropic' | 'openai' | 'gemini' | 'deepseek' | 'groq';
+export type LLMProvider = BuiltInLLMProvider | (string & {});
 
 /**
  * LLM configuration
@@ -27,6 +39,9 @@ export interface LLMConfig {
   temperature?: number;
   maxTokens?: number;
   options?: Record<string, any>;
+
+  /** Answer repeated calls from a response cache */
+  cache?: LLMCacheOptions;
   [key: string]: any;
 }
 
@@ -124,7 +139,20 @@ export interface GroqConfig extends LLMConfig {
   extractReasoning?: boolean;
 }
 
-export type ProviderConfig = AnthropicConfig | OpenAIConfig | GeminiConfig | DeepSeekConfig | GroqConfig;
+/**
+ * Configuration for self-hosted servers that speak the OpenAI chat completions API
+ * (vLLM, llama.cpp server, Ollama, ...)
+ */
+export interface OpenAICompatibleConfig extends LLMConfig {
+  /** Provider must be 'openai-compatible' */
+  provider: 'openai-compatible';
+  /** Base URL of the server's API, e.g. http://localhost:11434/v1 */
+  baseURL: string;
+  /** Extra headers sent with every request */
+  headers?: Record<string, string>;
+}
+
+export type ProviderConfig = AnthropicConfig | OpenAIConfig | GeminiConfig | DeepSeekConfig | GroqConfig | OpenAICompatibleConfig;
 
 /**
  * LLM provider interface
@@ -135,6 +163,7 @@ export interface LLMProviderInterface {
 }
 
 import type { LanguageModel } from 'ai';
+import type { CacheStatus, LLMCacheOptions } from './cache';
 
 export interface LLMAdapter {
   provider: LLMProviderInterface;
@@ -168,4 +197,10 @@ export interface ProviderMetadata {
   defaultModel: string;
   /** Apply provider-specific configurations to the base config */
   applyConfig?: (baseConfig: any, modelConfig: any, options?: any) => void;
+  /** Node type that selects the provider in agent templates (default `llm.<id>`) */
+  nodeType?: string;
+  /** Whether calls need an API key (default true) */
+  requiresApiKey?: boolean;
+  /** Creates the provider's language model; `createLLM` calls this for the provider */
+  createModel?: (config: LLMConfig) => LanguageModel;
 } 
\ No newline at end of file
@@ -188,7 +188,8 @@ describe('AgentNode Fallback Tests', () => {
       expect(require('../../llm').LLMOrchestrationService).toHaveBeenCalledWith(
         mockCoreLLM,
         expect.anything(),
-        expect.anything()
+        expect.anything(),
+        undefined // No orchestration configured
       );
       
       // streamWithOrchestration should be called
@@ -210,7 +211,8 @@ describe('AgentNode Fallback Tests', () => {
       expect(require('../../llm').LLMOrchestrationService).toHaveBeenCalledWith(
         mockFallbackLLM,
         expect.anything(),
-        expect.anything()
+        expect.anything(),
+        undefined // No orchestration configured
       );
       
       expect(mockStreamWithOrchestration).toHaveBeenCalledTimes(1);
@@ -231,7 +233,8 @@ describe('AgentNode Fallback Tests', () => {
       expect(require('../../llm').LLMOrchestrationService).toHaveBeenCalledWith(
         mockCoreLLM,
         expect.anything(),
-        expect.anything()
+        expect.anything(),
+        undefined // No orchestration configured
       );
       
       expect(mockStreamWithOrchestration).toHaveBeenCalledTimes(1);
@@ -8,6 +8,8 @@ import { getToolRegistry } from './tool-registry';
 import { LLMProvider, TokenUsage, LLMMessage, LLMConfig } from '../llm/types';
 import { CoreLLM, createLLM, LLMOrchestrationService } from '../llm';
 import { ProviderRegistry } from '../llm/provider-registry';
+import { AnsweringProvider, FailoverConfigSchema, FailoverLanguageModel, FailoverTarget } from '../llm/failover';
+import { CachedLanguageModel, CacheStatus, LLMCacheConfigSchema, LLMCacheOptions } from '../llm/cache';
 import { createError, ErrorCode } from '../errors';
 import { logger, LogCategory } from '../logging';
 import { NodeCategory } from '../types/node-category';
@@ -15,9 +17,9 @@ import { Message, ToolResultContent } from '../types/messages';
 import { convertCoreToLLMMessages } from '../utils/message-utils';
 import { createSystemPrompt } from '../utils/prompt-utils';
 import { OrchestrationConfig, AIOrchestrationState } from '../types/orchestration';
-import { OrchestrationManager } from '../orchestration/index';
+import { OrchestrationManager, applyInputsToArgs, withToolEnforcement } from '../orchestration/index';
 import { SessionId } from '../types/session';
-import { Tool } from '../types/tools';
+import { Tool, ToolExecutionOptions } from '../types/tools';
 import { CoreMessage, AgentDockStreamResult, LanguageModelUsage, CoreTool, FinishReason } from '../llm';
 import { z } from 'zod';
 import { AgentConfig, PersonalitySchema } from '../types/agent-config';
@@ -40,6 +42,10 @@ export interface AgentNodeConfig {
   fallbackProvider?: string;
   /** Optional Fallback Model identifier. */
   fallbackModel?: string;
+  /** API keys for the providers of the failover chain declared in the LLM node configuration. */
+  failoverApiKeys?: Partial<Record<LLMProvider, string>>;
+  /** Storage and embedding model for the response cache, used when the LLM node configuration enables `cache`. */
+  cache?: LLMCacheOptions;
   /** Optional LLM configuration options (merged with provider/agent defaults). */
   options?: Partial<LLMConfig>;
   /** 
@@ -72,6 +78,8 @@ export interface AgentNodeHandleMessageOptions {
   config?: Partial<LLMConfig>;
   /** Optional pre-fetched orchestration state to bypass internal fetch. */
   orchestrationState?: AIOrchestrationState;
+  /** Optional callback run once the response has finished, with the messages it added (assistant text, tool calls and results). */
+  onFinish?: (event: { response?: { messages?: CoreMessage[] } }) => Promise<void> | void;
 }
 
 /**
@@ -97,6 +105,8 @@ export class AgentNode extends BaseNode<AgentNodeConfig> {
   readonly type = 'core.agent';
   private llm: CoreLLM;
   private fallbackLlm: CoreLLM | null = null;
+  private routerLlm: CoreLLM | null = null;
+  private hasResponseCache = false;
   
   /**
    * Constructs an AgentNode instance.
@@ -106,9 +116,6 @@ export class AgentNode extends BaseNode<AgentNodeConfig> {
   constructor(id: string, config: AgentNodeConfig) {
     super(id, config);
     console.log('AgentNode Constructor - Test Log: 1744977381'); // <<< Add this line here
-    if (!config.apiKey) {
-      throw createError('node', 'API key is required for AgentNode', ErrorCode.NODE_INITIALIZATION);
-    }
     if (!config.agentConfig) {
         logger.warn(LogCategory.NODE, 'AgentNode', 'AgentConfig missing during construction, using minimal default.', { nodeId: id });
         config.agentConfig = {
@@ -123,7 +130,26 @@ export class AgentNode extends BaseNode<AgentNodeConfig> {
         };
     }
     const primaryProvider = config.provider;
-    this.llm = this.createLLMInstance(primaryProvider, config.apiKey, config.options);
+    // Self-hosted providers may run without a key
+    if (!config.apiKey && ProviderRegistry.requiresApiKey(primaryProvider || ProviderRegistry.getProviderFromNodes(config.agentConfig.nodes || []))) {
+      throw createError('node', 'API key is required for AgentNode', ErrorCode.NODE_INITIALIZATION);
+    }
+    const primaryLlm = this.createLLMInstance(primaryProvider, config.apiKey, config.options);
+    this.llm = this.createFailoverLLM(primaryLlm, config) || primaryLlm;
+    const cachedLlm = this.createCachedLLM(this.llm, config);
+    if (cachedLlm) {
+      this.llm = cachedLlm;
+      this.hasResponseCache = true;
+    }
+    
+    // The orchestration router can use a cheaper model of the same provider. Otherwise it gets
+    // its own chain, so the classification is neither cached nor reported as the answer.
+    const router = config.agentConfig.orchestration?.router;
+    if (router?.model && router.model !== this.llm.getModelId()) {
+        this.routerLlm = this.createLLMInstance(this.llm.getProvider(), config.apiKey, { ...config.options, model: router.model });
+    } else if (router && this.llm !== primaryLlm) {
+        this.routerLlm = this.createFailoverLLM(primaryLlm, config) || primaryLlm;
+    }
     
     if (config.fallbackApiKey && (config.fallbackProvider || config.fallbackModel)) { 
         const fallbackProviderOrDefault = config.fallbackProvider || this.llm.getProvider();
@@ -172,9 +198,11 @@ export class AgentNode extends BaseNode<AgentNodeConfig> {
       logger.debug(LogCategory.NODE, 'AgentNode', 'Derived provider', { nodeId: this.id, determinedProvider });
 
       logger.debug(LogCategory.NODE, 'AgentNode', 'Attempting to derive model', { nodeId: this.id, initialModel: modelName, provider: determinedProvider });
-      if (!modelName && this.config.agentConfig) {
-          const providerNodeType = ProviderRegistry.getNodeTypeFromProvider(determinedProvider);
-          modelName = this.config.agentConfig.nodeConfigurations?.[providerNodeType]?.model;
+      const providerNodeConfig = this.config.agentConfig
+          ? this.config.agentConfig.nodeConfigurations?.[ProviderRegistry.getNodeTypeFromProvider(determinedProvider)]
+          : undefined;
+      if (!modelName) {
+          modelName = providerNodeConfig?.model;
       }
       if (!modelName) {
           const providerMeta = ProviderRegistry.getProvider(determinedProvider);
@@ -192,6 +220,9 @@ export class AgentNode extends BaseNode<AgentNodeConfig> {
         provider: determinedProvider, 
         apiKey, 
         model: modelName, 
+        // Where to reach self-hosted servers, e.g. for llm.openai-compatible
+        baseURL: options?.baseURL ?? providerNodeConfig?.baseURL,
+        headers: options?.headers ?? providerNodeConfig?.headers,
         config: options, 
         agentConfig: this.config.agentConfig
       });
@@ -223,11 +254,129 @@ export class AgentNode extends BaseNode<AgentNodeConfig> {
     }
   }
   
+  /**
+   * Puts the primary LLM at the head of the failover chain declared under `failover`
+   * in its node configuration. Providers without an API key are left out.
+   * 
+   * @returns The chained LLM, or null when no chain is declared or no other provider can join it
+   */
+  private createFailoverLLM(primary: CoreLLM, config: AgentNodeConfig): CoreLLM | null {
+    const provider = this.getPrimaryProvider();
+    const nodeConfig = this.config.agentConfig?.nodeConfigurations?.[ProviderRegistry.getNodeTypeFromProvider(provider)];
+    if (!nodeConfig?.failover) return null;
+
+    const parsed = FailoverConfigSchema.safeParse(nodeConfig.failover);
+    if (!parsed.success) {
+      throw createError('node', `Invalid failover configuration: ${parsed.error.issues.map(issue => issue.message).join(', ')}`, ErrorCode.NODE_INITIALIZATION, { nodeId: this.id });
+    }
+
+    const targets: FailoverTarget[] = [{ provider, model: primary.getModel(), apiKey: config.apiKey }];
+    for (const entry of parsed.data.chain) {
+      const apiKey = config.failoverApiKeys?.[entry.provider];
+      if (!apiKey && ProviderRegistry.requiresApiKey(entry.provider)) {
+        logger.warn(LogCategory.NODE, 'AgentNode', 'Skipping failover provider without an API key', { nodeId: this.id, provider: entry.provider });
+        continue;
+      }
+      const llm = this.createLLMInstance(entry.provider, apiKey || '', { ...config.options, model: entry.model });
+      targets.push({ provider: entry.provider, model: llm.getModel(), apiKey });
+    }
+    if (targets.length === 1) return null;
+
+    logger.debug(LogCategory.NODE, 'AgentNode', 'Created failover chain', {
+      nodeId: this.id,
+      providers: targets.map(target => target.provider)
+    });
+    const model = new FailoverLanguageModel(targets, { circuitBreaker: parsed.data.circuitBreaker });
+    return new CoreLLM({ model, config: { ...config.options, provider, apiKey: config.apiKey, model: primary.getModelId() } });
+  }
+
+  /**
+   * Answers repeated calls from the response cache when the primary LLM node configuration
+   * enables `cache`. Similar messages are matched only when the template sets a
+   * `similarityThreshold` and the host provides an embedding model. Entries are kept per
+   * `cache.scope` (the user) unless the template sets `shared`, so without a scope the cache
+   * stays off rather than replaying one user's answers to another.
+   * 
+   * @returns The cached LLM, or null when the cache is not enabled
+   */
+  private createCachedLLM(llm: CoreLLM, config: AgentNodeConfig): CoreLLM | null {
+    const provider = this.getPrimaryProvider();
+    const nodeConfig = this.config.agentConfig?.nodeConfigurations?.[ProviderRegistry.getNodeTypeFromProvider(provider)];
+    if (!nodeConfig?.cache) return null;
+
+    const parsed = LLMCacheConfigSchema.safeParse(nodeConfig.cache);
+    if (!parsed.success) {
+      throw createError('node', `Invalid cache configuration: ${parsed.error.issues.map(issue => issue.message).join(', ')}`, ErrorCode.NODE_INITIALIZATION, { nodeId: this.id });
+    }
+
+    const { similarityThreshold, shared, ...settings } = parsed.data;
+    if (!shared && !config.cache?.scope) {
+      logger.warn(LogCategory.NODE, 'AgentNode', 'No scope for the response cache and sharing is not enabled, leaving the cache off', { nodeId: this.id });
+      return null;
+    }
+
+    const similarity = config.cache?.similarity;
+    if (similarityThreshold !== undefined && !similarity) {
+      logger.warn(LogCategory.NODE, 'AgentNode', 'No embedding model for the response cache, matching messages exactly', { nodeId: this.id });
+    }
+
+    const model = new CachedLanguageModel(llm.getModel(), {
+      ...config.cache,
+      ...settings,
+      scope: shared ? undefined : config.cache?.scope,
+      // The date and time message of handleMessage
+      excludeFromKey: message => message.role === 'system' && message.content.startsWith('Current date:'),
+      similarity: similarityThreshold !== undefined && similarity ? { ...similarity, threshold: similarityThreshold } : undefined
+    });
+    return new CoreLLM({ model, config: { ...config.options, provider, apiKey: config.apiKey, model: llm.getModelId() } });
+  }
+
+  /**
+   * Provider of the primary LLM, as configured or derived from the agent's LLM node
+   */
+  private getPrimaryProvider(): LLMProvider {
+    const nodes = this.config.agentConfig?.nodes || [];
+    return (this.config.provider as LLMProvider | undefined) || ProviderRegistry.getProviderFromNodes(nodes);
+  }
+  
+  /**
+   * Provider and model that answered this node's first LLM call, the one streaming the answer;
+   * the orchestration router calls a model of its own. Without a failover chain, or when the
+   * call was answered from the cache, that is the primary LLM.
+   */
+  async getAnsweringProvider(): Promise<AnsweringProvider | undefined> {
+    let model = this.llm.getModel();
+    if (model instanceof CachedLanguageModel) {
+      if (await model.getCacheStatus() === 'hit') {
+        return { provider: this.getPrimaryProvider(), model: this.llm.getModelId() };
+      }
+      model = model.getInnerModel();
+    }
+    if (model instanceof FailoverLanguageModel) {
+      return model.getAnsweringProvider();
+    }
+    return { provider: this.getPrimaryProvider(), model: this.llm.getModelId() };
+  }
+
+  /**
+   * Whether this node's first LLM call, the one streaming the answer, was answered from the
+   * response cache; undefined when the cache is not enabled
+   */
+  getCacheStatus(): Promise<CacheStatus | undefined> {
+    const model = this.llm.getModel();
+    return Promise.resolve(model instanceof CachedLanguageModel ? model.getCacheStatus() : undefined);
+  }
+  
   /**
    * Determines the tools available for the current turn.
    * Uses the correctly typed this.config.agentConfig.
    */
-  private async getAvailableTools(messages: Message[], sessionId: string, orchestrationManager: OrchestrationManager): Promise<Tool[]> {
+  private async getAvailableTools(
+    messages: Message[],
+    sessionId: string,
+    orchestrationManager: OrchestrationManager,
+    routerLLM?: CoreLLM
+  ): Promise<Tool[]> {
     try {
       const agentToolNodeIds = this.config.agentConfig?.nodes || [];
 
@@ -245,7 +394,7 @@ export class AgentNode extends BaseNode<AgentNodeConfig> {
       let allowedToolNames: string[] = allToolIds;
       if (orchestrationConfig.steps.length > 0) {
           const llmMessages = convertCoreToLLMMessages(messages);
-          allowedToolNames = await orchestrationManager.getAllowedTools(orchestrationConfig, llmMessages, sessionId, allToolIds);
+          allowedToolNames = await orchestrationManager.getAllowedTools(orchestrationConfig, llmMessages, sessionId, allToolIds, routerLLM);
       } 
       
       const availableTools = allAgentToolsList.filter(tool => allowedToolNames.includes(tool.name));
@@ -279,7 +428,8 @@ export class AgentNode extends BaseNode<AgentNodeConfig> {
         systemOverride, 
         useFallback = false, 
         config: runtimeOverrides, 
-        orchestrationState: providedState 
+        orchestrationState: providedState,
+        onFinish
     } = options;
 
     const activeLLM = useFallback && this.fallbackLlm ? this.fallbackLlm : this.llm;
@@ -288,10 +438,12 @@ export class AgentNode extends BaseNode<AgentNodeConfig> {
     }
     
     try {
+      const orchestrationConfig = this.config.agentConfig?.orchestration;
       const orchestrationService = new LLMOrchestrationService(
         activeLLM,
         orchestrationManager,
-        sessionId
+        sessionId,
+        orchestrationConfig
       );
 
       logger.info(LogCategory.NODE, 'AgentNode', 'Handling message', { 
@@ -301,8 +453,15 @@ export class AgentNode extends BaseNode<AgentNodeConfig> {
         fallback: useFallback 
       });
 
-      const availableTools = await this.getAvailableTools(messages, sessionId, orchestrationManager);
-      
+      // The dedicated router model belongs to the primary provider, so the fallback LLM routes for itself
+      const routerLLM = useFallback ? activeLLM : this.routerLlm || activeLLM;
+      const availableTools = await this.getAvailableTools(messages, sessionId, orchestrationManager, routerLLM);
+      const nodeConfigurations = this.config.agentConfig?.nodeConfigurations;
+      // Outputs of earlier pipeline steps that the active step reads
+      const stepInputs = orchestrationConfig?.steps?.length
+        ? await orchestrationManager.getStepInputs(orchestrationConfig, sessionId)
+        : {};
+
       const toolsForStreamText: Record<string, CoreTool> | undefined = 
         availableTools.length > 0 
           ? availableTools.reduce((acc, tool) => {
@@ -312,8 +471,16 @@ export class AgentNode extends BaseNode<AgentNodeConfig> {
               acc[tool.name] = { 
                   description: tool.description,
                   parameters: parametersSchema,
-                  execute: tool.execute
-              }; 
+                  // Give tools the session and their node configuration from the agent template,
+                  // and fill {{inputs.name}} placeholders from earlier steps' outputs.
+                  // Each call is checked against the active step before it runs.
+                  execute: withToolEnforcement((params: any, execOptions: any) =>
+                    (tool.execute as (params: any, options: ToolExecutionOptions) => Promise<unknown>)(applyInputsToArgs(params, stepInputs), {
+                      ...execOptions,
+                      sessionId,
+                      nodeConfigurations
+                    }), { manager: orchestrationManager, orchestration: orchestrationConfig, sessionId, toolName: tool.name })
+              };
               return acc; 
             }, {} as Record<string, CoreTool>)
           : undefined;
@@ -335,7 +502,8 @@ export class AgentNode extends BaseNode<AgentNodeConfig> {
         // Only include recentlyUsedTools if they exist and are non-empty
         recentlyUsedTools: (currentOrchestrationState?.recentlyUsedTools && currentOrchestrationState.recentlyUsedTools.length > 0) 
                            ? currentOrchestrationState.recentlyUsedTools 
-                           : undefined
+                           : undefined,
+        stepInputs: Object.keys(stepInputs).length > 0 ? stepInputs : undefined
       };
       logger.debug(LogCategory.NODE, 'AgentNode', 'Dynamic state prepared for prompt', { nodeId: this.id, sessionId: sessionId?.substring(0, 8), dynamicState: dynamicStateForPrompt });
       
@@ -351,14 +519,19 @@ export class AgentNode extends BaseNode<AgentNodeConfig> {
       }
       // --- System Prompt Preparation End ---
       
-      // Inject current date and time information into the system prompt
+      // Inject current date and time information into the system prompt.
+      // With the response cache it goes in a system message of its own that is left out of the
+      // cache key, so repeated messages still hit as the time changes.
       const now = new Date();
       const dateTimeInfo = `
 Current date: ${now.toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}
 Current time: ${now.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', timeZoneName: 'short' })}
 Current timezone: ${Intl.DateTimeFormat().resolvedOptions().timeZone}
 ISO timestamp: ${now.toISOString()}`;
-      finalSystemPrompt = `${finalSystemPrompt}\n\n${dateTimeInfo}`;
+      const keepTimeOutOfCacheKey = this.hasResponseCache && activeLLM === this.llm;
+      if (!keepTimeOutOfCacheKey) {
+        finalSystemPrompt = `${finalSystemPrompt}\n\n${dateTimeInfo}`;
+      }
       
       // >>> Debug Log for Final System Prompt <<<
       logger.debug(LogCategory.NODE, 'AgentNode', 'Final System Prompt before LLM call', { 
@@ -368,6 +541,9 @@ ISO timestamp: ${now.toISOString()}`;
       });
       
       const coreMessages = convertCoreToLLMMessages(messages) as CoreMessage[];
+      if (keepTimeOutOfCacheKey) {
+        coreMessages.unshift({ role: 'system', content: dateTimeInfo.trim() });
+      }
       
       const maxSteps = runtimeOverrides?.maxSteps ?? 
                        (typeof this.config.agentConfig?.options?.maxSteps === 'number' ? this.config.agentConfig.options.maxSteps : undefined) ?? 
@@ -391,6 +567,7 @@ ISO timestamp: ${now.toISOString()}`;
         maxTokens: runtimeOverrides?.maxTokens ?? this.config.options?.maxTokens,
         topP: runtimeOverrides?.topP ?? this.config.options?.topP,
         topK: runtimeOverrides?.topK ?? this.config.options?.topK,
+        onFinish,
       });
 
       logger.debug(LogCategory.NODE, 'AgentNode', 'Returning stream result object from service', { nodeId: this.id, sessionId: sessionId?.substring(0, 8) });
@@ -0,0 +1,192 @@
+/**
+ * @fileoverview Tests that concurrent state updates in one session are not lost,
+ * as happens with parallel tool calls
+ */
+
+import { OrchestrationManager } from '../index';
+import { OrchestrationStateManager } from '../state';
+import { SessionManager } from '../../session';
+import { SessionState } from '../../types/session';
+import { OrchestrationConfig } from '../../types/orchestration';
+import { createMockCoreLLM } from '../../test/setup';
+import { StorageProvider } from '../../storage/types';
+import { MemoryStorageProvider } from '../../storage/providers/memory-provider';
+import { RedisStorageProvider } from '../../storage/providers/redis-provider';
+
+jest.mock('@upstash/redis', () => ({
+  Redis: jest.requireActual('../../test/redis-stand-in').RedisStandIn
+}));
+
+const providers: [string, () => StorageProvider][] = [
+  ['memory', () => new MemoryStorageProvider({ namespace: 'concurrency' })],
+  ['redis', () => new RedisStorageProvider({ namespace: 'concurrency', url: 'http://localhost:8079', token: 'stand-in' })]
+];
+
+describe.each(providers)('concurrent state updates with %s storage', (_name, createProvider) => {
+  let storage: StorageProvider;
+  let stateManager: OrchestrationStateManager;
+  const sessionId = 'parallel-session';
+
+  beforeEach(async () => {
+    storage = createProvider();
+    stateManager = new OrchestrationStateManager({ storageProvider: storage });
+    await stateManager.getOrCreateState(sessionId);
+  });
+
+  afterEach(async () => {
+    await storage.destroy?.();
+  });
+
+  it('keeps every tool added by parallel calls', async () => {
+    const tools = ['search', 'weather', 'calculator', 'translate', 'summarize', 'stock_price'];
+
+    await Promise.all(tools.map(tool => stateManager.addUsedTool(sessionId, tool)));
+
+    const state = await stateManager.getState(sessionId);
+    expect([...(state?.recentlyUsedTools || [])].sort()).toEqual([...tools].sort());
+  });
+
+  it('adds up token usage from parallel updates', async () => {
+    await Promise.all(
+      Array.from({ length: 8 }, () =>
+        stateManager.updateState(sessionId, (state) => ({
+          cumulativeTokenUsage: {
+            promptTokens: (state.cumulativeTokenUsage?.promptTokens ?? 0) + 10,
+            completionTokens: (state.cumulativeTokenUsage?.completionTokens ?? 0) + 5,
+            totalTokens: (state.cumulativeTokenUsage?.totalTokens ?? 0) + 15
+          }
+        }))
+      )
+    );
+
+    const state = await stateManager.getState(sessionId);
+    expect(state?.cumulativeTokenUsage).toEqual({ promptTokens: 80, completionTokens: 40, totalTokens: 120 });
+  });
+
+  it('keeps updates to different fields made in parallel', async () => {
+    await Promise.all([
+      stateManager.setActiveStep(sessionId, 'research'),
+      stateManager.setFlag(sessionId, 'approved', true),
+      stateManager.advanceSequence(sessionId)
+    ]);
+
+    const state = await stateManager.getState(sessionId);
+    expect(state).toMatchObject({ activeStep: 'research', flags: { approved: true }, sequenceIndex: 1 });
+  });
+
+  it('keeps updates made while the router classifies a message', async () => {
+    const manager = new OrchestrationManager({ storageProvider: storage });
+    const orchestration: OrchestrationConfig = {
+      router: {},
+      steps: [
+        { name: 'General', description: 'Answer general questions', isDefault: true },
+        { name: 'Compare', description: 'Compare options' }
+      ]
+    };
+    const llm = createMockCoreLLM();
+    llm.generateObject.mockImplementationOnce(async () => {
+      // Another request in the session writes while the classifier call is in flight
+      await manager.updateState(sessionId, current => ({
+        stepVisits: { ...current.stepVisits, General: (current.stepVisits?.General ?? 0) + 1 }
+      }));
+      return {
+        object: { step: 'Compare', confidence: 0.9, reason: 'test' },
+        usage: { promptTokens: 80, completionTokens: 20, totalTokens: 100 }
+      } as never;
+    });
+
+    const step = await manager.getActiveStep(orchestration, [{ role: 'user', content: 'A vs B?', id: 'm1' }], sessionId, llm);
+
+    const state = await stateManager.getState(sessionId);
+    expect(step?.name).toBe('Compare');
+    expect(state).toMatchObject({ activeStep: 'Compare', stepVisits: { General: 1, Compare: 1 } });
+    expect(state?.transitionHistory).toHaveLength(1);
+  });
+
+  it('keeps updates made in parallel with a pipeline advance', async () => {
+    const manager = new OrchestrationManager({ storageProvider: storage });
+    const pipeline: OrchestrationConfig = {
+      steps: [
+        { name: 'Gather', description: 'Search', isDefault: true, sequence: ['search'], return: 'results' },
+        { name: 'Answer', description: 'Answer from the results', sequence: ['llm.groq'], return: 'answer' }
+      ]
+    };
+
+    await Promise.all([
+      manager.recordStepOutput(pipeline, sessionId, { toolResults: [{ toolName: 'search', result: 'found' }] }),
+      ...Array.from({ length: 3 }, () =>
+        manager.updateState(sessionId, current => ({
+          stepVisits: { ...current.stepVisits, Gather: (current.stepVisits?.Gather ?? 0) + 1 }
+        }))
+      )
+    ]);
+
+    const state = await stateManager.getState(sessionId);
+    expect(state).toMatchObject({
+      activeStep: 'Answer',
+      sequenceIndex: 0,
+      stepOutputs: { results: 'found' },
+      // Entering the default step counts one visit besides the three parallel ones
+      stepVisits: { Gather: 4, Answer: 1 }
+    });
+  });
+});
+
+describe('SessionManager versioned writes', () => {
+  interface CounterState extends SessionState {
+    count: number;
+  }
+
+  const createManager = (storage: StorageProvider, maxUpdateAttempts?: number) =>
+    new SessionManager<CounterState>(
+      (sessionId) => ({ sessionId, count: 0 }),
+      storage,
+      'counters',
+      { maxUpdateAttempts }
+    );
+
+  it('retries an update on the state written by a concurrent one', async () => {
+    const storage = new MemoryStorageProvider({ namespace: 'versioned' });
+    const manager = createManager(storage);
+    await manager.createSession({ sessionId: 'counter' });
+
+    const results = await Promise.all(
+      Array.from({ length: 5 }, () => manager.updateSession('counter', state => ({ ...state, count: state.count + 1 })))
+    );
+
+    expect(results.every(result => result.success)).toBe(true);
+    expect((await manager.getSession('counter')).data?.count).toBe(5);
+    manager.destroy();
+    await storage.destroy();
+  });
+
+  it('gives up when the session keeps changing', async () => {
+    const storage = new MemoryStorageProvider({ namespace: 'versioned' });
+    const manager = createManager(storage, 2);
+    await manager.createSession({ sessionId: 'counter' });
+    const compareAndSet = jest.spyOn(storage, 'compareAndSet').mockResolvedValue(false);
+
+    const result = await manager.updateSession('counter', state => ({ ...state, count: state.count + 1 }));
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/gave up after 2 attempts/);
+    expect(compareAndSet).toHaveBeenCalledTimes(2);
+    manager.destroy();
+    await storage.destroy();
+  });
+
+  it('writes with set() when the provider has no compare-and-set', async () => {
+    const storage = new MemoryStorageProvider({ namespace: 'versioned' });
+    Object.defineProperty(storage, 'compareAndSet', { value: undefined });
+    const set = jest.spyOn(storage, 'set');
+    const manager = createManager(storage);
+    await manager.createSession({ sessionId: 'counter' });
+
+    const result = await manager.updateSession('counter', state => ({ ...state, count: 3 }));
+
+    expect(result.data?.count).toBe(3);
+    expect(set).toHaveBeenCalledWith('counters:counter', expect.objectContaining({ version: 2 }), expect.anything());
+    manager.destroy();
+    await storage.destroy();
+  });
+});
@@ -0,0 +1,266 @@
+import { OrchestrationManager } from '../index';
+import { ConditionContext, describeCondition, evaluateCondition, toolResultToText } from '../conditions';
+import { OrchestrationState, OrchestrationStateUpdate } from '../state';
+import { LLMMessage } from '../../llm/types';
+import { OrchestrationCondition, OrchestrationConditionSchema, OrchestrationConfig, OrchestrationSchema } from '../../types/orchestration';
+
+jest.mock('../../logging', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn()
+  },
+  LogCategory: {
+    ORCHESTRATION: 'orchestration'
+  }
+}));
+
+// In-memory stand-in for the state manager so step transitions can run end to end
+const states = new Map<string, OrchestrationState>();
+
+jest.mock('../state', () => {
+  const originalModule = jest.requireActual('../state');
+  const fakeStateManager = () => ({
+    getState: jest.fn(async (sessionId: string) => states.get(sessionId) || null),
+    getOrCreateState: jest.fn(async (sessionId: string) => {
+      if (!states.has(sessionId)) {
+        states.set(sessionId, { sessionId, recentlyUsedTools: [], sequenceIndex: 0, lastAccessed: 0, ttl: 0 });
+      }
+      return states.get(sessionId);
+    }),
+    updateState: jest.fn(async (sessionId: string, updates: OrchestrationStateUpdate) => {
+      const current = states.get(sessionId)!;
+      const updated = { ...current, ...(typeof updates === 'function' ? updates(current) : updates) };
+      states.set(sessionId, updated);
+      return updated;
+    }),
+    setFlag: jest.fn(async (sessionId: string, flag: string, value: string | number | boolean | undefined) => {
+      const state = states.get(sessionId)!;
+      state.flags = { ...state.flags, [flag]: value as string | number | boolean };
+      return state;
+    })
+  });
+  return {
+    ...originalModule,
+    createOrchestrationStateManager: jest.fn().mockImplementation(fakeStateManager)
+  };
+});
+
+const user = (content: string): LLMMessage => ({ role: 'user', content });
+const assistant = (content: string): LLMMessage => ({ role: 'assistant', content });
+
+describe('Orchestration conditions', () => {
+  const context = (overrides: Partial<ConditionContext> = {}): ConditionContext => ({
+    state: { recentlyUsedTools: [] },
+    messages: [],
+    step: { name: 'Escalation', description: 'Escalate to a human' },
+    ...overrides
+  });
+
+  describe('evaluateCondition', () => {
+    it('matches the latest message of the given role', () => {
+      const messages = [user('I want a refund'), assistant('Sorry to hear that'), user('thanks')];
+      const refund: OrchestrationCondition = { type: 'message_regex', value: 'refund', flags: 'i' };
+
+      expect(evaluateCondition(refund, context({ messages }))).toBe(false);
+      expect(evaluateCondition({ ...refund, value: '^thanks$' }, context({ messages }))).toBe(true);
+      expect(evaluateCondition({ ...refund, value: 'sorry', role: 'assistant' }, context({ messages }))).toBe(true);
+      expect(evaluateCondition({ ...refund, value: 'sorry', role: 'any' }, context({ messages }))).toBe(false);
+    });
+
+    it('counts user turns within a range', () => {
+      const messages = [user('1'), assistant('a'), user('2'), user('3'), user('4'), user('5')];
+
+      expect(evaluateCondition({ type: 'turn_count', min: 5 }, context({ messages }))).toBe(true);
+      expect(evaluateCondition({ type: 'turn_count', min: 6 }, context({ messages }))).toBe(false);
+      expect(evaluateCondition({ type: 'turn_count', min: 2, max: 4 }, context({ messages }))).toBe(false);
+    });
+
+    it('compares token usage with an absolute limit or a share of the budget', () => {
+      const state = { recentlyUsedTools: [], cumulativeTokenUsage: { promptTokens: 6000, completionTokens: 2100, totalTokens: 8100 } };
+
+      expect(evaluateCondition({ type: 'token_usage_above', percent: 80, budget: 10000 }, context({ state }))).toBe(true);
+      expect(evaluateCondition({ type: 'token_usage_above', percent: 90, budget: 10000 }, context({ state }))).toBe(false);
+      expect(evaluateCondition({ type: 'token_usage_above', tokens: 8100 }, context({ state }))).toBe(false);
+      expect(evaluateCondition({ type: 'token_usage_above', tokens: 8000 }, context())).toBe(false);
+    });
+
+    it('counts visits to the owning step or a named step', () => {
+      const state = { recentlyUsedTools: [], stepVisits: { Escalation: 2, Triage: 1 } };
+
+      expect(evaluateCondition({ type: 'step_visits', max: 1 }, context({ state }))).toBe(false);
+      expect(evaluateCondition({ type: 'step_visits', step: 'Triage', max: 1 }, context({ state }))).toBe(true);
+      expect(evaluateCondition({ type: 'step_visits', step: 'Billing', max: 0 }, context({ state }))).toBe(true);
+    });
+
+    it('matches the latest result of a tool', () => {
+      const state = { recentlyUsedTools: ['search'], lastToolResults: { search: toolResultToText({ content: 'No results found' }) } };
+
+      expect(evaluateCondition({ type: 'tool_result_matches', tool: 'search', value: 'no results', flags: 'i' }, context({ state }))).toBe(true);
+      expect(evaluateCondition({ type: 'tool_result_matches', tool: 'deep_research', value: '.*' }, context({ state }))).toBe(false);
+    });
+
+    it('checks flags for being set or equal to a value', () => {
+      const state = { recentlyUsedTools: [], flags: { vip: true, tier: 'gold', retries: 0 } };
+
+      expect(evaluateCondition({ type: 'state_flag', flag: 'vip' }, context({ state }))).toBe(true);
+      expect(evaluateCondition({ type: 'state_flag', flag: 'retries' }, context({ state }))).toBe(false);
+      expect(evaluateCondition({ type: 'state_flag', flag: 'retries', equals: 0 }, context({ state }))).toBe(true);
+      expect(evaluateCondition({ type: 'state_flag', flag: 'tier', equals: 'silver' }, context({ state }))).toBe(false);
+    });
+
+    it('composes conditions with all, any and not', () => {
+      const state = { recentlyUsedTools: ['search'], flags: { vip: true } };
+      const condition: OrchestrationCondition = {
+        type: 'all',
+        conditions: [
+          { type: 'any', conditions: [{ type: 'tool_used', value: 'think' }, { type: 'tool_used', value: 'search' }] },
+          { type: 'not', condition: { type: 'state_flag', flag: 'escalated' } },
+          { type: 'state_flag', flag: 'vip' }
+        ]
+      };
+
+      expect(evaluateCondition(condition, context({ state }))).toBe(true);
+      expect(evaluateCondition(condition, context({ state: { ...state, flags: { vip: true, escalated: true } } }))).toBe(false);
+    });
+
+    it('treats message conditions as unknown without the conversation', () => {
+      const noConversation = context({ messages: undefined, state: { recentlyUsedTools: [], flags: { vip: true } } });
+      const turns: OrchestrationCondition = { type: 'turn_count', max: 1 };
+      const question: OrchestrationCondition = { type: 'message_regex', value: '\\?' };
+
+      expect(evaluateCondition(turns, noConversation)).toBe(false);
+      expect(evaluateCondition({ type: 'not', condition: turns }, noConversation)).toBe(false);
+      expect(evaluateCondition({ type: 'not', condition: question }, noConversation)).toBe(false);
+      expect(evaluateCondition({ type: 'all', conditions: [{ type: 'not', condition: question }, { type: 'state_flag', flag: 'vip' }] }, noConversation))
+        .toBe(false);
+      expect(evaluateCondition({ type: 'any', conditions: [question, { type: 'state_flag', flag: 'vip' }] }, noConversation)).toBe(true);
+      expect(evaluateCondition({ type: 'not', condition: { type: 'all', conditions: [question, { type: 'state_flag', flag: 'missing' }] } }, noConversation))
+        .toBe(true);
+    });
+
+    it('truncates long tool results', () => {
+      expect(toolResultToText('x'.repeat(5000))).toHaveLength(4000);
+    });
+  });
+
+  describe('OrchestrationConditionSchema', () => {
+    it('accepts each condition type, nested ones included', () => {
+      const conditions = [
+        { type: 'message_regex', value: 'refund|chargeback', flags: 'i' },
+        { type: 'turn_count', min: 5 },
+        { type: 'token_usage_above', percent: 80, budget: 100000 },
+        { type: 'step_visits', step: 'Triage', max: 2 },
+        { type: 'tool_result_matches', tool: 'search', value: 'no results' },
+        { type: 'state_flag', flag: 'tier', equals: 'gold' },
+        { type: 'not', condition: { type: 'any', conditions: [{ type: 'tool_used', value: 'think' }] } }
+      ];
+
+      for (const condition of conditions) {
+        expect(OrchestrationConditionSchema.safeParse(condition).success).toBe(true);
+      }
+    });
+
+    it.each([
+      [{ type: 'tool_used' }, "Condition value is required when type is 'tool_used'"],
+      [{ type: 'message_regex', value: '(' }, "Condition value '(' is not a valid regular expression"],
+      [{ type: 'turn_count' }, "Condition type 'turn_count' needs min, max or both"],
+      [{ type: 'step_visits', min: 3, max: 1 }, 'Condition min must not be greater than max'],
+      [{ type: 'token_usage_above', tokens: 10, percent: 50, budget: 100 }, "needs either tokens, or percent together with budget"],
+      [{ type: 'token_usage_above', percent: 50 }, 'Condition percent and budget must be set together'],
+      [{ type: 'all', conditions: [{ type: 'turn_count', min: -1 }] }, 'Number must be greater than or equal to 0']
+    ])('rejects %j', (condition, message) => {
+      const result = OrchestrationConditionSchema.safeParse(condition);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.issues.map(issue => issue.message).join('\n')).toContain(message);
+    });
+  });
+
+  it('describes conditions for the system prompt', () => {
+    expect(describeCondition({ type: 'token_usage_above', percent: 80, budget: 100000 }))
+      .toBe('When token usage passes 80% of the 100000 token budget');
+    expect(describeCondition({ type: 'not', condition: { type: 'turn_count', min: 5 } }))
+      .toBe('Not: When the user has sent at least 5 messages');
+  });
+
+  describe('step transitions', () => {
+    const sessionId = 'conditions-session';
+    const orchestration: OrchestrationConfig = {
+      steps: [
+        { name: 'Assist', description: 'Answer questions', isDefault: true },
+        {
+          name: 'Escalation',
+          description: 'Hand over to a human',
+          conditions: [{
+            type: 'any',
+            conditions: [
+              { type: 'token_usage_above', percent: 80, budget: 1000 },
+              { type: 'all', conditions: [{ type: 'turn_count', min: 3 }, { type: 'message_regex', value: 'human|agent', flags: 'i' }] },
+              { type: 'state_flag', flag: 'escalate' }
+            ]
+          }]
+        }
+      ]
+    };
+    let manager: OrchestrationManager;
+
+    beforeEach(() => {
+      states.clear();
+      manager = new OrchestrationManager();
+    });
+
+    it('is valid configuration', () => {
+      expect(OrchestrationSchema.safeParse(orchestration).success).toBe(true);
+    });
+
+    it('enters a step once its conditions hold and counts the visit', async () => {
+      expect((await manager.getActiveStep(orchestration, [user('hi')], sessionId))?.name).toBe('Assist');
+      expect((await manager.getActiveStep(orchestration, [user('hi'), user('still stuck'), user('get me a human')], sessionId))?.name)
+        .toBe('Escalation');
+      expect(states.get(sessionId)?.stepVisits).toEqual({ Assist: 1, Escalation: 1 });
+    });
+
+    it('reacts to token usage and flags from the state', async () => {
+      await manager.getActiveStep(orchestration, [], sessionId);
+      await manager.updateState(sessionId, { cumulativeTokenUsage: { promptTokens: 700, completionTokens: 150, totalTokens: 850 } });
+      expect((await manager.getActiveStep(orchestration, [], sessionId))?.name).toBe('Escalation');
+
+      states.clear();
+      await manager.getActiveStep(orchestration, [], sessionId);
+      await manager.setFlag(sessionId, 'escalate', true);
+      expect((await manager.getActiveStep(orchestration, [], sessionId))?.name).toBe('Escalation');
+    });
+
+    it('does not re-enter message-guarded steps when recording output', async () => {
+      const config: OrchestrationConfig = {
+        steps: [
+          { name: 'Welcome', description: 'Greet the user', conditions: [{ type: 'turn_count', max: 1 }] },
+          { name: 'Assist', description: 'Answer questions', isDefault: true },
+          { name: 'Wrap Up', description: 'Close the conversation', conditions: [{ type: 'not', condition: { type: 'message_regex', value: '\\?' } }] }
+        ]
+      };
+
+      expect((await manager.getActiveStep(config, [user('hi'), user('what is a lead?')], sessionId))?.name).toBe('Assist');
+      expect((await manager.recordStepOutput(config, sessionId, { text: 'A lead is a prospect.' }))?.name).toBe('Assist');
+      expect((await manager.getActiveStep(config, undefined, sessionId))?.name).toBe('Assist');
+      expect(states.get(sessionId)?.stepVisits).toEqual({ Assist: 1 });
+    });
+
+    it('keeps the latest tool results for tool_result_matches', async () => {
+      const config: OrchestrationConfig = {
+        steps: [
+          { name: 'Search', description: 'Search the web', isDefault: true },
+          { name: 'Clarify', description: 'Ask for details', conditions: [{ type: 'tool_result_matches', tool: 'search', value: 'no results' }] }
+        ]
+      };
+
+      await manager.getActiveStep(config, [], sessionId);
+      const step = await manager.recordStepOutput(config, sessionId, { toolResults: [{ toolName: 'search', result: { content: 'no results' } }] });
+
+      expect(step?.name).toBe('Clarify');
+      expect(states.get(sessionId)?.lastToolResults).toEqual({ search: '{"content":"no results"}' });
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import { OrchestrationManager } from '../index';
+import { OrchestrationState, OrchestrationStateUpdate } from '../state';
+import { createToolViolationResult, describeToolViolation, withToolEnforcement } from '../enforcement';
+import { OrchestrationConfig, OrchestrationSchema, ToolCallViolation } from '../../types/orchestration';
+
+jest.mock('../../logging', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn()
+  },
+  LogCategory: {
+    ORCHESTRATION: 'orchestration'
+  }
+}));
+
+// In-memory stand-in for the state manager so calls can be checked end to end
+const states = new Map<string, OrchestrationState>();
+
+jest.mock('../state', () => {
+  const originalModule = jest.requireActual('../state');
+  const fakeStateManager = () => ({
+    getState: jest.fn(async (sessionId: string) => states.get(sessionId) || null),
+    getOrCreateState: jest.fn(async (sessionId: string) => {
+      if (!states.has(sessionId)) {
+        states.set(sessionId, { sessionId, recentlyUsedTools: [], sequenceIndex: 0, lastAccessed: 0, ttl: 0 });
+      }
+      return states.get(sessionId);
+    }),
+    updateState: jest.fn(async (sessionId: string, updates: OrchestrationStateUpdate) => {
+      const current = states.get(sessionId)!;
+      const updated = { ...current, ...(typeof updates === 'function' ? updates(current) : updates) };
+      states.set(sessionId, updated);
+      return updated;
+    }),
+    recordToolViolation: jest.fn(async (sessionId: string, violation: ToolCallViolation) => {
+      const state = states.get(sessionId) || { sessionId, recentlyUsedTools: [], sequenceIndex: 0, lastAccessed: 0, ttl: 0 };
+      states.set(sessionId, { ...state, toolViolations: [...(state.toolViolations || []), violation] });
+      return states.get(sessionId);
+    })
+  });
+  return {
+    ...originalModule,
+    createOrchestrationStateManager: jest.fn().mockImplementation(fakeStateManager)
+  };
+});
+
+describe('Tool call enforcement', () => {
+  const sessionId = 'enforcement-session';
+  const orchestration: OrchestrationConfig = {
+    enforcement: 'strict',
+    steps: [
+      { name: 'Research', description: 'Search, then think', isDefault: true, sequence: ['search', 'think'] },
+      { name: 'Report', description: 'Write the report', availableTools: { allowed: ['write_report'] } },
+      { name: 'Chat', description: 'Chat freely', availableTools: { denied: ['delete_records'] } }
+    ]
+  };
+  let manager: OrchestrationManager;
+
+  const setStep = (activeStep: string, sequenceIndex = 0) =>
+    states.set(sessionId, { sessionId, activeStep, recentlyUsedTools: [], sequenceIndex, lastAccessed: 0, ttl: 0 });
+
+  const enforced = (config: OrchestrationConfig, toolName: string, execute = jest.fn().mockResolvedValue('done')) =>
+    ({ execute, run: withToolEnforcement(execute, { manager, orchestration: config, sessionId, toolName }) });
+
+  beforeEach(() => {
+    states.clear();
+    manager = new OrchestrationManager();
+  });
+
+  it('rejects out-of-sequence calls in strict mode with a result the model can act on', async () => {
+    setStep('Research');
+    const { execute, run } = enforced(orchestration, 'think');
+
+    const result = await run({ topic: 'CRDTs' });
+
+    expect(execute).not.toHaveBeenCalled();
+    expect(result).toEqual({
+      error: 'ORCHESTRATION_VIOLATION',
+      message: 'Tool "think" was called out of order in step "Research". Call "search" next.',
+      tool: 'think',
+      step: 'Research',
+      reason: 'out_of_sequence',
+      expectedTool: 'search'
+    });
+    expect(states.get(sessionId)?.toolViolations).toEqual([
+      { tool: 'think', step: 'Research', reason: 'out_of_sequence', expectedTool: 'search', blocked: true, at: expect.any(Number) }
+    ]);
+  });
+
+  it('runs the call and records the violation in advisory mode', async () => {
+    setStep('Research');
+    const { execute, run } = enforced({ ...orchestration, enforcement: 'advisory' }, 'think');
+
+    expect(await run({})).toBe('done');
+    expect(execute).toHaveBeenCalledWith({});
+    expect(states.get(sessionId)?.toolViolations?.[0]).toMatchObject({ tool: 'think', blocked: false });
+  });
+
+  it('moves the sequence on after each call that runs', async () => {
+    setStep('Research');
+
+    expect(await enforced(orchestration, 'search').run()).toBe('done');
+    expect(states.get(sessionId)?.sequenceProgress?.completed).toEqual(['0']);
+    expect(await enforced(orchestration, 'think').run()).toBe('done');
+    expect(states.get(sessionId)?.toolViolations).toBeUndefined();
+  });
+
+  it('rejects tools the step denies or does not allow', async () => {
+    setStep('Report');
+    expect(await enforced(orchestration, 'search').run()).toMatchObject({
+      reason: 'not_allowed',
+      allowedTools: ['write_report'],
+      message: 'Tool "search" cannot be used in step "Report": the step only allows "write_report". Use one of those instead.'
+    });
+
+    setStep('Chat');
+    expect(await enforced(orchestration, 'delete_records').run()).toMatchObject({ reason: 'denied' });
+    expect(await enforced(orchestration, 'search').run()).toBe('done');
+  });
+
+  it('checks calls against the next pipeline step once only model stages are left', async () => {
+    const pipeline: OrchestrationConfig = {
+      enforcement: 'strict',
+      steps: [
+        { name: 'Plan', description: 'Plan the query', isDefault: true, sequence: ['llm.groq'], return: 'plan' },
+        { name: 'Query', description: 'Run the query', sequence: ['salesforce_query'], return: 'records' }
+      ]
+    };
+    setStep('Plan');
+
+    expect(await enforced(pipeline, 'salesforce_query').run()).toBe('done');
+    expect(await enforced(pipeline, 'salesforce_search').run()).toMatchObject({ step: 'Query', expectedTool: 'salesforce_query' });
+  });
+
+  it('uses the default step when no step is active and allows anything without orchestration', async () => {
+    expect(await manager.authorizeToolCall(orchestration, sessionId, 'think')).toMatchObject({ allowed: false });
+    expect(await manager.authorizeToolCall(undefined, sessionId, 'think')).toEqual({ allowed: true });
+    expect(await manager.authorizeToolCall({ steps: [] }, sessionId, 'think')).toEqual({ allowed: true });
+  });
+
+  it('describes calls made before the model has replied', () => {
+    const violation: ToolCallViolation = { tool: 'search', step: 'Draft', reason: 'out_of_sequence', blocked: true, at: 0 };
+
+    expect(describeToolViolation(violation)).toBe('Tool "search" was called out of order in step "Draft". Reply to the user before calling more tools.');
+    expect(createToolViolationResult(violation)).not.toHaveProperty('expectedTool');
+  });
+
+  it('validates the enforcement mode', () => {
+    expect(OrchestrationSchema.safeParse(orchestration).success).toBe(true);
+    expect(OrchestrationSchema.safeParse({ ...orchestration, enforcement: 'hard' }).success).toBe(false);
+  });
+});
@@ -1,5 +1,5 @@
 import { OrchestrationManager } from '../index';
-import { OrchestrationStateManager } from '../state';
+import { OrchestrationState, OrchestrationStateManager } from '../state';
 import { StepSequencer } from '../sequencer';
 import { SessionId } from '../../types/session';
 import { OrchestrationConfig, OrchestrationStep, AIOrchestrationState } from '../../types/orchestration';
@@ -123,6 +123,12 @@ describe('OrchestrationManager', () => {
     { role: 'user', content: 'Test message' }
   ];
   
+  // Step changes are passed as updater functions; applies the first one to the given state
+  const appliedUpdate = (state: OrchestrationState) => {
+    const [, update] = mockStateManager.updateState.mock.calls[0];
+    return typeof update === 'function' ? update(state) : update;
+  };
+  
   beforeEach(() => {
     jest.clearAllMocks();
     
@@ -197,10 +203,13 @@ describe('OrchestrationManager', () => {
       const result = await manager.getActiveStep(testOrchestration, testMessages, sessionId);
       
       expect(result).toEqual(testOrchestration.steps[1]); // conditional-step
-      expect(mockStateManager.updateState).toHaveBeenCalledWith(
-        sessionId,
-        { activeStep: 'conditional-step', sequenceIndex: 0 }
-      );
+      expect(mockStateManager.updateState).toHaveBeenCalledWith(sessionId, expect.any(Function));
+      expect(appliedUpdate(mockState)).toEqual({
+        activeStep: 'conditional-step',
+        sequenceIndex: 0,
+        stepVisits: { 'conditional-step': 1 },
+        transitionHistory: [{ from: undefined, to: 'conditional-step', trigger: 'condition', at: expect.any(Number) }]
+      });
     });
     
     it('should return current active step if no conditions are met', async () => {
@@ -234,10 +243,13 @@ describe('OrchestrationManager', () => {
       const result = await manager.getActiveStep(testOrchestration, testMessages, sessionId);
       
       expect(result).toEqual(testOrchestration.steps[0]); // default-step
-      expect(mockStateManager.updateState).toHaveBeenCalledWith(
-        sessionId,
-        { activeStep: 'default-step', sequenceIndex: 0 }
-      );
+      expect(mockStateManager.updateState).toHaveBeenCalledWith(sessionId, expect.any(Function));
+      expect(appliedUpdate(mockState)).toEqual({
+        activeStep: 'default-step',
+        sequenceIndex: 0,
+        stepVisits: { 'default-step': 1 },
+        transitionHistory: [{ from: 'non-existent-step', to: 'default-step', trigger: 'default', at: expect.any(Number) }]
+      });
       expect(logger.warn).toHaveBeenCalled();
     });
     
@@ -280,10 +292,13 @@ describe('OrchestrationManager', () => {
       const result = await manager.getActiveStep(testOrchestration, testMessages, sessionId);
       
       expect(result).toEqual(testOrchestration.steps[2]); // sequence-step
-      expect(mockStateManager.updateState).toHaveBeenCalledWith(
-        sessionId,
-        { activeStep: 'sequence-step', sequenceIndex: 0 }
-      );
+      expect(mockStateManager.updateState).toHaveBeenCalledWith(sessionId, expect.any(Function));
+      expect(appliedUpdate(mockState)).toEqual({
+        activeStep: 'sequence-step',
+        sequenceIndex: 0,
+        stepVisits: { 'sequence-step': 1 },
+        transitionHistory: [{ from: undefined, to: 'sequence-step', trigger: 'condition', at: expect.any(Number) }]
+      });
     });
     
     it('should log warning for unsupported condition type', async () => {
@@ -432,7 +447,7 @@ describe('OrchestrationManager', () => {
       const result = await manager.getAllowedTools(testOrchestration, testMessages, sessionId, allToolIds);
       
       expect(result).toEqual(allToolIds);
-      expect(manager.getActiveStep).toHaveBeenCalledWith(testOrchestration, testMessages, sessionId);
+      expect(manager.getActiveStep).toHaveBeenCalledWith(testOrchestration, testMessages, sessionId, undefined);
     });
     
     it('should call sequencer.filterToolsBySequence if step has sequence', async () => {
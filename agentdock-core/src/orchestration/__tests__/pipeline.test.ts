@@ -0,0 +1,208 @@
+import { OrchestrationManager } from '../index';
+import { applyInputsToArgs, formatInputsForPrompt, resolveStepInputs } from '../pipeline';
+import { OrchestrationState, OrchestrationStateUpdate } from '../state';
+import { SessionId } from '../../types/session';
+import { OrchestrationConfig, OrchestrationSchema } from '../../types/orchestration';
+import { createSystemPrompt } from '../../utils/prompt-utils';
+
+jest.mock('../../logging', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn()
+  },
+  LogCategory: {
+    ORCHESTRATION: 'orchestration'
+  }
+}));
+
+// In-memory stand-in for the state manager so the pipeline can run end to end
+const states = new Map<string, OrchestrationState>();
+
+jest.mock('../state', () => {
+  const originalModule = jest.requireActual('../state');
+  const fakeStateManager = () => ({
+    getState: jest.fn(async (sessionId: string) => states.get(sessionId) || null),
+    getOrCreateState: jest.fn(async (sessionId: string) => {
+      if (!states.has(sessionId)) {
+        states.set(sessionId, { sessionId, recentlyUsedTools: [], sequenceIndex: 0, lastAccessed: 0, ttl: 0 });
+      }
+      return states.get(sessionId);
+    }),
+    updateState: jest.fn(async (sessionId: string, updates: OrchestrationStateUpdate) => {
+      const current = states.get(sessionId)!;
+      const updated = { ...current, ...(typeof updates === 'function' ? updates(current) : updates) };
+      states.set(sessionId, updated);
+      return updated;
+    }),
+    addUsedTool: jest.fn(async (sessionId: string, toolName: string) => {
+      const state = states.get(sessionId)!;
+      state.recentlyUsedTools = [toolName, ...state.recentlyUsedTools];
+      return state;
+    })
+  });
+  return {
+    ...originalModule,
+    createOrchestrationStateManager: jest.fn().mockImplementation(fakeStateManager)
+  };
+});
+
+describe('Orchestration pipeline', () => {
+  const sessionId: SessionId = 'pipeline-session';
+  const pipeline: OrchestrationConfig = {
+    steps: [
+      {
+        name: 'Preprocess Input',
+        description: 'Restate the request',
+        isDefault: true,
+        sequence: ['llm.groq'],
+        return: 'preprocessed_input'
+      },
+      {
+        name: 'Salesforce Query',
+        description: 'Run the query',
+        sequence: ['salesforce_query'],
+        availableTools: { allowed: ['salesforce_query', 'salesforce_search'] },
+        return: 'tool_result',
+        inputs: { request: 'preprocessed_input' }
+      },
+      {
+        name: 'Postprocess Output',
+        description: 'Summarize the result',
+        sequence: ['llm.groq'],
+        return: 'final_output',
+        inputs: { queryResult: 'tool_result' }
+      }
+    ]
+  };
+  const queryResult = { type: 'salesforce_query_result', content: '| Name |\n| Acme |', data: { totalSize: 1 } };
+  let manager: OrchestrationManager;
+
+  beforeEach(() => {
+    states.clear();
+    manager = new OrchestrationManager();
+  });
+
+  describe('OrchestrationSchema', () => {
+    it('should accept return and inputs that refer to earlier steps', () => {
+      expect(OrchestrationSchema.safeParse(pipeline).success).toBe(true);
+    });
+
+    it('should reject inputs that no earlier step returns', () => {
+      const result = OrchestrationSchema.safeParse({
+        steps: [
+          { name: 'first', description: '', inputs: { queryResult: 'tool_result' } },
+          { name: 'second', description: '', return: 'tool_result' }
+        ]
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0].path).toEqual(['steps', 0, 'inputs', 'queryResult']);
+    });
+
+    it('should reject return names declared twice', () => {
+      const result = OrchestrationSchema.safeParse({
+        steps: [
+          { name: 'first', description: '', return: 'output' },
+          { name: 'second', description: '', return: 'output' }
+        ]
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0].message).toContain("'output' is declared by more than one step");
+    });
+  });
+
+  describe('helpers', () => {
+    it('should resolve only inputs whose output exists', () => {
+      expect(resolveStepInputs(pipeline.steps[2], { tool_result: queryResult })).toEqual({ queryResult });
+      expect(resolveStepInputs(pipeline.steps[2], {})).toEqual({});
+    });
+
+    it('should replace input placeholders in nested tool arguments', () => {
+      const args = {
+        query: '{{inputs.request}}',
+        options: { notes: ['Based on: {{ inputs.queryResult }}', '{{inputs.missing}}'] },
+        limit: 5
+      };
+
+      expect(applyInputsToArgs(args, { request: 'SELECT Name FROM Account', queryResult })).toEqual({
+        query: 'SELECT Name FROM Account',
+        options: { notes: [`Based on: ${queryResult.content}`, '{{inputs.missing}}'] },
+        limit: 5
+      });
+    });
+
+    it('should truncate long inputs in the prompt', () => {
+      const text = formatInputsForPrompt({ big: 'x'.repeat(4010) });
+
+      expect(text.startsWith('### big\n')).toBe(true);
+      expect(text).toContain('[truncated 10 characters]');
+    });
+  });
+
+  it('should run Preprocess → Query → Postprocess, storing each output', async () => {
+    // The model restates the request and calls the query tool in the same generation step
+    await manager.recordStepOutput(pipeline, sessionId, {
+      text: 'Find accounts named Acme',
+      toolResults: [{ toolName: 'salesforce_query', result: queryResult }]
+    });
+
+    expect(states.get(sessionId)).toMatchObject({
+      activeStep: 'Postprocess Output',
+      sequenceIndex: 0,
+      stepOutputs: { preprocessed_input: 'Find accounts named Acme', tool_result: queryResult }
+    });
+    expect(await manager.getStepInputs(pipeline, sessionId)).toEqual({ queryResult });
+
+    const finished = await manager.recordStepOutput(pipeline, sessionId, { text: 'There is one Acme account.' });
+
+    expect(finished).toBeUndefined();
+    expect(states.get(sessionId)!.activeStep).toBeUndefined();
+    expect(states.get(sessionId)!.stepOutputs!.final_output).toBe('There is one Acme account.');
+  });
+
+  it('should complete a model stage with empty text when the model goes straight to tools', async () => {
+    const active = await manager.recordStepOutput(pipeline, sessionId, {
+      toolResults: [{ toolName: 'salesforce_query', result: queryResult }]
+    });
+
+    expect(active?.name).toBe('Postprocess Output');
+    expect(states.get(sessionId)!.stepOutputs).toEqual({ preprocessed_input: '', tool_result: queryResult });
+  });
+
+  it('should wait on a step until its sequence tool is used', async () => {
+    await manager.recordStepOutput(pipeline, sessionId, { text: 'Search for Acme' });
+    await manager.processToolUsage(pipeline, [], sessionId, 'salesforce_search', { content: 'search results' });
+
+    expect(states.get(sessionId)).toMatchObject({ activeStep: 'Salesforce Query', sequenceIndex: 0 });
+    expect(await manager.getStepInputs(pipeline, sessionId)).toEqual({ request: 'Search for Acme' });
+
+    // Direct tool execution (e.g. after an approval) advances the pipeline too
+    await manager.processToolUsage(pipeline, [], sessionId, 'salesforce_query', queryResult);
+
+    expect(states.get(sessionId)).toMatchObject({ activeStep: 'Postprocess Output', recentlyUsedTools: ['salesforce_query', 'salesforce_search'] });
+  });
+
+  it('should offer the next step\'s tools while only model stages are left', async () => {
+    const tools = ['salesforce_query', 'salesforce_search', 'salesforce_describe'];
+
+    expect(await manager.getAllowedTools(pipeline, [], sessionId, tools)).toEqual(['salesforce_query']);
+
+    // The last step has nothing after it, so its model stage runs without tools
+    states.set(sessionId, { ...states.get(sessionId)!, activeStep: 'Postprocess Output', sequenceIndex: 0 });
+    expect(await manager.getAllowedTools(pipeline, [], sessionId, tools)).toEqual([]);
+  });
+
+  it('should add the active step\'s inputs to the system prompt', () => {
+    const prompt = createSystemPrompt(
+      { personality: 'You are a Salesforce assistant.', orchestration: pipeline },
+      { activeStepName: 'Postprocess Output', stepInputs: { queryResult } }
+    );
+
+    expect(prompt).toContain('Produces: final_output');
+    expect(prompt).toContain('Uses: queryResult');
+    expect(prompt).toContain(`### queryResult\n${queryResult.content}`);
+  });
+});
@@ -0,0 +1,188 @@
+import { OrchestrationManager } from '../index';
+import { OrchestrationState, OrchestrationStateUpdate } from '../state';
+import { createRouterMessages, getRoutingMessageKey } from '../router';
+import { LLMMessage } from '../../llm/types';
+import { createMockCoreLLM } from '../../test/setup';
+import { OrchestrationConfig, OrchestrationSchema } from '../../types/orchestration';
+
+jest.mock('../../logging', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn()
+  },
+  LogCategory: {
+    ORCHESTRATION: 'orchestration'
+  }
+}));
+
+// In-memory stand-in for the state manager so routing can run end to end
+const states = new Map<string, OrchestrationState>();
+
+jest.mock('../state', () => {
+  const originalModule = jest.requireActual('../state');
+  const fakeStateManager = () => ({
+    getState: jest.fn(async (sessionId: string) => states.get(sessionId) || null),
+    getOrCreateState: jest.fn(async (sessionId: string) => {
+      if (!states.has(sessionId)) {
+        states.set(sessionId, { sessionId, recentlyUsedTools: [], sequenceIndex: 0, lastAccessed: 0, ttl: 0 });
+      }
+      return states.get(sessionId);
+    }),
+    updateState: jest.fn(async (sessionId: string, updates: OrchestrationStateUpdate) => {
+      const current = states.get(sessionId)!;
+      const updated = { ...current, ...(typeof updates === 'function' ? updates(current) : updates) };
+      states.set(sessionId, updated);
+      return updated;
+    }),
+    addUsedTool: jest.fn(async (sessionId: string, toolName: string) => {
+      const state = states.get(sessionId)!;
+      state.recentlyUsedTools = [...state.recentlyUsedTools, toolName];
+      return state;
+    })
+  });
+  return {
+    ...originalModule,
+    createOrchestrationStateManager: jest.fn().mockImplementation(fakeStateManager)
+  };
+});
+
+const user = (content: string, id?: string): LLMMessage => ({ role: 'user', content, id });
+const assistant = (content: string): LLMMessage => ({ role: 'assistant', content });
+
+const classifier = (...decisions: Array<{ step: string; confidence: number } | Error>) => {
+  const llm = createMockCoreLLM();
+  for (const decision of decisions) {
+    if (decision instanceof Error) {
+      llm.generateObject.mockRejectedValueOnce(decision);
+    } else {
+      llm.generateObject.mockResolvedValueOnce({
+        object: { ...decision, reason: 'test' },
+        usage: { promptTokens: 80, completionTokens: 20, totalTokens: 100 }
+      } as never);
+    }
+  }
+  return llm;
+};
+
+describe('Orchestration router', () => {
+  const orchestration: OrchestrationConfig = {
+    router: { confidenceThreshold: 0.7, instructions: 'Prefer Compare for any "vs" question.' },
+    steps: [
+      { name: 'General', description: 'Answer general questions', isDefault: true },
+      { name: 'Compare', description: 'The user wants a comparison of options', availableTools: { allowed: ['search', 'compare_table'] } },
+      { name: 'Deep Research', description: 'Research a topic in depth', sequence: ['search', 'think'] }
+    ]
+  };
+  const sessionId = 'router-session';
+  let manager: OrchestrationManager;
+
+  beforeEach(() => {
+    states.clear();
+    manager = new OrchestrationManager();
+  });
+
+  it('activates the step the classifier picks and records the decision', async () => {
+    const llm = classifier({ step: 'Compare', confidence: 0.9 });
+
+    const step = await manager.getActiveStep(orchestration, [user('Postgres vs MySQL?', 'm1')], sessionId, llm);
+
+    expect(step?.name).toBe('Compare');
+    expect(states.get(sessionId)?.routingDecision).toEqual({
+      messageKey: 'm1',
+      step: 'Compare',
+      proposedStep: 'Compare',
+      confidence: 0.9,
+      reason: 'test',
+      fallback: false,
+      at: expect.any(Number)
+    });
+    expect(states.get(sessionId)?.transitionHistory?.[0]).toMatchObject({ to: 'Compare', trigger: 'router' });
+  });
+
+  it('falls back to the default step below the confidence threshold', async () => {
+    const llm = classifier({ step: 'Compare', confidence: 0.9 }, { step: 'Deep Research', confidence: 0.5 });
+
+    await manager.getActiveStep(orchestration, [user('Postgres vs MySQL?', 'm1')], sessionId, llm);
+    const step = await manager.getActiveStep(orchestration, [user('Postgres vs MySQL?', 'm1'), user('hmm', 'm2')], sessionId, llm);
+
+    expect(step?.name).toBe('General');
+    expect(states.get(sessionId)?.routingDecision).toMatchObject({ step: 'General', proposedStep: 'Deep Research', fallback: true });
+    expect(states.get(sessionId)?.transitionHistory?.[1]).toMatchObject({ from: 'Compare', to: 'General', trigger: 'default' });
+  });
+
+  it('classifies each user message once', async () => {
+    const llm = classifier({ step: 'Compare', confidence: 0.9 }, { step: 'General', confidence: 0.8 });
+    const messages = [user('Postgres vs MySQL?', 'm1')];
+
+    await manager.getAllowedTools(orchestration, messages, sessionId, ['search', 'compare_table', 'think'], llm);
+    await manager.processToolUsage(orchestration, messages, sessionId, 'search');
+    const tools = await manager.getAllowedTools(orchestration, messages, sessionId, ['search', 'compare_table', 'think'], llm);
+
+    expect(llm.generateObject).toHaveBeenCalledTimes(1);
+    expect(tools).toEqual(['search', 'compare_table']);
+
+    await manager.getActiveStep(orchestration, [...messages, assistant('Here is a table'), user('thanks', 'm2')], sessionId, llm);
+    expect(llm.generateObject).toHaveBeenCalledTimes(2);
+  });
+
+  it('adds the classifier tokens to the cumulative usage', async () => {
+    const llm = classifier({ step: 'Compare', confidence: 0.9 });
+    states.set(sessionId, {
+      sessionId, recentlyUsedTools: [], sequenceIndex: 0, lastAccessed: 0, ttl: 0,
+      cumulativeTokenUsage: { promptTokens: 1000, completionTokens: 500, totalTokens: 1500 }
+    });
+
+    await manager.getActiveStep(orchestration, [user('Postgres vs MySQL?')], sessionId, llm);
+
+    expect(states.get(sessionId)?.cumulativeTokenUsage).toEqual({ promptTokens: 1080, completionTokens: 520, totalTokens: 1600 });
+  });
+
+  it('keeps the current step when the classifier call fails', async () => {
+    const llm = classifier({ step: 'Deep Research', confidence: 0.95 }, new Error('rate limited'));
+
+    await manager.getActiveStep(orchestration, [user('Tell me everything about CRDTs', 'm1')], sessionId, llm);
+    const step = await manager.getActiveStep(orchestration, [user('go on', 'm2')], sessionId, llm);
+
+    expect(step?.name).toBe('Deep Research');
+    expect(states.get(sessionId)?.routingDecision).toMatchObject({ messageKey: 'm2', step: 'Deep Research', confidence: 0, fallback: true });
+  });
+
+  it('starts at the default step when there is nothing to route', async () => {
+    expect((await manager.getActiveStep(orchestration, [], sessionId))?.name).toBe('General');
+    expect((await manager.getActiveStep(orchestration, [user('hi')], sessionId))?.name).toBe('General');
+    expect(states.get(sessionId)?.routingDecision).toBeUndefined();
+  });
+
+  it('builds a prompt from the step descriptions and recent messages', () => {
+    const messages = createRouterMessages(
+      { ...orchestration, router: { contextMessages: 2 } },
+      [user('first'), assistant('reply'), user('second')],
+      'General'
+    );
+
+    expect(messages[0].content).toContain('- Compare: The user wants a comparison of options');
+    expect(messages[0].content).toContain('The current step is "General".');
+    expect(messages[1].content).toBe('Conversation:\n\nassistant: reply\n\nuser: second\n\nWhich step should handle the latest user message?');
+  });
+
+  it('keys messages by ID, or by position and content', () => {
+    expect(getRoutingMessageKey([user('a', 'm1'), assistant('b')])).toBe('m1');
+    expect(getRoutingMessageKey([user('a'), assistant('b'), user('c')])).toBe('2:c');
+    expect(getRoutingMessageKey([assistant('b')])).toBeUndefined();
+  });
+
+  it('validates the router settings', () => {
+    expect(OrchestrationSchema.safeParse(orchestration).success).toBe(true);
+
+    const messages = (config: unknown) =>
+      OrchestrationSchema.safeParse(config).error?.issues.map(issue => issue.message) ?? [];
+
+    expect(messages({ ...orchestration, router: { confidenceThreshold: 1.5 } })).toEqual(['Number must be less than or equal to 1']);
+    expect(messages({ ...orchestration, transitions: [{ from: 'General', to: 'Compare' }, { from: 'Compare', to: 'General' }, { from: 'General', to: 'Deep Research' }, { from: 'Deep Research', to: 'General' }] }))
+      .toEqual(['An orchestration cannot use both a router and transitions']);
+    expect(messages({ ...orchestration, steps: orchestration.steps.map(step => ({ ...step, isDefault: false })) }))
+      .toEqual(['An orchestration with a router needs a default step to fall back to']);
+  });
+});
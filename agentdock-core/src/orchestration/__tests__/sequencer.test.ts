@@ -1,8 +1,15 @@
 import { StepSequencer } from '../sequencer';
-import { OrchestrationStep } from '../../types/orchestration';
+import {
+  createSequenceProgress,
+  describeSequence,
+  getSequenceFrontier,
+  getSequenceTools,
+  matchesSequenceTail,
+  recordSequenceCall
+} from '../sequences';
+import { OrchestrationSchema, OrchestrationStep, SequenceEntry, SequenceProgress } from '../../types/orchestration';
 import { SessionId } from '../../types/session';
-import { createMockOrchestrationManager } from '../../test/setup';
-import { OrchestrationStateManager } from '../state';
+import { OrchestrationState, OrchestrationStateManager } from '../state';
 import { logger } from '../../logging';
 
 jest.mock('../../logging', () => ({
@@ -21,23 +28,44 @@ describe('StepSequencer', () => {
   let sequencer: StepSequencer;
   let mockStateManager: jest.Mocked<OrchestrationStateManager>;
   const sessionId: SessionId = 'test-session-id';
-  
+
   const stepWithSequence: OrchestrationStep = {
     name: 'test-step',
     description: 'A test step with a sequence',
     sequence: ['tool1', 'tool2', 'tool3'],
     isDefault: false
   };
-  
+
   const stepWithoutSequence: OrchestrationStep = {
     name: 'no-sequence-step',
     description: 'A test step without a sequence',
     isDefault: true
   };
 
+  const pipelineStep: OrchestrationStep = {
+    name: 'pipeline-step',
+    description: 'A pipeline step',
+    sequence: ['tool1', 'llm.groq'],
+    return: 'summary'
+  };
+
+  const stateWith = (updates: Partial<OrchestrationState> = {}): OrchestrationState => ({
+    sessionId,
+    recentlyUsedTools: [],
+    lastAccessed: Date.now(),
+    ttl: 3600000,
+    ...updates
+  });
+
+  const progressOf = (completed: string[]): SequenceProgress => ({
+    completed,
+    calls: Object.fromEntries(completed.map(id => [id, 1])),
+    rounds: {}
+  });
+
   beforeEach(() => {
     jest.clearAllMocks();
-    
+
     mockStateManager = {
       getState: jest.fn(),
       setState: jest.fn(),
@@ -45,7 +73,13 @@ describe('StepSequencer', () => {
       clearState: jest.fn(),
       addUsedTool: jest.fn()
     } as unknown as jest.Mocked<OrchestrationStateManager>;
-    
+
+    // Applies updates, updater functions included, to the state getState returns
+    mockStateManager.updateState.mockImplementation(async (id, updates) => {
+      const state = (await mockStateManager.getState(id)) ?? stateWith();
+      return { ...state, ...(typeof updates === 'function' ? updates(state) : updates) };
+    });
+
     sequencer = new StepSequencer(mockStateManager);
   });
 
@@ -55,53 +89,25 @@ describe('StepSequencer', () => {
       expect(result).toBe(false);
     });
 
-    it('should return false if sequence index is beyond sequence length', async () => {
-      mockStateManager.getState.mockResolvedValueOnce({
-        sessionId,
-        recentlyUsedTools: [],
-        sequenceIndex: 3, // Beyond the length of the sequence (0-2)
-        lastAccessed: Date.now(),
-        ttl: 3600000
-      });
-
-      const result = await sequencer.hasActiveSequence(stepWithSequence, sessionId);
-      expect(result).toBe(false);
-    });
-
-    it('should return true if sequence index is within sequence length', async () => {
-      mockStateManager.getState.mockResolvedValueOnce({
-        sessionId,
-        recentlyUsedTools: [],
-        sequenceIndex: 1, // Within the sequence (0-2)
-        lastAccessed: Date.now(),
-        ttl: 3600000
-      });
+    it('should return true before any tool has been called', async () => {
+      mockStateManager.getState.mockResolvedValueOnce(null);
 
       const result = await sequencer.hasActiveSequence(stepWithSequence, sessionId);
       expect(result).toBe(true);
     });
 
-    it('should initialize sequence index to 0 if state does not exist', async () => {
-      mockStateManager.getState.mockResolvedValueOnce(null);
+    it('should return true while entries are left', async () => {
+      mockStateManager.getState.mockResolvedValueOnce(stateWith({ sequenceProgress: progressOf(['0']) }));
 
       const result = await sequencer.hasActiveSequence(stepWithSequence, sessionId);
-      
       expect(result).toBe(true);
-      expect(mockStateManager.updateState).toHaveBeenCalledWith(sessionId, { sequenceIndex: 0 });
     });
 
-    it('should initialize sequence index to 0 if it is undefined', async () => {
-      mockStateManager.getState.mockResolvedValueOnce({
-        sessionId,
-        recentlyUsedTools: [],
-        lastAccessed: Date.now(),
-        ttl: 3600000
-      });
+    it('should return false once every entry is completed', async () => {
+      mockStateManager.getState.mockResolvedValueOnce(stateWith({ sequenceProgress: progressOf(['0', '1', '2']) }));
 
       const result = await sequencer.hasActiveSequence(stepWithSequence, sessionId);
-      
-      expect(result).toBe(true);
-      expect(mockStateManager.updateState).toHaveBeenCalledWith(sessionId, { sequenceIndex: 0 });
+      expect(result).toBe(false);
     });
   });
 
@@ -111,109 +117,118 @@ describe('StepSequencer', () => {
       expect(result).toBe(null);
     });
 
-    it('should return null if no active sequence', async () => {
-      jest.spyOn(sequencer, 'hasActiveSequence').mockResolvedValueOnce(false);
+    it('should return the first tool when there is no progress yet', async () => {
+      mockStateManager.getState.mockResolvedValueOnce(stateWith());
 
       const result = await sequencer.getCurrentSequenceTool(stepWithSequence, sessionId);
-      expect(result).toBe(null);
+      expect(result).toBe('tool1');
     });
 
     it('should return the current tool in the sequence', async () => {
-      jest.spyOn(sequencer, 'hasActiveSequence').mockResolvedValueOnce(true);
-      
-      mockStateManager.getState.mockResolvedValueOnce({
-        sessionId,
-        recentlyUsedTools: [],
-        sequenceIndex: 1, // Second tool in sequence (0-indexed)
-        lastAccessed: Date.now(),
-        ttl: 3600000
-      });
+      mockStateManager.getState.mockResolvedValueOnce(stateWith({ sequenceProgress: progressOf(['0']) }));
 
       const result = await sequencer.getCurrentSequenceTool(stepWithSequence, sessionId);
       expect(result).toBe('tool2'); // Second tool in the sequence
     });
 
-    it('should return first tool as fallback if state is missing after hasActiveSequence check', async () => {
-      jest.spyOn(sequencer, 'hasActiveSequence').mockResolvedValueOnce(true);
-      
-      mockStateManager.getState.mockResolvedValueOnce(null);
+    it('should return null once the sequence is complete', async () => {
+      mockStateManager.getState.mockResolvedValueOnce(stateWith({ sequenceProgress: progressOf(['0', '1', '2']) }));
 
       const result = await sequencer.getCurrentSequenceTool(stepWithSequence, sessionId);
-      expect(result).toBe('tool1'); // First tool as fallback
-      expect(logger.warn).toHaveBeenCalled();
+      expect(result).toBe(null);
     });
 
-    it('should return first tool as fallback if sequenceIndex is undefined after hasActiveSequence check', async () => {
-      jest.spyOn(sequencer, 'hasActiveSequence').mockResolvedValueOnce(true);
-      
-      mockStateManager.getState.mockResolvedValueOnce({
-        sessionId,
-        recentlyUsedTools: [],
-        lastAccessed: Date.now(),
-        ttl: 3600000
-      });
+    it('should follow the sequence index for pipeline steps', async () => {
+      mockStateManager.getState.mockResolvedValueOnce(stateWith({ sequenceIndex: 1 }));
 
-      const result = await sequencer.getCurrentSequenceTool(stepWithSequence, sessionId);
-      expect(result).toBe('tool1'); // First tool as fallback
-      expect(logger.warn).toHaveBeenCalled();
+      const result = await sequencer.getCurrentSequenceTool(pipelineStep, sessionId);
+      expect(result).toBe('llm.groq');
     });
   });
 
-  describe('advanceSequence', () => {
+  describe('recordSequenceTool', () => {
     it('should return false if step has no sequence', async () => {
-      const result = await sequencer.advanceSequence(stepWithoutSequence, sessionId);
+      const result = await sequencer.recordSequenceTool(stepWithoutSequence, sessionId, 'tool1');
       expect(result).toBe(false);
     });
 
     it('should return false if state does not exist', async () => {
       mockStateManager.getState.mockResolvedValueOnce(null);
 
-      const result = await sequencer.advanceSequence(stepWithSequence, sessionId);
+      const result = await sequencer.recordSequenceTool(stepWithSequence, sessionId, 'tool1');
       expect(result).toBe(false);
     });
 
-    it('should advance sequence index and return true', async () => {
-      mockStateManager.getState.mockResolvedValueOnce({
-        sessionId,
-        recentlyUsedTools: [],
-        sequenceIndex: 1,
-        lastAccessed: Date.now(),
-        ttl: 3600000
-      });
+    it('should mark the entry completed and return true', async () => {
+      mockStateManager.getState.mockResolvedValue(stateWith({ sequenceProgress: progressOf(['0']) }));
+
+      const result = await sequencer.recordSequenceTool(stepWithSequence, sessionId, 'tool2');
 
-      const result = await sequencer.advanceSequence(stepWithSequence, sessionId);
-      
       expect(result).toBe(true);
-      expect(mockStateManager.updateState).toHaveBeenCalledWith(sessionId, { sequenceIndex: 2 });
+      expect(await mockStateManager.updateState.mock.results[0].value).toMatchObject({
+        sequenceProgress: { completed: ['0', '1'], calls: { 0: 1, 1: 1 }, rounds: {} }
+      });
       expect(logger.debug).toHaveBeenCalled();
     });
 
-    it('should handle undefined sequence index by treating it as 0', async () => {
-      mockStateManager.getState.mockResolvedValueOnce({
-        sessionId,
-        recentlyUsedTools: [],
-        lastAccessed: Date.now(),
-        ttl: 3600000
-      });
+    it('should leave the progress alone for a tool out of order', async () => {
+      mockStateManager.getState.mockResolvedValueOnce(stateWith());
+
+      const result = await sequencer.recordSequenceTool(stepWithSequence, sessionId, 'tool3');
+
+      expect(result).toBe(false);
+      expect(mockStateManager.updateState).not.toHaveBeenCalled();
+    });
+
+    it('should advance the sequence index for pipeline steps', async () => {
+      mockStateManager.getState.mockResolvedValue(stateWith({ sequenceIndex: 0 }));
+
+      const result = await sequencer.recordSequenceTool(pipelineStep, sessionId, 'tool1');
+
+      expect(result).toBe(true);
+      expect(await mockStateManager.updateState.mock.results[0].value).toMatchObject({ sequenceIndex: 1 });
+    });
+
+    it('should match the call against the state stored when writing', async () => {
+      mockStateManager.getState
+        .mockResolvedValueOnce(stateWith({ sequenceIndex: 0 }))
+        .mockResolvedValue(stateWith({ sequenceIndex: 1 }));
+
+      const result = await sequencer.recordSequenceTool(pipelineStep, sessionId, 'tool1');
+
+      expect(result).toBe(false);
+      expect(await mockStateManager.updateState.mock.results[0].value).toMatchObject({ sequenceIndex: 1 });
+    });
+  });
+
+  describe('advanceSequence', () => {
+    it('should record the tool the sequence expects next', async () => {
+      mockStateManager.getState.mockResolvedValue(stateWith({ sequenceProgress: progressOf(['0']) }));
 
       const result = await sequencer.advanceSequence(stepWithSequence, sessionId);
-      
+
       expect(result).toBe(true);
-      expect(mockStateManager.updateState).toHaveBeenCalledWith(sessionId, { sequenceIndex: 1 });
+      expect(await mockStateManager.updateState.mock.results[0].value).toMatchObject({
+        sequenceProgress: { completed: ['0', '1'] }
+      });
+    });
+
+    it('should return false at the end of the sequence', async () => {
+      mockStateManager.getState.mockResolvedValue(stateWith({ sequenceProgress: progressOf(['0', '1', '2']) }));
+
+      const result = await sequencer.advanceSequence(stepWithSequence, sessionId);
+
+      expect(result).toBe(false);
+      expect(mockStateManager.updateState).not.toHaveBeenCalled();
     });
   });
 
   describe('processTool', () => {
     it('should add used tool to state', async () => {
-      mockStateManager.getState.mockResolvedValueOnce({
-        sessionId,
-        recentlyUsedTools: [],
-        lastAccessed: Date.now(),
-        ttl: 3600000
-      });
+      mockStateManager.getState.mockResolvedValueOnce(stateWith());
 
       await sequencer.processTool(stepWithoutSequence, sessionId, 'some-tool');
-      
+
       expect(mockStateManager.addUsedTool).toHaveBeenCalledWith(sessionId, 'some-tool');
     });
 
@@ -222,35 +237,31 @@ describe('StepSequencer', () => {
       expect(result).toBe(true);
     });
 
-    it('should return true if current tool is null (end of sequence)', async () => {
-      jest.spyOn(sequencer, 'getCurrentSequenceTool').mockResolvedValueOnce(null);
+    it('should return true at the end of the sequence', async () => {
+      jest.spyOn(sequencer, 'getNextSequenceTools').mockResolvedValueOnce([]);
 
       const result = await sequencer.processTool(stepWithSequence, sessionId, 'some-tool');
       expect(result).toBe(true);
     });
 
-    it('should advance sequence and return true if tool matches current sequence tool', async () => {
-      jest.spyOn(sequencer, 'getCurrentSequenceTool').mockResolvedValueOnce('tool1');
-      
-      jest.spyOn(sequencer, 'advanceSequence').mockResolvedValueOnce(true);
+    it('should record the tool and return true if the sequence allows it', async () => {
+      jest.spyOn(sequencer, 'getNextSequenceTools').mockResolvedValueOnce(['tool1']);
+      jest.spyOn(sequencer, 'recordSequenceTool').mockResolvedValueOnce(true);
 
       const result = await sequencer.processTool(stepWithSequence, sessionId, 'tool1');
-      
+
       expect(result).toBe(true);
-      expect(sequencer.advanceSequence).toHaveBeenCalledWith(stepWithSequence, sessionId);
+      expect(sequencer.recordSequenceTool).toHaveBeenCalledWith(stepWithSequence, sessionId, 'tool1');
     });
 
-    it('should return false if tool does not match current sequence tool', async () => {
-      jest.spyOn(sequencer, 'getCurrentSequenceTool').mockResolvedValueOnce('tool1');
-      
-      const mockAdvanceSequence = jest.fn();
-      sequencer.advanceSequence = mockAdvanceSequence;
+    it('should return false if the sequence does not allow the tool', async () => {
+      mockStateManager.getState.mockResolvedValue(stateWith());
 
       const result = await sequencer.processTool(stepWithSequence, sessionId, 'wrong-tool');
-      
+
       expect(result).toBe(false);
       expect(logger.warn).toHaveBeenCalled();
-      expect(mockAdvanceSequence).not.toHaveBeenCalled();
+      expect(mockStateManager.updateState).not.toHaveBeenCalled();
     });
   });
 
@@ -262,41 +273,192 @@ describe('StepSequencer', () => {
       expect(result).toEqual(allToolIds);
     });
 
-    it('should return all tools if no active sequence', async () => {
-      jest.spyOn(sequencer, 'hasActiveSequence').mockResolvedValueOnce(false);
-
-      const result = await sequencer.filterToolsBySequence(stepWithSequence, sessionId, allToolIds);
-      expect(result).toEqual(allToolIds);
-    });
-
-    it('should return all tools if current tool is null (sequence complete)', async () => {
-      jest.spyOn(sequencer, 'hasActiveSequence').mockResolvedValueOnce(true);
-      
-      jest.spyOn(sequencer, 'getCurrentSequenceTool').mockResolvedValueOnce(null);
+    it('should return all tools once the sequence is complete', async () => {
+      jest.spyOn(sequencer, 'getNextSequenceTools').mockResolvedValueOnce([]);
 
       const result = await sequencer.filterToolsBySequence(stepWithSequence, sessionId, allToolIds);
       expect(result).toEqual(allToolIds);
       expect(logger.debug).toHaveBeenCalled();
     });
 
-    it('should return only the current sequence tool if it is available', async () => {
-      jest.spyOn(sequencer, 'hasActiveSequence').mockResolvedValueOnce(true);
-      
-      jest.spyOn(sequencer, 'getCurrentSequenceTool').mockResolvedValueOnce('tool2');
+    it('should return only the tools the sequence allows next', async () => {
+      jest.spyOn(sequencer, 'getNextSequenceTools').mockResolvedValueOnce(['tool4', 'tool2']);
 
       const result = await sequencer.filterToolsBySequence(stepWithSequence, sessionId, allToolIds);
-      expect(result).toEqual(['tool2']);
+      expect(result).toEqual(['tool2', 'tool4']);
       expect(logger.debug).toHaveBeenCalled();
     });
 
-    it('should return empty array if current sequence tool is not available', async () => {
-      jest.spyOn(sequencer, 'hasActiveSequence').mockResolvedValueOnce(true);
-      
-      jest.spyOn(sequencer, 'getCurrentSequenceTool').mockResolvedValueOnce('unavailable-tool');
+    it('should return empty array if none of the next tools are available', async () => {
+      jest.spyOn(sequencer, 'getNextSequenceTools').mockResolvedValueOnce(['unavailable-tool']);
 
       const result = await sequencer.filterToolsBySequence(stepWithSequence, sessionId, allToolIds);
       expect(result).toEqual([]);
       expect(logger.warn).toHaveBeenCalled();
     });
   });
+
+  describe('with state kept between calls', () => {
+    let state: OrchestrationState;
+
+    const step: OrchestrationStep = {
+      name: 'research',
+      description: 'Search, then think and compare in any order',
+      sequence: ['search', { parallel: ['think', 'compare'] }, 'write']
+    };
+
+    beforeEach(() => {
+      state = stateWith();
+      mockStateManager.getState.mockImplementation(async () => state);
+      mockStateManager.updateState.mockImplementation(async (_sessionId, updates) => {
+        state = { ...state, ...(typeof updates === 'function' ? updates(state) : updates) };
+        return state;
+      });
+    });
+
+    it('tracks a parallel group until each of its tools has been called', async () => {
+      await sequencer.processTool(step, sessionId, 'search');
+      expect(await sequencer.filterToolsBySequence(step, sessionId, ['search', 'think', 'compare', 'write'])).toEqual(['think', 'compare']);
+
+      await sequencer.processTool(step, sessionId, 'compare');
+      expect(await sequencer.getNextSequenceTools(step, sessionId)).toEqual(['think']);
+
+      await sequencer.processTool(step, sessionId, 'think');
+      expect(await sequencer.getNextSequenceTools(step, sessionId)).toEqual(['write']);
+      expect(state.sequenceProgress?.completed).toEqual(['0', '1.1', '1.0']);
+    });
+
+    it('checks repeat conditions against the session state', async () => {
+      const review: OrchestrationStep = {
+        name: 'review',
+        description: 'Critique until approved',
+        sequence: [{ repeat: ['critique'], until: { type: 'state_flag', flag: 'approved' }, max: 5 }, 'publish']
+      };
+
+      await sequencer.processTool(review, sessionId, 'critique');
+      expect(await sequencer.getNextSequenceTools(review, sessionId)).toEqual(['critique']);
+
+      state = { ...state, flags: { approved: true } };
+      expect(await sequencer.getNextSequenceTools(review, sessionId)).toEqual(['publish']);
+    });
+
+    it('does not end a repeat on message conditions, which it cannot check', async () => {
+      const review: OrchestrationStep = {
+        name: 'review',
+        description: 'Critique until the user stops objecting',
+        sequence: [{ repeat: ['critique'], until: { type: 'not', condition: { type: 'message_regex', value: 'wrong' } }, max: 5 }, 'publish']
+      };
+
+      await sequencer.processTool(review, sessionId, 'critique');
+      expect(await sequencer.getNextSequenceTools(review, sessionId)).toEqual(['critique']);
+    });
+  });
+});
+
+describe('Sequence grammar', () => {
+  const run = (sequence: SequenceEntry[], tools: string[], isMet?: () => boolean) =>
+    tools.reduce<SequenceProgress>((progress, tool) => {
+      const next = recordSequenceCall(sequence, progress, tool, isMet);
+      if (!next) throw new Error(`${tool} was rejected`);
+      return next;
+    }, createSequenceProgress());
+
+  const next = (sequence: SequenceEntry[], tools: string[], isMet?: () => boolean) =>
+    getSequenceFrontier(sequence, run(sequence, tools, isMet), isMet);
+
+  it('lets the tools of a parallel group run in any order', () => {
+    const sequence: SequenceEntry[] = ['plan', { parallel: ['search', 'arxiv'] }, 'think'];
+
+    expect(next(sequence, [])).toEqual({ tools: ['plan'], complete: false });
+    expect(next(sequence, ['plan'])).toEqual({ tools: ['search', 'arxiv'], complete: false });
+    expect(next(sequence, ['plan', 'arxiv'])).toEqual({ tools: ['search'], complete: false });
+    expect(next(sequence, ['plan', 'arxiv', 'search'])).toEqual({ tools: ['think'], complete: false });
+    expect(next(sequence, ['plan', 'arxiv', 'search', 'think'])).toEqual({ tools: [], complete: true });
+  });
+
+  it('does not wait for optional entries and closes them once a later entry is called', () => {
+    const sequence: SequenceEntry[] = ['search', { tool: 'reflect', optional: true }, { parallel: ['think', { tool: 'compare', optional: true }] }, 'write'];
+
+    expect(next(sequence, ['search']).tools).toEqual(['reflect', 'think', 'compare']);
+    expect(next(sequence, ['search', 'think']).tools).toEqual(['compare', 'write']);
+    expect(recordSequenceCall(sequence, run(sequence, ['search', 'think']), 'reflect')).toBeNull();
+    expect(next(sequence, ['search', 'think', 'write'])).toEqual({ tools: [], complete: true });
+  });
+
+  it('allows a tool up to maxCalls times before the sequence moves on', () => {
+    const sequence: SequenceEntry[] = [{ tool: 'search', maxCalls: 3 }, 'think'];
+
+    expect(next(sequence, ['search']).tools).toEqual(['search', 'think']);
+    expect(next(sequence, ['search', 'search', 'search']).tools).toEqual(['think']);
+    expect(run(sequence, ['search', 'search']).calls).toEqual({ 0: 2 });
+  });
+
+  it('repeats entries until the condition holds, within the bounds', () => {
+    const sequence: SequenceEntry[] = [
+      { repeat: ['draft', { parallel: ['critique', 'fact_check'] }], until: { type: 'state_flag', flag: 'approved' }, max: 2 },
+      'publish'
+    ];
+    const oneRound = ['draft', 'fact_check', 'critique'];
+
+    expect(next(sequence, ['draft']).tools).toEqual(['critique', 'fact_check']);
+    expect(run(sequence, oneRound)).toEqual({ completed: [], calls: {}, rounds: { 0: 1 } });
+    expect(next(sequence, oneRound).tools).toEqual(['draft']);
+    expect(next(sequence, oneRound, () => true)).toEqual({ tools: ['publish'], complete: false });
+    expect(next(sequence, [...oneRound, ...oneRound]).tools).toEqual(['publish']);
+  });
+
+  it('lets the sequence move on after the minimum rounds when there is no condition', () => {
+    const sequence: SequenceEntry[] = [{ repeat: ['draft'], min: 2, max: 3 }, 'publish'];
+
+    expect(next(sequence, ['draft']).tools).toEqual(['draft']);
+    expect(next(sequence, ['draft', 'draft']).tools).toEqual(['draft', 'publish']);
+    expect(next(sequence, ['draft', 'draft', 'draft']).tools).toEqual(['publish']);
+    expect(next([{ repeat: ['draft'], min: 0, max: 1 }, 'publish'], []).tools).toEqual(['draft', 'publish']);
+  });
+
+  it('matches the end of a tool history against the grammar', () => {
+    const sequence: SequenceEntry[] = ['search', { parallel: ['think', 'compare'] }];
+
+    expect(matchesSequenceTail(sequence, ['reflect', 'search', 'compare', 'think'])).toBe(true);
+    expect(matchesSequenceTail(sequence, ['search', 'think'])).toBe(false);
+    expect(matchesSequenceTail(sequence, ['search', 'think', 'compare', 'reflect'])).toBe(false);
+  });
+
+  it('lists and describes the tools of a sequence', () => {
+    const sequence: SequenceEntry[] = [
+      { tool: 'search', maxCalls: 3 },
+      { parallel: ['think', { tool: 'compare', optional: true }] },
+      { repeat: ['critique', 'think'], max: 2 }
+    ];
+
+    expect(getSequenceTools(sequence)).toEqual(['search', 'think', 'compare', 'critique']);
+    expect(describeSequence(sequence)).toBe('search×3 → (think | compare?) → [critique → think] repeated up to 2 times');
+  });
+
+  describe('OrchestrationSchema', () => {
+    const withSequence = (sequence: unknown, extra: Record<string, unknown> = {}) =>
+      OrchestrationSchema.safeParse({ steps: [{ name: 'Research', description: 'Research', isDefault: true, sequence, ...extra }] });
+
+    it('accepts the sequence grammar', () => {
+      expect(withSequence([
+        { tool: 'search', maxCalls: 3 },
+        { parallel: ['think', { tool: 'compare', optional: true }] },
+        { repeat: ['critique'], until: { type: 'tool_used', value: 'approve' }, min: 1, max: 3 }
+      ]).success).toBe(true);
+    });
+
+    it('rejects invalid bounds and repeats without a required entry', () => {
+      const messages = (result: ReturnType<typeof withSequence>) => result.error?.issues.map(issue => issue.message) ?? [];
+
+      expect(withSequence([{ tool: 'search', maxCalls: 0 }]).success).toBe(false);
+      expect(messages(withSequence([{ repeat: ['critique'], min: 3, max: 2 }]))).toEqual(['Repeat min must not be greater than max']);
+      expect(messages(withSequence([{ repeat: [{ tool: 'critique', optional: true }], max: 2 }])))
+        .toEqual(['A repeated sequence needs at least one entry that is not optional']);
+    });
+
+    it('keeps pipeline sequences to plain names', () => {
+      expect(withSequence([{ parallel: ['search', 'arxiv'] }], { return: 'findings' }).error?.issues[0].message)
+        .toBe("Pipeline step 'Research' can only list tool and model stage names in its sequence");
+    });
+  });
 });
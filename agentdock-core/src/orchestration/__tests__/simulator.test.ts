@@ -0,0 +1,244 @@
+import { SimulationScript, SimulationScriptSchema, simulateOrchestration } from '../simulator';
+import { OrchestrationConfig } from '../../types/orchestration';
+
+jest.mock('../../logging');
+
+describe('Orchestration simulator', () => {
+  const pipeline: OrchestrationConfig = {
+    steps: [
+      {
+        name: 'Preprocess Input',
+        description: 'Restate the request',
+        isDefault: true,
+        sequence: ['llm.groq'],
+        return: 'preprocessed_input'
+      },
+      {
+        name: 'Query',
+        description: 'Run the query',
+        sequence: ['salesforce_query'],
+        availableTools: { allowed: ['salesforce_query', 'salesforce_search'] },
+        return: 'tool_result',
+        inputs: { request: 'preprocessed_input' }
+      },
+      {
+        name: 'Postprocess Output',
+        description: 'Summarise the result',
+        sequence: ['llm.groq'],
+        return: 'final_output',
+        inputs: { queryResult: 'tool_result' }
+      }
+    ]
+  };
+
+  it('reports the step, tools, sequence position and prompt context of each turn', async () => {
+    const result = await simulateOrchestration(pipeline, {
+      turns: [
+        {
+          user: 'How many open opportunities does Acme have?',
+          assistant: 'Count open opportunities for Acme.',
+          toolCalls: [{ tool: 'salesforce_query', result: { totalSize: 3 } }]
+        },
+        { assistant: 'Acme has 3 open opportunities.' }
+      ]
+    });
+
+    expect(result.passed).toBe(true);
+    expect(result.turns[0]).toMatchObject({
+      index: 0,
+      activeStep: 'Preprocess Input',
+      allowedTools: ['salesforce_query'],
+      sequenceIndex: 0,
+      toolCalls: [{ tool: 'salesforce_query', allowed: true }],
+      endStep: 'Postprocess Output'
+    });
+    expect(result.turns[0].prompt).toBe('---\nCurrent Orchestration Context:\n- Active Step: Preprocess Input\n---');
+    expect(result.turns[1].activeStep).toBe('Postprocess Output');
+    expect(result.turns[1].allowedTools).toEqual([]);
+    expect(result.turns[1].prompt).toContain('- Recently Used Tools (this turn): salesforce_query');
+    expect(result.turns[1].prompt).toContain('### queryResult\n{"totalSize":3}');
+    expect(result.turns[1].endStep).toBeUndefined();
+  });
+
+  it('defaults the tools to the ones the orchestration names', async () => {
+    const result = await simulateOrchestration(pipeline, { turns: [{ user: 'Hi' }] });
+
+    expect(result.turns[0].allowedTools).toEqual(['salesforce_query']);
+
+    const open: OrchestrationConfig = {
+      steps: [{ name: 'Start', description: 'Anything goes', isDefault: true }]
+    };
+    const withOptions = await simulateOrchestration(open, { turns: [{ user: 'Hi' }] }, { tools: ['search', 'think'] });
+    expect(withOptions.turns[0].allowedTools).toEqual(['search', 'think']);
+  });
+
+  it('lists the failed expectations of each turn', async () => {
+    const result = await simulateOrchestration(pipeline, {
+      turns: [
+        {
+          user: 'Delete the Globex account',
+          toolCalls: ['salesforce_delete_record'],
+          expect: {
+            activeStep: 'Query',
+            allowedTools: ['salesforce_query', 'salesforce_search'],
+            violations: [],
+            promptIncludes: ['Step Inputs']
+          }
+        }
+      ]
+    });
+
+    expect(result.passed).toBe(false);
+    expect(result.turns[0].failures).toEqual([
+      'Expected active step "Query", got "Preprocess Input"',
+      'Expected allowed tools [salesforce_query, salesforce_search], got [salesforce_query]',
+      'Expected violations for [], got [salesforce_delete_record]',
+      'Expected the orchestration context to include "Step Inputs"'
+    ]);
+  });
+
+  it('runs tool calls through enforcement, rejecting them in strict mode', async () => {
+    const orchestration: OrchestrationConfig = {
+      enforcement: 'strict',
+      steps: [
+        {
+          name: 'Research',
+          description: 'Search, then think',
+          isDefault: true,
+          sequence: ['search', 'think'],
+          availableTools: { allowed: ['search', 'think'], denied: ['delete'] }
+        }
+      ]
+    };
+
+    const result = await simulateOrchestration(orchestration, {
+      tools: ['search', 'think', 'delete'],
+      turns: [
+        { user: 'Look into it', toolCalls: ['think', 'search', 'delete'], expect: { violations: ['think', 'delete'] } },
+        { user: 'And now?' }
+      ]
+    });
+
+    expect(result.passed).toBe(true);
+    expect(result.turns[0].allowedTools).toEqual(['search']);
+    expect(result.turns[0].toolCalls).toEqual([
+      expect.objectContaining({ tool: 'think', allowed: false, violation: expect.objectContaining({ reason: 'out_of_sequence', expectedTool: 'search' }) }),
+      { tool: 'search', allowed: true },
+      expect.objectContaining({ tool: 'delete', allowed: false, violation: expect.objectContaining({ reason: 'denied' }) })
+    ]);
+    expect(result.turns[1].allowedTools).toEqual(['think']);
+    expect(result.turns[1].sequenceProgress?.completed).toEqual(['0']);
+  });
+
+  it('follows sequences with parallel groups', async () => {
+    const orchestration: OrchestrationConfig = {
+      steps: [
+        {
+          name: 'Research',
+          description: 'Search, then think and compare in any order',
+          isDefault: true,
+          sequence: ['search', { parallel: ['think', 'compare'] }]
+        }
+      ]
+    };
+
+    const result = await simulateOrchestration(orchestration, {
+      turns: [
+        { user: 'Compare solar and wind', toolCalls: ['search'] },
+        { toolCalls: ['compare'] },
+        { toolCalls: ['think'] },
+        { user: 'Thanks' }
+      ]
+    });
+
+    expect(result.turns.map(turn => turn.allowedTools)).toEqual([
+      ['search'],
+      ['think', 'compare'],
+      ['think'],
+      ['search', 'think', 'compare']
+    ]);
+  });
+
+  it('sets and clears flags before a turn', async () => {
+    const orchestration: OrchestrationConfig = {
+      steps: [
+        { name: 'Start', description: 'Greet the user', isDefault: true },
+        { name: 'Escalated', description: 'Hand over to a human' }
+      ],
+      transitions: [
+        { from: 'Start', to: 'Escalated', guard: { type: 'state_flag', flag: 'escalate', equals: true } },
+        { from: 'Escalated', to: 'Start', guard: { type: 'not', condition: { type: 'state_flag', flag: 'escalate' } } }
+      ]
+    };
+
+    const result = await simulateOrchestration(orchestration, {
+      turns: [
+        { user: 'Hi', expect: { activeStep: 'Start' } },
+        { user: 'I want a human', flags: { escalate: true }, expect: { activeStep: 'Escalated' } },
+        { user: 'Never mind', flags: { escalate: null }, expect: { activeStep: 'Start' } }
+      ]
+    });
+
+    expect(result.turns.map(turn => turn.failures)).toEqual([[], [], []]);
+  });
+
+  it('answers router calls with the scripted step', async () => {
+    const orchestration: OrchestrationConfig = {
+      router: {},
+      steps: [
+        { name: 'General', description: 'Small talk', isDefault: true },
+        { name: 'Billing', description: 'Invoices and payments', availableTools: { allowed: ['invoices'] } }
+      ]
+    };
+
+    const result = await simulateOrchestration(orchestration, {
+      tools: ['invoices', 'search'],
+      turns: [
+        { user: 'Hello' },
+        { user: 'Where is my invoice?', route: 'Billing' },
+        { user: 'Thanks', route: { step: 'Billing', confidence: 0.2 } }
+      ]
+    });
+
+    expect(result.turns.map(turn => turn.activeStep)).toEqual(['General', 'Billing', 'General']);
+    expect(result.turns[1].allowedTools).toEqual(['invoices']);
+  });
+
+  it('starts each simulation from a fresh state', async () => {
+    const script: SimulationScript = { turns: [{ user: 'Hi', toolCalls: ['salesforce_query'] }] };
+
+    const first = await simulateOrchestration(pipeline, script);
+    const second = await simulateOrchestration(pipeline, script);
+
+    expect(second.turns[0].activeStep).toBe(first.turns[0].activeStep);
+    expect(second.turns[0].sequenceIndex).toBe(0);
+    expect(second.turns[0].prompt).not.toContain('Recently Used Tools');
+  });
+
+  describe('SimulationScriptSchema', () => {
+    it('accepts scripts with tool calls, flags, routes and expectations', () => {
+      const parsed = SimulationScriptSchema.safeParse({
+        name: 'Example',
+        tools: ['search'],
+        turns: [
+          {
+            user: 'Hi',
+            toolCalls: ['search', { tool: 'search', result: { hits: 1 } }],
+            flags: { verified: true, topic: null },
+            route: { step: 'Research', confidence: 0.9 },
+            expect: { activeStep: 'Research', endStep: null, violations: [] }
+          }
+        ]
+      });
+
+      expect(parsed.success).toBe(true);
+    });
+
+    it('rejects scripts without turns', () => {
+      const parsed = SimulationScriptSchema.safeParse({ turns: [] });
+
+      expect(parsed.success).toBe(false);
+      expect(parsed.error?.issues[0].message).toBe('A simulation needs at least one turn');
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { OrchestrationStateManager } from '../state';
+import { MemoryStorageProvider } from '../../storage/providers/memory-provider';
+
+jest.mock('../../logging');
+
+describe('OrchestrationStateManager snapshots', () => {
+  const sessionId = 'session-a';
+  let storageProvider: MemoryStorageProvider;
+  let stateManager: OrchestrationStateManager;
+
+  const usage = (totalTokens: number) => ({ promptTokens: totalTokens, completionTokens: 0, totalTokens });
+
+  beforeEach(async () => {
+    storageProvider = new MemoryStorageProvider({ namespace: 'snapshots-test' });
+    stateManager = new OrchestrationStateManager({ storageProvider });
+
+    // Message 1 starts in Research, message 2 in Analysis
+    await stateManager.getOrCreateState(sessionId);
+    await stateManager.updateState(sessionId, { activeStep: 'Research', recentlyUsedTools: [] });
+    await stateManager.snapshotState(sessionId, 'msg-1');
+    await stateManager.updateState(sessionId, {
+      activeStep: 'Analysis',
+      recentlyUsedTools: ['search'],
+      cumulativeTokenUsage: usage(100)
+    });
+    await stateManager.snapshotState(sessionId, 'msg-2');
+    await stateManager.updateState(sessionId, {
+      activeStep: 'Summary',
+      recentlyUsedTools: ['search', 'think'],
+      cumulativeTokenUsage: usage(250)
+    });
+  });
+
+  afterEach(async () => {
+    stateManager.destroy();
+    await storageProvider.destroy();
+  });
+
+  it('keeps the first snapshot of each message, with increasing versions', async () => {
+    await stateManager.snapshotState(sessionId, 'msg-1');
+
+    const snapshots = await stateManager.getSnapshots(sessionId);
+    expect(snapshots.map(snapshot => [snapshot.messageId, snapshot.version, snapshot.state.activeStep])).toEqual([
+      ['msg-1', 1, 'Research'],
+      ['msg-2', 2, 'Analysis']
+    ]);
+  });
+
+  it('keeps every snapshot taken in parallel, each with its own version', async () => {
+    const messageIds = ['msg-3', 'msg-4', 'msg-5', 'msg-6'];
+
+    await Promise.all(messageIds.map(messageId => stateManager.snapshotState(sessionId, messageId)));
+
+    const snapshots = await stateManager.getSnapshots(sessionId);
+    expect(snapshots.map(snapshot => snapshot.messageId).sort()).toEqual(['msg-1', 'msg-2', ...messageIds]);
+    expect(snapshots.map(snapshot => snapshot.version)).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+
+  it('rewinds to the state before a message, keeping token usage', async () => {
+    const state = await stateManager.rewindTo(sessionId, 'msg-2');
+
+    expect(state).toMatchObject({
+      sessionId,
+      activeStep: 'Analysis',
+      recentlyUsedTools: ['search'],
+      cumulativeTokenUsage: usage(250)
+    });
+    expect(await stateManager.getState(sessionId)).toMatchObject({ activeStep: 'Analysis' });
+  });
+
+  it('drops the snapshots of the replaced messages on rewind', async () => {
+    await stateManager.rewindTo(sessionId, 'msg-1');
+    expect(await stateManager.getSnapshots(sessionId)).toEqual([]);
+
+    // The resubmitted message is snapshotted again from the rewound state
+    const snapshot = await stateManager.snapshotState(sessionId, 'msg-1b');
+    expect(snapshot).toMatchObject({ messageId: 'msg-1b', version: 1, state: { activeStep: 'Research' } });
+  });
+
+  it('returns null when rewinding to a message without a snapshot', async () => {
+    expect(await stateManager.rewindTo(sessionId, 'unknown')).toBeNull();
+    expect(await stateManager.getState(sessionId)).toMatchObject({ activeStep: 'Summary' });
+  });
+
+  it('forks a session at a message without changing the original', async () => {
+    const forked = await stateManager.forkSession(sessionId, 'msg-2', 'session-b');
+
+    expect(forked).toMatchObject({
+      sessionId: 'session-b',
+      activeStep: 'Analysis',
+      recentlyUsedTools: ['search'],
+      cumulativeTokenUsage: usage(100)
+    });
+    expect(await stateManager.getState(sessionId)).toMatchObject({ activeStep: 'Summary' });
+
+    const forkSnapshots = await stateManager.getSnapshots('session-b');
+    expect(forkSnapshots.map(snapshot => snapshot.messageId)).toEqual(['msg-1']);
+    expect(forkSnapshots[0].state.sessionId).toBe('session-b');
+    expect(await stateManager.getSnapshots(sessionId)).toHaveLength(2);
+  });
+
+  it('generates an ID for the fork when none is given', async () => {
+    const forked = await stateManager.forkSession(sessionId, 'msg-1');
+
+    expect(forked?.sessionId).toMatch(/^session_/);
+    expect(forked?.sessionId).not.toBe(sessionId);
+    expect(forked?.activeStep).toBe('Research');
+  });
+
+  it('does not fork into an existing session or from an unknown message', async () => {
+    await stateManager.getOrCreateState('session-b');
+
+    expect(await stateManager.forkSession(sessionId, 'msg-1', 'session-b')).toBeNull();
+    expect(await stateManager.forkSession(sessionId, 'unknown', 'session-c')).toBeNull();
+    expect(await stateManager.getState('session-c')).toBeNull();
+  });
+
+  it('removes the snapshots when the session is cleaned up', async () => {
+    await stateManager.cleanupSession(sessionId);
+
+    expect(await stateManager.getSnapshots(sessionId)).toEqual([]);
+  });
+});
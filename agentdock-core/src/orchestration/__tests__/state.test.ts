@@ -286,6 +286,26 @@ describe('OrchestrationStateManager', () => {
       expect(result.lastAccessed).toBeGreaterThan(currentState.lastAccessed);
       expect(result.activeStep).toEqual(updates.activeStep);
     });
+    
+    it('should apply updates computed from the current state', async () => {
+      const currentState: OrchestrationState = {
+        sessionId,
+        recentlyUsedTools: ['tool1'],
+        lastAccessed: Date.now(),
+        ttl: 3600000
+      };
+      
+      mockUpdateSession.mockImplementationOnce((sid, updateFn) =>
+        Promise.resolve({ success: true, data: updateFn(currentState) })
+      );
+      
+      const result = await stateManager.updateState(sessionId, (state) => ({
+        recentlyUsedTools: [...state.recentlyUsedTools, 'tool2']
+      }));
+      
+      expect(result?.recentlyUsedTools).toEqual(['tool1', 'tool2']);
+      expect(result?.ttl).toBe(3600000);
+    });
   });
   
   describe('setActiveStep', () => {
@@ -344,10 +364,9 @@ describe('OrchestrationStateManager', () => {
       
       expect(result).toEqual(updatedState);
       expect(stateManager.getState).toHaveBeenCalledWith(sessionId);
-      expect(mockUpdateState).toHaveBeenCalledWith(
-        sessionId,
-        { recentlyUsedTools: [toolName, 'tool1', 'tool2'] }
-      );
+      // The tool is added to the state current at update time
+      const [, update] = mockUpdateState.mock.calls[0];
+      expect(update(currentState)).toEqual({ recentlyUsedTools: [toolName, 'tool1', 'tool2'] });
     });
     
     it('should return null if getState returns null', async () => {
@@ -386,10 +405,8 @@ describe('OrchestrationStateManager', () => {
       const result = await stateManager.addUsedTool(sessionId, toolName);
       
       expect(result).toEqual(updatedState);
-      expect(stateManager.updateState).toHaveBeenCalledWith(
-        sessionId,
-        { recentlyUsedTools: ['tool2', 'tool1', 'tool3'] }
-      );
+      const [, update] = (stateManager.updateState as jest.Mock).mock.calls[0];
+      expect(update(currentState)).toEqual({ recentlyUsedTools: ['tool2', 'tool1', 'tool3'] });
     });
     
     it('should limit recentlyUsedTools to 10 items', async () => {
@@ -418,10 +435,8 @@ describe('OrchestrationStateManager', () => {
       const result = await stateManager.addUsedTool(sessionId, toolName);
       
       expect(result).toEqual(updatedState);
-      expect(stateManager.updateState).toHaveBeenCalledWith(
-        sessionId,
-        { recentlyUsedTools: expectedTools }
-      );
+      const [, update] = (stateManager.updateState as jest.Mock).mock.calls[0];
+      expect(update(currentState)).toEqual({ recentlyUsedTools: expectedTools });
       expect(updatedState.recentlyUsedTools.length).toBeLessThanOrEqual(10);
     });
   });
@@ -450,7 +465,8 @@ describe('OrchestrationStateManager', () => {
       
       expect(result).toEqual(updatedState);
       expect(stateManager.getState).toHaveBeenCalledWith(sessionId);
-      expect(mockUpdateState).toHaveBeenCalledWith(sessionId, { sequenceIndex: 2 });
+      const [, update] = mockUpdateState.mock.calls[0];
+      expect(update(currentState)).toEqual({ sequenceIndex: 2 });
     });
     
     it('should handle undefined sequenceIndex by treating it as -1', async () => {
@@ -474,7 +490,8 @@ describe('OrchestrationStateManager', () => {
       const result = await stateManager.advanceSequence(sessionId);
       
       expect(result).toEqual(updatedState);
-      expect(mockUpdateState).toHaveBeenCalledWith(sessionId, { sequenceIndex: 0 });
+      const [, update] = mockUpdateState.mock.calls[0];
+      expect(update(currentState)).toEqual({ sequenceIndex: 0 });
     });
     
     it('should return null if getState returns null', async () => {
@@ -491,6 +508,61 @@ describe('OrchestrationStateManager', () => {
     });
   });
   
+  describe('trackJob', () => {
+    const baseState: OrchestrationState = {
+      sessionId,
+      recentlyUsedTools: [],
+      lastAccessed: Date.now(),
+      ttl: 3600000
+    };
+
+    it('should append a new job and replace an existing one with the same ID', async () => {
+      let currentState: OrchestrationState = { ...baseState };
+      jest.spyOn(stateManager, 'getOrCreateState').mockResolvedValue(baseState);
+      mockUpdateSession.mockImplementation(async (_id, updateFn) => ({ success: true, data: updateFn(currentState) }));
+
+      currentState = (await stateManager.trackJob(sessionId, { id: 'job-1', tool: 'bulk', status: 'InProgress' }))!;
+      const createdAt = currentState.trackedJobs![0].createdAt;
+      currentState = (await stateManager.trackJob(sessionId, { id: 'job-2', tool: 'bulk' }))!;
+      currentState = (await stateManager.trackJob(sessionId, { id: 'job-1', tool: 'bulk', status: 'JobComplete' }))!;
+
+      expect(currentState.trackedJobs!.map(job => [job.id, job.status])).toEqual([
+        ['job-2', undefined],
+        ['job-1', 'JobComplete']
+      ]);
+      expect(currentState.trackedJobs![1].createdAt).toBe(createdAt);
+    });
+
+    it('should return null if the state cannot be created', async () => {
+      jest.spyOn(stateManager, 'getOrCreateState').mockResolvedValueOnce(null);
+
+      const result = await stateManager.trackJob(sessionId, { id: 'job-1', tool: 'bulk' });
+
+      expect(result).toBeNull();
+      expect(mockUpdateSession).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getTrackedJobs', () => {
+    it('should return jobs for the given tools, most recent first', async () => {
+      jest.spyOn(stateManager, 'getState').mockResolvedValueOnce({
+        sessionId,
+        recentlyUsedTools: [],
+        lastAccessed: Date.now(),
+        ttl: 3600000,
+        trackedJobs: [
+          { id: 'crawl-1', tool: 'firecrawl_crawl', createdAt: 1, updatedAt: 1 },
+          { id: 'job-1', tool: 'bulk', createdAt: 2, updatedAt: 2 },
+          { id: 'job-2', tool: 'bulk', createdAt: 3, updatedAt: 3 }
+        ]
+      });
+
+      const jobs = await stateManager.getTrackedJobs(sessionId, ['bulk']);
+
+      expect(jobs.map(job => job.id)).toEqual(['job-2', 'job-1']);
+    });
+  });
+  
   describe('resetState', () => {
     it('should call cleanupSession and return null', async () => {
       jest.spyOn(stateManager, 'cleanupSession').mockResolvedValueOnce();
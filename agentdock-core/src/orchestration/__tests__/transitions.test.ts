@@ -0,0 +1,202 @@
+import { OrchestrationManager } from '../index';
+import { OrchestrationState, OrchestrationStateUpdate } from '../state';
+import { appendTransition, getOutgoingTransitions, MAX_TRANSITION_HISTORY } from '../transitions';
+import { LLMMessage } from '../../llm/types';
+import { OrchestrationConfig, OrchestrationSchema } from '../../types/orchestration';
+
+jest.mock('../../logging', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn()
+  },
+  LogCategory: {
+    ORCHESTRATION: 'orchestration'
+  }
+}));
+
+// In-memory stand-in for the state manager so transitions can run end to end
+const states = new Map<string, OrchestrationState>();
+
+jest.mock('../state', () => {
+  const originalModule = jest.requireActual('../state');
+  const fakeStateManager = () => ({
+    getState: jest.fn(async (sessionId: string) => states.get(sessionId) || null),
+    getOrCreateState: jest.fn(async (sessionId: string) => {
+      if (!states.has(sessionId)) {
+        states.set(sessionId, { sessionId, recentlyUsedTools: [], sequenceIndex: 0, lastAccessed: 0, ttl: 0 });
+      }
+      return states.get(sessionId);
+    }),
+    updateState: jest.fn(async (sessionId: string, updates: OrchestrationStateUpdate) => {
+      const current = states.get(sessionId)!;
+      const updated = { ...current, ...(typeof updates === 'function' ? updates(current) : updates) };
+      states.set(sessionId, updated);
+      return updated;
+    }),
+    setFlag: jest.fn(async (sessionId: string, flag: string, value: string | number | boolean | undefined) => {
+      const state = states.get(sessionId)!;
+      state.flags = { ...state.flags, [flag]: value as string | number | boolean };
+      return state;
+    })
+  });
+  return {
+    ...originalModule,
+    createOrchestrationStateManager: jest.fn().mockImplementation(fakeStateManager)
+  };
+});
+
+const user = (content: string): LLMMessage => ({ role: 'user', content });
+
+const messagesOf = (result: ReturnType<typeof OrchestrationSchema.safeParse>) =>
+  result.error?.issues.map(issue => issue.message) ?? [];
+
+describe('Orchestration transitions', () => {
+  const orchestration: OrchestrationConfig = {
+    steps: [
+      { name: 'Triage', description: 'Work out what the user needs', isDefault: true },
+      { name: 'Billing', description: 'Answer billing questions', conditions: [{ type: 'message_regex', value: 'invoice', flags: 'i' }] },
+      { name: 'Escalation', description: 'Hand over to a human' },
+      { name: 'Wrap up', description: 'Close the conversation' }
+    ],
+    transitions: [
+      { from: 'Triage', to: 'Billing' },
+      { from: 'Triage', to: 'Escalation', guard: { type: 'state_flag', flag: 'angry' }, priority: 10 },
+      { from: 'Billing', to: 'Wrap up', guard: { type: 'tool_used', value: 'refund' } },
+      { from: 'Billing', to: 'Escalation', guard: { type: 'state_flag', flag: 'angry' } },
+      { from: 'Escalation', to: 'Wrap up', guard: { type: 'state_flag', flag: 'resolved' } },
+      { from: 'Wrap up', to: 'Triage', guard: { type: 'message_regex', value: 'another question', flags: 'i' } }
+    ]
+  };
+
+  describe('OrchestrationSchema', () => {
+    it('accepts a connected graph', () => {
+      expect(OrchestrationSchema.safeParse(orchestration).success).toBe(true);
+    });
+
+    it('rejects transitions to unknown steps', () => {
+      const result = OrchestrationSchema.safeParse({
+        ...orchestration,
+        transitions: [...orchestration.transitions!, { from: 'Billing', to: 'Refunds' }]
+      });
+
+      expect(messagesOf(result)).toContain("Transition to 'Refunds' does not match any step");
+    });
+
+    it('rejects unreachable steps and dead ends', () => {
+      const result = OrchestrationSchema.safeParse({
+        ...orchestration,
+        transitions: orchestration.transitions!.filter(t => t.to !== 'Escalation' && t.from !== 'Wrap up')
+      });
+
+      expect(messagesOf(result)).toEqual([
+        "Step 'Escalation' cannot be reached from the default step 'Triage'",
+        "Step 'Wrap up' is a dead end: no transition leaves it"
+      ]);
+    });
+
+    it('counts pipeline steps as moving on to the next step', () => {
+      const result = OrchestrationSchema.safeParse({
+        steps: [
+          { name: 'Plan', description: 'Plan the work', isDefault: true },
+          { name: 'Draft', description: 'Write a draft', return: 'draft' },
+          { name: 'Review', description: 'Review the draft', return: 'review' }
+        ],
+        transitions: [{ from: 'Plan', to: 'Draft', guard: { type: 'tool_used', value: 'think' } }]
+      });
+
+      expect(result.success).toBe(true);
+    });
+
+    it('needs a single default step', () => {
+      const steps = orchestration.steps.map(step => ({ ...step, isDefault: step.name === 'Triage' || step.name === 'Billing' }));
+
+      expect(messagesOf(OrchestrationSchema.safeParse({ ...orchestration, steps })))
+        .toContain("Only one step can be the default, found 'Triage', 'Billing'");
+      expect(messagesOf(OrchestrationSchema.safeParse({ ...orchestration, steps: steps.map(step => ({ ...step, isDefault: false })) })))
+        .toContain('An orchestration with transitions needs a default step to start from');
+    });
+  });
+
+  it('orders outgoing transitions by priority, then declaration order', () => {
+    expect(getOutgoingTransitions(orchestration, 'Triage').map(t => t.to)).toEqual(['Escalation', 'Billing']);
+    expect(getOutgoingTransitions(orchestration, 'Billing').map(t => t.to)).toEqual(['Wrap up', 'Escalation']);
+  });
+
+  it('keeps only the most recent history entries', () => {
+    let history = appendTransition(undefined, { to: 'Triage', trigger: 'default', at: 0 });
+    for (let i = 1; i <= MAX_TRANSITION_HISTORY; i++) {
+      history = appendTransition(history, { from: 'Triage', to: 'Triage', trigger: 'transition', at: i });
+    }
+
+    expect(history).toHaveLength(MAX_TRANSITION_HISTORY);
+    expect(history[0].at).toBe(1);
+  });
+
+  describe('OrchestrationManager', () => {
+    const sessionId = 'transitions-session';
+    let manager: OrchestrationManager;
+
+    beforeEach(() => {
+      states.clear();
+      manager = new OrchestrationManager();
+    });
+
+    it('starts at the default step', async () => {
+      const step = await manager.getActiveStep(orchestration, [user('my invoice is wrong')], sessionId);
+
+      expect(step?.name).toBe('Triage');
+      expect(states.get(sessionId)?.transitionHistory).toEqual([
+        { from: undefined, to: 'Triage', trigger: 'default', at: expect.any(Number) }
+      ]);
+    });
+
+    it('uses the target step conditions when a transition has no guard', async () => {
+      await manager.getActiveStep(orchestration, [], sessionId);
+
+      expect((await manager.getActiveStep(orchestration, [user('hello')], sessionId))?.name).toBe('Triage');
+      expect((await manager.getActiveStep(orchestration, [user('my invoice is wrong')], sessionId))?.name).toBe('Billing');
+    });
+
+    it('tries the highest priority transition first', async () => {
+      await manager.getActiveStep(orchestration, [], sessionId);
+      await manager.setFlag(sessionId, 'angry', true);
+
+      expect((await manager.getActiveStep(orchestration, [user('my invoice is wrong')], sessionId))?.name).toBe('Escalation');
+    });
+
+    it('takes one transition per evaluation and records each one', async () => {
+      await manager.getActiveStep(orchestration, [], sessionId);
+      await manager.setFlag(sessionId, 'angry', true);
+      await manager.setFlag(sessionId, 'resolved', true);
+
+      // Escalation -> Wrap up also holds, but only the first move is made
+      expect((await manager.getActiveStep(orchestration, [], sessionId))?.name).toBe('Escalation');
+      expect((await manager.getActiveStep(orchestration, [], sessionId))?.name).toBe('Wrap up');
+      expect((await manager.getActiveStep(orchestration, [], sessionId))?.name).toBe('Wrap up');
+
+      expect(states.get(sessionId)?.transitionHistory?.map(({ from, to, trigger }) => ({ from, to, trigger }))).toEqual([
+        { from: undefined, to: 'Triage', trigger: 'default' },
+        { from: 'Triage', to: 'Escalation', trigger: 'transition' },
+        { from: 'Escalation', to: 'Wrap up', trigger: 'transition' }
+      ]);
+      expect(states.get(sessionId)?.stepVisits).toEqual({ Triage: 1, Escalation: 1, 'Wrap up': 1 });
+    });
+
+    it('ignores step conditions that have no transition leading to them', async () => {
+      await manager.getActiveStep(orchestration, [], sessionId);
+      await manager.setFlag(sessionId, 'resolved', true);
+
+      // Wrap up is only reachable from Billing and Escalation
+      expect((await manager.getActiveStep(orchestration, [user('hello')], sessionId))?.name).toBe('Triage');
+    });
+
+    it('falls back to the default step when the active step is unknown', async () => {
+      states.set(sessionId, { sessionId, activeStep: 'Removed', recentlyUsedTools: [], sequenceIndex: 0, lastAccessed: 0, ttl: 0 });
+
+      expect((await manager.getActiveStep(orchestration, [], sessionId))?.name).toBe('Triage');
+      expect(states.get(sessionId)?.transitionHistory?.[0]).toMatchObject({ from: 'Removed', to: 'Triage', trigger: 'default' });
+    });
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * @fileoverview Evaluation of orchestration step conditions.
+ *
+ * Conditions are checked against the session's orchestration state and the
+ * conversation so far. `all`, `any` and `not` combine other conditions.
+ *
+ * When the conversation is not available (e.g. a tool run outside a chat turn),
+ * `message_regex` and `turn_count` are unknown rather than false, so neither
+ * they nor a `not` around them can trigger a transition.
+ */
+
+import { logger, LogCategory } from '../logging';
+import { LLMMessage } from '../llm/types';
+import { OrchestrationCondition, OrchestrationStep } from '../types/orchestration';
+import { matchesSequenceTail } from './sequences';
+import { OrchestrationState } from './state';
+
+/**
+ * Everything a condition can be evaluated against
+ */
+export interface ConditionContext {
+  /** Orchestration state of the session */
+  state: Pick<OrchestrationState, 'recentlyUsedTools'> & Partial<OrchestrationState>;
+
+  /** Conversation messages, oldest first. Undefined when the conversation is not available. */
+  messages?: LLMMessage[];
+
+  /** Step the condition belongs to */
+  step: OrchestrationStep;
+}
+
+// Keeps large tool results from bloating the session state
+const MAX_TOOL_RESULT_TEXT_LENGTH = 4000;
+
+/**
+ * Converts a tool result to the text `tool_result_matches` conditions are matched against
+ */
+export function toolResultToText(result: unknown): string {
+  let text: string;
+  if (typeof result === 'string') {
+    text = result;
+  } else {
+    try {
+      text = JSON.stringify(result) ?? '';
+    } catch {
+      text = String(result);
+    }
+  }
+  return text.length > MAX_TOOL_RESULT_TEXT_LENGTH ? text.slice(0, MAX_TOOL_RESULT_TEXT_LENGTH) : text;
+}
+
+function inRange(count: number, min?: number, max?: number): boolean {
+  return (min === undefined || count >= min) && (max === undefined || count <= max);
+}
+
+function matches(pattern: string, flags: string | undefined, text: string | undefined): boolean {
+  if (text === undefined) return false;
+  try {
+    return new RegExp(pattern, flags).test(text);
+  } catch {
+    logger.warn(LogCategory.ORCHESTRATION, 'evaluateCondition', 'Invalid regular expression in condition', { pattern, flags });
+    return false;
+  }
+}
+
+/**
+ * Evaluates a condition, including nested `all`, `any` and `not` conditions.
+ * A condition that depends on an unavailable conversation is not met.
+ */
+export function evaluateCondition(condition: OrchestrationCondition, context: ConditionContext): boolean {
+  return evaluate(condition, context) === true;
+}
+
+/**
+ * Evaluates a condition to true, false, or undefined when it depends on an unavailable conversation.
+ * `all`, `any` and `not` propagate the unknown value (three-valued logic).
+ */
+function evaluate(condition: OrchestrationCondition, context: ConditionContext): boolean | undefined {
+  const { state, messages, step } = context;
+  const history = state.recentlyUsedTools || [];
+
+  switch (condition.type) {
+    case 'tool_used':
+      // Checks whether the tool exists anywhere in the history
+      return typeof condition.value === 'string' && history.includes(condition.value);
+
+    case 'sequence_match': {
+      // Checks whether the end of the history matches the step's sequence
+      const sequence = step.sequence;
+      if (!sequence || sequence.length === 0) {
+        logger.warn(LogCategory.ORCHESTRATION, 'evaluateCondition', 'sequence_match condition used on step with no sequence', { stepName: step.name });
+        return false;
+      }
+      const match = matchesSequenceTail(sequence, history, nested => evaluateCondition(nested, context));
+      logger.debug(LogCategory.ORCHESTRATION, 'evaluateCondition', 'Sequence match check', { stepName: step.name, sequence, history, match });
+      return match;
+    }
+
+    case 'message_regex': {
+      if (!messages) return undefined;
+      const role = condition.role || 'user';
+      const message = [...messages].reverse().find(m => role === 'any' ? m.role === 'user' || m.role === 'assistant' : m.role === role);
+      return matches(condition.value, condition.flags, message?.content);
+    }
+
+    case 'turn_count':
+      if (!messages) return undefined;
+      return inRange(messages.filter(message => message.role === 'user').length, condition.min, condition.max);
+
+    case 'token_usage_above': {
+      const used = state.cumulativeTokenUsage?.totalTokens ?? 0;
+      const threshold = condition.tokens ?? ((condition.percent ?? 100) / 100) * (condition.budget ?? Infinity);
+      return used > threshold;
+    }
+
+    case 'step_visits':
+      return inRange(state.stepVisits?.[condition.step || step.name] ?? 0, condition.min, condition.max);
+
+    case 'tool_result_matches':
+      return matches(condition.value, condition.flags, state.lastToolResults?.[condition.tool]);
+
+    case 'state_flag': {
+      const value = state.flags?.[condition.flag];
+      return condition.equals === undefined ? !!value : value === condition.equals;
+    }
+
+    case 'all': {
+      const results = condition.conditions.map(nested => evaluate(nested, context));
+      if (results.includes(false)) return false;
+      return results.includes(undefined) ? undefined : true;
+    }
+
+    case 'any': {
+      const results = condition.conditions.map(nested => evaluate(nested, context));
+      if (results.includes(true)) return true;
+      return results.includes(undefined) ? undefined : false;
+    }
+
+    case 'not': {
+      const result = evaluate(condition.condition, context);
+      return result === undefined ? undefined : !result;
+    }
+
+    default:
+      logger.warn(LogCategory.ORCHESTRATION, 'evaluateCondition', 'Unsupported condition type', { type: (condition as { type?: string }).type });
+      return false;
+  }
+}
+
+function describeRange(min?: number, max?: number): string {
+  if (min !== undefined && max !== undefined) return `between ${min} and ${max}`;
+  if (min !== undefined) return `at least ${min}`;
+  return `at most ${max}`;
+}
+
+/**
+ * Describes a condition in plain words, for the orchestration guide in the system prompt
+ */
+export function describeCondition(condition: OrchestrationCondition): string {
+  switch (condition.type) {
+    case 'tool_used':
+      return `After using the "${condition.value}" tool`;
+    case 'sequence_match':
+      return 'After completing the step\'s tool sequence';
+    case 'message_regex':
+      return `When the latest ${condition.role === 'any' ? '' : `${condition.role || 'user'} `}message matches /${condition.value}/${condition.flags || ''}`;
+    case 'turn_count':
+      return `When the user has sent ${describeRange(condition.min, condition.max)} messages`;
+    case 'token_usage_above':
+      return condition.tokens !== undefined
+        ? `When token usage passes ${condition.tokens}`
+        : `When token usage passes ${condition.percent}% of the ${condition.budget} token budget`;
+    case 'step_visits':
+      return `When "${condition.step || 'this step'}" has been entered ${describeRange(condition.min, condition.max)} times`;
+    case 'tool_result_matches':
+      return `When the latest "${condition.tool}" result matches /${condition.value}/${condition.flags || ''}`;
+    case 'state_flag':
+      return condition.equals === undefined
+        ? `When the "${condition.flag}" flag is set`
+        : `When the "${condition.flag}" flag is ${JSON.stringify(condition.equals)}`;
+    case 'all':
+      return `All of: ${condition.conditions.map(describeCondition).join('; ')}`;
+    case 'any':
+      return `Any of: ${condition.conditions.map(describeCondition).join('; ')}`;
+    case 'not':
+      return `Not: ${describeCondition(condition.condition)}`;
+    default:
+      return String((condition as { type?: string }).type);
+  }
+}
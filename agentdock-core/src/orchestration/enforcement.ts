@@ -0,0 +1,94 @@
+/**
+ * @fileoverview Enforcement of step rules when tools run.
+ *
+ * Filtering only narrows the tools offered to the model. The wrapper here
+ * checks each call against the active step as it happens, so calls made out
+ * of order (or from outside the model) are recorded, and rejected in strict mode.
+ */
+
+import { OrchestrationConfig, ToolCallViolation } from '../types/orchestration';
+import { SessionId } from '../types/session';
+import type { OrchestrationManager } from './index';
+
+/**
+ * Outcome of checking a tool call against the active step
+ */
+export interface ToolCallAuthorization {
+  /** Whether the tool may run */
+  allowed: boolean;
+
+  /** Rule the call broke, also set in advisory mode when the call still runs */
+  violation?: ToolCallViolation;
+}
+
+/**
+ * Tool result returned instead of running a rejected call, so the model can correct itself
+ */
+export interface ToolViolationResult {
+  error: 'ORCHESTRATION_VIOLATION';
+  message: string;
+  tool: string;
+  step: string;
+  reason: ToolCallViolation['reason'];
+  expectedTool?: string;
+  allowedTools?: string[];
+}
+
+/**
+ * Explains a violation and what to do instead, in words meant for the model
+ */
+export function describeToolViolation(violation: ToolCallViolation): string {
+  const prefix = `Tool "${violation.tool}" cannot be used in step "${violation.step}"`;
+  switch (violation.reason) {
+    case 'denied':
+      return `${prefix}: the step does not allow it. Continue without it.`;
+    case 'not_allowed':
+      return `${prefix}: the step only allows ${(violation.allowedTools || []).map(tool => `"${tool}"`).join(', ')}. Use one of those instead.`;
+    case 'out_of_sequence':
+      return violation.expectedTool
+        ? `Tool "${violation.tool}" was called out of order in step "${violation.step}". Call "${violation.expectedTool}" next.`
+        : `Tool "${violation.tool}" was called out of order in step "${violation.step}". Reply to the user before calling more tools.`;
+  }
+}
+
+/**
+ * Builds the tool result for a rejected call
+ */
+export function createToolViolationResult(violation: ToolCallViolation): ToolViolationResult {
+  return {
+    error: 'ORCHESTRATION_VIOLATION',
+    message: describeToolViolation(violation),
+    tool: violation.tool,
+    step: violation.step,
+    reason: violation.reason,
+    ...(violation.expectedTool && { expectedTool: violation.expectedTool }),
+    ...(violation.allowedTools && { allowedTools: violation.allowedTools })
+  };
+}
+
+/**
+ * Wraps a tool's execute function so each call is checked against the session's active step.
+ * Rejected calls return a `ToolViolationResult` instead of running; calls that run move the step's sequence on.
+ */
+export function withToolEnforcement<TArgs extends unknown[], TResult>(
+  execute: (...args: TArgs) => Promise<TResult>,
+  options: {
+    manager: OrchestrationManager;
+    orchestration: OrchestrationConfig | undefined;
+    sessionId: SessionId;
+    toolName: string;
+  }
+): (...args: TArgs) => Promise<TResult | ToolViolationResult> {
+  const { manager, orchestration, sessionId, toolName } = options;
+
+  return async (...args: TArgs) => {
+    const authorization = await manager.authorizeToolCall(orchestration, sessionId, toolName);
+    if (!authorization.allowed && authorization.violation) {
+      return createToolViolationResult(authorization.violation);
+    }
+
+    const result = await execute(...args);
+    await manager.recordToolCall(orchestration, sessionId, toolName);
+    return result;
+  };
+}
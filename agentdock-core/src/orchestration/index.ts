@@ -10,14 +10,25 @@ import {
   OrchestrationConfig, 
   OrchestrationStep,
   OrchestrationCondition,
-  AIOrchestrationState
+  OrchestrationFlagValue,
+  AIOrchestrationState,
+  RoutingDecision,
+  ToolCallViolation,
+  TransitionRecord
 } from '../types/orchestration';
+import type { CoreLLM } from '../llm/core-llm';
 import { LLMMessage } from '../llm/types';
 import { SessionId } from '../types/session';
 
 // Export other modules
 export * from './state';
 export * from './sequencer';
+export * from './sequences';
+export * from './pipeline';
+export * from './conditions';
+export * from './transitions';
+export * from './router';
+export * from './enforcement';
 
 // Import internal components
 import { 
@@ -25,9 +36,17 @@ import {
   createOrchestrationStateManager,
   CleanupOptions,
   OrchestrationState,
-  OrchestrationStateManagerOptions
+  OrchestrationStateManagerOptions,
+  OrchestrationStateSnapshot,
+  OrchestrationStateUpdate
 } from './state';
 import { StepSequencer, createStepSequencer } from './sequencer';
+import { getSequenceFrontier } from './sequences';
+import { StepActivity, isModelStage, resolveStepInputs } from './pipeline';
+import { evaluateCondition, toolResultToText } from './conditions';
+import { appendTransition, hasTransitions, selectTransition } from './transitions';
+import { DEFAULT_ROUTER_CONFIDENCE_THRESHOLD, RouterClassification, classifyStep, getRoutingMessageKey, hasRouter } from './router';
+import { ToolCallAuthorization } from './enforcement';
 
 /**
  * Context for tool filtering
@@ -35,6 +54,12 @@ import { StepSequencer, createStepSequencer } from './sequencer';
 export interface ToolContext {
   /** Recently used tools */
   recentlyUsedTools: string[];
+
+  /** Conversation messages, for message and turn count conditions */
+  messages?: LLMMessage[];
+
+  /** Session state, for token usage, step visit, tool result and flag conditions */
+  state?: OrchestrationState;
 }
 
 /**
@@ -92,12 +117,16 @@ export class OrchestrationManager {
   }
   
   /**
-   * Gets the active step based on conditions
+   * Gets the active step based on conditions, or by following the transitions graph when one is declared.
+   * In router mode the step is picked by `routerLLM` once per user message.
+   * Pass undefined messages when the conversation is not available; message conditions then cannot
+   * trigger a transition and the router keeps the current step.
    */
   public async getActiveStep( // Changed to async
     orchestration: OrchestrationConfig,
-    messages: LLMMessage[],
-    sessionId: SessionId
+    messages: LLMMessage[] | undefined,
+    sessionId: SessionId,
+    routerLLM?: CoreLLM
   ): Promise<OrchestrationStep | undefined> { // Changed to Promise
     // If no orchestration, return undefined
     if (!orchestration?.steps?.length) return undefined;
@@ -119,9 +148,19 @@ export class OrchestrationManager {
     
     // Create tool context
     const toolContext: ToolContext = {
-      recentlyUsedTools: state?.recentlyUsedTools || []
+      recentlyUsedTools: state?.recentlyUsedTools || [],
+      messages,
+      state
     };
     
+    if (hasRouter(orchestration)) {
+      return this.routeStep(orchestration, state, messages, sessionId, routerLLM);
+    }
+    
+    if (hasTransitions(orchestration)) {
+      return this.followTransitions(orchestration, state, toolContext, sessionId);
+    }
+    
     // Check each step (prioritize non-default steps with conditions)
     for (const step of orchestration.steps) {
         if (step.conditions?.length && !step.isDefault) {
@@ -130,7 +169,7 @@ export class OrchestrationManager {
       for (const condition of step.conditions) {
                 // Pass the step to checkCondition
                 const conditionMet = this.checkCondition(condition, toolContext, step); 
-                logger.debug(LogCategory.ORCHESTRATION, 'getActiveStep', 'Condition check result', { sessionId, stepName: step.name, conditionType: condition.type, conditionValue: condition.value, conditionMet }); // Log condition check
+                logger.debug(LogCategory.ORCHESTRATION, 'getActiveStep', 'Condition check result', { sessionId, stepName: step.name, conditionType: condition.type, conditionMet }); // Log condition check
                 if (!conditionMet) { 
           allConditionsMet = false;
           break;
@@ -143,7 +182,7 @@ export class OrchestrationManager {
                 if (state.activeStep !== step.name) {
                     logger.info(LogCategory.ORCHESTRATION, 'getActiveStep', 'Transitioning active step', { sessionId, fromStep: state.activeStep, toStep: step.name }); // Log transition
                     // Also reset sequence index when transitioning to a new step
-                    await this.stateManager.updateState(sessionId, { activeStep: step.name, sequenceIndex: 0 });
+                    await this.enterStep(sessionId, step.name, 'condition');
                 } else {
                     logger.debug(LogCategory.ORCHESTRATION, 'getActiveStep', 'Conditions met, but step is already active', { sessionId, stepName: step.name }); // Log already active
         }
@@ -168,7 +207,7 @@ export class OrchestrationManager {
         logger.debug(LogCategory.ORCHESTRATION, 'getActiveStep', 'Falling back to default step', { sessionId, defaultStepName: defaultStep.name }); // Log falling back to default
         if (state.activeStep !== defaultStep.name) {
              // Also reset sequence index when falling back to default
-             await this.stateManager.updateState(sessionId, { activeStep: defaultStep.name, sequenceIndex: 0 });
+             await this.enterStep(sessionId, defaultStep.name, 'default');
       }
       return defaultStep;
     }
@@ -177,6 +216,150 @@ export class OrchestrationManager {
     return undefined;
   }
   
+  /**
+   * Takes at most one transition out of the active step. Starts at the default step when no step is active.
+   */
+  private async followTransitions(
+    orchestration: OrchestrationConfig,
+    state: OrchestrationState,
+    toolContext: ToolContext,
+    sessionId: SessionId
+  ): Promise<OrchestrationStep | undefined> {
+    const current = orchestration.steps.find(s => s.name === state.activeStep);
+    
+    if (!current) {
+      if (state.activeStep) {
+        logger.warn(LogCategory.ORCHESTRATION, 'followTransitions', 'Active step in state not found in config, falling back to default', { sessionId, invalidStep: state.activeStep });
+      }
+      const defaultStep = orchestration.steps.find(step => step.isDefault);
+      if (defaultStep) {
+        await this.enterStep(sessionId, defaultStep.name, 'default');
+      }
+      return defaultStep;
+    }
+    
+    const selected = selectTransition(orchestration, current, (condition, target) => this.checkCondition(condition, toolContext, target));
+    if (!selected) {
+      logger.debug(LogCategory.ORCHESTRATION, 'followTransitions', 'No transition guard met, keeping current step', { sessionId, stepName: current.name });
+      return current;
+    }
+    
+    logger.info(LogCategory.ORCHESTRATION, 'followTransitions', 'Taking transition', {
+      sessionId,
+      fromStep: current.name,
+      toStep: selected.target.name,
+      priority: selected.transition.priority ?? 0
+    });
+    await this.enterStep(sessionId, selected.target.name, 'transition');
+    return selected.target;
+  }
+  
+  /**
+   * Lets the classifier pick the step for a new user message. Later evaluations for the same
+   * message (after tool calls or pipeline steps) reuse the cached decision and keep the active step.
+   */
+  private async routeStep(
+    orchestration: OrchestrationConfig,
+    state: OrchestrationState,
+    messages: LLMMessage[] | undefined,
+    sessionId: SessionId,
+    routerLLM?: CoreLLM
+  ): Promise<OrchestrationStep | undefined> {
+    const current = orchestration.steps.find(s => s.name === state.activeStep);
+    const defaultStep = orchestration.steps.find(step => step.isDefault);
+    const messageKey = messages && getRoutingMessageKey(messages);
+    
+    if (!messages || !messageKey || !routerLLM || state.routingDecision?.messageKey === messageKey) {
+      if (messageKey && !routerLLM && state.routingDecision?.messageKey !== messageKey) {
+        logger.debug(LogCategory.ORCHESTRATION, 'routeStep', 'No router LLM given, keeping current step', { sessionId });
+      }
+      if (current || !defaultStep) return current;
+      await this.enterStep(sessionId, defaultStep.name, 'default');
+      return defaultStep;
+    }
+    
+    const threshold = orchestration.router?.confidenceThreshold ?? DEFAULT_ROUTER_CONFIDENCE_THRESHOLD;
+    let decision: RoutingDecision;
+    let classifierUsage: RouterClassification['usage'];
+    
+    try {
+      const classification = await classifyStep(routerLLM, orchestration, messages, state.activeStep);
+      // Without a default step there is nothing to fall back to, so the classifier's choice stands
+      const fallback = classification.confidence < threshold && !!defaultStep;
+      decision = {
+        messageKey,
+        step: fallback && defaultStep ? defaultStep.name : classification.step,
+        proposedStep: classification.step,
+        confidence: classification.confidence,
+        reason: classification.reason,
+        fallback,
+        at: Date.now()
+      };
+      classifierUsage = classification.usage;
+    } catch (error) {
+      // A failed call should not move the conversation, so the current step is kept
+      const fallbackStep = current ?? defaultStep;
+      logger.warn(LogCategory.ORCHESTRATION, 'routeStep', 'Router call failed, keeping current step', {
+        sessionId,
+        stepName: fallbackStep?.name,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      if (!fallbackStep) return undefined;
+      decision = { messageKey, step: fallbackStep.name, confidence: 0, reason: 'Router call failed', fallback: true, at: Date.now() };
+    }
+    
+    logger.info(LogCategory.ORCHESTRATION, 'routeStep', 'Routed message', {
+      sessionId,
+      fromStep: state.activeStep,
+      toStep: decision.step,
+      proposedStep: decision.proposedStep,
+      confidence: decision.confidence,
+      fallback: decision.fallback
+    });
+    // Usage is added to the stored totals, which other calls may have changed during classification
+    await this.stateManager.updateState(sessionId, (currentState) => {
+      const usage = currentState.cumulativeTokenUsage;
+      if (!classifierUsage) return { routingDecision: decision };
+      return {
+        routingDecision: decision,
+        cumulativeTokenUsage: {
+          ...usage,
+          promptTokens: (usage?.promptTokens ?? 0) + classifierUsage.promptTokens,
+          completionTokens: (usage?.completionTokens ?? 0) + classifierUsage.completionTokens,
+          totalTokens: (usage?.totalTokens ?? 0) + classifierUsage.totalTokens
+        }
+      };
+    });
+    
+    const step = orchestration.steps.find(s => s.name === decision.step);
+    if (step && step.name !== state.activeStep) {
+      await this.enterStep(sessionId, step.name, decision.fallback ? 'default' : 'router');
+    }
+    return step;
+  }
+  
+  /**
+   * Activates a step, resetting its sequence position, counting the visit and recording the transition.
+   * Applied to the stored state, so visits and history recorded by concurrent requests are kept.
+   */
+  private async enterStep(
+    sessionId: SessionId,
+    stepName: string,
+    trigger: TransitionRecord['trigger']
+  ): Promise<void> {
+    await this.stateManager.updateState(sessionId, (current) => {
+      // Another request may have entered the step since the state was read
+      if (current.activeStep === stepName) return {};
+      return {
+        activeStep: stepName,
+        sequenceIndex: 0,
+        sequenceProgress: undefined,
+        stepVisits: { ...current.stepVisits, [stepName]: (current.stepVisits?.[stepName] ?? 0) + 1 },
+        transitionHistory: appendTransition(current.transitionHistory, { from: current.activeStep, to: stepName, trigger, at: Date.now() })
+      };
+    });
+  }
+  
   /**
    * Checks if a condition is met (remains synchronous)
    */
@@ -185,51 +368,11 @@ export class OrchestrationManager {
     toolContext: ToolContext | undefined, // Made context optional for safety
     step: OrchestrationStep // Added step parameter
   ): boolean {
-    const history = toolContext?.recentlyUsedTools || [];
-
-    switch (condition.type) {
-      case 'tool_used':
-        // Keep original behavior: check if the specified tool exists anywhere in history
-        // Consider changing this later to only check the *last* tool if needed for more precision
-        // Check if condition.value is actually a string before passing to includes()
-        if (typeof condition.value === 'string') {
-          return history.includes(condition.value);
-        }
-        // If value is undefined (which shouldn't happen for tool_used based on Zod schema, 
-        // but TypeScript requires the check), the condition fails.
-        return false;
-
-      case 'sequence_match': {
-        // New condition: check if the end of the history matches the step's sequence
-        const sequence = step.sequence;
-        if (!sequence || sequence.length === 0) {
-          logger.warn(LogCategory.ORCHESTRATION, 'checkCondition', 'sequence_match condition used on step with no sequence', { stepName: step.name });
-          return false; // Cannot match if the step has no sequence defined
-        }
-        if (history.length < sequence.length) {
-          return false; // History is too short to match the sequence
-        }
-        
-        // Get the tail of the history matching the sequence length
-        const historyTail = history.slice(-sequence.length);
-        
-        // Compare the tail with the sequence
-        const match = sequence.every((tool, index) => historyTail[index] === tool);
-        
-        logger.debug(LogCategory.ORCHESTRATION, 'checkCondition', 'Sequence match check', { 
-            stepName: step.name, 
-            sequence, 
-            historyTail, 
-            match 
-        });
-        return match;
-      }
-      
-      default:
-        // Potentially add more condition types here if needed
-        logger.warn(LogCategory.ORCHESTRATION, 'OrchestrationManager', 'Unsupported condition type', { type: (condition as any).type });
-        return false;
-    }
+    return evaluateCondition(condition, {
+      state: { ...toolContext?.state, recentlyUsedTools: toolContext?.recentlyUsedTools || [] },
+      messages: toolContext?.messages,
+      step
+    });
   }
   
   /**
@@ -239,17 +382,40 @@ export class OrchestrationManager {
     orchestration: OrchestrationConfig,
     messages: LLMMessage[],
     sessionId: SessionId,
-    allToolIds: string[]
+    allToolIds: string[],
+    routerLLM?: CoreLLM
   ): Promise<string[]> { // Changed to Promise
     // If no orchestration, return all tools
     if (!orchestration?.steps?.length) return allToolIds;
     
     // Get active step using the async method
-    const activeStep = await this.getActiveStep(orchestration, messages, sessionId); // Changed to await
+    const activeStep = await this.getActiveStep(orchestration, messages, sessionId, routerLLM); // Changed to await
     
     // If no active step, return all tools
     if (!activeStep) return allToolIds;
     
+    return this.getAllowedToolsForStep(orchestration, activeStep, sessionId, allToolIds);
+  }
+  
+  /**
+   * Gets the tools a step allows right now, given its sequence position and tool lists
+   */
+  private async getAllowedToolsForStep(
+    orchestration: OrchestrationConfig,
+    activeStep: OrchestrationStep,
+    sessionId: SessionId,
+    allToolIds: string[]
+  ): Promise<string[]> {
+    // A model stage calls no tools itself, so the model may go straight on to the next pipeline step
+    const nextPipelineStep = await this.getNextStepAfterModelStages(orchestration, activeStep, sessionId);
+    if (nextPipelineStep) {
+      const firstTools = getSequenceFrontier(nextPipelineStep.sequence || []).tools;
+      if (firstTools.length > 0 && !isModelStage(firstTools[0])) {
+        return allToolIds.filter(toolId => firstTools.includes(toolId));
+      }
+      return this.filterByAvailability(nextPipelineStep, allToolIds);
+    }
+    
     // Apply sequence filtering (sequencer methods might need to become async too if they touch state)
     // Assuming sequencer.filterToolsBySequence remains sync for now, check its implementation.
     // If sequencer needs state, pass sessionId and let it call stateManager async methods.
@@ -258,16 +424,84 @@ export class OrchestrationManager {
       return this.sequencer.filterToolsBySequence(activeStep, sessionId, allToolIds);
     }
     
-    // Filter based on allowed/denied lists (synchronous logic)
-    if (activeStep.availableTools?.allowed && activeStep.availableTools.allowed.length > 0) {
+    return this.filterByAvailability(activeStep, allToolIds);
+  }
+  
+  /**
+   * Checks a tool call against the active step before it runs. The active step is read from the
+   * state as is, without evaluating conditions. Violations are recorded in the state; in `strict`
+   * mode the call is not allowed.
+   */
+  public async authorizeToolCall(
+    orchestration: OrchestrationConfig | undefined,
+    sessionId: SessionId,
+    toolName: string
+  ): Promise<ToolCallAuthorization> {
+    if (!orchestration?.steps?.length) return { allowed: true };
+    
+    const state = await this.stateManager.getState(sessionId);
+    const step = orchestration.steps.find(s => s.name === state?.activeStep) ?? orchestration.steps.find(s => s.isDefault);
+    if (!step) return { allowed: true };
+    
+    if ((await this.getAllowedToolsForStep(orchestration, step, sessionId, [toolName])).includes(toolName)) {
+      return { allowed: true };
+    }
+    
+    // A model stage followed by another pipeline step hands over to that step's rules
+    const effectiveStep = (await this.getNextStepAfterModelStages(orchestration, step, sessionId)) ?? step;
+    const blocked = orchestration.enforcement === 'strict';
+    let violation: ToolCallViolation;
+    
+    if (effectiveStep.availableTools?.denied?.includes(toolName)) {
+      violation = { tool: toolName, step: effectiveStep.name, reason: 'denied', blocked, at: Date.now() };
+    } else if (effectiveStep.availableTools?.allowed?.length && !effectiveStep.availableTools.allowed.includes(toolName)) {
+      violation = { tool: toolName, step: effectiveStep.name, reason: 'not_allowed', allowedTools: [...effectiveStep.availableTools.allowed], blocked, at: Date.now() };
+    } else {
+      const expected = effectiveStep === step
+        ? await this.sequencer.getCurrentSequenceTool(step, sessionId)
+        : getSequenceFrontier(effectiveStep.sequence || []).tools[0];
+      violation = {
+        tool: toolName,
+        step: effectiveStep.name,
+        reason: 'out_of_sequence',
+        ...(expected && !isModelStage(expected) && { expectedTool: expected }),
+        blocked,
+        at: Date.now()
+      };
+    }
+    
+    logger.warn(LogCategory.ORCHESTRATION, 'authorizeToolCall', blocked ? 'Rejected tool call' : 'Tool call breaks step rules', { sessionId, ...violation });
+    await this.stateManager.recordToolViolation(sessionId, violation);
+    return { allowed: !blocked, violation };
+  }
+  
+  /**
+   * Moves the active step's sequence on after a tool call that ran during generation.
+   * Pipeline steps are left alone, since their progress is recorded when the generation step finishes.
+   */
+  public async recordToolCall(orchestration: OrchestrationConfig | undefined, sessionId: SessionId, toolName: string): Promise<void> {
+    if (!orchestration?.steps?.length) return;
+    
+    const state = await this.stateManager.getState(sessionId);
+    const step = orchestration.steps.find(s => s.name === state?.activeStep);
+    if (!step?.sequence?.length || step.return) return;
+    
+    await this.sequencer.recordSequenceTool(step, sessionId, toolName);
+  }
+  
+  /**
+   * Filters tools based on a step's allowed/denied lists (synchronous logic)
+   */
+  private filterByAvailability(step: OrchestrationStep, allToolIds: string[]): string[] {
+    if (step.availableTools?.allowed && step.availableTools.allowed.length > 0) {
       return allToolIds.filter(toolId => {
-        return activeStep.availableTools?.allowed?.includes(toolId) || false;
+        return step.availableTools?.allowed?.includes(toolId) || false;
       });
     }
     
-    if (activeStep.availableTools?.denied && activeStep.availableTools.denied.length > 0) {
+    if (step.availableTools?.denied && step.availableTools.denied.length > 0) {
       return allToolIds.filter(toolId => {
-        return !activeStep.availableTools?.denied?.includes(toolId);
+        return !step.availableTools?.denied?.includes(toolId);
       });
     }
     
@@ -275,14 +509,33 @@ export class OrchestrationManager {
     return allToolIds;
   }
   
+  /**
+   * For a pipeline step with only model stages left, returns the step that follows it
+   */
+  private async getNextStepAfterModelStages(
+    orchestration: OrchestrationConfig,
+    step: OrchestrationStep,
+    sessionId: SessionId
+  ): Promise<OrchestrationStep | undefined> {
+    if (!step.return || !step.sequence?.length) return undefined;
+    
+    const state = await this.stateManager.getState(sessionId);
+    const remaining = step.sequence.slice(state?.sequenceIndex ?? 0);
+    if (remaining.length === 0 || !remaining.every(isModelStage)) return undefined;
+    
+    const position = orchestration.steps.findIndex(s => s.name === step.name);
+    return orchestration.steps[position + 1];
+  }
+  
   /**
    * Processes a tool usage event
    */
   public async processToolUsage( // Changed to async
     orchestration: OrchestrationConfig,
-    messages: LLMMessage[],
+    messages: LLMMessage[] | undefined,
     sessionId: SessionId,
-    toolName: string
+    toolName: string,
+    toolResult?: unknown
   ): Promise<void> { // Changed to Promise
     // Get active step
     const activeStep = await this.getActiveStep(orchestration, messages, sessionId); // Changed to await
@@ -290,6 +543,17 @@ export class OrchestrationManager {
     // Skip if no active step
     if (!activeStep) return;
     
+    if (toolResult !== undefined) {
+      await this.recordToolResults(sessionId, [{ toolName, result: toolResult }]);
+    }
+    
+    // Pipeline steps track their own position and store the result
+    if (activeStep.return) {
+      await this.stateManager.addUsedTool(sessionId, toolName);
+      await this.advancePipeline(orchestration, activeStep, sessionId, { toolResults: [{ toolName, result: toolResult }] });
+      return;
+    }
+    
     // Process tools through the sequencer (sequencer methods might need async)
     // Assuming sequencer.processTool remains sync or adapted internally
     await this.sequencer.processTool(activeStep, sessionId, toolName); 
@@ -300,6 +564,160 @@ export class OrchestrationManager {
     await this.getActiveStep(orchestration, messages, sessionId);
   }
   
+  /**
+   * Records the model text and tool results of one generation step against the active pipeline step.
+   * Does nothing unless the active step declares a return value.
+   * 
+   * @returns The step active after recording, or undefined once the pipeline has finished
+   */
+  public async recordStepOutput(
+    orchestration: OrchestrationConfig,
+    sessionId: SessionId,
+    activity: StepActivity
+  ): Promise<OrchestrationStep | undefined> {
+    if (activity.toolResults?.length) {
+      await this.recordToolResults(sessionId, activity.toolResults);
+    }
+    
+    // No conversation is passed here, so message conditions cannot re-trigger a transition
+    const activeStep = await this.getActiveStep(orchestration, undefined, sessionId);
+    if (!activeStep?.return) return activeStep;
+    
+    return this.advancePipeline(orchestration, activeStep, sessionId, activity);
+  }
+  
+  /**
+   * Keeps the latest result of each tool for `tool_result_matches` conditions
+   */
+  private async recordToolResults(sessionId: SessionId, toolResults: NonNullable<StepActivity['toolResults']>): Promise<void> {
+    const state = await this.stateManager.getState(sessionId);
+    if (!state) return;
+    
+    const results: Record<string, string> = {};
+    for (const { toolName, result } of toolResults) {
+      results[toolName] = toolResultToText(result);
+    }
+    await this.stateManager.updateState(sessionId, (currentState) => ({
+      lastToolResults: { ...currentState.lastToolResults, ...results }
+    }));
+  }
+  
+  /**
+   * Sets a flag for `state_flag` conditions, or clears it when the value is undefined
+   */
+  public async setFlag(sessionId: SessionId, flag: string, value: OrchestrationFlagValue | undefined): Promise<void> {
+    await this.stateManager.setFlag(sessionId, flag, value);
+  }
+  
+  /**
+   * Matches a generation step's output against the pipeline's sequence entries, storing each
+   * completed step's output and activating the next step in declaration order.
+   * 
+   * - Model stages (e.g. "llm.groq") complete with the model's text, or with empty text when
+   *   the model moves straight on to calling tools.
+   * - Tool entries complete with the matching tool result. A step without a sequence completes
+   *   with the first tool result.
+   */
+  private async advancePipeline(
+    orchestration: OrchestrationConfig,
+    startStep: OrchestrationStep,
+    sessionId: SessionId,
+    activity: StepActivity
+  ): Promise<OrchestrationStep | undefined> {
+    let step: OrchestrationStep | undefined = startStep;
+    let completed: Array<{ step: OrchestrationStep; nextStep?: OrchestrationStep }> = [];
+    
+    // Worked out from the stored state on each attempt, so concurrent updates are not overwritten
+    const updated = await this.stateManager.updateState(sessionId, (current) => {
+      completed = [];
+      if (current.activeStep !== startStep.name) {
+        // Another request moved the pipeline on since the step was read
+        step = orchestration.steps.find(s => s.name === current.activeStep);
+        return {};
+      }
+      
+      const pendingResults = [...(activity.toolResults || [])];
+      let pendingText = activity.text;
+      let active: OrchestrationStep | undefined = startStep;
+      let sequenceIndex = current.sequenceIndex ?? 0;
+      const stepOutputs = { ...current.stepOutputs };
+      const stepVisits = { ...current.stepVisits };
+      let transitionHistory = current.transitionHistory;
+      let changed = false;
+      
+      while (active?.return) {
+        const sequence = active.sequence || [];
+        const expected = sequence[sequenceIndex];
+        const next = pendingResults[0];
+        let output: unknown;
+        
+        if (isModelStage(expected) && (pendingText || next)) {
+          output = pendingText || '';
+          pendingText = undefined;
+        } else if (next && (expected === undefined ? sequence.length === 0 : next.toolName === expected)) {
+          output = next.result;
+          pendingResults.shift();
+        } else {
+          break;
+        }
+        
+        stepOutputs[active.return] = output;
+        sequenceIndex += 1;
+        changed = true;
+        
+        if (sequenceIndex < sequence.length) continue;
+        
+        // Step complete, move on to the next step in declaration order
+        const finished: OrchestrationStep = active;
+        const nextStep: OrchestrationStep | undefined = orchestration.steps[orchestration.steps.findIndex(s => s.name === finished.name) + 1];
+        completed.push({ step: finished, nextStep });
+        if (nextStep) {
+          stepVisits[nextStep.name] = (stepVisits[nextStep.name] ?? 0) + 1;
+          transitionHistory = appendTransition(transitionHistory, { from: finished.name, to: nextStep.name, trigger: 'pipeline', at: Date.now() });
+        }
+        active = nextStep;
+        sequenceIndex = 0;
+      }
+      
+      step = active;
+      if (!changed) return {};
+      // Once the last step completes the active step is cleared, so the default step starts the next run
+      return {
+        activeStep: active?.name,
+        sequenceIndex,
+        ...(active !== startStep && { sequenceProgress: undefined }),
+        stepOutputs,
+        stepVisits,
+        transitionHistory
+      };
+    });
+    
+    if (!updated) return startStep;
+    
+    for (const { step: finished, nextStep } of completed) {
+      logger.info(LogCategory.ORCHESTRATION, 'advancePipeline', 'Pipeline step completed', {
+        sessionId,
+        step: finished.name,
+        output: finished.return,
+        nextStep: nextStep?.name ?? 'end'
+      });
+    }
+    return step;
+  }
+  
+  /**
+   * Gets the active step's inputs, resolved from the outputs of earlier steps
+   */
+  public async getStepInputs(orchestration: OrchestrationConfig, sessionId: SessionId): Promise<Record<string, unknown>> {
+    if (!orchestration?.steps?.length) return {};
+    
+    const state = await this.stateManager.getState(sessionId);
+    const step = state?.activeStep
+      ? orchestration.steps.find(s => s.name === state.activeStep)
+      : orchestration.steps.find(s => s.isDefault);
+    return resolveStepInputs(step, state?.stepOutputs);
+  }
+  
   /**
    * Gets the orchestration state (AI-facing subset)
    * Does NOT create state if it doesn't exist.
@@ -323,8 +741,11 @@ export class OrchestrationManager {
    * Updates the orchestration state
    * Assumes state likely exists due to prior ensureStateExists or getActiveStep calls.
    */
-  public async updateState(sessionId: SessionId, partialState: Partial<OrchestrationState>): Promise<OrchestrationState | null> {
-      logger.debug(LogCategory.ORCHESTRATION, 'updateState', 'Updating state', { sessionId, keysToUpdate: Object.keys(partialState) });
+  public async updateState(sessionId: SessionId, partialState: OrchestrationStateUpdate): Promise<OrchestrationState | null> {
+      logger.debug(LogCategory.ORCHESTRATION, 'updateState', 'Updating state', {
+          sessionId,
+          keysToUpdate: typeof partialState === 'function' ? 'computed from current state' : Object.keys(partialState)
+      });
       try {
           const updatedState = await this.stateManager.updateState(sessionId, partialState);
           if (!updatedState) {
@@ -365,10 +786,61 @@ export class OrchestrationManager {
     await this.stateManager.cleanupSession(sessionId); // Changed to await
   }
 
+  /**
+   * Saves the session's state for a user message before the message is handled, so the
+   * conversation can later be rewound or forked at that message
+   */
+  public async snapshotState(sessionId: SessionId, messageId: string): Promise<OrchestrationStateSnapshot | null> {
+    try {
+      return await this.stateManager.snapshotState(sessionId, messageId);
+    } catch (error) {
+      logger.error(LogCategory.ORCHESTRATION, 'snapshotState', 'Error saving state snapshot', {
+        sessionId,
+        messageId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return null;
+    }
+  }
+  
+  /**
+   * Gets the snapshots taken in a session, oldest first
+   */
+  public async getSnapshots(sessionId: SessionId): Promise<OrchestrationStateSnapshot[]> {
+    return this.stateManager.getSnapshots(sessionId);
+  }
+  
+  /**
+   * Restores the state saved for a message, for editing and resubmitting it
+   * 
+   * @returns The restored state (AI-facing subset), or null when there is no snapshot for the message
+   */
+  public async rewindTo(sessionId: SessionId, messageId: string): Promise<AIOrchestrationState | null> {
+    const state = await this.stateManager.rewindTo(sessionId, messageId);
+    return state ? this.stateManager.toAIOrchestrationState(sessionId) : null;
+  }
+  
+  /**
+   * Copies the state saved for a message into a new session
+   * 
+   * @returns The new session's state (AI-facing subset), or null when the session cannot be forked
+   */
+  public async forkSession(sessionId: SessionId, messageId: string, newSessionId?: SessionId): Promise<AIOrchestrationState | null> {
+    const state = await this.stateManager.forkSession(sessionId, messageId, newSessionId);
+    return state ? this.stateManager.toAIOrchestrationState(state.sessionId) : null;
+  }
+  
   // NEW: Add getter for the state manager instance
   public getStateManager(): OrchestrationStateManager {
     return this.stateManager;
   }
+  
+  /**
+   * Stops the state manager's timers, for managers that only live as long as one task
+   */
+  public destroy(): void {
+    this.stateManager.destroy();
+  }
 }
 
 /**
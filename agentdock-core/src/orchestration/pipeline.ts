@@ -0,0 +1,101 @@
+/**
+ * @fileoverview Data passing between orchestration steps.
+ *
+ * Steps that declare a `return` name store their output in the session state.
+ * Later steps read those outputs through `inputs`, which are added to the
+ * system prompt and substituted for `{{inputs.name}}` placeholders in tool arguments.
+ */
+
+import { OrchestrationStep, SequenceEntry } from '../types/orchestration';
+
+/**
+ * Output produced during one generation step (or one direct tool execution)
+ */
+export interface StepActivity {
+  /** Text written by the model */
+  text?: string;
+
+  /** Results of the tools called, in call order */
+  toolResults?: { toolName: string; result: unknown }[];
+}
+
+// Sequence entries naming an LLM node (e.g. "llm.groq") are completed by the model's response, not a tool call
+const MODEL_STAGE_PREFIX = 'llm.';
+
+const INPUT_PLACEHOLDER = /\{\{\s*inputs\.([A-Za-z0-9_-]+)\s*\}\}/g;
+
+// Keeps large tool results from crowding out the rest of the system prompt
+const MAX_PROMPT_INPUT_LENGTH = 4000;
+
+/**
+ * Whether a sequence entry is a model stage rather than a tool
+ */
+export function isModelStage(entry: SequenceEntry | undefined): boolean {
+  return typeof entry === 'string' && entry.startsWith(MODEL_STAGE_PREFIX);
+}
+
+/**
+ * Resolves a step's inputs against the outputs stored so far.
+ * Inputs whose output has not been produced yet are left out.
+ */
+export function resolveStepInputs(
+  step: OrchestrationStep | undefined,
+  outputs: Record<string, unknown> = {}
+): Record<string, unknown> {
+  if (!step?.inputs) return {};
+
+  return Object.fromEntries(
+    Object.entries(step.inputs)
+      .filter(([, output]) => output in outputs)
+      .map(([name, output]) => [name, outputs[output]])
+  );
+}
+
+/**
+ * Converts a stored output to text. Tool results with markdown content use that content.
+ */
+export function inputValueToText(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (value && typeof value === 'object' && typeof (value as { content?: unknown }).content === 'string') {
+    return (value as { content: string }).content;
+  }
+  return JSON.stringify(value) ?? '';
+}
+
+/**
+ * Formats resolved inputs for the system prompt, truncating long values
+ */
+export function formatInputsForPrompt(inputs: Record<string, unknown>): string {
+  return Object.entries(inputs)
+    .map(([name, value]) => {
+      const text = inputValueToText(value);
+      const truncated = text.length > MAX_PROMPT_INPUT_LENGTH
+        ? `${text.slice(0, MAX_PROMPT_INPUT_LENGTH)}\n[truncated ${text.length - MAX_PROMPT_INPUT_LENGTH} characters]`
+        : text;
+      return `### ${name}\n${truncated}`;
+    })
+    .join('\n\n');
+}
+
+/**
+ * Replaces `{{inputs.name}}` placeholders in tool arguments, including nested objects and arrays.
+ * Placeholders for unknown inputs are left as they are.
+ */
+export function applyInputsToArgs<T>(args: T, inputs: Record<string, unknown>): T {
+  if (Object.keys(inputs).length === 0) return args;
+
+  const replace = (value: unknown): unknown => {
+    if (typeof value === 'string') {
+      return value.replace(INPUT_PLACEHOLDER, (placeholder, name: string) =>
+        name in inputs ? inputValueToText(inputs[name]) : placeholder
+      );
+    }
+    if (Array.isArray(value)) return value.map(replace);
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, replace(entry)]));
+    }
+    return value;
+  };
+
+  return replace(args) as T;
+}
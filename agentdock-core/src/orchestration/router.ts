@@ -0,0 +1,130 @@
+/**
+ * @fileoverview Classifier-based step routing.
+ *
+ * In router mode a small structured call picks the step that fits the latest
+ * user message, using only the step names and descriptions. Decisions below
+ * the confidence threshold fall back to the default step.
+ */
+
+import { z } from 'zod';
+import type { CoreLLM } from '../llm/core-llm';
+import type { CoreMessage } from '../llm';
+import { LLMMessage } from '../llm/types';
+import { OrchestrationConfig, OrchestrationStep } from '../types/orchestration';
+
+export const DEFAULT_ROUTER_CONFIDENCE_THRESHOLD = 0.6;
+export const DEFAULT_ROUTER_CONTEXT_MESSAGES = 6;
+
+// Keeps the classifier prompt (and the cache key) short
+const MAX_ROUTER_MESSAGE_LENGTH = 1000;
+
+/**
+ * Result of one classifier call
+ */
+export interface RouterClassification {
+  /** Step the classifier picked */
+  step: string;
+
+  /** Confidence between 0 and 1 */
+  confidence: number;
+
+  /** Short explanation */
+  reason?: string;
+
+  /** Tokens the call used */
+  usage?: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+  };
+}
+
+/**
+ * Whether the orchestration picks its steps with a router
+ */
+export function hasRouter(orchestration: OrchestrationConfig | undefined): boolean {
+  return !!orchestration?.router;
+}
+
+/**
+ * Identifies the latest user message, so each message is routed once.
+ * Uses the message ID when there is one, otherwise its position and content.
+ */
+export function getRoutingMessageKey(messages: LLMMessage[]): string | undefined {
+  const userMessages = messages.filter(message => message.role === 'user');
+  const latest = userMessages[userMessages.length - 1];
+  if (!latest) return undefined;
+
+  return latest.id || `${userMessages.length}:${latest.content.slice(0, 200)}`;
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_ROUTER_MESSAGE_LENGTH ? `${text.slice(0, MAX_ROUTER_MESSAGE_LENGTH)}...` : text;
+}
+
+function describeStep(step: OrchestrationStep): string {
+  return `- ${step.name}${step.isDefault ? ' (default)' : ''}: ${step.description || 'No description'}`;
+}
+
+/**
+ * Builds the classifier prompt from the steps and the recent conversation
+ */
+export function createRouterMessages(
+  orchestration: OrchestrationConfig,
+  messages: LLMMessage[],
+  activeStep?: string
+): CoreMessage[] {
+  const router = orchestration.router || {};
+  const recent = messages
+    .filter(message => message.role === 'user' || message.role === 'assistant')
+    .slice(-(router.contextMessages ?? DEFAULT_ROUTER_CONTEXT_MESSAGES));
+
+  const system = [
+    'You route a conversation to the step of an assistant workflow that should handle the latest user message.',
+    'Pick exactly one step by name and rate your confidence between 0 and 1.',
+    'Steps:',
+    ...orchestration.steps.map(describeStep),
+    ...(activeStep ? [`The current step is "${activeStep}".`] : []),
+    ...(router.instructions ? [router.instructions] : [])
+  ].join('\n');
+
+  const conversation = recent.map(message => `${message.role}: ${truncate(message.content)}`).join('\n\n');
+
+  return [
+    { role: 'system', content: system },
+    { role: 'user', content: `Conversation:\n\n${conversation}\n\nWhich step should handle the latest user message?` }
+  ];
+}
+
+/**
+ * Asks the classifier which step should handle the latest user message
+ */
+export async function classifyStep(
+  llm: CoreLLM,
+  orchestration: OrchestrationConfig,
+  messages: LLMMessage[],
+  activeStep?: string
+): Promise<RouterClassification> {
+  const stepNames = orchestration.steps.map(step => step.name) as [string, ...string[]];
+  const schema = z.object({
+    step: z.enum(stepNames).describe('Name of the step'),
+    confidence: z.number().min(0).max(1).describe('Confidence between 0 and 1'),
+    reason: z.string().describe('One short sentence explaining the choice')
+  }).describe('Routing decision');
+
+  const result = await llm.generateObject({
+    messages: createRouterMessages(orchestration, messages, activeStep),
+    schema,
+    temperature: 0
+  });
+  const decision = result.object as z.infer<typeof schema>;
+
+  return {
+    step: decision.step,
+    confidence: decision.confidence,
+    reason: decision.reason,
+    usage: result.usage
+      ? { promptTokens: result.usage.promptTokens, completionTokens: result.usage.completionTokens, totalTokens: result.usage.totalTokens }
+      : undefined
+  };
+}
@@ -1,13 +1,23 @@
 /**
  * @fileoverview Simplified tool sequencing for orchestration steps.
- * 
+ *
  * This file implements logic for managing tool sequences in orchestration steps,
- * ensuring tools are executed in the correct order.
+ * ensuring tools are executed in the correct order. Progress is tracked as a set of
+ * completed entries, so parallel groups, optional entries and repeats can be followed.
+ * Pipeline steps keep a plain position, since their outputs are matched entry by entry.
  */
 
 import { logger, LogCategory } from '../logging';
-import { OrchestrationStep } from '../types/orchestration';
+import { OrchestrationStep, SequenceProgress } from '../types/orchestration';
 import { SessionId } from '../types/session';
+import { evaluateCondition } from './conditions';
+import {
+  SequenceConditionCheck,
+  SequenceFrontier,
+  createSequenceProgress,
+  getSequenceFrontier,
+  recordSequenceCall
+} from './sequences';
 import { OrchestrationStateManager, createOrchestrationStateManager, OrchestrationState } from './state';
 
 /**
@@ -15,83 +25,108 @@ import { OrchestrationStateManager, createOrchestrationStateManager, Orchestrati
  */
 export class StepSequencer {
   private stateManager: OrchestrationStateManager;
-  
+
   /**
    * Creates a new step sequencer
    */
   constructor(stateManager?: OrchestrationStateManager) {
     this.stateManager = stateManager || createOrchestrationStateManager();
   }
-  
+
   /**
-   * Determines if a step has an active sequence
+   * Repeat conditions are checked against the session state. The conversation is not available
+   * here, so message conditions never end a repeat.
    */
-  public async hasActiveSequence(step: OrchestrationStep, sessionId: SessionId): Promise<boolean> {
-    if (!step.sequence?.length) return false;
-    
-    const state = await this.stateManager.getState(sessionId);
-    if (!state) {
-      // Initialize the state if needed
-      await this.stateManager.updateState(sessionId, { sequenceIndex: 0 });
-      return true; // Has an active sequence starting at index 0
-    }
-    
-    // If sequenceIndex is undefined, set it to 0
-    if (state.sequenceIndex === undefined) {
-      await this.stateManager.updateState(sessionId, { sequenceIndex: 0 });
-      return true; // Has an active sequence starting at index 0
-    }
-    
-    // Ensure sequenceIndex is treated as a number
-    const currentSequenceIndex = state.sequenceIndex ?? 0;
-    return currentSequenceIndex < step.sequence.length;
+  private createConditionCheck(step: OrchestrationStep, state: OrchestrationState | null): SequenceConditionCheck {
+    return condition => evaluateCondition(condition, {
+      state: { ...state, recentlyUsedTools: state?.recentlyUsedTools || [] },
+      step
+    });
   }
-  
+
   /**
-   * Gets the current tool in a sequence
+   * Works out the tools the step's sequence allows next
    */
-  public async getCurrentSequenceTool(step: OrchestrationStep, sessionId: SessionId): Promise<string | null> {
+  private async getFrontier(step: OrchestrationStep, sessionId: SessionId): Promise<SequenceFrontier | null> {
     if (!step.sequence?.length) return null;
-    
-    // Ensure we have a state with a valid sequence index
-    if (!(await this.hasActiveSequence(step, sessionId))) {
-      return null;
-    }
-    
+
     const state = await this.stateManager.getState(sessionId);
-    if (!state || state.sequenceIndex === undefined) {
-      logger.warn(
-          LogCategory.ORCHESTRATION, 
-          'StepSequencer', 
-          'State or sequenceIndex unexpectedly missing after hasActiveSequence check', 
-          { sessionId, step: step.name }
-      );
-      // Fallback cautiously: only return first tool if index is truly missing/invalid
-      return step.sequence[0]; 
+
+    if (step.return) {
+      const sequenceIndex = state?.sequenceIndex ?? 0;
+      const entry = step.sequence[sequenceIndex];
+      return {
+        tools: typeof entry === 'string' ? [entry] : [],
+        complete: sequenceIndex >= step.sequence.length
+      };
     }
-    
-    const currentSequenceIndex = state.sequenceIndex ?? 0;
-    return currentSequenceIndex < step.sequence.length ? 
-      step.sequence[currentSequenceIndex] : null;
+
+    return getSequenceFrontier(step.sequence, state?.sequenceProgress, this.createConditionCheck(step, state));
   }
-  
+
   /**
-   * Advances to the next tool in a sequence
+   * Determines if a step has an active sequence
    */
-  public async advanceSequence(step: OrchestrationStep, sessionId: SessionId): Promise<boolean> {
-    if (!step.sequence?.length) return false;
-    
+  public async hasActiveSequence(step: OrchestrationStep, sessionId: SessionId): Promise<boolean> {
+    const frontier = await this.getFrontier(step, sessionId);
+    return !!frontier && !frontier.complete;
+  }
+
+  /**
+   * Gets the tools the sequence allows next, or an empty list once it is complete
+   */
+  public async getNextSequenceTools(step: OrchestrationStep, sessionId: SessionId): Promise<string[]> {
+    const frontier = await this.getFrontier(step, sessionId);
+    return frontier && !frontier.complete ? frontier.tools : [];
+  }
+
+  /**
+   * Gets the current tool in a sequence, the first one when several are allowed
+   */
+  public async getCurrentSequenceTool(step: OrchestrationStep, sessionId: SessionId): Promise<string | null> {
+    const [currentTool] = await this.getNextSequenceTools(step, sessionId);
+    return currentTool ?? null;
+  }
+
+  /**
+   * Records a call to a tool the sequence allows next. The call is matched again against the
+   * stored state when it is written, so parallel calls each see the others' progress.
+   *
+   * @returns Whether the call fit the sequence
+   */
+  public async recordSequenceTool(step: OrchestrationStep, sessionId: SessionId, toolName: string): Promise<boolean> {
+    const sequence = step.sequence;
+    if (!sequence?.length) return false;
+
     const state = await this.stateManager.getState(sessionId);
     if (!state) {
       return false;
     }
-    
-    const currentIndex = state.sequenceIndex === undefined ? 0 : state.sequenceIndex;
-    const nextIndex = currentIndex + 1;
-    
-    // Update the state with the new index
-    await this.stateManager.updateState(sessionId, { sequenceIndex: nextIndex });
-    
+
+    if (step.return) {
+      if (sequence[state.sequenceIndex ?? 0] !== toolName) return false;
+      let recorded = false;
+      await this.stateManager.updateState(sessionId, (current) => {
+        const sequenceIndex = current.sequenceIndex ?? 0;
+        recorded = sequence[sequenceIndex] === toolName;
+        return recorded ? { sequenceIndex: sequenceIndex + 1 } : {};
+      });
+      return recorded;
+    }
+
+    if (!recordSequenceCall(sequence, state.sequenceProgress ?? createSequenceProgress(), toolName, this.createConditionCheck(step, state))) {
+      return false;
+    }
+
+    const outcome: { progress?: SequenceProgress | null; check?: SequenceConditionCheck } = {};
+    await this.stateManager.updateState(sessionId, (current) => {
+      outcome.check = this.createConditionCheck(step, current);
+      outcome.progress = recordSequenceCall(sequence, current.sequenceProgress ?? createSequenceProgress(), toolName, outcome.check);
+      return outcome.progress ? { sequenceProgress: outcome.progress } : {};
+    });
+    const { progress, check } = outcome;
+    if (!progress || !check) return false;
+
     logger.debug(
       LogCategory.ORCHESTRATION,
       'StepSequencer',
@@ -99,33 +134,42 @@ export class StepSequencer {
       {
         sessionId,
         step: step.name,
-        sequenceIndex: nextIndex,
-        nextTool: nextIndex < step.sequence.length ? step.sequence[nextIndex] : 'end'
+        tool: toolName,
+        completed: progress.completed,
+        nextTools: getSequenceFrontier(sequence, progress, check).tools
       }
     );
-    
+
     return true;
   }
-  
+
+  /**
+   * Advances the sequence past the tool it expects next
+   * @deprecated Use recordSequenceTool(), which records the tool that was actually called
+   */
+  public async advanceSequence(step: OrchestrationStep, sessionId: SessionId): Promise<boolean> {
+    const currentTool = await this.getCurrentSequenceTool(step, sessionId);
+    return currentTool !== null && this.recordSequenceTool(step, sessionId, currentTool);
+  }
+
   /**
    * Processes a tool usage in a sequence
    */
   public async processTool(step: OrchestrationStep, sessionId: SessionId, usedTool: string): Promise<boolean> {
     // Track the tool usage asynchronously
     await this.stateManager.addUsedTool(sessionId, usedTool);
-    
+
     // If no sequence, just return success
     if (!step.sequence?.length) return true;
-    
-    // Get current expected tool in the sequence
-    const currentTool = await this.getCurrentSequenceTool(step, sessionId);
-    if (!currentTool) return true; // End of sequence or no sequence
-    
-    // If tool matches sequence, advance asynchronously
-    if (currentTool === usedTool) {
-      return await this.advanceSequence(step, sessionId);
+
+    // Get the tools the sequence expects next
+    const nextTools = await this.getNextSequenceTools(step, sessionId);
+    if (nextTools.length === 0) return true; // End of sequence
+
+    if (await this.recordSequenceTool(step, sessionId, usedTool)) {
+      return true;
     }
-    
+
     // Tool doesn't match expected sequence
     logger.warn(
       LogCategory.ORCHESTRATION,
@@ -134,68 +178,62 @@ export class StepSequencer {
       {
         sessionId,
         step: step.name,
-        expectedTool: currentTool,
+        expectedTools: nextTools,
         actualTool: usedTool
       }
     );
-    
+
     return false;
   }
-  
+
   /**
    * Filters available tools based on sequence
    */
   public async filterToolsBySequence(
-    step: OrchestrationStep, 
-    sessionId: SessionId, 
+    step: OrchestrationStep,
+    sessionId: SessionId,
     allToolIds: string[]
   ): Promise<string[]> {
     // Check if we have a sequence to enforce
     if (!step.sequence?.length) return allToolIds;
-    
-    // Ensure we have a state with a valid sequence index
-    if (!(await this.hasActiveSequence(step, sessionId))) {
-      return allToolIds;
-    }
-    
-    // Get the current tool in the sequence
-    const currentTool = await this.getCurrentSequenceTool(step, sessionId);
-    if (!currentTool) {
-        // Sequence is finished or state issue occurred, allow all tools
-        logger.debug(LogCategory.ORCHESTRATION, 'StepSequencer', 'Sequence finished or no current tool found, allowing all tools', { sessionId, step: step.name });
-        return allToolIds; 
+
+    const nextTools = await this.getNextSequenceTools(step, sessionId);
+    if (nextTools.length === 0) {
+        // Sequence is finished, allow all tools
+        logger.debug(LogCategory.ORCHESTRATION, 'StepSequencer', 'Sequence finished, allowing all tools', { sessionId, step: step.name });
+        return allToolIds;
     }
-    
-    // If current tool is available, only allow that tool
-    if (allToolIds.includes(currentTool)) {
+
+    // Only allow the tools the sequence expects next
+    const allowedTools = allToolIds.filter(toolId => nextTools.includes(toolId));
+    if (allowedTools.length > 0) {
       logger.debug(
         LogCategory.ORCHESTRATION,
         'StepSequencer',
-        'Enforcing sequence - only allowing current tool',
+        'Enforcing sequence - only allowing next tools',
         {
           sessionId,
           step: step.name,
-          currentTool,
+          nextTools,
           allToolsCount: allToolIds.length
         }
       );
-      return [currentTool];
+      return allowedTools;
     }
-    
-    // Current sequence tool is not in the list of currently available tools
+
+    // None of the next sequence tools are in the list of currently available tools
     logger.warn(
       LogCategory.ORCHESTRATION,
       'StepSequencer',
-      'Current sequence tool not available in provided tool list',
+      'Next sequence tools not available in provided tool list',
       {
         sessionId,
         step: step.name,
-        currentTool,
+        nextTools,
         availableTools: allToolIds
       }
     );
-    
-    // Decide behavior: Allow all tools? Allow none? Return empty list might be safest.
+
     return [];
   }
 }
@@ -207,4 +245,4 @@ export function createStepSequencer(
   stateManager?: OrchestrationStateManager
 ): StepSequencer {
   return new StepSequencer(stateManager);
-} 
\ No newline at end of file
+}
@@ -0,0 +1,242 @@
+/**
+ * @fileoverview Sequence grammar for orchestration steps.
+ *
+ * A step's sequence lists tools by name, tools with options (`optional`, `maxCalls`),
+ * parallel groups callable in any order and repeated entries. Progress is kept as a set
+ * of completed entries plus call and round counts, from which the tools that may be
+ * called next are worked out.
+ */
+
+import {
+  OrchestrationCondition,
+  SequenceEntry,
+  SequenceItem,
+  SequenceProgress,
+  SequenceRepeatEntry
+} from '../types/orchestration';
+
+/**
+ * Checks a repeat entry's `until` condition against the session
+ */
+export type SequenceConditionCheck = (condition: OrchestrationCondition) => boolean;
+
+/**
+ * Tools the sequence allows next
+ */
+export interface SequenceFrontier {
+  /** Tools that may be called now, in sequence order */
+  tools: string[];
+
+  /** Whether every required entry has been completed */
+  complete: boolean;
+}
+
+interface Candidate {
+  tool: string;
+  id: string;
+
+  /** Repeat entries the tool belongs to, outermost first */
+  repeats: { id: string; entry: SequenceRepeatEntry }[];
+}
+
+interface EntryStatus {
+  candidates: Candidate[];
+  satisfied: boolean;
+}
+
+const neverMet: SequenceConditionCheck = () => false;
+
+/**
+ * Creates empty progress, for a step that has just been entered
+ */
+export function createSequenceProgress(): SequenceProgress {
+  return { completed: [], calls: {}, rounds: {} };
+}
+
+/**
+ * Name of the tool a sequence item calls
+ */
+export function getSequenceItemTool(item: SequenceItem): string {
+  return typeof item === 'string' ? item : item.tool;
+}
+
+/**
+ * Whether a sequence is a plain list of tool names, as pipeline steps use
+ */
+export function isFlatSequence(sequence: SequenceEntry[]): sequence is string[] {
+  return sequence.every(entry => typeof entry === 'string');
+}
+
+/**
+ * Lists every tool a sequence mentions, once each
+ */
+export function getSequenceTools(sequence: SequenceEntry[]): string[] {
+  const tools = sequence.flatMap(entry => {
+    if (typeof entry === 'string' || 'tool' in entry) return [getSequenceItemTool(entry)];
+    if ('parallel' in entry) return entry.parallel.map(getSequenceItemTool);
+    return getSequenceTools(entry.repeat);
+  });
+  return [...new Set(tools)];
+}
+
+/**
+ * Describes a sequence in one line, e.g. `search → (web_search | arxiv) → think×3`
+ */
+export function describeSequence(sequence: SequenceEntry[]): string {
+  const describeItem = (item: SequenceItem): string => {
+    if (typeof item === 'string') return item;
+    return `${item.tool}${item.maxCalls && item.maxCalls > 1 ? `×${item.maxCalls}` : ''}${item.optional ? '?' : ''}`;
+  };
+
+  return sequence.map(entry => {
+    if (typeof entry === 'string' || 'tool' in entry) return describeItem(entry);
+    if ('parallel' in entry) return `(${entry.parallel.map(describeItem).join(' | ')})${entry.optional ? '?' : ''}`;
+    return `[${describeSequence(entry.repeat)}] repeated up to ${entry.max} times`;
+  }).join(' → ');
+}
+
+function isOptional(entry: SequenceEntry): boolean {
+  if (typeof entry === 'string') return false;
+  if ('repeat' in entry) return entry.min === 0;
+  return !!entry.optional;
+}
+
+function isWithin(key: string, id: string): boolean {
+  return key === id || key.startsWith(`${id}.`);
+}
+
+// Whether any tool in the entry has been called, or any of its rounds completed
+function isStarted(progress: SequenceProgress, id: string): boolean {
+  return Object.keys(progress.calls).some(key => isWithin(key, id)) || Object.keys(progress.rounds).some(key => isWithin(key, id));
+}
+
+function itemStatus(item: SequenceItem, id: string, progress: SequenceProgress): EntryStatus {
+  const maxCalls = typeof item === 'string' ? 1 : item.maxCalls ?? 1;
+  return {
+    candidates: (progress.calls[id] ?? 0) < maxCalls ? [{ tool: getSequenceItemTool(item), id, repeats: [] }] : [],
+    satisfied: progress.completed.includes(id)
+  };
+}
+
+function entryStatus(entry: SequenceEntry, id: string, progress: SequenceProgress, isMet: SequenceConditionCheck): EntryStatus {
+  if (typeof entry === 'string' || 'tool' in entry) {
+    return itemStatus(entry, id, progress);
+  }
+
+  if ('parallel' in entry) {
+    const members = entry.parallel.map((item, index) => ({ item, status: itemStatus(item, `${id}.${index}`, progress) }));
+    return {
+      candidates: members.flatMap(member => member.status.candidates),
+      satisfied: members.every(member => member.status.satisfied || isOptional(member.item))
+    };
+  }
+
+  // A round in progress has to finish before the sequence can move on
+  const rounds = progress.rounds[id] ?? 0;
+  const inRound = Object.keys(progress.calls).some(key => key.startsWith(`${id}.`));
+  const exhausted = rounds >= entry.max;
+  const enoughRounds = !inRound && rounds >= (entry.min ?? 1);
+  const stopped = exhausted || (enoughRounds && !!entry.until && isMet(entry.until));
+  const body = walk(entry.repeat, `${id}.`, progress, isMet);
+
+  return {
+    candidates: stopped ? [] : body.candidates.map(candidate => ({ ...candidate, repeats: [{ id, entry }, ...candidate.repeats] })),
+    satisfied: stopped || (enoughRounds && !entry.until)
+  };
+}
+
+/**
+ * Collects the tools callable next. Entries before the latest one called are closed;
+ * from there on, entries are open until the first required entry that is not yet satisfied.
+ */
+function walk(
+  entries: SequenceEntry[],
+  prefix: string,
+  progress: SequenceProgress,
+  isMet: SequenceConditionCheck
+): { candidates: Candidate[]; complete: boolean } {
+  let start = 0;
+  entries.forEach((_, index) => {
+    if (isStarted(progress, `${prefix}${index}`)) start = index;
+  });
+
+  const candidates: Candidate[] = [];
+  for (let index = start; index < entries.length; index++) {
+    const status = entryStatus(entries[index], `${prefix}${index}`, progress, isMet);
+    candidates.push(...status.candidates);
+    if (!status.satisfied && !isOptional(entries[index])) {
+      return { candidates, complete: false };
+    }
+  }
+  return { candidates, complete: true };
+}
+
+/**
+ * Works out which tools the sequence allows next
+ */
+export function getSequenceFrontier(
+  sequence: SequenceEntry[],
+  progress: SequenceProgress = createSequenceProgress(),
+  isMet: SequenceConditionCheck = neverMet
+): SequenceFrontier {
+  const { candidates, complete } = walk(sequence, '', progress, isMet);
+  return { tools: [...new Set(candidates.map(candidate => candidate.tool))], complete };
+}
+
+/**
+ * Records a call against the first open entry for the tool. A repeat round ends once its
+ * required entries are done, which clears the round's entries for the next one.
+ *
+ * @returns The updated progress, or null when the sequence does not allow the tool now
+ */
+export function recordSequenceCall(
+  sequence: SequenceEntry[],
+  progress: SequenceProgress,
+  tool: string,
+  isMet: SequenceConditionCheck = neverMet
+): SequenceProgress | null {
+  const candidate = walk(sequence, '', progress, isMet).candidates.find(c => c.tool === tool);
+  if (!candidate) return null;
+
+  let next: SequenceProgress = {
+    completed: progress.completed.includes(candidate.id) ? progress.completed : [...progress.completed, candidate.id],
+    calls: { ...progress.calls, [candidate.id]: (progress.calls[candidate.id] ?? 0) + 1 },
+    rounds: progress.rounds
+  };
+
+  // Innermost repeat first, so a finished inner round can finish the outer one too
+  for (const { id, entry } of [...candidate.repeats].reverse()) {
+    if (!walk(entry.repeat, `${id}.`, next, isMet).complete) break;
+
+    const inRound = (key: string) => key.startsWith(`${id}.`);
+    next = {
+      completed: next.completed.filter(key => !inRound(key)),
+      calls: Object.fromEntries(Object.entries(next.calls).filter(([key]) => !inRound(key))),
+      rounds: {
+        ...Object.fromEntries(Object.entries(next.rounds).filter(([key]) => !inRound(key))),
+        [id]: (next.rounds[id] ?? 0) + 1
+      }
+    };
+  }
+
+  return next;
+}
+
+/**
+ * Whether the latest tools in a history, oldest first, make up one complete run of the sequence
+ */
+export function matchesSequenceTail(
+  sequence: SequenceEntry[],
+  history: string[],
+  isMet: SequenceConditionCheck = neverMet
+): boolean {
+  for (let start = history.length - 1; start >= 0; start--) {
+    let progress: SequenceProgress | null = createSequenceProgress();
+    for (const tool of history.slice(start)) {
+      progress = recordSequenceCall(sequence, progress, tool, isMet);
+      if (!progress) break;
+    }
+    if (progress && getSequenceFrontier(sequence, progress, isMet).complete) return true;
+  }
+  return false;
+}
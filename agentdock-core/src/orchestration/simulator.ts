@@ -0,0 +1,333 @@
+/**
+ * @fileoverview Dry runs of an orchestration config for template authors.
+ *
+ * A simulation replays a scripted conversation (user messages, tool calls, model text)
+ * through an `OrchestrationManager` backed by a throwaway memory store, and reports
+ * what the model would have been given on each turn: the active step, the tools it
+ * could call, the sequence position and the orchestration context added to the prompt.
+ * Turns can carry expectations, so a script doubles as a regression test.
+ */
+
+import { z } from 'zod';
+import type { CoreLLM } from '../llm/core-llm';
+import { LLMMessage } from '../llm/types';
+import { MemoryStorageProvider } from '../storage/providers/memory-provider';
+import {
+  OrchestrationConfig,
+  OrchestrationFlagValue,
+  SequenceProgress,
+  ToolCallViolation
+} from '../types/orchestration';
+import { formatDynamicState } from '../utils/prompt-utils';
+import { createToolViolationResult } from './enforcement';
+import { OrchestrationManager } from './index';
+import { isModelStage } from './pipeline';
+import { getSequenceTools } from './sequences';
+
+/**
+ * A scripted tool call, with the result the tool returns
+ */
+export interface SimulationToolCall {
+  tool: string;
+  result?: unknown;
+}
+
+/**
+ * What a turn should produce. Every field is optional; only the ones given are checked.
+ */
+export interface SimulationExpectation {
+  /** Step active while the model writes its response */
+  activeStep?: string;
+
+  /** Tools offered to the model, in any order */
+  allowedTools?: string[];
+
+  /** Pipeline sequence position while the model writes its response */
+  sequenceIndex?: number;
+
+  /** Step active once the turn is over, or null when no step should be */
+  endStep?: string | null;
+
+  /** Tools whose calls should break the step's rules; an empty list means none */
+  violations?: string[];
+
+  /** Text the orchestration context should contain */
+  promptIncludes?: string[];
+}
+
+/**
+ * One turn of a simulation script
+ */
+export interface SimulationTurn {
+  /** User message that starts the turn */
+  user?: string;
+
+  /** Text the model writes */
+  assistant?: string;
+
+  /** Tools the model calls, in order */
+  toolCalls?: (string | SimulationToolCall)[];
+
+  /** Flags to set before the turn, for `state_flag` conditions; null clears a flag */
+  flags?: Record<string, OrchestrationFlagValue | null>;
+
+  /** Step the router picks for this turn's message, for orchestrations with a router */
+  route?: string | { step: string; confidence?: number };
+
+  /** Checks to run once the turn is over */
+  expect?: SimulationExpectation;
+}
+
+/**
+ * A scripted conversation to replay through an orchestration
+ */
+export interface SimulationScript {
+  name?: string;
+  description?: string;
+
+  /** Tools the agent has. Defaults to the tools the orchestration names. */
+  tools?: string[];
+
+  turns: SimulationTurn[];
+}
+
+/**
+ * Outcome of one scripted tool call
+ */
+export interface SimulatedToolCall {
+  tool: string;
+
+  /** Whether the tool ran; false only for calls rejected in strict mode */
+  allowed: boolean;
+
+  /** Rule the call broke, if any */
+  violation?: ToolCallViolation;
+}
+
+/**
+ * What the model was given on one turn, and what happened during it
+ */
+export interface SimulatedTurn {
+  index: number;
+  activeStep?: string;
+  allowedTools: string[];
+  sequenceIndex: number;
+  sequenceProgress?: SequenceProgress;
+
+  /** Orchestration context appended to the system prompt */
+  prompt: string;
+
+  toolCalls: SimulatedToolCall[];
+
+  /** Step active once the turn is over */
+  endStep?: string;
+
+  /** Expectations the turn did not meet */
+  failures: string[];
+}
+
+/**
+ * Result of a simulation
+ */
+export interface SimulationResult {
+  name?: string;
+
+  /** Whether every turn met its expectations */
+  passed: boolean;
+
+  turns: SimulatedTurn[];
+}
+
+/**
+ * Options for a simulation
+ */
+export interface SimulationOptions {
+  /** Tools the agent has when the script does not list them */
+  tools?: string[];
+}
+
+const SimulationExpectationSchema = z.object({
+  activeStep: z.string().optional(),
+  allowedTools: z.array(z.string()).optional(),
+  sequenceIndex: z.number().int().min(0).optional(),
+  endStep: z.string().nullable().optional(),
+  violations: z.array(z.string()).optional(),
+  promptIncludes: z.array(z.string()).optional()
+});
+
+export const SimulationTurnSchema = z.object({
+  user: z.string().optional(),
+  assistant: z.string().optional(),
+  toolCalls: z.array(z.union([
+    z.string(),
+    z.object({ tool: z.string(), result: z.unknown().optional() })
+  ])).optional(),
+  flags: z.record(z.union([z.string(), z.number(), z.boolean(), z.null()])).optional(),
+  route: z.union([
+    z.string(),
+    z.object({ step: z.string(), confidence: z.number().min(0).max(1).optional() })
+  ]).optional(),
+  expect: SimulationExpectationSchema.optional()
+});
+
+export const SimulationScriptSchema = z.object({
+  name: z.string().optional(),
+  description: z.string().optional(),
+  tools: z.array(z.string()).optional(),
+  turns: z.array(SimulationTurnSchema).min(1, 'A simulation needs at least one turn')
+});
+
+/**
+ * Lists the tools an orchestration names in its sequences and tool lists
+ */
+function getOrchestrationTools(orchestration: OrchestrationConfig): string[] {
+  const tools = orchestration.steps.flatMap(step => [
+    ...getSequenceTools(step.sequence || []),
+    ...(step.availableTools?.allowed || []),
+    ...(step.availableTools?.denied || [])
+  ]);
+  return [...new Set(tools)].filter(tool => !isModelStage(tool));
+}
+
+/**
+ * Stands in for the router model, answering with the step the script names
+ */
+function createScriptedRouter(route: NonNullable<SimulationTurn['route']>): CoreLLM {
+  const { step, confidence = 1 } = typeof route === 'string' ? { step: route } : route;
+  return {
+    generateObject: async () => ({ object: { step, confidence, reason: 'Scripted route' } })
+  } as unknown as CoreLLM;
+}
+
+function sameTools(actual: string[], expected: string[]): boolean {
+  return actual.length === expected.length && expected.every(tool => actual.includes(tool));
+}
+
+function checkExpectation(turn: SimulatedTurn, expect: SimulationExpectation | undefined): string[] {
+  if (!expect) return [];
+  const failures: string[] = [];
+
+  if (expect.activeStep !== undefined && turn.activeStep !== expect.activeStep) {
+    failures.push(`Expected active step "${expect.activeStep}", got "${turn.activeStep ?? 'none'}"`);
+  }
+  if (expect.allowedTools && !sameTools(turn.allowedTools, expect.allowedTools)) {
+    failures.push(`Expected allowed tools [${expect.allowedTools.join(', ')}], got [${turn.allowedTools.join(', ')}]`);
+  }
+  if (expect.sequenceIndex !== undefined && turn.sequenceIndex !== expect.sequenceIndex) {
+    failures.push(`Expected sequence index ${expect.sequenceIndex}, got ${turn.sequenceIndex}`);
+  }
+  if (expect.endStep !== undefined && (turn.endStep ?? null) !== expect.endStep) {
+    failures.push(`Expected step "${expect.endStep ?? 'none'}" after the turn, got "${turn.endStep ?? 'none'}"`);
+  }
+  if (expect.violations) {
+    const violations = turn.toolCalls.filter(call => call.violation).map(call => call.tool);
+    if (!sameTools(violations, expect.violations)) {
+      failures.push(`Expected violations for [${expect.violations.join(', ')}], got [${violations.join(', ')}]`);
+    }
+  }
+  for (const text of expect.promptIncludes || []) {
+    if (!turn.prompt.includes(text)) {
+      failures.push(`Expected the orchestration context to include "${text}"`);
+    }
+  }
+
+  return failures;
+}
+
+/**
+ * Replays a scripted conversation through an orchestration, turn by turn.
+ *
+ * Each turn sets its flags and adds its user message, then works out the active step,
+ * the allowed tools and the prompt context as the chat route would. Tool calls go through
+ * the same enforcement as live tools, and the model text and tool results are recorded
+ * as one generation step.
+ */
+export async function simulateOrchestration(
+  orchestration: OrchestrationConfig,
+  script: SimulationScript,
+  options: SimulationOptions = {}
+): Promise<SimulationResult> {
+  const tools = script.tools ?? options.tools ?? getOrchestrationTools(orchestration);
+  const storageProvider = new MemoryStorageProvider({ namespace: 'orchestration-simulation' });
+  const manager = new OrchestrationManager({ storageProvider });
+  const sessionId = `simulation_${Date.now()}_${Math.random().toString(36).substring(2, 10)}`;
+  const messages: LLMMessage[] = [];
+  const turns: SimulatedTurn[] = [];
+
+  try {
+    await manager.ensureStateExists(sessionId);
+
+    for (const [index, scripted] of script.turns.entries()) {
+      for (const [flag, value] of Object.entries(scripted.flags || {})) {
+        await manager.setFlag(sessionId, flag, value ?? undefined);
+      }
+      if (scripted.user !== undefined) {
+        messages.push({ id: `turn-${index}`, role: 'user', content: scripted.user });
+      }
+
+      const routerLLM = scripted.route ? createScriptedRouter(scripted.route) : undefined;
+      const allowedTools = await manager.getAllowedTools(orchestration, messages, sessionId, tools, routerLLM);
+      const stepInputs = await manager.getStepInputs(orchestration, sessionId);
+      const state = await manager.getStateManager().getState(sessionId);
+      const prompt = formatDynamicState({
+        activeStepName: state?.activeStep,
+        recentlyUsedTools: state?.recentlyUsedTools?.length ? state.recentlyUsedTools : undefined,
+        stepInputs: Object.keys(stepInputs).length > 0 ? stepInputs : undefined
+      });
+
+      const turn: SimulatedTurn = {
+        index,
+        activeStep: state?.activeStep,
+        allowedTools,
+        sequenceIndex: state?.sequenceIndex ?? 0,
+        sequenceProgress: state?.sequenceProgress,
+        prompt,
+        toolCalls: [],
+        failures: []
+      };
+
+      // Each call is checked and recorded the way enforced tools are when they run
+      const toolResults: { toolName: string; result: unknown }[] = [];
+      for (const call of scripted.toolCalls || []) {
+        const { tool, result } = typeof call === 'string' ? { tool: call, result: undefined } : call;
+        const { allowed, violation } = await manager.authorizeToolCall(orchestration, sessionId, tool);
+        if (allowed) {
+          await manager.recordToolCall(orchestration, sessionId, tool);
+        }
+        turn.toolCalls.push({ tool, allowed, ...(violation && { violation }) });
+        toolResults.push({
+          toolName: tool,
+          result: !allowed && violation ? createToolViolationResult(violation) : result ?? `${tool} result`
+        });
+      }
+
+      // Track called tools and record the generation step, as the orchestration service does
+      if (toolResults.length > 0) {
+        const recentlyUsedTools = (await manager.getState(sessionId))?.recentlyUsedTools || [];
+        const newTools = toolResults.map(({ toolName }) => toolName).filter(tool => !recentlyUsedTools.includes(tool));
+        if (newTools.length > 0) {
+          await manager.updateState(sessionId, { recentlyUsedTools: [...recentlyUsedTools, ...new Set(newTools)] });
+        }
+      }
+      if (scripted.assistant !== undefined || toolResults.length > 0) {
+        await manager.recordStepOutput(orchestration, sessionId, { text: scripted.assistant, toolResults });
+      }
+      if (scripted.assistant !== undefined) {
+        messages.push({ id: `turn-${index}-reply`, role: 'assistant', content: scripted.assistant });
+      }
+
+      turn.endStep = (await manager.getStateManager().getState(sessionId))?.activeStep;
+      turn.failures = checkExpectation(turn, scripted.expect);
+      turns.push(turn);
+    }
+  } finally {
+    manager.destroy();
+    await storageProvider.destroy();
+  }
+
+  return {
+    ...(script.name && { name: script.name }),
+    passed: turns.every(turn => turn.failures.length === 0),
+    turns
+  };
+}
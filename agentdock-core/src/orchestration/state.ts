@@ -8,7 +8,12 @@
 import { logger, LogCategory } from '../logging';
 import { 
   AIOrchestrationState,
-  OrchestrationConfig
+  OrchestrationConfig,
+  OrchestrationFlagValue,
+  RoutingDecision,
+  SequenceProgress,
+  ToolCallViolation,
+  TrackedJob
 } from '../types/orchestration';
 import { SessionId, SessionState } from '../types/session';
 import { SessionManager } from '../session';
@@ -27,6 +32,9 @@ export interface OrchestrationState extends SessionState, AIOrchestrationState {
   
   /** Current position in tool sequence, if applicable */
   sequenceIndex?: number;
+
+  /** Progress through the active step's sequence; pipeline steps use `sequenceIndex` instead */
+  sequenceProgress?: SequenceProgress;
   
   /** When this state was last accessed (timestamp) */
   lastAccessed: number;
@@ -39,7 +47,55 @@ export interface OrchestrationState extends SessionState, AIOrchestrationState {
     promptTokens: number;
     completionTokens: number;
     totalTokens: number;
+    /** Tokens of responses answered from the LLM cache */
+    cachedTokens?: number;
   };
+
+  /** Long-running jobs started by tools in this session, oldest first */
+  trackedJobs?: TrackedJob[];
+
+  /** Outputs of completed pipeline steps, keyed by the step's return name */
+  stepOutputs?: Record<string, unknown>;
+
+  /** How many times each step has been entered, keyed by step name */
+  stepVisits?: Record<string, number>;
+
+  /** Latest result of each tool as text, for `tool_result_matches` conditions */
+  lastToolResults?: Record<string, string>;
+
+  /** Flags set by the application, for `state_flag` conditions */
+  flags?: Record<string, OrchestrationFlagValue>;
+
+  /** Latest router decision, so each user message is classified once */
+  routingDecision?: RoutingDecision;
+
+  /** Tool calls that broke the active step's rules, oldest first */
+  toolViolations?: ToolCallViolation[];
+}
+
+/**
+ * Changes to apply to the orchestration state. The function form computes them from the
+ * current state and may run more than once when concurrent updates conflict, so changes
+ * based on earlier values (appending, adding up) are not lost.
+ */
+export type OrchestrationStateUpdate =
+  | Partial<Omit<OrchestrationState, 'sessionId'>>
+  | ((currentState: OrchestrationState) => Partial<Omit<OrchestrationState, 'sessionId'>>);
+
+/**
+ * Orchestration state saved when a user message arrives, so the session can go back to it
+ */
+export interface OrchestrationStateSnapshot {
+  /** Message the snapshot was taken for; the state is as it was before the message was handled */
+  messageId: string;
+  
+  /** Increases with each snapshot taken in the session */
+  version: number;
+  
+  /** When the snapshot was taken (timestamp) */
+  createdAt: number;
+  
+  state: OrchestrationState;
 }
 
 /**
@@ -76,6 +132,10 @@ export interface OrchestrationStateManagerOptions {
  */
 const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours (changed from 30 minutes)
 const DEFAULT_CLEANUP_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
+const MAX_TRACKED_JOBS = 20;
+const MAX_TOOL_VIOLATIONS = 20;
+const MAX_STATE_SNAPSHOTS = 50;
+const MAX_SNAPSHOT_UPDATE_ATTEMPTS = 10;
 
 /**
  * Creates a default state object
@@ -101,6 +161,7 @@ function createDefaultState(sessionId: SessionId, ttl: number = DEFAULT_TTL_MS):
 export class OrchestrationStateManager {
   private static instance: OrchestrationStateManager | null = null;
   private sessionManager: SessionManager<OrchestrationState>;
+  private storage: StorageProvider;
   private cleanupInterval: NodeJS.Timeout | null = null;
   private cleanupOptions: CleanupOptions;
   private storageNamespace: string;
@@ -125,6 +186,7 @@ export class OrchestrationStateManager {
         type: 'memory', // Default, can be configured
         namespace: this.storageNamespace
     });
+    this.storage = storageProvider;
 
     // Create session manager with state factory function and storage
     const stateFactory = (sessionId: SessionId) => 
@@ -215,6 +277,14 @@ export class OrchestrationStateManager {
     }
   }
   
+  /**
+   * Stops all timers, so a short-lived state manager can be dropped
+   */
+  public destroy(): void {
+    this.stopCleanupTimer();
+    this.sessionManager.destroy();
+  }
+  
   /**
    * Removes expired states (Requires provider support or specific implementation)
    * @returns Number of states removed (estimation, as actual removal is async)
@@ -240,6 +310,7 @@ export class OrchestrationStateManager {
   public async cleanupSession(sessionId: SessionId): Promise<void> {
     try {
       await this.sessionManager.deleteSession(sessionId);
+      await this.storage.delete(this.getSnapshotKey(sessionId));
       logger.debug(
         LogCategory.ORCHESTRATION,
         'OrchestrationStateManager',
@@ -324,10 +395,11 @@ export class OrchestrationStateManager {
    */
   public async updateState(
     sessionId: SessionId,
-    updates: Partial<Omit<OrchestrationState, 'sessionId'>>
+    updates: OrchestrationStateUpdate
   ): Promise<OrchestrationState | null> {
     const updateFn = (currentState: OrchestrationState): OrchestrationState => {
-        const newUpdates = { ...updates, lastAccessed: Date.now() };
+        const changes = typeof updates === 'function' ? updates(currentState) : updates;
+        const newUpdates = { ...changes, lastAccessed: Date.now() };
         return { ...currentState, ...newUpdates };
     };
     
@@ -392,12 +464,12 @@ export class OrchestrationStateManager {
     const state = await this.getState(sessionId);
     if (!state) return null;
     
-    const updatedTools = [
-      toolName, 
-      ...(state.recentlyUsedTools || []).filter(t => t !== toolName)
-    ].slice(0, 10);
-    
-    return this.updateState(sessionId, { recentlyUsedTools: updatedTools });
+    return this.updateState(sessionId, (currentState) => ({
+      recentlyUsedTools: [
+        toolName, 
+        ...(currentState.recentlyUsedTools || []).filter(t => t !== toolName)
+      ].slice(0, 10)
+    }));
   }
   
   /**
@@ -409,8 +481,271 @@ export class OrchestrationStateManager {
     const state = await this.getState(sessionId);
     if (!state) return null;
     
-    const newIndex = (state.sequenceIndex ?? -1) + 1;
-    return this.updateState(sessionId, { sequenceIndex: newIndex });
+    return this.updateState(sessionId, (currentState) => ({
+      sequenceIndex: (currentState.sequenceIndex ?? -1) + 1
+    }));
+  }
+  
+  /**
+   * Records a long-running job started by a tool, replacing any entry with the same ID.
+   * Only the most recent jobs are kept.
+   */
+  public async trackJob(
+    sessionId: SessionId,
+    job: Omit<TrackedJob, 'createdAt' | 'updatedAt'>
+  ): Promise<OrchestrationState | null> {
+    if (!(await this.getOrCreateState(sessionId))) return null;
+
+    const result = await this.sessionManager.updateSession(sessionId, (currentState) => {
+      const now = Date.now();
+      const jobs = currentState.trackedJobs || [];
+      const existing = jobs.find(entry => entry.id === job.id);
+      const updated: TrackedJob = { ...existing, ...job, createdAt: existing?.createdAt ?? now, updatedAt: now };
+
+      return {
+        ...currentState,
+        trackedJobs: [...jobs.filter(entry => entry.id !== job.id), updated].slice(-MAX_TRACKED_JOBS),
+        lastAccessed: now
+      };
+    });
+
+    return result.success && result.data ? result.data : null;
+  }
+
+  /**
+   * Gets the jobs tracked for a session, most recent first
+   */
+  public async getTrackedJobs(sessionId: SessionId, tools?: string[]): Promise<TrackedJob[]> {
+    const state = await this.getState(sessionId);
+    const jobs = state?.trackedJobs || [];
+
+    return jobs
+      .filter(job => !tools || tools.includes(job.tool))
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+  
+  /**
+   * Records a tool call that broke the active step's rules. Only the most recent violations are kept.
+   */
+  public async recordToolViolation(
+    sessionId: SessionId,
+    violation: ToolCallViolation
+  ): Promise<OrchestrationState | null> {
+    if (!(await this.getOrCreateState(sessionId))) return null;
+
+    const result = await this.sessionManager.updateSession(sessionId, (currentState) => ({
+      ...currentState,
+      toolViolations: [...(currentState.toolViolations || []), violation].slice(-MAX_TOOL_VIOLATIONS),
+      lastAccessed: Date.now()
+    }));
+
+    return result.success && result.data ? result.data : null;
+  }
+  
+  /**
+   * Sets a flag for `state_flag` conditions, or clears it when the value is undefined
+   */
+  public async setFlag(
+    sessionId: SessionId,
+    flag: string,
+    value: OrchestrationFlagValue | undefined
+  ): Promise<OrchestrationState | null> {
+    if (!(await this.getOrCreateState(sessionId))) return null;
+
+    const result = await this.sessionManager.updateSession(sessionId, (currentState) => {
+      const flags = { ...currentState.flags };
+      if (value === undefined) {
+        delete flags[flag];
+      } else {
+        flags[flag] = value;
+      }
+      return { ...currentState, flags, lastAccessed: Date.now() };
+    });
+
+    return result.success && result.data ? result.data : null;
+  }
+  
+  /**
+   * Storage key of a session's snapshots, kept apart from the state so state reads stay small
+   */
+  private getSnapshotKey(sessionId: SessionId): string {
+    return `${this.storageNamespace}-snapshots:${sessionId}`;
+  }
+  
+  private async saveSnapshots(sessionId: SessionId, snapshots: OrchestrationStateSnapshot[]): Promise<void> {
+    if (snapshots.length === 0) {
+      await this.storage.delete(this.getSnapshotKey(sessionId));
+      return;
+    }
+    const ttlMs = this.cleanupOptions.ttlMs ?? DEFAULT_TTL_MS;
+    await this.storage.set(this.getSnapshotKey(sessionId), snapshots, {
+      ttlSeconds: ttlMs > 0 ? Math.floor(ttlMs / 1000) : undefined
+    });
+  }
+  
+  /**
+   * Rewrites a session's snapshots. With a provider that supports compare-and-set, the write only
+   * succeeds if the snapshots have not changed since they were read; otherwise `updateFn` is
+   * called again with the stored ones.
+   * 
+   * @param updateFn Returns the new snapshots, or undefined to leave them as they are
+   * @returns Whether the snapshots were written or left unchanged
+   */
+  private async updateSnapshots(
+    sessionId: SessionId,
+    updateFn: (snapshots: OrchestrationStateSnapshot[]) => OrchestrationStateSnapshot[] | undefined
+  ): Promise<boolean> {
+    const key = this.getSnapshotKey(sessionId);
+    const ttlMs = this.cleanupOptions.ttlMs ?? DEFAULT_TTL_MS;
+    const options = { ttlSeconds: ttlMs > 0 ? Math.floor(ttlMs / 1000) : undefined };
+    
+    for (let attempt = 1; attempt <= MAX_SNAPSHOT_UPDATE_ATTEMPTS; attempt++) {
+      const stored = await this.storage.get<OrchestrationStateSnapshot[]>(key);
+      const updated = updateFn(stored || []);
+      if (!updated) return true;
+      
+      if (!this.storage.compareAndSet) {
+        await this.saveSnapshots(sessionId, updated);
+        return true;
+      }
+      if (await this.storage.compareAndSet(key, stored, updated, options)) return true;
+    }
+    
+    logger.warn(LogCategory.ORCHESTRATION, 'OrchestrationStateManager', 'Snapshots kept changing; gave up saving them', {
+      sessionId,
+      attempts: MAX_SNAPSHOT_UPDATE_ATTEMPTS
+    });
+    return false;
+  }
+  
+  /**
+   * Gets the snapshots taken in a session, oldest first
+   */
+  public async getSnapshots(sessionId: SessionId): Promise<OrchestrationStateSnapshot[]> {
+    return (await this.storage.get<OrchestrationStateSnapshot[]>(this.getSnapshotKey(sessionId))) || [];
+  }
+  
+  /**
+   * Saves the current state as the snapshot for a user message, before the message is handled.
+   * A message keeps its first snapshot, so retries of the same message do not overwrite it.
+   * Only the most recent snapshots are kept.
+   */
+  public async snapshotState(sessionId: SessionId, messageId: string): Promise<OrchestrationStateSnapshot | null> {
+    const state = await this.getOrCreateState(sessionId);
+    if (!state) return null;
+    
+    // Worked out from the stored snapshots on each attempt, so parallel messages each get a version
+    const outcome: { snapshot?: OrchestrationStateSnapshot; created?: boolean } = {};
+    const saved = await this.updateSnapshots(sessionId, (snapshots) => {
+      const existing = snapshots.find(entry => entry.messageId === messageId);
+      if (existing) {
+        outcome.snapshot = existing;
+        outcome.created = false;
+        return undefined;
+      }
+      
+      outcome.snapshot = {
+        messageId,
+        version: (snapshots[snapshots.length - 1]?.version ?? 0) + 1,
+        createdAt: Date.now(),
+        state: JSON.parse(JSON.stringify(state))
+      };
+      outcome.created = true;
+      return [...snapshots, outcome.snapshot].slice(-MAX_STATE_SNAPSHOTS);
+    });
+    const { snapshot, created } = outcome;
+    if (!saved || !snapshot) return null;
+    if (!created) return snapshot;
+    
+    logger.debug(LogCategory.ORCHESTRATION, 'OrchestrationStateManager', 'Saved state snapshot', {
+      sessionId,
+      messageId,
+      version: snapshot.version
+    });
+    return snapshot;
+  }
+  
+  /**
+   * Restores the state saved for a message and drops the snapshots from that message on,
+   * since those messages are being replaced. Token usage is kept, as those tokens were spent.
+   * 
+   * @returns The restored state, or null when the session has no snapshot for the message
+   */
+  public async rewindTo(sessionId: SessionId, messageId: string): Promise<OrchestrationState | null> {
+    const snapshots = await this.getSnapshots(sessionId);
+    const snapshot = snapshots.find(entry => entry.messageId === messageId);
+    if (!snapshot) {
+      logger.warn(LogCategory.ORCHESTRATION, 'OrchestrationStateManager', 'No snapshot to rewind to', { sessionId, messageId });
+      return null;
+    }
+    
+    if (!(await this.getOrCreateState(sessionId))) return null;
+    
+    const result = await this.sessionManager.updateSession(sessionId, (currentState) => ({
+      ...snapshot.state,
+      sessionId,
+      cumulativeTokenUsage: currentState.cumulativeTokenUsage,
+      lastAccessed: Date.now()
+    }));
+    if (!result.success || !result.data) return null;
+    
+    await this.updateSnapshots(sessionId, (stored) => stored.filter(entry => entry.version < snapshot.version));
+    
+    logger.info(LogCategory.ORCHESTRATION, 'OrchestrationStateManager', 'Rewound state', {
+      sessionId,
+      messageId,
+      version: snapshot.version,
+      activeStep: result.data.activeStep
+    });
+    return result.data;
+  }
+  
+  /**
+   * Copies the state saved for a message into a new session, along with the snapshots before it,
+   * so the conversation can branch without changing the original session
+   * 
+   * @param newSessionId ID for the new session; generated when not given
+   * @returns The new session's state, or null when there is no snapshot for the message or the new ID is taken
+   */
+  public async forkSession(
+    sessionId: SessionId,
+    messageId: string,
+    newSessionId?: SessionId
+  ): Promise<OrchestrationState | null> {
+    const snapshots = await this.getSnapshots(sessionId);
+    const snapshot = snapshots.find(entry => entry.messageId === messageId);
+    if (!snapshot) {
+      logger.warn(LogCategory.ORCHESTRATION, 'OrchestrationStateManager', 'No snapshot to fork from', { sessionId, messageId });
+      return null;
+    }
+    
+    const forkId = newSessionId || `session_${Date.now()}_${Math.random().toString(36).substring(2, 10)}`;
+    if (await this.getState(forkId)) {
+      logger.warn(LogCategory.ORCHESTRATION, 'OrchestrationStateManager', 'Fork target session already exists', { sessionId, forkId });
+      return null;
+    }
+    
+    const created = await this.sessionManager.createSession({ sessionId: forkId });
+    if (!created.success) return null;
+    
+    const result = await this.sessionManager.updateSession(forkId, () => ({
+      ...JSON.parse(JSON.stringify(snapshot.state)),
+      sessionId: forkId,
+      lastAccessed: Date.now()
+    }));
+    if (!result.success || !result.data) return null;
+    
+    await this.saveSnapshots(forkId, snapshots
+      .filter(entry => entry.version < snapshot.version)
+      .map(entry => ({ ...entry, state: { ...entry.state, sessionId: forkId } })));
+    
+    logger.info(LogCategory.ORCHESTRATION, 'OrchestrationStateManager', 'Forked session', {
+      sessionId,
+      forkId,
+      messageId,
+      version: snapshot.version
+    });
+    return result.data;
   }
   
   /**
@@ -441,7 +776,8 @@ export class OrchestrationStateManager {
       recentlyUsedTools: state.recentlyUsedTools || [],
       activeStep: state.activeStep,
       sequenceIndex: state.sequenceIndex,
-      cumulativeTokenUsage: state.cumulativeTokenUsage // Make sure this is included
+      cumulativeTokenUsage: state.cumulativeTokenUsage, // Make sure this is included
+      transitionHistory: state.transitionHistory
     };
   }
 }
@@ -0,0 +1,66 @@
+/**
+ * @fileoverview Explicit transitions between orchestration steps.
+ *
+ * When an orchestration declares `transitions`, the active step only changes
+ * along them: the transitions leaving the active step are tried by priority,
+ * and the first one whose guard holds is taken.
+ */
+
+import {
+  OrchestrationCondition,
+  OrchestrationConfig,
+  OrchestrationStep,
+  OrchestrationTransition,
+  TransitionRecord
+} from '../types/orchestration';
+
+// Oldest entries are dropped beyond this, keeping the session state small
+export const MAX_TRANSITION_HISTORY = 50;
+
+/**
+ * Whether the orchestration uses a transitions graph
+ */
+export function hasTransitions(orchestration: OrchestrationConfig | undefined): boolean {
+  return !!orchestration?.transitions?.length;
+}
+
+/**
+ * Gets the transitions leaving a step, highest priority first
+ */
+export function getOutgoingTransitions(orchestration: OrchestrationConfig, stepName: string): OrchestrationTransition[] {
+  return (orchestration.transitions || [])
+    .filter(transition => transition.from === stepName)
+    .map((transition, index) => ({ transition, index }))
+    .sort((a, b) => (b.transition.priority ?? 0) - (a.transition.priority ?? 0) || a.index - b.index)
+    .map(({ transition }) => transition);
+}
+
+/**
+ * Picks the transition to take from a step.
+ * A transition without a guard uses the target step's conditions, and is always taken when it has none.
+ * 
+ * @param isMet Evaluates a condition belonging to the target step
+ */
+export function selectTransition(
+  orchestration: OrchestrationConfig,
+  step: OrchestrationStep,
+  isMet: (condition: OrchestrationCondition, target: OrchestrationStep) => boolean
+): { transition: OrchestrationTransition; target: OrchestrationStep } | undefined {
+  for (const transition of getOutgoingTransitions(orchestration, step.name)) {
+    const target = orchestration.steps.find(s => s.name === transition.to);
+    if (!target) continue;
+
+    const conditions = transition.guard ? [transition.guard] : target.conditions || [];
+    if (conditions.every(condition => isMet(condition, target))) {
+      return { transition, target };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Appends a step change to the history, keeping the most recent entries
+ */
+export function appendTransition(history: TransitionRecord[] | undefined, record: TransitionRecord): TransitionRecord[] {
+  return [...(history || []), record].slice(-MAX_TRANSITION_HISTORY);
+}
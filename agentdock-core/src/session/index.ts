@@ -24,8 +24,15 @@ interface StoredSessionData<T extends SessionState> {
     state: T;
     metadata: SessionMetadata;
     ttlMs: number;
+    /** Increases with every write, so a compare-and-set sees any write made since the read */
+    version?: number;
 }
 
+/**
+ * Default number of times an update is tried when other writes keep getting in first
+ */
+const DEFAULT_MAX_UPDATE_ATTEMPTS = 10;
+
 /**
  * Session manager that provides isolation between concurrent sessions
  * Generic over the type of state stored for each session
@@ -43,6 +50,12 @@ export class SessionManager<T extends SessionState> {
   /** Default TTL for sessions in milliseconds */
   private defaultTtlMs: number;
   
+  /** Handle of the expired session cleanup interval */
+  private cleanupInterval: NodeJS.Timeout | null = null;
+  
+  /** Attempts per update before giving up on concurrent writes */
+  private maxUpdateAttempts: number;
+  
   /**
    * Creates a new session manager
    * 
@@ -55,7 +68,7 @@ export class SessionManager<T extends SessionState> {
     defaultStateGenerator: (sessionId: SessionId) => T,
     storageProvider?: StorageProvider,
     storageNamespace: string = 'sessions',
-    options: { defaultTtlMs?: number } = {}
+    options: { defaultTtlMs?: number; maxUpdateAttempts?: number } = {}
   ) {
     // Use provided storage provider or get default memory provider
     this.storage = storageProvider || getStorageFactory().getProvider({
@@ -68,6 +81,7 @@ export class SessionManager<T extends SessionState> {
     
     // Set the default TTL, falling back if not provided
     this.defaultTtlMs = options.defaultTtlMs || 30 * 60 * 1000; // Fallback to 30 mins if needed
+    this.maxUpdateAttempts = options.maxUpdateAttempts || DEFAULT_MAX_UPDATE_ATTEMPTS;
     
     // Set up automatic cleanup interval
     this.setupCleanupInterval();
@@ -87,6 +101,28 @@ export class SessionManager<T extends SessionState> {
     return `${this.storageNamespace}:${sessionId}`;
   }
   
+  private getTtlSeconds(ttlMs: number): number | undefined {
+    return ttlMs > 0 ? Math.floor(ttlMs / 1000) : undefined;
+  }
+  
+  /**
+   * Writes session data, only over `expected` when the provider supports compare-and-set
+   * 
+   * @returns Whether the data was written; false means another write got in first
+   */
+  private async writeSessionData(
+    storageKey: string,
+    expected: StoredSessionData<T> | null,
+    data: StoredSessionData<T>
+  ): Promise<boolean> {
+    const options = { ttlSeconds: this.getTtlSeconds(data.ttlMs) };
+    if (this.storage.compareAndSet) {
+      return this.storage.compareAndSet(storageKey, expected, data, options);
+    }
+    await this.storage.set(storageKey, data, options);
+    return true;
+  }
+  
   /**
    * Creates a new session or returns an existing one
    * 
@@ -120,13 +156,14 @@ export class SessionManager<T extends SessionState> {
       const sessionData: StoredSessionData<T> = {
         state,
         metadata,
-        ttlMs: this.defaultTtlMs // Use configured/default TTL
+        ttlMs: this.defaultTtlMs, // Use configured/default TTL
+        version: 1
       };
 
-      // Store the session using the storage provider
-      await this.storage.set(storageKey, sessionData, {
-        ttlSeconds: sessionData.ttlMs > 0 ? Math.floor(sessionData.ttlMs / 1000) : undefined // Use ttlSeconds
-      });
+      // Store the session, unless a concurrent call created it first
+      if (!(await this.writeSessionData(storageKey, null, sessionData))) {
+        return this.getSession(sessionId);
+      }
       
       logger.debug(
         LogCategory.SESSION,
@@ -169,6 +206,8 @@ export class SessionManager<T extends SessionState> {
     try {
       // Attempt to get session data from storage
       const storedData = await this.storage.get<StoredSessionData<T>>(storageKey);
+      // Compare-and-set needs the data as read, before the dates below are converted
+      const expected = storedData && this.storage.compareAndSet ? this.copySessionData(storedData) : null;
 
       // If session doesn't exist in storage, return error
       if (!storedData) {
@@ -214,10 +253,13 @@ export class SessionManager<T extends SessionState> {
       // Optionally update the stored session with the new access time
       // This adds overhead but keeps lastAccessedAt fresh.
       // Consider if this is strictly necessary for your use case.
+      // A concurrent write also refreshes the access time, so losing the race is fine
       if (needsUpdate) {
-          await this.storage.set(storageKey, storedData, { 
-            ttlSeconds: this.defaultTtlMs > 0 ? Math.floor(this.defaultTtlMs / 1000) : undefined // Use configured TTL
-          });
+          await this.writeSessionData(
+            storageKey,
+            expected,
+            { ...storedData, ttlMs: this.defaultTtlMs, version: (storedData.version ?? 0) + 1 }
+          );
       }
 
       // --- BEGIN LOGGING ---
@@ -256,7 +298,10 @@ export class SessionManager<T extends SessionState> {
   }
   
   /**
-   * Updates a session's state in storage
+   * Updates a session's state in storage.
+   * With a provider that supports compare-and-set, the write only succeeds if the session
+   * has not changed since it was read; otherwise the update is retried on the new state,
+   * so `updateFn` may be called more than once.
    * 
    * @param sessionId The session ID
    * @param updateFn Function that updates the state
@@ -268,40 +313,55 @@ export class SessionManager<T extends SessionState> {
   ): Promise<SessionResult<T>> {
     const storageKey = this.getStorageKey(sessionId);
     try {
-      // Get the current stored data
-      const storedData = await this.storage.get<StoredSessionData<T>>(storageKey);
-      
-      // If session doesn't exist, return error
-      if (!storedData) {
-        return {
-          success: false,
-          sessionId,
-          error: 'Session not found for update'
+      for (let attempt = 1; attempt <= this.maxUpdateAttempts; attempt++) {
+        // Get the current stored data
+        const storedData = await this.storage.get<StoredSessionData<T>>(storageKey);
+        
+        // If session doesn't exist, return error
+        if (!storedData) {
+          return {
+            success: false,
+            sessionId,
+            error: 'Session not found for update'
+          };
+        }
+        
+        // Update a copy of the state, so a retry starts from what is stored
+        const current = this.copySessionData(storedData);
+        const updatedState = updateFn(current.state);
+        
+        // Prepare updated data for storage
+        const updatedSessionData: StoredSessionData<T> = {
+            ...current,
+            state: updatedState,
+            metadata: {
+                ...current.metadata,
+                lastAccessedAt: new Date()
+            },
+            version: (storedData.version ?? 0) + 1
         };
+        
+        // Store the updated state unless another write got in since it was read
+        if (await this.writeSessionData(storageKey, storedData, updatedSessionData)) {
+          return {
+            success: true,
+            sessionId,
+            data: updatedState
+          };
+        }
+        
+        logger.debug(
+          LogCategory.SESSION,
+          'SessionManager',
+          'Session changed during update, retrying',
+          { sessionId, attempt }
+        );
       }
       
-      // Update the state using the provided function
-      const updatedState = updateFn(storedData.state);
-      
-      // Prepare updated data for storage
-      const updatedSessionData: StoredSessionData<T> = {
-          ...storedData,
-          state: updatedState,
-          metadata: {
-              ...storedData.metadata,
-              lastAccessedAt: new Date()
-          }
-      };
-      
-      // Store the updated state using the storage provider
-      await this.storage.set(storageKey, updatedSessionData, {
-        ttlSeconds: updatedSessionData.ttlMs > 0 ? Math.floor(updatedSessionData.ttlMs / 1000) : undefined // Use ttlSeconds
-      });
-      
       return {
-        success: true,
+        success: false,
         sessionId,
-        data: updatedState
+        error: `Session kept changing during update; gave up after ${this.maxUpdateAttempts} attempts`
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -321,6 +381,13 @@ export class SessionManager<T extends SessionState> {
     }
   }
   
+  /**
+   * Deep copy of stored session data, as it would come back from serialized storage
+   */
+  private copySessionData(data: StoredSessionData<T>): StoredSessionData<T> {
+    return JSON.parse(JSON.stringify(data));
+  }
+  
   /**
    * Deletes a session from storage
    * 
@@ -382,9 +449,24 @@ export class SessionManager<T extends SessionState> {
     // If so, this interval might not be necessary or could conflict.
     // For now, keep it, assuming it might be needed for some providers or configurations.
     const cleanupIntervalMs = 5 * 60 * 1000; // 5 minutes - Define interval directly
-    setInterval(() => {
+    this.cleanupInterval = setInterval(() => {
       this.cleanupExpiredSessions(); // This method needs to be adapted if storage handles TTL
     }, cleanupIntervalMs); 
+    
+    // Ensure timer doesn't prevent Node from exiting
+    if (this.cleanupInterval.unref) {
+      this.cleanupInterval.unref();
+    }
+  }
+  
+  /**
+   * Stops the cleanup interval. Call this when a short-lived manager is no longer needed.
+   */
+  public destroy(): void {
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+      this.cleanupInterval = null;
+    }
   }
   
   /**
@@ -0,0 +1,46 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * @fileoverview Runs the StorageProvider conformance suite against the built-in providers
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { runStorageProviderConformance } from '../../test/storage-conformance';
+import { MemoryStorageProvider } from '../providers/memory-provider';
+import { RedisStorageProvider } from '../providers/redis-provider';
+import { SQLiteStorageProvider } from '../providers/sqlite-provider';
+import { FilesystemStorageProvider } from '../providers/filesystem-provider';
+
+jest.mock('@upstash/redis', () => ({
+  Redis: jest.requireActual('../../test/redis-stand-in').RedisStandIn
+}));
+
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agentdock-conformance-'));
+
+afterAll(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+runStorageProviderConformance(
+  () => new MemoryStorageProvider({ namespace: 'conformance' }),
+  { name: 'MemoryStorageProvider' }
+);
+
+runStorageProviderConformance(
+  () => new RedisStorageProvider({ namespace: 'conformance', url: 'http://localhost:8079', token: 'stand-in' }),
+  { name: 'RedisStorageProvider' }
+);
+
+runStorageProviderConformance(
+  () => new SQLiteStorageProvider({ namespace: 'conformance', path: path.join(tempDir, 'conformance.db') }),
+  { name: 'SQLiteStorageProvider' }
+);
+
+runStorageProviderConformance(
+  () => new FilesystemStorageProvider({ namespace: 'conformance', directory: tempDir }),
+  { name: 'FilesystemStorageProvider' }
+);
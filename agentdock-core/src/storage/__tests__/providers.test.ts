@@ -0,0 +1,85 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * @fileoverview Tests for the SQLite and filesystem storage providers beyond the conformance suite
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { SQLiteStorageProvider } from '../providers/sqlite-provider';
+import { FilesystemStorageProvider } from '../providers/filesystem-provider';
+import { getStorageFactory } from '../factory';
+import { registerNodeStorageProviders } from '../node';
+
+let tempDir: string;
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agentdock-storage-'));
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+const providers: [string, () => SQLiteStorageProvider | FilesystemStorageProvider][] = [
+  ['sqlite', () => new SQLiteStorageProvider({ namespace: 'test', path: path.join(tempDir, 'test.db') })],
+  ['filesystem', () => new FilesystemStorageProvider({ namespace: 'test', directory: tempDir })]
+];
+
+describe.each(providers)('%s storage provider', (_name, createProvider) => {
+  it('keeps data across instances', async () => {
+    const first = createProvider();
+    await first.set('session', { id: 1 });
+    await first.saveList('history', ['a', 'b']);
+    await first.destroy();
+
+    const second = createProvider();
+    expect(await second.get('session')).toEqual({ id: 1 });
+    expect(await second.getList('history', 1)).toEqual(['b']);
+    await second.destroy();
+  });
+
+  it('handles keys with special characters', async () => {
+    const provider = createProvider();
+    await provider.set('user/1:*"quoted"%', 'value');
+
+    expect(await provider.get('user/1:*"quoted"%')).toBe('value');
+    expect(await provider.list('user/')).toEqual(['user/1:*"quoted"%']);
+    await provider.destroy();
+  });
+
+  it('reads an array stored with set() as a list', async () => {
+    const provider = createProvider();
+    await provider.set('messages', ['x', 'y', 'z']);
+
+    expect(await provider.getList('messages', 1)).toEqual(['y', 'z']);
+    await provider.destroy();
+  });
+});
+
+describe('StorageFactory', () => {
+  it('creates SQLite and filesystem providers once they are registered', async () => {
+    expect(() => getStorageFactory().getProvider({ type: 'sqlite' })).toThrow("Provider type 'sqlite' is not registered");
+
+    registerNodeStorageProviders();
+    const sqlite = getStorageFactory().getProvider({
+      type: 'sqlite',
+      config: { namespace: 'factory', path: path.join(tempDir, 'factory.db') }
+    });
+    const filesystem = getStorageFactory().getProvider({
+      type: 'filesystem',
+      config: { namespace: 'factory', directory: tempDir }
+    });
+
+    expect(sqlite).toBeInstanceOf(SQLiteStorageProvider);
+    expect(filesystem).toBeInstanceOf(FilesystemStorageProvider);
+
+    await filesystem.set('key', 'value');
+    expect(fs.existsSync(path.join(tempDir, 'factory', 'key.json'))).toBe(true);
+    await sqlite.destroy?.();
+  });
+});
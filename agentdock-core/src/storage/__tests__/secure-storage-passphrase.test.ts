@@ -0,0 +1,160 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * @fileoverview Tests for SecureStorage passphrase protection, key rotation and
+ * encrypted export, run against the real Web Crypto API
+ */
+
+import { SecureStorage } from '../secure-storage';
+import { ErrorCode } from '../../errors';
+
+class MemoryLocalStorage {
+  private items = new Map<string, string>();
+
+  get length(): number {
+    return this.items.size;
+  }
+
+  key(index: number): string | null {
+    return [...this.items.keys()][index] ?? null;
+  }
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, String(value));
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+
+  clear(): void {
+    this.items.clear();
+  }
+}
+
+// Few iterations keep the tests fast; the default is 600,000
+const iterations = 1000;
+const settings = { apiKeys: { openai: 'sk-test' } };
+
+describe('SecureStorage passphrase protection', () => {
+  const localStorage = new MemoryLocalStorage();
+  let storage: SecureStorage;
+
+  beforeAll(() => {
+    Object.defineProperty(global, 'localStorage', { value: localStorage, writable: true });
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  beforeEach(async () => {
+    localStorage.clear();
+    storage = SecureStorage.getInstance('secure-test');
+    await storage.clear();
+    await storage.set('global_settings', settings);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('encrypts the persisted keys with the passphrase', async () => {
+    expect(localStorage.getItem('secure-test:keys:global_settings')).toContain('"encKey"');
+
+    await storage.setPassphrase('correct horse', { iterations });
+
+    const persisted = localStorage.getItem('secure-test:keys:global_settings')!;
+    expect(persisted).toContain('"wrapped"');
+    expect(persisted).not.toContain('"encKey"');
+    expect(storage.isPassphraseProtected()).toBe(true);
+    expect(storage.isLocked()).toBe(false);
+    expect(await storage.get('global_settings')).toEqual(settings);
+  });
+
+  it('refuses reads and writes while locked', async () => {
+    await storage.setPassphrase('correct horse', { iterations });
+    const listener = jest.fn();
+    const unsubscribe = storage.onLockChange(listener);
+
+    storage.lock();
+
+    expect(storage.isLocked()).toBe(true);
+    expect(listener).toHaveBeenCalledWith(true);
+    await expect(storage.get('global_settings')).rejects.toMatchObject({ code: ErrorCode.STORAGE_LOCKED });
+    await expect(storage.set('other', 1)).rejects.toMatchObject({ code: ErrorCode.STORAGE_LOCKED });
+
+    await expect(storage.unlock('wrong horse')).rejects.toMatchObject({ code: ErrorCode.DECRYPTION_FAILED });
+    expect(storage.isLocked()).toBe(true);
+
+    await storage.unlock('correct horse');
+    expect(listener).toHaveBeenLastCalledWith(false);
+    expect(await storage.get('global_settings')).toEqual(settings);
+    unsubscribe();
+  });
+
+  it('locks after the idle timeout, restarted by each read', async () => {
+    await storage.setPassphrase('correct horse', { iterations, autoLockMs: 60_000 });
+    storage.lock();
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+    await storage.unlock('correct horse');
+
+    jest.advanceTimersByTime(45_000);
+    await storage.get('global_settings');
+    jest.advanceTimersByTime(45_000);
+    expect(storage.isLocked()).toBe(false);
+
+    jest.advanceTimersByTime(15_000);
+    expect(storage.isLocked()).toBe(true);
+  });
+
+  it('changes and removes the passphrase', async () => {
+    await storage.setPassphrase('first passphrase', { iterations });
+    await storage.setPassphrase('second passphrase', { iterations });
+    storage.lock();
+    await expect(storage.unlock('first passphrase')).rejects.toMatchObject({ code: ErrorCode.DECRYPTION_FAILED });
+    await storage.unlock('second passphrase');
+
+    await storage.removePassphrase();
+
+    expect(storage.isPassphraseProtected()).toBe(false);
+    expect(localStorage.getItem('secure-test:keys:global_settings')).toContain('"encKey"');
+    storage.lock();
+    expect(await storage.get('global_settings')).toEqual(settings);
+  });
+
+  it('re-encrypts every entry with new keys when rotating', async () => {
+    await storage.set('agents', [{ id: 'agent-1' }]);
+    await storage.setPassphrase('correct horse', { iterations });
+    const keysBefore = localStorage.getItem('secure-test:keys:global_settings');
+    const dataBefore = localStorage.getItem('secure-test:global_settings');
+
+    expect(await storage.rotateKeys()).toBe(2);
+
+    expect(localStorage.getItem('secure-test:keys:global_settings')).not.toBe(keysBefore);
+    expect(localStorage.getItem('secure-test:global_settings')).not.toBe(dataBefore);
+    storage.lock();
+    await storage.unlock('correct horse');
+    expect(await storage.get('global_settings')).toEqual(settings);
+    expect(await storage.get('agents')).toEqual([{ id: 'agent-1' }]);
+  });
+
+  it('exports and imports entries encrypted with a passphrase', async () => {
+    const exported = await storage.exportEncrypted('transfer passphrase', { iterations });
+    expect(exported).not.toContain('sk-test');
+
+    await storage.clear();
+    await expect(storage.importEncrypted(exported, 'wrong passphrase')).rejects.toMatchObject({
+      code: ErrorCode.DECRYPTION_FAILED
+    });
+    await expect(storage.importEncrypted('{"not":"an export"}', 'transfer passphrase')).rejects.toMatchObject({
+      code: ErrorCode.VALIDATION_ERROR
+    });
+
+    expect(await storage.importEncrypted(exported, 'transfer passphrase')).toBe(1);
+    expect(await storage.get('global_settings')).toEqual(settings);
+  });
+});
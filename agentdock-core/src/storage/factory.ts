@@ -69,6 +69,9 @@ export class StorageFactory {
         namespace: options.namespace
       });
     });
+
+    // SQLite and filesystem providers need Node.js and are registered by
+    // registerNodeStorageProviders() from 'agentdock-core/storage/node'
     
     logger.debug(
       LogCategory.STORAGE,
@@ -0,0 +1,35 @@
+/**
+ * @fileoverview Storage providers that need Node.js, imported as `agentdock-core/storage/node`.
+ *
+ * SQLite and filesystem storage are kept out of the main entry so browser bundles do not
+ * pull in `better-sqlite3` or `node:fs`. Server code registers them with the storage
+ * factory before asking it for a `sqlite` or `filesystem` provider.
+ */
+
+import { StorageFactory, getStorageFactory } from './factory';
+import { FilesystemStorageProvider } from './providers/filesystem-provider';
+import { SQLiteStorageProvider } from './providers/sqlite-provider';
+
+export { FilesystemStorageProvider } from './providers/filesystem-provider';
+export { SQLiteStorageProvider } from './providers/sqlite-provider';
+
+/**
+ * Registers the `sqlite` and `filesystem` provider types with the storage factory
+ *
+ * @param factory - The factory to register with (default: the shared instance)
+ */
+export function registerNodeStorageProviders(factory: StorageFactory = getStorageFactory()): void {
+  factory.registerProvider('sqlite', (options = {}) => {
+    return new SQLiteStorageProvider({
+      namespace: options.namespace,
+      path: options.path || process.env.SQLITE_DATABASE_PATH
+    });
+  });
+
+  factory.registerProvider('filesystem', (options = {}) => {
+    return new FilesystemStorageProvider({
+      namespace: options.namespace,
+      directory: options.directory || process.env.FILESYSTEM_STORAGE_PATH
+    });
+  });
+}
@@ -0,0 +1,292 @@
+/**
+ * @fileoverview Filesystem storage provider implementation.
+ *
+ * Keeps each key in its own JSON file, one directory per namespace, so a single-box
+ * deployment survives restarts without any database. Files are written to a temporary
+ * name and renamed into place, so readers never see a half-written value.
+ */
+
+import path from 'node:path';
+import fs from 'node:fs/promises';
+import { logger, LogCategory } from '../../logging';
+import {
+  StorageProvider,
+  StorageOptions,
+  ListOptions
+} from '../types';
+
+const DEFAULT_DIRECTORY = './.agentdock/storage';
+const FILE_EXTENSION = '.json';
+
+/**
+ * Configuration for the filesystem storage provider
+ */
+export interface FilesystemStorageProviderConfig {
+  /** Directory holding one subdirectory per namespace (default `./.agentdock/storage`) */
+  directory?: string;
+
+  /** Default namespace */
+  namespace?: string;
+}
+
+/**
+ * Contents of a stored file
+ */
+interface StoredFile<T> {
+  key: string;
+  value: T;
+  expiresAt?: number;
+}
+
+/**
+ * Encodes a key or namespace as a file name
+ */
+function toFileName(name: string): string {
+  return encodeURIComponent(name).replace(/\*/g, '%2A');
+}
+
+function isNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+}
+
+/**
+ * Filesystem storage provider
+ *
+ * @remarks
+ * Suited to a single box with modest traffic. Several processes can share the directory;
+ * the last write to a key wins.
+ */
+export class FilesystemStorageProvider implements StorageProvider {
+  private directory: string;
+  private namespace: string;
+
+  /**
+   * Creates a new filesystem storage provider
+   *
+   * @param config - Configuration options
+   */
+  constructor(config: FilesystemStorageProviderConfig = {}) {
+    this.directory = path.resolve(config.directory || DEFAULT_DIRECTORY);
+    this.namespace = config.namespace || 'default';
+
+    logger.debug(
+      LogCategory.STORAGE,
+      'FilesystemStorageProvider',
+      'Initialized filesystem storage provider',
+      { namespace: this.namespace, directory: this.directory }
+    );
+  }
+
+  private getNamespaceDirectory(namespace?: string): string {
+    return path.join(this.directory, toFileName(namespace || this.namespace));
+  }
+
+  private getFilePath(key: string, namespace?: string): string {
+    return path.join(this.getNamespaceDirectory(namespace), toFileName(key) + FILE_EXTENSION);
+  }
+
+  /**
+   * Reads a stored file, removing it when it has expired
+   */
+  private async readFile<T>(key: string, namespace?: string): Promise<StoredFile<T> | null> {
+    const filePath = this.getFilePath(key, namespace);
+    let contents: string;
+    try {
+      contents = await fs.readFile(filePath, 'utf8');
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+
+    let stored: StoredFile<T>;
+    try {
+      stored = JSON.parse(contents);
+    } catch (error) {
+      logger.warn(LogCategory.STORAGE, 'FilesystemStorageProvider', 'Ignoring unreadable file', {
+        filePath,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return null;
+    }
+
+    if (typeof stored.expiresAt === 'number' && stored.expiresAt <= Date.now()) {
+      await this.removeFile(filePath);
+      return null;
+    }
+    return stored;
+  }
+
+  /**
+   * Writes a file atomically: to a temporary file first, then renamed over the old one
+   */
+  private async writeFile<T>(key: string, value: T, options: StorageOptions): Promise<void> {
+    const filePath = this.getFilePath(key, options.namespace);
+    const stored: StoredFile<T> = { key, value };
+    if (typeof options.ttlSeconds === 'number' && options.ttlSeconds > 0) {
+      stored.expiresAt = Date.now() + (options.ttlSeconds * 1000);
+    }
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.${process.pid}.${crypto.randomUUID()}.tmp`;
+    try {
+      await fs.writeFile(tempPath, JSON.stringify(stored), 'utf8');
+      await fs.rename(tempPath, filePath);
+    } catch (error) {
+      await this.removeFile(tempPath);
+      throw error;
+    }
+  }
+
+  private async removeFile(filePath: string): Promise<boolean> {
+    try {
+      await fs.unlink(filePath);
+      return true;
+    } catch (error) {
+      if (isNotFound(error)) return false;
+      throw error;
+    }
+  }
+
+  /**
+   * Keys stored in a namespace, in key order, including expired ones
+   */
+  private async readKeys(namespace?: string): Promise<string[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.getNamespaceDirectory(namespace));
+    } catch (error) {
+      if (isNotFound(error)) return [];
+      throw error;
+    }
+
+    return entries
+      .filter(entry => entry.endsWith(FILE_EXTENSION))
+      .map(entry => decodeURIComponent(entry.slice(0, -FILE_EXTENSION.length)))
+      .sort();
+  }
+
+  /**
+   * Gets a value from storage
+   */
+  public async get<T>(key: string, options: StorageOptions = {}): Promise<T | null> {
+    const stored = await this.readFile<T>(key, options.namespace);
+    return stored ? stored.value : null;
+  }
+
+  /**
+   * Sets a value in storage
+   */
+  public async set<T>(key: string, value: T, options: StorageOptions = {}): Promise<void> {
+    await this.writeFile(key, value, options);
+  }
+
+  /**
+   * Deletes a value from storage
+   */
+  public async delete(key: string, options: StorageOptions = {}): Promise<boolean> {
+    return this.removeFile(this.getFilePath(key, options.namespace));
+  }
+
+  /**
+   * Checks if a key exists in storage
+   */
+  public async exists(key: string, options: StorageOptions = {}): Promise<boolean> {
+    return (await this.readFile(key, options.namespace)) !== null;
+  }
+
+  /**
+   * Gets multiple values from storage
+   */
+  public async getMany<T>(keys: string[], options: StorageOptions = {}): Promise<Record<string, T | null>> {
+    const values = await Promise.all(keys.map(key => this.get<T>(key, options)));
+    return Object.fromEntries(keys.map((key, index) => [key, values[index]]));
+  }
+
+  /**
+   * Sets multiple values in storage
+   */
+  public async setMany<T>(items: Record<string, T>, options: StorageOptions = {}): Promise<void> {
+    await Promise.all(Object.entries(items).map(([key, value]) => this.set(key, value, options)));
+  }
+
+  /**
+   * Deletes multiple values from storage
+   */
+  public async deleteMany(keys: string[], options: StorageOptions = {}): Promise<number> {
+    const deleted = await Promise.all(keys.map(key => this.delete(key, options)));
+    return deleted.filter(Boolean).length;
+  }
+
+  /**
+   * Lists keys with a given prefix, in key order
+   */
+  public async list(prefix: string, options: ListOptions = {}): Promise<string[]> {
+    const candidates = (await this.readKeys(options.namespace)).filter(key => key.startsWith(prefix));
+
+    // Expired files are only known once read
+    const live = await Promise.all(candidates.map(key => this.exists(key, options)));
+    const results = candidates.filter((_, index) => live[index]);
+
+    if (typeof options.limit === 'number' && options.limit > 0) {
+      const start = options.offset || 0;
+      return results.slice(start, start + options.limit);
+    }
+
+    return results;
+  }
+
+  /**
+   * Clears all data from storage, or the keys with a prefix, in the namespace
+   */
+  public async clear(prefix?: string, options: StorageOptions = {}): Promise<void> {
+    const keys = (await this.readKeys(options.namespace)).filter(key => !prefix || key.startsWith(prefix));
+    await Promise.all(keys.map(key => this.delete(key, options)));
+  }
+
+  /**
+   * Nothing to release; the data stays in the directory
+   */
+  public async destroy(): Promise<void> {
+    logger.debug(LogCategory.STORAGE, 'FilesystemStorageProvider', 'Destroy called (no-op)', { namespace: this.namespace });
+  }
+
+  /**
+   * Gets a range of elements from a list
+   */
+  public async getList<T>(
+    key: string,
+    start: number = 0,
+    end: number = -1,
+    options: StorageOptions = {}
+  ): Promise<T[] | null> {
+    const value = await this.get<T[]>(key, options);
+    if (!Array.isArray(value)) {
+      return null;
+    }
+
+    // Negative indexes count from the end of the list, as with Redis LRANGE
+    const actualEnd = end < 0 ? value.length + end + 1 : end + 1;
+    const startIndex = start < 0 ? Math.max(0, value.length + start) : start;
+    const endIndex = Math.min(value.length, actualEnd);
+
+    if (startIndex >= endIndex) {
+      return [];
+    }
+
+    return value.slice(startIndex, endIndex);
+  }
+
+  /**
+   * Saves/overwrites an entire list as one file
+   */
+  public async saveList<T>(key: string, values: T[], options: StorageOptions = {}): Promise<void> {
+    await this.writeFile(key, values, options);
+  }
+
+  /**
+   * Deletes an entire list
+   */
+  public async deleteList(key: string, options: StorageOptions = {}): Promise<boolean> {
+    return this.delete(key, options);
+  }
+}
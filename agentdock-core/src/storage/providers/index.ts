@@ -4,4 +4,5 @@
 
 export * from './memory-provider';
 export * from './redis-provider';
-export * from './vercel-kv-provider'; 
\ No newline at end of file
+export * from './vercel-kv-provider'; 
+// SQLite and filesystem providers need Node.js and are imported from their own modules
@@ -298,6 +298,9 @@ export class MemoryStorageProvider implements StorageProvider {
       }
     }
     
+    // Key order keeps pages stable across calls
+    results.sort();
+    
     // Apply pagination if specified
     if (typeof options.limit === 'number' && options.limit > 0) {
       const start = options.offset || 0;
@@ -308,26 +311,14 @@ export class MemoryStorageProvider implements StorageProvider {
   }
   
   /**
-   * Clears all data from storage
+   * Clears all data from storage, or the keys with a prefix, in the namespace
    */
-  public async clear(prefix?: string): Promise<void> {
-    if (prefix) {
-      // Delete only keys with the given prefix
-      const namespacedPrefix = this.getNamespacedKey(prefix);
-      
-      for (const key of Array.from(this.store.keys())) {
-        if (key.startsWith(namespacedPrefix)) {
-          this.store.delete(key);
-        }
-      }
-    } else {
-      // Clear all keys in this namespace
-      const namespacePrefix = `${this.namespace}:`;
-      
-      for (const key of Array.from(this.store.keys())) {
-        if (key.startsWith(namespacePrefix)) {
-          this.store.delete(key);
-        }
+  public async clear(prefix?: string, options: StorageOptions = {}): Promise<void> {
+    const namespacedPrefix = this.getNamespacedKey(prefix || '', options.namespace);
+
+    for (const key of Array.from(this.store.keys())) {
+      if (key.startsWith(namespacedPrefix)) {
+        this.store.delete(key);
       }
     }
   }
@@ -361,11 +352,11 @@ export class MemoryStorageProvider implements StorageProvider {
       return null;
     }
 
-    // Handle Python-style negative indexing for end
+    // Negative indexes count from the end of the list, as with Redis LRANGE
     const actualEnd = end < 0 ? item.value.length + end + 1 : end + 1;
     
     // Slice the array, ensuring indices are within bounds
-    const startIndex = Math.max(0, start);
+    const startIndex = start < 0 ? Math.max(0, item.value.length + start) : start;
     const endIndex = Math.min(item.value.length, actualEnd);
     
     if (startIndex >= endIndex) {
@@ -398,4 +389,96 @@ export class MemoryStorageProvider implements StorageProvider {
     // Use the existing delete method
     return await this.delete(key, options);
   }
+
+  /**
+   * Gets an item, removing it when it has expired
+   */
+  private getLiveItem(namespacedKey: string): StorageItem<any> | undefined {
+    const item = this.store.get(namespacedKey);
+    if (item && this.isExpired(item)) {
+      this.store.delete(namespacedKey);
+      return undefined;
+    }
+    return item;
+  }
+
+  /**
+   * Expiry for a write: a new TTL when one is given, otherwise the item's current one
+   */
+  private getExpiresAt(options: StorageOptions, item?: StorageItem<any>): number | undefined {
+    if (typeof options.ttlSeconds === 'number' && options.ttlSeconds > 0) {
+      return Date.now() + (options.ttlSeconds * 1000);
+    }
+    return item?.expiresAt;
+  }
+
+  /**
+   * Writes a value if the key still holds `expected`, compared in serialized form.
+   * The check and the write run without yielding to the event loop, so they cannot
+   * interleave with other calls.
+   */
+  public async compareAndSet<T>(
+    key: string,
+    expected: T | null,
+    value: T,
+    options: StorageOptions = {}
+  ): Promise<boolean> {
+    const namespacedKey = this.getNamespacedKey(key, options.namespace);
+    const item = this.getLiveItem(namespacedKey);
+    const current = item ? JSON.stringify(item.value) : null;
+
+    if (current !== (expected === null ? null : JSON.stringify(expected))) {
+      return false;
+    }
+
+    this.store.set(namespacedKey, {
+      value,
+      expiresAt: this.getExpiresAt(options, item),
+      namespace: options.namespace || this.namespace,
+      metadata: options.metadata
+    });
+    return true;
+  }
+
+  /**
+   * Adds to a numeric value, starting from 0
+   */
+  public async increment(key: string, amount: number = 1, options: StorageOptions = {}): Promise<number> {
+    const namespacedKey = this.getNamespacedKey(key, options.namespace);
+    const item = this.getLiveItem(namespacedKey);
+
+    if (item && typeof item.value !== 'number') {
+      throw new Error(`Cannot increment non-numeric value at key "${key}"`);
+    }
+
+    const value = (item?.value ?? 0) + amount;
+    this.store.set(namespacedKey, {
+      ...item,
+      value,
+      expiresAt: this.getExpiresAt(options, item),
+      namespace: options.namespace || this.namespace
+    });
+    return value;
+  }
+
+  /**
+   * Appends values to a list, creating it when missing
+   */
+  public async appendToList<T>(key: string, values: T[], options: StorageOptions = {}): Promise<number> {
+    const namespacedKey = this.getNamespacedKey(key, options.namespace);
+    const item = this.getLiveItem(namespacedKey);
+
+    if (item && !Array.isArray(item.value)) {
+      throw new Error(`Cannot append to non-list value at key "${key}"`);
+    }
+
+    const list = [...(item?.value ?? []), ...values];
+    this.store.set(namespacedKey, {
+      ...item,
+      value: list,
+      expiresAt: this.getExpiresAt(options, item),
+      namespace: options.namespace || this.namespace
+    });
+    return list.length;
+  }
 } 
\ No newline at end of file
@@ -7,9 +7,11 @@
 import { Redis } from '@upstash/redis';
 import { 
   StorageProvider, 
-  StorageOptions
+  StorageOptions,
+  ListOptions
 } from '../types'; 
 import { logger, LogCategory } from '../../logging';
+import { COMPARE_AND_SET_SCRIPT } from './redis-scripts';
 
 // Configuration for the Upstash Redis client
 export interface UpstashRedisStorageProviderConfig {
@@ -51,15 +53,22 @@ export class RedisStorageProvider implements StorageProvider {
     }
   }
 
-  private getKey(key: string): string {
+  private getKey(key: string, namespace?: string): string {
     // Upstash client doesn't automatically namespace, so we prepend it.
-    return `${this.namespace}:${key}`;
+    return `${namespace || this.namespace}:${key}`;
+  }
+
+  /**
+   * Escapes glob characters so SCAN MATCH treats a prefix literally
+   */
+  private getPattern(prefix: string, namespace?: string): string {
+    return `${this.getKey(prefix, namespace).replace(/[*?[\]\\]/g, '\\$&')}*`;
   }
 
   // --- Basic Methods --- 
 
   async get<T>(key: string, options?: StorageOptions): Promise<T | null> {
-    const fullKey = this.getKey(key);
+    const fullKey = this.getKey(key, options?.namespace);
     try {
       // DEBUG: Log key being fetched
       logger.debug(LogCategory.STORAGE, this.providerType, '[GET] Fetching key', { fullKey });
@@ -83,7 +92,7 @@ export class RedisStorageProvider implements StorageProvider {
   }
 
   async set<T>(key: string, value: T, options?: StorageOptions): Promise<void> {
-    const fullKey = this.getKey(key);
+    const fullKey = this.getKey(key, options?.namespace);
     try {
       const ttlSeconds = options?.ttlSeconds;
       
@@ -110,7 +119,7 @@ export class RedisStorageProvider implements StorageProvider {
   }
 
   async delete(key: string, options?: StorageOptions): Promise<boolean> {
-    const fullKey = this.getKey(key);
+    const fullKey = this.getKey(key, options?.namespace);
     try {
       const result = await this.client.del(fullKey);
       return result > 0; // del returns number of keys deleted
@@ -124,7 +133,7 @@ export class RedisStorageProvider implements StorageProvider {
   }
 
   async exists(key: string, options?: StorageOptions): Promise<boolean> {
-    const fullKey = this.getKey(key);
+    const fullKey = this.getKey(key, options?.namespace);
     try {
       const result = await this.client.exists(fullKey);
       return result > 0; // exists returns number of keys found (0 or 1 here)
@@ -139,9 +148,9 @@ export class RedisStorageProvider implements StorageProvider {
 
   // --- List/Clear Methods --- 
 
-  async list(prefix: string = '', options?: StorageOptions): Promise<string[]> {
-      const searchPrefix = prefix ? `${this.namespace}:${prefix}` : `${this.namespace}:`;
-      const pattern = `${searchPrefix}*`;
+  async list(prefix: string = '', options?: ListOptions): Promise<string[]> {
+      const namespace = options?.namespace || this.namespace;
+      const pattern = this.getPattern(prefix, namespace);
       try {
           let cursor: string | number = 0; // Initialize cursor for scan
           const keys: string[] = [];
@@ -152,9 +161,15 @@ export class RedisStorageProvider implements StorageProvider {
               cursor = nextCursorStr; // Store string cursor for next iteration
           } while (cursor !== '0'); // Compare with string '0' as returned by upstash/redis scan
           
-          // Remove namespace prefix
-          const namespacePrefixLength = this.namespace.length + 1;
-          return keys.map(k => k.substring(namespacePrefixLength));
+          // Remove namespace prefix; SCAN order is arbitrary, so sort before paging
+          const namespacePrefixLength = namespace.length + 1;
+          const results = keys.map(k => k.substring(namespacePrefixLength)).sort();
+
+          if (typeof options?.limit === 'number' && options.limit > 0) {
+              const start = options.offset || 0;
+              return results.slice(start, start + options.limit);
+          }
+          return results;
       } catch (error) {
           logger.error(LogCategory.STORAGE, this.providerType, 'Error listing keys', { pattern, error: error instanceof Error ? error.message : String(error) });
           return [];
@@ -162,8 +177,9 @@ export class RedisStorageProvider implements StorageProvider {
   }
 
   async clear(prefix?: string, options?: StorageOptions): Promise<void> {
-       const pattern = prefix ? `${this.namespace}:${prefix}*` : `${this.namespace}:*`;
-       const description = prefix ? `keys matching "${pattern}"` : `all keys in namespace "${this.namespace}"`;
+       const namespace = options?.namespace || this.namespace;
+       const pattern = this.getPattern(prefix || '', namespace);
+       const description = prefix ? `keys matching "${pattern}"` : `all keys in namespace "${namespace}"`;
        logger.warn(LogCategory.STORAGE, this.providerType, `Clearing ${description}`);
        try {
            let cursor: string | number = 0; // Initialize cursor
@@ -181,7 +197,7 @@ export class RedisStorageProvider implements StorageProvider {
        } catch (error) {
            logger.error(LogCategory.STORAGE, this.providerType, 'Error clearing keys', { 
                pattern,
-               namespace: this.namespace, 
+               namespace, 
                error: error instanceof Error ? error.message : String(error) 
            });
        }
@@ -194,7 +210,7 @@ export class RedisStorageProvider implements StorageProvider {
       const results: Record<string, T | null> = {};
       if (keys.length === 0) return results;
 
-      const fullKeys = keys.map(this.getKey.bind(this));
+      const fullKeys = keys.map(key => this.getKey(key, options?.namespace));
       try {
           // @upstash/redis mget returns parsed results or null
           const values = await this.client.mget<T[]>(...fullKeys);
@@ -223,7 +239,7 @@ export class RedisStorageProvider implements StorageProvider {
         const ttlSeconds = options?.ttlSeconds;
 
         for (const key of keys) {
-            const fullKey = this.getKey(key);
+            const fullKey = this.getKey(key, options?.namespace);
             // mset expects [key1, value1, key2, value2...]
             // Upstash client handles serialization for common types
             pipeline.set(fullKey, items[key], ttlSeconds ? { ex: ttlSeconds } : undefined);
@@ -232,7 +248,7 @@ export class RedisStorageProvider implements StorageProvider {
 
       } catch (error) {
           logger.error(LogCategory.STORAGE, this.providerType, 'Error setting multiple values', {
-              keys: keys.map(this.getKey.bind(this)),
+              keys: keys.map(key => this.getKey(key, options?.namespace)),
               hasTTL: !!options?.ttlSeconds,
               error: error instanceof Error ? error.message : String(error)
           });
@@ -241,7 +257,7 @@ export class RedisStorageProvider implements StorageProvider {
 
   async deleteMany(keys: string[], options?: StorageOptions): Promise<number> {
       if (keys.length === 0) return 0;
-      const fullKeys = keys.map(this.getKey.bind(this));
+      const fullKeys = keys.map(key => this.getKey(key, options?.namespace));
       try {
           // del returns the number of keys deleted
           const result = await this.client.del(...fullKeys); 
@@ -262,7 +278,7 @@ export class RedisStorageProvider implements StorageProvider {
     end: number = -1,
     options?: StorageOptions
   ): Promise<T[] | null> {
-    const fullKey = this.getKey(key);
+    const fullKey = this.getKey(key, options?.namespace);
     try {
       // LRANGE uses 0-based indices, end is inclusive. -1 means end of list.
       const values = await this.client.lrange<T>(fullKey, start, end);
@@ -270,9 +286,10 @@ export class RedisStorageProvider implements StorageProvider {
         fullKey, 
         count: values?.length ?? 0 
       });
-      // Unlike KV, Upstash LRANGE on a non-existent key returns [], not null.
-      // Check existence first if null is desired for non-existent keys.
-      // For simplicity here, we return what LRANGE gives.
+      // Unlike KV, Upstash LRANGE on a non-existent key returns [], not null
+      if (values.length === 0 && !(await this.client.exists(fullKey))) {
+        return null;
+      }
       return values; 
     } catch (error) {
       logger.error(LogCategory.STORAGE, this.providerType, 'Error getting list', {
@@ -284,13 +301,13 @@ export class RedisStorageProvider implements StorageProvider {
   }
 
   async saveList<T>(key: string, values: T[], options?: StorageOptions): Promise<void> {
-    const fullKey = this.getKey(key);
+    const fullKey = this.getKey(key, options?.namespace);
     try {
       const pipeline = this.client.pipeline();
       pipeline.del(fullKey); // Clear existing list
       if (values.length > 0) {
-        // LPUSH adds elements to the head of the list
-        pipeline.lpush(fullKey, ...values);
+        // RPUSH appends, keeping the elements in order
+        pipeline.rpush(fullKey, ...values);
       }
       const ttlSeconds = options?.ttlSeconds;
       if (ttlSeconds) {
@@ -318,6 +335,73 @@ export class RedisStorageProvider implements StorageProvider {
   }
   // --- END NEW LIST METHODS ---
 
+  // --- Atomic Methods ---
+
+  /**
+   * Compares and writes in one Lua script, so no other command runs in between.
+   * Values go through the client's serializer, as with set(), so they compare as stored.
+   */
+  async compareAndSet<T>(key: string, expected: T | null, value: T, options?: StorageOptions): Promise<boolean> {
+    const fullKey = this.getKey(key, options?.namespace);
+    try {
+      const written = await this.client.eval<unknown[], number>(
+        COMPARE_AND_SET_SCRIPT,
+        [fullKey],
+        [expected === null ? '0' : '1', expected ?? '', value, String(options?.ttlSeconds || 0)]
+      );
+      return written === 1;
+    } catch (error) {
+      logger.error(LogCategory.STORAGE, this.providerType, 'Error in compare-and-set', {
+        key: fullKey,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+  }
+
+  async increment(key: string, amount: number = 1, options?: StorageOptions): Promise<number> {
+    const fullKey = this.getKey(key, options?.namespace);
+    try {
+      const pipeline = this.client.pipeline();
+      pipeline.incrby(fullKey, amount);
+      if (options?.ttlSeconds) {
+        pipeline.expire(fullKey, options.ttlSeconds);
+      }
+      const [value] = await pipeline.exec<[number, ...unknown[]]>();
+      return value;
+    } catch (error) {
+      logger.error(LogCategory.STORAGE, this.providerType, 'Error incrementing value', {
+        key: fullKey,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+  }
+
+  async appendToList<T>(key: string, values: T[], options?: StorageOptions): Promise<number> {
+    const fullKey = this.getKey(key, options?.namespace);
+    try {
+      const pipeline = this.client.pipeline();
+      if (values.length > 0) {
+        pipeline.rpush(fullKey, ...values);
+      } else {
+        // RPUSH needs at least one value; LLEN reports the length unchanged
+        pipeline.llen(fullKey);
+      }
+      if (options?.ttlSeconds) {
+        pipeline.expire(fullKey, options.ttlSeconds);
+      }
+      const [length] = await pipeline.exec<[number, ...unknown[]]>();
+      return length;
+    } catch (error) {
+      logger.error(LogCategory.STORAGE, this.providerType, 'Error appending to list', {
+        key: fullKey,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+  }
+
   /**
    * @upstash/redis client doesn't have an explicit destroy/quit method like ioredis.
    * Connections are typically managed automatically.
@@ -0,0 +1,26 @@
+/**
+ * @fileoverview Lua scripts run by the Redis storage provider.
+ *
+ * Kept apart from the provider so test stand-ins can refer to them without loading
+ * the Redis client.
+ */
+
+/**
+ * Sets KEYS[1] to ARGV[3] if it holds ARGV[2] (or is missing when ARGV[1] is '0'),
+ * with an expiry of ARGV[4] seconds when above 0, keeping the current expiry otherwise.
+ * Returns 1 when written, 0 otherwise.
+ */
+export const COMPARE_AND_SET_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+if ARGV[1] == '1' then
+  if current ~= ARGV[2] then return 0 end
+elseif current then
+  return 0
+end
+if tonumber(ARGV[4]) > 0 then
+  redis.call('SET', KEYS[1], ARGV[3], 'EX', ARGV[4])
+else
+  redis.call('SET', KEYS[1], ARGV[3], 'KEEPTTL')
+end
+return 1
+`;
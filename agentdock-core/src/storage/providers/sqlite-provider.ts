@@ -0,0 +1,343 @@
+/**
+ * @fileoverview SQLite storage provider implementation using better-sqlite3.
+ *
+ * Keeps sessions and orchestration state in a single database file, so a single-box
+ * deployment survives restarts without running a Redis server. Each namespace gets its
+ * own table with a TTL column; lists are stored one row per element so `getList` can read
+ * a range without loading the whole list.
+ */
+
+import path from 'node:path';
+import fs from 'node:fs';
+import Database from 'better-sqlite3';
+import { logger, LogCategory } from '../../logging';
+import {
+  StorageProvider,
+  StorageOptions,
+  ListOptions
+} from '../types';
+
+const DEFAULT_DATABASE_PATH = './.agentdock/agentdock.db';
+
+/**
+ * Configuration for the SQLite storage provider
+ */
+export interface SQLiteStorageProviderConfig {
+  /** Database file, created if missing; `:memory:` keeps the data in memory (default `./.agentdock/agentdock.db`) */
+  path?: string;
+
+  /** Default namespace, used as the table name */
+  namespace?: string;
+}
+
+interface ValueRow {
+  value: string | null;
+  expires_at: number | null;
+  is_list: number;
+}
+
+/**
+ * Quotes a namespace for use as a table name
+ */
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * SQLite storage provider
+ *
+ * @remarks
+ * better-sqlite3 is synchronous; calls are cheap enough on a single box that the
+ * async interface simply wraps them.
+ */
+export class SQLiteStorageProvider implements StorageProvider {
+  private db: Database.Database;
+  private namespace: string;
+  private tables = new Set<string>();
+
+  /**
+   * Creates a new SQLite storage provider
+   *
+   * @param config - Configuration options
+   */
+  constructor(config: SQLiteStorageProviderConfig = {}) {
+    const file = config.path || DEFAULT_DATABASE_PATH;
+    this.namespace = config.namespace || 'default';
+
+    if (file !== ':memory:') {
+      fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+    }
+    this.db = new Database(file);
+    // Lets readers in other processes work while a write is in progress
+    this.db.pragma('journal_mode = WAL');
+
+    logger.debug(
+      LogCategory.STORAGE,
+      'SQLiteStorageProvider',
+      'Initialized SQLite storage provider',
+      { namespace: this.namespace, path: file }
+    );
+  }
+
+  /**
+   * Creates the value and list tables of a namespace on first use, dropping expired rows
+   */
+  private getTables(namespace?: string): { values: string; lists: string } {
+    const ns = namespace || this.namespace;
+    const values = quoteIdentifier(ns);
+    const lists = quoteIdentifier(`${ns}:lists`);
+
+    if (!this.tables.has(ns)) {
+      this.db.exec(`
+        CREATE TABLE IF NOT EXISTS ${values} (
+          key TEXT PRIMARY KEY,
+          value TEXT,
+          expires_at INTEGER,
+          is_list INTEGER NOT NULL DEFAULT 0
+        );
+        CREATE TABLE IF NOT EXISTS ${lists} (
+          key TEXT NOT NULL,
+          position INTEGER NOT NULL,
+          value TEXT NOT NULL,
+          PRIMARY KEY (key, position)
+        );
+      `);
+      this.db.prepare(`DELETE FROM ${lists} WHERE key IN (SELECT key FROM ${values} WHERE expires_at <= ?)`).run(Date.now());
+      this.db.prepare(`DELETE FROM ${values} WHERE expires_at <= ?`).run(Date.now());
+      this.tables.add(ns);
+    }
+
+    return { values, lists };
+  }
+
+  /**
+   * Calculates the expiry timestamp from a TTL
+   */
+  private getExpiresAt(options: StorageOptions): number | null {
+    return typeof options.ttlSeconds === 'number' && options.ttlSeconds > 0
+      ? Date.now() + (options.ttlSeconds * 1000)
+      : null;
+  }
+
+  /**
+   * Reads the row of a key, removing it when it has expired
+   */
+  private getRow(key: string, namespace?: string): ValueRow | undefined {
+    const { values } = this.getTables(namespace);
+    const row = this.db.prepare(`SELECT value, expires_at, is_list FROM ${values} WHERE key = ?`).get(key) as ValueRow | undefined;
+
+    if (row && row.expires_at !== null && row.expires_at <= Date.now()) {
+      this.deleteKey(key, namespace);
+      return undefined;
+    }
+    return row;
+  }
+
+  /**
+   * Deletes a key and its list rows
+   */
+  private deleteKey(key: string, namespace?: string): boolean {
+    const { values, lists } = this.getTables(namespace);
+    return this.db.transaction(() => {
+      this.db.prepare(`DELETE FROM ${lists} WHERE key = ?`).run(key);
+      return this.db.prepare(`DELETE FROM ${values} WHERE key = ?`).run(key).changes > 0;
+    })();
+  }
+
+  /**
+   * Writes a plain value, replacing any list stored under the key
+   */
+  private setValue<T>(key: string, value: T, options: StorageOptions): void {
+    const { values, lists } = this.getTables(options.namespace);
+    this.db.transaction(() => {
+      this.db.prepare(`DELETE FROM ${lists} WHERE key = ?`).run(key);
+      this.db.prepare(`
+        INSERT INTO ${values} (key, value, expires_at, is_list) VALUES (?, ?, ?, 0)
+        ON CONFLICT(key) DO UPDATE SET value = excluded.value, expires_at = excluded.expires_at, is_list = 0
+      `).run(key, JSON.stringify(value), this.getExpiresAt(options));
+    })();
+  }
+
+  /**
+   * Reads list elements in position order, from `start` (inclusive) to `end` (exclusive)
+   */
+  private readListRows<T>(key: string, start: number, end: number, namespace?: string): T[] {
+    const { lists } = this.getTables(namespace);
+    const rows = this.db.prepare(
+      `SELECT value FROM ${lists} WHERE key = ? AND position >= ? AND position < ? ORDER BY position`
+    ).all(key, start, end) as { value: string }[];
+    return rows.map(row => JSON.parse(row.value) as T);
+  }
+
+  /**
+   * Gets a value from storage
+   */
+  public async get<T>(key: string, options: StorageOptions = {}): Promise<T | null> {
+    const row = this.getRow(key, options.namespace);
+    if (!row) {
+      return null;
+    }
+    if (row.is_list) {
+      return this.readListRows(key, 0, Number.MAX_SAFE_INTEGER, options.namespace) as T;
+    }
+    return JSON.parse(row.value as string) as T;
+  }
+
+  /**
+   * Sets a value in storage
+   */
+  public async set<T>(key: string, value: T, options: StorageOptions = {}): Promise<void> {
+    this.setValue(key, value, options);
+  }
+
+  /**
+   * Deletes a value from storage
+   */
+  public async delete(key: string, options: StorageOptions = {}): Promise<boolean> {
+    return this.deleteKey(key, options.namespace);
+  }
+
+  /**
+   * Checks if a key exists in storage
+   */
+  public async exists(key: string, options: StorageOptions = {}): Promise<boolean> {
+    return this.getRow(key, options.namespace) !== undefined;
+  }
+
+  /**
+   * Gets multiple values from storage
+   */
+  public async getMany<T>(keys: string[], options: StorageOptions = {}): Promise<Record<string, T | null>> {
+    const result: Record<string, T | null> = {};
+    for (const key of keys) {
+      result[key] = await this.get<T>(key, options);
+    }
+    return result;
+  }
+
+  /**
+   * Sets multiple values in storage, in one transaction
+   */
+  public async setMany<T>(items: Record<string, T>, options: StorageOptions = {}): Promise<void> {
+    this.db.transaction(() => {
+      for (const [key, value] of Object.entries(items)) {
+        this.setValue(key, value, options);
+      }
+    })();
+  }
+
+  /**
+   * Deletes multiple values from storage, in one transaction
+   */
+  public async deleteMany(keys: string[], options: StorageOptions = {}): Promise<number> {
+    return this.db.transaction(() => keys.filter(key => this.deleteKey(key, options.namespace)).length)();
+  }
+
+  /**
+   * Lists keys with a given prefix, in key order
+   */
+  public async list(prefix: string, options: ListOptions = {}): Promise<string[]> {
+    const { values } = this.getTables(options.namespace);
+    // substr avoids escaping LIKE wildcards in the prefix
+    let sql = `SELECT key FROM ${values} WHERE substr(key, 1, ?) = ? AND (expires_at IS NULL OR expires_at > ?) ORDER BY key`;
+    const params: unknown[] = [prefix.length, prefix, Date.now()];
+
+    if (typeof options.limit === 'number' && options.limit > 0) {
+      sql += ' LIMIT ? OFFSET ?';
+      params.push(options.limit, options.offset || 0);
+    }
+
+    const rows = this.db.prepare(sql).all(...params) as { key: string }[];
+    return rows.map(row => row.key);
+  }
+
+  /**
+   * Clears all data from storage, or the keys with a prefix, in the namespace
+   */
+  public async clear(prefix?: string, options: StorageOptions = {}): Promise<void> {
+    const { values, lists } = this.getTables(options.namespace);
+    const match = prefix ? ' WHERE substr(key, 1, ?) = ?' : '';
+    const params = prefix ? [prefix.length, prefix] : [];
+
+    this.db.transaction(() => {
+      this.db.prepare(`DELETE FROM ${lists}${match}`).run(...params);
+      this.db.prepare(`DELETE FROM ${values}${match}`).run(...params);
+    })();
+  }
+
+  /**
+   * Closes the database; the data stays in the file
+   */
+  public async destroy(): Promise<void> {
+    if (this.db.open) {
+      this.db.close();
+    }
+  }
+
+  /**
+   * Gets a range of elements from a list
+   */
+  public async getList<T>(
+    key: string,
+    start: number = 0,
+    end: number = -1,
+    options: StorageOptions = {}
+  ): Promise<T[] | null> {
+    const row = this.getRow(key, options.namespace);
+    if (!row) {
+      return null;
+    }
+
+    let length: number;
+    let stored: T[] | undefined;
+    if (row.is_list) {
+      const { lists } = this.getTables(options.namespace);
+      length = (this.db.prepare(`SELECT COUNT(*) AS count FROM ${lists} WHERE key = ?`).get(key) as { count: number }).count;
+    } else {
+      // A list written with set() is kept as a plain value
+      const value = JSON.parse(row.value as string);
+      if (!Array.isArray(value)) {
+        return null;
+      }
+      stored = value;
+      length = value.length;
+    }
+
+    // Negative indexes count from the end of the list, as with Redis LRANGE
+    const actualEnd = end < 0 ? length + end + 1 : end + 1;
+    const startIndex = start < 0 ? Math.max(0, length + start) : start;
+    const endIndex = Math.min(length, actualEnd);
+
+    if (startIndex >= endIndex) {
+      return [];
+    }
+
+    return stored
+      ? stored.slice(startIndex, endIndex)
+      : this.readListRows<T>(key, startIndex, endIndex, options.namespace);
+  }
+
+  /**
+   * Saves/overwrites an entire list, one row per element
+   */
+  public async saveList<T>(key: string, values: T[], options: StorageOptions = {}): Promise<void> {
+    const tables = this.getTables(options.namespace);
+    this.db.transaction(() => {
+      this.db.prepare(`DELETE FROM ${tables.lists} WHERE key = ?`).run(key);
+      this.db.prepare(`
+        INSERT INTO ${tables.values} (key, value, expires_at, is_list) VALUES (?, NULL, ?, 1)
+        ON CONFLICT(key) DO UPDATE SET value = NULL, expires_at = excluded.expires_at, is_list = 1
+      `).run(key, this.getExpiresAt(options));
+
+      const insert = this.db.prepare(`INSERT INTO ${tables.lists} (key, position, value) VALUES (?, ?, ?)`);
+      values.forEach((value, position) => insert.run(key, position, JSON.stringify(value)));
+    })();
+  }
+
+  /**
+   * Deletes an entire list
+   */
+  public async deleteList(key: string, options: StorageOptions = {}): Promise<boolean> {
+    return this.deleteKey(key, options.namespace);
+  }
+}
@@ -259,11 +259,9 @@ export class VercelKVProvider implements StorageProvider {
     }
   }
 
-  async clear(prefix?: string): Promise<void> {
+  async clear(prefix?: string, options?: StorageOptions): Promise<void> {
     try {
-      const searchPrefix = prefix 
-        ? this.getKey(prefix)
-        : `${this.namespace}:`;
+      const searchPrefix = this.getKey(prefix || '', options);
         
       const keys = await this.client.keys(`${searchPrefix}*`);
       
@@ -286,7 +284,7 @@ export class VercelKVProvider implements StorageProvider {
         'VercelKVProvider',
         'Error clearing keys',
         {
-          prefix: prefix ? this.getKey(prefix) : this.namespace,
+          prefix: this.getKey(prefix || '', options),
           error: error instanceof Error ? error.message : String(error)
         }
       );
@@ -1,6 +1,11 @@
 /**
  * @fileoverview Enhanced SecureStorage implementation with Web Crypto API, HMAC, and retry handling.
  * Provides secure client-side storage for sensitive data like API keys.
+ *
+ * By default the encryption keys are kept in localStorage next to the data. With a passphrase
+ * set, they are kept encrypted with a key derived from the passphrase (PBKDF2), so the data
+ * can only be read after `unlock()`. The storage locks itself again after a period without
+ * reads or writes.
  */
 
 import { createError, ErrorCode } from '../errors/index';
@@ -17,6 +22,52 @@ interface StorageKey {
   hmacKey: CryptoKey;
 }
 
+/**
+ * Keys of an entry as persisted: JWKs, or the JWKs encrypted with the passphrase key
+ */
+type PersistedKeys =
+  | { encKey: string; hmacKey: string }
+  | { wrapped: string; iv: string };
+
+interface EncryptedText {
+  data: string;
+  iv: string;
+}
+
+/**
+ * Record of the passphrase protecting a namespace
+ */
+interface PassphraseRecord {
+  salt: string;
+  iterations: number;
+
+  /** Known text encrypted with the passphrase key, to verify a passphrase */
+  check: EncryptedText;
+
+  /** Idle time after which the storage locks, 0 to never lock */
+  autoLockMs: number;
+}
+
+export interface PassphraseOptions {
+  /** Lock after this long without reads or writes; 0 never locks (default 15 minutes) */
+  autoLockMs?: number;
+
+  /** PBKDF2 iterations used to derive the key (default 600,000) */
+  iterations?: number;
+}
+
+/**
+ * Settings exported with `exportEncrypted`, encrypted with a key derived from a passphrase
+ */
+export interface SecureStorageExport {
+  format: 'agentdock-secure-storage';
+  version: string;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  iv: string;
+  data: string;
+  exportedAt: number;
+}
+
 /**
  * Enhanced SecureStorage class for client-side encryption
  */
@@ -25,11 +76,21 @@ export class SecureStorage {
   private static readonly MAX_RETRIES = 3;
   private static readonly KEY_ALGORITHM = { name: 'AES-GCM', length: 256 };
   private static readonly HMAC_ALGORITHM = { name: 'HMAC', hash: 'SHA-256' };
+  private static readonly PBKDF2_ITERATIONS = 600_000;
+  private static readonly DEFAULT_AUTO_LOCK_MS = 15 * 60 * 1000;
+  private static readonly PASSPHRASE_CHECK = 'agentdock-passphrase-check';
+  private static readonly EXPORT_FORMAT = 'agentdock-secure-storage';
   private static instance: SecureStorage;
 
   private retryCount: Map<string, number> = new Map();
   private keys: Map<string, StorageKey> = new Map();
 
+  // Set while a passphrase-protected namespace is unlocked
+  private passphraseKey?: CryptoKey;
+  private autoLockMs = 0;
+  private autoLockTimer?: ReturnType<typeof setTimeout>;
+  private lockListeners: Set<(locked: boolean) => void> = new Set();
+
   private constructor(private readonly namespace: string = 'agentdock') {}
 
   /**
@@ -53,7 +114,7 @@ export class SecureStorage {
         this.keys.delete(key);
         this.retryCount.delete(key);
         localStorage.removeItem(this.getStorageKey(key));
-        localStorage.removeItem(`${this.namespace}:keys:${key}`);
+        localStorage.removeItem(this.getKeysStorageKey(key));
       } else {
         // Clear all keys and data for this namespace
         const prefix = `${this.namespace}:`;
@@ -67,6 +128,7 @@ export class SecureStorage {
         // Clear in-memory state
         this.keys.clear();
         this.retryCount.clear();
+        this.forgetPassphraseKey();
 
         // Reset the instance to force new key generation
         SecureStorage.instance = new SecureStorage(this.namespace);
@@ -83,43 +145,15 @@ export class SecureStorage {
    * Store data securely with encryption and HMAC
    */
   async set(key: string, value: unknown): Promise<void> {
+    this.assertUnlocked();
+    this.restartAutoLock();
+
     try {
       // Generate or retrieve encryption keys
       const storageKey = await this.getOrCreateKeys(key);
-      
-      // Prepare data for storage
-      const data = JSON.stringify(value);
-      const iv = crypto.getRandomValues(new Uint8Array(12));
-      
-      // Encrypt data
-      const encryptedData = await crypto.subtle.encrypt(
-        { name: 'AES-GCM', iv },
-        storageKey.key,
-        new TextEncoder().encode(data)
-      );
-
-      // Calculate HMAC
-      const hmac = await this.calculateHMAC(
-        new Uint8Array(encryptedData).buffer,
-        storageKey.hmacKey
-      );
-
-      // Prepare storage object
-      const storageData: StorageData = {
-        data: this.arrayBufferToBase64(encryptedData),
-        hmac: this.arrayBufferToBase64(hmac),
-        version: SecureStorage.STORAGE_VERSION,
-        timestamp: Date.now()
-      };
 
       // Store with namespace and IV
-      localStorage.setItem(
-        this.getStorageKey(key),
-        JSON.stringify({
-          ...storageData,
-          iv: this.arrayBufferToBase64(iv.buffer)
-        })
-      );
+      localStorage.setItem(this.getStorageKey(key), await this.encryptEntry(value, storageKey));
 
       // Reset retry count on successful operation
       this.retryCount.delete(key);
@@ -142,6 +176,9 @@ export class SecureStorage {
       const stored = localStorage.getItem(this.getStorageKey(key));
       if (!stored) return null;
 
+      this.assertUnlocked();
+      this.restartAutoLock();
+
       // Parse stored data
       const { data, hmac, iv, version } = JSON.parse(stored);
       
@@ -261,6 +298,7 @@ export class SecureStorage {
       }
       this.keys.clear();
       this.retryCount.clear();
+      this.forgetPassphraseKey();
     } catch (error) {
       throw createError('storage', 'Failed to clear storage', ErrorCode.STORAGE_DELETE, {
         operation: 'clear',
@@ -269,6 +307,262 @@ export class SecureStorage {
     }
   }
 
+  /**
+   * Whether the encryption keys are protected with a passphrase
+   */
+  isPassphraseProtected(): boolean {
+    return this.readPassphraseRecord() !== null;
+  }
+
+  /**
+   * Whether the storage is protected and waiting for `unlock()`; reads and writes fail until then
+   */
+  isLocked(): boolean {
+    return !this.passphraseKey && this.isPassphraseProtected();
+  }
+
+  /**
+   * Subscribe to the storage locking and unlocking, including the idle auto-lock
+   *
+   * @returns A function that removes the listener
+   */
+  onLockChange(listener: (locked: boolean) => void): () => void {
+    this.lockListeners.add(listener);
+    return () => {
+      this.lockListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Protect the encryption keys with a passphrase, or change the passphrase.
+   * The storage stays unlocked afterwards.
+   */
+  async setPassphrase(passphrase: string, options: PassphraseOptions = {}): Promise<void> {
+    this.assertUnlocked();
+    this.assertPassphrase(passphrase);
+
+    try {
+      // Load every entry's keys while they can still be read with the current protection
+      const entries = this.listEntries();
+      const storageKeys = new Map<string, StorageKey>();
+      for (const key of entries) {
+        storageKeys.set(key, await this.getOrCreateKeys(key));
+      }
+
+      const salt = crypto.getRandomValues(new Uint8Array(16));
+      const iterations = options.iterations ?? SecureStorage.PBKDF2_ITERATIONS;
+      const passphraseKey = await this.derivePassphraseKey(passphrase, salt.buffer, iterations);
+      const record: PassphraseRecord = {
+        salt: this.arrayBufferToBase64(salt.buffer),
+        iterations,
+        check: await this.encryptText(SecureStorage.PASSPHRASE_CHECK, passphraseKey),
+        autoLockMs: options.autoLockMs ?? SecureStorage.DEFAULT_AUTO_LOCK_MS
+      };
+
+      const persisted = new Map<string, string>();
+      for (const [key, storageKey] of storageKeys) {
+        persisted.set(key, await this.serializeKeys(storageKey, passphraseKey));
+      }
+
+      // Write everything at once, so the keys never end up protected by two different passphrases
+      for (const [key, value] of persisted) {
+        localStorage.setItem(this.getKeysStorageKey(key), value);
+      }
+      localStorage.setItem(this.getPassphraseStorageKey(), JSON.stringify(record));
+
+      this.passphraseKey = passphraseKey;
+      this.autoLockMs = record.autoLockMs;
+      this.restartAutoLock();
+      this.notifyLockChange(false);
+    } catch (error) {
+      throw createError('storage', 'Failed to set passphrase', ErrorCode.STORAGE_WRITE, {
+        operation: 'setPassphrase',
+        cause: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Stop protecting the encryption keys with a passphrase. The storage has to be unlocked.
+   */
+  async removePassphrase(): Promise<void> {
+    this.assertUnlocked();
+    if (!this.isPassphraseProtected()) return;
+
+    try {
+      const persisted = new Map<string, string>();
+      for (const key of this.listEntries()) {
+        persisted.set(key, await this.serializeKeys(await this.getOrCreateKeys(key)));
+      }
+
+      for (const [key, value] of persisted) {
+        localStorage.setItem(this.getKeysStorageKey(key), value);
+      }
+      localStorage.removeItem(this.getPassphraseStorageKey());
+      this.forgetPassphraseKey();
+    } catch (error) {
+      throw createError('storage', 'Failed to remove passphrase', ErrorCode.STORAGE_WRITE, {
+        operation: 'removePassphrase',
+        cause: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Unlock a passphrase-protected storage. Does nothing when there is no passphrase.
+   */
+  async unlock(passphrase: string): Promise<void> {
+    const record = this.readPassphraseRecord();
+    if (!record) return;
+
+    const passphraseKey = await this.derivePassphraseKey(
+      passphrase,
+      this.base64ToArrayBuffer(record.salt),
+      record.iterations
+    );
+
+    try {
+      // AES-GCM fails to decrypt with a key derived from another passphrase
+      await this.decryptText(record.check, passphraseKey);
+    } catch {
+      throw createError('storage', 'Incorrect passphrase', ErrorCode.DECRYPTION_FAILED, {
+        operation: 'unlock'
+      });
+    }
+
+    this.passphraseKey = passphraseKey;
+    this.autoLockMs = record.autoLockMs;
+    this.keys.clear();
+    this.retryCount.clear();
+    this.restartAutoLock();
+    this.notifyLockChange(false);
+  }
+
+  /**
+   * Lock a passphrase-protected storage, dropping its keys from memory
+   */
+  lock(): void {
+    if (!this.passphraseKey) return;
+    this.forgetPassphraseKey();
+    this.notifyLockChange(true);
+  }
+
+  /**
+   * Re-encrypt every entry of the namespace with newly generated keys
+   *
+   * @returns The number of entries re-encrypted
+   */
+  async rotateKeys(): Promise<number> {
+    this.assertUnlocked();
+    this.restartAutoLock();
+
+    try {
+      // Read every entry first, so a failure leaves all of them as they were
+      const values = new Map<string, unknown>();
+      for (const key of this.listEntries()) {
+        values.set(key, await this.get(key));
+      }
+
+      for (const [key, value] of values) {
+        const storageKey = await this.generateKeys();
+        const persistedKeys = await this.serializeKeys(storageKey, this.passphraseKey);
+        const entry = await this.encryptEntry(value, storageKey);
+
+        localStorage.setItem(this.getKeysStorageKey(key), persistedKeys);
+        localStorage.setItem(this.getStorageKey(key), entry);
+        this.keys.set(key, storageKey);
+      }
+
+      return values.size;
+    } catch (error) {
+      if (error instanceof Error && 'code' in error && typeof error.code === 'string') {
+        throw error;
+      }
+      throw createError('storage', 'Failed to rotate keys', ErrorCode.STORAGE_WRITE, {
+        operation: 'rotateKeys',
+        cause: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Export every entry of the namespace, encrypted with a key derived from the passphrase,
+   * to import in another browser with `importEncrypted`
+   *
+   * @returns The export as JSON
+   */
+  async exportEncrypted(passphrase: string, options: Pick<PassphraseOptions, 'iterations'> = {}): Promise<string> {
+    this.assertUnlocked();
+    this.assertPassphrase(passphrase);
+
+    const entries: Record<string, unknown> = {};
+    for (const key of this.listEntries()) {
+      entries[key] = await this.get(key);
+    }
+
+    try {
+      const salt = crypto.getRandomValues(new Uint8Array(16));
+      const iterations = options.iterations ?? SecureStorage.PBKDF2_ITERATIONS;
+      const exportKey = await this.derivePassphraseKey(passphrase, salt.buffer, iterations);
+      const encrypted = await this.encryptText(JSON.stringify(entries), exportKey);
+
+      const exported: SecureStorageExport = {
+        format: SecureStorage.EXPORT_FORMAT,
+        version: SecureStorage.STORAGE_VERSION,
+        kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations, salt: this.arrayBufferToBase64(salt.buffer) },
+        iv: encrypted.iv,
+        data: encrypted.data,
+        exportedAt: Date.now()
+      };
+      return JSON.stringify(exported);
+    } catch (error) {
+      throw createError('storage', 'Failed to export data', ErrorCode.STORAGE_READ, {
+        operation: 'export',
+        cause: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Import entries exported with `exportEncrypted`, replacing entries with the same keys
+   *
+   * @returns The number of entries imported
+   */
+  async importEncrypted(exported: string, passphrase: string): Promise<number> {
+    this.assertUnlocked();
+
+    let parsed: SecureStorageExport;
+    try {
+      parsed = JSON.parse(exported);
+    } catch {
+      parsed = {} as SecureStorageExport;
+    }
+    if (parsed.format !== SecureStorage.EXPORT_FORMAT || !parsed.kdf || !parsed.data || !parsed.iv) {
+      throw createError('storage', 'Not an AgentDock settings export', ErrorCode.VALIDATION_ERROR, {
+        operation: 'import'
+      });
+    }
+
+    let entries: Record<string, unknown>;
+    try {
+      const importKey = await this.derivePassphraseKey(
+        passphrase,
+        this.base64ToArrayBuffer(parsed.kdf.salt),
+        parsed.kdf.iterations
+      );
+      entries = JSON.parse(await this.decryptText({ data: parsed.data, iv: parsed.iv }, importKey));
+    } catch {
+      throw createError('storage', 'Incorrect passphrase or damaged export', ErrorCode.DECRYPTION_FAILED, {
+        operation: 'import'
+      });
+    }
+
+    for (const [key, value] of Object.entries(entries)) {
+      await this.set(key, value);
+    }
+    return Object.keys(entries).length;
+  }
+
   /**
    * Get or create encryption and HMAC keys for a storage key
    */
@@ -277,34 +571,10 @@ export class SecureStorage {
     if (!this.keys.has(key)) {
       // Try to load persisted keys from localStorage
       try {
-        const persistedKeysKey = `${this.namespace}:keys:${key}`;
-        const persistedKeys = localStorage.getItem(persistedKeysKey);
+        const persistedKeys = localStorage.getItem(this.getKeysStorageKey(key));
         
         if (persistedKeys) {
-          const { encKey, hmacKey } = JSON.parse(persistedKeys);
-          
-          // Import the persisted keys
-          const importedEncKey = await crypto.subtle.importKey(
-            'jwk',
-            JSON.parse(encKey),
-            SecureStorage.KEY_ALGORITHM,
-            true,
-            ['encrypt', 'decrypt']
-          );
-          
-          const importedHmacKey = await crypto.subtle.importKey(
-            'jwk',
-            JSON.parse(hmacKey),
-            SecureStorage.HMAC_ALGORITHM,
-            true,
-            ['sign', 'verify']
-          );
-          
-          // Store the imported keys in memory
-          const storageKey: StorageKey = { 
-            key: importedEncKey, 
-            hmacKey: importedHmacKey 
-          };
+          const storageKey = await this.importKeys(JSON.parse(persistedKeys));
           this.keys.set(key, storageKey);
           
           console.log(`Successfully loaded persisted keys for ${key}`);
@@ -315,30 +585,12 @@ export class SecureStorage {
       }
       
       // If no persisted keys or loading failed, generate new keys
-      const encryptionKey = await crypto.subtle.generateKey(
-        SecureStorage.KEY_ALGORITHM,
-        true,
-        ['encrypt', 'decrypt']
-      ) as CryptoKey;
-
-      const hmacKey = await crypto.subtle.generateKey(
-        SecureStorage.HMAC_ALGORITHM,
-        true,
-        ['sign', 'verify']
-      ) as CryptoKey;
-
-      const storageKey: StorageKey = { key: encryptionKey, hmacKey };
+      const storageKey = await this.generateKeys();
       this.keys.set(key, storageKey);
       
       // Export and persist the new keys
       try {
-        const exportedEncKey = await crypto.subtle.exportKey('jwk', encryptionKey);
-        const exportedHmacKey = await crypto.subtle.exportKey('jwk', hmacKey);
-        
-        localStorage.setItem(`${this.namespace}:keys:${key}`, JSON.stringify({
-          encKey: JSON.stringify(exportedEncKey),
-          hmacKey: JSON.stringify(exportedHmacKey)
-        }));
+        localStorage.setItem(this.getKeysStorageKey(key), await this.serializeKeys(storageKey, this.passphraseKey));
       } catch (error) {
         console.warn('Failed to persist encryption keys:', error);
       }
@@ -349,6 +601,233 @@ export class SecureStorage {
     return this.keys.get(key)!;
   }
 
+  /**
+   * Generate a new encryption and HMAC key pair
+   */
+  private async generateKeys(): Promise<StorageKey> {
+    const encryptionKey = await crypto.subtle.generateKey(
+      SecureStorage.KEY_ALGORITHM,
+      true,
+      ['encrypt', 'decrypt']
+    ) as CryptoKey;
+
+    const hmacKey = await crypto.subtle.generateKey(
+      SecureStorage.HMAC_ALGORITHM,
+      true,
+      ['sign', 'verify']
+    ) as CryptoKey;
+
+    return { key: encryptionKey, hmacKey };
+  }
+
+  /**
+   * Export keys for localStorage, encrypted when the storage is passphrase-protected
+   */
+  private async serializeKeys(storageKey: StorageKey, passphraseKey?: CryptoKey): Promise<string> {
+    const encKey = JSON.stringify(await crypto.subtle.exportKey('jwk', storageKey.key));
+    const hmacKey = JSON.stringify(await crypto.subtle.exportKey('jwk', storageKey.hmacKey));
+
+    if (!passphraseKey) {
+      return JSON.stringify({ encKey, hmacKey });
+    }
+
+    const { data, iv } = await this.encryptText(JSON.stringify({ encKey, hmacKey }), passphraseKey);
+    return JSON.stringify({ wrapped: data, iv });
+  }
+
+  /**
+   * Import keys persisted with `serializeKeys`
+   */
+  private async importKeys(persisted: PersistedKeys): Promise<StorageKey> {
+    let jwks: { encKey: string; hmacKey: string };
+    if ('wrapped' in persisted) {
+      if (!this.passphraseKey) {
+        throw new Error('Keys are protected with a passphrase');
+      }
+      jwks = JSON.parse(await this.decryptText({ data: persisted.wrapped, iv: persisted.iv }, this.passphraseKey));
+    } else {
+      jwks = persisted;
+    }
+
+    const key = await crypto.subtle.importKey(
+      'jwk',
+      JSON.parse(jwks.encKey),
+      SecureStorage.KEY_ALGORITHM,
+      true,
+      ['encrypt', 'decrypt']
+    );
+
+    const hmacKey = await crypto.subtle.importKey(
+      'jwk',
+      JSON.parse(jwks.hmacKey),
+      SecureStorage.HMAC_ALGORITHM,
+      true,
+      ['sign', 'verify']
+    );
+
+    return { key, hmacKey };
+  }
+
+  /**
+   * Encrypt a value and calculate its HMAC, returning the entry to store
+   */
+  private async encryptEntry(value: unknown, storageKey: StorageKey): Promise<string> {
+    // Prepare data for storage
+    const data = JSON.stringify(value);
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+
+    // Encrypt data
+    const encryptedData = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      storageKey.key,
+      new TextEncoder().encode(data)
+    );
+
+    // Calculate HMAC
+    const hmac = await this.calculateHMAC(
+      new Uint8Array(encryptedData).buffer,
+      storageKey.hmacKey
+    );
+
+    // Prepare storage object
+    const storageData: StorageData = {
+      data: this.arrayBufferToBase64(encryptedData),
+      hmac: this.arrayBufferToBase64(hmac),
+      version: SecureStorage.STORAGE_VERSION,
+      timestamp: Date.now()
+    };
+
+    return JSON.stringify({
+      ...storageData,
+      iv: this.arrayBufferToBase64(iv.buffer)
+    });
+  }
+
+  /**
+   * Derive an AES-GCM key from a passphrase with PBKDF2
+   */
+  private async derivePassphraseKey(passphrase: string, salt: ArrayBuffer, iterations: number): Promise<CryptoKey> {
+    const material = await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(passphrase),
+      'PBKDF2',
+      false,
+      ['deriveKey']
+    );
+
+    return crypto.subtle.deriveKey(
+      { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+      material,
+      SecureStorage.KEY_ALGORITHM,
+      false,
+      ['encrypt', 'decrypt']
+    );
+  }
+
+  /**
+   * Encrypt text with AES-GCM
+   */
+  private async encryptText(text: string, key: CryptoKey): Promise<EncryptedText> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const encrypted = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(text));
+    return { data: this.arrayBufferToBase64(encrypted), iv: this.arrayBufferToBase64(iv.buffer) };
+  }
+
+  /**
+   * Decrypt text encrypted with `encryptText`; fails when the key is wrong or the data was changed
+   */
+  private async decryptText(encrypted: EncryptedText, key: CryptoKey): Promise<string> {
+    const decrypted = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: this.base64ToArrayBuffer(encrypted.iv) },
+      key,
+      this.base64ToArrayBuffer(encrypted.data)
+    );
+    return new TextDecoder().decode(decrypted);
+  }
+
+  /**
+   * Read the passphrase record, or null when the namespace is not protected
+   */
+  private readPassphraseRecord(): PassphraseRecord | null {
+    try {
+      const stored = localStorage.getItem(this.getPassphraseStorageKey());
+      if (!stored) return null;
+
+      const record = JSON.parse(stored);
+      return typeof record?.salt === 'string' && typeof record.check?.data === 'string' ? record : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Throw when the storage is waiting for its passphrase
+   */
+  private assertUnlocked(): void {
+    if (this.isLocked()) {
+      throw createError('storage', 'Secure storage is locked', ErrorCode.STORAGE_LOCKED, {
+        namespace: this.namespace
+      });
+    }
+  }
+
+  private assertPassphrase(passphrase: string): void {
+    if (!passphrase) {
+      throw createError('storage', 'Passphrase must not be empty', ErrorCode.VALIDATION_ERROR);
+    }
+  }
+
+  /**
+   * Restart the idle timer of an unlocked, passphrase-protected storage
+   */
+  private restartAutoLock(): void {
+    if (this.autoLockTimer) {
+      clearTimeout(this.autoLockTimer);
+      this.autoLockTimer = undefined;
+    }
+    if (this.passphraseKey && this.autoLockMs > 0) {
+      this.autoLockTimer = setTimeout(() => this.lock(), this.autoLockMs);
+    }
+  }
+
+  /**
+   * Drop the passphrase key and the keys it unlocked from memory
+   */
+  private forgetPassphraseKey(): void {
+    if (this.autoLockTimer) {
+      clearTimeout(this.autoLockTimer);
+      this.autoLockTimer = undefined;
+    }
+    if (this.passphraseKey) {
+      this.passphraseKey = undefined;
+      this.keys.clear();
+    }
+  }
+
+  private notifyLockChange(locked: boolean): void {
+    for (const listener of this.lockListeners) {
+      listener(locked);
+    }
+  }
+
+  /**
+   * Storage keys of the entries in the namespace, found through their persisted keys
+   */
+  private listEntries(): string[] {
+    const prefix = `${this.namespace}:keys:`;
+    const entries: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const item = localStorage.key(i);
+      if (item?.startsWith(prefix)) {
+        const key = item.slice(prefix.length);
+        if (localStorage.getItem(this.getStorageKey(key)) !== null) {
+          entries.push(key);
+        }
+      }
+    }
+    return entries;
+  }
+
   /**
    * Calculate HMAC for data
    */
@@ -382,8 +861,7 @@ export class SecureStorage {
     this.keys.delete(key);
     
     // Clear persisted keys from localStorage
-    const persistedKeysKey = `${this.namespace}:keys:${key}`;
-    localStorage.removeItem(persistedKeysKey);
+    localStorage.removeItem(this.getKeysStorageKey(key));
     
     // Also clear the stored data since we can't decrypt it anymore
     localStorage.removeItem(this.getStorageKey(key));
@@ -399,6 +877,20 @@ export class SecureStorage {
     return `${this.namespace}:${key}`;
   }
 
+  /**
+   * Get the storage key of the persisted encryption keys for a storage key
+   */
+  private getKeysStorageKey(key: string): string {
+    return `${this.namespace}:keys:${key}`;
+  }
+
+  /**
+   * Get the storage key of the passphrase record
+   */
+  private getPassphraseStorageKey(): string {
+    return `${this.namespace}:passphrase`;
+  }
+
   /**
    * Convert ArrayBuffer to Base64 string
    */
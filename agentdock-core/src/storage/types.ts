@@ -119,7 +119,7 @@ export interface StorageProvider {
    * 
    * @param prefix - The prefix to filter by
    * @param options - Optional list options
-   * @returns Array of matching keys
+   * @returns Array of matching keys, in key order so pages stay stable
    */
   list(prefix: string, options?: ListOptions): Promise<string[]>;
   
@@ -127,14 +127,15 @@ export interface StorageProvider {
    * Clears all data from storage
    * 
    * @param prefix - Optional prefix to limit clearing to keys with this prefix
+   * @param options - Optional storage options; only the namespace applies
    */
-  clear(prefix?: string): Promise<void>;
+  clear(prefix?: string, options?: StorageOptions): Promise<void>;
   
   /**
    * Gets a range of elements from a list in storage
    * 
    * @param key - The key of the list to retrieve
-   * @param start - The starting index (0-based, inclusive)
+   * @param start - The starting index (0-based, inclusive, negative counts from the end)
    * @param end - The ending index (0-based, inclusive, use -1 for end)
    * @param options - Optional storage options
    * @returns Array of values or null if the list doesn't exist
@@ -160,6 +161,41 @@ export interface StorageProvider {
    * @returns Whether the list was deleted
    */
   deleteList(key: string, options?: StorageOptions): Promise<boolean>;
+
+  /**
+   * Writes a value only if the key still holds the expected value (compared in serialized form).
+   * Optional; lets callers do read-modify-write without losing concurrent updates. The key
+   * keeps its TTL unless `ttlSeconds` is given.
+   * 
+   * @param key - The key to set
+   * @param expected - The value last read, or null when the key must not exist
+   * @param value - The value to store
+   * @param options - Optional storage options (e.g., ttl)
+   * @returns Whether the value was written
+   */
+  compareAndSet?<T>(key: string, expected: T | null, value: T, options?: StorageOptions): Promise<boolean>;
+
+  /**
+   * Atomically adds to a numeric value, starting from 0 when the key is missing.
+   * Optional. The key keeps its TTL unless `ttlSeconds` is given.
+   * 
+   * @param key - The key of the counter
+   * @param amount - The amount to add (default 1, may be negative)
+   * @param options - Optional storage options
+   * @returns The new value
+   */
+  increment?(key: string, amount?: number, options?: StorageOptions): Promise<number>;
+
+  /**
+   * Atomically appends values to the end of a list, creating it when missing.
+   * Optional. The list keeps its TTL unless `ttlSeconds` is given.
+   * 
+   * @param key - The key of the list
+   * @param values - The values to append
+   * @param options - Optional storage options
+   * @returns The new length of the list
+   */
+  appendToList?<T>(key: string, values: T[], options?: StorageOptions): Promise<number>;
   
   /**
    * Destroys the provider and cleans up resources
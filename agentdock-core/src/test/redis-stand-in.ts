@@ -0,0 +1,282 @@
+/**
+ * @fileoverview In-process stand-in for the `@upstash/redis` client.
+ *
+ * Implements the commands `RedisStorageProvider` uses, with Redis semantics (key types,
+ * TTLs, SCAN glob patterns, LRANGE indexes), so the provider can be tested without a
+ * Redis server:
+ *
+ * ```typescript
+ * jest.mock('@upstash/redis', () => ({ Redis: jest.requireActual('../../test/redis-stand-in').RedisStandIn }));
+ * ```
+ *
+ * Expiry is based on `Date.now()`, so Jest fake timers move it forward. There is no Lua
+ * interpreter: `eval` runs JavaScript equivalents of the provider's scripts.
+ */
+
+import { COMPARE_AND_SET_SCRIPT } from '../storage/providers/redis-scripts';
+
+type Entry =
+  | { type: 'string'; value: string; expiresAt?: number }
+  | { type: 'list'; items: string[]; expiresAt?: number };
+
+const WRONG_TYPE = 'WRONGTYPE Operation against a key holding the wrong kind of value';
+
+/**
+ * Serializes values the way the Upstash client does
+ */
+function serialize(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Deserializes values the way the Upstash client does: JSON when it parses, the raw string otherwise
+ */
+function deserialize<T>(value: string): T {
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return value as unknown as T;
+  }
+}
+
+/**
+ * Converts a Redis glob pattern (`*`, `?` and backslash escapes) to a regular expression
+ */
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\' && i + 1 < pattern.length) {
+      source += pattern[++i].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    } else if (char === '*') {
+      source += '.*';
+    } else if (char === '?') {
+      source += '.';
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`, 's');
+}
+
+/**
+ * JavaScript equivalents of the Lua scripts, called with serialized arguments like Redis would.
+ * They run without awaiting, so like a script in Redis nothing else runs in between.
+ */
+const SCRIPTS = new Map<string, (client: RedisStandIn, keys: string[], args: string[]) => unknown>([
+  [COMPARE_AND_SET_SCRIPT, (client, [key], [hasExpected, expected, value, ttlSeconds]) => {
+    const current = client.getRaw(key);
+    if (hasExpected === '1' ? current !== expected : current !== null) return 0;
+    client.setRaw(key, value, Number(ttlSeconds), true);
+    return 1;
+  }]
+]);
+
+/**
+ * Commands queued by `pipeline()` and run in order by `exec()`
+ */
+class PipelineStandIn {
+  private commands: (() => Promise<unknown>)[] = [];
+
+  constructor(private client: RedisStandIn) {}
+
+  set(key: string, value: unknown, options?: { ex?: number }): this {
+    this.commands.push(() => this.client.set(key, value, options));
+    return this;
+  }
+
+  del(...keys: string[]): this {
+    this.commands.push(() => this.client.del(...keys));
+    return this;
+  }
+
+  lpush(key: string, ...values: unknown[]): this {
+    this.commands.push(() => this.client.lpush(key, ...values));
+    return this;
+  }
+
+  rpush(key: string, ...values: unknown[]): this {
+    this.commands.push(() => this.client.rpush(key, ...values));
+    return this;
+  }
+
+  expire(key: string, seconds: number): this {
+    this.commands.push(() => this.client.expire(key, seconds));
+    return this;
+  }
+
+  incrby(key: string, amount: number): this {
+    this.commands.push(() => this.client.incrby(key, amount));
+    return this;
+  }
+
+  llen(key: string): this {
+    this.commands.push(() => this.client.llen(key));
+    return this;
+  }
+
+  async exec(): Promise<unknown[]> {
+    const results: unknown[] = [];
+    for (const command of this.commands) {
+      results.push(await command());
+    }
+    this.commands = [];
+    return results;
+  }
+}
+
+/**
+ * Stand-in for the Upstash `Redis` client; each instance holds its own data
+ */
+export class RedisStandIn {
+  private data = new Map<string, Entry>();
+  private cursors = new Map<number, string>();
+  private lastCursor = 0;
+
+  // Accepts the client config so it can replace `Redis` one for one
+  constructor(_config?: { url?: string; token?: string }) {}
+
+  private read(key: string): Entry | undefined {
+    const entry = this.data.get(key);
+    if (entry && entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.data.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  private readList(key: string): Extract<Entry, { type: 'list' }> | undefined {
+    const entry = this.read(key);
+    if (entry && entry.type !== 'list') {
+      throw new Error(WRONG_TYPE);
+    }
+    return entry;
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    const entry = this.read(key);
+    if (!entry) return null;
+    if (entry.type !== 'string') throw new Error(WRONG_TYPE);
+    return deserialize<T>(entry.value);
+  }
+
+  async set(key: string, value: unknown, options?: { ex?: number }): Promise<'OK'> {
+    this.setRaw(key, serialize(value), options?.ex);
+    return 'OK';
+  }
+
+  /**
+   * Value of a string key as stored, for the script equivalents
+   */
+  getRaw(key: string): string | null {
+    const entry = this.read(key);
+    if (!entry) return null;
+    if (entry.type !== 'string') throw new Error(WRONG_TYPE);
+    return entry.value;
+  }
+
+  /**
+   * Stores a serialized value; like SET, a write without an expiry drops any earlier TTL
+   * unless `keepTtl` is set (SET ... KEEPTTL)
+   */
+  setRaw(key: string, value: string, ttlSeconds?: number, keepTtl = false): void {
+    this.data.set(key, {
+      type: 'string',
+      value,
+      expiresAt: ttlSeconds ? Date.now() + ttlSeconds * 1000 : keepTtl ? this.read(key)?.expiresAt : undefined
+    });
+  }
+
+  async incrby(key: string, amount: number): Promise<number> {
+    const entry = this.read(key);
+    if (entry && entry.type !== 'string') throw new Error(WRONG_TYPE);
+
+    const current = entry ? Number(entry.value) : 0;
+    if (!Number.isInteger(current)) {
+      throw new Error('ERR value is not an integer or out of range');
+    }
+    // Like INCRBY, the key keeps its TTL
+    this.data.set(key, { type: 'string', value: String(current + amount), expiresAt: entry?.expiresAt });
+    return current + amount;
+  }
+
+  async eval(script: string, keys: string[], args: unknown[]): Promise<unknown> {
+    const run = SCRIPTS.get(script);
+    if (!run) {
+      throw new Error('NOSCRIPT The stand-in has no equivalent for this script');
+    }
+    return run(this, keys, args.map(serialize));
+  }
+
+  async mget<T extends unknown[]>(...keys: string[]): Promise<T> {
+    return keys.map(key => {
+      const entry = this.read(key);
+      return entry?.type === 'string' ? deserialize(entry.value) : null;
+    }) as T;
+  }
+
+  async del(...keys: string[]): Promise<number> {
+    return keys.filter(key => this.read(key) && this.data.delete(key)).length;
+  }
+
+  async exists(...keys: string[]): Promise<number> {
+    return keys.filter(key => this.read(key)).length;
+  }
+
+  async expire(key: string, seconds: number): Promise<0 | 1> {
+    const entry = this.read(key);
+    if (!entry) return 0;
+    entry.expiresAt = Date.now() + seconds * 1000;
+    return 1;
+  }
+
+  async scan(cursor: number | string, options: { match?: string; count?: number } = {}): Promise<[string, string[]]> {
+    // Cursors resume after the last key returned, so keys deleted between calls are not skipped
+    const after = Number(cursor) === 0 ? undefined : this.cursors.get(Number(cursor));
+    const remaining = Array.from(this.data.keys())
+      .filter(key => this.read(key) && (after === undefined || key > after))
+      .sort();
+    const batch = remaining.slice(0, options.count || 10);
+    const matcher = options.match ? globToRegExp(options.match) : null;
+    const keys = batch.filter(key => !matcher || matcher.test(key));
+
+    if (batch.length === remaining.length) {
+      return ['0', keys];
+    }
+    const next = ++this.lastCursor;
+    this.cursors.set(next, batch[batch.length - 1]);
+    return [String(next), keys];
+  }
+
+  async lpush(key: string, ...values: unknown[]): Promise<number> {
+    const entry = this.readList(key) || { type: 'list', items: [] };
+    entry.items.unshift(...values.map(serialize).reverse());
+    this.data.set(key, entry);
+    return entry.items.length;
+  }
+
+  async rpush(key: string, ...values: unknown[]): Promise<number> {
+    const entry = this.readList(key) || { type: 'list', items: [] };
+    entry.items.push(...values.map(serialize));
+    this.data.set(key, entry);
+    return entry.items.length;
+  }
+
+  async llen(key: string): Promise<number> {
+    return this.readList(key)?.items.length ?? 0;
+  }
+
+  async lrange<T>(key: string, start: number, stop: number): Promise<T[]> {
+    const entry = this.readList(key);
+    if (!entry) return [];
+
+    const length = entry.items.length;
+    const from = start < 0 ? Math.max(0, length + start) : start;
+    const to = stop < 0 ? length + stop : Math.min(stop, length - 1);
+    return entry.items.slice(from, Math.max(0, to + 1)).map(item => deserialize<T>(item));
+  }
+
+  pipeline(): PipelineStandIn {
+    return new PipelineStandIn(this);
+  }
+}
@@ -296,6 +296,10 @@ export function createMockOrchestrationManager(options: {
     getStepId?: jest.Mock;
   };
   getActiveStep?: jest.Mock;
+  getStepInputs?: jest.Mock;
+  recordStepOutput?: jest.Mock;
+  authorizeToolCall?: jest.Mock;
+  recordToolCall?: jest.Mock;
   checkCondition?: jest.Mock;
   registerTools?: jest.Mock;
   switchFlow?: jest.Mock;
@@ -322,6 +326,10 @@ export function createMockOrchestrationManager(options: {
       getStepId: options.sequencer?.getStepId || jest.fn()
     },
     getActiveStep: options.getActiveStep || jest.fn(),
+    getStepInputs: options.getStepInputs || jest.fn().mockResolvedValue({}),
+    recordStepOutput: options.recordStepOutput || jest.fn(),
+    authorizeToolCall: options.authorizeToolCall || jest.fn().mockResolvedValue({ allowed: true }),
+    recordToolCall: options.recordToolCall || jest.fn(),
     checkCondition: options.checkCondition || jest.fn(),
     registerTools: options.registerTools || jest.fn(),
     switchFlow: options.switchFlow || jest.fn(),
@@ -0,0 +1,467 @@
+/**
+ * @fileoverview Conformance test kit for StorageProvider implementations.
+ *
+ * Registers a Jest suite covering every method of the `StorageProvider` interface, so
+ * built-in and third-party providers can show they behave the same way:
+ *
+ * ```typescript
+ * import { runStorageProviderConformance } from 'agentdock-core/testing';
+ *
+ * runStorageProviderConformance(() => new MyStorageProvider({ namespace: 'conformance' }), {
+ *   name: 'MyStorageProvider'
+ * });
+ * ```
+ *
+ * Call it at the top level of a test file. The factory should return a provider whose
+ * default namespace holds no data; the suite clears the namespaces it writes to after
+ * each test. The optional atomic methods (`compareAndSet`, `increment`, `appendToList`)
+ * are checked when the provider has them, including under concurrent calls.
+ */
+
+import { StorageProvider } from '../storage/types';
+
+/**
+ * Options for the conformance suite
+ */
+export interface StorageProviderConformanceOptions {
+  /** Name shown in the test report (default `StorageProvider`) */
+  name?: string;
+}
+
+/** Namespace used for the namespace override checks */
+const OTHER_NAMESPACE = 'conformance-other';
+
+/**
+ * Registers the StorageProvider conformance suite
+ *
+ * @param factory - Creates the provider under test; called before each test
+ * @param options - Suite options
+ */
+export function runStorageProviderConformance(
+  factory: () => StorageProvider | Promise<StorageProvider>,
+  options: StorageProviderConformanceOptions = {}
+): void {
+  describe(`${options.name || 'StorageProvider'} conformance`, () => {
+    let provider: StorageProvider;
+
+    beforeEach(async () => {
+      provider = await factory();
+    });
+
+    afterEach(async () => {
+      jest.useRealTimers();
+      await provider.clear();
+      await provider.deleteMany(await provider.list('', { namespace: OTHER_NAMESPACE }), { namespace: OTHER_NAMESPACE });
+      await provider.destroy?.();
+    });
+
+    /**
+     * Fakes the clock only; providers may rely on real I/O callbacks
+     */
+    function useFakeClock(): void {
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+    }
+
+    describe('get / set', () => {
+      it('returns null for a missing key', async () => {
+        expect(await provider.get('missing')).toBeNull();
+      });
+
+      it('round-trips JSON values', async () => {
+        const values: Record<string, unknown> = {
+          object: { id: 'abc', nested: { list: [1, 2, { deep: true }] } },
+          array: ['a', 'b'],
+          string: 'hello world',
+          number: 42,
+          boolean: false
+        };
+
+        for (const [key, value] of Object.entries(values)) {
+          await provider.set(key, value);
+        }
+        for (const [key, value] of Object.entries(values)) {
+          expect(await provider.get(key)).toEqual(value);
+        }
+      });
+
+      it('overwrites existing values', async () => {
+        await provider.set('key', { version: 1 });
+        await provider.set('key', { version: 2 });
+
+        expect(await provider.get('key')).toEqual({ version: 2 });
+      });
+    });
+
+    describe('delete / exists', () => {
+      it('reports whether a key existed', async () => {
+        await provider.set('key', 'value');
+
+        expect(await provider.exists('key')).toBe(true);
+        expect(await provider.delete('key')).toBe(true);
+        expect(await provider.delete('key')).toBe(false);
+        expect(await provider.exists('key')).toBe(false);
+        expect(await provider.get('key')).toBeNull();
+      });
+    });
+
+    describe('namespaces', () => {
+      it('keeps values in an overriding namespace apart', async () => {
+        await provider.set('key', 'default');
+        await provider.set('key', 'other', { namespace: OTHER_NAMESPACE });
+
+        expect(await provider.get('key')).toBe('default');
+        expect(await provider.get('key', { namespace: OTHER_NAMESPACE })).toBe('other');
+
+        expect(await provider.delete('key', { namespace: OTHER_NAMESPACE })).toBe(true);
+        expect(await provider.exists('key', { namespace: OTHER_NAMESPACE })).toBe(false);
+        expect(await provider.exists('key')).toBe(true);
+      });
+
+      it('applies the namespace to bulk operations', async () => {
+        await provider.setMany({ a: 1, b: 2 }, { namespace: OTHER_NAMESPACE });
+
+        expect(await provider.getMany(['a', 'b'])).toEqual({ a: null, b: null });
+        expect(await provider.getMany(['a', 'b'], { namespace: OTHER_NAMESPACE })).toEqual({ a: 1, b: 2 });
+        expect(await provider.deleteMany(['a', 'b'])).toBe(0);
+        expect(await provider.deleteMany(['a', 'b'], { namespace: OTHER_NAMESPACE })).toBe(2);
+      });
+
+      it('applies the namespace to list()', async () => {
+        await provider.set('default-key', 1);
+        await provider.set('other-key', 2, { namespace: OTHER_NAMESPACE });
+
+        expect(await provider.list('')).toEqual(['default-key']);
+        expect(await provider.list('', { namespace: OTHER_NAMESPACE })).toEqual(['other-key']);
+      });
+
+      it('applies the namespace to lists', async () => {
+        await provider.saveList('list', ['other'], { namespace: OTHER_NAMESPACE });
+
+        expect(await provider.getList('list')).toBeNull();
+        expect(await provider.getList('list', 0, -1, { namespace: OTHER_NAMESPACE })).toEqual(['other']);
+        expect(await provider.deleteList('list')).toBe(false);
+        expect(await provider.deleteList('list', { namespace: OTHER_NAMESPACE })).toBe(true);
+      });
+
+      it('clears only the default namespace', async () => {
+        await provider.set('key', 'default');
+        await provider.set('key', 'other', { namespace: OTHER_NAMESPACE });
+
+        await provider.clear();
+
+        expect(await provider.get('key')).toBeNull();
+        expect(await provider.get('key', { namespace: OTHER_NAMESPACE })).toBe('other');
+      });
+    });
+
+    describe('TTL', () => {
+      it('expires values once their TTL has passed', async () => {
+        useFakeClock();
+        await provider.set('short', 'value', { ttlSeconds: 10 });
+        await provider.set('forever', 'value');
+
+        jest.advanceTimersByTime(9_000);
+        expect(await provider.get('short')).toBe('value');
+        expect(await provider.exists('short')).toBe(true);
+
+        jest.advanceTimersByTime(1_000);
+        expect(await provider.get('short')).toBeNull();
+        expect(await provider.exists('short')).toBe(false);
+        expect(await provider.list('')).toEqual(['forever']);
+        expect(await provider.get('forever')).toBe('value');
+      });
+
+      it('drops the TTL when a value is overwritten without one', async () => {
+        useFakeClock();
+        await provider.set('key', 'first', { ttlSeconds: 10 });
+        await provider.set('key', 'second');
+
+        jest.advanceTimersByTime(20_000);
+        expect(await provider.get('key')).toBe('second');
+      });
+
+      it('applies the TTL to setMany()', async () => {
+        useFakeClock();
+        await provider.setMany({ a: 1, b: 2 }, { ttlSeconds: 5 });
+
+        jest.advanceTimersByTime(5_000);
+        expect(await provider.getMany(['a', 'b'])).toEqual({ a: null, b: null });
+      });
+
+      it('applies the TTL to saveList()', async () => {
+        useFakeClock();
+        await provider.saveList('list', [1, 2], { ttlSeconds: 5 });
+
+        jest.advanceTimersByTime(4_000);
+        expect(await provider.getList('list')).toEqual([1, 2]);
+
+        jest.advanceTimersByTime(1_000);
+        expect(await provider.getList('list')).toBeNull();
+      });
+    });
+
+    describe('list', () => {
+      beforeEach(async () => {
+        await provider.setMany({ 'b:2': 2, 'a:2': 2, 'b:1': 1, 'a:1': 1, 'a:3': 3 });
+      });
+
+      it('returns keys matching the prefix in key order', async () => {
+        expect(await provider.list('a:')).toEqual(['a:1', 'a:2', 'a:3']);
+        expect(await provider.list('')).toEqual(['a:1', 'a:2', 'a:3', 'b:1', 'b:2']);
+        expect(await provider.list('c:')).toEqual([]);
+      });
+
+      it('pages with limit and offset', async () => {
+        expect(await provider.list('', { limit: 2 })).toEqual(['a:1', 'a:2']);
+        expect(await provider.list('', { limit: 2, offset: 2 })).toEqual(['a:3', 'b:1']);
+        expect(await provider.list('', { limit: 2, offset: 4 })).toEqual(['b:2']);
+        expect(await provider.list('', { limit: 2, offset: 6 })).toEqual([]);
+      });
+
+      it('matches prefixes literally', async () => {
+        await provider.setMany({ 'x*1': 1, 'x?2': 2, 'xy': 3 });
+
+        expect(await provider.list('x*')).toEqual(['x*1']);
+        expect(await provider.list('x?')).toEqual(['x?2']);
+      });
+    });
+
+    describe('bulk operations', () => {
+      it('reads many values, with null for missing keys', async () => {
+        await provider.setMany({ one: 1, two: { value: 2 } });
+
+        expect(await provider.getMany(['one', 'two', 'three'])).toEqual({ one: 1, two: { value: 2 }, three: null });
+        expect(await provider.getMany([])).toEqual({});
+      });
+
+      it('deletes many values and counts the ones that existed', async () => {
+        await provider.setMany({ one: 1, two: 2 });
+
+        expect(await provider.deleteMany(['one', 'two', 'three'])).toBe(2);
+        expect(await provider.deleteMany([])).toBe(0);
+        expect(await provider.list('')).toEqual([]);
+      });
+
+      it('ignores an empty setMany()', async () => {
+        await provider.setMany({});
+
+        expect(await provider.list('')).toEqual([]);
+      });
+    });
+
+    describe('lists', () => {
+      beforeEach(async () => {
+        await provider.saveList('list', ['a', 'b', 'c', 'd']);
+      });
+
+      it('keeps elements in order', async () => {
+        expect(await provider.getList('list')).toEqual(['a', 'b', 'c', 'd']);
+      });
+
+      it('reads inclusive ranges', async () => {
+        expect(await provider.getList('list', 1, 2)).toEqual(['b', 'c']);
+        expect(await provider.getList('list', 2)).toEqual(['c', 'd']);
+        expect(await provider.getList('list', 0, 0)).toEqual(['a']);
+      });
+
+      it('counts negative indexes from the end', async () => {
+        expect(await provider.getList('list', 0, -2)).toEqual(['a', 'b', 'c']);
+        expect(await provider.getList('list', -2)).toEqual(['c', 'd']);
+        expect(await provider.getList('list', -2, -2)).toEqual(['c']);
+        expect(await provider.getList('list', -10, 1)).toEqual(['a', 'b']);
+      });
+
+      it('clamps out-of-range indexes', async () => {
+        expect(await provider.getList('list', 2, 100)).toEqual(['c', 'd']);
+        expect(await provider.getList('list', 4)).toEqual([]);
+        expect(await provider.getList('list', 3, 1)).toEqual([]);
+        expect(await provider.getList('list', 0, -10)).toEqual([]);
+      });
+
+      it('returns null for a missing list', async () => {
+        expect(await provider.getList('missing')).toBeNull();
+      });
+
+      it('overwrites a list on save', async () => {
+        await provider.saveList('list', [{ id: 1 }, { id: 2 }]);
+
+        expect(await provider.getList('list')).toEqual([{ id: 1 }, { id: 2 }]);
+      });
+
+      it('deletes lists', async () => {
+        expect(await provider.deleteList('list')).toBe(true);
+        expect(await provider.deleteList('list')).toBe(false);
+        expect(await provider.getList('list')).toBeNull();
+        expect(await provider.exists('list')).toBe(false);
+      });
+    });
+
+    describe('clear', () => {
+      it('removes keys and lists with a prefix', async () => {
+        await provider.setMany({ 'a:1': 1, 'a:2': 2, 'b:1': 3 });
+        await provider.saveList('a:list', [1]);
+
+        await provider.clear('a:');
+
+        expect(await provider.list('')).toEqual(['b:1']);
+        expect(await provider.getList('a:list')).toBeNull();
+      });
+
+      it('removes everything without a prefix', async () => {
+        await provider.setMany({ 'a:1': 1, 'b:1': 2 });
+        await provider.saveList('list', [1]);
+
+        await provider.clear();
+
+        expect(await provider.list('')).toEqual([]);
+        expect(await provider.getList('list')).toBeNull();
+      });
+
+      it('applies the namespace', async () => {
+        await provider.setMany({ 'a:1': 1, 'b:1': 2 });
+        await provider.setMany({ 'a:1': 3, 'b:1': 4 }, { namespace: OTHER_NAMESPACE });
+        await provider.saveList('a:list', [1], { namespace: OTHER_NAMESPACE });
+
+        await provider.clear('a:', { namespace: OTHER_NAMESPACE });
+        expect(await provider.list('', { namespace: OTHER_NAMESPACE })).toEqual(['b:1']);
+        expect(await provider.getList('a:list', 0, -1, { namespace: OTHER_NAMESPACE })).toBeNull();
+        expect(await provider.list('')).toEqual(['a:1', 'b:1']);
+
+        await provider.clear(undefined, { namespace: OTHER_NAMESPACE });
+        expect(await provider.list('', { namespace: OTHER_NAMESPACE })).toEqual([]);
+        expect(await provider.list('')).toEqual(['a:1', 'b:1']);
+      });
+    });
+
+    describe('compareAndSet', () => {
+      it('writes only while the key holds the expected value', async () => {
+        if (!provider.compareAndSet) return;
+
+        expect(await provider.compareAndSet('key', null, { version: 1 })).toBe(true);
+        expect(await provider.compareAndSet('key', null, { version: 2 })).toBe(false);
+        expect(await provider.compareAndSet('key', { version: 2 }, { version: 3 })).toBe(false);
+        expect(await provider.get('key')).toEqual({ version: 1 });
+
+        const current = await provider.get<{ version: number }>('key');
+        expect(await provider.compareAndSet('key', current, { version: 2 })).toBe(true);
+        expect(await provider.get('key')).toEqual({ version: 2 });
+      });
+
+      it('applies the namespace and TTL', async () => {
+        if (!provider.compareAndSet) return;
+        useFakeClock();
+
+        expect(await provider.compareAndSet('key', null, 'value', { namespace: OTHER_NAMESPACE, ttlSeconds: 5 })).toBe(true);
+        expect(await provider.get('key')).toBeNull();
+        expect(await provider.get('key', { namespace: OTHER_NAMESPACE })).toBe('value');
+
+        jest.advanceTimersByTime(5_000);
+        expect(await provider.get('key', { namespace: OTHER_NAMESPACE })).toBeNull();
+      });
+
+      it('keeps the TTL unless a new one is given', async () => {
+        if (!provider.compareAndSet) return;
+        useFakeClock();
+        await provider.set('key', { version: 1 }, { ttlSeconds: 10 });
+
+        jest.advanceTimersByTime(5_000);
+        expect(await provider.compareAndSet('key', { version: 1 }, { version: 2 })).toBe(true);
+        expect(await provider.get('key')).toEqual({ version: 2 });
+
+        jest.advanceTimersByTime(5_000);
+        expect(await provider.get('key')).toBeNull();
+      });
+
+      it('lets one of several concurrent writers win', async () => {
+        if (!provider.compareAndSet) return;
+        await provider.set('key', { version: 0 });
+        const expected = await provider.get<{ version: number }>('key');
+
+        const results = await Promise.all(
+          Array.from({ length: 10 }, (_, i) => provider.compareAndSet!('key', expected, { version: i + 1 }))
+        );
+
+        expect(results.filter(Boolean)).toHaveLength(1);
+        expect(await provider.get('key')).toEqual({ version: results.indexOf(true) + 1 });
+      });
+    });
+
+    describe('increment', () => {
+      it('adds to a counter, starting from 0', async () => {
+        if (!provider.increment) return;
+
+        expect(await provider.increment('counter')).toBe(1);
+        expect(await provider.increment('counter', 5)).toBe(6);
+        expect(await provider.increment('counter', -2)).toBe(4);
+        expect(await provider.get('counter')).toBe(4);
+        expect(await provider.increment('counter', 1, { namespace: OTHER_NAMESPACE })).toBe(1);
+      });
+
+      it('keeps the TTL unless a new one is given', async () => {
+        if (!provider.increment) return;
+        useFakeClock();
+        await provider.increment('counter', 1, { ttlSeconds: 10 });
+
+        jest.advanceTimersByTime(5_000);
+        expect(await provider.increment('counter')).toBe(2);
+
+        jest.advanceTimersByTime(5_000);
+        expect(await provider.get('counter')).toBeNull();
+      });
+
+      it('counts every concurrent increment', async () => {
+        if (!provider.increment) return;
+
+        await Promise.all(Array.from({ length: 20 }, () => provider.increment!('counter')));
+
+        expect(await provider.get('counter')).toBe(20);
+      });
+    });
+
+    describe('appendToList', () => {
+      it('appends to the end of a list, creating it when missing', async () => {
+        if (!provider.appendToList) return;
+
+        expect(await provider.appendToList('list', ['a'])).toBe(1);
+        expect(await provider.appendToList('list', ['b', { c: true }])).toBe(3);
+        expect(await provider.getList('list')).toEqual(['a', 'b', { c: true }]);
+        expect(await provider.getList('list', 0, -1, { namespace: OTHER_NAMESPACE })).toBeNull();
+      });
+
+      it('extends a saved list and keeps its TTL', async () => {
+        if (!provider.appendToList) return;
+        useFakeClock();
+        await provider.saveList('list', ['a'], { ttlSeconds: 10 });
+
+        jest.advanceTimersByTime(5_000);
+        expect(await provider.appendToList('list', ['b'])).toBe(2);
+        expect(await provider.getList('list')).toEqual(['a', 'b']);
+
+        jest.advanceTimersByTime(5_000);
+        expect(await provider.getList('list')).toBeNull();
+      });
+
+      it('keeps every concurrent append', async () => {
+        if (!provider.appendToList) return;
+
+        await Promise.all(Array.from({ length: 10 }, (_, i) => provider.appendToList!('list', [i])));
+
+        const list = await provider.getList<number>('list');
+        expect(list).toHaveLength(10);
+        expect([...list!].sort((a, b) => a - b)).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+      });
+    });
+
+    describe('destroy', () => {
+      it('releases the provider and can be called twice', async () => {
+        await provider.set('key', 'value');
+
+        await provider.destroy?.();
+        await provider.destroy?.();
+
+        // Leave a working provider for the cleanup after each test
+        provider = await factory();
+      });
+    });
+  });
+}
@@ -0,0 +1,8 @@
+/**
+ * @fileoverview Test helpers for code built on agentdock-core, imported as `agentdock-core/testing`.
+ *
+ * The helpers register Jest suites, so they are only imported from test files run by Jest.
+ */
+
+export { runStorageProviderConformance } from './test/storage-conformance';
+export type { StorageProviderConformanceOptions } from './test/storage-conformance';
@@ -27,32 +27,265 @@ export interface AIOrchestrationState {
     promptTokens: number;
     completionTokens: number;
     totalTokens: number;
+    /** Tokens of responses answered from the LLM cache */
+    cachedTokens?: number;
   };
+
+  /** Steps the session has moved through, oldest first */
+  transitionHistory?: TransitionRecord[];
+}
+
+/**
+ * One change of the active step
+ */
+export interface TransitionRecord {
+  /** Step that was active before, if any */
+  from?: string;
+  
+  /** Step that became active */
+  to: string;
+  
+  /**
+   * What caused the change: a `transitions` entry, a step's own conditions,
+   * falling back to the default step, a completed pipeline step, or the router
+   */
+  trigger: 'transition' | 'condition' | 'default' | 'pipeline' | 'router';
+  
+  /** When the change happened (timestamp) */
+  at: number;
+}
+
+/**
+ * Step chosen by the router for one user message
+ */
+export interface RoutingDecision {
+  /** Identifies the user message the decision was made for */
+  messageKey: string;
+  
+  /** Step that was activated */
+  step: string;
+  
+  /** Step the classifier picked, which differs from `step` when it fell back to the default */
+  proposedStep?: string;
+  
+  /** Classifier confidence between 0 and 1 */
+  confidence: number;
+  
+  /** Classifier's short explanation */
+  reason?: string;
+  
+  /** Whether the default step was used because the confidence was below the threshold or the call failed */
+  fallback: boolean;
+  
+  /** When the decision was made (timestamp) */
+  at: number;
+}
+
+/**
+ * How tool calls that break the active step's rules are handled:
+ * `advisory` runs them and records the violation, `strict` rejects them
+ */
+export type ToolEnforcementMode = 'advisory' | 'strict';
+
+/**
+ * Tool call that broke the active step's sequence or tool list
+ */
+export interface ToolCallViolation {
+  /** Tool that was called */
+  tool: string;
+  
+  /** Step that was active */
+  step: string;
+  
+  /**
+   * `out_of_sequence` when the step expects another tool (or model output) next,
+   * `denied` when the step denies the tool, `not_allowed` when it is missing from the step's allowed tools
+   */
+  reason: 'out_of_sequence' | 'denied' | 'not_allowed';
+  
+  /** Tool the step expects next, for sequence violations */
+  expectedTool?: string;
+  
+  /** Tools the step allows, for `not_allowed` violations */
+  allowedTools?: string[];
+  
+  /** Whether the call was rejected (strict mode) or only recorded (advisory mode) */
+  blocked: boolean;
+  
+  /** When the call was made (timestamp) */
+  at: number;
+}
+
+/**
+ * Long-running job started by a tool (e.g. a crawl or bulk export).
+ * Kept in session state so a later turn can check on it without the job ID.
+ */
+export interface TrackedJob {
+  /** Job ID issued by the external service */
+  id: string;
+  
+  /** Tool that started the job */
+  tool: string;
+  
+  /** Optional job kind, e.g. 'query' or 'ingest' */
+  kind?: string;
+  
+  /** Short human-readable description of the job */
+  description?: string;
+  
+  /** Last known status */
+  status?: string;
+  
+  /** When the job was first tracked (timestamp) */
+  createdAt: number;
+  
+  /** When the job was last updated (timestamp) */
+  updatedAt: number;
 }
 
 /**
  * Types of conditions that can trigger orchestration steps
- * Note: We've simplified this to only include tool usage tracking.
- * The LLM understands context naturally without regex or string matching.
  */
 export type OrchestrationConditionType = 
   | 'tool_used'
-  | 'sequence_match';
+  | 'sequence_match'
+  | 'message_regex'
+  | 'turn_count'
+  | 'token_usage_above'
+  | 'step_visits'
+  | 'tool_result_matches'
+  | 'state_flag'
+  | 'all'
+  | 'any'
+  | 'not';
 
 /**
- * Condition that determines when a step should be activated
+ * Value a state flag can hold
  */
-export interface OrchestrationCondition {
-  /** Type of condition */
-  type: OrchestrationConditionType;
-  
-  /** Value to match against (meaning depends on condition type) */
-  value?: string;
-  
+export type OrchestrationFlagValue = string | number | boolean;
+
+interface BaseCondition {
   /** Optional description of the condition */
   description?: string;
 }
 
+/**
+ * Met once the tool named in `value` has been used in the session
+ */
+export interface ToolUsedCondition extends BaseCondition {
+  type: 'tool_used';
+  value: string;
+}
+
+/**
+ * Met when the most recently used tools match the step's `sequence`
+ */
+export interface SequenceMatchCondition extends BaseCondition {
+  type: 'sequence_match';
+  value?: string;
+}
+
+/**
+ * Met when the latest message from `role` (default 'user') matches the regular expression in `value`
+ */
+export interface MessageRegexCondition extends BaseCondition {
+  type: 'message_regex';
+  value: string;
+  /** Regular expression flags, e.g. 'i' */
+  flags?: string;
+  role?: 'user' | 'assistant' | 'any';
+}
+
+/**
+ * Met when the number of user messages in the conversation is within [min, max]
+ */
+export interface TurnCountCondition extends BaseCondition {
+  type: 'turn_count';
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Met when the session's total token usage passes `tokens`, or `percent` of `budget`
+ */
+export interface TokenUsageAboveCondition extends BaseCondition {
+  type: 'token_usage_above';
+  tokens?: number;
+  percent?: number;
+  budget?: number;
+}
+
+/**
+ * Met when a step has been entered a number of times within [min, max].
+ * `step` defaults to the step the condition belongs to.
+ */
+export interface StepVisitsCondition extends BaseCondition {
+  type: 'step_visits';
+  step?: string;
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Met when the latest result of `tool` matches the regular expression in `value`
+ */
+export interface ToolResultMatchesCondition extends BaseCondition {
+  type: 'tool_result_matches';
+  tool: string;
+  value: string;
+  /** Regular expression flags, e.g. 'i' */
+  flags?: string;
+}
+
+/**
+ * Met when a session flag is set, or equals `equals` when given
+ */
+export interface StateFlagCondition extends BaseCondition {
+  type: 'state_flag';
+  flag: string;
+  equals?: OrchestrationFlagValue;
+}
+
+/**
+ * Met when every nested condition is met
+ */
+export interface AllCondition extends BaseCondition {
+  type: 'all';
+  conditions: OrchestrationCondition[];
+}
+
+/**
+ * Met when at least one nested condition is met
+ */
+export interface AnyCondition extends BaseCondition {
+  type: 'any';
+  conditions: OrchestrationCondition[];
+}
+
+/**
+ * Met when the nested condition is not met
+ */
+export interface NotCondition extends BaseCondition {
+  type: 'not';
+  condition: OrchestrationCondition;
+}
+
+/**
+ * Condition that determines when a step should be activated
+ */
+export type OrchestrationCondition =
+  | ToolUsedCondition
+  | SequenceMatchCondition
+  | MessageRegexCondition
+  | TurnCountCondition
+  | TokenUsageAboveCondition
+  | StepVisitsCondition
+  | ToolResultMatchesCondition
+  | StateFlagCondition
+  | AllCondition
+  | AnyCondition
+  | NotCondition;
+
 /**
  * Tool availability configuration for an orchestration step
  */
@@ -64,6 +297,72 @@ export interface ToolAvailability {
   denied?: string[];
 }
 
+/**
+ * Tool in a step sequence, with options
+ */
+export interface SequenceToolEntry {
+  /** Tool to call */
+  tool: string;
+
+  /** Whether the sequence may move on without calling the tool */
+  optional?: boolean;
+
+  /** How many times the tool may be called before the sequence moves on (default 1) */
+  maxCalls?: number;
+}
+
+/**
+ * Single tool in a step sequence, either by name or with options
+ */
+export type SequenceItem = string | SequenceToolEntry;
+
+/**
+ * Tools that can be called in any order. The group completes once each required tool has been called.
+ */
+export interface SequenceParallelEntry {
+  parallel: SequenceItem[];
+
+  /** Whether the sequence may move on without calling any of the tools */
+  optional?: boolean;
+}
+
+/**
+ * Entries run again and again until `until` holds, for between `min` (default 1) and `max` rounds.
+ * Without `until`, the sequence may move on after `min` rounds.
+ */
+export interface SequenceRepeatEntry {
+  repeat: Array<SequenceItem | SequenceParallelEntry>;
+
+  /** Condition that ends the repetition after a completed round */
+  until?: OrchestrationCondition;
+
+  /** Rounds that must complete before the sequence moves on (default 1, 0 makes the entry optional) */
+  min?: number;
+
+  /** Most rounds allowed */
+  max: number;
+}
+
+/**
+ * Entry in a step sequence
+ */
+export type SequenceEntry = SequenceItem | SequenceParallelEntry | SequenceRepeatEntry;
+
+/**
+ * Progress through the active step's sequence. Entries are identified by their position,
+ * with nested entries joined by dots (e.g. "1.0" for the first tool of a parallel group in second place).
+ */
+export interface SequenceProgress {
+  /** Tool entries called at least once */
+  completed: string[];
+
+  /** Calls made per tool entry */
+  calls: Record<string, number>;
+
+  /** Completed rounds per repeat entry */
+  rounds: Record<string, number>;
+}
+
 /**
  * Definition of a single orchestration step
  */
@@ -83,8 +382,57 @@ export interface OrchestrationStep {
   /** Whether this is the default step when no other conditions match */
   isDefault?: boolean;
 
-  /** Ordered sequence of tools that should be used in this step */
-  sequence?: string[];
+  /**
+   * Ordered sequence of tools that should be used in this step. Entries can be tool names,
+   * tools with options, parallel groups or repeated entries.
+   */
+  sequence?: SequenceEntry[];
+
+  /**
+   * Name under which the step's output is stored once the step completes.
+   * Steps that declare a return value form a pipeline and advance to the next step on their own.
+   */
+  return?: string;
+
+  /** Outputs of earlier steps made available to this step, keyed by local name */
+  inputs?: Record<string, string>;
+}
+
+/**
+ * Allowed move between two steps
+ */
+export interface OrchestrationTransition {
+  /** Step the transition leaves */
+  from: string;
+  
+  /** Step the transition enters */
+  to: string;
+  
+  /** Condition that must hold; without one, the target step's own conditions apply */
+  guard?: OrchestrationCondition;
+  
+  /** Transitions with a higher priority are tried first; ties keep declaration order (default 0) */
+  priority?: number;
+  
+  /** Optional description of the transition */
+  description?: string;
+}
+
+/**
+ * Settings for choosing the active step with a classifier call instead of conditions
+ */
+export interface OrchestrationRouterConfig {
+  /** Model for the classifier call, using the agent's provider; defaults to the agent's model */
+  model?: string;
+  
+  /** Below this confidence (0-1) the default step is used instead (default 0.6) */
+  confidenceThreshold?: number;
+  
+  /** Number of recent messages shown to the classifier (default 6) */
+  contextMessages?: number;
+  
+  /** Extra guidance for the classifier */
+  instructions?: string;
 }
 
 /**
@@ -94,26 +442,112 @@ export interface OrchestrationConfig {
   /** Ordered sequence of steps */
   steps: OrchestrationStep[];
   
+  /**
+   * Allowed moves between steps. When present, the active step only changes along these
+   * transitions instead of activating the first step whose conditions are met.
+   */
+  transitions?: OrchestrationTransition[];
+  
+  /**
+   * Lets a classifier pick the active step from the step names and descriptions once per user message.
+   * Step conditions are not evaluated in this mode.
+   */
+  router?: OrchestrationRouterConfig;
+  
+  /**
+   * Whether tool calls outside the active step's sequence or tool list are only recorded (`advisory`, default)
+   * or rejected (`strict`)
+   */
+  enforcement?: ToolEnforcementMode;
+  
   /** Optional description of the overall orchestration (string or array of strings) */
   description?: string | string[];
 }
 
 /**
- * Zod schema for validating the orchestration condition
+ * Checks that a string compiles as a regular expression with the given flags
  */
-export const OrchestrationConditionSchema = z.object({
-  type: z.enum(['tool_used', 'sequence_match']),
-  value: z.string().optional(),
-  description: z.string().optional()
-}).refine(data => {
-  if (data.type === 'tool_used' && (typeof data.value !== 'string' || data.value.length === 0)) {
+function isValidRegex(pattern: string, flags?: string): boolean {
+  try {
+    new RegExp(pattern, flags);
+    return true;
+  } catch {
     return false;
   }
-  return true;
-}, {
-  message: "Condition value is required when type is 'tool_used'",
-  path: ['value'],
-});
+}
+
+const description = z.string().optional();
+const regexFlags = z.string().regex(/^[imsu]*$/, 'Regular expression flags may only include i, m, s and u').optional();
+const count = z.number().int().nonnegative().optional();
+const TOOL_USED_VALUE_MESSAGE = "Condition value is required when type is 'tool_used'";
+
+/**
+ * Zod schema for validating the orchestration condition
+ */
+export const OrchestrationConditionSchema: z.ZodType<OrchestrationCondition> = z.lazy(() => z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('tool_used'),
+    value: z.string({ required_error: TOOL_USED_VALUE_MESSAGE }).min(1, TOOL_USED_VALUE_MESSAGE),
+    description
+  }),
+  z.object({ type: z.literal('sequence_match'), value: z.string().optional(), description }),
+  z.object({
+    type: z.literal('message_regex'),
+    value: z.string().min(1),
+    flags: regexFlags,
+    role: z.enum(['user', 'assistant', 'any']).optional(),
+    description
+  }),
+  z.object({ type: z.literal('turn_count'), min: count, max: count, description }),
+  z.object({
+    type: z.literal('token_usage_above'),
+    tokens: z.number().nonnegative().optional(),
+    percent: z.number().positive().max(100).optional(),
+    budget: z.number().positive().optional(),
+    description
+  }),
+  z.object({ type: z.literal('step_visits'), step: z.string().min(1).optional(), min: count, max: count, description }),
+  z.object({
+    type: z.literal('tool_result_matches'),
+    tool: z.string().min(1),
+    value: z.string().min(1),
+    flags: regexFlags,
+    description
+  }),
+  z.object({
+    type: z.literal('state_flag'),
+    flag: z.string().min(1),
+    equals: z.union([z.string(), z.number(), z.boolean()]).optional(),
+    description
+  }),
+  z.object({ type: z.literal('all'), conditions: z.array(OrchestrationConditionSchema).min(1), description }),
+  z.object({ type: z.literal('any'), conditions: z.array(OrchestrationConditionSchema).min(1), description }),
+  z.object({ type: z.literal('not'), condition: OrchestrationConditionSchema, description })
+]).superRefine((data, ctx) => {
+  const issue = (message: string, path: string) => ctx.addIssue({ code: z.ZodIssueCode.custom, message, path: [path] });
+
+  switch (data.type) {
+    case 'message_regex':
+    case 'tool_result_matches':
+      if (!isValidRegex(data.value, data.flags)) issue(`Condition value '${data.value}' is not a valid regular expression`, 'value');
+      break;
+    case 'turn_count':
+    case 'step_visits':
+      if (data.min === undefined && data.max === undefined) {
+        issue(`Condition type '${data.type}' needs min, max or both`, 'min');
+      } else if (data.min !== undefined && data.max !== undefined && data.min > data.max) {
+        issue('Condition min must not be greater than max', 'min');
+      }
+      break;
+    case 'token_usage_above':
+      if ((data.tokens !== undefined) === (data.percent !== undefined || data.budget !== undefined)) {
+        issue("Condition type 'token_usage_above' needs either tokens, or percent together with budget", 'tokens');
+      } else if (data.tokens === undefined && (data.percent === undefined || data.budget === undefined)) {
+        issue('Condition percent and budget must be set together', data.percent === undefined ? 'percent' : 'budget');
+      }
+      break;
+  }
+}));
 
 /**
  * Zod schema for validating tool availability
@@ -123,6 +557,40 @@ export const ToolAvailabilitySchema = z.object({
   denied: z.array(z.string()).optional()
 });
 
+const SequenceToolEntrySchema = z.object({
+  tool: z.string().min(1),
+  optional: z.boolean().optional(),
+  maxCalls: z.number().int().min(1).optional()
+});
+
+const SequenceItemSchema = z.union([z.string(), SequenceToolEntrySchema]);
+
+const SequenceParallelEntrySchema = z.object({
+  parallel: z.array(SequenceItemSchema).min(1),
+  optional: z.boolean().optional()
+});
+
+const SequenceRepeatEntrySchema = z.object({
+  repeat: z.array(z.union([SequenceItemSchema, SequenceParallelEntrySchema])).min(1),
+  until: OrchestrationConditionSchema.optional(),
+  min: count,
+  max: z.number().int().min(1)
+}).superRefine((data, ctx) => {
+  if (data.min !== undefined && data.min > data.max) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Repeat min must not be greater than max', path: ['min'] });
+  }
+  // A round ends once its required entries are done, so it needs at least one
+  const required = data.repeat.some(entry => typeof entry === 'string' || !entry.optional);
+  if (!required) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'A repeated sequence needs at least one entry that is not optional', path: ['repeat'] });
+  }
+});
+
+/**
+ * Zod schema for validating a sequence entry
+ */
+export const SequenceEntrySchema = z.union([SequenceItemSchema, SequenceParallelEntrySchema, SequenceRepeatEntrySchema]);
+
 /**
  * Zod schema for validating orchestration step configuration
  */
@@ -132,15 +600,163 @@ export const OrchestrationStepSchema = z.object({
   conditions: z.array(OrchestrationConditionSchema).optional(),
   availableTools: ToolAvailabilitySchema.optional(),
   isDefault: z.boolean().optional(),
-  sequence: z.array(z.string()).optional()
+  sequence: z.array(SequenceEntrySchema).optional(),
+  return: z.string().min(1).optional(),
+  inputs: z.record(z.string().min(1)).optional()
 });
 
+/**
+ * Zod schema for validating a transition between steps
+ */
+export const OrchestrationTransitionSchema = z.object({
+  from: z.string().min(1),
+  to: z.string().min(1),
+  guard: OrchestrationConditionSchema.optional(),
+  priority: z.number().optional(),
+  description: z.string().optional()
+});
+
+/**
+ * Zod schema for validating the router settings
+ */
+export const OrchestrationRouterSchema = z.object({
+  model: z.string().min(1).optional(),
+  confidenceThreshold: z.number().min(0).max(1).optional(),
+  contextMessages: z.number().int().min(1).optional(),
+  instructions: z.string().optional()
+});
+
+/**
+ * Checks that the transitions graph refers to known steps, starts at a single default step,
+ * reaches every step and leaves no step without a way out.
+ * Pipeline steps (with `return`) also move on to the next declared step, or back to the default after the last one.
+ */
+function validateTransitions(
+  steps: z.infer<typeof OrchestrationStepSchema>[],
+  transitions: z.infer<typeof OrchestrationTransitionSchema>[],
+  ctx: z.RefinementCtx
+): void {
+  const names = new Set(steps.map(step => step.name));
+  const defaultStep = steps.find(step => step.isDefault);
+  if (!defaultStep) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'An orchestration with transitions needs a default step to start from', path: ['steps'] });
+  }
+
+  const edges = new Map<string, Set<string>>(steps.map(step => [step.name, new Set<string>()]));
+  transitions.forEach((transition, index) => {
+    (['from', 'to'] as const).forEach(end => {
+      if (!names.has(transition[end])) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Transition ${end} '${transition[end]}' does not match any step`,
+          path: ['transitions', index, end]
+        });
+      }
+    });
+    if (names.has(transition.to)) edges.get(transition.from)?.add(transition.to);
+  });
+  steps.forEach((step, index) => {
+    const next = steps[index + 1]?.name ?? defaultStep?.name;
+    if (step.return && next) edges.get(step.name)!.add(next);
+  });
+
+  if (!defaultStep) return;
+
+  const reached = new Set([defaultStep.name]);
+  const queue = [defaultStep.name];
+  while (queue.length > 0) {
+    for (const next of edges.get(queue.shift()!) || []) {
+      if (!reached.has(next)) {
+        reached.add(next);
+        queue.push(next);
+      }
+    }
+  }
+
+  steps.forEach((step, index) => {
+    if (!reached.has(step.name)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Step '${step.name}' cannot be reached from the default step '${defaultStep.name}'`,
+        path: ['steps', index]
+      });
+    } else if (edges.get(step.name)!.size === 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Step '${step.name}' is a dead end: no transition leaves it`,
+        path: ['steps', index]
+      });
+    }
+  });
+}
+
 /**
  * Zod schema for validating the complete orchestration configuration
  */
 export const OrchestrationSchema = z.object({
   steps: z.array(OrchestrationStepSchema),
+  transitions: z.array(OrchestrationTransitionSchema).optional(),
+  router: OrchestrationRouterSchema.optional(),
+  enforcement: z.enum(['advisory', 'strict']).optional(),
   description: z.union([z.string(), z.array(z.string())]).optional()
+}).superRefine((data, ctx) => {
+  // The default step must be unambiguous
+  const defaults = data.steps.filter(step => step.isDefault);
+  if (defaults.length > 1) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `Only one step can be the default, found ${defaults.map(step => `'${step.name}'`).join(', ')}`,
+      path: ['steps']
+    });
+  }
+
+  if (data.transitions?.length) {
+    validateTransitions(data.steps, data.transitions, ctx);
+  }
+
+  // The router picks from all steps, so it cannot be limited by a transitions graph
+  if (data.router) {
+    if (data.transitions?.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'An orchestration cannot use both a router and transitions', path: ['router'] });
+    }
+    if (defaults.length === 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'An orchestration with a router needs a default step to fall back to', path: ['steps'] });
+    }
+  }
+
+  // Inputs can only read outputs returned by an earlier step
+  const returned = new Set<string>();
+  data.steps.forEach((step, index) => {
+    Object.entries(step.inputs || {}).forEach(([name, output]) => {
+      if (!returned.has(output)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Input '${name}' of step '${step.name}' refers to '${output}', which no earlier step returns`,
+          path: ['steps', index, 'inputs', name]
+        });
+      }
+    });
+
+    if (step.return) {
+      if (returned.has(step.return)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Return value '${step.return}' is declared by more than one step`,
+          path: ['steps', index, 'return']
+        });
+      }
+      returned.add(step.return);
+
+      // Pipeline outputs are matched to sequence entries one by one
+      if (step.sequence?.some(entry => typeof entry !== 'string')) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Pipeline step '${step.name}' can only list tool and model stage names in its sequence`,
+          path: ['steps', index, 'sequence']
+        });
+      }
+    }
+  });
 });
 
 /**
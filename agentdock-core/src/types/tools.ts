@@ -70,6 +70,8 @@ export interface ToolExecutionOptions {
   llmContext?: LLMContext;
   /** Optional handler to update cumulative token usage */
   updateUsageHandler?: (usage: TokenUsage) => Promise<void>;
+  /** Node configurations from the agent template, keyed by node type (optional) */
+  nodeConfigurations?: Record<string, any>;
 }
 
 // Tool interface types
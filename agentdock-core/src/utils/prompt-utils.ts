@@ -3,12 +3,16 @@
  */
 
 import { OrchestrationConfig, TokenOptimizationOptions } from '../types/orchestration';
+import { formatInputsForPrompt } from '../orchestration/pipeline';
+import { describeCondition } from '../orchestration/conditions';
 
 // NEW: Interface for dynamic state to inject
 // EXPORT the interface
 export interface DynamicOrchestrationState {
   activeStepName?: string;
   recentlyUsedTools?: string[];
+  /** Active step inputs resolved from earlier steps' outputs */
+  stepInputs?: Record<string, unknown>;
 }
 
 /**
@@ -106,7 +110,17 @@ function addDynamicStateToPrompt(
   systemPrompt: string,
   dynamicState: DynamicOrchestrationState
 ): string {
-  let stateText = '\n\n---\nCurrent Orchestration Context:\n';
+  return `${systemPrompt}\n\n${formatDynamicState(dynamicState)}`;
+}
+
+/**
+ * Formats the dynamic orchestration context block that is appended to the system prompt each turn
+ * 
+ * @param dynamicState The dynamic state information
+ * @returns The context block, starting and ending with a `---` rule
+ */
+export function formatDynamicState(dynamicState: DynamicOrchestrationState): string {
+  let stateText = '---\nCurrent Orchestration Context:\n';
   let addedState = false;
 
   if (dynamicState.activeStepName) {
@@ -123,9 +137,13 @@ function addDynamicStateToPrompt(
     stateText += '- No specific step active or tools used yet.\n';
   }
   
+  if (dynamicState.stepInputs && Object.keys(dynamicState.stepInputs).length > 0) {
+    stateText += `- Step Inputs (use these, or pass them to tools as {{inputs.name}}):\n\n${formatInputsForPrompt(dynamicState.stepInputs)}\n`;
+  }
+  
   stateText += '---';
 
-  return systemPrompt + stateText;
+  return stateText;
 }
 
 /**
@@ -143,16 +161,7 @@ function generateDetailedOrchestrationGuide(orchestration: OrchestrationConfig):
     if (step.conditions && step.conditions.length > 0) {
       guide += '\nActivate when:\n';
       step.conditions.forEach(condition => {
-        let conditionText = '- ';
-        
-        switch (condition.type) {
-          case 'tool_used':
-            conditionText += `After using the "${condition.value}" tool`;
-            break;
-            
-          default:
-            conditionText += `${condition.type}: ${condition.value}`;
-        }
+        let conditionText = `- ${describeCondition(condition)}`;
         
         if (condition.description) {
           conditionText += ` (${condition.description})`;
@@ -175,6 +184,14 @@ function generateDetailedOrchestrationGuide(orchestration: OrchestrationConfig):
       }
     }
     
+    if (step.inputs && Object.keys(step.inputs).length > 0) {
+      guide += '\nUses: ' + Object.keys(step.inputs).join(', ') + '\n';
+    }
+    
+    if (step.return) {
+      guide += `\nProduces: ${step.return}\n`;
+    }
+    
     guide += '\n';
   });
   
@@ -7,4 +7,14 @@
 export function maskSensitiveData(key: string, visibleChars: number = 5): string {
   if (!key) return '';
   return `${key.substring(0, visibleChars)}...`;
-}
\ No newline at end of file
+}
+
+/**
+ * Hex-encoded SHA-256 digest of a string, using WebCrypto so it runs in Node and edge runtimes
+ * @param value The string to hash
+ * @returns The digest as 64 hex characters
+ */
+export async function sha256(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
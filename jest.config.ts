@@ -12,8 +12,11 @@ const customJestConfig: Config = {
   setupFilesAfterEnv: ['<rootDir>/tests/jest.setup.ts'],
   moduleNameMapper: {
     '^@/(.*)$': '<rootDir>/src/$1',
+    // Resolve the workspace package to its sources, mirroring the tsconfig paths
+    '^agentdock-core$': '<rootDir>/agentdock-core/src/index.ts',
     // Add mapping for agentdock-core internal logger
     '^agentdock-core/src/logging$': '<rootDir>/agentdock-core/src/logging/index.ts',
+    '^agentdock-core/(.*)$': '<rootDir>/agentdock-core/src/$1',
   },
   transform: {
     '^.+\\.(ts|tsx)$': 'ts-jest',
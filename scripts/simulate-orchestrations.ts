@@ -0,0 +1,98 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import chalk from 'chalk';
+import {
+  logger,
+  LogLevel,
+  OrchestrationSchema,
+  SimulationScriptSchema,
+  simulateOrchestration
+} from 'agentdock-core';
+
+/**
+ * Runs the orchestration simulations stored beside each agent template
+ * (agents/<agent>/*.simulation.json) and fails when any turn misses its expectations.
+ *
+ * Usage: pnpm simulate-orchestrations [agentId...]
+ */
+
+const SIMULATION_SUFFIX = '.simulation.json';
+
+async function readJson(filePath: string): Promise<unknown> {
+  return JSON.parse(await fs.readFile(filePath, 'utf-8'));
+}
+
+async function simulateAgent(agentDir: string, agentId: string): Promise<{ passed: number; failed: number }> {
+  const files = (await fs.readdir(agentDir)).filter(file => file.endsWith(SIMULATION_SUFFIX)).sort();
+  if (files.length === 0) return { passed: 0, failed: 0 };
+
+  const template = await readJson(path.join(agentDir, 'template.json')) as { orchestration?: unknown; nodes?: string[] };
+  const orchestration = OrchestrationSchema.safeParse(template.orchestration);
+  if (!orchestration.success) {
+    console.log(chalk.red(`✗ ${agentId}: invalid orchestration`));
+    orchestration.error.issues.forEach(issue => console.log(chalk.red(`    ${issue.path.join('.')}: ${issue.message}`)));
+    return { passed: 0, failed: files.length };
+  }
+
+  // Tools default to the agent's nodes, leaving out its models
+  const tools = (template.nodes || []).filter(node => !node.startsWith('llm.'));
+  let passed = 0;
+  let failed = 0;
+
+  for (const file of files) {
+    const script = SimulationScriptSchema.safeParse(await readJson(path.join(agentDir, file)));
+    if (!script.success) {
+      console.log(chalk.red(`✗ ${agentId}/${file}: invalid simulation script`));
+      script.error.issues.forEach(issue => console.log(chalk.red(`    ${issue.path.join('.')}: ${issue.message}`)));
+      failed++;
+      continue;
+    }
+
+    const result = await simulateOrchestration(orchestration.data, script.data, { tools });
+    const label = `${agentId}/${file}${script.data.name ? ` (${script.data.name})` : ''}`;
+    if (result.passed) {
+      console.log(chalk.green(`✓ ${label}`));
+      passed++;
+      continue;
+    }
+
+    console.log(chalk.red(`✗ ${label}`));
+    for (const turn of result.turns.filter(t => t.failures.length > 0)) {
+      console.log(chalk.red(`    Turn ${turn.index + 1} (active step: ${turn.activeStep ?? 'none'})`));
+      turn.failures.forEach(failure => console.log(chalk.red(`      - ${failure}`)));
+    }
+    failed++;
+  }
+
+  return { passed, failed };
+}
+
+async function main() {
+  // Broken step rules are reported per turn, so only errors are logged
+  logger.setLogLevel(LogLevel.ERROR);
+
+  const agentsDir = path.join(process.cwd(), 'agents');
+  const requested = process.argv.slice(2);
+  const agentIds = requested.length > 0 ? requested : (await fs.readdir(agentsDir)).sort();
+
+  let passed = 0;
+  let failed = 0;
+  for (const agentId of agentIds) {
+    const agentDir = path.join(agentsDir, agentId);
+    if (!(await fs.stat(agentDir).catch(() => null))?.isDirectory()) {
+      console.log(chalk.yellow(`- ${agentId}: no agent directory`));
+      continue;
+    }
+    const counts = await simulateAgent(agentDir, agentId);
+    passed += counts.passed;
+    failed += counts.failed;
+  }
+
+  console.log(`\n${passed + failed} simulation(s): ${chalk.green(`${passed} passed`)}, ${failed > 0 ? chalk.red(`${failed} failed`) : '0 failed'}`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch(error => {
+  console.error(chalk.red('Simulation run failed:'), error);
+  process.exit(1);
+});
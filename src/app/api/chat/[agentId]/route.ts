@@ -32,7 +32,8 @@ import {
   LLMProvider,
   normalizeError,
   parseProviderError,
-  Message
+  Message,
+  createToolViolationResult
 } from 'agentdock-core';
 import { templates, TemplateId } from '@/generated/templates';
 import { getLLMInfo } from '@/lib/utils';
@@ -134,7 +135,7 @@ async function resolveApiKey(request: NextRequest, provider: string, isByokOnly:
     }
     
     // If BYOK only mode is enabled and we don't have an API key yet, throw an error
-  if (isByokOnly && !apiKey) {
+  if (isByokOnly && !apiKey && ProviderRegistry.requiresApiKey(provider)) {
       logger.error(LogCategory.API, 'ChatRoute', 'API key required (BYOK Only mode is enabled)', {
       provider: provider
       });
@@ -162,7 +163,8 @@ async function resolveApiKey(request: NextRequest, provider: string, isByokOnly:
         'openai': process.env.OPENAI_API_KEY, 
         'gemini': process.env.GEMINI_API_KEY,
         'deepseek': process.env.DEEPSEEK_API_KEY,
-        'groq': process.env.GROQ_API_KEY
+        'groq': process.env.GROQ_API_KEY,
+        'openai-compatible': process.env.OPENAI_COMPATIBLE_API_KEY
       };
       
       apiKey = envVarMap[providerName] || null;
@@ -198,6 +200,32 @@ async function resolveApiKey(request: NextRequest, provider: string, isByokOnly:
   return apiKey;
 }
 
+/**
+ * Resolves API keys for the providers in the failover chain of the template's LLM node.
+ * Keys come from the environment, so the chain is not used in BYOK mode.
+ */
+function resolveFailoverApiKeys(llmConfig: any, primaryProvider: LLMProvider, isByokOnly: boolean) {
+  const chain: { provider?: LLMProvider }[] = Array.isArray(llmConfig?.failover?.chain) ? llmConfig.failover.chain : [];
+  if (isByokOnly || chain.length === 0) {
+    return undefined;
+  }
+
+  const keys: Partial<Record<LLMProvider, string>> = {};
+  for (const { provider } of chain) {
+    if (!provider || provider === primaryProvider || keys[provider]) continue;
+    const key = getProviderApiKey(provider);
+    if (key) {
+      keys[provider] = key;
+    }
+  }
+
+  logger.debug(LogCategory.API, 'ChatRoute', 'Resolved failover API keys', {
+    providers: chain.map(entry => entry.provider),
+    withKeys: Object.keys(keys)
+  });
+  return keys;
+}
+
 /**
  * Creates a response from the agent result, adding necessary headers
  */
@@ -263,6 +291,23 @@ async function createAgentResponse(result: any, finalSessionId: string, requestS
   return response;
 }
 
+/**
+ * Links the session to the Salesforce connection sent by the client
+ */
+async function linkSalesforceConnectionFromRequest(request: NextRequest, sessionId: string | null) {
+  const { SALESFORCE_CONNECTION_HEADER, linkSalesforceConnection } = await import('@/nodes/salesforce/api');
+  const connectionId = request.headers.get(SALESFORCE_CONNECTION_HEADER);
+  if (!connectionId || !sessionId) {
+    return;
+  }
+
+  if (!(await linkSalesforceConnection(sessionId, connectionId))) {
+    logger.warn(LogCategory.API, 'ChatRoute', 'Ignoring unknown or expired Salesforce connection', {
+      sessionId: sessionId.substring(0, 8) + '...'
+    });
+  }
+}
+
 /**
  * Function to handle direct tool execution
  */
@@ -273,7 +318,7 @@ async function handleDirectToolExecution(
 ) {
   try {
     // Extract tool information
-    const { toolName, toolCallId, args } = body.executeToolDirectly;
+    const { toolName, toolCallId, args, approved } = body.executeToolDirectly;
     
     logger.debug(LogCategory.API, 'ChatRoute', 'Direct tool execution', { 
       agentId, 
@@ -307,11 +352,34 @@ async function handleDirectToolExecution(
     
     // Execute the tool with provided arguments
     const sessionIdHeader = request.headers.get('x-session-id');
+    
+    // Direct calls bypass the model's tool list, so the active step's rules are checked here
+    if (sessionIdHeader && 'orchestration' in template) {
+      const { authorizeToolCall } = await import('@/lib/orchestration-adapter');
+      const authorization = await authorizeToolCall(sessionIdHeader, toolName, toMutableConfig(template.orchestration));
+      if (!authorization.allowed && authorization.violation) {
+        return NextResponse.json(createToolViolationResult(authorization.violation), { status: 409 });
+      }
+    }
+    
+    await linkSalesforceConnectionFromRequest(request, sessionIdHeader);
     const result = await tool.execute(args || {}, {
       toolCallId: toolCallId || `call-${Date.now()}`,
-      sessionId: sessionIdHeader || 'unknown-session'
+      sessionId: sessionIdHeader || 'unknown-session',
+      nodeConfigurations: template.nodeConfigurations as Record<string, any>,
+      approved: approved === true
     });
     
+    // Record the result in the conversation; the call was recorded with the response that made it
+    if (sessionIdHeader && toolCallId) {
+      const { recordToolExecution } = await import('@/lib/conversation-adapter');
+      const { getUserId } = await import('@/lib/user-identity');
+      const userId = await getUserId(request);
+      if (userId) {
+        await recordToolExecution({ sessionId: sessionIdHeader, agentId, userId, toolName, toolCallId, result });
+      }
+    }
+    
     // Track tool usage for orchestration if session ID is available
     if (sessionIdHeader && template && 'orchestration' in template) {
       try {
@@ -321,11 +389,14 @@ async function handleDirectToolExecution(
         // Convert readonly config to mutable
         const mutableConfig = toMutableConfig(template.orchestration);
         
-        // Track tool usage and get updated state
+        // Track tool usage and get updated state. The conversation is not part of this
+        // request, so it is left out rather than passed as empty.
         await trackToolUsage(
           sessionIdHeader, 
           toolName, 
-          mutableConfig
+          mutableConfig,
+          undefined,
+          result
         );
         
         logger.debug(
@@ -393,6 +464,9 @@ export async function POST(
   context: { params: Promise<{ agentId: string }> }
 ) {
   const requestStartTime = Date.now();
+  // A user ID issued by this request, set on the response even when it fails, since the
+  // user's message may already be recorded under it
+  let issuedUserId: string | undefined;
   try {
     // Ensure tools are initialized lazily when needed
     ensureToolsInitialized();
@@ -441,10 +515,11 @@ export async function POST(
     }
     
     // Resolve the API key
-    const apiKey = await resolveApiKey(request, llmInfo.provider, byokOnly);
+    // Self-hosted providers may run without a key
+    const apiKey = (await resolveApiKey(request, llmInfo.provider, byokOnly)) || '';
 
     // If still no API key, throw error
-    if (!apiKey) {
+    if (!apiKey && ProviderRegistry.requiresApiKey(llmInfo.provider)) {
       throw new APIError(
         'API key is required. Please add your API key in settings.',
         ErrorCode.LLM_API_KEY,
@@ -454,7 +529,7 @@ export async function POST(
     }
 
     // Validate API key format
-    if (!llmInfo.validateApiKey(apiKey)) {
+    if (apiKey && !llmInfo.validateApiKey(apiKey)) {
       throw new APIError(
         `Invalid API key format for ${llmInfo.displayName}`,
         ErrorCode.LLM_API_KEY,
@@ -536,6 +611,7 @@ export async function POST(
     // Get session ID from headers or request body
     const clientSessionId = request.headers.get('x-session-id') || requestSessionId;
     const finalSessionId = clientSessionId || `session-${agentId}-${Date.now()}-${crypto.randomUUID()}`;
+    await linkSalesforceConnectionFromRequest(request, finalSessionId);
     
     // Log request details
     const sessionIdDisplay = finalSessionId ? `${finalSessionId.substring(0, 12)}...` : "none";
@@ -575,10 +651,11 @@ export async function POST(
         // Convert readonly config to mutable
         const mutableConfig = toMutableConfig(template.orchestration);
         
-        // Get orchestration state
-        orchestrationState = await import('@/lib/orchestration-adapter').then(
-          module => module.getOrchestrationState(finalSessionId, mutableConfig)
-        );
+        // Save the state as it is before this message, for rewinding and forking,
+        // then get orchestration state
+        const adapter = await import('@/lib/orchestration-adapter');
+        await adapter.snapshotOrchestrationState(finalSessionId, messages as Message[]);
+        orchestrationState = await adapter.getOrchestrationState(finalSessionId, mutableConfig);
         
         logger.debug(
           LogCategory.API,
@@ -607,23 +684,42 @@ export async function POST(
       );
     }
 
+    // Keep the conversation on the server, owned by the user of the identity cookie
+    const { recordConversationTurn } = await import('@/lib/conversation-adapter');
+    const { resolveUserId, setUserIdCookie } = await import('@/lib/user-identity');
+    const { userId, issued } = await resolveUserId(request);
+    if (issued) issuedUserId = userId;
+    const recordResponse = await recordConversationTurn({
+      sessionId: finalSessionId,
+      agentId,
+      userId,
+      messages: messages as Message[]
+    });
+
     try {
       // Process the message using the adapter
       const result = await processAgentMessage({
         agentId,
         messages: messages as Message[],
         sessionId: finalSessionId,
+        userId,
         apiKey,
         provider: llmInfo.provider,
         system,
         config: runtimeOverrides,
         _fallbackApiKey: fallbackApiKey,
+        failoverApiKeys: resolveFailoverApiKeys(llmConfig, llmInfo.provider, byokOnly),
         fullAgentConfig: config,
-        orchestrationState: orchestrationState
+        orchestrationState: orchestrationState,
+        onFinish: recordResponse
       });
 
       // Create and return the response with proper headers
-      return await createAgentResponse(result, finalSessionId, requestStartTime, agentId, llmInfo, llmConfig);
+      const response = await createAgentResponse(result, finalSessionId, requestStartTime, agentId, llmInfo, llmConfig);
+      if (issuedUserId) {
+        await setUserIdCookie(response, issuedUserId);
+      }
+      return response;
       
     } catch (error) {
       // Log session-related errors specifically
@@ -672,12 +768,17 @@ export async function POST(
     }
     
     // Return error response using agentdock-core's normalizeError
-    return new Response(
+    const response = new Response(
       JSON.stringify(normalizeError(parsedError)),
       { 
         status: parsedError instanceof APIError ? parsedError.httpStatus : 500,
         headers: { 'Content-Type': 'application/json' }
       }
     );
+    if (issuedUserId) {
+      const { setUserIdCookie } = await import('@/lib/user-identity');
+      await setUserIdCookie(response, issuedUserId);
+    }
+    return response;
   }
 } 
\ No newline at end of file
@@ -0,0 +1,86 @@
+/**
+ * @fileoverview API Route to dry-run an orchestration config against a scripted conversation.
+ * Lets template authors check steps, allowed tools and prompt context without a live chat.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  logger,
+  LogCategory,
+  OrchestrationSchema,
+  SimulationScriptSchema,
+  simulateOrchestration
+} from 'agentdock-core';
+import { templates, TemplateId } from '@/generated/templates';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+const SimulateRequestSchema = z.object({
+  /** Orchestration to simulate; takes precedence over agentId */
+  orchestration: z.unknown().optional(),
+  /** Template whose orchestration (and nodes, as tools) to simulate */
+  agentId: z.string().optional(),
+  script: SimulationScriptSchema
+}).refine(body => body.orchestration !== undefined || body.agentId !== undefined, {
+  message: 'Either orchestration or agentId is required'
+});
+
+/**
+ * POST /api/orchestration/simulate
+ * Replays the script through the orchestration and returns what each turn produced
+ */
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  const parsed = SimulateRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid simulation request', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  const { agentId, script } = parsed.data;
+  let orchestrationInput = parsed.data.orchestration;
+  let tools: string[] | undefined;
+
+  if (orchestrationInput === undefined && agentId) {
+    const template = templates[agentId as TemplateId];
+    if (!template) {
+      return NextResponse.json({ error: `Template not found: ${agentId}` }, { status: 404 });
+    }
+    orchestrationInput = 'orchestration' in template ? template.orchestration : undefined;
+    if (orchestrationInput === undefined) {
+      return NextResponse.json({ error: `Template ${agentId} has no orchestration` }, { status: 400 });
+    }
+    // The agent's nodes are its tools, leaving out its models
+    tools = [...template.nodes].filter(node => !node.startsWith('llm.'));
+  }
+
+  const orchestration = OrchestrationSchema.safeParse(orchestrationInput);
+  if (!orchestration.success) {
+    return NextResponse.json({ error: 'Invalid orchestration', issues: orchestration.error.issues }, { status: 400 });
+  }
+
+  try {
+    const result = await simulateOrchestration(orchestration.data, script, { tools });
+
+    logger.debug(LogCategory.API, 'OrchestrationSimulateRoute', 'Simulation finished', {
+      agentId,
+      turns: result.turns.length,
+      passed: result.passed
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    logger.error(LogCategory.API, 'OrchestrationSimulateRoute', 'Error running simulation', {
+      agentId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return NextResponse.json({ error: 'Internal server error running simulation' }, { status: 500 });
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * @fileoverview API Route to download the results of a Salesforce bulk export as CSV.
+ * Only jobs started in the given session can be downloaded.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger, LogCategory } from 'agentdock-core';
+import {
+  getBulkJobRegistration,
+  getSalesforceConnection,
+  streamBulkQueryCsv
+} from '@/nodes/salesforce/api';
+
+export const runtime = 'nodejs';
+export const maxDuration = 300; // Large exports are read page by page
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ jobId: string }> }
+) {
+  const { jobId } = await context.params;
+  const sessionId = request.nextUrl.searchParams.get('sessionId');
+
+  if (!sessionId) {
+    return NextResponse.json({ error: 'Session ID is required' }, { status: 400 });
+  }
+
+  try {
+    const registration = await getBulkJobRegistration(sessionId, jobId);
+    if (!registration || registration.kind !== 'query') {
+      return NextResponse.json({ error: 'Bulk export not found' }, { status: 404 });
+    }
+
+    const client = getSalesforceConnection(sessionId, {
+      nodeConfigurations: { salesforce: registration.salesforceConfig }
+    });
+    const pages = streamBulkQueryCsv(client, jobId);
+    const encoder = new TextEncoder();
+
+    const stream = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          const { value, done } = await pages.next();
+          if (done) {
+            controller.close();
+            return;
+          }
+          controller.enqueue(encoder.encode(value));
+        } catch (error) {
+          logger.error(LogCategory.API, 'SalesforceBulkRoute', 'Error streaming bulk results', {
+            jobId,
+            error: error instanceof Error ? error.message : String(error),
+          });
+          controller.error(error);
+        }
+      },
+      async cancel() {
+        await pages.return(undefined);
+      }
+    });
+
+    const filename = `${registration.object || 'salesforce'}-${jobId}.csv`;
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`
+      }
+    });
+  } catch (error) {
+    logger.error(LogCategory.API, 'SalesforceBulkRoute', 'Error downloading bulk results', {
+      jobId,
+      sessionId: sessionId.substring(0, 8) + '...',
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return NextResponse.json({ error: 'Unable to download bulk results' }, { status: 500 });
+  }
+}
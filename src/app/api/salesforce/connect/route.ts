@@ -0,0 +1,68 @@
+/**
+ * @fileoverview API Route that exchanges the Salesforce connected app credentials
+ * saved in the settings page for a connection. The credentials are used once and
+ * not stored; chat requests send only the returned connection ID, which the client
+ * reuses while GET reports it is still connected.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger, LogCategory } from 'agentdock-core';
+import {
+  DEFAULT_LOGIN_URL,
+  SALESFORCE_CONNECTION_HEADER,
+  assertAllowedLoginUrl,
+  getSalesforceConnectionManager
+} from '@/nodes/salesforce/api';
+import { SalesforceCredentialsSchema } from '@/nodes/salesforce/schema';
+import { SalesforceApiError } from '@/nodes/salesforce/utils/error-helpers';
+
+export const runtime = 'nodejs';
+
+/**
+ * Reports whether the connection in the connection header still exists
+ */
+export async function GET(request: NextRequest) {
+  const connectionId = request.headers.get(SALESFORCE_CONNECTION_HEADER);
+  if (!connectionId) {
+    return NextResponse.json({ error: `Missing ${SALESFORCE_CONNECTION_HEADER} header` }, { status: 400 });
+  }
+
+  const connected = await getSalesforceConnectionManager().hasConnection(connectionId);
+  return NextResponse.json({ connected }, { status: connected ? 200 : 404 });
+}
+
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  const parsed = SalesforceCredentialsSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: `Invalid Salesforce credentials: ${parsed.error.errors.map(e => e.message).join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    assertAllowedLoginUrl(parsed.data.loginUrl || DEFAULT_LOGIN_URL);
+  } catch (error) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : String(error) }, { status: 400 });
+  }
+
+  try {
+    const result = await getSalesforceConnectionManager().connect(parsed.data);
+    return NextResponse.json(result);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.warn(LogCategory.API, 'SalesforceConnectRoute', 'Unable to connect to Salesforce', {
+      flow: parsed.data.flow,
+      error: message
+    });
+    // The token endpoint rejected the credentials, or could not be reached
+    return NextResponse.json({ error: message }, { status: error instanceof SalesforceApiError ? 401 : 502 });
+  }
+}
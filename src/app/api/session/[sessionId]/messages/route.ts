@@ -0,0 +1,65 @@
+/**
+ * @fileoverview API Route to read the stored conversation of a session, page by page.
+ * A conversation can only be read by the user it was recorded for, identified by the identity cookie.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { logger, LogCategory } from 'agentdock-core';
+import { getConversationStore, getOwnedConversation } from '@/lib/conversation-adapter';
+import { getUserId } from '@/lib/user-identity';
+
+// Node.js runtime: conversations may be kept in SQLite or the local filesystem
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+const PageQuerySchema = z.object({
+  offset: z.coerce.number().int().min(0).default(0),
+  limit: z.coerce.number().int().min(1).max(200).default(50)
+});
+
+/**
+ * GET /api/session/[sessionId]/messages?offset=0&limit=50
+ * Returns the conversation and a page of its messages, tool calls and tool results, oldest first.
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ sessionId: string }> }
+) {
+  const { sessionId } = await context.params;
+
+  if (!sessionId) {
+    return NextResponse.json({ error: 'Session ID is required' }, { status: 400 });
+  }
+
+  const parsed = PageQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid pagination parameters', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  try {
+    const conversation = await getOwnedConversation(sessionId, await getUserId(request));
+
+    // Another user's conversation is reported as missing, so session IDs cannot be probed
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    const page = await getConversationStore().getMessages(sessionId, parsed.data);
+
+    logger.debug(LogCategory.API, 'SessionMessagesRoute', 'Fetched conversation page', {
+      sessionId: sessionId.substring(0, 8) + '...',
+      offset: page.offset,
+      count: page.entries.length,
+      hasMore: page.hasMore
+    });
+
+    return NextResponse.json({ conversation, ...page });
+  } catch (error) {
+    logger.error(LogCategory.API, 'SessionMessagesRoute', 'Error fetching conversation', {
+      sessionId: sessionId.substring(0, 8) + '...',
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return NextResponse.json({ error: 'Internal server error fetching conversation' }, { status: 500 });
+  }
+}
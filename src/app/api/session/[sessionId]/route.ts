@@ -1,17 +1,22 @@
 /**
- * @fileoverview API Route to fetch session state, including cumulative token usage.
+ * @fileoverview API Route to fetch session state, including cumulative token usage,
+ * and to rewind or fork a session at an earlier message.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
 import {
     logger,
     LogCategory,
     // Assuming getOrchestrationManagerInstance is correctly exported and configured
 } from 'agentdock-core';
 import { getOrchestrationManagerInstance } from '@/lib/orchestration-adapter'; // Use adapter's instance getter
+import { canWriteConversation, forkConversation, rewindConversation } from '@/lib/conversation-adapter';
+import { getUserId } from '@/lib/user-identity';
 import { SessionId } from 'agentdock-core/types/session';
 
-export const runtime = 'edge';
+// Node.js runtime: session storage may be SQLite or the local filesystem
+export const runtime = 'nodejs';
 export const maxDuration = 60; // Shorter duration for simple state fetch
 
 export async function GET(
@@ -51,7 +56,8 @@ export async function GET(
         sessionId: state.sessionId,
         activeStep: state.activeStep,
         recentlyUsedTools: state.recentlyUsedTools || [], // Default to empty array if undefined
-        cumulativeTokenUsage: state.cumulativeTokenUsage || { promptTokens: 0, completionTokens: 0, totalTokens: 0 } // Default if undefined
+        cumulativeTokenUsage: state.cumulativeTokenUsage || { promptTokens: 0, completionTokens: 0, totalTokens: 0 }, // Default if undefined
+        transitionHistory: state.transitionHistory || []
     };
 
     // DEBUG: Log the exact payload being returned
@@ -73,4 +79,92 @@ export async function GET(
     });
     return NextResponse.json({ error: 'Internal server error fetching session state' }, { status: 500 });
   }
-}
\ No newline at end of file
+}
+
+const SessionActionSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('rewind'), messageId: z.string().min(1) }),
+  z.object({ action: z.literal('fork'), messageId: z.string().min(1) })
+]);
+
+/**
+ * POST /api/session/[sessionId]
+ * `rewind` restores the orchestration state saved for a message, so it can be edited and resubmitted,
+ * and removes that message and the ones after it from the stored conversation.
+ * `fork` copies that state, and the conversation before that message, into a new session with an
+ * ID generated here, leaving this one unchanged.
+ * Sessions whose conversation belongs to another user are reported as missing.
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ sessionId: string }> }
+) {
+  const { sessionId } = await context.params;
+
+  if (!sessionId) {
+    return NextResponse.json({ error: 'Session ID is required' }, { status: 400 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  const parsed = SessionActionSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid session action', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  const { action, messageId } = parsed.data;
+
+  try {
+    if (!await canWriteConversation(sessionId, await getUserId(request))) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    // The conversation is truncated even for agents without orchestration, which have no snapshot
+    if (action === 'rewind') {
+      await rewindConversation(sessionId, messageId);
+    }
+
+    const manager = getOrchestrationManagerInstance();
+    const state = action === 'rewind'
+      ? await manager.rewindTo(sessionId, messageId)
+      : await manager.forkSession(sessionId, messageId);
+
+    if (!state) {
+      logger.warn(LogCategory.API, 'SessionRoute', `Session ${action} failed`, {
+        sessionId: sessionId.substring(0, 8) + '...',
+        messageId
+      });
+      return NextResponse.json({ error: `No state snapshot to ${action} for message ${messageId}` }, { status: 404 });
+    }
+
+    if (action === 'fork') {
+      await forkConversation(sessionId, state.sessionId, messageId);
+    }
+
+    logger.info(LogCategory.API, 'SessionRoute', action === 'rewind' ? 'Rewound session' : 'Forked session', {
+      sessionId: sessionId.substring(0, 8) + '...',
+      resultSessionId: state.sessionId.substring(0, 8) + '...',
+      messageId
+    });
+
+    return NextResponse.json({
+      sessionId: state.sessionId,
+      activeStep: state.activeStep,
+      recentlyUsedTools: state.recentlyUsedTools || [],
+      sequenceIndex: state.sequenceIndex,
+      cumulativeTokenUsage: state.cumulativeTokenUsage || { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+      transitionHistory: state.transitionHistory || []
+    }, { status: action === 'fork' ? 201 : 200 });
+
+  } catch (error) {
+    logger.error(LogCategory.API, 'SessionRoute', `Error during session ${action}`, {
+      sessionId: sessionId.substring(0, 8) + '...',
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return NextResponse.json({ error: `Internal server error during session ${action}` }, { status: 500 });
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * @fileoverview API Route to search the stored conversations of a user.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { logger, LogCategory } from 'agentdock-core';
+import { getConversationStore } from '@/lib/conversation-adapter';
+import { getUserId } from '@/lib/user-identity';
+
+// Node.js runtime: conversations may be kept in SQLite or the local filesystem
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+const SearchQuerySchema = z.object({
+  q: z.string().trim().min(1).max(500),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  agentId: z.string().min(1).optional()
+});
+
+/**
+ * GET /api/sessions/search?q=...&limit=20&agentId=...
+ * Finds messages, tool calls and tool results containing every word of `q`, across the
+ * conversations of the user identified by the identity cookie. Best matches come first.
+ */
+export async function GET(request: NextRequest) {
+  const userId = await getUserId(request);
+
+  if (!userId) {
+    return NextResponse.json({ error: 'No user identity; send a chat message first' }, { status: 401 });
+  }
+
+  const parsed = SearchQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid search parameters', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  const { q, limit, agentId } = parsed.data;
+
+  try {
+    const results = await getConversationStore().search(userId, q, { limit, agentId });
+
+    logger.debug(LogCategory.API, 'SessionSearchRoute', 'Searched conversations', {
+      terms: q.split(/\s+/).length,
+      results: results.length
+    });
+
+    return NextResponse.json({
+      query: q,
+      results: results.map(({ conversation, entry, snippet, score }) => ({
+        sessionId: conversation.sessionId,
+        agentId: conversation.agentId,
+        title: conversation.title,
+        updatedAt: conversation.updatedAt,
+        entry,
+        snippet,
+        score
+      }))
+    });
+  } catch (error) {
+    logger.error(LogCategory.API, 'SessionSearchRoute', 'Error searching conversations', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return NextResponse.json({ error: 'Internal server error searching conversations' }, { status: 500 });
+  }
+}
@@ -20,9 +20,11 @@ import { ModelDisplay } from './model-display'
 import { CoreSettings } from './core-settings'
 import { DebugPanel } from './debug-panel'
 import { FontSettings } from './font-settings'
+import { SalesforceSettings } from './salesforce-settings'
+import { SecuritySettings } from './security-settings'
 
 // Import types
-import { GlobalSettings, DEFAULT_SETTINGS, ApiKeyProvider } from './types'
+import { GlobalSettings, DEFAULT_SETTINGS, DEFAULT_SALESFORCE_SETTINGS, ApiKeyProvider, SalesforceSettings as SalesforceSettingsValue } from './types'
 
 // Create a single instance for settings
 const storage = SecureStorage.getInstance('agentdock');
@@ -42,25 +44,34 @@ function SettingsPage() {
   const [initialLoading, setInitialLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [modelsRefreshTrigger, setModelsRefreshTrigger] = useState(0);
+  const [locked, setLocked] = useState(() => storage.isLocked())
+  const [passphraseProtected, setPassphraseProtected] = useState(() => storage.isPassphraseProtected())
+
+  const loadSettings = useCallback(async () => {
+    // Settings can't be read until the passphrase is entered
+    if (storage.isLocked()) return;
+
+    const storedSettings = await storage.get<GlobalSettings>("global_settings");
+    if (storedSettings) {
+      setSettings({
+        ...DEFAULT_SETTINGS,
+        ...storedSettings
+      });
+      
+      // If we have API keys, trigger a refresh of the models
+      if (storedSettings.apiKeys?.anthropic || storedSettings.apiKeys?.openai) {
+        // Trigger a refresh of the models immediately
+          setModelsRefreshTrigger(prev => prev + 1);
+      }
+    }
+  }, []);
 
   // Load settings on mount
   useEffect(() => {
-    const loadSettings = async () => {
+    const loadInitialSettings = async () => {
       try {
         setInitialLoading(true);
-        const storedSettings = await storage.get<GlobalSettings>("global_settings");
-        if (storedSettings) {
-          setSettings({
-            ...DEFAULT_SETTINGS,
-            ...storedSettings
-          });
-          
-          // If we have API keys, trigger a refresh of the models
-          if (storedSettings.apiKeys?.anthropic || storedSettings.apiKeys?.openai) {
-            // Trigger a refresh of the models immediately
-              setModelsRefreshTrigger(prev => prev + 1);
-          }
-        }
+        await loadSettings();
       } catch (error) {
         logger.error(LogCategory.LLM, '[Settings]', 'Error loading settings:', { error });
         setError("Failed to load settings");
@@ -69,9 +80,81 @@ function SettingsPage() {
       }
     };
     
-    loadSettings();
+    loadInitialSettings();
+  }, [loadSettings]);
+
+  // Follow locking, including the idle auto-lock, and drop the keys from view while locked
+  useEffect(() => {
+    return storage.onLockChange((isLocked) => {
+      setLocked(isLocked);
+      if (isLocked) {
+        setSettings(DEFAULT_SETTINGS);
+        toast.info("Settings locked");
+      }
+    });
   }, []);
 
+  // Run a security action, reporting failures; resolves to whether it succeeded
+  const runSecurityAction = useCallback(async (action: () => Promise<void>, failureMessage: string) => {
+    try {
+      setLoading(true);
+      setError(null);
+      await action();
+      setPassphraseProtected(storage.isPassphraseProtected());
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : failureMessage;
+      logger.error(LogCategory.SYSTEM, '[Settings]', failureMessage, { error });
+      toast.error(message);
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const handleUnlock = useCallback((passphrase: string) => runSecurityAction(async () => {
+    await storage.unlock(passphrase);
+    await loadSettings();
+    toast.success("Settings unlocked");
+  }, "Failed to unlock settings"), [runSecurityAction, loadSettings]);
+
+  const handleLock = useCallback(() => {
+    storage.lock();
+  }, []);
+
+  const handleSetPassphrase = useCallback((passphrase: string, autoLockMinutes: number) => runSecurityAction(async () => {
+    const wasProtected = storage.isPassphraseProtected();
+    await storage.setPassphrase(passphrase, { autoLockMs: autoLockMinutes * 60 * 1000 });
+    toast.success(wasProtected ? "Passphrase changed" : "Settings are now protected with your passphrase");
+  }, "Failed to set passphrase"), [runSecurityAction]);
+
+  const handleRemovePassphrase = useCallback(() => runSecurityAction(async () => {
+    await storage.removePassphrase();
+    toast.success("Passphrase removed");
+  }, "Failed to remove passphrase"), [runSecurityAction]);
+
+  const handleRotateKeys = useCallback(() => runSecurityAction(async () => {
+    const count = await storage.rotateKeys();
+    toast.success(`Re-encrypted ${count} stored ${count === 1 ? 'item' : 'items'} with new keys`);
+  }, "Failed to rotate encryption keys"), [runSecurityAction]);
+
+  const handleExport = useCallback((passphrase: string) => runSecurityAction(async () => {
+    const exported = await storage.exportEncrypted(passphrase);
+    const url = URL.createObjectURL(new Blob([exported], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `agentdock-settings-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+    toast.success("Settings exported");
+  }, "Failed to export settings"), [runSecurityAction]);
+
+  const handleImport = useCallback((exported: string, passphrase: string) => runSecurityAction(async () => {
+    const count = await storage.importEncrypted(exported, passphrase);
+    await loadSettings();
+    toast.success(`Imported ${count} stored ${count === 1 ? 'item' : 'items'}`);
+  }, "Failed to import settings"), [runSecurityAction, loadSettings]);
+
   // Centralized function to handle API key validation, saving, and model refresh
   const handleApiKeyValidationAndSave = useCallback(async (
     provider: keyof GlobalSettings['apiKeys'], 
@@ -233,6 +316,19 @@ function SettingsPage() {
     }))
   }, [])
 
+  // Handle Salesforce connected app credential changes (saved with "Save Changes")
+  const handleSalesforceChange = useCallback((field: keyof SalesforceSettingsValue, value: string) => {
+    setSettings(prev => ({
+      ...prev,
+      salesforce: {
+        ...DEFAULT_SALESFORCE_SETTINGS,
+        ...prev.salesforce,
+        [field]: value
+      }
+    }))
+    setError(null)
+  }, [])
+
   // Trigger model refresh
   const handleRefreshTrigger = useCallback(() => {
     setModelsRefreshTrigger(prev => prev + 1);
@@ -320,7 +416,7 @@ function SettingsPage() {
               Manage your API keys and application preferences
             </p>
           </div>
-          <Button onClick={handleSave} disabled={loading}>
+          <Button onClick={handleSave} disabled={loading || locked}>
             {loading ? (
               <div className="flex items-center gap-2">
                 <div className="h-4 w-4 animate-spin rounded-full border-2 border-primary border-t-transparent" />
@@ -347,129 +443,153 @@ function SettingsPage() {
           </Card>
         )}
         
-        {/* Core Settings and Font Settings */}
-        <div className="grid gap-6 md:grid-cols-2">
-          <CoreSettings 
-            settings={settings}
-            onByokChange={handleByokOnlyChange}
-            onDebugModeChange={handleDebugModeChange}
-          />
+        {/* Passphrase protection; the other settings stay hidden while locked */}
+        <SecuritySettings
+          locked={locked}
+          passphraseProtected={passphraseProtected}
+          busy={loading}
+          onUnlock={handleUnlock}
+          onLock={handleLock}
+          onSetPassphrase={handleSetPassphrase}
+          onRemovePassphrase={handleRemovePassphrase}
+          onRotateKeys={handleRotateKeys}
+          onExport={handleExport}
+          onImport={handleImport}
+        />
+
+        {!locked && (
+          <>
+            {/* Core Settings and Font Settings */}
+            <div className="grid gap-6 md:grid-cols-2">
+              <CoreSettings 
+                settings={settings}
+                onByokChange={handleByokOnlyChange}
+                onDebugModeChange={handleDebugModeChange}
+              />
           
-          <FontSettings 
-            settings={settings}
-            onPrimaryFontChange={handlePrimaryFontChange}
-            onMonoFontChange={handleMonoFontChange}
-          />
-        </div>
+              <FontSettings 
+                settings={settings}
+                onPrimaryFontChange={handlePrimaryFontChange}
+                onMonoFontChange={handleMonoFontChange}
+              />
+            </div>
         
-        {/* API Keys */}
-        <div className="space-y-4">
-          <Card className="shadow-none">
-            <div className="p-6 space-y-6">
-              <div className="flex items-center gap-2">
-                <KeyRound className="h-5 w-5" />
-                <h3 className="text-lg font-medium">API Keys</h3>
-              </div>
-              <p className="text-sm text-muted-foreground">
-                Configure API keys for language models and other services
-              </p>
+            {/* API Keys */}
+            <div className="space-y-4">
+              <Card className="shadow-none">
+                <div className="p-6 space-y-6">
+                  <div className="flex items-center gap-2">
+                    <KeyRound className="h-5 w-5" />
+                    <h3 className="text-lg font-medium">API Keys</h3>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    Configure API keys for language models and other services
+                  </p>
               
-              <div className="grid gap-6">
-                {API_KEY_PROVIDERS.map(({ key, label, icon: Icon, description }) => (
-                  <div key={key.toString()} className="grid gap-2">
-                    <Label htmlFor={key.toString()} className="flex items-center gap-2">
-                      <Icon className="h-4 w-4" />
-                      {label}
-                    </Label>
-                    <div className="relative">
-                      <Input
-                        id={key.toString()}
-                        type="password"
-                        placeholder={`Enter your ${key} API key`}
-                        value={settings.apiKeys[key]}
-                        onChange={(e) => handleApiKeyChange(key, e.target.value)}
-                        onBlur={(e) => handleApiKeyValidate(key, e.target.value)}
-                        onKeyDown={(e) => {
-                          if (e.key === 'Enter') {
-                            e.preventDefault();
-                            handleApiKeyValidate(key, (e.target as HTMLInputElement).value);
-                          }
-                        }}
-                        className="pr-20"
-                      />
-                      {settings.apiKeys[key] && (
-                        <Button 
-                          type="button" 
-                          variant="ghost" 
-                          size="sm" 
-                          className="absolute right-1 top-1 h-7"
-                          onClick={() => handleApiKeyValidate(key, '')}
-                        >
-                          Clear
-                        </Button>
-                      )}
-                    </div>
-                    {description && (
-                      <p className="text-xs text-muted-foreground">{description}</p>
-                    )}
-                    {key === 'anthropic' && (
-                      <div className="pt-2">
-                        <ModelDisplay 
-                          provider="anthropic" 
-                          refreshTrigger={modelsRefreshTrigger} 
-                          onRefreshComplete={handleRefreshTrigger} 
-                        />
-                      </div>
-                    )}
-                    {key === 'openai' && (
-                      <div className="pt-2">
-                        <ModelDisplay 
-                          provider="openai" 
-                          refreshTrigger={modelsRefreshTrigger} 
-                          onRefreshComplete={handleRefreshTrigger} 
-                        />
-                      </div>
-                    )}
-                    {key === 'gemini' && (
-                      <div className="pt-2">
-                        <ModelDisplay 
-                          provider="gemini" 
-                          refreshTrigger={modelsRefreshTrigger} 
-                          onRefreshComplete={handleRefreshTrigger} 
-                        />
+                  <div className="grid gap-6">
+                    {API_KEY_PROVIDERS.map(({ key, label, icon: Icon, description }) => (
+                      <div key={key.toString()} className="grid gap-2">
+                        <Label htmlFor={key.toString()} className="flex items-center gap-2">
+                          <Icon className="h-4 w-4" />
+                          {label}
+                        </Label>
+                        <div className="relative">
+                          <Input
+                            id={key.toString()}
+                            type="password"
+                            placeholder={`Enter your ${key} API key`}
+                            value={settings.apiKeys[key]}
+                            onChange={(e) => handleApiKeyChange(key, e.target.value)}
+                            onBlur={(e) => handleApiKeyValidate(key, e.target.value)}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') {
+                                e.preventDefault();
+                                handleApiKeyValidate(key, (e.target as HTMLInputElement).value);
+                              }
+                            }}
+                            className="pr-20"
+                          />
+                          {settings.apiKeys[key] && (
+                            <Button 
+                              type="button" 
+                              variant="ghost" 
+                              size="sm" 
+                              className="absolute right-1 top-1 h-7"
+                              onClick={() => handleApiKeyValidate(key, '')}
+                            >
+                              Clear
+                            </Button>
+                          )}
+                        </div>
+                        {description && (
+                          <p className="text-xs text-muted-foreground">{description}</p>
+                        )}
+                        {key === 'anthropic' && (
+                          <div className="pt-2">
+                            <ModelDisplay 
+                              provider="anthropic" 
+                              refreshTrigger={modelsRefreshTrigger} 
+                              onRefreshComplete={handleRefreshTrigger} 
+                            />
+                          </div>
+                        )}
+                        {key === 'openai' && (
+                          <div className="pt-2">
+                            <ModelDisplay 
+                              provider="openai" 
+                              refreshTrigger={modelsRefreshTrigger} 
+                              onRefreshComplete={handleRefreshTrigger} 
+                            />
+                          </div>
+                        )}
+                        {key === 'gemini' && (
+                          <div className="pt-2">
+                            <ModelDisplay 
+                              provider="gemini" 
+                              refreshTrigger={modelsRefreshTrigger} 
+                              onRefreshComplete={handleRefreshTrigger} 
+                            />
+                          </div>
+                        )}
+                        {key === 'deepseek' && (
+                          <div className="pt-2">
+                            <ModelDisplay 
+                              provider="deepseek" 
+                              refreshTrigger={modelsRefreshTrigger} 
+                              onRefreshComplete={handleRefreshTrigger} 
+                            />
+                          </div>
+                        )}
+                        {key === 'groq' && (
+                          <div className="pt-2">
+                            <ModelDisplay 
+                              provider="groq" 
+                              refreshTrigger={modelsRefreshTrigger} 
+                              onRefreshComplete={handleRefreshTrigger} 
+                            />
+                          </div>
+                        )}
                       </div>
-                    )}
-                    {key === 'deepseek' && (
-                      <div className="pt-2">
-                        <ModelDisplay 
-                          provider="deepseek" 
-                          refreshTrigger={modelsRefreshTrigger} 
-                          onRefreshComplete={handleRefreshTrigger} 
-                        />
-                      </div>
-                    )}
-                    {key === 'groq' && (
-                      <div className="pt-2">
-                        <ModelDisplay 
-                          provider="groq" 
-                          refreshTrigger={modelsRefreshTrigger} 
-                          onRefreshComplete={handleRefreshTrigger} 
-                        />
-                      </div>
-                    )}
+                    ))}
                   </div>
-                ))}
-              </div>
-            </div>
-          </Card>
+                </div>
+              </Card>
 
-          {/* Debug Information */}
-          {settings.core.debugMode && (
-            <DebugPanel 
-              settings={settings} 
-            />
-          )}
-        </div>
+              {/* Salesforce Connection */}
+              <SalesforceSettings
+                settings={settings}
+                onChange={handleSalesforceChange}
+              />
+
+              {/* Debug Information */}
+              {settings.core.debugMode && (
+                <DebugPanel 
+                  settings={settings} 
+                />
+              )}
+            </div>
+          </>
+        )}
       </div>
     </TooltipProvider>
   )
@@ -0,0 +1,251 @@
+"use client"
+
+import { memo, useRef, useState } from "react"
+import { Card } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Separator } from "@/components/ui/separator"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Lock, Unlock, RefreshCw, Download, Upload } from "lucide-react"
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const AUTO_LOCK_OPTIONS: { value: string; label: string }[] = [
+  { value: '5', label: 'After 5 minutes' },
+  { value: '15', label: 'After 15 minutes' },
+  { value: '60', label: 'After 1 hour' },
+  { value: '0', label: 'Never' }
+];
+
+interface SecuritySettingsProps {
+  locked: boolean
+  passphraseProtected: boolean
+  busy: boolean
+  onUnlock: (passphrase: string) => Promise<boolean>
+  onLock: () => void
+  onSetPassphrase: (passphrase: string, autoLockMinutes: number) => Promise<boolean>
+  onRemovePassphrase: () => Promise<boolean>
+  onRotateKeys: () => Promise<boolean>
+  onExport: (passphrase: string) => Promise<boolean>
+  onImport: (exported: string, passphrase: string) => Promise<boolean>
+}
+
+function SecuritySettingsComponent({
+  locked,
+  passphraseProtected,
+  busy,
+  onUnlock,
+  onLock,
+  onSetPassphrase,
+  onRemovePassphrase,
+  onRotateKeys,
+  onExport,
+  onImport
+}: SecuritySettingsProps) {
+  const [unlockPassphrase, setUnlockPassphrase] = useState('')
+  const [passphrase, setPassphrase] = useState('')
+  const [confirmation, setConfirmation] = useState('')
+  const [autoLockMinutes, setAutoLockMinutes] = useState('15')
+  const [transferPassphrase, setTransferPassphrase] = useState('')
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const passphraseError =
+    passphrase && passphrase.length < MIN_PASSPHRASE_LENGTH
+      ? `Use at least ${MIN_PASSPHRASE_LENGTH} characters`
+      : confirmation && passphrase !== confirmation
+        ? 'Passphrases do not match'
+        : null;
+  const canSetPassphrase = passphrase.length >= MIN_PASSPHRASE_LENGTH && passphrase === confirmation;
+
+  const handleUnlock = async () => {
+    if (await onUnlock(unlockPassphrase)) {
+      setUnlockPassphrase('')
+    }
+  }
+
+  const handleSetPassphrase = async () => {
+    if (await onSetPassphrase(passphrase, parseInt(autoLockMinutes, 10))) {
+      setPassphrase('')
+      setConfirmation('')
+    }
+  }
+
+  const handleImportFile = async (file: File | undefined) => {
+    if (!file) return;
+    if (await onImport(await file.text(), transferPassphrase)) {
+      setTransferPassphrase('')
+    }
+    if (fileInputRef.current) {
+      fileInputRef.current.value = ''
+    }
+  }
+
+  if (locked) {
+    return (
+      <Card className="shadow-none">
+        <div className="p-6 space-y-6">
+          <div className="flex items-center gap-2">
+            <Lock className="h-5 w-5" />
+            <h3 className="text-lg font-medium">Settings Locked</h3>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Your API keys and settings are protected with a passphrase. Enter it to unlock them.
+          </p>
+          <div className="flex gap-2">
+            <Input
+              type="password"
+              placeholder="Passphrase"
+              value={unlockPassphrase}
+              onChange={(e) => setUnlockPassphrase(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && unlockPassphrase) {
+                  e.preventDefault();
+                  handleUnlock();
+                }
+              }}
+              autoFocus
+            />
+            <Button onClick={handleUnlock} disabled={busy || !unlockPassphrase}>
+              <Unlock className="mr-2 h-4 w-4" />
+              Unlock
+            </Button>
+          </div>
+        </div>
+      </Card>
+    )
+  }
+
+  return (
+    <Card className="shadow-none">
+      <div className="p-6 space-y-6">
+        <div className="flex items-center gap-2">
+          <Lock className="h-5 w-5" />
+          <h3 className="text-lg font-medium">Security</h3>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {passphraseProtected
+            ? 'Your API keys and settings are protected with a passphrase and lock after a period without use.'
+            : 'Protect your API keys and settings with a passphrase. Without one, anyone with access to this browser profile can read them.'}
+        </p>
+
+        <div className="grid gap-6">
+          <div className="grid gap-6 md:grid-cols-2">
+            <div className="grid gap-2">
+              <Label htmlFor="security-passphrase">
+                {passphraseProtected ? 'New Passphrase' : 'Passphrase'}
+              </Label>
+              <Input
+                id="security-passphrase"
+                type="password"
+                autoComplete="new-password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="security-confirmation">Confirm Passphrase</Label>
+              <Input
+                id="security-confirmation"
+                type="password"
+                autoComplete="new-password"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+              />
+            </div>
+          </div>
+          {passphraseError && (
+            <p className="text-xs text-destructive">{passphraseError}</p>
+          )}
+
+          <div className="grid gap-2">
+            <Label>Auto-Lock</Label>
+            <Select value={autoLockMinutes} onValueChange={setAutoLockMinutes}>
+              <SelectTrigger className="w-full md:w-64">
+                <SelectValue placeholder="Select when to lock" />
+              </SelectTrigger>
+              <SelectContent>
+                {AUTO_LOCK_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Locks when settings have not been read or saved for this long
+            </p>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Button onClick={handleSetPassphrase} disabled={busy || !canSetPassphrase}>
+              {passphraseProtected ? 'Change Passphrase' : 'Set Passphrase'}
+            </Button>
+            {passphraseProtected && (
+              <>
+                <Button variant="outline" onClick={onLock} disabled={busy}>
+                  <Lock className="mr-2 h-4 w-4" />
+                  Lock Now
+                </Button>
+                <Button variant="outline" onClick={onRemovePassphrase} disabled={busy}>
+                  Remove Passphrase
+                </Button>
+              </>
+            )}
+            <Button variant="outline" onClick={onRotateKeys} disabled={busy}>
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Rotate Encryption Keys
+            </Button>
+          </div>
+
+          <Separator />
+
+          <div className="grid gap-2">
+            <Label htmlFor="security-transfer-passphrase">Export and Import</Label>
+            <p className="text-xs text-muted-foreground">
+              Move your settings to another browser in a file encrypted with this passphrase
+            </p>
+            <Input
+              id="security-transfer-passphrase"
+              type="password"
+              autoComplete="off"
+              placeholder="Passphrase for the export file"
+              value={transferPassphrase}
+              onChange={(e) => setTransferPassphrase(e.target.value)}
+            />
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button
+              variant="outline"
+              onClick={async () => {
+                if (await onExport(transferPassphrase)) setTransferPassphrase('')
+              }}
+              disabled={busy || transferPassphrase.length < MIN_PASSPHRASE_LENGTH}
+            >
+              <Download className="mr-2 h-4 w-4" />
+              Export Settings
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={busy || !transferPassphrase}
+            >
+              <Upload className="mr-2 h-4 w-4" />
+              Import Settings
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => handleImportFile(e.target.files?.[0])}
+            />
+          </div>
+        </div>
+      </div>
+    </Card>
+  )
+}
+
+// Memoize the component to prevent unnecessary re-renders
+export const SecuritySettings = memo(SecuritySettingsComponent);
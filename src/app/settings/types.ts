@@ -18,6 +18,59 @@ export interface GlobalSettings {
     primary: FontFamily
     mono: string
   }
+  salesforce?: SalesforceSettings
+}
+
+/**
+ * Salesforce connected app credentials. Only the fields used by the
+ * selected OAuth flow are sent to the server.
+ */
+export interface SalesforceSettings {
+  flow: 'jwt' | 'password' | 'refresh_token'
+  loginUrl: string
+  clientId: string
+  clientSecret: string
+  username: string
+  password: string
+  securityToken: string
+  privateKey: string
+  refreshToken: string
+}
+
+export const DEFAULT_SALESFORCE_SETTINGS: SalesforceSettings = {
+  flow: 'password',
+  loginUrl: 'https://login.salesforce.com',
+  clientId: "",
+  clientSecret: "",
+  username: "",
+  password: "",
+  securityToken: "",
+  privateKey: "",
+  refreshToken: ""
+}
+
+/**
+ * Pick the credentials required by the selected flow, or null when the
+ * connected app has not been configured
+ */
+export function getSalesforceCredentials(settings?: SalesforceSettings): Record<string, string> | null {
+  if (!settings?.clientId) return null
+
+  const fieldsByFlow: Record<SalesforceSettings['flow'], (keyof SalesforceSettings)[]> = {
+    jwt: ['username', 'privateKey'],
+    password: ['clientSecret', 'username', 'password', 'securityToken'],
+    refresh_token: ['clientSecret', 'refreshToken']
+  }
+
+  const credentials: Record<string, string> = {
+    flow: settings.flow,
+    clientId: settings.clientId,
+    loginUrl: settings.loginUrl
+  }
+  for (const field of fieldsByFlow[settings.flow]) {
+    if (settings[field]) credentials[field] = settings[field]
+  }
+  return credentials
 }
 
 export const DEFAULT_SETTINGS: GlobalSettings = {
@@ -35,7 +88,8 @@ export const DEFAULT_SETTINGS: GlobalSettings = {
   fonts: {
     primary: 'inter',
     mono: 'default'
-  }
+  },
+  salesforce: DEFAULT_SALESFORCE_SETTINGS
 }
 
 export interface ApiKeyProvider {
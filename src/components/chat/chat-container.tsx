@@ -16,6 +16,8 @@ import { useChatSettings } from '@/hooks/use-chat-settings'
 import { useChatStorage } from '@/hooks/use-chat-storage'
 import { ChatError, ChatLoading } from './chat-status'
 import { logError, logInfo, logDebug } from '@/lib/utils/logger-utils'
+import type { ToolInvocation } from '@/components/chat/types'
+import { SALESFORCE_CONNECTION_HEADER } from '@/nodes/salesforce/api/constants'
 
 // Lazy load the debug component
 const ChatDebug = dynamic(() => import("@/components/chat/chat-debug").then((mod) => mod.ChatDebug), {
@@ -89,7 +91,7 @@ const ChatContainer = React.forwardRef<
   
   // Custom hooks
   const { chatSettings, isLoading: isSettingsLoading, error: settingsError, debugMode } = useChatSettings(agentId);
-  const { isInitializing, provider, apiKey, initError, reload: reloadApiKey } = useChatInitialization(agentId);
+  const { isInitializing, provider, apiKey, salesforceConnection, initError, reload: reloadApiKey } = useChatInitialization(agentId);
   const {
     loadSavedData,
     saveData,
@@ -146,6 +148,15 @@ const ChatContainer = React.forwardRef<
     provider?: string;
   } | null>(null);
   
+  // Headers sent with chat requests and approved tool executions. The user's identity for
+  // conversation history is a cookie set by the server, sent along automatically.
+  const requestHeaders = React.useMemo<Record<string, string>>(() => ({
+    ...(apiKey ? { 'x-api-key': apiKey } : {}),
+    ...(salesforceConnection ? { [SALESFORCE_CONNECTION_HEADER]: salesforceConnection } : {}),
+    'x-byok-mode': byokMode ? 'true' : 'false',
+    ...(orchestrationState.sessionId ? { 'x-session-id': orchestrationState.sessionId } : {})
+  }), [apiKey, salesforceConnection, byokMode, orchestrationState.sessionId]);
+  
   // Get trimmed messages for sending to LLM
   const trimmedInitialMessages = React.useMemo(() => {
     return trimMessages(initialMessages);
@@ -169,11 +180,7 @@ const ChatContainer = React.forwardRef<
     api: `/api/chat/${agentId}`,
     initialMessages: trimmedInitialMessages,
     streamProtocol: 'data',
-    headers: {
-      ...(apiKey ? { 'x-api-key': apiKey } : {}),
-      'x-byok-mode': byokMode ? 'true' : 'false',
-      ...(orchestrationState.sessionId ? { 'x-session-id': orchestrationState.sessionId } : {})
-    },
+    headers: requestHeaders,
     body: {
       system: chatSettings?.personality,
       temperature: chatSettings?.temperature,
@@ -344,6 +351,104 @@ const ChatContainer = React.forwardRef<
     }
   }, [isLoading, stop, setMessages, clearSavedData, reload]);
   
+  // Run or discard a tool call that is waiting for the user's approval.
+  // The decision replaces the pending result so the LLM sees it on the next turn.
+  const handleToolApproval = React.useCallback(async (invocation: ToolInvocation, approved: boolean) => {
+    const pending = invocation.result?.data as { toolName?: string; args?: Record<string, unknown> } | undefined;
+    const toolName = pending?.toolName || invocation.toolName;
+    let result: Record<string, unknown>;
+
+    if (approved) {
+      try {
+        const response = await fetch(`/api/chat/${agentId}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...requestHeaders },
+          body: JSON.stringify({
+            executeToolDirectly: {
+              toolName,
+              toolCallId: invocation.toolCallId,
+              args: pending?.args || {},
+              approved: true
+            }
+          })
+        });
+        result = await response.json();
+        if (!response.ok) {
+          throw new Error((result.error || result.content || `Status: ${response.status}`) as string);
+        }
+      } catch (error) {
+        await logError('ChatContainer', 'Approved tool execution failed', error);
+        toast.error(`Failed to run ${toolName}`);
+        return;
+      }
+    } else {
+      result = {
+        type: 'tool_call_rejected',
+        content: `## Rejected\n\nThe user rejected this ${toolName} call. Nothing was changed.`,
+        data: { toolName, args: pending?.args, rejected: true }
+      };
+    }
+
+    await logInfo('ChatContainer', approved ? 'Tool call approved' : 'Tool call rejected', undefined, {
+      toolName,
+      toolCallId: invocation.toolCallId
+    });
+
+    setMessages(current => current.map(message => {
+      if (!message.toolInvocations?.some(tool => tool.toolCallId === invocation.toolCallId)) {
+        return message;
+      }
+      return {
+        ...message,
+        toolInvocations: message.toolInvocations.map(tool =>
+          tool.toolCallId === invocation.toolCallId ? { ...tool, state: 'result' as const, result } : tool
+        )
+      };
+    }));
+  }, [agentId, requestHeaders, setMessages]);
+
+  // Edit an earlier user message and resubmit it. The orchestration state is rewound
+  // to its snapshot from before that message, so the new turn starts from the same step.
+  const handleEditMessage = React.useCallback(async (message: Message, content: string) => {
+    if (isLoading) {
+      stop();
+    }
+
+    const sessionId = orchestrationState.sessionId;
+    if (sessionId && message.id) {
+      try {
+        const response = await fetch(`/api/session/${sessionId}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ action: 'rewind', messageId: message.id })
+        });
+        // A 404 means no snapshot was taken (e.g. agents without orchestration)
+        if (response.ok) {
+          const rewound = await response.json() as { activeStep?: string; recentlyUsedTools?: string[] };
+          setOrchestrationState(prev => ({
+            ...prev,
+            activeStep: rewound.activeStep,
+            recentlyUsedTools: rewound.recentlyUsedTools || []
+          }));
+        } else if (response.status !== 404) {
+          throw new Error(`Status: ${response.status}`);
+        }
+      } catch (error) {
+        await logError('ChatContainer', 'Failed to rewind session state', error);
+        toast.error('Failed to resubmit message');
+        return;
+      }
+    }
+
+    await logInfo('ChatContainer', 'Resubmitting edited message', undefined, {
+      messageId: message.id
+    });
+
+    const index = messages.findIndex(m => m.id === message.id);
+    setMessages(index >= 0 ? messages.slice(0, index) : messages);
+    await append({ role: 'user', content });
+  }, [isLoading, stop, orchestrationState.sessionId, messages, setMessages, append]);
+  
   // Expose handleReset through ref
   React.useImperativeHandle(ref, () => ({
     handleReset
@@ -561,6 +666,8 @@ const ChatContainer = React.forwardRef<
           stop={stop}
           append={append}
           suggestions={suggestions}
+          onToolApproval={handleToolApproval}
+          onEditMessage={handleEditMessage}
         />
         
         {overlayErrorToDisplay && (
@@ -10,11 +10,13 @@ import { templates } from "@/generated/templates";
 import { toast } from "sonner";
 import { Separator } from "@/components/ui/separator";
 import { useSessionInfo, SessionInfoData } from "@/hooks/use-session-info";
+import { describeSequence } from "agentdock-core";
+import type { SequenceEntry } from "agentdock-core";
 
 interface OrchestrationStep {
   name: string;
   description: string;
-  sequence?: string[];
+  sequence?: SequenceEntry[];
   isDefault?: boolean;
 }
 
@@ -226,6 +228,9 @@ export const ChatDebug = React.memo<ChatDebugProps>(({
                       <div>Prompt Tokens: {fetchedState.cumulativeTokenUsage.promptTokens}</div>
                       <div>Completion Tokens: {fetchedState.cumulativeTokenUsage.completionTokens}</div>
                       <div className="font-semibold">Total Tokens: {fetchedState.cumulativeTokenUsage.totalTokens}</div>
+                      {!!fetchedState.cumulativeTokenUsage.cachedTokens && (
+                          <div className="text-muted-foreground">Cached Tokens: {fetchedState.cumulativeTokenUsage.cachedTokens}</div>
+                      )}
                   </div>
               )}
               {!isLoadingUsage && !fetchError && !fetchedState?.cumulativeTokenUsage && (
@@ -253,7 +258,7 @@ export const ChatDebug = React.memo<ChatDebugProps>(({
                       {step.sequence && step.sequence.length > 0 && (
                         <div className="ml-2 mt-0.5">
                           <span className="text-[9px] text-muted-foreground">Sequence: </span>
-                          <span className="text-[9px] font-mono">{step.sequence.join(' → ')}</span>
+                          <span className="text-[9px] font-mono">{describeSequence(step.sequence)}</span>
                         </div>
                       )}
                       {step.isDefault && (
@@ -1,12 +1,15 @@
 "use client"
 
-import React, { useMemo } from "react"
+import React, { useMemo, useState } from "react"
 import { cn } from "@/lib/utils"
 import { ChatMarkdown } from "@/components/chat/chat-markdown"
 import { FilePreview } from "@/components/chat/file-preview"
 import { ToolCall } from "@/components/chat/tool-call"
 import type { ChatMessageProps, Animation } from "@/components/chat/types"
 import { CopyButton } from "@/components/ui/copy-button"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { Pencil } from "lucide-react"
 import { motion } from "framer-motion"
 
 // Animation variants for different animation types
@@ -91,7 +94,8 @@ const MessageBubble = React.memo(({
   isStreaming,
   messageId,
   content,
-  copyButtonContent
+  copyButtonContent,
+  onEdit
 }: { 
   children: React.ReactNode;
   isUser: boolean;
@@ -99,6 +103,7 @@ const MessageBubble = React.memo(({
   messageId: string;
   content: string;
   copyButtonContent: string;
+  onEdit?: () => void;
 }) => {
   return (
     <div
@@ -125,12 +130,67 @@ const MessageBubble = React.memo(({
           />
         </div>
       )}
+      
+      {isUser && onEdit && (
+        <div className="absolute -bottom-4 right-2 flex space-x-1 rounded-lg border bg-background p-1 text-foreground opacity-0 transition-opacity group-hover/message:opacity-100">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 bg-background/50 hover:bg-background/80 dark:bg-background/30 dark:hover:bg-background/50 text-foreground rounded-md"
+            aria-label="Edit and resubmit"
+            title="Edit and resubmit"
+            onClick={onEdit}
+          >
+            <Pencil className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
     </div>
   );
 });
 
 MessageBubble.displayName = "MessageBubble";
 
+// Inline editor for resubmitting a user message
+const MessageEditor = ({
+  content,
+  onCancel,
+  onSubmit
+}: {
+  content: string;
+  onCancel: () => void;
+  onSubmit: (content: string) => void;
+}) => {
+  const [draft, setDraft] = useState(content);
+  const canSubmit = draft.trim().length > 0;
+
+  return (
+    <div className="flex w-full flex-col gap-2 sm:max-w-[70%]">
+      <Textarea
+        value={draft}
+        onChange={(event) => setDraft(event.target.value)}
+        onKeyDown={(event) => {
+          if (event.key === "Escape") onCancel();
+          if (event.key === "Enter" && !event.shiftKey && canSubmit) {
+            event.preventDefault();
+            onSubmit(draft.trim());
+          }
+        }}
+        aria-label="Edit message"
+        autoFocus
+      />
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button size="sm" disabled={!canSubmit} onClick={() => onSubmit(draft.trim())}>
+          Resubmit
+        </Button>
+      </div>
+    </div>
+  );
+};
+
 // Main message component
 export const ChatMessage = React.memo(React.forwardRef<HTMLDivElement, ChatMessageProps>(({
   role,
@@ -143,7 +203,11 @@ export const ChatMessage = React.memo(React.forwardRef<HTMLDivElement, ChatMessa
   experimental_attachments,
   toolInvocations,
   isStreaming = false,
+  onToolApproval,
+  onEditAndResubmit,
 }, ref) => {
+  const [isEditing, setIsEditing] = useState(false);
+
   // Generate a unique ID for this message for mermaid rendering
   const messageId = React.useMemo(() => `msg-${Math.random().toString(36).substring(2, 11)}`, []);
   
@@ -192,7 +256,7 @@ export const ChatMessage = React.memo(React.forwardRef<HTMLDivElement, ChatMessa
     if (!content || !content.trim()) {
       return (
         <motion.div {...motionProps}>
-          <ToolCall toolInvocations={toolInvocations} />
+          <ToolCall toolInvocations={toolInvocations} onToolApproval={onToolApproval} />
           {showTimeStamp && <MessageTimestamp createdAt={createdAt} isUser={isUser} />}
           {actions && <div className="mr-2 flex justify-end">{actions}</div>}
         </motion.div>
@@ -204,7 +268,7 @@ export const ChatMessage = React.memo(React.forwardRef<HTMLDivElement, ChatMessa
       <motion.div {...motionProps}>
         <div className="flex flex-col gap-4 w-full">
           {/* First render the tool calls */}
-          <ToolCall toolInvocations={toolInvocations} />
+          <ToolCall toolInvocations={toolInvocations} onToolApproval={onToolApproval} />
           
           {/* Then render the content */}
           <MessageBubble 
@@ -249,16 +313,28 @@ export const ChatMessage = React.memo(React.forwardRef<HTMLDivElement, ChatMessa
         </div>
       )}
       
-      {/* Main message bubble */}
-      <MessageBubble 
-        isUser={isUser}
-        isStreaming={isStreaming}
-        messageId={messageId}
-        content={content || ""}
-        copyButtonContent={copyButtonContent}
-      >
-        <ChatMarkdown isStreaming={isStreaming} messageId={messageId}>{content || ""}</ChatMarkdown>
-      </MessageBubble>
+      {/* Main message bubble, or the editor while a user message is being edited */}
+      {isEditing && onEditAndResubmit ? (
+        <MessageEditor
+          content={content || ""}
+          onCancel={() => setIsEditing(false)}
+          onSubmit={(edited) => {
+            setIsEditing(false);
+            onEditAndResubmit(edited);
+          }}
+        />
+      ) : (
+        <MessageBubble 
+          isUser={isUser}
+          isStreaming={isStreaming}
+          messageId={messageId}
+          content={content || ""}
+          copyButtonContent={copyButtonContent}
+          onEdit={isUser && onEditAndResubmit ? () => setIsEditing(true) : undefined}
+        >
+          <ChatMarkdown isStreaming={isStreaming} messageId={messageId}>{content || ""}</ChatMarkdown>
+        </MessageBubble>
+      )}
       
       {showTimeStamp && <MessageTimestamp createdAt={createdAt} isUser={isUser} />}
       {actions && <div className="mr-2 flex justify-end">{actions}</div>}
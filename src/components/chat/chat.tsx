@@ -8,6 +8,7 @@ import { PromptSuggestions } from "@/components/chat/prompt-suggestions"
 import { Button } from "@/components/ui/button"
 import { ArrowDown } from "lucide-react"
 import { Message, CreateMessage } from "agentdock-core/client"
+import type { MessageEditHandler, ToolApprovalHandler } from "@/components/chat/types"
 
 // Helper function to create a FileList from an array of Files
 function createFileList(files: File[]): FileList {
@@ -30,6 +31,8 @@ export interface ChatProps {
   header?: React.ReactNode
   agentName: string
   agent: string
+  onToolApproval?: ToolApprovalHandler
+  onEditMessage?: MessageEditHandler
 }
 
 export function Chat({
@@ -46,6 +49,8 @@ export function Chat({
   header,
   agentName,
   agent,
+  onToolApproval,
+  onEditMessage,
 }: ChatProps) {
   const scrollContainerRef = React.useRef<HTMLDivElement>(null)
   const [isNearBottom, setIsNearBottom] = React.useState(true)
@@ -153,7 +158,12 @@ export function Chat({
               />
             </div>
           ) : (
-            <MessageList messages={processedMessages} isLoading={isLoading} />
+            <MessageList
+              messages={processedMessages}
+              isLoading={isLoading}
+              onToolApproval={onToolApproval}
+              onEditMessage={onEditMessage}
+            />
           )}
         </div>
       </div>
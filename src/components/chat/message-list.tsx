@@ -4,6 +4,7 @@ import React, { useEffect, useRef } from "react"
 import { ChatMessage } from "@/components/chat/chat-message"
 import { TypingIndicator } from "@/components/chat/typing-indicator"
 import type { Message } from "agentdock-core/client"
+import type { MessageEditHandler, ToolApprovalHandler } from "@/components/chat/types"
 import { cn } from "@/lib/utils"
 
 // TODO: Improve streaming text animation
@@ -14,9 +15,11 @@ import { cn } from "@/lib/utils"
 interface MessageListProps {
   messages: Message[];
   isLoading?: boolean;
+  onToolApproval?: ToolApprovalHandler;
+  onEditMessage?: MessageEditHandler;
 }
 
-export function MessageList({ messages, isLoading = false }: MessageListProps) {
+export function MessageList({ messages, isLoading = false, onToolApproval, onEditMessage }: MessageListProps) {
   const containerRef = useRef<HTMLDivElement>(null)
 
   // Keep a ref to identify the last message as potentially streaming
@@ -55,6 +58,12 @@ export function MessageList({ messages, isLoading = false }: MessageListProps) {
             animation={index === messages.length - 1 ? "fade" : "none"}
             showTimeStamp
             isStreaming={isStreaming}
+            onToolApproval={onToolApproval}
+            onEditAndResubmit={
+              onEditMessage && message.role === "user" && !isLoading
+                ? (content) => onEditMessage(message, content)
+                : undefined
+            }
           />
         );
       })}
@@ -87,12 +87,33 @@ export function SessionInfoDialog({
                     <div>Prompt Tokens: {sessionData.cumulativeTokenUsage.promptTokens}</div>
                     <div>Completion Tokens: {sessionData.cumulativeTokenUsage.completionTokens}</div>
                     <div className="font-semibold">Total Tokens: {sessionData.cumulativeTokenUsage.totalTokens}</div>
+                    {!!sessionData.cumulativeTokenUsage.cachedTokens && (
+                        <div className="text-muted-foreground">Cached Tokens: {sessionData.cumulativeTokenUsage.cachedTokens}</div>
+                    )}
                 </div>
             )}
               {!isLoading && !error && !sessionData?.cumulativeTokenUsage && (
                 <div className="text-sm text-muted-foreground italic">No usage data available.</div>
             )}
           </div>
+
+          {/* Step Path Section */}
+          {!isLoading && !error && !!sessionData?.transitionHistory?.length && (
+            <>
+              <Separator />
+              <div>
+                <label className="text-xs font-medium text-muted-foreground">Step Path</label>
+                <div className="font-mono text-sm bg-muted p-2 rounded break-words">
+                  {sessionData.transitionHistory.map((record, index) => (
+                    <span key={`${record.at}-${index}`} title={`${record.trigger} at ${new Date(record.at).toLocaleTimeString()}`}>
+                      {index > 0 && ' → '}
+                      {record.to}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            </>
+          )}
         </div>
         {/* No Footer needed, dialog closes on overlay click or escape */}
       </DialogContent>
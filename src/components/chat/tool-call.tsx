@@ -2,14 +2,16 @@
 
 import * as React from "react"
 import { cn } from "@/lib/utils"
-import { Code2, ImageIcon, ChevronDown, ChevronUp, Terminal } from "lucide-react"
+import { Code2, ImageIcon, ChevronDown, ChevronUp, Terminal, ShieldQuestion, Check, X, Loader2 } from "lucide-react"
 import { ChatMarkdown } from "@/components/chat/chat-markdown"
 import type { ToolState } from 'agentdock-core'
-import type { ToolInvocation } from "@/components/chat/types"
+import type { ToolInvocation, ToolApprovalHandler } from "@/components/chat/types"
 import { ImageResultDisplay } from "@/components/chat/image-result"
 import { CognitiveToolLoadingIndicator, getToolLoadingUI } from "@/nodes/cognitive-tools/components/loading"
 import { CopyButton } from "@/components/ui/copy-button"
+import { Button } from "@/components/ui/button"
 import { useElapsedTime, heartbeatGradientProps, timerDisplayProps } from "@/lib/heartbeat"
+import { SalesforceReportChart, type SalesforceReportChartSpec } from "@/nodes/salesforce/component"
 
 // Function to get high-precision timestamp
 function getClientTimestamp(): string {
@@ -24,6 +26,24 @@ function logToolVisibility(toolName: string, toolId: string, state: string) {
 
 interface ToolCallProps {
   toolInvocations: ToolInvocation[];
+  onToolApproval?: ToolApprovalHandler;
+}
+
+// Result type of tool calls that wait for the user before running (e.g. Salesforce record writes)
+const APPROVAL_REQUIRED_RESULT_TYPE = 'tool_approval_required';
+
+// Result type of Salesforce report and dashboard tools, whose data carries chart definitions
+const REPORT_RESULT_TYPE = 'salesforce_report_result';
+
+// Collect the charts of a report result (data.chart) or dashboard result (data.components[].chart)
+function getReportCharts(result: any): SalesforceReportChartSpec[] {
+  const data = result?.data;
+  if (!data) return [];
+  if (data.chart) return [data.chart];
+  if (Array.isArray(data.components)) {
+    return data.components.flatMap((component: { chart?: SalesforceReportChartSpec }) => component.chart ? [component.chart] : []);
+  }
+  return [];
 }
 
 // Separate components for different tool states
@@ -155,7 +175,79 @@ const ToolHeader = React.memo(({
 
 ToolHeader.displayName = "ToolHeader";
 
-export function ToolCall({ toolInvocations }: ToolCallProps) {
+// Pending tool call with Approve/Reject buttons
+const ApprovalToolCall = React.memo(({
+  invocation,
+  content,
+  toolId,
+  onToolApproval
+}: {
+  invocation: ToolInvocation;
+  content: string;
+  toolId: string;
+  onToolApproval?: ToolApprovalHandler;
+}) => {
+  const [pendingDecision, setPendingDecision] = React.useState<boolean | null>(null);
+
+  const decide = React.useCallback(async (approved: boolean) => {
+    if (!onToolApproval) return;
+    setPendingDecision(approved);
+    try {
+      await onToolApproval(invocation, approved);
+    } finally {
+      setPendingDecision(null);
+    }
+  }, [invocation, onToolApproval]);
+
+  return (
+    <div
+      className={cn(
+        "group/message relative break-words rounded-2xl p-4 text-sm",
+        "sm:max-w-[70%] bg-muted text-foreground",
+        "border-l-2 border-amber-500"
+      )}
+      role="group"
+      aria-label={`Approval required for ${invocation.toolName}`}
+    >
+      <div className="flex items-center gap-2 px-1 py-1 font-medium">
+        <ShieldQuestion className="h-4 w-4 text-amber-500" aria-hidden="true" />
+        <span>Approval required for {invocation.toolName}</span>
+      </div>
+
+      <div className="mt-3 pt-2 border-t border-border/30">
+        <ChatMarkdown messageId={toolId}>{content}</ChatMarkdown>
+      </div>
+
+      <div className="mt-3 flex gap-2">
+        <Button
+          size="sm"
+          onClick={() => decide(true)}
+          disabled={!onToolApproval || pendingDecision !== null}
+        >
+          {pendingDecision === true ? (
+            <Loader2 className="mr-1 h-4 w-4 animate-spin" aria-hidden="true" />
+          ) : (
+            <Check className="mr-1 h-4 w-4" aria-hidden="true" />
+          )}
+          Approve
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => decide(false)}
+          disabled={!onToolApproval || pendingDecision !== null}
+        >
+          <X className="mr-1 h-4 w-4" aria-hidden="true" />
+          Reject
+        </Button>
+      </div>
+    </div>
+  );
+});
+
+ApprovalToolCall.displayName = "ApprovalToolCall";
+
+export function ToolCall({ toolInvocations, onToolApproval }: ToolCallProps) {
   const [expandedTools, setExpandedTools] = React.useState<Record<string, boolean>>({});
   
   const processedToolsRef = React.useRef<Set<string>>(new Set());
@@ -306,6 +398,19 @@ export function ToolCall({ toolInvocations }: ToolCallProps) {
             return <LoadingToolCall key={toolId} toolName={invocation.toolName} toolId={toolId} />;
           }
           
+          // Tool calls waiting for the user's approval get Approve/Reject buttons
+          if (toolType === APPROVAL_REQUIRED_RESULT_TYPE) {
+            return (
+              <ApprovalToolCall
+                key={toolId}
+                invocation={invocation}
+                content={typeof content === 'string' ? content : ''}
+                toolId={toolId}
+                onToolApproval={onToolApproval}
+              />
+            );
+          }
+          
           // If this is an image generation tool, handle specially
           const isImageGeneration = invocation.toolName === 'generate_image';
           if (isImageGeneration && invocation.result) {
@@ -377,6 +482,7 @@ export function ToolCall({ toolInvocations }: ToolCallProps) {
           
           // Ensure content is a string for rendering in markdown
           const contentToRender = typeof content === 'string' ? content : JSON.stringify(content, null, 2);
+          const charts = toolType === REPORT_RESULT_TYPE ? getReportCharts(invocation.result) : [];
           
           // Generate a safe ID for content
           const contentId = `tool-content-${invocation.toolName.replace(/\W/g, '-')}-${index}`;
@@ -403,6 +509,11 @@ export function ToolCall({ toolInvocations }: ToolCallProps) {
                   id={contentId}
                   className="mt-3 pt-2 border-t border-border/30 relative group/tool-content"
                 >
+                  {charts.map((chart, chartIndex) => (
+                    <div key={`${toolId}-chart-${chartIndex}`} className="mb-4">
+                      <SalesforceReportChart chart={chart} />
+                    </div>
+                  ))}
                   <ChatMarkdown messageId={toolId}>{contentToRender}</ChatMarkdown>
                   <div className="invisible absolute bottom-0 right-0 -mb-2.5 -mr-2 opacity-0 transition-opacity duration-200 group-hover/tool-content:visible group-hover/tool-content:opacity-100">
                     <CopyButton content={contentToRender} copyMessage="Copied tool result to clipboard" size="small" />
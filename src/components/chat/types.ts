@@ -22,6 +22,16 @@ export type ToolInvocation = Omit<BaseToolInvocation, 'state'> & {
   } | any;
 }
 
+/**
+ * Called with the user's decision on a tool call that is waiting for approval
+ */
+export type ToolApprovalHandler = (invocation: ToolInvocation, approved: boolean) => Promise<void>
+
+/**
+ * Called when the user edits an earlier message and resubmits it
+ */
+export type MessageEditHandler = (message: Message, content: string) => Promise<void>
+
 /**
  * Properties for ChatMessage component
  */
@@ -31,4 +41,7 @@ export interface ChatMessageProps extends Pick<Message, "role" | "content" | "cr
   className?: string
   actions?: React.ReactNode
   isStreaming?: boolean
+  onToolApproval?: ToolApprovalHandler
+  /** Called with the edited text when a user message is resubmitted */
+  onEditAndResubmit?: (content: string) => void
 } 
\ No newline at end of file
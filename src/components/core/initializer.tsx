@@ -11,15 +11,24 @@
  * 5. Use React.lazy and Suspense for more granular initialization
  */
 
-import { useEffect, useState, ErrorInfo } from 'react';
+import { useEffect, useRef, useState, ErrorInfo } from 'react';
 import { ErrorBoundary } from "@/components/error-boundary";
+import { UnlockDialog } from "@/components/unlock-dialog";
 import { logger, LogCategory } from 'agentdock-core';
+import { SecureStorage } from 'agentdock-core/storage/secure-storage';
 import { useAgents } from '@/lib/store';
 import { initSystem } from '@/lib/core/init';
+import { useStorageLocked } from '@/hooks/use-storage-lock';
+
+// Create a single instance for storage
+const storage = SecureStorage.getInstance('agentdock');
 
 function BaseCoreInitializer() {
   const { initialize, isInitialized } = useAgents();
   const [isSystemInitialized, setIsSystemInitialized] = useState(false);
+  const locked = useStorageLocked();
+  // Whether the store was initialized while the settings were locked, without their values
+  const initializedWhileLockedRef = useRef(false);
 
   // OPTIMIZATION: Consider moving to a server component or using Next.js lifecycle
   // Init system first
@@ -40,21 +49,25 @@ function BaseCoreInitializer() {
   }, []);
 
   // OPTIMIZATION: Consider using React Suspense instead of manual loading states
-  // Then initialize store
+  // Then initialize store, and again once the settings are unlocked if they were locked
   useEffect(() => {
-    if (isSystemInitialized && !isInitialized) {
-      initialize().catch((error) => {
-        logger.error(
-          LogCategory.SYSTEM,
-          'CoreInitializer',
-          'Failed to initialize store',
-          { error: error instanceof Error ? error.message : 'Unknown error' }
-        );
-      });
-    }
-  }, [isSystemInitialized, isInitialized, initialize]);
+    if (!isSystemInitialized) return;
+    const unlockedSince = initializedWhileLockedRef.current && !storage.isLocked();
+    if (isInitialized && !unlockedSince) return;
+
+    initializedWhileLockedRef.current = storage.isLocked();
+    initialize().catch((error) => {
+      logger.error(
+        LogCategory.SYSTEM,
+        'CoreInitializer',
+        'Failed to initialize store',
+        { error: error instanceof Error ? error.message : 'Unknown error' }
+      );
+    });
+  }, [isSystemInitialized, isInitialized, initialize, locked]);
 
-  return null;
+  // Ask for the passphrase on any page while the settings are locked
+  return <UnlockDialog locked={locked} />;
 }
 
 export function CoreInitializer() {
@@ -138,9 +138,17 @@ export function FontProvider({ children }: { children: React.ReactNode }) {
     
     window.addEventListener('storage', handleStorageChange);
     
+    // Font settings can't be read while the storage is locked; load them once it is unlocked
+    const removeLockListener = SecureStorage.getInstance('agentdock').onLockChange((locked) => {
+      if (!locked && isMounted) {
+        loadFontSettings();
+      }
+    });
+    
     return () => {
       isMounted = false;
       window.removeEventListener('storage', handleStorageChange);
+      removeLockListener();
     };
   }, [applyFonts]); // Depend on the memoized function
 
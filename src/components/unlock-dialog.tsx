@@ -0,0 +1,97 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { usePathname } from "next/navigation";
+import { logger, LogCategory } from "agentdock-core";
+import { SecureStorage } from "agentdock-core/storage/secure-storage";
+import { toast } from "sonner";
+import { Unlock } from "lucide-react";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+
+// Create a single instance for storage
+const storage = SecureStorage.getInstance("agentdock");
+
+export interface UnlockDialogProps {
+  locked: boolean;
+}
+
+/**
+ * Asks for the passphrase when the settings storage is locked, on every page but the
+ * settings page, which has its own unlock form. Dismissed, it opens again at the next lock.
+ */
+export function UnlockDialog({ locked }: UnlockDialogProps) {
+  const pathname = usePathname();
+  const [passphrase, setPassphrase] = useState("");
+  const [dismissed, setDismissed] = useState(false);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  // Open again when the storage locks after having been unlocked
+  useEffect(() => {
+    if (locked) {
+      setDismissed(false);
+    }
+  }, [locked]);
+
+  const handleUnlock = useCallback(async () => {
+    setIsUnlocking(true);
+    try {
+      await storage.unlock(passphrase);
+      setPassphrase("");
+      toast.success("Settings unlocked");
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Failed to unlock settings";
+      logger.warn(LogCategory.SYSTEM, "UnlockDialog", "Failed to unlock settings", { error: message });
+      toast.error(message);
+    } finally {
+      setIsUnlocking(false);
+    }
+  }, [passphrase]);
+
+  const open = locked && !dismissed && !pathname?.startsWith("/settings");
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => setDismissed(!isOpen)}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Settings Locked</DialogTitle>
+          <DialogDescription>
+            Your API keys and settings are protected with a passphrase. Until you unlock them,
+            agents use their default settings and chats can&apos;t use your saved API keys.
+          </DialogDescription>
+        </DialogHeader>
+        <Input
+          type="password"
+          placeholder="Passphrase"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && passphrase) {
+              e.preventDefault();
+              handleUnlock();
+            }
+          }}
+          autoFocus
+        />
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setDismissed(true)}>
+            Not Now
+          </Button>
+          <Button onClick={handleUnlock} disabled={isUnlocking || !passphrase}>
+            <Unlock className="mr-2 h-4 w-4" />
+            Unlock
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -3,11 +3,54 @@ import { logger, LogCategory, ProviderRegistry, LLMProvider, APIError, ErrorCode
 import { SecureStorage } from 'agentdock-core/storage/secure-storage';
 import { templates, TemplateId } from '@/generated/templates';
 import type { GlobalSettings } from '@/lib/types/settings';
+import { getSalesforceCredentials, type SalesforceSettings } from '@/app/settings/types';
+import {
+  SALESFORCE_CONNECT_ROUTE,
+  SALESFORCE_CONNECTION_HEADER,
+  SALESFORCE_TOOL_PREFIX
+} from '@/nodes/salesforce/api/constants';
 import { useAgents } from '@/lib/store/index';
+import { useStorageLocked } from '@/hooks/use-storage-lock';
 
 // Create a single instance for storage
 const storage = SecureStorage.getInstance('agentdock');
 
+// Storage key of the last Salesforce connection and the credentials it was made with
+const SALESFORCE_CONNECTION_KEY = 'salesforce_connection';
+
+interface SavedSalesforceConnection {
+  connectionId: string;
+  credentials: string;
+}
+
+/**
+ * Connection ID for the Salesforce credentials saved in settings. The last connection is
+ * reused while the server still has it and the credentials have not changed; otherwise the
+ * credentials are exchanged for a new one.
+ */
+async function getSalesforceConnectionId(credentials: Record<string, string>): Promise<string> {
+  const fingerprint = JSON.stringify(credentials);
+  const saved = await storage.get<SavedSalesforceConnection>(SALESFORCE_CONNECTION_KEY);
+  if (saved?.credentials === fingerprint) {
+    const check = await fetch(SALESFORCE_CONNECT_ROUTE, {
+      headers: { [SALESFORCE_CONNECTION_HEADER]: saved.connectionId }
+    });
+    if (check.ok) return saved.connectionId;
+  }
+
+  const response = await fetch(SALESFORCE_CONNECT_ROUTE, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: fingerprint
+  });
+  const result = await response.json() as { connectionId?: string; error?: string };
+  if (!response.ok || !result.connectionId) {
+    throw new Error(result.error || `Salesforce connection failed with status ${response.status}`);
+  }
+  await storage.set(SALESFORCE_CONNECTION_KEY, { connectionId: result.connectionId, credentials: fingerprint });
+  return result.connectionId;
+}
+
 /**
  * Hook to handle chat initialization
  * 
@@ -26,6 +69,8 @@ export function useChatInitialization(agentId: string = 'default') {
   const [apiKey, setApiKey] = useState<string>('');
   const [provider, setProvider] = useState<LLMProvider>('anthropic');
   const [initError, setInitError] = useState<Error | null>(null);
+  const [salesforceConnection, setSalesforceConnection] = useState<string>('');
+  const locked = useStorageLocked();
   
   // OPTIMIZATION: Replace with proper subscription hook
   // Get the agent store to check for agent-specific API keys
@@ -74,6 +119,21 @@ export function useChatInitialization(agentId: string = 'default') {
         return;
       }
 
+      // The saved API keys can't be read until the settings are unlocked; the core initializer
+      // asks for the passphrase, and this runs again once they are
+      if (storage.isLocked()) {
+        setApiKey('');
+        setInitError(new APIError(
+          'Your settings are locked. Unlock them with your passphrase to chat with your saved API keys.',
+          ErrorCode.STORAGE_LOCKED,
+          'ChatContainer',
+          'loadData',
+          { agentId }
+        ));
+        setIsInitializing(false);
+        return;
+      }
+
       // OPTIMIZATION: Extract into a reusable settings utility
       // Try to load API key from secure storage
       try {
@@ -127,15 +187,46 @@ export function useChatInitialization(agentId: string = 'default') {
   };
 
   // OPTIMIZATION: Use React Query/SWR instead of useEffect
-  // Initial load - only depends on agentId and agents now
+  // Initial load - only depends on agentId, agents and the settings lock now
   useEffect(() => {
     loadData();
-  }, [agentId, agents]); // Removed lastFocused dependency since we no longer need window focus refreshes
+  }, [agentId, agents, locked]); // Removed lastFocused dependency since we no longer need window focus refreshes
+
+  // Exchange the Salesforce connected app credentials saved in settings for a connection ID,
+  // for agents with Salesforce tools only. The credentials go to the server when there is no
+  // valid connection yet; chat requests only carry the connection ID.
+  useEffect(() => {
+    const nodes: readonly string[] = templates[agentId as TemplateId]?.nodes || [];
+    if (!nodes.some(node => node.startsWith(SALESFORCE_TOOL_PREFIX))) {
+      setSalesforceConnection('');
+      return;
+    }
+    if (storage.isLocked()) return;
+    let cancelled = false;
+    storage.get<{ salesforce?: SalesforceSettings }>('global_settings')
+      .then(async settings => {
+        const credentials = getSalesforceCredentials(settings?.salesforce);
+        const connectionId = credentials ? await getSalesforceConnectionId(credentials) : '';
+        if (!cancelled) setSalesforceConnection(connectionId);
+      })
+      .catch(error => {
+        logger.warn(
+          LogCategory.SYSTEM,
+          'ChatContainer',
+          'Failed to connect to Salesforce with the saved credentials',
+          { error: error instanceof Error ? error.message : 'Unknown error' }
+        );
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [agentId, locked]);
 
   return {
     isInitializing,
     provider,
     apiKey,
+    salesforceConnection,
     initError,
     reload: loadData // Expose reload function
   };
@@ -7,6 +7,7 @@ import type { ValidatedPersonality } from 'agentdock-core/types/agent-config';
 import { PersonalitySchema } from 'agentdock-core/types/agent-config';
 import type { ChatUISettings, LLMProvider } from '@/lib/types/chat';
 import { ModelRegistry } from '@/lib/models/registry';
+import { useStorageLocked } from '@/hooks/use-storage-lock';
 
 // Create a single instance for storage
 const storage = SecureStorage.getInstance('agentdock');
@@ -20,6 +21,7 @@ export function useChatSettings(agentId: string | null) {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [debugMode, setDebugMode] = useState(false);
+  const locked = useStorageLocked();
 
   useEffect(() => {
     const loadSettings = async () => {
@@ -42,8 +44,8 @@ export function useChatSettings(agentId: string | null) {
           throw new Error(`Provider not found: ${provider}`);
         }
 
-        // Load global settings for API key
-        const globalSettings = await storage.get<GlobalSettings>('global_settings');
+        // Load global settings for API key; they are loaded again once the storage is unlocked
+        const globalSettings = storage.isLocked() ? null : await storage.get<GlobalSettings>('global_settings');
         const apiKeys = globalSettings?.apiKeys || {};
         
         // Skip API key validation - server will handle env vars if needed
@@ -89,7 +91,7 @@ export function useChatSettings(agentId: string | null) {
     };
 
     loadSettings();
-  }, [agentId]);
+  }, [agentId, locked]);
 
   return {
     chatSettings: settings,
@@ -10,7 +10,16 @@ export interface SessionInfoData {
     promptTokens: number;
     completionTokens: number;
     totalTokens: number;
+    // Tokens of responses answered from the LLM cache
+    cachedTokens?: number;
   };
+  // Steps the session has moved through, oldest first
+  transitionHistory?: {
+    from?: string;
+    to: string;
+    trigger: string;
+    at: number;
+  }[];
   // Add other potential fields returned by the API if needed
 }
 
@@ -0,0 +1,21 @@
+import { useState, useEffect } from 'react';
+import { SecureStorage } from 'agentdock-core/storage/secure-storage';
+
+/**
+ * Hook following whether the passphrase-protected settings storage is locked,
+ * including the idle auto-lock
+ *
+ * Effects that read the storage can depend on the returned value to run again once it
+ * is unlocked. It is false until mounted, so effects should check `isLocked()` themselves.
+ */
+export function useStorageLocked(): boolean {
+  const [locked, setLocked] = useState(false);
+
+  useEffect(() => {
+    const storage = SecureStorage.getInstance('agentdock');
+    setLocked(storage.isLocked());
+    return storage.onLockChange(setLocked);
+  }, []);
+
+  return locked;
+}
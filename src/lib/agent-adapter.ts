@@ -13,10 +13,13 @@ import {
   ErrorCode,
   getToolRegistry,
   AgentNode,
-  AgentConfig
+  AgentConfig,
+  type AgentNodeHandleMessageOptions,
+  type CacheStatus
 } from 'agentdock-core';
+import { createDataStreamResponse, type DataStreamWriter } from 'ai';
 import { v4 as uuidv4 } from 'uuid';
-import { getOrchestrationManagerInstance } from '@/lib/orchestration-adapter';
+import { getOrchestrationManagerInstance, getStorageProvider } from '@/lib/orchestration-adapter';
 import { hasStreamingError, getStreamingErrorMessage } from '@/lib/error-utils';
 import { ensureToolsInitialized } from '@/lib/tools';
 
@@ -57,6 +60,57 @@ export function initializeAdapter() {
   }
 }
 
+/**
+ * Message annotation reporting the provider and model that answered, after a failover,
+ * and whether the response cache answered, for templates that enable it
+ */
+export interface LLMResponseAnnotation {
+  type: 'llm-response';
+  provider: string;
+  model: string;
+  cache?: CacheStatus;
+}
+
+/**
+ * Adds the LLM response annotation to a data stream response once the answering call has
+ * been made. The stream is passed on as it arrives; nothing waits for the annotation.
+ */
+function withResponseAnnotation(response: Response, agent: AgentNode): Response {
+  if (!response.body) return response;
+
+  let markFinished!: () => void;
+  const finished = new Promise<undefined>(resolve => {
+    markFinished = () => resolve(undefined);
+  });
+  const stream = response.body
+    .pipeThrough(new TextDecoderStream())
+    .pipeThrough(new TransformStream<string, string>({ flush: () => markFinished() }));
+
+  return createDataStreamResponse({
+    status: response.status,
+    headers: response.headers,
+    execute: async (dataStream) => {
+      dataStream.merge(stream as Parameters<DataStreamWriter['merge']>[0]);
+
+      // A response that ends without reaching the model, e.g. after an error, has no answer to report
+      const settled = await Promise.race([
+        Promise.all([agent.getAnsweringProvider(), agent.getCacheStatus()]),
+        finished
+      ]);
+      const [answeredBy, cacheStatus] = settled || [];
+      if (answeredBy) {
+        const annotation: LLMResponseAnnotation = {
+          type: 'llm-response',
+          provider: answeredBy.provider,
+          model: answeredBy.model,
+          ...(cacheStatus ? { cache: cacheStatus } : {})
+        };
+        dataStream.writeMessageAnnotation({ ...annotation });
+      }
+    }
+  });
+}
+
 // Do not initialize at module load, defer until needed
 // This improves page load performance for pages that don't need tools
 
@@ -65,6 +119,8 @@ interface HandleMessageOptions {
   agentId: string;
   messages: Message[];
   sessionId?: string;
+  // User the request is made for, keeping their response cache entries apart from other users'
+  userId?: string;
   apiKey: string;
   provider: string;
   system?: string | string[];
@@ -75,9 +131,13 @@ interface HandleMessageOptions {
     [key: string]: any;
   };
   _fallbackApiKey?: string;
+  // API keys for the providers of the template's failover chain
+  failoverApiKeys?: Partial<Record<LLMProvider, string>>;
   orchestrationState?: any;
   // The full agent configuration loaded from templates
   fullAgentConfig: AgentConfig;
+  // Called once the response has finished, e.g. to record it in the conversation history
+  onFinish?: AgentNodeHandleMessageOptions['onFinish'];
 }
 
 /**
@@ -94,15 +154,18 @@ export async function processAgentMessage(options: HandleMessageOptions) {
     agentId, 
     messages,
     sessionId,
+    userId,
     apiKey, 
     provider,
     system,
     // Rename 'config' to 'runtimeOverrides' for clarity
     config: runtimeOverrides, 
     _fallbackApiKey,
+    failoverApiKeys,
     orchestrationState,
     // Get the pre-loaded full agent config
-    fullAgentConfig 
+    fullAgentConfig,
+    onFinish
   } = options;
 
   logger.debug(
@@ -146,7 +209,10 @@ export async function processAgentMessage(options: HandleMessageOptions) {
         // Pass specific runtime overrides received in options
         options: runtimeOverrides, 
         // Pass fallback API key if available
-        ..._fallbackApiKey ? { fallbackApiKey: _fallbackApiKey } : {}
+        ..._fallbackApiKey ? { fallbackApiKey: _fallbackApiKey } : {},
+        ...failoverApiKeys ? { failoverApiKeys } : {},
+        // Templates that enable the response cache keep it with the session state, per user
+        cache: { storage: getStorageProvider(), scope: userId }
       }
   );
 
@@ -159,7 +225,8 @@ export async function processAgentMessage(options: HandleMessageOptions) {
       orchestrationManager: manager,
       systemOverride: system, 
       ...(runtimeOverrides ? { config: runtimeOverrides } : {}),
-      ...(orchestrationState ? { orchestrationState } : {})
+      ...(orchestrationState ? { orchestrationState } : {}),
+      ...(onFinish ? { onFinish } : {})
     });
     
     // --- NO Stream Processing or Token Update Here --- 
@@ -169,16 +236,17 @@ export async function processAgentMessage(options: HandleMessageOptions) {
     const enhancedResult = {
       ...result,
       _adapterContext: { sessionId: finalSessionId, agentId },
-      // Ensure toDataStreamResponse is available
+      // Ensure toDataStreamResponse is available, reporting the answering provider and
+      // cache status in a message annotation
       toDataStreamResponse(options = {}) {
-        return result.toDataStreamResponse({
+        return withResponseAnnotation(result.toDataStreamResponse({
           ...options,
           getErrorMessage: (error: unknown) => {
             // Basic error message handling
             if (error instanceof Error) return error.message;
             return typeof error === 'string' ? error : 'Unknown streaming error occurred';
           }
-        });
+        }), agent);
       }
     };
     
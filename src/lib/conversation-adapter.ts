@@ -0,0 +1,155 @@
+/**
+ * Adapter for the agentdock-core conversation store in NextJS
+ *
+ * Keeps chat history on the server, in the storage configured for sessions
+ * (KV_STORE_PROVIDER), so past conversations can be reopened and searched. Conversations
+ * belong to the user ID issued in the identity cookie (see user-identity.ts).
+ */
+
+import {
+  logger,
+  LogCategory,
+  ConversationStore,
+  toConversationEntries,
+  type Conversation,
+  type Message,
+  type AgentNodeHandleMessageOptions
+} from 'agentdock-core';
+import type { SessionId } from 'agentdock-core/types/session';
+import { getStorageProvider } from '@/lib/orchestration-adapter';
+
+declare global {
+  var __conversationStoreInstance: ConversationStore | undefined;
+}
+
+/**
+ * Gets or creates the conversation store, kept for the lifetime of the server process.
+ * CONVERSATION_TTL_SECONDS limits how long an inactive conversation is kept.
+ */
+export function getConversationStore(): ConversationStore {
+  if (globalThis.__conversationStoreInstance) {
+    return globalThis.__conversationStoreInstance;
+  }
+
+  const ttlSeconds = parseInt(process.env.CONVERSATION_TTL_SECONDS || '', 10);
+  globalThis.__conversationStoreInstance = new ConversationStore({
+    storage: getStorageProvider(),
+    ...(ttlSeconds > 0 && { ttlSeconds })
+  });
+  return globalThis.__conversationStoreInstance;
+}
+
+/**
+ * Gets a session's conversation when it belongs to the user
+ * @returns The conversation, or null when there is none or another user owns it
+ */
+export async function getOwnedConversation(sessionId: SessionId, userId: string | null): Promise<Conversation | null> {
+  const conversation = await getConversationStore().getConversation(sessionId);
+  return conversation && userId && conversation.userId === userId ? conversation : null;
+}
+
+/**
+ * Whether the user may write to a session's conversation: it is theirs, or nothing was recorded yet
+ */
+export async function canWriteConversation(sessionId: SessionId, userId: string | null): Promise<boolean> {
+  const conversation = await getConversationStore().getConversation(sessionId);
+  return !conversation || (!!userId && conversation.userId === userId);
+}
+
+interface ConversationOwnerContext {
+  sessionId: SessionId;
+  agentId: string;
+  userId: string;
+}
+
+interface ConversationTurn extends ConversationOwnerContext {
+  /** Messages of the request; the latest user message is recorded */
+  messages: Message[];
+}
+
+/**
+ * Creates an append function for the user's conversation. Nothing is recorded into another
+ * user's conversation. Failures are logged and never fail the request.
+ */
+async function createConversationWriter({ sessionId, agentId, userId }: ConversationOwnerContext) {
+  let writable = false;
+  try {
+    writable = await canWriteConversation(sessionId, userId);
+  } catch (error) {
+    logger.error(LogCategory.API, 'ConversationAdapter', 'Error reading conversation', {
+      sessionId: sessionId.substring(0, 8) + '...',
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+  if (!writable) {
+    logger.warn(LogCategory.API, 'ConversationAdapter', 'Not recording into a conversation of another user', {
+      sessionId: sessionId.substring(0, 8) + '...'
+    });
+  }
+
+  return async (messages: Parameters<typeof toConversationEntries>[0]) => {
+    const entries = toConversationEntries(messages);
+    if (!writable || entries.length === 0) return;
+    try {
+      await getConversationStore().append(sessionId, entries, { agentId, userId });
+    } catch (error) {
+      logger.error(LogCategory.API, 'ConversationAdapter', 'Error recording conversation', {
+        sessionId: sessionId.substring(0, 8) + '...',
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+}
+
+/**
+ * Records the latest user message of a chat request, and returns an `onFinish` callback
+ * for `AgentNode.handleMessage` that records the response: its text, tool calls and results.
+ */
+export async function recordConversationTurn(
+  turn: ConversationTurn
+): Promise<NonNullable<AgentNodeHandleMessageOptions['onFinish']>> {
+  const append = await createConversationWriter(turn);
+
+  const latestUserMessage = [...turn.messages].reverse().find(message => message.role === 'user');
+  if (latestUserMessage) {
+    await append([latestUserMessage]);
+  }
+
+  return async (event) => {
+    await append(event.response?.messages || []);
+  };
+}
+
+interface ToolExecution extends ConversationOwnerContext {
+  toolName: string;
+  toolCallId: string;
+  result: unknown;
+}
+
+/**
+ * Records the result of a tool run outside the model's turn, such as a call the user approved.
+ * The call itself was recorded with the response that made it.
+ */
+export async function recordToolExecution(execution: ToolExecution): Promise<void> {
+  const append = await createConversationWriter(execution);
+  await append([{
+    role: 'tool',
+    content: [{ type: 'tool-result', toolCallId: execution.toolCallId, toolName: execution.toolName, result: execution.result }]
+  }]);
+}
+
+/**
+ * Removes a message and everything after it from the conversation, when the user edits it
+ * @returns The number of entries removed
+ */
+export async function rewindConversation(sessionId: SessionId, messageId: string): Promise<number> {
+  return getConversationStore().truncateFrom(sessionId, messageId);
+}
+
+/**
+ * Copies the conversation before a message into a forked session, owned by the same user
+ * @returns The number of entries copied, or null when the session has no conversation
+ */
+export async function forkConversation(sessionId: SessionId, forkSessionId: SessionId, messageId: string): Promise<number | null> {
+  return getConversationStore().forkConversation(sessionId, forkSessionId, messageId);
+}
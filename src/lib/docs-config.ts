@@ -110,6 +110,7 @@ export const docSections: DocSection[] = [
       // Session Section
       { path: "architecture/sessions/session-management", title: "Session Management" },
       { path: "architecture/sessions/nextjs-integration", title: "Next.js Integration" },
+      { path: "architecture/sessions/conversation-history", title: "Conversation History" },
       // Orchestration Section
       { path: "architecture/orchestration/orchestration-overview", title: "Orchestration Overview" },
       { path: "architecture/orchestration/orchestration-config", title: "Orchestration Configuration" },
@@ -117,6 +118,7 @@ export const docSections: DocSection[] = [
       { path: "architecture/orchestration/conditional-transitions", title: "Conditional Transitions" },
       { path: "architecture/orchestration/step-sequencing", title: "Step Sequencing" },
       { path: "architecture/orchestration/llm-orchestration", title: "LLM Orchestration" },
+      { path: "architecture/orchestration/simulation", title: "Orchestration Simulation" },
     ]
   },
   
@@ -6,6 +6,7 @@
  */
 
 import type { Message } from 'agentdock-core';
+import { registerNodeStorageProviders } from 'agentdock-core/storage/node';
 import type { AIOrchestrationState } from 'agentdock-core/types/orchestration';
 import type { SessionId } from 'agentdock-core/types/session';
 import { NextRequest, NextResponse } from 'next/server';
@@ -20,9 +21,21 @@ import {
     convertCoreToLLMMessages,
     LLMMessage,
     RedisStorageProvider,
-    MemoryStorageProvider
+    MemoryStorageProvider,
+    ToolCallAuthorization
 } from 'agentdock-core';
 
+// Template conditions can nest other conditions (all/any/not), so their fields are copied as-is
+type TemplateOrchestrationCondition = {
+  readonly type: string;
+  readonly [key: string]: unknown;
+};
+
+// Sequence entries are tool names, or objects for tools with options, parallel groups and repeats
+type TemplateSequenceEntry = string | {
+  readonly [key: string]: unknown;
+};
+
 // Local type for template orchestration config, which may have readonly properties
 export type TemplateOrchestrationConfig = {
   readonly description?: string | ReadonlyArray<string>;
@@ -30,16 +43,29 @@ export type TemplateOrchestrationConfig = {
     readonly name: string;
     readonly description?: string;
     readonly isDefault?: boolean;
-    readonly conditions?: ReadonlyArray<{
-      readonly type: string;
-      readonly value?: string;
-    }>;
-    readonly sequence?: ReadonlyArray<string>;
+    readonly conditions?: ReadonlyArray<TemplateOrchestrationCondition>;
+    readonly sequence?: ReadonlyArray<TemplateSequenceEntry>;
+    readonly return?: string;
+    readonly inputs?: Readonly<Record<string, string>>;
     readonly availableTools?: {
       readonly allowed?: ReadonlyArray<string>;
       readonly denied?: ReadonlyArray<string>;
     };
   }>;
+  readonly transitions?: ReadonlyArray<{
+    readonly from: string;
+    readonly to: string;
+    readonly guard?: TemplateOrchestrationCondition;
+    readonly priority?: number;
+    readonly description?: string;
+  }>;
+  readonly router?: {
+    readonly model?: string;
+    readonly confidenceThreshold?: number;
+    readonly contextMessages?: number;
+    readonly instructions?: string;
+  };
+  readonly enforcement?: string;
 };
 
 /**
@@ -61,7 +87,9 @@ const getConfiguredStorageProvider = () => {
     STORAGE_TYPE: process.env.STORAGE_TYPE,
     REDIS_URL: process.env.REDIS_URL,
     SRH_TOKEN: process.env.SRH_TOKEN,
-    KV_STORE_PROVIDER: process.env.KV_STORE_PROVIDER
+    KV_STORE_PROVIDER: process.env.KV_STORE_PROVIDER,
+    SQLITE_DATABASE_PATH: process.env.SQLITE_DATABASE_PATH,
+    FILESYSTEM_STORAGE_PATH: process.env.FILESYSTEM_STORAGE_PATH
   };
   logger.debug(LogCategory.API, 'OrchestrationAdapter', 'Storage configuration', debug);
 
@@ -105,6 +133,18 @@ const getConfiguredStorageProvider = () => {
           }
       // }
   }
+  else if (storageType === 'sqlite' || storageType === 'filesystem') {
+      // Single-box persistence; the location comes from SQLITE_DATABASE_PATH or FILESYSTEM_STORAGE_PATH
+      logger.info(LogCategory.API, 'OrchestrationAdapter', `Using ${storageType} Storage Provider`);
+      try {
+          registerNodeStorageProviders();
+          return getStorageFactory().getProvider({ type: storageType, namespace: 'sessions', config: { namespace: 'sessions' } });
+      } catch (error) {
+          logger.error(LogCategory.API, 'OrchestrationAdapter', `Failed to initialize ${storageType} storage provider, falling back to Memory`, {
+              error: error instanceof Error ? error.message : String(error)
+          });
+      }
+  }
   
   // Default / Fallback
   logger.warn(LogCategory.API, 'OrchestrationAdapter', 'Using Memory Storage Provider (State will NOT persist across requests)');
@@ -221,13 +261,17 @@ export async function getOrchestrationState(
  * @param sessionId - The session ID
  * @param toolName - The tool that was used
  * @param config - Orchestration config (passed to processToolUsage)
+ * @param messages - Current conversation messages. Omit them when the tool ran outside a chat
+ *   turn; message conditions then cannot trigger a transition.
+ * @param toolResult - The tool's result, stored when the active step is a pipeline step
  * @returns Updated orchestration state (AI-facing subset)
  */
 export async function trackToolUsage(
   sessionId: SessionId,
   toolName: string,
   config: OrchestrationConfig,
-  messages: Message[] = []
+  messages?: Message[],
+  toolResult?: unknown
 ): Promise<AIOrchestrationState | null> {
   if (!sessionId || !toolName) {
     return null;
@@ -236,9 +280,9 @@ export async function trackToolUsage(
   try {
     const manager = getOrchestrationManagerInstance();
     
-    const llmMessages: LLMMessage[] = convertCoreToLLMMessages(messages);
+    const llmMessages: LLMMessage[] | undefined = messages && convertCoreToLLMMessages(messages);
 
-    await manager.processToolUsage(config, llmMessages, sessionId, toolName);
+    await manager.processToolUsage(config, llmMessages, sessionId, toolName, toolResult);
 
     const updatedState = await manager.getState(sessionId);
     logger.debug(LogCategory.API, 'OrchestrationAdapter', 'Tracked tool usage via core manager', { toolName, updatedState });
@@ -259,6 +303,32 @@ export async function trackToolUsage(
   }
 }
 
+/**
+ * Checks a tool call against the session's active step before it runs
+ * 
+ * @param sessionId - The session ID
+ * @param toolName - The tool about to run
+ * @param config - Orchestration config, including its enforcement mode
+ * @returns Whether the tool may run, and the rule it broke if any
+ */
+export async function authorizeToolCall(
+  sessionId: SessionId,
+  toolName: string,
+  config: OrchestrationConfig
+): Promise<ToolCallAuthorization> {
+  try {
+    return await getOrchestrationManagerInstance().authorizeToolCall(config, sessionId, toolName);
+  } catch (error) {
+    // An unreadable state should not block tools
+    logger.error(LogCategory.API, 'OrchestrationAdapter', 'Error authorizing tool call', {
+        error: error instanceof Error ? error.message : String(error),
+        sessionId,
+        toolName
+    });
+    return { allowed: true };
+  }
+}
+
 /**
  * Gets active step for a session
  * 
@@ -386,6 +456,28 @@ export async function addOrchestrationHeaders(
   return response;
 }
 
+/**
+ * Saves the session's orchestration state for the latest user message before it is handled,
+ * so the chat can later be rewound or forked at that message
+ * 
+ * @param sessionId - The session ID
+ * @param messages - Messages of the request; the latest user message needs an ID
+ */
+export async function snapshotOrchestrationState(sessionId: SessionId, messages: Message[]): Promise<void> {
+  const latestUserMessage = [...messages].reverse().find(message => message.role === 'user');
+  if (!sessionId || !latestUserMessage?.id) return;
+  
+  try {
+    const manager = getOrchestrationManagerInstance();
+    await manager.snapshotState(sessionId, latestUserMessage.id);
+  } catch (error) {
+    logger.error(LogCategory.API, 'OrchestrationAdapter', 'Error saving orchestration snapshot', { 
+        error: error instanceof Error ? error.message : String(error),
+        sessionId 
+    });
+  }
+}
+
 /**
  * Resets orchestration state for a session
  */
@@ -418,17 +510,21 @@ export function toMutableConfig(config: TemplateOrchestrationConfig): any {
       description: step.description,
       isDefault: step.isDefault,
       conditions: step.conditions ? 
-        step.conditions.map(condition => ({ 
-          type: condition.type, 
-          ...(condition.value !== undefined && { value: condition.value })
-        })) : [],
-      sequence: step.sequence ? [...step.sequence] : [],
+        step.conditions.map(condition => structuredClone(condition)) : [],
+      sequence: step.sequence ? step.sequence.map(entry => structuredClone(entry)) : [],
+      ...(step.return !== undefined && { return: step.return }),
+      ...(step.inputs !== undefined && { inputs: { ...step.inputs } }),
       availableTools: step.availableTools ? {
         allowed: step.availableTools.allowed ? 
           [...step.availableTools.allowed] : undefined,
         denied: step.availableTools.denied ? 
           [...step.availableTools.denied] : undefined
       } : undefined
-    }))
+    })),
+    ...(config.transitions !== undefined && {
+      transitions: config.transitions.map(transition => structuredClone(transition))
+    }),
+    ...(config.router !== undefined && { router: { ...config.router } }),
+    ...(config.enforcement !== undefined && { enforcement: config.enforcement })
   };
 } 
\ No newline at end of file
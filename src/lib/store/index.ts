@@ -54,8 +54,15 @@ export const useAgents = create<Store>((set) => ({
       );
 
       // OPTIMIZATION: Use middleware for storage operations
-      // 3. Load runtime settings from storage
-      const storedSettings = await storage.get<Record<string, AgentRuntimeSettings>>('agent_runtime_settings') || {};
+      // 3. Load runtime settings from storage. While it is locked agents get their defaults;
+      // the core initializer initializes the store again once it is unlocked.
+      const locked = storage.isLocked();
+      if (locked) {
+        logger.info(LogCategory.SYSTEM, 'Store', 'Settings are locked, using default runtime settings');
+      }
+      const storedSettings = locked
+        ? {}
+        : await storage.get<Record<string, AgentRuntimeSettings>>('agent_runtime_settings') || {};
 
       // 4. Create agents from validated templates
       const agents = templateArray.map((template) => {
@@ -3,6 +3,7 @@
  */
 
 import type { ValidatedPersonality } from 'agentdock-core/types/agent-config';
+import type { LLMProvider as CoreLLMProvider } from 'agentdock-core';
 
 /**
  * Base chat settings interface
@@ -37,9 +38,9 @@ export interface ChatSettings extends BaseChatSettings {
 }
 
 /**
- * LLM provider type
+ * LLM provider type, including providers registered with the core provider registry
  */
-export type LLMProvider = 'anthropic' | 'openai' | 'gemini' | 'deepseek' | 'groq';
+export type LLMProvider = CoreLLMProvider;
 
 /**
  * Chat settings for the UI
@@ -0,0 +1,97 @@
+/**
+ * @fileoverview Anonymous user identity issued by the server, for owning conversation history.
+ *
+ * The first chat request gets a random user ID in an httpOnly cookie, signed with HMAC-SHA256
+ * under a key derived from CONVERSATION_USER_SECRET. The client cannot read or choose the ID,
+ * so one browser cannot open another's conversations. Without that variable a random key is
+ * made per process, so identities end when the server restarts and are not shared between
+ * instances.
+ */
+
+import type { NextRequest } from 'next/server';
+import { logger, LogCategory } from 'agentdock-core';
+
+/** Cookie holding the signed user ID */
+export const USER_ID_COOKIE = 'agentdock_uid';
+
+const USER_ID_SECRET_ENV = 'CONVERSATION_USER_SECRET';
+const USER_ID_COOKIE_MAX_AGE_SECONDS = 365 * 24 * 60 * 60;
+
+let keyPromise: Promise<CryptoKey> | undefined;
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function getKey(): Promise<CryptoKey> {
+  if (!keyPromise) {
+    keyPromise = (async () => {
+      const secret = process.env[USER_ID_SECRET_ENV];
+      let material: ArrayBuffer;
+      if (secret) {
+        material = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(secret));
+      } else {
+        logger.warn(LogCategory.API, 'UserIdentity', `${USER_ID_SECRET_ENV} is not set; users will lose access to their conversations when the server restarts`);
+        material = crypto.getRandomValues(new Uint8Array(32)).buffer;
+      }
+      return crypto.subtle.importKey('raw', material, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+    })();
+  }
+  return keyPromise;
+}
+
+async function sign(userId: string): Promise<string> {
+  const signature = await crypto.subtle.sign('HMAC', await getKey(), new TextEncoder().encode(userId));
+  return toBase64Url(new Uint8Array(signature));
+}
+
+/**
+ * Compares two strings in time independent of where they differ
+ */
+function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return difference === 0;
+}
+
+/**
+ * Gets the user ID from the request's identity cookie
+ * @returns The user ID, or null when the cookie is missing or its signature does not match
+ */
+export async function getUserId(request: NextRequest): Promise<string | null> {
+  const value = request.cookies.get(USER_ID_COOKIE)?.value;
+  const separator = value?.lastIndexOf('.') ?? -1;
+  if (!value || separator <= 0) return null;
+
+  const userId = value.slice(0, separator);
+  return safeEqual(value.slice(separator + 1), await sign(userId)) ? userId : null;
+}
+
+/**
+ * Gets the user ID of the request, or issues a new one
+ * @returns The user ID, and whether it is new and has to be set with setUserIdCookie
+ */
+export async function resolveUserId(request: NextRequest): Promise<{ userId: string; issued: boolean }> {
+  const userId = await getUserId(request);
+  return userId ? { userId, issued: false } : { userId: crypto.randomUUID(), issued: true };
+}
+
+/**
+ * Sets the identity cookie for a user ID on a response
+ */
+export async function setUserIdCookie(response: Response, userId: string): Promise<void> {
+  const attributes = [
+    `${USER_ID_COOKIE}=${userId}.${await sign(userId)}`,
+    'Path=/',
+    'HttpOnly',
+    'SameSite=Lax',
+    `Max-Age=${USER_ID_COOKIE_MAX_AGE_SECONDS}`,
+    ...(process.env.NODE_ENV === 'production' ? ['Secure'] : [])
+  ];
+  response.headers.append('Set-Cookie', attributes.join('; '));
+}
@@ -0,0 +1,285 @@
+/**
+ * @fileoverview Analytics REST API: list and run reports, fetch dashboard component data,
+ * and convert report fact maps into rows and chart definitions
+ */
+
+import { logger, LogCategory } from 'agentdock-core';
+import { SalesforceClient } from './client';
+import { MAX_CHART_POINTS } from './constants';
+import {
+  SalesforceAnalyticsSummary,
+  SalesforceChartType,
+  SalesforceDashboardComponent,
+  SalesforceReportCell,
+  SalesforceReportChartSpec,
+  SalesforceReportColumn,
+  SalesforceReportGrouping,
+  SalesforceReportResponse,
+  SalesforceReportTable
+} from '../component';
+
+// Reports and dashboards have 15 or 18 character IDs starting with 00O and 01Z
+const REPORT_ID_PATTERN = /^00O[A-Za-z0-9]{12}(?:[A-Za-z0-9]{3})?$/;
+const DASHBOARD_ID_PATTERN = /^01Z[A-Za-z0-9]{12}(?:[A-Za-z0-9]{3})?$/;
+
+/**
+ * A runtime filter applied when running a report
+ */
+export interface SalesforceReportFilter {
+  column: string;
+  operator: string;
+  value: string;
+}
+
+/**
+ * List recently viewed reports or dashboards
+ * @param client The Salesforce client
+ * @param type Reports or dashboards
+ * @returns The reports or dashboards
+ */
+export async function listAnalytics(
+  client: SalesforceClient,
+  type: SalesforceAnalyticsSummary['type']
+): Promise<SalesforceAnalyticsSummary[]> {
+  const items = await client.request<{ id: string; name: string }[]>(
+    client.dataPath(type === 'report' ? '/analytics/reports' : '/analytics/dashboards')
+  );
+
+  return items.map(item => ({ id: item.id, name: item.name, type }));
+}
+
+/**
+ * Run a report synchronously, with optional runtime filters
+ * @param client The Salesforce client
+ * @param reportId The report ID
+ * @param filters Filters added to the report's saved filters for this run
+ * @returns The raw report result
+ */
+export async function runReport(
+  client: SalesforceClient,
+  reportId: string,
+  filters: SalesforceReportFilter[] = []
+): Promise<SalesforceReportResponse> {
+  if (!REPORT_ID_PATTERN.test(reportId)) {
+    throw new Error(`Invalid report ID: ${reportId}. Report IDs start with 00O.`);
+  }
+
+  const path = client.dataPath(`/analytics/reports/${reportId}?includeDetails=true`);
+  logger.debug(LogCategory.NODE, '[SalesforceAPI]', 'Running report', { reportId, filters: filters.length });
+
+  if (filters.length === 0) {
+    return client.request<SalesforceReportResponse>(path);
+  }
+
+  return client.request<SalesforceReportResponse>(path, {
+    method: 'POST',
+    body: JSON.stringify({ reportMetadata: { reportFilters: filters } })
+  });
+}
+
+/**
+ * Raw response body of the Analytics API dashboard results endpoint
+ */
+interface SalesforceDashboardResponse {
+  dashboardMetadata: {
+    id?: string;
+    name: string;
+    components: { id: string; header?: string | null; title?: string | null; properties?: { visualizationType?: string } }[];
+  };
+  componentData: {
+    componentId: string;
+    reportResult?: SalesforceReportResponse | null;
+    status?: { dataStatus?: string; errorMessage?: string | null };
+  }[];
+}
+
+/**
+ * Fetch the data behind each component of a dashboard
+ * @param client The Salesforce client
+ * @param dashboardId The dashboard ID
+ * @param chartType Chart type to use instead of the component's own visualization
+ * @returns The dashboard name and its components converted to rows and charts
+ */
+export async function getDashboard(
+  client: SalesforceClient,
+  dashboardId: string,
+  chartType?: SalesforceChartType
+): Promise<{ id: string; name: string; components: SalesforceDashboardComponent[] }> {
+  if (!DASHBOARD_ID_PATTERN.test(dashboardId)) {
+    throw new Error(`Invalid dashboard ID: ${dashboardId}. Dashboard IDs start with 01Z.`);
+  }
+
+  const response = await client.request<SalesforceDashboardResponse>(
+    client.dataPath(`/analytics/dashboards/${dashboardId}`)
+  );
+
+  const components = response.dashboardMetadata.components.map(component => {
+    const data = response.componentData.find(entry => entry.componentId === component.id);
+    const title = component.header || component.title || data?.reportResult?.reportMetadata.name || component.id;
+
+    if (!data?.reportResult) {
+      return { id: component.id, title, status: data?.status?.errorMessage || data?.status?.dataStatus || 'NODATA' };
+    }
+
+    const report = reportToTable(data.reportResult);
+    const type = chartType || chartTypeFromSalesforce(component.properties?.visualizationType);
+    return { id: component.id, title, report, chart: buildReportChart(report, type, title) ?? undefined };
+  });
+
+  return { id: dashboardId, name: response.dashboardMetadata.name, components };
+}
+
+/**
+ * Map a Salesforce chart or visualization type (e.g. "Vertical Bar", "Donut") to a chart type
+ * @param type The Salesforce chart type
+ */
+export function chartTypeFromSalesforce(type?: string | null): SalesforceChartType {
+  const normalized = (type || '').toLowerCase();
+  if (normalized.includes('line')) return 'line';
+  if (normalized.includes('pie') || normalized.includes('donut') || normalized.includes('funnel')) return 'pie';
+  return 'bar';
+}
+
+// Row keys double as CSS variable names in the chart, so keep them to safe characters
+function columnKey(name: string): string {
+  return name.replace(/[^A-Za-z0-9_]/g, '_');
+}
+
+// Prefer raw numeric values so charts can plot them; fall back to the display label
+function cellValue(cell: SalesforceReportCell | undefined): string | number | null {
+  if (!cell) return null;
+  if (typeof cell.value === 'number') return cell.value;
+  if (cell.value && typeof cell.value === 'object' && 'amount' in cell.value) {
+    return Number((cell.value as { amount: unknown }).amount);
+  }
+  return cell.label ?? (cell.value === null || cell.value === undefined ? null : String(cell.value));
+}
+
+/**
+ * Walk a grouping tree to its deepest level, joining labels of nested groupings
+ */
+function leafGroupings(
+  groupings: SalesforceReportGrouping[] = [],
+  prefix = ''
+): { key: string; label: string }[] {
+  return groupings.flatMap(grouping => {
+    const label = prefix ? `${prefix} › ${grouping.label}` : grouping.label;
+    return grouping.groupings && grouping.groupings.length > 0
+      ? leafGroupings(grouping.groupings, label)
+      : [{ key: grouping.key, label }];
+  });
+}
+
+/**
+ * Convert a report result's fact map into rows.
+ *
+ * - Tabular reports produce one row per detail row.
+ * - Summary reports produce one row per innermost grouping with its aggregates.
+ * - Matrix reports produce one row per down grouping and one column per across
+ *   grouping, holding the first aggregate.
+ *
+ * @param response The raw report result
+ * @returns Columns, rows and grand totals
+ */
+export function reportToTable(response: SalesforceReportResponse): SalesforceReportTable {
+  const metadata = response.reportMetadata;
+  const extended = response.reportExtendedMetadata || {};
+  const aggregates = metadata.aggregates || [];
+  const aggregateColumns: SalesforceReportColumn[] = aggregates.map(name => ({
+    key: columnKey(name),
+    label: extended.aggregateColumnInfo?.[name]?.label || name,
+    kind: 'aggregate'
+  }));
+  // Label the category column after the down groupings, e.g. "Stage" or "Region › Owner"
+  const groupingInfo = extended.groupingColumnInfo || {};
+  const downNames = metadata.groupingsDown?.map(grouping => grouping.name) || Object.keys(groupingInfo);
+  const groupingLabel = downNames.map(name => groupingInfo[name]?.label || name).join(' › ') || 'Group';
+
+  const table: SalesforceReportTable = {
+    id: metadata.id || response.attributes?.reportId,
+    name: metadata.name,
+    format: metadata.reportFormat,
+    columns: [],
+    rows: [],
+    totals: response.factMap['T!T']?.aggregates || [],
+    allData: response.allData !== false
+  };
+
+  const downGroupings = leafGroupings(response.groupingsDown?.groupings);
+
+  if (metadata.reportFormat === 'MATRIX') {
+    const acrossGroupings = leafGroupings(response.groupingsAcross?.groupings);
+    const acrossColumns: SalesforceReportColumn[] = acrossGroupings.map((grouping, index) => ({
+      key: `c${index}`,
+      label: grouping.label,
+      kind: 'aggregate'
+    }));
+
+    table.columns = [{ key: 'group', label: groupingLabel, kind: 'grouping' }, ...acrossColumns];
+    table.rows = downGroupings.map(down => ({
+      group: down.label,
+      ...Object.fromEntries(acrossGroupings.map((across, index) => [
+        acrossColumns[index].key,
+        cellValue(response.factMap[`${down.key}!${across.key}`]?.aggregates?.[0])
+      ]))
+    }));
+    return table;
+  }
+
+  if (downGroupings.length > 0) {
+    table.columns = [{ key: 'group', label: groupingLabel, kind: 'grouping' }, ...aggregateColumns];
+    table.rows = downGroupings.map(down => ({
+      group: down.label,
+      ...Object.fromEntries(aggregateColumns.map((column, index) => [
+        column.key,
+        cellValue(response.factMap[`${down.key}!T`]?.aggregates?.[index])
+      ]))
+    }));
+    return table;
+  }
+
+  const detailColumns = metadata.detailColumns || [];
+  table.columns = detailColumns.map(name => ({
+    key: columnKey(name),
+    label: extended.detailColumnInfo?.[name]?.label || name,
+    kind: 'detail'
+  }));
+  table.rows = (response.factMap['T!T']?.rows || []).map(row =>
+    Object.fromEntries(table.columns.map((column, index) => [column.key, cellValue(row.dataCells[index])]))
+  );
+  return table;
+}
+
+/**
+ * Build a chart from a grouped report's rows
+ * @param table The report converted to rows
+ * @param type The chart type
+ * @param title Chart title, defaulting to the report name
+ * @returns The chart, or null when the report has no groupings or numeric columns
+ */
+export function buildReportChart(
+  table: SalesforceReportTable,
+  type: SalesforceChartType,
+  title: string = table.name
+): SalesforceReportChartSpec | null {
+  const category = table.columns.find(column => column.kind === 'grouping');
+  const numeric = table.columns.filter(column =>
+    column.kind === 'aggregate' && table.rows.some(row => typeof row[column.key] === 'number')
+  );
+  if (!category || numeric.length === 0) {
+    return null;
+  }
+
+  // A pie shows one series; prefer a summed value over the record count
+  const series = type === 'pie'
+    ? [numeric.find(column => column.key !== 'RowCount') || numeric[0]]
+    : numeric;
+
+  return {
+    type,
+    title,
+    categoryKey: category.key,
+    series: series.map(column => ({ key: column.key, label: column.label })),
+    data: table.rows.slice(0, MAX_CHART_POINTS)
+  };
+}
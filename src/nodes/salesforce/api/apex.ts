@@ -0,0 +1,108 @@
+/**
+ * @fileoverview Calls to custom Apex REST endpoints under /services/apexrest, limited to
+ * the paths allowlisted in the agent's Salesforce configuration
+ */
+
+import { logger, LogCategory } from 'agentdock-core';
+import { SalesforceClient } from './client';
+import { APEX_REST_PATH } from './constants';
+import { SalesforceApexCallParameters } from '../schema';
+import { SalesforceApexResponse } from '../component';
+
+/**
+ * Normalize an Apex REST path: strip the /services/apexrest prefix, the query string
+ * and trailing slashes, and reject anything that could escape the Apex REST namespace
+ * @param path The requested path
+ * @returns The path relative to /services/apexrest, starting with a slash
+ */
+export function normalizeApexPath(path: string): string {
+  let normalized = path.trim().split('?')[0];
+
+  if (/^[a-z]+:\/\//i.test(normalized)) {
+    throw new Error(`Apex REST paths must be relative to ${APEX_REST_PATH}, not full URLs: ${path}`);
+  }
+  if (normalized.startsWith(APEX_REST_PATH)) {
+    normalized = normalized.slice(APEX_REST_PATH.length);
+  }
+  normalized = `/${normalized.replace(/^\/+/, '').replace(/\/+$/, '')}`;
+
+  // Decoded or not, dot segments and backslashes would let a path leave the Apex REST namespace
+  const decoded = decodeURIComponent(normalized);
+  if (decoded.split('/').some(segment => segment === '..' || segment === '.') || decoded.includes('\\')) {
+    throw new Error(`Invalid Apex REST path: ${path}`);
+  }
+
+  return normalized;
+}
+
+/**
+ * Convert an allowlist pattern to a regular expression.
+ * `*` matches within one path segment and `**` matches across segments.
+ */
+function patternToRegExp(pattern: string): RegExp {
+  const source = normalizeApexPath(pattern)
+    .split(/(\*\*|\*)/)
+    .map(part => {
+      if (part === '**') return '.*';
+      if (part === '*') return '[^/]*';
+      return part.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Check a path against the allowlist
+ * @param path Normalized path relative to /services/apexrest
+ * @param allowlist Allowed path patterns
+ * @returns Whether the path matches one of the patterns
+ */
+export function isApexPathAllowed(path: string, allowlist: string[]): boolean {
+  return allowlist.some(pattern => patternToRegExp(pattern).test(path));
+}
+
+/**
+ * Call an allowlisted Apex REST endpoint
+ * @param client The Salesforce client
+ * @param params Method, path, query parameters and body
+ * @returns The endpoint's response
+ */
+export async function callApexRest(
+  client: SalesforceClient,
+  params: SalesforceApexCallParameters
+): Promise<SalesforceApexResponse> {
+  const path = normalizeApexPath(params.path);
+
+  if (client.apexAllowlist.length === 0) {
+    throw new Error('No Apex REST endpoints are enabled for this agent. Add paths to nodeConfigurations.salesforce.apexAllowlist.');
+  }
+  if (!isApexPathAllowed(path, client.apexAllowlist)) {
+    throw new Error(`Apex REST path ${path} is not allowlisted. Allowed paths: ${client.apexAllowlist.join(', ')}`);
+  }
+
+  const method = params.method || 'GET';
+  const query = params.query
+    ? `?${new URLSearchParams(Object.entries(params.query).map(([key, value]) => [key, String(value)])).toString()}`
+    : '';
+  const hasBody = params.body !== undefined && method !== 'GET' && method !== 'DELETE';
+
+  logger.debug(LogCategory.NODE, '[SalesforceAPI]', 'Calling Apex REST endpoint', { method, path });
+
+  const response = await client.requestRaw(`${APEX_REST_PATH}${path}${query}`, {
+    method,
+    ...(hasBody ? { body: JSON.stringify(params.body) } : {})
+  });
+
+  // Apex REST endpoints may return JSON, plain text or nothing at all
+  const text = response.status === 204 ? '' : await response.text();
+  let body: unknown = text || undefined;
+  if (text && (response.headers.get('content-type') || '').includes('json')) {
+    try {
+      body = JSON.parse(text);
+    } catch {
+      body = text;
+    }
+  }
+
+  return { method, path, status: response.status, body };
+}
@@ -0,0 +1,320 @@
+/**
+ * @fileoverview Bulk API 2.0 query and ingest jobs.
+ *
+ * Jobs run asynchronously in Salesforce. Job IDs are recorded in the session's
+ * orchestration state so a later turn can check on them, and query jobs are
+ * registered for CSV download through the bulk results route.
+ */
+
+import { logger, LogCategory } from 'agentdock-core';
+import type { TrackedJob } from 'agentdock-core';
+import { SalesforceClient } from './client';
+import { assertValidNames } from './records';
+import {
+  BULK_DOWNLOAD_ROUTE,
+  BULK_JOB_TTL_SECONDS,
+  BULK_POLL_INTERVAL_MS,
+  BULK_RESULTS_PAGE_SIZE
+} from './constants';
+import {
+  SalesforceBulkIngestOperation,
+  SalesforceBulkJob,
+  SalesforceBulkJobKind,
+  SalesforceBulkResultPage
+} from '../component';
+import { SalesforceNodeConfig } from '../schema';
+import { csvToRecords } from '../utils/csv';
+
+const BULK_JOB_KEY_PREFIX = 'salesforce:bulk-job:';
+
+// Tools whose jobs are tracked in orchestration state, by job kind
+export const BULK_JOB_TOOLS: Record<SalesforceBulkJobKind, string> = {
+  query: 'salesforce_bulk_query',
+  ingest: 'salesforce_bulk_ingest'
+};
+
+// Job states after which Salesforce does no further work
+const FINISHED_STATES = ['JobComplete', 'Failed', 'Aborted'];
+
+/**
+ * Whether a job has stopped running
+ * @param job The job
+ */
+export function isBulkJobFinished(job: Pick<SalesforceBulkJob, 'state'>): boolean {
+  return FINISHED_STATES.includes(job.state);
+}
+
+/**
+ * Path of a job under the versioned data API
+ */
+function jobPath(client: SalesforceClient, kind: SalesforceBulkJobKind, jobId?: string): string {
+  if (jobId !== undefined && !/^[A-Za-z0-9]{15}(?:[A-Za-z0-9]{3})?$/.test(jobId)) {
+    throw new Error(`Invalid bulk job ID: ${jobId}`);
+  }
+  return client.dataPath(`/jobs/${kind}${jobId ? `/${jobId}` : ''}`);
+}
+
+/**
+ * Start a bulk query job
+ * @param client The Salesforce client
+ * @param soql The SOQL statement
+ * @returns The new job
+ */
+export async function createBulkQueryJob(client: SalesforceClient, soql: string): Promise<SalesforceBulkJob> {
+  const job = await client.request<SalesforceBulkJob>(jobPath(client, 'query'), {
+    method: 'POST',
+    body: JSON.stringify({ operation: 'query', query: soql, contentType: 'CSV', lineEnding: 'LF' })
+  });
+
+  logger.debug(LogCategory.NODE, '[SalesforceAPI]', 'Bulk query job created', { jobId: job.id });
+  return job;
+}
+
+/**
+ * Create an ingest job, upload its CSV data and mark the upload complete
+ * @param client The Salesforce client
+ * @param options Target object and operation
+ * @param csv CSV data with a header row of field API names
+ * @returns The job after the upload was closed
+ */
+export async function runBulkIngestJob(
+  client: SalesforceClient,
+  options: { object: string; operation: SalesforceBulkIngestOperation; externalIdField?: string },
+  csv: string
+): Promise<SalesforceBulkJob> {
+  assertValidNames([options.object, ...(options.externalIdField ? [options.externalIdField] : [])]);
+  if (options.operation === 'upsert' && !options.externalIdField) {
+    throw new Error('An external ID field is required for bulk upserts');
+  }
+
+  const job = await client.request<SalesforceBulkJob>(jobPath(client, 'ingest'), {
+    method: 'POST',
+    body: JSON.stringify({
+      object: options.object,
+      operation: options.operation,
+      ...(options.externalIdField ? { externalIdFieldName: options.externalIdField } : {}),
+      contentType: 'CSV',
+      lineEnding: 'LF'
+    })
+  });
+
+  await client.requestRaw(`${jobPath(client, 'ingest', job.id)}/batches`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'text/csv' },
+    body: csv
+  });
+
+  const closed = await client.request<SalesforceBulkJob>(jobPath(client, 'ingest', job.id), {
+    method: 'PATCH',
+    body: JSON.stringify({ state: 'UploadComplete' })
+  });
+
+  logger.debug(LogCategory.NODE, '[SalesforceAPI]', 'Bulk ingest job uploaded', {
+    jobId: job.id,
+    object: options.object,
+    operation: options.operation
+  });
+  return closed;
+}
+
+/**
+ * Get the current status of a job
+ * @param client The Salesforce client
+ * @param kind Query or ingest
+ * @param jobId The job ID
+ */
+export async function getBulkJob(
+  client: SalesforceClient,
+  kind: SalesforceBulkJobKind,
+  jobId: string
+): Promise<SalesforceBulkJob> {
+  return client.request<SalesforceBulkJob>(jobPath(client, kind, jobId));
+}
+
+/**
+ * Poll a job until it finishes or the wait time runs out
+ * @param client The Salesforce client
+ * @param kind Query or ingest
+ * @param job The job as last seen
+ * @param waitSeconds How long to keep polling
+ * @param pollIntervalMs Delay between status checks
+ * @returns The job as last seen
+ */
+export async function waitForBulkJob(
+  client: SalesforceClient,
+  kind: SalesforceBulkJobKind,
+  job: SalesforceBulkJob,
+  waitSeconds: number,
+  pollIntervalMs: number = BULK_POLL_INTERVAL_MS
+): Promise<SalesforceBulkJob> {
+  const deadline = Date.now() + waitSeconds * 1000;
+  let current = job;
+
+  while (!isBulkJobFinished(current)) {
+    current = await getBulkJob(client, kind, current.id);
+    if (isBulkJobFinished(current) || Date.now() + pollIntervalMs > deadline) {
+      break;
+    }
+    await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
+  }
+
+  return current;
+}
+
+/**
+ * Read the results of a completed query job page by page, following the Sforce-Locator header
+ * @param client The Salesforce client
+ * @param jobId The job ID
+ * @param pageSize Maximum records per page
+ * @param maxPages Stop after this many pages
+ */
+export async function* streamBulkQueryResults(
+  client: SalesforceClient,
+  jobId: string,
+  pageSize: number = BULK_RESULTS_PAGE_SIZE,
+  maxPages: number = Infinity
+): AsyncGenerator<SalesforceBulkResultPage> {
+  let locator: string | null = null;
+  let pages = 0;
+
+  do {
+    const query = new URLSearchParams({ maxRecords: String(pageSize) });
+    if (locator) query.set('locator', locator);
+
+    const response = await client.requestRaw(`${jobPath(client, 'query', jobId)}/results?${query}`, {
+      headers: { 'Accept': 'text/csv' }
+    });
+    const csv = await response.text();
+    const header = response.headers.get('Sforce-Locator');
+    locator = header && header !== 'null' ? header : null;
+    pages++;
+
+    yield { csv, records: Number(response.headers.get('Sforce-NumberOfRecords') || 0) };
+  } while (locator && pages < maxPages);
+}
+
+/**
+ * Read all results of a completed query job as one CSV document, keeping only the first page's header row
+ * @param client The Salesforce client
+ * @param jobId The job ID
+ */
+export async function* streamBulkQueryCsv(client: SalesforceClient, jobId: string): AsyncGenerator<string> {
+  let first = true;
+  for await (const page of streamBulkQueryResults(client, jobId)) {
+    yield first ? page.csv : page.csv.slice(page.csv.indexOf('\n') + 1);
+    first = false;
+  }
+}
+
+/**
+ * Read the first records of a completed query job
+ * @param client The Salesforce client
+ * @param jobId The job ID
+ * @param rows Number of records to read
+ */
+export async function getBulkQueryPreview(
+  client: SalesforceClient,
+  jobId: string,
+  rows: number
+): Promise<Record<string, string>[]> {
+  for await (const page of streamBulkQueryResults(client, jobId, rows, 1)) {
+    return csvToRecords(page.csv);
+  }
+  return [];
+}
+
+/**
+ * Read the rows an ingest job failed to process, with the sf__Error column
+ * @param client The Salesforce client
+ * @param jobId The job ID
+ */
+export async function getBulkIngestFailures(client: SalesforceClient, jobId: string): Promise<Record<string, string>[]> {
+  const response = await client.requestRaw(`${jobPath(client, 'ingest', jobId)}/failedResults`, {
+    headers: { 'Accept': 'text/csv' }
+  });
+  return csvToRecords(await response.text());
+}
+
+/**
+ * Settings needed to reconnect to the org when the job's results are downloaded
+ */
+export interface SalesforceBulkJobRegistration {
+  jobId: string;
+  kind: SalesforceBulkJobKind;
+  object?: string;
+  salesforceConfig: SalesforceNodeConfig;
+}
+
+async function getServerStorage() {
+  const { getStorageProvider } = await import('@/lib/orchestration-adapter');
+  return getStorageProvider();
+}
+
+/**
+ * Record a job in the session's orchestration state and register it for download.
+ * Failures are logged and do not fail the tool call.
+ * @param sessionId The session ID
+ * @param job The job
+ * @param kind Query or ingest
+ * @param salesforceConfig The agent's Salesforce node configuration
+ */
+export async function trackBulkJob(
+  sessionId: string,
+  job: SalesforceBulkJob,
+  kind: SalesforceBulkJobKind,
+  salesforceConfig: SalesforceNodeConfig = {}
+): Promise<void> {
+  try {
+    const { getOrchestrationManagerInstance } = await import('@/lib/orchestration-adapter');
+    await getOrchestrationManagerInstance().getStateManager().trackJob(sessionId, {
+      id: job.id,
+      tool: BULK_JOB_TOOLS[kind],
+      kind,
+      description: `Bulk ${job.operation}${job.object ? ` of ${job.object}` : ''}`,
+      status: job.state
+    });
+
+    const registration: SalesforceBulkJobRegistration = { jobId: job.id, kind, object: job.object, salesforceConfig };
+    const storage = await getServerStorage();
+    await storage.set(`${BULK_JOB_KEY_PREFIX}${sessionId}:${job.id}`, registration, { ttlSeconds: BULK_JOB_TTL_SECONDS });
+  } catch (error) {
+    logger.warn(LogCategory.NODE, '[SalesforceAPI]', 'Failed to track bulk job', {
+      jobId: job.id,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
+/**
+ * Get the bulk jobs started in a session, most recent first
+ * @param sessionId The session ID
+ */
+export async function getTrackedBulkJobs(sessionId: string): Promise<TrackedJob[]> {
+  const { getOrchestrationManagerInstance } = await import('@/lib/orchestration-adapter');
+  return getOrchestrationManagerInstance()
+    .getStateManager()
+    .getTrackedJobs(sessionId, Object.values(BULK_JOB_TOOLS));
+}
+
+/**
+ * Look up a job registered for download in a session
+ * @param sessionId The session ID
+ * @param jobId The job ID
+ * @returns The registration, or null when the job was not started in this session
+ */
+export async function getBulkJobRegistration(
+  sessionId: string,
+  jobId: string
+): Promise<SalesforceBulkJobRegistration | null> {
+  const storage = await getServerStorage();
+  return storage.get<SalesforceBulkJobRegistration>(`${BULK_JOB_KEY_PREFIX}${sessionId}:${jobId}`);
+}
+
+/**
+ * URL from which the user can download a query job's results as CSV
+ * @param sessionId The session ID
+ * @param jobId The job ID
+ */
+export function getBulkDownloadUrl(sessionId: string, jobId: string): string {
+  return `${BULK_DOWNLOAD_ROUTE}/${jobId}/results?sessionId=${encodeURIComponent(sessionId)}`;
+}
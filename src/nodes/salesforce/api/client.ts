@@ -0,0 +1,210 @@
+/**
+ * @fileoverview Minimal HTTP client for the Salesforce REST API
+ */
+
+import { logger, LogCategory } from 'agentdock-core';
+import { ToolExecutionOptions } from '../../types';
+import {
+  DEFAULT_API_VERSION,
+  DEFAULT_DESCRIBE_CACHE_TTL_SECONDS,
+  DEFAULT_MAX_RECORDS,
+  MAX_RECORDS_LIMIT,
+  SALESFORCE_API_VERSION_ENV,
+  SALESFORCE_INSTANCE_URL_ENV,
+  SALESFORCE_NODE_CONFIG_KEY
+} from './constants';
+import { SalesforceSession } from './oauth';
+import { SalesforceNodeConfigSchema } from '../schema';
+import { SalesforceApiError, parseSalesforceError } from '../utils/error-helpers';
+
+/**
+ * Agent-level settings for talking to a Salesforce org
+ */
+export interface SalesforceClientConfig {
+  /** Overrides the instance URL returned by the token endpoint */
+  instanceUrl?: string;
+  apiVersion: string;
+  maxRecords: number;
+  describeCacheTtlSeconds: number;
+  /** Apex REST path patterns the agent may call */
+  apexAllowlist: string[];
+}
+
+/**
+ * Supplies the client with an authenticated session and renews it on demand
+ */
+export interface SalesforceTokenSource {
+  getSession(): Promise<SalesforceSession>;
+  refreshSession(): Promise<SalesforceSession>;
+}
+
+/**
+ * Resolve client settings from the agent's nodeConfigurations, falling back to
+ * environment variables for anything the template does not declare.
+ * @param options Tool execution options carrying the agent's nodeConfigurations
+ * @returns The resolved client configuration
+ */
+export function resolveSalesforceConfig(options?: Pick<ToolExecutionOptions, 'nodeConfigurations'>): SalesforceClientConfig {
+  const rawConfig = options?.nodeConfigurations?.[SALESFORCE_NODE_CONFIG_KEY] || {};
+  const parsed = SalesforceNodeConfigSchema.safeParse(rawConfig);
+
+  if (!parsed.success) {
+    throw new Error(`Invalid Salesforce node configuration: ${parsed.error.errors.map(e => e.message).join(', ')}`);
+  }
+
+  const instanceUrl = parsed.data.instanceUrl || process.env[SALESFORCE_INSTANCE_URL_ENV];
+
+  return {
+    instanceUrl: instanceUrl ? instanceUrl.replace(/\/+$/, '') : undefined,
+    apiVersion: parsed.data.apiVersion || process.env[SALESFORCE_API_VERSION_ENV] || DEFAULT_API_VERSION,
+    maxRecords: Math.min(parsed.data.maxRecords || DEFAULT_MAX_RECORDS, MAX_RECORDS_LIMIT),
+    describeCacheTtlSeconds: parsed.data.describeCacheTtlSeconds ?? DEFAULT_DESCRIBE_CACHE_TTL_SECONDS,
+    apexAllowlist: parsed.data.apexAllowlist || []
+  };
+}
+
+/**
+ * Client for the Salesforce REST API
+ *
+ * Requests that fail with 401 INVALID_SESSION_ID are retried once after the
+ * token source has refreshed the session.
+ */
+export class SalesforceClient {
+  private lastInstanceUrl?: string;
+
+  constructor(
+    private readonly config: SalesforceClientConfig,
+    private readonly tokenSource: SalesforceTokenSource
+  ) {}
+
+  /** Instance URL of the org, known once the client has authenticated */
+  get instanceUrl(): string {
+    return this.config.instanceUrl || this.lastInstanceUrl || '';
+  }
+
+  get apiVersion(): string {
+    return this.config.apiVersion;
+  }
+
+  get maxRecords(): number {
+    return this.config.maxRecords;
+  }
+
+  get describeCacheTtlSeconds(): number {
+    return this.config.describeCacheTtlSeconds;
+  }
+
+  get apexAllowlist(): string[] {
+    return this.config.apexAllowlist;
+  }
+
+  /**
+   * Resolve the instance URL, authenticating first when it is not configured
+   * @returns The org's instance URL
+   */
+  async resolveInstanceUrl(): Promise<string> {
+    if (!this.instanceUrl) {
+      const session = await this.tokenSource.getSession();
+      this.lastInstanceUrl = session.instanceUrl;
+    }
+    return this.instanceUrl;
+  }
+
+  /**
+   * Build a path under the versioned data API
+   * @param path Path relative to /services/data/vXX.X, starting with a slash
+   */
+  dataPath(path: string): string {
+    return `/services/data/v${this.config.apiVersion}${path}`;
+  }
+
+  /**
+   * Perform a request against the org and parse the JSON response
+   * @param path Absolute URL or a path relative to the instance URL
+   * @param init Optional fetch init
+   * @returns The parsed response body, or undefined for 204 responses
+   */
+  async request<T>(path: string, init: RequestInit = {}): Promise<T> {
+    const response = await this.requestRaw(path, init);
+
+    if (response.status === 204) {
+      return undefined as T;
+    }
+
+    const text = await response.text();
+    return (text ? JSON.parse(text) : undefined) as T;
+  }
+
+  /**
+   * Perform a request against the org and return the successful response unread,
+   * for bodies that are not JSON such as Bulk API CSV results
+   * @param path Absolute URL or a path relative to the instance URL
+   * @param init Optional fetch init
+   * @returns The response
+   */
+  async requestRaw(path: string, init: RequestInit = {}): Promise<Response> {
+    const session = await this.tokenSource.getSession();
+
+    try {
+      return await this.send(session, path, init);
+    } catch (error) {
+      if (error instanceof SalesforceApiError && error.status === 401 && error.errorCode === 'INVALID_SESSION_ID') {
+        logger.info(LogCategory.NODE, '[SalesforceAPI]', 'Session expired, refreshing access token');
+        const refreshed = await this.tokenSource.refreshSession();
+        return this.send(refreshed, path, init);
+      }
+      throw error;
+    }
+  }
+
+  private async send(session: SalesforceSession, path: string, init: RequestInit): Promise<Response> {
+    this.lastInstanceUrl = session.instanceUrl;
+    const url = this.resolveUrl(this.config.instanceUrl || session.instanceUrl, path);
+    const headers: Record<string, string> = {
+      'Accept': 'application/json',
+      'Authorization': `Bearer ${session.accessToken}`,
+      ...(init.headers as Record<string, string> | undefined)
+    };
+    if (init.body && !headers['Content-Type']) {
+      headers['Content-Type'] = 'application/json';
+    }
+
+    logger.debug(LogCategory.NODE, '[SalesforceAPI]', 'Request', {
+      method: init.method || 'GET',
+      path: path.split('?')[0]
+    });
+
+    const response = await fetch(url, { ...init, headers });
+
+    if (!response.ok) {
+      throw await parseSalesforceError(response);
+    }
+
+    return response;
+  }
+
+  /**
+   * Resolve a request path against the instance URL. Absolute URLs, such as a
+   * nextRecordsUrl, are only accepted on the instance itself: paths can come from
+   * tool arguments, and the request carries the org's access token.
+   */
+  private resolveUrl(baseUrl: string | undefined, path: string): string {
+    if (/^https?:\/\//i.test(path)) {
+      const target = new URL(path);
+      if (!baseUrl || target.origin !== new URL(baseUrl).origin) {
+        throw new Error(`Refusing to send a Salesforce request to ${target.origin}: only the org's instance URL is allowed.`);
+      }
+      return target.toString();
+    }
+
+    if (!path.startsWith('/')) {
+      throw new Error(`Salesforce request paths must start with a slash: ${path}`);
+    }
+    if (!baseUrl) {
+      throw new Error(
+        `Salesforce instance URL is not configured. Set nodeConfigurations.${SALESFORCE_NODE_CONFIG_KEY}.instanceUrl or ${SALESFORCE_INSTANCE_URL_ENV}.`
+      );
+    }
+    return `${baseUrl}${path}`;
+  }
+}
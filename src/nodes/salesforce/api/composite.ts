@@ -0,0 +1,272 @@
+/**
+ * @fileoverview Composite and sObject tree requests, which run several writes in one round trip
+ */
+
+import { logger, LogCategory } from 'agentdock-core';
+import { SalesforceClient } from './client';
+import { MAX_COMPOSITE_SUBREQUESTS, MAX_TREE_RECORDS } from './constants';
+import { assertValidNames } from './records';
+import { SalesforceCompositeParameters } from '../schema';
+import { SalesforceCompositeResult, SalesforceSubrequestResult } from '../component';
+import { SalesforceApiError } from '../utils/error-helpers';
+
+type CompositeSubrequest = NonNullable<SalesforceCompositeParameters['subrequests']>[number];
+
+type SubrequestError = SalesforceSubrequestResult['errors'][number];
+
+/**
+ * Raw composite API response
+ */
+interface CompositeResponse {
+  compositeResponse: {
+    body: unknown;
+    httpStatusCode: number;
+    referenceId: string;
+  }[];
+}
+
+/**
+ * Raw sObject tree response; the same shape is returned with a 400 status when a record fails
+ */
+interface TreeResponse {
+  hasErrors: boolean;
+  results: {
+    referenceId: string;
+    id?: string;
+    errors?: { statusCode?: string; errorCode?: string; message: string; fields?: string[] }[];
+  }[];
+}
+
+// Matches cross-references such as @{refAccount.id} or @{refQuery.records[0].Id}
+const REFERENCE_PATTERN = /@\{([A-Za-z][A-Za-z0-9_]*)[.[]/g;
+
+// Salesforce reports subrequests skipped after an earlier failure with this code
+const PROCESSING_HALTED = 'PROCESSING_HALTED';
+
+/**
+ * Resolve a subrequest URL to a full data API path, so the model can write /sobjects/Contact
+ * @param client The Salesforce client
+ * @param url The subrequest URL
+ * @returns Path starting with /services/data/vNN.N
+ */
+export function resolveSubrequestUrl(client: SalesforceClient, url: string): string {
+  const trimmed = url.trim();
+
+  if (/^[a-z]+:\/\//i.test(trimmed) || trimmed.split(/[/?]/).includes('..')) {
+    throw new Error(`Subrequest URLs must be data API paths such as /sobjects/Contact: ${url}`);
+  }
+  if (/^\/services\/data\/v\d+\.\d+\//.test(trimmed)) {
+    return trimmed;
+  }
+  return client.dataPath(`/${trimmed.replace(/^\/+/, '')}`);
+}
+
+/**
+ * Check that subrequests have unique reference IDs and only refer to earlier subrequests
+ * @param subrequests The subrequests, in execution order
+ */
+export function assertValidSubrequests(subrequests: CompositeSubrequest[]): void {
+  if (subrequests.length === 0) {
+    throw new Error('Provide at least one subrequest.');
+  }
+  if (subrequests.length > MAX_COMPOSITE_SUBREQUESTS) {
+    throw new Error(`A composite request can contain at most ${MAX_COMPOSITE_SUBREQUESTS} subrequests.`);
+  }
+
+  const seen = new Set<string>();
+  for (const subrequest of subrequests) {
+    if (seen.has(subrequest.referenceId)) {
+      throw new Error(`Duplicate referenceId: ${subrequest.referenceId}`);
+    }
+
+    const text = `${subrequest.url} ${JSON.stringify(subrequest.body ?? {})}`;
+    for (const match of text.matchAll(REFERENCE_PATTERN)) {
+      if (!seen.has(match[1])) {
+        throw new Error(
+          `Subrequest ${subrequest.referenceId} refers to @{${match[1]}...}, which is not an earlier subrequest.`
+        );
+      }
+    }
+
+    seen.add(subrequest.referenceId);
+  }
+}
+
+/**
+ * Normalize the error list Salesforce returns for a failed subrequest
+ */
+function toSubrequestErrors(body: unknown): SubrequestError[] {
+  const entries = (Array.isArray(body) ? body : body && typeof body === 'object' ? [body] : []) as {
+    message?: unknown;
+    errorCode?: string;
+    statusCode?: string;
+    fields?: string[];
+  }[];
+
+  return entries
+    .filter(entry => entry && typeof entry.message === 'string')
+    .map(entry => ({
+      message: entry.message as string,
+      errorCode: entry.errorCode || entry.statusCode || 'UNKNOWN_ERROR',
+      ...(Array.isArray(entry.fields) && entry.fields.length > 0 ? { fields: entry.fields } : {})
+    }));
+}
+
+/**
+ * Send a composite request
+ * @param client The Salesforce client
+ * @param subrequests The subrequests, in execution order
+ * @param allOrNone Whether to roll back every subrequest when one fails
+ * @returns Per-subrequest results
+ */
+export async function executeComposite(
+  client: SalesforceClient,
+  subrequests: CompositeSubrequest[],
+  allOrNone: boolean
+): Promise<SalesforceCompositeResult> {
+  assertValidSubrequests(subrequests);
+
+  const compositeRequest = subrequests.map(subrequest => ({
+    method: subrequest.method,
+    url: resolveSubrequestUrl(client, subrequest.url),
+    referenceId: subrequest.referenceId,
+    ...(subrequest.body !== undefined ? { body: subrequest.body } : {})
+  }));
+
+  logger.debug(LogCategory.NODE, '[SalesforceAPI]', 'Sending composite request', {
+    subrequests: compositeRequest.length,
+    allOrNone
+  });
+
+  const response = await client.request<CompositeResponse>(client.dataPath('/composite'), {
+    method: 'POST',
+    body: JSON.stringify({ allOrNone, compositeRequest })
+  });
+
+  const requests = new Map(compositeRequest.map(request => [request.referenceId, request]));
+  const results: SalesforceSubrequestResult[] = response.compositeResponse.map(entry => {
+    const request = requests.get(entry.referenceId);
+    const success = entry.httpStatusCode < 300;
+    const body = entry.body as { id?: unknown } | null;
+
+    return {
+      referenceId: entry.referenceId,
+      method: request?.method,
+      url: request?.url,
+      status: entry.httpStatusCode,
+      success,
+      ...(success && body && typeof body.id === 'string' ? { id: body.id } : {}),
+      errors: success ? [] : toSubrequestErrors(entry.body)
+    };
+  });
+
+  const hasErrors = results.some(result => !result.success);
+
+  // With allOrNone, a failure undoes the subrequests that succeeded before it and halts the rest
+  for (const result of results) {
+    const halted = result.errors.length > 0 && result.errors.every(error => error.errorCode === PROCESSING_HALTED);
+    if (halted || (allOrNone && hasErrors && result.success && result.method !== 'GET')) {
+      result.rolledBack = true;
+    }
+  }
+
+  return { mode: 'composite', allOrNone, hasErrors, results };
+}
+
+/**
+ * Fill in missing tree attributes and count the records, including nested children
+ * @param object The root sObject
+ * @param records The root records
+ * @returns The records to send and the total record count
+ */
+function prepareTreeRecords(
+  object: string,
+  records: Record<string, unknown>[]
+): { records: Record<string, unknown>[]; count: number } {
+  let count = 0;
+
+  const prepare = (record: Record<string, unknown>, type: string | undefined): Record<string, unknown> => {
+    count += 1;
+    const attributes = (record.attributes as { type?: string; referenceId?: string } | undefined) || {};
+    if (!attributes.type && !type) {
+      throw new Error(`Child record ${count} needs attributes.type, e.g. { "type": "Contact" }`);
+    }
+
+    const prepared: Record<string, unknown> = {
+      attributes: {
+        type: attributes.type || type,
+        referenceId: attributes.referenceId || `ref${count}`
+      }
+    };
+
+    for (const [key, value] of Object.entries(record)) {
+      if (key === 'attributes') continue;
+
+      // Child relationships hold { records: [...] }; their type comes from each child's attributes
+      const children = value && typeof value === 'object' && Array.isArray((value as { records?: unknown }).records)
+        ? (value as { records: Record<string, unknown>[] }).records
+        : undefined;
+      prepared[key] = children ? { records: children.map(child => prepare(child, undefined)) } : value;
+    }
+
+    return prepared;
+  };
+
+  const prepared = records.map(record => prepare(record, object));
+  return { records: prepared, count };
+}
+
+/**
+ * Create a tree of records with an sObject tree request
+ * @param client The Salesforce client
+ * @param object The root sObject
+ * @param records Root records with nested children
+ * @returns Per-record results; tree requests always roll back on failure
+ */
+export async function executeTree(
+  client: SalesforceClient,
+  object: string,
+  records: Record<string, unknown>[]
+): Promise<SalesforceCompositeResult> {
+  assertValidNames([object]);
+
+  const prepared = prepareTreeRecords(object, records);
+  if (prepared.count === 0) {
+    throw new Error('Provide at least one record.');
+  }
+  if (prepared.count > MAX_TREE_RECORDS) {
+    throw new Error(`An sObject tree request can contain at most ${MAX_TREE_RECORDS} records (got ${prepared.count}).`);
+  }
+
+  logger.debug(LogCategory.NODE, '[SalesforceAPI]', 'Sending sObject tree request', {
+    object,
+    records: prepared.count
+  });
+
+  let response: TreeResponse;
+  try {
+    response = await client.request<TreeResponse>(client.dataPath(`/composite/tree/${object}`), {
+      method: 'POST',
+      body: JSON.stringify({ records: prepared.records })
+    });
+  } catch (error) {
+    // Failed trees come back as a 400 listing the records that caused the rollback
+    const body = error instanceof SalesforceApiError ? error.body as TreeResponse | undefined : undefined;
+    if (!body || !Array.isArray(body.results)) {
+      throw error;
+    }
+    response = { ...body, hasErrors: true };
+  }
+
+  const results: SalesforceSubrequestResult[] = response.results.map(entry => {
+    const errors = toSubrequestErrors(entry.errors);
+    return {
+      referenceId: entry.referenceId,
+      success: errors.length === 0,
+      ...(entry.id ? { id: entry.id } : {}),
+      errors
+    };
+  });
+
+  return { mode: 'tree', allOrNone: true, object, hasErrors: response.hasErrors, results };
+}
@@ -0,0 +1,383 @@
+/**
+ * @fileoverview Per-session Salesforce connection manager.
+ *
+ * Connected app credentials are exchanged for a token once, by the connect
+ * route. Only the resulting access and refresh tokens are kept, encrypted, in
+ * the configured StorageProvider under a random connection ID; chat sessions
+ * are linked to that ID, so every salesforce_* tool in a session shares one
+ * authenticated client and one token.
+ */
+
+import { logger, LogCategory } from 'agentdock-core';
+import type { StorageProvider } from 'agentdock-core';
+import { ToolExecutionOptions } from '../../types';
+import {
+  CONNECTION_TTL_SECONDS,
+  MAX_CACHED_CLIENTS,
+  SALESFORCE_ACCESS_TOKEN_ENV,
+  SALESFORCE_AUTH_FLOW_ENV,
+  SALESFORCE_CLIENT_ID_ENV,
+  SALESFORCE_CLIENT_SECRET_ENV,
+  SALESFORCE_INSTANCE_URL_ENV,
+  SALESFORCE_LOGIN_URL_ENV,
+  SALESFORCE_PASSWORD_ENV,
+  SALESFORCE_PRIVATE_KEY_ENV,
+  SALESFORCE_REFRESH_TOKEN_ENV,
+  SALESFORCE_SECURITY_TOKEN_ENV,
+  SALESFORCE_SHARED_CONNECTION_ENV,
+  SALESFORCE_USERNAME_ENV,
+  TOKEN_CACHE_TTL_SECONDS
+} from './constants';
+import { SalesforceClient, SalesforceTokenSource, resolveSalesforceConfig } from './client';
+import { SalesforceSession, refreshAccessToken, requestAccessToken } from './oauth';
+import { decryptToken, encryptToken } from './token-crypto';
+import { SalesforceCredentials, SalesforceCredentialsSchema } from '../schema';
+
+const CONNECTION_KEY_PREFIX = 'salesforce:connection:';
+const SESSION_LINK_KEY_PREFIX = 'salesforce:session:';
+const SHARED_TOKEN_KEY = 'salesforce:token:shared';
+
+/**
+ * What is kept for a connection: the tokens and the non-secret connected app
+ * settings needed to refresh them
+ */
+interface StoredConnection {
+  session: SalesforceSession;
+  clientId: string;
+  loginUrl?: string;
+}
+
+/**
+ * Result of exchanging connected app credentials
+ */
+export interface SalesforceConnectResult {
+  connectionId: string;
+  instanceUrl: string;
+}
+
+/**
+ * Whether sessions without their own connection may use the org configured in
+ * the SALESFORCE_* environment variables
+ */
+export function isSharedConnectionEnabled(): boolean {
+  return process.env[SALESFORCE_SHARED_CONNECTION_ENV] === 'true';
+}
+
+/**
+ * Read connected app credentials from environment variables
+ * @returns The credentials, or null when none (or an invalid set) are configured
+ */
+export function getCredentialsFromEnv(): SalesforceCredentials | null {
+  const clientId = process.env[SALESFORCE_CLIENT_ID_ENV];
+  if (!clientId) return null;
+
+  const flow = process.env[SALESFORCE_AUTH_FLOW_ENV]
+    || (process.env[SALESFORCE_PRIVATE_KEY_ENV] ? 'jwt'
+      : process.env[SALESFORCE_REFRESH_TOKEN_ENV] ? 'refresh_token'
+      : 'password');
+
+  const parsed = SalesforceCredentialsSchema.safeParse({
+    flow,
+    clientId,
+    loginUrl: process.env[SALESFORCE_LOGIN_URL_ENV] || undefined,
+    clientSecret: process.env[SALESFORCE_CLIENT_SECRET_ENV] || undefined,
+    username: process.env[SALESFORCE_USERNAME_ENV],
+    password: process.env[SALESFORCE_PASSWORD_ENV],
+    securityToken: process.env[SALESFORCE_SECURITY_TOKEN_ENV] || undefined,
+    privateKey: process.env[SALESFORCE_PRIVATE_KEY_ENV],
+    refreshToken: process.env[SALESFORCE_REFRESH_TOKEN_ENV]
+  });
+
+  if (!parsed.success) {
+    logger.warn(LogCategory.NODE, '[SalesforceAPI]', 'Ignoring incomplete Salesforce credentials in environment', {
+      flow,
+      issues: parsed.error.errors.map(e => e.message)
+    });
+    return null;
+  }
+  return parsed.data;
+}
+
+/**
+ * Manages connections, access tokens and clients for Salesforce sessions
+ */
+export class SalesforceConnectionManager {
+  private clients = new Map<string, SalesforceClient>();
+  private pendingAuth = new Map<string, Promise<SalesforceSession>>();
+  private storagePromise?: Promise<StorageProvider>;
+
+  /**
+   * @param storage Storage provider for connections and tokens. Defaults to the
+   * provider configured for orchestration state.
+   */
+  constructor(storage?: StorageProvider) {
+    if (storage) {
+      this.storagePromise = Promise.resolve(storage);
+    }
+  }
+
+  private getStorage(): Promise<StorageProvider> {
+    if (!this.storagePromise) {
+      this.storagePromise = import('@/lib/orchestration-adapter').then(module => module.getStorageProvider());
+    }
+    return this.storagePromise;
+  }
+
+  /**
+   * Exchange connected app credentials for a token and store the token under a
+   * new connection ID. The credentials themselves are not stored.
+   * @param credentials The credentials entered in the settings page
+   */
+  async connect(credentials: SalesforceCredentials): Promise<SalesforceConnectResult> {
+    const session = await requestAccessToken(credentials);
+    const connectionId = crypto.randomUUID();
+
+    await this.saveConnection(connectionId, { session, clientId: credentials.clientId, loginUrl: credentials.loginUrl });
+    logger.debug(LogCategory.NODE, '[SalesforceAPI]', 'Connected Salesforce org', {
+      connectionId: connectionId.substring(0, 8),
+      flow: credentials.flow
+    });
+    return { connectionId, instanceUrl: session.instanceUrl };
+  }
+
+  /**
+   * Whether a connection exists and has not expired
+   * @param connectionId A connection ID returned by connect
+   */
+  async hasConnection(connectionId: string): Promise<boolean> {
+    const storage = await this.getStorage();
+    return storage.exists(`${CONNECTION_KEY_PREFIX}${connectionId}`);
+  }
+
+  /**
+   * Use a connection for a session
+   * @param sessionId The session ID
+   * @param connectionId A connection ID returned by connect
+   * @returns false when the connection does not exist or has expired
+   */
+  async linkSession(sessionId: string, connectionId: string): Promise<boolean> {
+    if (!(await this.hasConnection(connectionId))) {
+      return false;
+    }
+
+    const storage = await this.getStorage();
+    const linkKey = `${SESSION_LINK_KEY_PREFIX}${sessionId}`;
+    if ((await storage.get<string>(linkKey)) !== connectionId) {
+      await storage.set(linkKey, connectionId, { ttlSeconds: CONNECTION_TTL_SECONDS });
+    }
+    return true;
+  }
+
+  /**
+   * Get the current session for a session ID, authenticating the shared
+   * connection if needed
+   * @param sessionId The session ID
+   */
+  async getSession(sessionId: string): Promise<SalesforceSession> {
+    const connectionId = await this.getLinkedConnection(sessionId);
+    if (connectionId) {
+      return (await this.loadConnection(connectionId)).session;
+    }
+
+    this.assertSharedConnection();
+    const storage = await this.getStorage();
+    const cached = await storage.get<string>(SHARED_TOKEN_KEY);
+    const session = cached ? await decryptToken<SalesforceSession>(cached) : null;
+    return session || this.authenticate('shared', () => this.requestSharedSession(false));
+  }
+
+  /**
+   * Renew the access token for a session using its refresh token
+   * @param sessionId The session ID
+   */
+  async refreshSession(sessionId: string): Promise<SalesforceSession> {
+    const connectionId = await this.getLinkedConnection(sessionId);
+    if (connectionId) {
+      return this.authenticate(connectionId, () => this.refreshConnection(connectionId));
+    }
+
+    this.assertSharedConnection();
+    return this.authenticate('shared', () => this.requestSharedSession(true));
+  }
+
+  /**
+   * Get the shared client for a session. Clients of the most recently used sessions are
+   * kept; an evicted session gets a new client, its tokens stay in storage.
+   * @param sessionId The session ID
+   * @param options Tool execution options carrying the agent's nodeConfigurations
+   */
+  getConnection(sessionId: string, options?: Pick<ToolExecutionOptions, 'nodeConfigurations'>): SalesforceClient {
+    const config = resolveSalesforceConfig(options);
+    const cacheKey = `${sessionId}:${JSON.stringify(config)}`;
+    let client = this.clients.get(cacheKey);
+
+    if (client) {
+      // Move to the end, so the map stays ordered from least to most recently used
+      this.clients.delete(cacheKey);
+    } else {
+      const tokenSource: SalesforceTokenSource = {
+        getSession: () => this.getSession(sessionId),
+        refreshSession: () => this.refreshSession(sessionId)
+      };
+      client = new SalesforceClient(config, tokenSource);
+    }
+    this.clients.set(cacheKey, client);
+
+    if (this.clients.size > MAX_CACHED_CLIENTS) {
+      const [leastRecentlyUsed] = this.clients.keys();
+      this.clients.delete(leastRecentlyUsed);
+    }
+    return client;
+  }
+
+  /**
+   * Forget the connection, tokens and clients for a session
+   * @param sessionId The session ID
+   */
+  async disconnect(sessionId: string): Promise<void> {
+    const storage = await this.getStorage();
+    const connectionId = await this.getLinkedConnection(sessionId);
+    await storage.deleteMany([
+      `${SESSION_LINK_KEY_PREFIX}${sessionId}`,
+      ...(connectionId ? [`${CONNECTION_KEY_PREFIX}${connectionId}`] : [])
+    ]);
+    for (const key of Array.from(this.clients.keys())) {
+      if (key.startsWith(`${sessionId}:`)) this.clients.delete(key);
+    }
+  }
+
+  private async getLinkedConnection(sessionId: string): Promise<string | null> {
+    const storage = await this.getStorage();
+    return storage.get<string>(`${SESSION_LINK_KEY_PREFIX}${sessionId}`);
+  }
+
+  private async loadConnection(connectionId: string): Promise<StoredConnection> {
+    const storage = await this.getStorage();
+    const stored = await storage.get<string>(`${CONNECTION_KEY_PREFIX}${connectionId}`);
+    const connection = stored ? await decryptToken<StoredConnection>(stored) : null;
+    if (!connection) {
+      throw new Error('The Salesforce connection has expired. Reload the chat to reconnect with the credentials in Settings.');
+    }
+    return connection;
+  }
+
+  private async saveConnection(connectionId: string, connection: StoredConnection): Promise<void> {
+    const storage = await this.getStorage();
+    await storage.set(`${CONNECTION_KEY_PREFIX}${connectionId}`, await encryptToken(connection), {
+      ttlSeconds: CONNECTION_TTL_SECONDS
+    });
+  }
+
+  private assertSharedConnection(): void {
+    if (!isSharedConnectionEnabled()) {
+      throw new Error(
+        'Salesforce is not connected. Add your connected app credentials in Settings, or set SALESFORCE_SHARED_CONNECTION=true to use the org configured on the server.'
+      );
+    }
+  }
+
+  private authenticate(key: string, request: () => Promise<SalesforceSession>): Promise<SalesforceSession> {
+    // Concurrent tool calls on one connection share a single token request
+    const pending = this.pendingAuth.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    const promise = request().finally(() => {
+      this.pendingAuth.delete(key);
+    });
+    this.pendingAuth.set(key, promise);
+    return promise;
+  }
+
+  private async refreshConnection(connectionId: string): Promise<SalesforceSession> {
+    const connection = await this.loadConnection(connectionId);
+    if (!connection.session.refreshToken) {
+      throw new Error('The Salesforce access token has expired and the connected app did not issue a refresh token. Reload the chat to reconnect.');
+    }
+
+    const session = await refreshAccessToken(connection, connection.session.refreshToken);
+    await this.saveConnection(connectionId, { ...connection, session });
+    logger.debug(LogCategory.NODE, '[SalesforceAPI]', 'Refreshed Salesforce session', {
+      connectionId: connectionId.substring(0, 8)
+    });
+    return session;
+  }
+
+  private async requestSharedSession(refresh: boolean): Promise<SalesforceSession> {
+    const credentials = getCredentialsFromEnv();
+    if (!credentials) {
+      return this.getStaticSession(refresh);
+    }
+
+    const storage = await this.getStorage();
+    const cached = refresh ? await storage.get<string>(SHARED_TOKEN_KEY) : null;
+    const previous = cached ? await decryptToken<SalesforceSession>(cached) : null;
+    const session = previous?.refreshToken
+      ? await refreshAccessToken(credentials, previous.refreshToken)
+      : await requestAccessToken(credentials);
+
+    await storage.set(SHARED_TOKEN_KEY, await encryptToken(session), { ttlSeconds: TOKEN_CACHE_TTL_SECONDS });
+    logger.debug(LogCategory.NODE, '[SalesforceAPI]', refresh ? 'Refreshed shared Salesforce session' : 'Authenticated shared Salesforce session', {
+      flow: credentials.flow
+    });
+    return session;
+  }
+
+  /**
+   * Use a pre-issued access token from the environment when no connected app is configured
+   */
+  private getStaticSession(refresh: boolean): SalesforceSession {
+    const accessToken = process.env[SALESFORCE_ACCESS_TOKEN_ENV];
+    const instanceUrl = process.env[SALESFORCE_INSTANCE_URL_ENV] || '';
+
+    if (!accessToken) {
+      throw new Error(
+        'The shared Salesforce connection is not configured. Set the SALESFORCE_* connected app environment variables or SALESFORCE_ACCESS_TOKEN.'
+      );
+    }
+    if (refresh) {
+      throw new Error(`The Salesforce access token in ${SALESFORCE_ACCESS_TOKEN_ENV} has expired and cannot be refreshed.`);
+    }
+    return { accessToken, instanceUrl: instanceUrl.replace(/\/+$/, '') };
+  }
+}
+
+/**
+ * Make the connection manager a true singleton in Node/Vercel Serverless
+ */
+declare global {
+  var __salesforceConnectionManager: SalesforceConnectionManager | undefined;
+}
+
+/**
+ * Get the process-wide connection manager
+ */
+export function getSalesforceConnectionManager(): SalesforceConnectionManager {
+  if (!globalThis.__salesforceConnectionManager) {
+    globalThis.__salesforceConnectionManager = new SalesforceConnectionManager();
+  }
+  return globalThis.__salesforceConnectionManager;
+}
+
+/**
+ * Get the authenticated Salesforce client shared by all tools in a session
+ * @param sessionId The session ID
+ * @param options Tool execution options carrying the agent's nodeConfigurations
+ */
+export function getSalesforceConnection(
+  sessionId: string,
+  options?: Pick<ToolExecutionOptions, 'nodeConfigurations'>
+): SalesforceClient {
+  return getSalesforceConnectionManager().getConnection(sessionId, options);
+}
+
+/**
+ * Use the connection sent by the client for a session
+ * @param sessionId The session ID
+ * @param connectionId Value of the connection request header
+ * @returns false when the connection does not exist or has expired
+ */
+export async function linkSalesforceConnection(sessionId: string, connectionId: string): Promise<boolean> {
+  return getSalesforceConnectionManager().linkSession(sessionId, connectionId);
+}
@@ -0,0 +1,99 @@
+/**
+ * @fileoverview Constants for the Salesforce REST API client
+ */
+
+// Default REST API version used when the agent does not configure one
+export const DEFAULT_API_VERSION = '62.0';
+
+// Pagination limits for SOQL queries
+// Salesforce returns up to 2000 records per batch and a nextRecordsUrl for the rest
+export const DEFAULT_MAX_RECORDS = 2000;
+export const MAX_RECORDS_LIMIT = 50000;
+
+// Number of rows rendered in the markdown table (raw records are always returned in full)
+export const MAX_TABLE_ROWS = 50;
+
+// Org metadata from /sobjects and /sobjects/{name}/describe changes rarely; cache it for an hour by default
+export const DEFAULT_DESCRIBE_CACHE_TTL_SECONDS = 60 * 60;
+
+// Limits for the compact describe summaries returned to the model
+export const MAX_DESCRIBE_OBJECTS = 100;
+export const MAX_PICKLIST_VALUES = 10;
+export const MAX_CHILD_RELATIONSHIPS = 25;
+
+// Bulk API 2.0 job polling and result handling
+export const BULK_POLL_INTERVAL_MS = 2000;
+export const DEFAULT_BULK_WAIT_SECONDS = 20;
+export const MAX_BULK_WAIT_SECONDS = 60;
+export const BULK_PREVIEW_ROWS = 20;
+export const BULK_RESULTS_PAGE_SIZE = 50000;
+// Jobs stay downloadable for as long as Salesforce keeps their results (7 days)
+export const BULK_JOB_TTL_SECONDS = 7 * 24 * 60 * 60;
+export const BULK_DOWNLOAD_ROUTE = '/api/salesforce/bulk';
+
+// SOSL search: hits returned per object unless the caller sets a limit
+export const DEFAULT_SEARCH_LIMIT_PER_OBJECT = 10;
+
+// Composite API limits: subrequests per composite request and records per sObject tree
+export const MAX_COMPOSITE_SUBREQUESTS = 25;
+export const MAX_TREE_RECORDS = 200;
+
+// Base path of custom Apex REST endpoints
+export const APEX_REST_PATH = '/services/apexrest';
+
+// Analytics API reports: categories plotted per chart and reports listed per call
+export const MAX_CHART_POINTS = 30;
+export const MAX_ANALYTICS_LIST_ITEMS = 50;
+
+// Environment variable fallbacks for values not present in nodeConfigurations
+export const SALESFORCE_INSTANCE_URL_ENV = 'SALESFORCE_INSTANCE_URL';
+export const SALESFORCE_API_VERSION_ENV = 'SALESFORCE_API_VERSION';
+export const SALESFORCE_ACCESS_TOKEN_ENV = 'SALESFORCE_ACCESS_TOKEN';
+
+// Sessions without their own connection use the org configured below only when this is 'true'
+export const SALESFORCE_SHARED_CONNECTION_ENV = 'SALESFORCE_SHARED_CONNECTION';
+
+// Secret for the key that encrypts Salesforce tokens in the StorageProvider
+export const SALESFORCE_TOKEN_ENCRYPTION_KEY_ENV = 'SALESFORCE_TOKEN_ENCRYPTION_KEY';
+
+// Connected app credentials for the shared connection
+export const SALESFORCE_AUTH_FLOW_ENV = 'SALESFORCE_AUTH_FLOW';
+export const SALESFORCE_LOGIN_URL_ENV = 'SALESFORCE_LOGIN_URL';
+export const SALESFORCE_CLIENT_ID_ENV = 'SALESFORCE_CLIENT_ID';
+export const SALESFORCE_CLIENT_SECRET_ENV = 'SALESFORCE_CLIENT_SECRET';
+export const SALESFORCE_USERNAME_ENV = 'SALESFORCE_USERNAME';
+export const SALESFORCE_PASSWORD_ENV = 'SALESFORCE_PASSWORD';
+export const SALESFORCE_SECURITY_TOKEN_ENV = 'SALESFORCE_SECURITY_TOKEN';
+export const SALESFORCE_PRIVATE_KEY_ENV = 'SALESFORCE_PRIVATE_KEY';
+export const SALESFORCE_REFRESH_TOKEN_ENV = 'SALESFORCE_REFRESH_TOKEN';
+
+// OAuth 2.0
+export const DEFAULT_LOGIN_URL = 'https://login.salesforce.com';
+// Login hosts that client-supplied credentials may request tokens from (besides SALESFORCE_LOGIN_URL)
+export const ALLOWED_LOGIN_HOSTS = ['login.salesforce.com', 'test.salesforce.com'];
+export const ALLOWED_LOGIN_HOST_SUFFIX = '.my.salesforce.com';
+export const OAUTH_TOKEN_PATH = '/services/oauth2/token';
+export const JWT_BEARER_GRANT_TYPE = 'urn:ietf:params:oauth:grant-type:jwt-bearer';
+export const JWT_ASSERTION_LIFETIME_SECONDS = 180;
+
+// Salesforce does not return expires_in; access tokens follow the org session timeout (2h by default)
+export const TOKEN_CACHE_TTL_SECONDS = 2 * 60 * 60;
+export const CONNECTION_TTL_SECONDS = 24 * 60 * 60;
+
+// Authenticated clients kept in memory; the least recently used are dropped beyond this
+export const MAX_CACHED_CLIENTS = 500;
+
+// Route exchanging the connected app credentials saved in the settings page for a connection
+export const SALESFORCE_CONNECT_ROUTE = '/api/salesforce/connect';
+
+// Request header carrying the connection ID returned by the connect route
+export const SALESFORCE_CONNECTION_HEADER = 'x-salesforce-connection';
+
+// Prefix of the Salesforce tool nodes; only agents with one of them connect to Salesforce
+export const SALESFORCE_TOOL_PREFIX = 'salesforce_';
+
+// Key under which Salesforce settings live in an agent's nodeConfigurations
+export const SALESFORCE_NODE_CONFIG_KEY = 'salesforce';
+
+// Result type returned by write tools until the user approves the call in the chat UI
+export const APPROVAL_REQUIRED_RESULT_TYPE = 'tool_approval_required';
@@ -0,0 +1,209 @@
+/**
+ * @fileoverview Org metadata from /sobjects and /sobjects/{name}/describe, cached per org.
+ *
+ * Describe results are reduced to the fields the tools need and cached in the
+ * configured StorageProvider, keyed by instance URL and API version, so every
+ * session connected to the same org shares them.
+ */
+
+import { logger, LogCategory } from 'agentdock-core';
+import type { StorageProvider } from 'agentdock-core';
+import { SalesforceClient } from './client';
+import {
+  SalesforceChildRelationship,
+  SalesforceFieldSummary,
+  SalesforceSObjectDescribe,
+  SalesforceSObjectSummary
+} from '../component';
+
+const DESCRIBE_KEY_PREFIX = 'salesforce:describe:';
+
+/**
+ * Raw response body of the /sobjects endpoint
+ */
+interface GlobalDescribeResponse {
+  sobjects: {
+    name: string;
+    label: string;
+    custom: boolean;
+    queryable: boolean;
+  }[];
+}
+
+/**
+ * Raw response body of the /sobjects/{name}/describe endpoint (only the parts we keep)
+ */
+interface SObjectDescribeResponse {
+  name: string;
+  label: string;
+  custom: boolean;
+  fields: {
+    name: string;
+    label: string;
+    type: string;
+    custom: boolean;
+    nillable: boolean;
+    createable: boolean;
+    defaultedOnCreate: boolean;
+    updateable: boolean;
+    externalId: boolean;
+    referenceTo?: string[];
+    relationshipName?: string | null;
+    picklistValues?: { value: string; active: boolean }[];
+  }[];
+  childRelationships?: {
+    childSObject: string;
+    field: string;
+    relationshipName?: string | null;
+  }[];
+}
+
+/**
+ * Reduce a raw describe response to the compact form that is cached
+ * @param raw The describe response
+ * @returns The compact describe
+ */
+function toCompactDescribe(raw: SObjectDescribeResponse): SalesforceSObjectDescribe {
+  const fields: SalesforceFieldSummary[] = raw.fields.map(field => ({
+    name: field.name,
+    label: field.label,
+    type: field.type,
+    custom: field.custom,
+    required: field.createable && !field.nillable && !field.defaultedOnCreate && field.type !== 'boolean',
+    updateable: field.updateable,
+    externalId: field.externalId,
+    referenceTo: field.referenceTo || [],
+    ...(field.relationshipName ? { relationshipName: field.relationshipName } : {}),
+    picklistValues: (field.picklistValues || []).filter(value => value.active).map(value => value.value)
+  }));
+
+  const childRelationships: SalesforceChildRelationship[] = (raw.childRelationships || [])
+    .filter(relationship => relationship.relationshipName)
+    .map(relationship => ({
+      relationshipName: relationship.relationshipName as string,
+      childSObject: relationship.childSObject,
+      field: relationship.field
+    }));
+
+  return { name: raw.name, label: raw.label, custom: raw.custom, fields, childRelationships };
+}
+
+/**
+ * Cache of describe results per Salesforce org
+ */
+export class SalesforceMetadataCache {
+  private storagePromise?: Promise<StorageProvider>;
+
+  /**
+   * @param storage Storage provider for cached metadata. Defaults to the
+   * server storage provider from the storage factory.
+   */
+  constructor(storage?: StorageProvider) {
+    if (storage) {
+      this.storagePromise = Promise.resolve(storage);
+    }
+  }
+
+  private getStorage(): Promise<StorageProvider> {
+    if (!this.storagePromise) {
+      this.storagePromise = import('@/lib/orchestration-adapter').then(module => module.getStorageProvider());
+    }
+    return this.storagePromise;
+  }
+
+  /**
+   * Key prefix for everything cached about the client's org
+   */
+  private async orgKey(client: SalesforceClient): Promise<string> {
+    const instanceUrl = await client.resolveInstanceUrl();
+    return `${DESCRIBE_KEY_PREFIX}${instanceUrl.replace(/^https?:\/\//, '')}:v${client.apiVersion}:`;
+  }
+
+  /**
+   * Read through the cache
+   */
+  private async cached<T>(
+    client: SalesforceClient,
+    key: string,
+    refresh: boolean,
+    load: () => Promise<T>
+  ): Promise<T> {
+    const storage = await this.getStorage();
+    const fullKey = `${await this.orgKey(client)}${key}`;
+
+    if (!refresh) {
+      const hit = await storage.get<T>(fullKey);
+      if (hit) {
+        return hit;
+      }
+    }
+
+    const value = await load();
+    const ttlSeconds = client.describeCacheTtlSeconds;
+    await storage.set(fullKey, value, ttlSeconds > 0 ? { ttlSeconds } : undefined);
+
+    logger.debug(LogCategory.NODE, '[SalesforceAPI]', 'Cached org metadata', { key, ttlSeconds });
+    return value;
+  }
+
+  /**
+   * List the sObjects in the org
+   * @param client The Salesforce client
+   * @param refresh Bypass the cache
+   */
+  async describeGlobal(client: SalesforceClient, refresh = false): Promise<SalesforceSObjectSummary[]> {
+    return this.cached(client, 'global', refresh, async () => {
+      const response = await client.request<GlobalDescribeResponse>(client.dataPath('/sobjects'));
+      return response.sobjects.map(sobject => ({
+        name: sobject.name,
+        label: sobject.label,
+        custom: sobject.custom,
+        queryable: sobject.queryable
+      }));
+    });
+  }
+
+  /**
+   * Describe a single sObject
+   * @param client The Salesforce client
+   * @param name The sObject API name (case-insensitive)
+   * @param refresh Bypass the cache
+   */
+  async describeSObject(client: SalesforceClient, name: string, refresh = false): Promise<SalesforceSObjectDescribe> {
+    return this.cached(client, `sobject:${name.toLowerCase()}`, refresh, async () => {
+      const response = await client.request<SObjectDescribeResponse>(
+        client.dataPath(`/sobjects/${encodeURIComponent(name)}/describe`)
+      );
+      return toCompactDescribe(response);
+    });
+  }
+
+  /**
+   * Find an sObject by API name, ignoring case
+   * @param client The Salesforce client
+   * @param name The sObject API name
+   * @returns The object summary, or undefined when the org has no such object
+   */
+  async findSObject(client: SalesforceClient, name: string): Promise<SalesforceSObjectSummary | undefined> {
+    const sobjects = await this.describeGlobal(client);
+    const lower = name.toLowerCase();
+    return sobjects.find(sobject => sobject.name.toLowerCase() === lower);
+  }
+}
+
+/**
+ * Make the metadata cache a true singleton in Node/Vercel Serverless
+ */
+declare global {
+  var __salesforceMetadataCache: SalesforceMetadataCache | undefined;
+}
+
+/**
+ * Get the process-wide metadata cache
+ */
+export function getSalesforceMetadataCache(): SalesforceMetadataCache {
+  if (!globalThis.__salesforceMetadataCache) {
+    globalThis.__salesforceMetadataCache = new SalesforceMetadataCache();
+  }
+  return globalThis.__salesforceMetadataCache;
+}
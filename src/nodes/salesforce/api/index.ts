@@ -0,0 +1,17 @@
+/**
+ * @fileoverview Exports all API client functions for Salesforce
+ */
+
+export * from './constants';
+export * from './client';
+export * from './oauth';
+export * from './connection';
+export * from './query';
+export * from './records';
+export * from './describe';
+export * from './validation';
+export * from './bulk';
+export * from './analytics';
+export * from './search';
+export * from './apex';
+export * from './composite';
@@ -0,0 +1,218 @@
+/**
+ * @fileoverview OAuth 2.0 token requests for the Salesforce connected app flows
+ */
+
+import { logger, LogCategory } from 'agentdock-core';
+import {
+  ALLOWED_LOGIN_HOSTS,
+  ALLOWED_LOGIN_HOST_SUFFIX,
+  DEFAULT_LOGIN_URL,
+  JWT_ASSERTION_LIFETIME_SECONDS,
+  JWT_BEARER_GRANT_TYPE,
+  OAUTH_TOKEN_PATH,
+  SALESFORCE_LOGIN_URL_ENV
+} from './constants';
+import { SalesforceCredentials } from '../schema';
+import { parseSalesforceError } from '../utils/error-helpers';
+
+/**
+ * Authenticated Salesforce session obtained from the token endpoint
+ */
+export interface SalesforceSession {
+  accessToken: string;
+  instanceUrl: string;
+  refreshToken?: string;
+  issuedAt?: number;
+}
+
+/**
+ * Connected app settings needed to redeem a refresh token
+ */
+export interface SalesforceRefreshClient {
+  clientId: string;
+  clientSecret?: string;
+  loginUrl?: string;
+}
+
+/**
+ * Raw body of a successful token endpoint response
+ */
+interface OAuthTokenResponse {
+  access_token: string;
+  instance_url: string;
+  refresh_token?: string;
+  issued_at?: string;
+  token_type?: string;
+}
+
+/**
+ * Encode bytes or a string as base64url without padding
+ */
+function base64UrlEncode(input: string | ArrayBuffer): string {
+  const bytes = typeof input === 'string' ? new TextEncoder().encode(input) : new Uint8Array(input);
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Convert a PKCS#8 PEM private key into DER bytes for WebCrypto
+ */
+function pemToArrayBuffer(pem: string): ArrayBuffer {
+  if (pem.includes('BEGIN RSA PRIVATE KEY')) {
+    throw new Error('PKCS#1 keys are not supported. Convert the key with `openssl pkcs8 -topk8 -nocrypt`.');
+  }
+  const base64 = pem
+    .replace(/-----BEGIN [^-]+-----/, '')
+    .replace(/-----END [^-]+-----/, '')
+    .replace(/\\n/g, '')
+    .replace(/\s+/g, '');
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+/**
+ * Build and sign the RS256 assertion for the JWT bearer flow
+ * @param credentials JWT flow credentials
+ * @param audience The login URL the token is requested from
+ * @returns The signed JWT
+ */
+export async function createJwtAssertion(
+  credentials: Extract<SalesforceCredentials, { flow: 'jwt' }>,
+  audience: string
+): Promise<string> {
+  const header = base64UrlEncode(JSON.stringify({ alg: 'RS256', typ: 'JWT' }));
+  const claims = base64UrlEncode(JSON.stringify({
+    iss: credentials.clientId,
+    sub: credentials.username,
+    aud: audience,
+    exp: Math.floor(Date.now() / 1000) + JWT_ASSERTION_LIFETIME_SECONDS
+  }));
+  const signingInput = `${header}.${claims}`;
+
+  const key = await crypto.subtle.importKey(
+    'pkcs8',
+    pemToArrayBuffer(credentials.privateKey),
+    { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('RSASSA-PKCS1-v1_5', key, new TextEncoder().encode(signingInput));
+
+  return `${signingInput}.${base64UrlEncode(signature)}`;
+}
+
+/**
+ * Check that a login URL points at a Salesforce login host. Only the hosts
+ * Salesforce uses for logins and the server-configured SALESFORCE_LOGIN_URL are
+ * accepted, so client-supplied credentials cannot make the server call other hosts.
+ * @param loginUrl The login URL to check
+ * @returns The login URL without a trailing slash
+ */
+export function assertAllowedLoginUrl(loginUrl: string): string {
+  const normalized = loginUrl.replace(/\/+$/, '');
+  const configured = process.env[SALESFORCE_LOGIN_URL_ENV]?.replace(/\/+$/, '');
+  if (configured && normalized === configured) {
+    return normalized;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(normalized);
+  } catch {
+    throw new Error(`Invalid Salesforce login URL: ${loginUrl}`);
+  }
+  const host = url.hostname.toLowerCase();
+  const allowedHost = ALLOWED_LOGIN_HOSTS.includes(host) || host.endsWith(ALLOWED_LOGIN_HOST_SUFFIX);
+  if (url.protocol !== 'https:' || !allowedHost || url.port || url.pathname !== '/' || url.username || url.password) {
+    throw new Error(
+      `Salesforce login URL ${url.origin} is not allowed. Use https://login.salesforce.com, https://test.salesforce.com or your https://<domain>.my.salesforce.com URL.`
+    );
+  }
+  return url.origin;
+}
+
+/**
+ * POST a grant to the token endpoint
+ */
+async function requestToken(loginUrl: string, params: Record<string, string | undefined>): Promise<SalesforceSession> {
+  const body = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined) body.append(key, value);
+  });
+
+  const response = await fetch(`${assertAllowedLoginUrl(loginUrl)}${OAUTH_TOKEN_PATH}`, {
+    method: 'POST',
+    headers: {
+      'Accept': 'application/json',
+      'Content-Type': 'application/x-www-form-urlencoded'
+    },
+    body: body.toString()
+  });
+
+  if (!response.ok) {
+    throw await parseSalesforceError(response);
+  }
+
+  const token = await response.json() as OAuthTokenResponse;
+  return {
+    accessToken: token.access_token,
+    instanceUrl: token.instance_url.replace(/\/+$/, ''),
+    refreshToken: token.refresh_token,
+    issuedAt: token.issued_at ? Number(token.issued_at) : Date.now()
+  };
+}
+
+/**
+ * Obtain an access token using the flow declared in the credentials
+ * @param credentials Connected app credentials
+ * @returns The authenticated session
+ */
+export async function requestAccessToken(credentials: SalesforceCredentials): Promise<SalesforceSession> {
+  const loginUrl = credentials.loginUrl || DEFAULT_LOGIN_URL;
+
+  logger.debug(LogCategory.NODE, '[SalesforceAPI]', 'Requesting access token', {
+    flow: credentials.flow,
+    loginUrl
+  });
+
+  switch (credentials.flow) {
+    case 'jwt':
+      return requestToken(loginUrl, {
+        grant_type: JWT_BEARER_GRANT_TYPE,
+        assertion: await createJwtAssertion(credentials, loginUrl)
+      });
+    case 'password':
+      return requestToken(loginUrl, {
+        grant_type: 'password',
+        client_id: credentials.clientId,
+        client_secret: credentials.clientSecret,
+        username: credentials.username,
+        password: `${credentials.password}${credentials.securityToken || ''}`
+      });
+    case 'refresh_token':
+      return refreshAccessToken(credentials, credentials.refreshToken);
+  }
+}
+
+/**
+ * Exchange a refresh token for a new access token
+ * @param client Connected app client ID, optional secret and login URL
+ * @param refreshToken The refresh token to redeem
+ * @returns The refreshed session, keeping the original refresh token
+ */
+export async function refreshAccessToken(client: SalesforceRefreshClient, refreshToken: string): Promise<SalesforceSession> {
+  const session = await requestToken(client.loginUrl || DEFAULT_LOGIN_URL, {
+    grant_type: 'refresh_token',
+    client_id: client.clientId,
+    client_secret: client.clientSecret,
+    refresh_token: refreshToken
+  });
+
+  // Salesforce does not rotate refresh tokens on refresh
+  return { ...session, refreshToken: session.refreshToken || refreshToken };
+}
@@ -0,0 +1,84 @@
+/**
+ * @fileoverview SOQL query execution with nextRecordsUrl pagination
+ */
+
+import { logger, LogCategory } from 'agentdock-core';
+import { SalesforceClient } from './client';
+import { SalesforceQueryParameters } from '../schema';
+import { SalesforceQueryResponse, SalesforceQueryResult, SalesforceRecord } from '../component';
+
+// sObject names, field names and relationship paths (Account.Owner.Name)
+export const IDENTIFIER_PATTERN = /^[A-Za-z][A-Za-z0-9_]*(\.[A-Za-z][A-Za-z0-9_]*)*$/;
+
+/**
+ * Build a SOQL statement from tool parameters
+ * @param params Query parameters, either a raw statement or structured parts
+ * @returns The SOQL statement to execute
+ */
+export function buildSoqlQuery(params: SalesforceQueryParameters): string {
+  if (params.soql && params.soql.trim()) {
+    return params.soql.trim();
+  }
+
+  if (!params.object) {
+    throw new Error('Provide either a SOQL statement (soql) or an sObject name (object) to query.');
+  }
+
+  const fields = params.fields && params.fields.length > 0 ? params.fields : ['Id'];
+  const invalid = [params.object, ...fields].filter(name => !IDENTIFIER_PATTERN.test(name.trim()));
+  if (invalid.length > 0) {
+    throw new Error(`Invalid sObject or field name: ${invalid.join(', ')}`);
+  }
+
+  return [
+    `SELECT ${fields.map(field => field.trim()).join(', ')} FROM ${params.object.trim()}`,
+    params.where ? `WHERE ${params.where}` : '',
+    params.orderBy ? `ORDER BY ${params.orderBy}` : '',
+    params.limit ? `LIMIT ${params.limit}` : ''
+  ].filter(Boolean).join(' ');
+}
+
+/**
+ * Run a SOQL query, following nextRecordsUrl until done or the record cap is reached
+ * @param client The Salesforce client
+ * @param soql The SOQL statement
+ * @param maxRecords Maximum number of records to fetch across pages
+ * @returns The aggregated query result
+ */
+export async function executeSoqlQuery(
+  client: SalesforceClient,
+  soql: string,
+  maxRecords: number = client.maxRecords
+): Promise<SalesforceQueryResult> {
+  const records: SalesforceRecord[] = [];
+  let pages = 0;
+
+  let page = await client.request<SalesforceQueryResponse>(
+    `${client.dataPath('/query')}?q=${encodeURIComponent(soql)}`
+  );
+  pages++;
+  records.push(...page.records);
+
+  while (!page.done && page.nextRecordsUrl && records.length < maxRecords) {
+    page = await client.request<SalesforceQueryResponse>(page.nextRecordsUrl);
+    pages++;
+    records.push(...page.records);
+  }
+
+  const truncated = records.length > maxRecords || (!page.done && !!page.nextRecordsUrl);
+
+  logger.debug(LogCategory.NODE, '[SalesforceAPI]', 'Query complete', {
+    totalSize: page.totalSize,
+    fetched: records.length,
+    pages,
+    truncated
+  });
+
+  return {
+    soql,
+    totalSize: page.totalSize,
+    records: records.slice(0, maxRecords),
+    pages,
+    truncated
+  };
+}
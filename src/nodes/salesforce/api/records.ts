@@ -0,0 +1,169 @@
+/**
+ * @fileoverview Record writes (create, update, upsert, delete) on the sObject REST endpoints
+ */
+
+import { logger, LogCategory } from 'agentdock-core';
+import { SalesforceClient } from './client';
+import { IDENTIFIER_PATTERN } from './query';
+import { SalesforceSaveResponse, SalesforceWriteResult } from '../component';
+import { SalesforceApiError } from '../utils/error-helpers';
+
+// Salesforce record IDs are 15 (case-sensitive) or 18 (case-insensitive) characters
+const RECORD_ID_PATTERN = /^[A-Za-z0-9]{15}(?:[A-Za-z0-9]{3})?$/;
+
+/**
+ * Check sObject and field API names before they are placed in a URL or body
+ * @param names Names to check
+ */
+export function assertValidNames(names: string[]): void {
+  const invalid = names.filter(name => !IDENTIFIER_PATTERN.test(name) || name.includes('.'));
+  if (invalid.length > 0) {
+    throw new Error(`Invalid sObject or field name: ${invalid.join(', ')}`);
+  }
+}
+
+/**
+ * Check a record ID before it is placed in a URL
+ * @param id The record ID
+ */
+function assertValidRecordId(id: string): void {
+  if (!RECORD_ID_PATTERN.test(id)) {
+    throw new Error(`Invalid record ID: ${id}. Expected a 15 or 18 character Salesforce ID.`);
+  }
+}
+
+/**
+ * Turn a save response with success=false into an error
+ * @param response The save response
+ */
+function assertSaveSucceeded(response: SalesforceSaveResponse | undefined): void {
+  if (response && response.success === false) {
+    const details = (response.errors || []).map(entry => ({
+      message: entry.message,
+      errorCode: entry.statusCode || 'UNKNOWN_ERROR',
+      fields: entry.fields
+    }));
+    throw new SalesforceApiError(
+      details.map(detail => detail.message).join('; ') || 'Record save failed',
+      400,
+      details[0]?.errorCode || 'UNKNOWN_ERROR',
+      details
+    );
+  }
+}
+
+/**
+ * Create a record
+ * @param client The Salesforce client
+ * @param object The sObject API name
+ * @param fields Field values for the new record
+ * @returns The write result with the new record ID
+ */
+export async function createRecord(
+  client: SalesforceClient,
+  object: string,
+  fields: Record<string, unknown>
+): Promise<SalesforceWriteResult> {
+  assertValidNames([object, ...Object.keys(fields)]);
+
+  const response = await client.request<SalesforceSaveResponse>(client.dataPath(`/sobjects/${object}`), {
+    method: 'POST',
+    body: JSON.stringify(fields)
+  });
+  assertSaveSucceeded(response);
+
+  logger.debug(LogCategory.NODE, '[SalesforceAPI]', 'Record created', { object, id: response.id });
+
+  return { operation: 'create', object, id: response.id, fields };
+}
+
+/**
+ * Update fields on an existing record
+ * @param client The Salesforce client
+ * @param object The sObject API name
+ * @param id The record ID
+ * @param fields Field values to change
+ * @returns The write result
+ */
+export async function updateRecord(
+  client: SalesforceClient,
+  object: string,
+  id: string,
+  fields: Record<string, unknown>
+): Promise<SalesforceWriteResult> {
+  assertValidNames([object, ...Object.keys(fields)]);
+  assertValidRecordId(id);
+
+  await client.request<void>(client.dataPath(`/sobjects/${object}/${id}`), {
+    method: 'PATCH',
+    body: JSON.stringify(fields)
+  });
+
+  logger.debug(LogCategory.NODE, '[SalesforceAPI]', 'Record updated', { object, id });
+
+  return { operation: 'update', object, id, fields };
+}
+
+/**
+ * Insert or update a record matched by an external ID field
+ * @param client The Salesforce client
+ * @param object The sObject API name
+ * @param externalIdField API name of the external ID field
+ * @param externalId Value to match on
+ * @param fields Field values to write
+ * @returns The write result, flagging whether a record was created
+ */
+export async function upsertRecord(
+  client: SalesforceClient,
+  object: string,
+  externalIdField: string,
+  externalId: string,
+  fields: Record<string, unknown>
+): Promise<SalesforceWriteResult> {
+  assertValidNames([object, externalIdField, ...Object.keys(fields)]);
+
+  // Older API versions answer an update with 204 and no body
+  const response = await client.request<SalesforceSaveResponse | undefined>(
+    client.dataPath(`/sobjects/${object}/${externalIdField}/${encodeURIComponent(externalId)}`),
+    { method: 'PATCH', body: JSON.stringify(fields) }
+  );
+  assertSaveSucceeded(response);
+
+  logger.debug(LogCategory.NODE, '[SalesforceAPI]', 'Record upserted', {
+    object,
+    externalIdField,
+    created: response?.created ?? false
+  });
+
+  return {
+    operation: 'upsert',
+    object,
+    id: response?.id,
+    created: response?.created ?? false,
+    fields,
+    externalIdField,
+    externalId
+  };
+}
+
+/**
+ * Delete a record
+ * @param client The Salesforce client
+ * @param object The sObject API name
+ * @param id The record ID
+ * @returns The write result
+ */
+export async function deleteRecord(
+  client: SalesforceClient,
+  object: string,
+  id: string
+): Promise<SalesforceWriteResult> {
+  assertValidNames([object]);
+  assertValidRecordId(id);
+
+  await client.request<void>(client.dataPath(`/sobjects/${object}/${id}`), { method: 'DELETE' });
+
+  logger.debug(LogCategory.NODE, '[SalesforceAPI]', 'Record deleted', { object, id });
+
+  return { operation: 'delete', object, id };
+}
@@ -0,0 +1,127 @@
+/**
+ * @fileoverview SOSL global search across sObjects
+ */
+
+import { logger, LogCategory } from 'agentdock-core';
+import { SalesforceClient } from './client';
+import { IDENTIFIER_PATTERN } from './query';
+import { DEFAULT_SEARCH_LIMIT_PER_OBJECT } from './constants';
+import { SalesforceSearchParameters } from '../schema';
+import { SalesforceRecord, SalesforceSearchGroup, SalesforceSearchResult } from '../component';
+
+type SearchObject = NonNullable<SalesforceSearchParameters['objects']>[number];
+
+// Objects searched when the caller does not choose any, with the fields users usually want to see
+export const DEFAULT_SEARCH_OBJECTS: SearchObject[] = [
+  { object: 'Account', fields: ['Id', 'Name', 'Industry', 'Phone'] },
+  { object: 'Contact', fields: ['Id', 'Name', 'Email', 'Phone', 'Account.Name'] },
+  { object: 'Opportunity', fields: ['Id', 'Name', 'StageName', 'Amount', 'CloseDate'] },
+  { object: 'Lead', fields: ['Id', 'Name', 'Company', 'Email', 'Status'] },
+  { object: 'Case', fields: ['Id', 'CaseNumber', 'Subject', 'Status'] }
+];
+
+// Fields tried in order for a hit's title
+const TITLE_FIELDS = ['Name', 'Subject', 'Title', 'CaseNumber'];
+
+// Characters with a meaning in SOSL search terms
+const RESERVED_CHARACTERS = /[?&|!{}[\]()^~:\\"'+-]/g;
+
+/**
+ * Escape reserved characters in a SOSL search term. The * wildcard is kept.
+ * @param term The raw search term
+ * @returns The escaped term
+ */
+export function escapeSoslTerm(term: string): string {
+  return term.trim().replace(RESERVED_CHARACTERS, char => `\\${char}`);
+}
+
+/**
+ * Build a SOSL statement from tool parameters
+ * @param params Search parameters
+ * @returns The SOSL statement
+ */
+export function buildSoslQuery(params: SalesforceSearchParameters): string {
+  const objects = params.objects && params.objects.length > 0 ? params.objects : DEFAULT_SEARCH_OBJECTS;
+
+  const returning = objects.map(entry => {
+    const fields = entry.fields && entry.fields.length > 0 ? entry.fields : ['Id', 'Name'];
+    const invalid = [entry.object, ...fields].filter(name => !IDENTIFIER_PATTERN.test(name.trim()));
+    if (invalid.length > 0) {
+      throw new Error(`Invalid sObject or field name: ${invalid.join(', ')}`);
+    }
+
+    // Id is always returned so every hit can link to its record
+    const selected = fields.some(field => field.trim().toLowerCase() === 'id') ? fields : ['Id', ...fields];
+    const clauses = [
+      selected.map(field => field.trim()).join(', '),
+      entry.where ? `WHERE ${entry.where}` : '',
+      `LIMIT ${entry.limit || DEFAULT_SEARCH_LIMIT_PER_OBJECT}`
+    ].filter(Boolean).join(' ');
+
+    return `${entry.object.trim()}(${clauses})`;
+  });
+
+  return `FIND {${escapeSoslTerm(params.term)}} IN ${params.searchIn || 'ALL'} FIELDS RETURNING ${returning.join(', ')}`;
+}
+
+/**
+ * Pick a readable title for a hit
+ */
+function hitTitle(record: SalesforceRecord): string {
+  const field = TITLE_FIELDS.find(name => typeof record[name] === 'string' && record[name]);
+  return field ? String(record[field]) : String(record.Id);
+}
+
+/**
+ * Run a SOSL search and group the hits by object
+ * @param client The Salesforce client
+ * @param params Search parameters
+ * @returns Hits grouped by object, each with a Lightning deep link
+ */
+export async function executeSoslSearch(
+  client: SalesforceClient,
+  params: SalesforceSearchParameters
+): Promise<SalesforceSearchResult> {
+  const sosl = buildSoslQuery(params);
+
+  logger.debug(LogCategory.NODE, '[SalesforceAPI]', 'Running SOSL search', { sosl });
+
+  const response = await client.request<{ searchRecords: SalesforceRecord[] }>(
+    `${client.dataPath('/search')}?q=${encodeURIComponent(sosl)}`
+  );
+  const instanceUrl = await client.resolveInstanceUrl();
+
+  // Keep the order of the RETURNING clause, followed by any object the API added
+  const order = (params.objects && params.objects.length > 0 ? params.objects : DEFAULT_SEARCH_OBJECTS)
+    .map(entry => entry.object.trim().toLowerCase());
+  const groups = new Map<string, SalesforceSearchGroup>();
+
+  for (const record of response.searchRecords || []) {
+    const object = record.attributes?.type || 'Unknown';
+    const fields = Object.fromEntries(Object.entries(record).filter(([key]) => key !== 'attributes'));
+    const id = String(record.Id);
+    const group = groups.get(object) || { object, hits: [] };
+
+    group.hits.push({
+      id,
+      title: hitTitle(record),
+      url: `${instanceUrl}/lightning/r/${object}/${id}/view`,
+      fields
+    });
+    groups.set(object, group);
+  }
+
+  const rank = (object: string) => {
+    const index = order.indexOf(object.toLowerCase());
+    return index < 0 ? order.length : index;
+  };
+  const sorted = [...groups.values()].sort((a, b) => rank(a.object) - rank(b.object));
+
+  return {
+    term: params.term,
+    sosl,
+    searchIn: params.searchIn || 'ALL',
+    total: sorted.reduce((sum, group) => sum + group.hits.length, 0),
+    groups: sorted
+  };
+}
@@ -0,0 +1,75 @@
+/**
+ * @fileoverview Encryption of Salesforce tokens kept in the shared StorageProvider.
+ *
+ * Tokens are encrypted with AES-GCM under a key derived from
+ * SALESFORCE_TOKEN_ENCRYPTION_KEY. Without that variable a random key is made per
+ * process, so stored connections end when the server restarts and are not shared
+ * between instances.
+ */
+
+import { logger, LogCategory } from 'agentdock-core';
+import { SALESFORCE_TOKEN_ENCRYPTION_KEY_ENV } from './constants';
+
+let keyPromise: Promise<CryptoKey> | undefined;
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary);
+}
+
+function fromBase64(value: string): ArrayBuffer {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+function getKey(): Promise<CryptoKey> {
+  if (!keyPromise) {
+    keyPromise = (async () => {
+      const secret = process.env[SALESFORCE_TOKEN_ENCRYPTION_KEY_ENV];
+      let material: ArrayBuffer;
+      if (secret) {
+        material = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(secret));
+      } else {
+        logger.warn(LogCategory.NODE, '[SalesforceAPI]', `${SALESFORCE_TOKEN_ENCRYPTION_KEY_ENV} is not set; Salesforce connections will not survive a restart`);
+        material = crypto.getRandomValues(new Uint8Array(32)).buffer;
+      }
+      return crypto.subtle.importKey('raw', material, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+    })();
+  }
+  return keyPromise;
+}
+
+/**
+ * Encrypt a value for storage
+ * @param value Any JSON-serializable value
+ * @returns The IV and ciphertext, base64 encoded and joined with a dot
+ */
+export async function encryptToken(value: unknown): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const encrypted = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    await getKey(),
+    new TextEncoder().encode(JSON.stringify(value))
+  );
+  return `${toBase64(iv)}.${toBase64(new Uint8Array(encrypted))}`;
+}
+
+/**
+ * Decrypt a value stored with encryptToken
+ * @param stored The stored value
+ * @returns The value, or null when it was encrypted under another key or changed
+ */
+export async function decryptToken<T>(stored: string): Promise<T | null> {
+  const [iv, data] = stored.split('.');
+  try {
+    const decrypted = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv) }, await getKey(), fromBase64(data));
+    return JSON.parse(new TextDecoder().decode(decrypted)) as T;
+  } catch {
+    return null;
+  }
+}
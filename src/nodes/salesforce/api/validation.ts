@@ -0,0 +1,247 @@
+/**
+ * @fileoverview Check SOQL object and field names against cached org metadata
+ */
+
+import { logger, LogCategory } from 'agentdock-core';
+import { SalesforceClient } from './client';
+import { SalesforceMetadataCache, getSalesforceMetadataCache } from './describe';
+import { SalesforceSObjectDescribe } from '../component';
+import { SalesforceApiError } from '../utils/error-helpers';
+
+/**
+ * An unknown object or field name found in a query
+ */
+export interface SoqlValidationIssue {
+  kind: 'object' | 'field' | 'relationship';
+  name: string;
+  /** The object the field or relationship was looked up on */
+  object?: string;
+  /** Closest existing names */
+  suggestions: string[];
+}
+
+/**
+ * Edit distance between two strings
+ */
+function levenshtein(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+
+  return previous[b.length];
+}
+
+// Compare names without case, custom suffixes or underscores
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/__(c|r)$/, '').replace(/_/g, '');
+}
+
+/**
+ * Find the existing names closest to an unknown one
+ * @param name The unknown name
+ * @param candidates Existing names
+ * @param limit Maximum number of suggestions
+ * @returns Suggestions, closest first
+ */
+export function suggestNames(name: string, candidates: string[], limit = 3): string[] {
+  const target = normalizeName(name);
+  const maxDistance = Math.max(2, Math.floor(target.length / 3));
+
+  return candidates
+    .map(candidate => {
+      const normalized = normalizeName(candidate);
+      const contains = Math.min(target.length, normalized.length) >= 3 &&
+        (normalized.includes(target) || target.includes(normalized));
+      const distance = levenshtein(target, normalized);
+      return { candidate, score: contains ? Math.min(distance, 1) : distance };
+    })
+    .filter(entry => entry.score <= maxDistance)
+    .sort((a, b) => a.score - b.score || a.candidate.length - b.candidate.length)
+    .slice(0, limit)
+    .map(entry => entry.candidate);
+}
+
+/**
+ * Split text on commas that are not inside parentheses or string literals
+ */
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let current = '';
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === "'" && text[i - 1] !== '\\') quoted = !quoted;
+    if (!quoted && char === '(') depth++;
+    if (!quoted && char === ')') depth--;
+    if (!quoted && depth === 0 && char === ',') {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return parts.map(part => part.trim()).filter(Boolean);
+}
+
+/**
+ * Extract the queried object and plain field paths from the outer SELECT of a query.
+ * Subqueries, aggregate functions and TYPEOF clauses are skipped.
+ * @param soql The SOQL statement
+ * @returns The object and fields, or null when the statement cannot be parsed
+ */
+export function parseSoqlSelect(soql: string): { object: string; fields: string[] } | null {
+  const select = soql.match(/^\s*SELECT\s+/i);
+  if (!select) return null;
+
+  // Find the FROM keyword of the outer query
+  let depth = 0;
+  let quoted = false;
+  let fromIndex = -1;
+  for (let i = select[0].length; i < soql.length; i++) {
+    const char = soql[i];
+    if (char === "'") quoted = !quoted;
+    if (quoted) continue;
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (depth === 0 && /\sFROM\s/i.test(soql.slice(i, i + 6))) {
+      fromIndex = i;
+      break;
+    }
+  }
+  if (fromIndex < 0) return null;
+
+  const object = soql.slice(fromIndex).match(/^\s*FROM\s+([A-Za-z][A-Za-z0-9_]*)/i)?.[1];
+  if (!object) return null;
+
+  const fields = splitTopLevel(soql.slice(select[0].length, fromIndex))
+    .filter(item => !item.includes('(') && !/^TYPEOF\b/i.test(item))
+    .map(item => item.split(/\s+/)[0])
+    .filter(field => /^[A-Za-z][A-Za-z0-9_]*(\.[A-Za-z][A-Za-z0-9_]*)*$/.test(field));
+
+  return { object, fields };
+}
+
+/**
+ * Resolve a field path such as Account.Owner.Name from an object, reporting the first unknown segment
+ */
+async function checkFieldPath(
+  client: SalesforceClient,
+  cache: SalesforceMetadataCache,
+  describe: SalesforceSObjectDescribe,
+  path: string
+): Promise<SoqlValidationIssue | null> {
+  let segments = path.split('.');
+  // SOQL allows prefixing fields with the queried object's name
+  if (segments.length > 1 && segments[0].toLowerCase() === describe.name.toLowerCase()) {
+    segments = segments.slice(1);
+  }
+
+  let current = describe;
+  for (let i = 0; i < segments.length - 1; i++) {
+    const segment = segments[i].toLowerCase();
+    const lookup = current.fields.find(field => field.relationshipName?.toLowerCase() === segment);
+    if (!lookup) {
+      const relationships = current.fields.flatMap(field => field.relationshipName ? [field.relationshipName] : []);
+      return { kind: 'relationship', name: segments[i], object: current.name, suggestions: suggestNames(segments[i], relationships) };
+    }
+    // Polymorphic lookups (e.g. What, Who) can point to several objects; stop checking there
+    if (lookup.referenceTo.length !== 1) {
+      return null;
+    }
+    current = await cache.describeSObject(client, lookup.referenceTo[0]);
+  }
+
+  const name = segments[segments.length - 1];
+  if (current.fields.some(field => field.name.toLowerCase() === name.toLowerCase())) {
+    return null;
+  }
+  return { kind: 'field', name, object: current.name, suggestions: suggestNames(name, current.fields.map(field => field.name)) };
+}
+
+/**
+ * Check the object and selected fields of a query against the org's metadata.
+ * Metadata lookup failures are logged and treated as "nothing to report" so the
+ * query itself still runs and Salesforce has the final word.
+ * @param client The Salesforce client
+ * @param soql The SOQL statement
+ * @param cache The metadata cache
+ * @returns Unknown names with suggestions; empty when the query looks valid
+ */
+export async function validateSoqlQuery(
+  client: SalesforceClient,
+  soql: string,
+  cache: SalesforceMetadataCache = getSalesforceMetadataCache()
+): Promise<SoqlValidationIssue[]> {
+  const parsed = parseSoqlSelect(soql);
+  if (!parsed) return [];
+
+  try {
+    const sobject = await cache.findSObject(client, parsed.object);
+    if (!sobject) {
+      const names = (await cache.describeGlobal(client)).map(entry => entry.name);
+      return [{ kind: 'object', name: parsed.object, suggestions: suggestNames(parsed.object, names) }];
+    }
+
+    const describe = await cache.describeSObject(client, sobject.name);
+    const issues: SoqlValidationIssue[] = [];
+    for (const field of parsed.fields) {
+      const issue = await checkFieldPath(client, cache, describe, field);
+      if (issue) issues.push(issue);
+    }
+    return issues;
+  } catch (error) {
+    logger.debug(LogCategory.NODE, '[SalesforceAPI]', 'Skipping SOQL validation, metadata unavailable', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return [];
+  }
+}
+
+/**
+ * Turn an INVALID_FIELD error from Salesforce into a validation issue with suggestions.
+ * Covers names the pre-check does not see, such as fields in WHERE clauses.
+ * @param client The Salesforce client
+ * @param error The error thrown by the query
+ * @param cache The metadata cache
+ * @returns The issue, or null when the error is not an INVALID_FIELD error or metadata is unavailable
+ */
+export async function explainInvalidField(
+  client: SalesforceClient,
+  error: unknown,
+  cache: SalesforceMetadataCache = getSalesforceMetadataCache()
+): Promise<SoqlValidationIssue | null> {
+  if (!(error instanceof SalesforceApiError) || error.errorCode !== 'INVALID_FIELD') {
+    return null;
+  }
+
+  const match = error.message.match(/No such column '([^']+)' on entity '([^']+)'/);
+  if (!match) return null;
+
+  try {
+    const describe = await cache.describeSObject(client, match[2]);
+    return {
+      kind: 'field',
+      name: match[1],
+      object: describe.name,
+      suggestions: suggestNames(match[1], describe.fields.map(field => field.name))
+    };
+  } catch {
+    return null;
+  }
+}
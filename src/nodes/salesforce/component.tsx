@@ -0,0 +1,454 @@
+/**
+ * @fileoverview React components and shared interfaces for Salesforce results
+ */
+
+import React from 'react';
+import { Bar, BarChart, CartesianGrid, Cell, Line, LineChart, Pie, PieChart, XAxis, YAxis } from 'recharts';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent
+} from '@/components/ui/chart';
+
+/**
+ * Record attributes attached by the REST API to every sObject record
+ */
+export interface SalesforceRecordAttributes {
+  type: string;
+  url: string;
+}
+
+/**
+ * A single sObject record as returned by the REST API
+ */
+export interface SalesforceRecord {
+  attributes?: SalesforceRecordAttributes;
+  [field: string]: unknown;
+}
+
+/**
+ * Raw response body of the /query and /query/{locator} endpoints
+ */
+export interface SalesforceQueryResponse {
+  totalSize: number;
+  done: boolean;
+  records: SalesforceRecord[];
+  nextRecordsUrl?: string;
+}
+
+/**
+ * Result of running a SOQL query, potentially across several pages
+ */
+export interface SalesforceQueryResult {
+  soql: string;
+  totalSize: number;
+  records: SalesforceRecord[];
+  /** Number of pages fetched from the API */
+  pages: number;
+  /** True when records were left unfetched because the maxRecords cap was reached */
+  truncated: boolean;
+}
+
+/**
+ * A SOSL search hit with a link to the record in Lightning Experience
+ */
+export interface SalesforceSearchHit {
+  id: string;
+  /** Name, subject or number used as the hit's title */
+  title: string;
+  url: string;
+  fields: Record<string, unknown>;
+}
+
+/**
+ * SOSL search hits for one sObject
+ */
+export interface SalesforceSearchGroup {
+  object: string;
+  hits: SalesforceSearchHit[];
+}
+
+/**
+ * Result of a SOSL search, grouped by object in the order of the RETURNING clause
+ */
+export interface SalesforceSearchResult {
+  term: string;
+  sosl: string;
+  /** Field groups searched, e.g. ALL or EMAIL */
+  searchIn: string;
+  total: number;
+  groups: SalesforceSearchGroup[];
+}
+
+/**
+ * Entry for an sObject in the org's global describe
+ */
+export interface SalesforceSObjectSummary {
+  name: string;
+  label: string;
+  custom: boolean;
+  queryable: boolean;
+}
+
+/**
+ * Compact field metadata kept from /sobjects/{name}/describe
+ */
+export interface SalesforceFieldSummary {
+  name: string;
+  label: string;
+  type: string;
+  custom: boolean;
+  /** True when the field must be set on create */
+  required: boolean;
+  updateable: boolean;
+  externalId: boolean;
+  /** Objects a lookup or master-detail field points to */
+  referenceTo: string[];
+  /** Name used in relationship paths, e.g. Account for AccountId */
+  relationshipName?: string;
+  /** Active picklist values */
+  picklistValues: string[];
+}
+
+/**
+ * Compact child relationship metadata, e.g. Account.Contacts
+ */
+export interface SalesforceChildRelationship {
+  relationshipName: string;
+  childSObject: string;
+  field: string;
+}
+
+/**
+ * Compact describe of a single sObject
+ */
+export interface SalesforceSObjectDescribe {
+  name: string;
+  label: string;
+  custom: boolean;
+  fields: SalesforceFieldSummary[];
+  childRelationships: SalesforceChildRelationship[];
+}
+
+/**
+ * Write operations supported by the record tools
+ */
+export type SalesforceWriteOperation = 'create' | 'update' | 'upsert' | 'delete';
+
+/**
+ * Raw response body of the sObject create and upsert endpoints
+ */
+export interface SalesforceSaveResponse {
+  id: string;
+  success: boolean;
+  created?: boolean;
+  errors?: { message: string; statusCode?: string; fields?: string[] }[];
+}
+
+/**
+ * Outcome of a record write
+ */
+export interface SalesforceWriteResult {
+  operation: SalesforceWriteOperation;
+  object: string;
+  /** Record ID, when known (not returned for some upserts on older API versions) */
+  id?: string;
+  /** For upserts, whether a new record was inserted */
+  created?: boolean;
+  fields?: Record<string, unknown>;
+  externalIdField?: string;
+  externalId?: string;
+}
+
+/**
+ * Response of a custom Apex REST endpoint
+ */
+export interface SalesforceApexResponse {
+  method: string;
+  /** Path under /services/apexrest */
+  path: string;
+  status: number;
+  /** Parsed JSON body, or the raw text for other content types */
+  body: unknown;
+}
+
+/**
+ * Outcome of one subrequest of a composite or sObject tree request
+ */
+export interface SalesforceSubrequestResult {
+  referenceId: string;
+  /** Method and URL for composite subrequests; omitted for tree records */
+  method?: string;
+  url?: string;
+  status?: number;
+  success: boolean;
+  /** ID of the record created or referenced, when returned */
+  id?: string;
+  errors: { message: string; errorCode: string; fields?: string[] }[];
+  /** True when the subrequest did not fail itself but was rolled back because another one did */
+  rolledBack?: boolean;
+}
+
+/**
+ * Outcome of a composite or sObject tree request
+ */
+export interface SalesforceCompositeResult {
+  mode: 'composite' | 'tree';
+  allOrNone: boolean;
+  /** Root object of a tree request */
+  object?: string;
+  hasErrors: boolean;
+  results: SalesforceSubrequestResult[];
+}
+
+/**
+ * Bulk API 2.0 job types
+ */
+export type SalesforceBulkJobKind = 'query' | 'ingest';
+
+/**
+ * Operations supported by Bulk API 2.0 ingest jobs
+ */
+export type SalesforceBulkIngestOperation = 'insert' | 'update' | 'upsert' | 'delete';
+
+/**
+ * Bulk API 2.0 job info as returned by /jobs/query/{id} and /jobs/ingest/{id}
+ */
+export interface SalesforceBulkJob {
+  id: string;
+  object?: string;
+  operation: string;
+  /** Open, UploadComplete, InProgress, JobComplete, Failed or Aborted */
+  state: string;
+  numberRecordsProcessed?: number;
+  numberRecordsFailed?: number;
+  errorMessage?: string;
+  createdDate?: string;
+}
+
+/**
+ * A page of Bulk API 2.0 query results
+ */
+export interface SalesforceBulkResultPage {
+  csv: string;
+  /** Number of records in this page */
+  records: number;
+}
+
+/**
+ * A cell or aggregate in an Analytics API report result
+ */
+export interface SalesforceReportCell {
+  label: string;
+  value: unknown;
+}
+
+/**
+ * A grouping in the groupingsDown or groupingsAcross tree of a report result
+ */
+export interface SalesforceReportGrouping {
+  key: string;
+  label: string;
+  value: unknown;
+  groupings?: SalesforceReportGrouping[];
+}
+
+/**
+ * Raw response body of the Analytics API report run endpoints
+ */
+export interface SalesforceReportResponse {
+  attributes?: { reportId?: string; reportName?: string };
+  allData?: boolean;
+  reportMetadata: {
+    id?: string;
+    name: string;
+    reportFormat: 'TABULAR' | 'SUMMARY' | 'MATRIX' | 'MULTI_BLOCK';
+    detailColumns?: string[];
+    aggregates?: string[];
+    groupingsDown?: { name: string }[];
+    groupingsAcross?: { name: string }[];
+    chart?: { chartType?: string } | null;
+  };
+  reportExtendedMetadata?: {
+    detailColumnInfo?: Record<string, { label: string; dataType?: string }>;
+    aggregateColumnInfo?: Record<string, { label: string; dataType?: string }>;
+    groupingColumnInfo?: Record<string, { label: string; dataType?: string }>;
+  };
+  groupingsDown?: { groupings?: SalesforceReportGrouping[] };
+  groupingsAcross?: { groupings?: SalesforceReportGrouping[] };
+  factMap: Record<string, {
+    aggregates?: SalesforceReportCell[];
+    rows?: { dataCells: SalesforceReportCell[] }[];
+  }>;
+}
+
+/**
+ * A report or dashboard in the list returned by the Analytics API
+ */
+export interface SalesforceAnalyticsSummary {
+  id: string;
+  name: string;
+  type: 'report' | 'dashboard';
+}
+
+/**
+ * A column of a report result converted to rows
+ */
+export interface SalesforceReportColumn {
+  key: string;
+  label: string;
+  /** Grouping label, aggregate value or detail field */
+  kind: 'grouping' | 'aggregate' | 'detail';
+}
+
+/**
+ * A report result with its fact map converted to rows
+ */
+export interface SalesforceReportTable {
+  id?: string;
+  name: string;
+  format: SalesforceReportResponse['reportMetadata']['reportFormat'];
+  columns: SalesforceReportColumn[];
+  rows: Record<string, string | number | null>[];
+  /** Grand totals of the report's aggregates */
+  totals: SalesforceReportCell[];
+  /** False when Salesforce returned only the first 2000 detail rows */
+  allData: boolean;
+}
+
+/**
+ * Chart types rendered for report results
+ */
+export type SalesforceChartType = 'bar' | 'line' | 'pie';
+
+/**
+ * Chart definition sent with report results and rendered in the chat
+ */
+export interface SalesforceReportChartSpec {
+  type: SalesforceChartType;
+  title: string;
+  /** Row key holding the category labels */
+  categoryKey: string;
+  series: { key: string; label: string }[];
+  data: Record<string, string | number | null>[];
+}
+
+/**
+ * A dashboard component with its source report's data
+ */
+export interface SalesforceDashboardComponent {
+  id: string;
+  title: string;
+  report?: SalesforceReportTable;
+  chart?: SalesforceReportChartSpec;
+  /** Set when Salesforce could not provide the component's data */
+  status?: string;
+}
+
+/**
+ * Component for displaying Salesforce query results as a table
+ */
+export const SalesforceQueryResultComponent: React.FC<{
+  result: SalesforceQueryResult;
+  columns: string[];
+  rows: string[][];
+}> = ({ result, columns, rows }) => {
+  return (
+    <div className="salesforce-query-result">
+      <h3>Salesforce Query Results</h3>
+      <p>
+        <code>{result.soql}</code>
+      </p>
+      <p>
+        Returned {result.records.length} of {result.totalSize} records
+        {result.truncated && ' (truncated)'}
+      </p>
+
+      {rows.length > 0 && (
+        <table>
+          <thead>
+            <tr>
+              {columns.map(column => (
+                <th key={column}>{column}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row, rowIndex) => (
+              <tr key={rowIndex}>
+                {row.map((cell, cellIndex) => (
+                  <td key={`${rowIndex}-${cellIndex}`}>{cell}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+// Series colors, cycled when a chart has more series or slices than colors
+const CHART_COLORS = [
+  'hsl(221 83% 53%)',
+  'hsl(160 84% 39%)',
+  'hsl(38 92% 50%)',
+  'hsl(0 72% 51%)',
+  'hsl(262 83% 58%)',
+  'hsl(199 89% 48%)'
+];
+
+/**
+ * Component for displaying a Salesforce report result as a bar, line or pie chart
+ */
+export const SalesforceReportChart: React.FC<{
+  chart: SalesforceReportChartSpec;
+}> = ({ chart }) => {
+  const config: ChartConfig = Object.fromEntries(
+    chart.series.map((series, index) => [series.key, { label: series.label, color: CHART_COLORS[index % CHART_COLORS.length] }])
+  );
+  const [first] = chart.series;
+
+  return (
+    <figure className="salesforce-report-chart">
+      <figcaption className="mb-2 font-medium">{chart.title}</figcaption>
+      <ChartContainer config={config} className="min-h-[220px] w-full">
+        {chart.type === 'pie' ? (
+          <PieChart>
+            <ChartTooltip content={<ChartTooltipContent nameKey={chart.categoryKey} />} />
+            <Pie data={chart.data} dataKey={first.key} nameKey={chart.categoryKey}>
+              {chart.data.map((_, index) => (
+                <Cell key={index} fill={CHART_COLORS[index % CHART_COLORS.length]} />
+              ))}
+            </Pie>
+          </PieChart>
+        ) : chart.type === 'line' ? (
+          <LineChart data={chart.data}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey={chart.categoryKey} tickLine={false} axisLine={false} />
+            <YAxis tickLine={false} axisLine={false} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            {chart.series.length > 1 && <ChartLegend content={<ChartLegendContent />} />}
+            {chart.series.map(series => (
+              <Line key={series.key} dataKey={series.key} stroke={`var(--color-${series.key})`} dot={false} />
+            ))}
+          </LineChart>
+        ) : (
+          <BarChart data={chart.data}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey={chart.categoryKey} tickLine={false} axisLine={false} />
+            <YAxis tickLine={false} axisLine={false} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            {chart.series.length > 1 && <ChartLegend content={<ChartLegendContent />} />}
+            {chart.series.map(series => (
+              <Bar key={series.key} dataKey={series.key} fill={`var(--color-${series.key})`} radius={4} />
+            ))}
+          </BarChart>
+        )}
+      </ChartContainer>
+    </figure>
+  );
+};
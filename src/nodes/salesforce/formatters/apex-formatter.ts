@@ -0,0 +1,56 @@
+/**
+ * @fileoverview Formatters for custom Apex REST calls
+ */
+
+import { SalesforceApexResponse } from '../component';
+
+// Keeps large endpoint responses from flooding the conversation
+const MAX_BODY_LENGTH = 8000;
+
+/**
+ * Format a request or response body as a code block
+ * @param body The body
+ * @returns Markdown code block, or an empty string when there is no body
+ */
+function formatBody(body: unknown): string {
+  if (body === undefined || body === null || body === '') {
+    return '';
+  }
+
+  const isText = typeof body === 'string';
+  const text = isText ? body : JSON.stringify(body, null, 2);
+  const truncated = text.length > MAX_BODY_LENGTH
+    ? `${text.slice(0, MAX_BODY_LENGTH)}\n... [truncated ${text.length - MAX_BODY_LENGTH} characters]`
+    : text;
+
+  return `\`\`\`${isText ? '' : 'json'}\n${truncated}\n\`\`\``;
+}
+
+/**
+ * Format the approval prompt shown before an Apex call that may change data
+ * @param method The HTTP method
+ * @param path The path under /services/apexrest
+ * @param body The request body
+ * @returns Markdown summary of the pending call
+ */
+export function formatApexApprovalAsMarkdown(method: string, path: string, body?: unknown): string {
+  return [
+    `## Approval Required: ${method} ${path}`,
+    'This calls a custom Apex REST endpoint, which may change data in Salesforce.',
+    formatBody(body),
+    '_Waiting for the user to approve or reject this call. Nothing has been sent yet._'
+  ].filter(Boolean).join('\n\n');
+}
+
+/**
+ * Format the response of an Apex REST call
+ * @param response The endpoint's response
+ * @returns Markdown formatted response
+ */
+export function formatApexResponseAsMarkdown(response: SalesforceApexResponse): string {
+  return [
+    `# Apex REST ${response.method} ${response.path}`,
+    `**Status:** ${response.status}`,
+    formatBody(response.body) || '_The endpoint returned no content._'
+  ].join('\n\n');
+}
@@ -0,0 +1,86 @@
+/**
+ * @fileoverview Formatters for Bulk API 2.0 jobs
+ */
+
+import { SalesforceBulkJob, SalesforceBulkJobKind } from '../component';
+import { isBulkJobFinished } from '../api/bulk';
+import { BULK_PREVIEW_ROWS } from '../api/constants';
+import { formatRecordsAsTable } from './query-formatter';
+
+/**
+ * Format a bulk job's status, counts and either a results preview or a "check back later" note
+ * @param job The job as last seen
+ * @param kind Query or ingest
+ * @param details Preview rows, failed rows and download link when available
+ * @returns Markdown summary of the job
+ */
+export function formatBulkJobAsMarkdown(
+  job: SalesforceBulkJob,
+  kind: SalesforceBulkJobKind,
+  details: {
+    preview?: Record<string, string>[];
+    failures?: Record<string, string>[];
+    downloadUrl?: string;
+  } = {}
+): string {
+  const title = kind === 'query' ? 'Salesforce Bulk Export' : `Salesforce Bulk ${job.operation}`;
+  const counts = [
+    job.numberRecordsProcessed !== undefined ? `${job.numberRecordsProcessed} records processed` : '',
+    job.numberRecordsFailed ? `${job.numberRecordsFailed} failed` : ''
+  ].filter(Boolean).join(', ');
+
+  const sections = [
+    `# ${title}${job.object ? ` of ${job.object}` : ''}`,
+    `Job \`${job.id}\` is **${job.state}**${counts ? ` (${counts})` : ''}.`
+  ];
+
+  if (job.errorMessage) {
+    sections.push(`**Error:** ${job.errorMessage}`);
+  }
+
+  if (!isBulkJobFinished(job)) {
+    sections.push('_The job is still running. Ask again later and I will check its status with this job ID._');
+    return sections.join('\n\n');
+  }
+
+  if (details.preview && details.preview.length > 0) {
+    const total = job.numberRecordsProcessed ?? details.preview.length;
+    sections.push(
+      `Showing the first ${details.preview.length} of ${total} records.`,
+      formatRecordsAsTable(details.preview, details.preview.length)
+    );
+  }
+
+  if (details.downloadUrl) {
+    sections.push(`[Download all results as CSV](${details.downloadUrl})`);
+  }
+
+  if (details.failures && details.failures.length > 0) {
+    sections.push(
+      `## Failed Rows (${details.failures.length})`,
+      formatRecordsAsTable(details.failures, BULK_PREVIEW_ROWS)
+    );
+  }
+
+  return sections.join('\n\n');
+}
+
+/**
+ * Format the approval prompt shown before an ingest job is created
+ * @param operation The ingest operation
+ * @param object The sObject API name
+ * @param records The parsed rows that will be uploaded
+ * @returns Markdown summary of the pending load
+ */
+export function formatBulkIngestApprovalAsMarkdown(
+  operation: string,
+  object: string,
+  records: Record<string, string>[]
+): string {
+  return [
+    `## Approval Required: Bulk ${operation} of ${records.length} ${object} records`,
+    `Showing the first ${Math.min(records.length, BULK_PREVIEW_ROWS)} rows.`,
+    formatRecordsAsTable(records, BULK_PREVIEW_ROWS),
+    '_Waiting for the user to approve or reject this load. Nothing has been written yet._'
+  ].filter(Boolean).join('\n\n');
+}
@@ -0,0 +1,103 @@
+/**
+ * @fileoverview Formatters for composite and sObject tree requests
+ */
+
+import { SalesforceCompositeResult, SalesforceSubrequestResult } from '../component';
+import { SalesforceCompositeParameters } from '../schema';
+import { getWriteErrorHint } from '../utils/error-helpers';
+import { formatCell } from './query-formatter';
+
+/**
+ * Short status label for a subrequest
+ */
+function statusLabel(result: SalesforceSubrequestResult): string {
+  if (result.rolledBack) return result.success ? 'Rolled back' : 'Not run';
+  return result.success ? 'Succeeded' : 'Failed';
+}
+
+/**
+ * Format the approval prompt shown before a composite or tree request runs
+ * @param params The tool parameters
+ * @returns Markdown summary of the pending subrequests or records
+ */
+export function formatCompositeApprovalAsMarkdown(params: SalesforceCompositeParameters): string {
+  if (params.mode === 'tree') {
+    const records = params.records || [];
+    return [
+      `## Approval Required: Create ${records.length} ${params.object} record tree${records.length === 1 ? '' : 's'}`,
+      'The following records and their child records will be created in one request.',
+      `\`\`\`json\n${JSON.stringify(records, null, 2)}\n\`\`\``,
+      '_Waiting for the user to approve or reject this change. Nothing has been written yet._'
+    ].join('\n\n');
+  }
+
+  const subrequests = params.subrequests || [];
+  return [
+    `## Approval Required: ${subrequests.length} Salesforce subrequest${subrequests.length === 1 ? '' : 's'}`,
+    params.allOrNone !== false
+      ? 'These run in order; if one fails, all of them are rolled back.'
+      : 'These run in order; each one is kept even if a later one fails.',
+    [
+      '| Reference | Method | URL | Body |',
+      '| --- | --- | --- | --- |',
+      ...subrequests.map(subrequest =>
+        `| ${subrequest.referenceId} | ${subrequest.method} | ${subrequest.url} | ${subrequest.body ? formatCell(subrequest.body) : ''} |`)
+    ].join('\n'),
+    '_Waiting for the user to approve or reject this change. Nothing has been written yet._'
+  ].join('\n\n');
+}
+
+/**
+ * Format per-subrequest results, listing each failure with its error code, fields and a next step
+ * @param result The composite or tree result
+ * @returns Markdown summary of the request
+ */
+export function formatCompositeResultAsMarkdown(result: SalesforceCompositeResult): string {
+  const succeeded = result.results.filter(entry => entry.success && !entry.rolledBack).length;
+  const failed = result.results.filter(entry => !entry.success && !entry.rolledBack).length;
+  const title = result.mode === 'tree' ? `# Salesforce Record Tree: ${result.object}` : '# Salesforce Composite Request';
+
+  const summary = [
+    `${succeeded} of ${result.results.length} ${result.mode === 'tree' ? 'records' : 'subrequests'} succeeded`,
+    failed > 0 ? `${failed} failed` : ''
+  ].filter(Boolean).join(', ');
+
+  const table = result.mode === 'tree'
+    ? [
+      '| Reference | Status | ID |',
+      '| --- | --- | --- |',
+      ...result.results.map(entry => `| ${entry.referenceId} | ${statusLabel(entry)} | ${entry.id || ''} |`)
+    ]
+    : [
+      '| Reference | Request | Status | ID |',
+      '| --- | --- | --- | --- |',
+      ...result.results.map(entry =>
+        `| ${entry.referenceId} | ${entry.method} ${entry.url} | ${statusLabel(entry)} (${entry.status}) | ${entry.id || ''} |`)
+    ];
+
+  const failures = result.results
+    .filter(entry => !entry.success && !entry.rolledBack)
+    .map(entry => {
+      const lines = entry.errors.map(error => {
+        const hint = getWriteErrorHint(error.errorCode);
+        return [
+          `- **${error.errorCode}:** ${error.message}`,
+          error.fields && error.fields.length > 0 ? ` (fields: ${error.fields.join(', ')})` : '',
+          hint ? `\n  **Next step:** ${hint}` : ''
+        ].join('');
+      });
+      return [`### ${entry.referenceId}`, ...(lines.length > 0 ? lines : ['- The request failed without an error message.'])].join('\n');
+    });
+
+  const rolledBack = result.hasErrors && result.allOrNone
+    ? '**Nothing was saved:** the whole request was rolled back because of the failures above. Fix them and send every subrequest again.'
+    : '';
+
+  return [
+    title,
+    `${summary}.`,
+    table.join('\n'),
+    failures.length > 0 ? `## Failures\n\n${failures.join('\n\n')}` : '',
+    rolledBack
+  ].filter(Boolean).join('\n\n');
+}
@@ -0,0 +1,126 @@
+/**
+ * @fileoverview Formatters for Salesforce org metadata and SOQL validation issues
+ */
+
+import { SalesforceFieldSummary, SalesforceSObjectDescribe, SalesforceSObjectSummary } from '../component';
+import { SoqlValidationIssue } from '../api/validation';
+import { MAX_CHILD_RELATIONSHIPS, MAX_DESCRIBE_OBJECTS, MAX_PICKLIST_VALUES } from '../api/constants';
+import { formatCell } from './query-formatter';
+
+/**
+ * Case-insensitive match on a name or label
+ */
+function matchesSearch(search: string | undefined, ...values: string[]): boolean {
+  if (!search) return true;
+  const needle = search.toLowerCase();
+  return values.some(value => value.toLowerCase().includes(needle));
+}
+
+/**
+ * Summarize the extra details of a field: requiredness, lookups and picklist values
+ * @param field The field
+ * @returns Short description for the details column
+ */
+function describeFieldDetails(field: SalesforceFieldSummary): string {
+  const details: string[] = [];
+
+  if (field.required) details.push('required');
+  if (field.externalId) details.push('external ID');
+  if (!field.updateable) details.push('read-only');
+  if (field.referenceTo.length > 0) {
+    const relationship = field.relationshipName ? ` via ${field.relationshipName}` : '';
+    details.push(`→ ${field.referenceTo.join(', ')}${relationship}`);
+  }
+  if (field.picklistValues.length > 0) {
+    const shown = field.picklistValues.slice(0, MAX_PICKLIST_VALUES).join(', ');
+    const more = field.picklistValues.length - MAX_PICKLIST_VALUES;
+    details.push(`values: ${shown}${more > 0 ? ` (+${more} more)` : ''}`);
+  }
+
+  return details.join('; ');
+}
+
+/**
+ * Format the describe of a single sObject as a compact markdown summary
+ * @param describe The sObject describe
+ * @param search Optional filter on field names and labels
+ * @returns Markdown summary
+ */
+export function formatSObjectDescribeAsMarkdown(describe: SalesforceSObjectDescribe, search?: string): string {
+  const fields = describe.fields.filter(field => matchesSearch(search, field.name, field.label));
+  const relationships = describe.childRelationships.filter(relationship =>
+    matchesSearch(search, relationship.relationshipName, relationship.childSObject)
+  );
+
+  const sections = [
+    `# ${describe.label} (\`${describe.name}\`)`,
+    `${fields.length} of ${describe.fields.length} fields${search ? ` matching "${search}"` : ''}. Use the API names below in SOQL queries and record writes.`
+  ];
+
+  if (fields.length > 0) {
+    sections.push([
+      '| Field | Label | Type | Details |',
+      '| --- | --- | --- | --- |',
+      ...fields.map(field =>
+        `| ${field.name} | ${formatCell(field.label)} | ${field.type} | ${formatCell(describeFieldDetails(field))} |`
+      )
+    ].join('\n'));
+  }
+
+  if (relationships.length > 0) {
+    const shown = relationships.slice(0, MAX_CHILD_RELATIONSHIPS);
+    const more = relationships.length - shown.length;
+    sections.push([
+      '## Child Relationships',
+      ...shown.map(relationship => `- ${relationship.relationshipName} (${relationship.childSObject}.${relationship.field})`),
+      ...(more > 0 ? [`- ...and ${more} more`] : [])
+    ].join('\n'));
+  }
+
+  return sections.join('\n\n');
+}
+
+/**
+ * Format the list of sObjects in the org
+ * @param sobjects The global describe
+ * @param search Optional filter on object names and labels
+ * @returns Markdown table of queryable objects
+ */
+export function formatGlobalDescribeAsMarkdown(sobjects: SalesforceSObjectSummary[], search?: string): string {
+  const matches = sobjects.filter(sobject => sobject.queryable && matchesSearch(search, sobject.name, sobject.label));
+  const shown = matches.slice(0, MAX_DESCRIBE_OBJECTS);
+
+  const sections = [
+    '# Salesforce Objects',
+    `${matches.length} queryable objects${search ? ` matching "${search}"` : ''}.`
+  ];
+
+  if (shown.length > 0) {
+    sections.push([
+      '| Object | Label | Custom |',
+      '| --- | --- | --- |',
+      ...shown.map(sobject => `| ${sobject.name} | ${formatCell(sobject.label)} | ${sobject.custom ? 'yes' : ''} |`)
+    ].join('\n'));
+  }
+
+  if (matches.length > shown.length) {
+    sections.push(`_Showing the first ${shown.length}. Pass a search term to narrow the list._`);
+  }
+
+  return sections.join('\n\n');
+}
+
+/**
+ * Describe a validation issue in one sentence with "did you mean" suggestions
+ * @param issue The issue
+ * @returns The message
+ */
+export function formatValidationIssue(issue: SoqlValidationIssue): string {
+  const location = issue.object ? ` on ${issue.object}` : '';
+  const kind = issue.kind === 'object' ? 'object' : issue.kind === 'relationship' ? 'relationship' : 'field';
+  const suggestion = issue.suggestions.length > 0
+    ? ` Did you mean ${issue.suggestions.map(name => `\`${name}\``).join(', ')}?`
+    : '';
+
+  return `Unknown ${kind} \`${issue.name}\`${location}.${suggestion}`;
+}
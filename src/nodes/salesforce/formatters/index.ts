@@ -0,0 +1,12 @@
+/**
+ * @fileoverview Exports all formatters for Salesforce
+ */
+
+export * from './query-formatter';
+export * from './record-formatter';
+export * from './describe-formatter';
+export * from './bulk-formatter';
+export * from './report-formatter';
+export * from './search-formatter';
+export * from './apex-formatter';
+export * from './composite-formatter';
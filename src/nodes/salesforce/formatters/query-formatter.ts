@@ -0,0 +1,118 @@
+/**
+ * @fileoverview Formatter for Salesforce SOQL query results
+ */
+
+import { SalesforceQueryResult, SalesforceRecord } from '../component';
+import { MAX_TABLE_ROWS } from '../api/constants';
+
+/**
+ * Flatten a record into dotted column names, dropping the REST attributes block.
+ * Parent relationships become `Account.Name`; child subqueries become a record count.
+ * @param record The record to flatten
+ * @param prefix Column prefix for nested relationships
+ * @returns Flat map of column name to value
+ */
+export function flattenRecord(record: SalesforceRecord, prefix = ''): Record<string, unknown> {
+  const flat: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(record)) {
+    if (key === 'attributes') continue;
+    const column = prefix ? `${prefix}.${key}` : key;
+
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      const nested = value as Record<string, unknown>;
+      if (Array.isArray(nested.records)) {
+        flat[column] = `${nested.records.length} records`;
+      } else {
+        Object.assign(flat, flattenRecord(nested as SalesforceRecord, column));
+      }
+    } else {
+      flat[column] = value;
+    }
+  }
+
+  return flat;
+}
+
+/**
+ * Convert a value to a markdown-table-safe cell
+ * @param value The cell value
+ * @returns Escaped cell text
+ */
+export function formatCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+/**
+ * Build table columns and rows from a list of records
+ * @param records The records to tabulate
+ * @returns Column names in first-seen order and the stringified rows
+ */
+export function tabulateRecords(records: SalesforceRecord[]): { columns: string[]; rows: string[][] } {
+  const flatRecords = records.map(record => flattenRecord(record));
+  const columns: string[] = [];
+
+  for (const flat of flatRecords) {
+    for (const key of Object.keys(flat)) {
+      if (!columns.includes(key)) columns.push(key);
+    }
+  }
+
+  const rows = flatRecords.map(flat => columns.map(column => formatCell(flat[column])));
+  return { columns, rows };
+}
+
+/**
+ * Format records as a markdown table
+ * @param records The records to render
+ * @param maxRows Maximum number of rows to render
+ * @returns Markdown table, or an empty string when there are no records
+ */
+export function formatRecordsAsTable(records: SalesforceRecord[], maxRows: number = MAX_TABLE_ROWS): string {
+  if (records.length === 0) return '';
+
+  const { columns, rows } = tabulateRecords(records.slice(0, maxRows));
+  if (columns.length === 0) return '';
+
+  return [
+    `| ${columns.join(' | ')} |`,
+    `| ${columns.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${row.join(' | ')} |`)
+  ].join('\n');
+}
+
+/**
+ * Format query results as Markdown
+ * @param result The query result
+ * @returns Markdown formatted query results
+ */
+export function formatQueryResultsAsMarkdown(result: SalesforceQueryResult): string {
+  const header = `# Salesforce Query Results`;
+  const query = `\`${result.soql}\``;
+
+  const shown = Math.min(result.records.length, MAX_TABLE_ROWS);
+  const resultCount = [
+    `Found ${result.totalSize} records`,
+    result.records.length < result.totalSize ? `, fetched ${result.records.length}` : '',
+    shown < result.records.length ? `, showing first ${shown}` : ''
+  ].join('');
+
+  const truncation = result.truncated
+    ? `**Note:** Results were capped at ${result.records.length} records. Narrow the query or raise maxRecords to fetch more.`
+    : '';
+
+  // No results
+  if (result.records.length === 0) {
+    return [header, query, 'No records matched the query.'].join('\n\n');
+  }
+
+  return [
+    header,
+    query,
+    resultCount,
+    truncation,
+    formatRecordsAsTable(result.records)
+  ].filter(Boolean).join('\n\n');
+}
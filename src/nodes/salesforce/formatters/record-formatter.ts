@@ -0,0 +1,113 @@
+/**
+ * @fileoverview Formatters for Salesforce record writes and their approval requests
+ */
+
+import { SalesforceWriteOperation, SalesforceWriteResult } from '../component';
+import { SalesforceToolError } from '../utils/error-helpers';
+import { formatCell } from './query-formatter';
+
+const OPERATION_LABELS: Record<SalesforceWriteOperation, string> = {
+  create: 'Create',
+  update: 'Update',
+  upsert: 'Upsert',
+  delete: 'Delete'
+};
+
+/**
+ * Format field values as a two-column markdown table
+ * @param fields Field values keyed by API name
+ * @returns Markdown table, or an empty string when there are no fields
+ */
+export function formatFieldsAsTable(fields: Record<string, unknown> = {}): string {
+  const entries = Object.entries(fields);
+  if (entries.length === 0) {
+    return '';
+  }
+
+  return [
+    '| Field | Value |',
+    '| --- | --- |',
+    ...entries.map(([field, value]) => `| ${field} | ${formatCell(value)} |`)
+  ].join('\n');
+}
+
+/**
+ * Describe the record a write targets, e.g. "Account 001xx" or "Account where External_Id__c = A-1"
+ * @param target The write target
+ * @returns Short description of the record
+ */
+function describeTarget(target: Pick<SalesforceWriteResult, 'object' | 'id' | 'externalIdField' | 'externalId'>): string {
+  if (target.externalIdField) {
+    return `${target.object} where ${target.externalIdField} = ${target.externalId}`;
+  }
+  return target.id ? `${target.object} \`${target.id}\`` : target.object;
+}
+
+/**
+ * Format the approval prompt shown before a write runs
+ * @param operation The pending operation
+ * @param target The record the operation targets, with the fields it will write
+ * @returns Markdown summary of the pending write
+ */
+export function formatApprovalRequestAsMarkdown(
+  operation: SalesforceWriteOperation,
+  target: Pick<SalesforceWriteResult, 'object' | 'id' | 'fields' | 'externalIdField' | 'externalId'>
+): string {
+  const table = formatFieldsAsTable(target.fields);
+
+  return [
+    `## Approval Required: ${OPERATION_LABELS[operation]} ${describeTarget(target)}`,
+    operation === 'delete'
+      ? 'This will move the record to the Salesforce recycle bin.'
+      : 'The following field values will be written to Salesforce.',
+    table,
+    '_Waiting for the user to approve or reject this change. Nothing has been written yet._'
+  ].filter(Boolean).join('\n\n');
+}
+
+/**
+ * Format a completed write
+ * @param result The write result
+ * @returns Markdown summary of the change
+ */
+export function formatWriteResultAsMarkdown(result: SalesforceWriteResult): string {
+  let heading: string;
+  switch (result.operation) {
+    case 'create':
+      heading = `Created ${result.object} \`${result.id}\``;
+      break;
+    case 'update':
+      heading = `Updated ${describeTarget(result)}`;
+      break;
+    case 'upsert':
+      heading = `${result.created ? 'Inserted' : 'Updated'} ${describeTarget(result)}`;
+      break;
+    case 'delete':
+      heading = `Deleted ${describeTarget(result)}`;
+      break;
+  }
+
+  return [`# Salesforce Record ${OPERATION_LABELS[result.operation]}`, heading, formatFieldsAsTable(result.fields)]
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+/**
+ * Format a failed write so the model can see which fields to fix
+ * @param operation The attempted operation
+ * @param object The sObject API name
+ * @param error The structured error
+ * @returns Markdown error message
+ */
+export function formatWriteErrorAsMarkdown(
+  operation: SalesforceWriteOperation,
+  object: string,
+  error: SalesforceToolError
+): string {
+  return [
+    `## Salesforce ${OPERATION_LABELS[operation]} Error`,
+    `Unable to ${operation} ${object || 'record'}: ${error.message}`,
+    error.fields && error.fields.length > 0 ? `**Fields:** ${error.fields.join(', ')}` : '',
+    error.hint ? `**Next step:** ${error.hint}` : ''
+  ].filter(Boolean).join('\n\n');
+}
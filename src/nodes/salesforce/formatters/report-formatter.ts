@@ -0,0 +1,117 @@
+/**
+ * @fileoverview Formatters for Analytics API reports and dashboards
+ */
+
+import {
+  SalesforceAnalyticsSummary,
+  SalesforceDashboardComponent,
+  SalesforceReportTable
+} from '../component';
+import { SalesforceReportFilter } from '../api/analytics';
+import { MAX_ANALYTICS_LIST_ITEMS, MAX_TABLE_ROWS } from '../api/constants';
+import { formatCell } from './query-formatter';
+
+/**
+ * Format report rows as a markdown table using the column labels
+ * @param table The report converted to rows
+ * @returns Markdown table, or an empty string when there are no rows
+ */
+export function formatReportTableAsMarkdown(table: SalesforceReportTable): string {
+  if (table.rows.length === 0 || table.columns.length === 0) {
+    return '';
+  }
+
+  return [
+    `| ${table.columns.map(column => formatCell(column.label)).join(' | ')} |`,
+    `| ${table.columns.map(() => '---').join(' | ')} |`,
+    ...table.rows.slice(0, MAX_TABLE_ROWS).map(row =>
+      `| ${table.columns.map(column => formatCell(row[column.key])).join(' | ')} |`
+    )
+  ].join('\n');
+}
+
+/**
+ * Format a report result with its filters, rows and grand totals
+ * @param table The report converted to rows
+ * @param filters Runtime filters applied to the run
+ * @returns Markdown summary of the report
+ */
+export function formatReportAsMarkdown(table: SalesforceReportTable, filters: SalesforceReportFilter[] = []): string {
+  const sections = [
+    `# ${table.name}`,
+    `${table.format.toLowerCase()} report${table.id ? ` \`${table.id}\`` : ''}, ${table.rows.length} rows.`
+  ];
+
+  if (filters.length > 0) {
+    sections.push(`**Filters:** ${filters.map(filter => `${filter.column} ${filter.operator} "${filter.value}"`).join('; ')}`);
+  }
+
+  const rows = formatReportTableAsMarkdown(table);
+  if (rows) sections.push(rows);
+
+  if (table.rows.length > MAX_TABLE_ROWS) {
+    sections.push(`_Showing the first ${MAX_TABLE_ROWS} rows._`);
+  }
+
+  if (table.totals.length > 0) {
+    sections.push(`**Grand total:** ${table.totals.map(total => total.label).join(', ')}`);
+  }
+
+  if (!table.allData) {
+    sections.push('_Salesforce returned only the first 2,000 detail rows of this report._');
+  }
+
+  return sections.join('\n\n');
+}
+
+/**
+ * Format a list of reports or dashboards
+ * @param items The reports or dashboards
+ * @param type Reports or dashboards
+ * @param search Optional filter on names
+ * @returns Markdown table of IDs and names
+ */
+export function formatAnalyticsListAsMarkdown(
+  items: SalesforceAnalyticsSummary[],
+  type: SalesforceAnalyticsSummary['type'],
+  search?: string
+): string {
+  const noun = type === 'report' ? 'reports' : 'dashboards';
+  const shown = items.slice(0, MAX_ANALYTICS_LIST_ITEMS);
+  const sections = [
+    `# Salesforce ${type === 'report' ? 'Reports' : 'Dashboards'}`,
+    `${items.length} recently viewed ${noun}${search ? ` matching "${search}"` : ''}.`
+  ];
+
+  if (shown.length > 0) {
+    sections.push([
+      '| ID | Name |',
+      '| --- | --- |',
+      ...shown.map(item => `| ${item.id} | ${formatCell(item.name)} |`)
+    ].join('\n'));
+  }
+
+  return sections.join('\n\n');
+}
+
+/**
+ * Format the components of a dashboard, each with its source report's rows
+ * @param name The dashboard name
+ * @param components The dashboard components
+ * @returns Markdown summary of the dashboard
+ */
+export function formatDashboardAsMarkdown(name: string, components: SalesforceDashboardComponent[]): string {
+  const sections = [`# ${name}`, `${components.length} components.`];
+
+  for (const component of components) {
+    sections.push(`## ${component.title}`);
+    if (component.report) {
+      const rows = formatReportTableAsMarkdown(component.report);
+      sections.push(rows || '_No rows._');
+    } else {
+      sections.push(`_No data available (${component.status})._`);
+    }
+  }
+
+  return sections.join('\n\n');
+}
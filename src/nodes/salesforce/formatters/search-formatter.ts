@@ -0,0 +1,76 @@
+/**
+ * @fileoverview Formatter for Salesforce SOSL search results
+ */
+
+import { SalesforceSearchHit, SalesforceSearchResult } from '../component';
+import { flattenRecord } from './query-formatter';
+
+// Fields already shown as the hit's title or link
+const HIDDEN_FIELDS = ['Id', 'Name'];
+
+/**
+ * Format a hit's summary for inclusion in search results
+ * @param hit The hit to format
+ * @returns Markdown formatted hit summary
+ */
+function formatHitSummary(hit: SalesforceSearchHit): string {
+  const title = `### ${hit.title}`;
+
+  const details = Object.entries(flattenRecord(hit.fields))
+    .filter(([field, value]) => !HIDDEN_FIELDS.includes(field) && value !== null && value !== undefined && value !== '' && value !== hit.title)
+    .map(([field, value]) => `**${field}:** ${value}`)
+    .join(' | ');
+
+  const links = `[Open in Salesforce](${hit.url})`;
+
+  // Combine all sections
+  return [
+    title,
+    details,
+    links,
+    '---'
+  ].filter(Boolean).join('\n\n');
+}
+
+/**
+ * Format search results as Markdown, grouped by object
+ * @param results The search results
+ * @returns Markdown formatted search results
+ */
+export function formatSearchResultsAsMarkdown(results: SalesforceSearchResult): string {
+  // Create the header with term and result count
+  const header = `# Salesforce Search Results: "${results.term}"`;
+  const resultCount = `Found ${results.total} records${results.groups.length > 0 ? ` across ${results.groups.length} objects` : ''}`;
+
+  const filterText = results.searchIn !== 'ALL'
+    ? `**Searched:** ${results.searchIn.toLowerCase()} fields`
+    : '';
+
+  // No results
+  if (results.total === 0) {
+    return [
+      header,
+      resultCount,
+      filterText,
+      '',
+      'No records found matching your search.',
+      '',
+      'Try a shorter term, a trailing * wildcard or a different spelling.'
+    ].filter(Boolean).join('\n');
+  }
+
+  // Format each object's hits under its own heading
+  const groupSummaries = results.groups.map(group => [
+    `## ${group.object} (${group.hits.length})`,
+    group.hits.map(formatHitSummary).join('\n\n')
+  ].join('\n\n')).join('\n\n');
+
+  // Combine all sections
+  return [
+    header,
+    resultCount,
+    filterText,
+    '',
+    groupSummaries
+  ].filter(Boolean).join('\n');
+}
@@ -0,0 +1,1072 @@
+/**
+ * @fileoverview Salesforce REST API tools for querying and editing CRM data
+ */
+
+import { Tool, ToolExecutionOptions } from '../types';
+import { logger, LogCategory } from 'agentdock-core';
+import {
+  SalesforceQuerySchema,
+  SalesforceQueryParameters,
+  SalesforceCreateRecordSchema,
+  SalesforceCreateRecordParameters,
+  SalesforceUpdateRecordSchema,
+  SalesforceUpdateRecordParameters,
+  SalesforceUpsertRecordSchema,
+  SalesforceUpsertRecordParameters,
+  SalesforceDeleteRecordSchema,
+  SalesforceDeleteRecordParameters,
+  SalesforceDescribeSchema,
+  SalesforceDescribeParameters,
+  SalesforceSearchSchema,
+  SalesforceSearchParameters,
+  SalesforceBulkQuerySchema,
+  SalesforceBulkQueryParameters,
+  SalesforceBulkIngestSchema,
+  SalesforceBulkIngestParameters,
+  SalesforceBulkJobStatusSchema,
+  SalesforceBulkJobStatusParameters,
+  SalesforceListReportsSchema,
+  SalesforceListReportsParameters,
+  SalesforceRunReportSchema,
+  SalesforceRunReportParameters,
+  SalesforceDashboardSchema,
+  SalesforceDashboardParameters,
+  SalesforceApexCallSchema,
+  SalesforceApexCallParameters,
+  SalesforceCompositeSchema,
+  SalesforceCompositeParameters
+} from './schema';
+import {
+  getSalesforceConnection,
+  buildSoqlQuery,
+  executeSoqlQuery,
+  createRecord,
+  updateRecord,
+  upsertRecord,
+  deleteRecord,
+  getSalesforceMetadataCache,
+  validateSoqlQuery,
+  explainInvalidField,
+  executeSoslSearch,
+  createBulkQueryJob,
+  runBulkIngestJob,
+  getBulkJob,
+  waitForBulkJob,
+  getBulkQueryPreview,
+  getBulkIngestFailures,
+  trackBulkJob,
+  getTrackedBulkJobs,
+  getBulkDownloadUrl,
+  listAnalytics,
+  runReport,
+  reportToTable,
+  buildReportChart,
+  chartTypeFromSalesforce,
+  getDashboard,
+  callApexRest,
+  normalizeApexPath,
+  executeComposite,
+  executeTree,
+  SalesforceClient,
+  MAX_RECORDS_LIMIT,
+  APPROVAL_REQUIRED_RESULT_TYPE,
+  BULK_PREVIEW_ROWS,
+  DEFAULT_BULK_WAIT_SECONDS
+} from './api';
+import {
+  formatQueryResultsAsMarkdown,
+  formatApprovalRequestAsMarkdown,
+  formatWriteResultAsMarkdown,
+  formatWriteErrorAsMarkdown,
+  formatSObjectDescribeAsMarkdown,
+  formatGlobalDescribeAsMarkdown,
+  formatValidationIssue,
+  formatSearchResultsAsMarkdown,
+  formatBulkJobAsMarkdown,
+  formatBulkIngestApprovalAsMarkdown,
+  formatReportAsMarkdown,
+  formatAnalyticsListAsMarkdown,
+  formatDashboardAsMarkdown,
+  formatApexApprovalAsMarkdown,
+  formatApexResponseAsMarkdown,
+  formatCompositeApprovalAsMarkdown,
+  formatCompositeResultAsMarkdown
+} from './formatters';
+import { handleApiError, describeWriteError, csvToRecords, recordsToCsv } from './utils';
+import {
+  SalesforceWriteOperation,
+  SalesforceWriteResult,
+  SalesforceBulkJob,
+  SalesforceBulkJobKind,
+  SalesforceCompositeResult
+} from './component';
+
+/**
+ * Tool implementation for Salesforce SOQL queries
+ */
+export const salesforceQueryTool: Tool = {
+  name: 'salesforce_query',
+  description: `
+The salesforce_query tool runs a read-only SOQL query against the connected Salesforce org.
+
+You should use this tool when the user wants to:
+- Look up accounts, contacts, leads, opportunities, cases or any other sObject records
+- Filter, sort or count CRM records
+- Inspect the values of specific fields on records
+
+The tool accepts either:
+- soql: A complete SOQL statement, e.g. SELECT Id, Name FROM Account WHERE Industry = 'Energy' LIMIT 10
+or a structured query:
+- object: The sObject to query (e.g. Opportunity)
+- fields: (Optional) Fields to select, including relationship paths like Account.Name (default: Id)
+- where: (Optional) WHERE clause without the keyword
+- orderBy: (Optional) ORDER BY clause without the keywords
+- limit: (Optional) LIMIT for the query
+
+Optionally, maxRecords caps how many records are fetched across result pages.
+Results are returned as a markdown table together with the raw records.
+
+Object and field names are checked against the org's metadata before the query is sent. Unknown names
+come back as an error with "did you mean" suggestions; use salesforce_describe when unsure of a field name.
+`,
+  parameters: SalesforceQuerySchema,
+  execute: async (params: SalesforceQueryParameters, options: ToolExecutionOptions) => {
+    let soql = params.soql || '';
+    let client: SalesforceClient | undefined;
+
+    try {
+      soql = buildSoqlQuery(params);
+
+      logger.debug(LogCategory.NODE, '[SalesforceAPI]', 'Starting Salesforce query', {
+        soql,
+        toolCallId: options.toolCallId,
+      });
+
+      client = getSalesforceConnection(options.sessionId, options);
+
+      // Catch invented object and field names before they reach the API
+      const issues = await validateSoqlQuery(client, soql);
+      if (issues.length > 0) {
+        const messages = issues.map(formatValidationIssue);
+
+        logger.debug(LogCategory.NODE, '[SalesforceAPI]', 'Query failed metadata validation', { soql, issues });
+
+        return {
+          type: 'salesforce_query_result',
+          content: `## Salesforce Query Error\n\nQuery \`${soql}\` was not sent to Salesforce:\n\n${messages.map(message => `- ${message}`).join('\n')}\n\nUse salesforce_describe to list the available fields.`,
+          data: {
+            error: messages.join(' '),
+            soql,
+            issues
+          }
+        };
+      }
+
+      const maxRecords = Math.min(params.maxRecords || client.maxRecords, MAX_RECORDS_LIMIT);
+      const result = await executeSoqlQuery(client, soql, maxRecords);
+
+      return {
+        type: 'salesforce_query_result',
+        content: formatQueryResultsAsMarkdown(result),
+        data: {
+          soql: result.soql,
+          totalSize: result.totalSize,
+          records: result.records,
+          pages: result.pages,
+          truncated: result.truncated
+        }
+      };
+    } catch (error) {
+      const errorMessage = handleApiError(error);
+      // Add suggestions for INVALID_FIELD errors the pre-check missed (e.g. in WHERE clauses)
+      const issue = client ? await explainInvalidField(client, error) : null;
+      const hint = issue && issue.suggestions.length > 0 ? `\n\n${formatValidationIssue(issue)}` : '';
+
+      logger.error(LogCategory.NODE, '[SalesforceAPI]', 'Error in salesforce_query tool', {
+        error: errorMessage,
+        soql,
+      });
+
+      return {
+        type: 'salesforce_query_result',
+        content: `## Salesforce Query Error\n\nUnable to run query${soql ? ` \`${soql}\`` : ''}: ${errorMessage}${hint}`,
+        data: {
+          error: errorMessage,
+          soql,
+          ...(issue ? { issues: [issue] } : {})
+        }
+      };
+    }
+  }
+};
+
+/**
+ * Tool implementation for Salesforce SOSL search
+ */
+export const salesforceSearchTool: Tool = {
+  name: 'salesforce_search',
+  description: `
+The salesforce_search tool runs a SOSL text search across several Salesforce objects at once.
+
+You should use this tool when the user wants to:
+- Find anything about a name, company, email address or phone number, e.g. "find anything about Acme"
+- Look up a record without knowing which object it lives in
+
+The tool accepts:
+- term: The text to search for. A trailing * matches word prefixes (e.g. Acm*)
+- objects: (Optional) Objects to search, each with optional fields, where and limit
+  (default: Account, Contact, Opportunity, Lead and Case with their key fields)
+- searchIn: (Optional) ALL (default), NAME, EMAIL or PHONE fields
+
+Results are grouped by object, each with a link to open the record in Salesforce.
+Use salesforce_query instead when the user filters on specific field values.
+`,
+  parameters: SalesforceSearchSchema,
+  execute: async (params: SalesforceSearchParameters, options: ToolExecutionOptions) => {
+    try {
+      logger.debug(LogCategory.NODE, '[SalesforceAPI]', 'Starting Salesforce search', {
+        term: params.term,
+        toolCallId: options.toolCallId,
+      });
+
+      const client = getSalesforceConnection(options.sessionId, options);
+      const result = await executeSoslSearch(client, params);
+
+      return {
+        type: 'salesforce_search_result',
+        content: formatSearchResultsAsMarkdown(result),
+        data: result
+      };
+    } catch (error) {
+      const errorMessage = handleApiError(error);
+
+      logger.error(LogCategory.NODE, '[SalesforceAPI]', 'Error in salesforce_search tool', {
+        error: errorMessage,
+        term: params.term,
+      });
+
+      return {
+        type: 'salesforce_search_result',
+        content: `## Salesforce Search Error\n\nUnable to search for "${params.term}": ${errorMessage}`,
+        data: {
+          error: errorMessage,
+          term: params.term
+        }
+      };
+    }
+  }
+};
+
+/**
+ * Tool implementation for describing Salesforce objects and fields
+ */
+export const salesforceDescribeTool: Tool = {
+  name: 'salesforce_describe',
+  description: `
+The salesforce_describe tool returns the schema of the connected Salesforce org.
+
+You should use this tool when:
+- You are not sure which objects exist or what a field is called before writing a SOQL query
+- You need the picklist values, type or required fields of an object before creating or updating records
+- A query failed because of an unknown object or field
+
+The tool accepts:
+- object: (Optional) The sObject to describe (e.g. Opportunity). Omit it to list the objects in the org
+- search: (Optional) Filter objects or fields by name or label, e.g. "revenue"
+- refresh: (Optional) Fetch fresh metadata instead of using the cache
+
+For an object it returns its fields with API names, types, picklist values, lookups and child relationships.
+`,
+  parameters: SalesforceDescribeSchema,
+  execute: async (params: SalesforceDescribeParameters, options: ToolExecutionOptions) => {
+    try {
+      logger.debug(LogCategory.NODE, '[SalesforceAPI]', 'Starting Salesforce describe', {
+        object: params.object,
+        toolCallId: options.toolCallId,
+      });
+
+      const client = getSalesforceConnection(options.sessionId, options);
+      const cache = getSalesforceMetadataCache();
+
+      if (!params.object) {
+        const sobjects = await cache.describeGlobal(client, params.refresh);
+        return {
+          type: 'salesforce_describe_result',
+          content: formatGlobalDescribeAsMarkdown(sobjects, params.search),
+          data: {
+            sobjects: sobjects.filter(sobject => sobject.queryable)
+          }
+        };
+      }
+
+      const describe = await cache.describeSObject(client, params.object, params.refresh);
+      return {
+        type: 'salesforce_describe_result',
+        content: formatSObjectDescribeAsMarkdown(describe, params.search),
+        data: describe
+      };
+    } catch (error) {
+      const errorMessage = handleApiError(error);
+
+      logger.error(LogCategory.NODE, '[SalesforceAPI]', 'Error in salesforce_describe tool', {
+        error: errorMessage,
+        object: params.object,
+      });
+
+      return {
+        type: 'salesforce_describe_result',
+        content: `## Salesforce Describe Error\n\nUnable to describe ${params.object || 'the org'}: ${errorMessage}`,
+        data: {
+          error: errorMessage,
+          object: params.object
+        }
+      };
+    }
+  }
+};
+
+// Shared note appended to every write tool description
+const APPROVAL_NOTE = `
+Writes need the user's approval. Calling this tool shows the change to the user with Approve and Reject buttons
+and returns a tool_approval_required result; nothing is written until the user approves. Do not call the tool
+again to retry the approval - wait for the user's decision. If the write fails, the result includes the
+Salesforce error code, the affected fields and a suggested next step.
+`;
+
+/**
+ * Build the result that asks the user to approve a write before it runs
+ * @param toolName Name of the calling tool
+ * @param operation The pending operation
+ * @param params The tool parameters, replayed once the user approves
+ * @param object The sObject the write targets
+ * @param content Markdown summary of the pending write
+ * @param options Tool execution options
+ * @returns The approval request result
+ */
+function requestApproval(
+  toolName: string,
+  operation: string,
+  params: Record<string, unknown>,
+  object: string,
+  content: string,
+  options: ToolExecutionOptions
+) {
+  logger.debug(LogCategory.NODE, '[SalesforceAPI]', 'Write awaiting approval', {
+    toolName,
+    object,
+    toolCallId: options.toolCallId,
+  });
+
+  return {
+    type: APPROVAL_REQUIRED_RESULT_TYPE,
+    content,
+    data: {
+      toolName,
+      args: params,
+      operation,
+      object
+    }
+  };
+}
+
+/**
+ * Run a record write once the user has approved it, or ask for approval first
+ * @param toolName Name of the calling tool
+ * @param operation The write operation
+ * @param params The tool parameters, echoed back in the approval request
+ * @param target The record the write targets, used for the approval summary
+ * @param options Tool execution options
+ * @param write Performs the write against the connected org
+ * @returns The tool result
+ */
+async function runRecordWrite(
+  toolName: string,
+  operation: SalesforceWriteOperation,
+  params: Record<string, unknown>,
+  target: Pick<SalesforceWriteResult, 'object' | 'id' | 'fields' | 'externalIdField' | 'externalId'>,
+  options: ToolExecutionOptions,
+  write: (client: SalesforceClient) => Promise<SalesforceWriteResult>
+) {
+  if (!options.approved) {
+    return requestApproval(toolName, operation, params, target.object, formatApprovalRequestAsMarkdown(operation, target), options);
+  }
+
+  try {
+    const client = getSalesforceConnection(options.sessionId, options);
+    const result = await write(client);
+
+    return {
+      type: 'salesforce_record_result',
+      content: formatWriteResultAsMarkdown(result),
+      data: result
+    };
+  } catch (error) {
+    const toolError = describeWriteError(error);
+
+    logger.error(LogCategory.NODE, '[SalesforceAPI]', `Error in ${toolName} tool`, {
+      error: toolError.message,
+      errorCode: toolError.errorCode,
+      object: target.object,
+    });
+
+    return {
+      type: 'salesforce_record_result',
+      content: formatWriteErrorAsMarkdown(operation, target.object, toolError),
+      data: {
+        operation,
+        object: target.object,
+        error: toolError
+      }
+    };
+  }
+}
+
+/**
+ * Tool implementation for creating Salesforce records
+ */
+export const salesforceCreateRecordTool: Tool = {
+  name: 'salesforce_create_record',
+  description: `
+The salesforce_create_record tool creates a new record in the connected Salesforce org.
+
+You should use this tool when the user wants to:
+- Add a new lead, contact, account, opportunity, case or other sObject record
+
+The tool accepts:
+- object: The sObject to create (e.g. Lead)
+- fields: Field values keyed by field API name (e.g. { "LastName": "Smith", "Company": "Acme" })
+${APPROVAL_NOTE}`,
+  parameters: SalesforceCreateRecordSchema,
+  execute: async (params: SalesforceCreateRecordParameters, options: ToolExecutionOptions) => {
+    return runRecordWrite('salesforce_create_record', 'create', params, params, options,
+      client => createRecord(client, params.object, params.fields));
+  }
+};
+
+/**
+ * Tool implementation for updating Salesforce records
+ */
+export const salesforceUpdateRecordTool: Tool = {
+  name: 'salesforce_update_record',
+  description: `
+The salesforce_update_record tool changes field values on an existing Salesforce record.
+
+You should use this tool when the user wants to:
+- Change the stage, amount, owner, status or any other field of a record they identified
+
+The tool accepts:
+- object: The sObject of the record (e.g. Opportunity)
+- id: The record ID (look it up with salesforce_query first if needed)
+- fields: Only the field values to change, keyed by field API name
+${APPROVAL_NOTE}`,
+  parameters: SalesforceUpdateRecordSchema,
+  execute: async (params: SalesforceUpdateRecordParameters, options: ToolExecutionOptions) => {
+    return runRecordWrite('salesforce_update_record', 'update', params, params, options,
+      client => updateRecord(client, params.object, params.id, params.fields));
+  }
+};
+
+/**
+ * Tool implementation for upserting Salesforce records by external ID
+ */
+export const salesforceUpsertRecordTool: Tool = {
+  name: 'salesforce_upsert_record',
+  description: `
+The salesforce_upsert_record tool inserts or updates a Salesforce record matched on an external ID field.
+
+You should use this tool when the user wants to:
+- Sync a record from another system without knowing whether it already exists in Salesforce
+
+The tool accepts:
+- object: The sObject to upsert (e.g. Account)
+- externalIdField: API name of a field marked as External ID (e.g. External_Id__c)
+- externalId: The value to match on
+- fields: Field values to write, keyed by field API name (do not repeat the external ID field)
+${APPROVAL_NOTE}`,
+  parameters: SalesforceUpsertRecordSchema,
+  execute: async (params: SalesforceUpsertRecordParameters, options: ToolExecutionOptions) => {
+    return runRecordWrite('salesforce_upsert_record', 'upsert', params, params, options,
+      client => upsertRecord(client, params.object, params.externalIdField, params.externalId, params.fields));
+  }
+};
+
+/**
+ * Tool implementation for deleting Salesforce records
+ */
+export const salesforceDeleteRecordTool: Tool = {
+  name: 'salesforce_delete_record',
+  description: `
+The salesforce_delete_record tool deletes a record from the connected Salesforce org.
+
+You should use this tool when the user explicitly asks to remove a specific record.
+
+The tool accepts:
+- object: The sObject of the record (e.g. Contact)
+- id: The record ID (look it up with salesforce_query first if needed)
+${APPROVAL_NOTE}`,
+  parameters: SalesforceDeleteRecordSchema,
+  execute: async (params: SalesforceDeleteRecordParameters, options: ToolExecutionOptions) => {
+    return runRecordWrite('salesforce_delete_record', 'delete', params, params, options,
+      client => deleteRecord(client, params.object, params.id));
+  }
+};
+
+/**
+ * Tool implementation for listing Salesforce reports and dashboards
+ */
+export const salesforceListReportsTool: Tool = {
+  name: 'salesforce_list_reports',
+  description: `
+The salesforce_list_reports tool lists the user's recently viewed Salesforce reports or dashboards.
+
+You should use this tool when:
+- The user mentions a report or dashboard by name and you need its ID
+- The user asks which reports or dashboards are available
+
+The tool accepts:
+- type: (Optional) "report" (default) or "dashboard"
+- search: (Optional) Filter by name, e.g. "pipeline"
+
+Use the returned IDs with salesforce_run_report or salesforce_get_dashboard.
+`,
+  parameters: SalesforceListReportsSchema,
+  execute: async (params: SalesforceListReportsParameters, options: ToolExecutionOptions) => {
+    const type = params.type || 'report';
+
+    try {
+      const client = getSalesforceConnection(options.sessionId, options);
+      const needle = params.search?.toLowerCase();
+      const items = (await listAnalytics(client, type))
+        .filter(item => !needle || item.name.toLowerCase().includes(needle));
+
+      return {
+        type: 'salesforce_report_result',
+        content: formatAnalyticsListAsMarkdown(items, type, params.search),
+        data: {
+          items
+        }
+      };
+    } catch (error) {
+      const errorMessage = handleApiError(error);
+
+      logger.error(LogCategory.NODE, '[SalesforceAPI]', 'Error in salesforce_list_reports tool', {
+        error: errorMessage,
+        type,
+      });
+
+      return {
+        type: 'salesforce_report_result',
+        content: `## Salesforce Reports Error\n\nUnable to list ${type}s: ${errorMessage}`,
+        data: {
+          error: errorMessage
+        }
+      };
+    }
+  }
+};
+
+/**
+ * Tool implementation for running Salesforce reports
+ */
+export const salesforceRunReportTool: Tool = {
+  name: 'salesforce_run_report',
+  description: `
+The salesforce_run_report tool runs a Salesforce report and returns its rows, totals and a chart.
+
+You should use this tool when the user wants:
+- The numbers from an existing report, e.g. "run the Q3 pipeline report"
+- A report narrowed down for this run, e.g. "only for the Energy industry"
+- A chart of report data
+
+The tool accepts:
+- reportId: The report ID (find it with salesforce_list_reports)
+- filters: (Optional) Runtime filters, each with column (report column API name), operator and value
+- chartType: (Optional) "bar", "line" or "pie" for grouped reports
+
+Grouped (summary and matrix) reports are rendered as a chart in the chat; describe the highlights
+instead of repeating every number.
+`,
+  parameters: SalesforceRunReportSchema,
+  execute: async (params: SalesforceRunReportParameters, options: ToolExecutionOptions) => {
+    try {
+      const client = getSalesforceConnection(options.sessionId, options);
+      const response = await runReport(client, params.reportId, params.filters);
+      const report = reportToTable(response);
+      const chart = buildReportChart(
+        report,
+        params.chartType || chartTypeFromSalesforce(response.reportMetadata.chart?.chartType)
+      );
+
+      return {
+        type: 'salesforce_report_result',
+        content: formatReportAsMarkdown(report, params.filters),
+        data: {
+          report,
+          ...(chart ? { chart } : {})
+        }
+      };
+    } catch (error) {
+      const errorMessage = handleApiError(error);
+
+      logger.error(LogCategory.NODE, '[SalesforceAPI]', 'Error in salesforce_run_report tool', {
+        error: errorMessage,
+        reportId: params.reportId,
+      });
+
+      return {
+        type: 'salesforce_report_result',
+        content: `## Salesforce Report Error\n\nUnable to run report \`${params.reportId}\`: ${errorMessage}`,
+        data: {
+          error: errorMessage,
+          reportId: params.reportId
+        }
+      };
+    }
+  }
+};
+
+/**
+ * Tool implementation for fetching Salesforce dashboard data
+ */
+export const salesforceGetDashboardTool: Tool = {
+  name: 'salesforce_get_dashboard',
+  description: `
+The salesforce_get_dashboard tool returns the data behind each component of a Salesforce dashboard.
+
+You should use this tool when the user asks about a dashboard or wants its charts in the chat.
+
+The tool accepts:
+- dashboardId: The dashboard ID (find it with salesforce_list_reports using type "dashboard")
+- chartType: (Optional) "bar", "line" or "pie" to use instead of each component's own chart type
+
+Each component is rendered as a chart in the chat together with its rows.
+`,
+  parameters: SalesforceDashboardSchema,
+  execute: async (params: SalesforceDashboardParameters, options: ToolExecutionOptions) => {
+    try {
+      const client = getSalesforceConnection(options.sessionId, options);
+      const dashboard = await getDashboard(client, params.dashboardId, params.chartType);
+
+      return {
+        type: 'salesforce_report_result',
+        content: formatDashboardAsMarkdown(dashboard.name, dashboard.components),
+        data: dashboard
+      };
+    } catch (error) {
+      const errorMessage = handleApiError(error);
+
+      logger.error(LogCategory.NODE, '[SalesforceAPI]', 'Error in salesforce_get_dashboard tool', {
+        error: errorMessage,
+        dashboardId: params.dashboardId,
+      });
+
+      return {
+        type: 'salesforce_report_result',
+        content: `## Salesforce Dashboard Error\n\nUnable to load dashboard \`${params.dashboardId}\`: ${errorMessage}`,
+        data: {
+          error: errorMessage,
+          dashboardId: params.dashboardId
+        }
+      };
+    }
+  }
+};
+
+// Shared note appended to the bulk tool descriptions
+const BULK_JOB_NOTE = `
+Bulk jobs run in the background. The tool waits up to waitSeconds for the job to finish; if it is still running,
+tell the user and check on it later with salesforce_bulk_job_status. Job IDs are remembered for this conversation,
+so "is my export done?" can be answered without the user repeating the ID.
+`;
+
+/**
+ * Build the result for a bulk job: a preview and download link for finished exports,
+ * failed rows for finished loads, or the job status while it is running
+ * @param client The Salesforce client
+ * @param job The job as last seen
+ * @param kind Query or ingest
+ * @param options Tool execution options
+ * @returns The tool result
+ */
+async function bulkJobResult(
+  client: SalesforceClient,
+  job: SalesforceBulkJob,
+  kind: SalesforceBulkJobKind,
+  options: ToolExecutionOptions
+) {
+  await trackBulkJob(options.sessionId, job, kind, options.nodeConfigurations?.salesforce);
+
+  const complete = job.state === 'JobComplete';
+  const preview = complete && kind === 'query' ? await getBulkQueryPreview(client, job.id, BULK_PREVIEW_ROWS) : undefined;
+  const failures = complete && kind === 'ingest' && job.numberRecordsFailed
+    ? await getBulkIngestFailures(client, job.id)
+    : undefined;
+  // Offer the full export as a download instead of pasting it into the conversation
+  const downloadUrl = complete && kind === 'query' ? getBulkDownloadUrl(options.sessionId, job.id) : undefined;
+
+  return {
+    type: 'salesforce_bulk_job_result',
+    content: formatBulkJobAsMarkdown(job, kind, { preview, failures, downloadUrl }),
+    data: {
+      job,
+      kind,
+      preview,
+      failures,
+      downloadUrl
+    }
+  };
+}
+
+/**
+ * Tool implementation for Bulk API 2.0 exports
+ */
+export const salesforceBulkQueryTool: Tool = {
+  name: 'salesforce_bulk_query',
+  description: `
+The salesforce_bulk_query tool exports a large number of records with a Bulk API 2.0 query job.
+
+You should use this tool when the user wants to:
+- Export or download thousands of records, e.g. "export all contacts to CSV"
+- Run a query whose results are too large for salesforce_query
+
+The tool accepts:
+- soql: The SOQL statement to export (no subqueries or OFFSET)
+- waitSeconds: (Optional) How long to wait for the job to finish (default 20, max 60)
+
+When the job finishes, the result shows the first rows and a link to download all results as CSV.
+Share the link with the user instead of repeating the records.
+${BULK_JOB_NOTE}`,
+  parameters: SalesforceBulkQuerySchema,
+  execute: async (params: SalesforceBulkQueryParameters, options: ToolExecutionOptions) => {
+    try {
+      logger.debug(LogCategory.NODE, '[SalesforceAPI]', 'Starting Salesforce bulk query', {
+        soql: params.soql,
+        toolCallId: options.toolCallId,
+      });
+
+      const client = getSalesforceConnection(options.sessionId, options);
+      const created = await createBulkQueryJob(client, params.soql);
+      const job = await waitForBulkJob(client, 'query', created, params.waitSeconds ?? DEFAULT_BULK_WAIT_SECONDS);
+
+      return await bulkJobResult(client, job, 'query', options);
+    } catch (error) {
+      const errorMessage = handleApiError(error);
+
+      logger.error(LogCategory.NODE, '[SalesforceAPI]', 'Error in salesforce_bulk_query tool', {
+        error: errorMessage,
+        soql: params.soql,
+      });
+
+      return {
+        type: 'salesforce_bulk_job_result',
+        content: `## Salesforce Bulk Query Error\n\nUnable to start export \`${params.soql}\`: ${errorMessage}`,
+        data: {
+          error: errorMessage,
+          soql: params.soql
+        }
+      };
+    }
+  }
+};
+
+/**
+ * Tool implementation for Bulk API 2.0 imports
+ */
+export const salesforceBulkIngestTool: Tool = {
+  name: 'salesforce_bulk_ingest',
+  description: `
+The salesforce_bulk_ingest tool loads many records at once with a Bulk API 2.0 ingest job.
+
+You should use this tool when the user wants to:
+- Import, update, upsert or delete more than a handful of records in one go
+- Load a CSV file into Salesforce
+
+The tool accepts:
+- object: The sObject to load (e.g. Contact)
+- operation: insert, update, upsert or delete
+- externalIdField: (Optional) External ID field to match on, required for upsert
+- records: (Optional) Records keyed by field API name; include Id for update and delete
+- csv: (Optional) CSV text with a header row of field API names, instead of records
+- waitSeconds: (Optional) How long to wait for the job to finish (default 20, max 60)
+
+Rows Salesforce rejects are listed with their sf__Error message once the job completes.
+${APPROVAL_NOTE}${BULK_JOB_NOTE}`,
+  parameters: SalesforceBulkIngestSchema,
+  execute: async (params: SalesforceBulkIngestParameters, options: ToolExecutionOptions) => {
+    const csv = params.csv ?? (params.records && params.records.length > 0 ? recordsToCsv(params.records) : '');
+    const rows = csv ? csvToRecords(csv) : [];
+
+    if (rows.length === 0) {
+      return {
+        type: 'salesforce_bulk_job_result',
+        content: '## Salesforce Bulk Ingest Error\n\nProvide the rows to load as records or csv.',
+        data: {
+          error: 'No records to load',
+          object: params.object
+        }
+      };
+    }
+
+    if (!options.approved) {
+      return requestApproval('salesforce_bulk_ingest', params.operation, params, params.object,
+        formatBulkIngestApprovalAsMarkdown(params.operation, params.object, rows), options);
+    }
+
+    try {
+      const client = getSalesforceConnection(options.sessionId, options);
+      const uploaded = await runBulkIngestJob(client, params, csv);
+      const job = await waitForBulkJob(client, 'ingest', uploaded, params.waitSeconds ?? DEFAULT_BULK_WAIT_SECONDS);
+
+      return await bulkJobResult(client, job, 'ingest', options);
+    } catch (error) {
+      const errorMessage = handleApiError(error);
+
+      logger.error(LogCategory.NODE, '[SalesforceAPI]', 'Error in salesforce_bulk_ingest tool', {
+        error: errorMessage,
+        object: params.object,
+      });
+
+      return {
+        type: 'salesforce_bulk_job_result',
+        content: `## Salesforce Bulk Ingest Error\n\nUnable to ${params.operation} ${params.object} records: ${errorMessage}`,
+        data: {
+          error: errorMessage,
+          object: params.object
+        }
+      };
+    }
+  }
+};
+
+/**
+ * Tool implementation for checking on Bulk API 2.0 jobs started earlier in the conversation
+ */
+export const salesforceBulkJobStatusTool: Tool = {
+  name: 'salesforce_bulk_job_status',
+  description: `
+The salesforce_bulk_job_status tool checks on a bulk export or import started with salesforce_bulk_query or
+salesforce_bulk_ingest.
+
+You should use this tool when the user asks whether an export or import is done, e.g. "is my export ready?"
+
+The tool accepts:
+- jobId: (Optional) The job ID. Omit it to check the most recent bulk job in this conversation
+- kind: (Optional) query or ingest, when checking a job that was not started in this conversation
+
+Finished exports come back with a preview and a CSV download link; finished imports with any failed rows.
+`,
+  parameters: SalesforceBulkJobStatusSchema,
+  execute: async (params: SalesforceBulkJobStatusParameters, options: ToolExecutionOptions) => {
+    try {
+      const tracked = await getTrackedBulkJobs(options.sessionId);
+      const entry = params.jobId ? tracked.find(job => job.id === params.jobId) : tracked[0];
+      const jobId = params.jobId ?? entry?.id;
+
+      if (!jobId) {
+        return {
+          type: 'salesforce_bulk_job_result',
+          content: '## Salesforce Bulk Job Status\n\nNo bulk jobs have been started in this conversation.',
+          data: {
+            jobs: []
+          }
+        };
+      }
+
+      const kind: SalesforceBulkJobKind = params.kind ?? (entry?.kind === 'ingest' ? 'ingest' : 'query');
+
+      logger.debug(LogCategory.NODE, '[SalesforceAPI]', 'Checking Salesforce bulk job', {
+        jobId,
+        kind,
+        toolCallId: options.toolCallId,
+      });
+
+      const client = getSalesforceConnection(options.sessionId, options);
+      const job = await getBulkJob(client, kind, jobId);
+
+      return await bulkJobResult(client, job, kind, options);
+    } catch (error) {
+      const errorMessage = handleApiError(error);
+
+      logger.error(LogCategory.NODE, '[SalesforceAPI]', 'Error in salesforce_bulk_job_status tool', {
+        error: errorMessage,
+        jobId: params.jobId,
+      });
+
+      return {
+        type: 'salesforce_bulk_job_result',
+        content: `## Salesforce Bulk Job Error\n\nUnable to check bulk job${params.jobId ? ` \`${params.jobId}\`` : ''}: ${errorMessage}`,
+        data: {
+          error: errorMessage,
+          jobId: params.jobId
+        }
+      };
+    }
+  }
+};
+
+/**
+ * Tool implementation for custom Apex REST endpoints
+ */
+export const salesforceApexCallTool: Tool = {
+  name: 'salesforce_apex_call',
+  description: `
+The salesforce_apex_call tool calls a custom Apex REST endpoint under /services/apexrest in the connected org.
+
+You should use this tool when the user wants to:
+- Run business logic the org exposes as an Apex REST service, e.g. an account health score
+- Get data that standard queries cannot return
+
+The tool accepts:
+- method: (Optional) GET, POST, PUT, PATCH or DELETE (default GET)
+- path: The path under /services/apexrest, e.g. /AccountHealth/001xx000003DGb2
+- query: (Optional) Query string parameters
+- body: (Optional) JSON request body for POST, PUT and PATCH
+
+Only the paths listed in the agent's apexAllowlist can be called; the error lists the allowed paths.
+GET calls run straight away. Other methods need the user's approval: the tool shows the call with Approve
+and Reject buttons and returns a tool_approval_required result. Wait for the user's decision instead of retrying.
+`,
+  parameters: SalesforceApexCallSchema,
+  execute: async (params: SalesforceApexCallParameters, options: ToolExecutionOptions) => {
+    const method = params.method || 'GET';
+
+    try {
+      if (method !== 'GET' && !options.approved) {
+        const path = normalizeApexPath(params.path);
+        return requestApproval('salesforce_apex_call', method, params, path,
+          formatApexApprovalAsMarkdown(method, path, params.body), options);
+      }
+
+      logger.debug(LogCategory.NODE, '[SalesforceAPI]', 'Calling Salesforce Apex REST endpoint', {
+        method,
+        path: params.path,
+        toolCallId: options.toolCallId,
+      });
+
+      const client = getSalesforceConnection(options.sessionId, options);
+      const response = await callApexRest(client, params);
+
+      return {
+        type: 'salesforce_apex_result',
+        content: formatApexResponseAsMarkdown(response),
+        data: response
+      };
+    } catch (error) {
+      const errorMessage = handleApiError(error);
+
+      logger.error(LogCategory.NODE, '[SalesforceAPI]', 'Error in salesforce_apex_call tool', {
+        error: errorMessage,
+        method,
+        path: params.path,
+      });
+
+      return {
+        type: 'salesforce_apex_result',
+        content: `## Salesforce Apex REST Error\n\nUnable to call ${method} ${params.path}: ${errorMessage}`,
+        data: {
+          error: errorMessage,
+          method,
+          path: params.path
+        }
+      };
+    }
+  }
+};
+
+/**
+ * Tool implementation for composite and sObject tree requests
+ */
+export const salesforceCompositeTool: Tool = {
+  name: 'salesforce_composite',
+  description: `
+The salesforce_composite tool runs several related Salesforce writes in one request.
+
+You should use this tool when the user wants to:
+- Create a record and related records together, e.g. an account with its contacts and an opportunity
+- Make a series of changes that should all succeed or all be rolled back
+
+The tool accepts:
+- mode: (Optional) composite (default) or tree
+- allOrNone: (Optional) Roll back every subrequest when one fails (composite mode, default true)
+- subrequests: (composite mode) Up to 25 subrequests, each with referenceId, method, url (e.g. /sobjects/Contact)
+  and body. Later subrequests can use earlier results with @{referenceId.field}, e.g. "AccountId": "@{refAccount.id}"
+- object: (tree mode) The root sObject, e.g. Account
+- records: (tree mode) Root records with child records nested under their relationship name, e.g.
+  { "Name": "Acme", "Contacts": { "records": [{ "attributes": { "type": "Contact" }, "LastName": "Smith" }] } }.
+  Up to 200 records in total
+
+The result lists every subrequest with its status, the IDs created and, for failures, the Salesforce error code,
+fields and a suggested next step.
+${APPROVAL_NOTE}`,
+  parameters: SalesforceCompositeSchema,
+  execute: async (params: SalesforceCompositeParameters, options: ToolExecutionOptions) => {
+    const mode = params.mode || 'composite';
+    const label = mode === 'tree' ? (params.object || 'record tree') : 'composite request';
+
+    try {
+      const { object, records, subrequests } = params;
+      let run: (client: SalesforceClient) => Promise<SalesforceCompositeResult>;
+      if (mode === 'tree') {
+        if (!object || !records || records.length === 0) {
+          throw new Error('Tree mode needs object and at least one record.');
+        }
+        run = client => executeTree(client, object, records);
+      } else {
+        if (!subrequests || subrequests.length === 0) {
+          throw new Error('Composite mode needs at least one subrequest.');
+        }
+        run = client => executeComposite(client, subrequests, params.allOrNone ?? true);
+      }
+
+      if (!options.approved) {
+        return requestApproval('salesforce_composite', mode, params, label,
+          formatCompositeApprovalAsMarkdown({ ...params, mode }), options);
+      }
+
+      const result = await run(getSalesforceConnection(options.sessionId, options));
+
+      return {
+        type: 'salesforce_composite_result',
+        content: formatCompositeResultAsMarkdown(result),
+        data: result
+      };
+    } catch (error) {
+      const errorMessage = handleApiError(error);
+
+      logger.error(LogCategory.NODE, '[SalesforceAPI]', 'Error in salesforce_composite tool', {
+        error: errorMessage,
+        mode,
+      });
+
+      return {
+        type: 'salesforce_composite_result',
+        content: `## Salesforce Composite Error\n\nUnable to run the ${label}: ${errorMessage}`,
+        data: {
+          error: errorMessage,
+          mode
+        }
+      };
+    }
+  }
+};
+
+/**
+ * Export tools for registry
+ */
+export const tools = {
+  salesforce_query: salesforceQueryTool,
+  salesforce_search: salesforceSearchTool,
+  salesforce_describe: salesforceDescribeTool,
+  salesforce_list_reports: salesforceListReportsTool,
+  salesforce_run_report: salesforceRunReportTool,
+  salesforce_get_dashboard: salesforceGetDashboardTool,
+  salesforce_create_record: salesforceCreateRecordTool,
+  salesforce_update_record: salesforceUpdateRecordTool,
+  salesforce_upsert_record: salesforceUpsertRecordTool,
+  salesforce_delete_record: salesforceDeleteRecordTool,
+  salesforce_bulk_query: salesforceBulkQueryTool,
+  salesforce_bulk_ingest: salesforceBulkIngestTool,
+  salesforce_bulk_job_status: salesforceBulkJobStatusTool,
+  salesforce_apex_call: salesforceApexCallTool,
+  salesforce_composite: salesforceCompositeTool
+};
@@ -0,0 +1,255 @@
+/**
+ * @fileoverview Schema definitions for Salesforce tool parameters
+ */
+
+import { z } from 'zod';
+import { MAX_BULK_WAIT_SECONDS, MAX_COMPOSITE_SUBREQUESTS, MAX_TREE_RECORDS } from './api/constants';
+
+/**
+ * Schema for the Salesforce settings an agent declares under
+ * `nodeConfigurations.salesforce` in its template
+ */
+export const SalesforceNodeConfigSchema = z.object({
+  instanceUrl: z.string().url().optional().describe("Base URL of the Salesforce org, e.g. https://acme.my.salesforce.com"),
+  apiVersion: z.string().regex(/^\d+\.\d+$/, "API version must look like 62.0").optional().describe("REST API version"),
+  maxRecords: z.number().int().min(1).optional().describe("Maximum number of records a query may return across all pages"),
+  describeCacheTtlSeconds: z.number().int().min(0).optional().describe("How long org metadata from describe calls is cached"),
+  apexAllowlist: z.array(z.string().startsWith('/', "Apex REST paths must start with /")).optional()
+    .describe("Apex REST paths under /services/apexrest the agent may call. * matches within a path segment, ** across segments")
+});
+
+/**
+ * Fields shared by every OAuth 2.0 flow
+ */
+const BaseCredentialsSchema = z.object({
+  clientId: z.string().min(1, "Connected app consumer key is required"),
+  loginUrl: z.string().url().optional().describe("Login host, e.g. https://test.salesforce.com for sandboxes")
+});
+
+/**
+ * Schema for connected app credentials, one variant per supported OAuth 2.0 flow
+ */
+export const SalesforceCredentialsSchema = z.discriminatedUnion('flow', [
+  BaseCredentialsSchema.extend({
+    flow: z.literal('jwt'),
+    username: z.string().min(1, "Username is required for the JWT bearer flow"),
+    privateKey: z.string().min(1, "PEM private key is required for the JWT bearer flow")
+  }),
+  BaseCredentialsSchema.extend({
+    flow: z.literal('password'),
+    clientSecret: z.string().min(1, "Consumer secret is required for the username-password flow"),
+    username: z.string().min(1, "Username is required for the username-password flow"),
+    password: z.string().min(1, "Password is required for the username-password flow"),
+    securityToken: z.string().optional()
+  }),
+  BaseCredentialsSchema.extend({
+    flow: z.literal('refresh_token'),
+    clientSecret: z.string().optional(),
+    refreshToken: z.string().min(1, "Refresh token is required for the refresh-token flow")
+  })
+]);
+
+/**
+ * Schema for Salesforce SOQL query parameters
+ *
+ * Either a raw `soql` string or a structured `object` + `fields` query must be provided.
+ */
+export const SalesforceQuerySchema = z.object({
+  soql: z.string().optional().describe("A complete SOQL statement, e.g. SELECT Id, Name FROM Account WHERE Industry = 'Energy'"),
+  object: z.string().optional().describe("The sObject to query when building the query from parts, e.g. Account"),
+  fields: z.array(z.string()).optional().describe("Fields to select when building the query from parts (defaults to Id)"),
+  where: z.string().optional().describe("Optional WHERE clause without the WHERE keyword"),
+  orderBy: z.string().optional().describe("Optional ORDER BY clause without the ORDER BY keywords"),
+  limit: z.number().int().min(1).optional().describe("Optional LIMIT for the structured query"),
+  maxRecords: z.number().int().min(1).optional().describe("Maximum number of records to fetch across pages (overrides the agent default)")
+});
+
+/**
+ * Field values for a record write, keyed by field API name
+ */
+const RecordFieldsSchema = z.record(z.string(), z.any()).describe("Field values keyed by field API name, e.g. { \"LastName\": \"Smith\", \"Company\": \"Acme\" }");
+
+/**
+ * Schema for creating a Salesforce record
+ */
+export const SalesforceCreateRecordSchema = z.object({
+  object: z.string().describe("The sObject to create, e.g. Lead"),
+  fields: RecordFieldsSchema
+});
+
+/**
+ * Schema for updating a Salesforce record by ID
+ */
+export const SalesforceUpdateRecordSchema = z.object({
+  object: z.string().describe("The sObject of the record, e.g. Opportunity"),
+  id: z.string().describe("The 15 or 18 character record ID"),
+  fields: RecordFieldsSchema
+});
+
+/**
+ * Schema for upserting a Salesforce record by external ID
+ */
+export const SalesforceUpsertRecordSchema = z.object({
+  object: z.string().describe("The sObject to upsert, e.g. Account"),
+  externalIdField: z.string().describe("API name of the external ID field to match on, e.g. External_Id__c"),
+  externalId: z.string().describe("Value of the external ID field"),
+  fields: RecordFieldsSchema
+});
+
+/**
+ * Schema for deleting a Salesforce record by ID
+ */
+export const SalesforceDeleteRecordSchema = z.object({
+  object: z.string().describe("The sObject of the record, e.g. Contact"),
+  id: z.string().describe("The 15 or 18 character record ID")
+});
+
+/**
+ * Schema for Salesforce describe parameters
+ */
+export const SalesforceDescribeSchema = z.object({
+  object: z.string().optional().describe("The sObject to describe, e.g. Opportunity. Omit to list the objects in the org"),
+  search: z.string().optional().describe("Optional case-insensitive filter on object or field names and labels"),
+  refresh: z.boolean().optional().describe("Bypass the metadata cache and fetch fresh metadata from the org")
+});
+
+/**
+ * Schema for Bulk API 2.0 query (export) parameters
+ */
+export const SalesforceBulkQuerySchema = z.object({
+  soql: z.string().describe("The SOQL statement to export, e.g. SELECT Id, Name, Email FROM Contact"),
+  waitSeconds: z.number().int().min(0).max(MAX_BULK_WAIT_SECONDS).optional().describe("How long to wait for the job to finish before returning (default 20 seconds)")
+});
+
+/**
+ * Schema for Bulk API 2.0 ingest (import) parameters
+ *
+ * Either `records` or `csv` must be provided.
+ */
+export const SalesforceBulkIngestSchema = z.object({
+  object: z.string().describe("The sObject to load, e.g. Contact"),
+  operation: z.enum(['insert', 'update', 'upsert', 'delete']).describe("The ingest operation"),
+  externalIdField: z.string().optional().describe("External ID field to match on, required for upsert"),
+  records: z.array(RecordFieldsSchema).optional().describe("Records to load, each keyed by field API name (include Id for update and delete)"),
+  csv: z.string().optional().describe("CSV data to load instead of records, with a header row of field API names"),
+  waitSeconds: z.number().int().min(0).max(MAX_BULK_WAIT_SECONDS).optional().describe("How long to wait for the job to finish before returning (default 20 seconds)")
+});
+
+/**
+ * Schema for checking on a Bulk API 2.0 job
+ */
+export const SalesforceBulkJobStatusSchema = z.object({
+  jobId: z.string().optional().describe("The job ID. Omit to check the most recent bulk job in this conversation"),
+  kind: z.enum(['query', 'ingest']).optional().describe("Whether the job is a query (export) or ingest (import) job")
+});
+
+/**
+ * Schema for Salesforce SOSL search parameters
+ */
+export const SalesforceSearchSchema = z.object({
+  term: z.string().min(2, "Search term must be at least 2 characters").describe("Text to search for, e.g. Acme. Use * as a wildcard at the end of a word"),
+  objects: z.array(z.object({
+    object: z.string().describe("The sObject to return, e.g. Account"),
+    fields: z.array(z.string()).optional().describe("Fields to return for this object (defaults to Id and a name field)"),
+    where: z.string().optional().describe("Optional WHERE clause without the keyword, e.g. IsClosed = false"),
+    limit: z.number().int().min(1).max(200).optional().describe("Maximum hits for this object")
+  })).optional().describe("Objects to search and the fields to return (defaults to accounts, contacts, opportunities, leads and cases)"),
+  searchIn: z.enum(['ALL', 'NAME', 'EMAIL', 'PHONE']).optional().describe("Which field groups to search (default ALL)")
+});
+
+/**
+ * Chart types for report and dashboard results
+ */
+const ChartTypeSchema = z.enum(['bar', 'line', 'pie']).optional().describe("Chart type for grouped results (defaults to the report's own chart type, or bar)");
+
+/**
+ * Schema for listing Salesforce reports and dashboards
+ */
+export const SalesforceListReportsSchema = z.object({
+  type: z.enum(['report', 'dashboard']).optional().describe("List reports (default) or dashboards"),
+  search: z.string().optional().describe("Optional case-insensitive filter on names")
+});
+
+/**
+ * Schema for running a Salesforce report
+ */
+export const SalesforceRunReportSchema = z.object({
+  reportId: z.string().describe("The report ID, starting with 00O"),
+  filters: z.array(z.object({
+    column: z.string().describe("API name of the report column, e.g. STAGE_NAME or ACCOUNT.INDUSTRY"),
+    operator: z.enum([
+      'equals', 'notEqual', 'lessThan', 'greaterThan', 'lessOrEqual', 'greaterOrEqual',
+      'contains', 'notContain', 'startsWith', 'includes', 'excludes'
+    ]).describe("Filter operator"),
+    value: z.string().describe("Filter value; separate multiple values with commas")
+  })).optional().describe("Runtime filters added to the report's saved filters for this run"),
+  chartType: ChartTypeSchema
+});
+
+/**
+ * Schema for fetching a Salesforce dashboard's component data
+ */
+export const SalesforceDashboardSchema = z.object({
+  dashboardId: z.string().describe("The dashboard ID, starting with 01Z"),
+  chartType: ChartTypeSchema
+});
+
+/**
+ * Schema for calling a custom Apex REST endpoint
+ */
+export const SalesforceApexCallSchema = z.object({
+  method: z.enum(['GET', 'POST', 'PUT', 'PATCH', 'DELETE']).default('GET').describe("HTTP method"),
+  path: z.string().min(1).describe("Path under /services/apexrest, e.g. /AccountHealth/001xx000003DGb2"),
+  query: z.record(z.string(), z.union([z.string(), z.number(), z.boolean()])).optional().describe("Optional query string parameters"),
+  body: z.any().optional().describe("Optional JSON request body for POST, PUT and PATCH")
+});
+
+/**
+ * A single subrequest of a composite request
+ */
+const CompositeSubrequestSchema = z.object({
+  referenceId: z.string().regex(/^[A-Za-z][A-Za-z0-9_]*$/, "Reference IDs must start with a letter and contain only letters, numbers and underscores")
+    .describe("Name used to refer to this subrequest's result in later subrequests, e.g. refAccount"),
+  method: z.enum(['GET', 'POST', 'PATCH', 'PUT', 'DELETE']).describe("HTTP method"),
+  url: z.string().min(1).describe("Data API path, e.g. /sobjects/Contact or /sobjects/Account/@{refAccount.id}"),
+  body: z.record(z.string(), z.any()).optional().describe("Request body, e.g. { \"LastName\": \"Smith\", \"AccountId\": \"@{refAccount.id}\" }")
+});
+
+/**
+ * A record in an sObject tree, with nested child records keyed by relationship name
+ */
+const TreeRecordSchema: z.ZodType<Record<string, unknown>> = z.record(z.string(), z.any())
+  .describe("Field values plus attributes: { type, referenceId } and child relationships, e.g. { \"Contacts\": { \"records\": [...] } }");
+
+/**
+ * Schema for composite and sObject tree requests
+ */
+export const SalesforceCompositeSchema = z.object({
+  mode: z.enum(['composite', 'tree']).default('composite').describe("composite for a series of subrequests, tree for nested records of one object"),
+  allOrNone: z.boolean().default(true).describe("Roll back every subrequest when one fails (composite mode)"),
+  subrequests: z.array(CompositeSubrequestSchema).max(MAX_COMPOSITE_SUBREQUESTS).optional()
+    .describe(`Up to ${MAX_COMPOSITE_SUBREQUESTS} subrequests, run in order (composite mode)`),
+  object: z.string().optional().describe("Root sObject of the tree, e.g. Account (tree mode)"),
+  records: z.array(TreeRecordSchema).max(MAX_TREE_RECORDS).optional()
+    .describe(`Root records with nested children, up to ${MAX_TREE_RECORDS} records in total (tree mode)`)
+});
+
+// Type inference from schemas
+export type SalesforceNodeConfig = z.infer<typeof SalesforceNodeConfigSchema>;
+export type SalesforceCredentials = z.infer<typeof SalesforceCredentialsSchema>;
+export type SalesforceAuthFlow = SalesforceCredentials['flow'];
+export type SalesforceQueryParameters = z.infer<typeof SalesforceQuerySchema>;
+export type SalesforceDescribeParameters = z.infer<typeof SalesforceDescribeSchema>;
+export type SalesforceCreateRecordParameters = z.infer<typeof SalesforceCreateRecordSchema>;
+export type SalesforceUpdateRecordParameters = z.infer<typeof SalesforceUpdateRecordSchema>;
+export type SalesforceUpsertRecordParameters = z.infer<typeof SalesforceUpsertRecordSchema>;
+export type SalesforceDeleteRecordParameters = z.infer<typeof SalesforceDeleteRecordSchema>;
+export type SalesforceBulkQueryParameters = z.infer<typeof SalesforceBulkQuerySchema>;
+export type SalesforceBulkIngestParameters = z.infer<typeof SalesforceBulkIngestSchema>;
+export type SalesforceBulkJobStatusParameters = z.infer<typeof SalesforceBulkJobStatusSchema>;
+export type SalesforceListReportsParameters = z.infer<typeof SalesforceListReportsSchema>;
+export type SalesforceRunReportParameters = z.infer<typeof SalesforceRunReportSchema>;
+export type SalesforceDashboardParameters = z.infer<typeof SalesforceDashboardSchema>;
+export type SalesforceSearchParameters = z.infer<typeof SalesforceSearchSchema>;
+export type SalesforceApexCallParameters = z.infer<typeof SalesforceApexCallSchema>;
+export type SalesforceCompositeParameters = z.infer<typeof SalesforceCompositeSchema>;
@@ -0,0 +1,90 @@
+/**
+ * @fileoverview CSV helpers for Bulk API 2.0 uploads and results (RFC 4180, LF line endings)
+ */
+
+/**
+ * Parse CSV text into rows of cells
+ * @param text CSV text
+ * @returns Rows, including the header row
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Parse CSV text into records keyed by the header row
+ * @param text CSV text with a header row
+ * @returns The records
+ */
+export function csvToRecords(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+
+  return rows.map(row => Object.fromEntries(header.map((column, index) => [column, row[index] ?? ''])));
+}
+
+/**
+ * Quote a cell when it contains a delimiter, quote or line break
+ */
+function formatCsvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialize records as CSV, using the union of their keys as the header row
+ * @param records The records to serialize
+ * @returns CSV text ending in a newline
+ */
+export function recordsToCsv(records: Record<string, unknown>[]): string {
+  const columns: string[] = [];
+  for (const record of records) {
+    for (const key of Object.keys(record)) {
+      if (!columns.includes(key)) columns.push(key);
+    }
+  }
+
+  return [
+    columns.map(formatCsvCell).join(','),
+    ...records.map(record => columns.map(column => formatCsvCell(record[column])).join(','))
+  ].join('\n') + '\n';
+}
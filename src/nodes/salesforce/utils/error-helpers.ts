@@ -0,0 +1,174 @@
+/**
+ * @fileoverview Error handling utilities for the Salesforce REST API
+ */
+
+import { logger, LogCategory } from 'agentdock-core';
+
+/**
+ * Error entry as returned in the body of a failed Salesforce REST call
+ */
+export interface SalesforceErrorDetail {
+  message: string;
+  errorCode: string;
+  fields?: string[];
+}
+
+/**
+ * Error raised for non-2xx responses from the Salesforce REST API.
+ * Keeps the HTTP status and Salesforce error code so callers can react to them.
+ */
+export class SalesforceApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly errorCode: string,
+    public readonly details: SalesforceErrorDetail[] = [],
+    /** Parsed response body, for endpoints that report failures in their own format */
+    public readonly body?: unknown
+  ) {
+    super(message);
+    this.name = 'SalesforceApiError';
+  }
+
+  /** Fields referenced by the error entries, if any */
+  get fields(): string[] {
+    return this.details.flatMap(detail => detail.fields || []);
+  }
+}
+
+/**
+ * Build a SalesforceApiError from a failed fetch Response
+ * @param response The non-OK response
+ * @returns The parsed error
+ */
+export async function parseSalesforceError(response: Response): Promise<SalesforceApiError> {
+  let details: SalesforceErrorDetail[] = [];
+  let rawText = '';
+  let parsed: unknown;
+
+  try {
+    rawText = await response.text();
+    const body = rawText ? JSON.parse(rawText) : null;
+    parsed = body ?? undefined;
+
+    // Data API errors are an array of { message, errorCode, fields }
+    if (Array.isArray(body)) {
+      details = body.filter(entry => entry && typeof entry.message === 'string');
+    } else if (body && typeof body === 'object') {
+      // OAuth endpoints use { error, error_description }
+      if (typeof body.error === 'string') {
+        details = [{ message: body.error_description || body.error, errorCode: body.error }];
+      } else if (typeof body.message === 'string') {
+        details = [{ message: body.message, errorCode: body.errorCode || 'UNKNOWN_ERROR' }];
+      }
+    }
+  } catch {
+    // Body was not JSON; fall back to the raw text below
+  }
+
+  const errorCode = details[0]?.errorCode || `HTTP_${response.status}`;
+  const message = details.length > 0
+    ? details.map(detail => detail.message).join('; ')
+    : rawText || response.statusText || `Request failed with status ${response.status}`;
+
+  return new SalesforceApiError(message, response.status, errorCode, details, parsed);
+}
+
+/**
+ * Handle API errors with consistent logging and formatting
+ * @param error The error to handle
+ * @returns A user-friendly error message
+ */
+export function handleApiError(error: unknown): string {
+  if (error instanceof SalesforceApiError) {
+    logger.error(LogCategory.NODE, '[SalesforceAPI]', 'API Error (Salesforce)', {
+      status: error.status,
+      errorCode: error.errorCode,
+      error: error.message
+    });
+
+    if (error.status === 401) {
+      return `Authentication error (${error.errorCode}). The Salesforce session may be invalid or expired.`;
+    } else if (error.status === 403) {
+      return `Access denied (${error.errorCode}): ${error.message}`;
+    } else if (error.status === 404) {
+      return `Resource not found (${error.errorCode}): ${error.message}`;
+    } else if (error.status >= 500) {
+      return 'Salesforce server error. Please try again later.';
+    }
+    return `${error.errorCode}: ${error.message}`;
+  }
+
+  // If the error is a string, return it directly
+  if (typeof error === 'string') {
+    logger.error(LogCategory.NODE, '[SalesforceAPI]', 'API Error (string)', { error });
+    return error;
+  }
+
+  // If the error is an Error object, return its message
+  if (error instanceof Error) {
+    logger.error(LogCategory.NODE, '[SalesforceAPI]', 'API Error (Error)', {
+      error: error.message,
+      stack: error.stack
+    });
+    return error.message;
+  }
+
+  // For any other type of error, convert to string
+  const errorString = String(error);
+  logger.error(LogCategory.NODE, '[SalesforceAPI]', 'Unknown API Error', { error: errorString });
+  return `Unknown error: ${errorString}`;
+}
+
+/**
+ * Structured error returned by the record tools so the LLM can correct its call
+ */
+export interface SalesforceToolError {
+  message: string;
+  errorCode?: string;
+  fields?: string[];
+  /** Suggested next step for the model */
+  hint?: string;
+}
+
+// Guidance for the record save errors an LLM can usually fix on its own
+const WRITE_ERROR_HINTS: Record<string, string> = {
+  REQUIRED_FIELD_MISSING: 'Ask the user for values for the missing fields, then call the tool again with them included.',
+  FIELD_CUSTOM_VALIDATION_EXCEPTION: 'A validation rule in the org rejected the values. Explain the rule message to the user and retry with values that satisfy it.',
+  INVALID_FIELD: 'One of the fields does not exist on this object. Check the field API names and retry.',
+  INVALID_OR_NULL_FOR_RESTRICTED_PICKLIST: 'A picklist field was given a value that is not allowed. Use one of the picklist values defined in the org.',
+  MALFORMED_ID: 'A record ID or lookup value is not a valid Salesforce ID. Query for the correct ID first.',
+  DUPLICATE_VALUE: 'A unique field already has this value on another record. Use upsert or update the existing record instead.',
+  ENTITY_IS_DELETED: 'The record has been deleted and cannot be changed.'
+};
+
+/**
+ * Get the suggested next step for a record save error code
+ * @param errorCode The Salesforce error code
+ * @returns The hint, or undefined when the model cannot fix the error on its own
+ */
+export function getWriteErrorHint(errorCode: string | undefined): string | undefined {
+  return errorCode ? WRITE_ERROR_HINTS[errorCode] : undefined;
+}
+
+/**
+ * Convert an error from a record write into a structured tool error
+ * @param error The error to describe
+ * @returns The structured error, with a hint for errors the caller can fix
+ */
+export function describeWriteError(error: unknown): SalesforceToolError {
+  const message = handleApiError(error);
+
+  if (error instanceof SalesforceApiError) {
+    const fields = error.fields;
+    const hint = getWriteErrorHint(error.errorCode);
+    return {
+      message,
+      errorCode: error.errorCode,
+      ...(fields.length > 0 ? { fields } : {}),
+      ...(hint ? { hint } : {})
+    };
+  }
+
+  return { message };
+}
@@ -0,0 +1,6 @@
+/**
+ * @fileoverview Exports all utilities for Salesforce
+ */
+
+export * from './error-helpers';
+export * from './csv';
@@ -40,6 +40,10 @@ export interface ToolExecutionOptions {
   llmContext?: LLMContext;
   /** Optional handler from AgentNode to update cumulative token usage */
   updateUsageHandler?: (usage: import('agentdock-core').TokenUsage) => Promise<void>;
+  /** Node configurations from the agent template, keyed by node type (optional) */
+  nodeConfigurations?: Record<string, any>;
+  /** True when the user approved this call in the chat UI (set only by direct tool execution) */
+  approved?: boolean;
 }
 
 /**
@@ -27,6 +27,7 @@ const envSchema = z.object({
   GEMINI_API_KEY: z.string().min(1).optional(),
   DEEPSEEK_API_KEY: z.string().min(1).optional(),
   GROQ_API_KEY: z.string().min(1).startsWith('gsk_').optional(),
+  OPENAI_COMPATIBLE_API_KEY: z.string().min(1).optional(),
   
   // Other API keys
   SERPER_API_KEY: z.string().min(1).optional(),
@@ -58,6 +59,7 @@ export function getEnvConfig(): EnvConfig {
       GEMINI_API_KEY: process.env.GEMINI_API_KEY,
       DEEPSEEK_API_KEY: process.env.DEEPSEEK_API_KEY,
       GROQ_API_KEY: process.env.GROQ_API_KEY,
+      OPENAI_COMPATIBLE_API_KEY: process.env.OPENAI_COMPATIBLE_API_KEY,
       
       // Other API keys
       SERPER_API_KEY: process.env.SERPER_API_KEY,
@@ -81,6 +83,7 @@ export function getEnvConfig(): EnvConfig {
       GEMINI_API_KEY: process.env.GEMINI_API_KEY,
       DEEPSEEK_API_KEY: process.env.DEEPSEEK_API_KEY,
       GROQ_API_KEY: process.env.GROQ_API_KEY,
+      OPENAI_COMPATIBLE_API_KEY: process.env.OPENAI_COMPATIBLE_API_KEY,
       SERPER_API_KEY: process.env.SERPER_API_KEY,
       FIRECRAWL_API_KEY: process.env.FIRECRAWL_API_KEY,
       ALPHAVANTAGE_API_KEY: process.env.ALPHAVANTAGE_API_KEY,
@@ -141,7 +144,8 @@ export function getProviderApiKey(
     'openai': process.env.OPENAI_API_KEY, 
     'gemini': process.env.GEMINI_API_KEY,
     'deepseek': process.env.DEEPSEEK_API_KEY,
-    'groq': process.env.GROQ_API_KEY
+    'groq': process.env.GROQ_API_KEY,
+    'openai-compatible': process.env.OPENAI_COMPATIBLE_API_KEY
   };
   
   return envVarMap[provider] || null;
@@ -165,7 +169,8 @@ export function debugDirectEnvAccess(provider: LLMProvider): string | null {
     'openai': 'OPENAI_API_KEY',
     'gemini': 'GEMINI_API_KEY',
     'deepseek': 'DEEPSEEK_API_KEY',
-    'groq': 'GROQ_API_KEY'
+    'groq': 'GROQ_API_KEY',
+    'openai-compatible': 'OPENAI_COMPATIBLE_API_KEY'
   };
   
   const envVar = envVarMap[provider];
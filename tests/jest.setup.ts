@@ -35,12 +35,15 @@ afterAll(() => {
   console.groupEnd = originalConsoleGroupEnd;
 });
 
-// Assign fetch to the global object
-(global as any).fetch = fetch;
+// Assign fetch to the global object, keeping Node's own where the environment has it
+// (tests under @jest-environment node talk to local servers with Web streams)
+if (typeof (global as any).fetch === 'undefined') {
+  (global as any).fetch = fetch;
 
-// Mock the Request and Response classes
-(global as any).Request = Request;
-(global as any).Response = Response;
+  // Mock the Request and Response classes
+  (global as any).Request = Request;
+  (global as any).Response = Response;
+}
 
 // Polyfill other globals if needed
 global.TextEncoder = require('util').TextEncoder;
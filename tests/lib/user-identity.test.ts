@@ -0,0 +1,44 @@
+/**
+ * @jest-environment node
+ */
+
+import { NextRequest } from 'next/server';
+import { USER_ID_COOKIE, getUserId, resolveUserId, setUserIdCookie } from '@/lib/user-identity';
+
+jest.mock('agentdock-core', () => ({
+  logger: { warn: jest.fn() },
+  LogCategory: { API: 'api' }
+}));
+
+const requestWithCookie = (cookie?: string) =>
+  new NextRequest('http://localhost/api/sessions/search', cookie ? { headers: { cookie } } : undefined);
+
+async function issueCookie(): Promise<{ userId: string; cookie: string }> {
+  const { userId, issued } = await resolveUserId(requestWithCookie());
+  expect(issued).toBe(true);
+
+  const response = new Response(null);
+  await setUserIdCookie(response, userId);
+  const setCookie = response.headers.get('set-cookie') || '';
+  expect(setCookie).toContain('HttpOnly');
+
+  return { userId, cookie: setCookie.split(';')[0] };
+}
+
+describe('user identity', () => {
+  it('issues a user ID and reads it back from the signed cookie', async () => {
+    const { userId, cookie } = await issueCookie();
+
+    expect(await getUserId(requestWithCookie(cookie))).toBe(userId);
+    expect(await resolveUserId(requestWithCookie(cookie))).toEqual({ userId, issued: false });
+  });
+
+  it('rejects a missing, unsigned or tampered cookie', async () => {
+    const { cookie } = await issueCookie();
+    const signature = cookie.slice(cookie.lastIndexOf('.') + 1);
+
+    expect(await getUserId(requestWithCookie())).toBeNull();
+    expect(await getUserId(requestWithCookie(`${USER_ID_COOKIE}=someone-else`))).toBeNull();
+    expect(await getUserId(requestWithCookie(`${USER_ID_COOKIE}=someone-else.${signature}`))).toBeNull();
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * @jest-environment node
+ */
+
+// First, so its mocks apply to the imports below
+import { json, mockRecordId, setupSalesforceMockServer } from './setup';
+import {
+  salesforceBulkQueryTool,
+  salesforceBulkIngestTool,
+  salesforceBulkJobStatusTool
+} from '@/nodes/salesforce';
+import {
+  SalesforceClient,
+  getBulkJobRegistration,
+  streamBulkQueryCsv,
+  streamBulkQueryResults
+} from '@/nodes/salesforce/api';
+
+const JOBS_PATH = '/services/data/v60.0/jobs';
+
+// The mock org finishes its jobs at once and returns their results in one page, so an
+// export that is still running, with results over two pages, is answered here instead
+const SLOW_JOB_ID = mockRecordId('750', 900);
+
+describe('Salesforce bulk tools', () => {
+  let slowJobState: string | undefined;
+
+  const mock = setupSalesforceMockServer({
+    intercept: request => {
+      if (request.method === 'POST' && request.path === `${JOBS_PATH}/query` && slowJobState) {
+        return json(200, { id: SLOW_JOB_ID, operation: 'query', object: 'Contact', state: 'UploadComplete' });
+      }
+
+      if (request.path === `${JOBS_PATH}/query/${SLOW_JOB_ID}`) {
+        const state = slowJobState || 'JobComplete';
+        return json(200, {
+          id: SLOW_JOB_ID,
+          operation: 'query',
+          object: 'Contact',
+          state,
+          ...(state === 'JobComplete' ? { numberRecordsProcessed: 3 } : {})
+        });
+      }
+
+      if (request.path === `${JOBS_PATH}/query/${SLOW_JOB_ID}/results`) {
+        // Two pages of results, unless the caller only wants a preview of the first
+        const secondPage = request.query.get('locator') === 'page2';
+        return {
+          status: 200,
+          text: secondPage
+            ? '"Id","Name"\n"003000000000003AAA","Carol"\n'
+            : '"Id","Name"\n"003000000000001AAA","Alice"\n"003000000000002AAA","Bob, Jr."\n',
+          headers: {
+            'Content-Type': 'text/csv',
+            'Sforce-Locator': secondPage || request.query.get('maxRecords') === '1' ? 'null' : 'page2',
+            'Sforce-NumberOfRecords': secondPage ? '1' : '2'
+          }
+        };
+      }
+
+      return undefined;
+    }
+  });
+
+  beforeEach(() => {
+    slowJobState = undefined;
+  });
+
+  const execOptions = (sessionId = 'session-1', approved = false) => ({
+    toolCallId: 'call-1',
+    sessionId,
+    approved,
+    nodeConfigurations: { salesforce: { instanceUrl: mock.server.url, apiVersion: '60.0' } }
+  });
+
+  const createClient = () => {
+    const { url: instanceUrl, accessToken } = mock.server;
+    return new SalesforceClient(
+      { instanceUrl, apiVersion: '60.0', maxRecords: 2000, describeCacheTtlSeconds: 60, apexAllowlist: [] },
+      {
+        getSession: async () => ({ accessToken, instanceUrl }),
+        refreshSession: async () => ({ accessToken, instanceUrl })
+      }
+    );
+  };
+
+  it('exports records with a preview and a CSV download link', async () => {
+    const result = await salesforceBulkQueryTool.execute({ soql: 'SELECT Id, Name FROM Contact' }, execOptions());
+
+    const jobId = result.data.job.id;
+    expect(result.type).toBe('salesforce_bulk_job_result');
+    expect(result.content).toContain(`Job \`${jobId}\` is **JobComplete** (4 records processed)`);
+    expect(result.content).toContain('| Ada Lovelace |');
+    expect(result.content).toContain(`[Download all results as CSV](/api/salesforce/bulk/${jobId}/results?sessionId=session-1)`);
+    expect(JSON.parse(mock.server.requests[0].body)).toMatchObject({ operation: 'query', query: 'SELECT Id, Name FROM Contact' });
+  });
+
+  it('remembers running jobs so their status can be checked in a later turn', async () => {
+    slowJobState = 'InProgress';
+    const started = await salesforceBulkQueryTool.execute(
+      { soql: 'SELECT Id, Name FROM Contact', waitSeconds: 0 },
+      execOptions('session-2')
+    );
+    expect(started.content).toContain('is **InProgress**');
+    expect(started.content).toContain('still running');
+    expect(started.data.downloadUrl).toBeUndefined();
+
+    slowJobState = 'JobComplete';
+    const status = await salesforceBulkJobStatusTool.execute({}, execOptions('session-2'));
+    expect(status.data.job.id).toBe(SLOW_JOB_ID);
+    expect(status.data.downloadUrl).toBe(`/api/salesforce/bulk/${SLOW_JOB_ID}/results?sessionId=session-2`);
+  });
+
+  it('reports when no bulk jobs were started in the session', async () => {
+    const result = await salesforceBulkJobStatusTool.execute({}, execOptions('session-empty'));
+
+    expect(result.content).toContain('No bulk jobs have been started in this conversation.');
+    expect(mock.server.requests).toHaveLength(0);
+  });
+
+  it('follows the Sforce-Locator header across result pages', async () => {
+    const pages = [];
+    for await (const page of streamBulkQueryResults(createClient(), SLOW_JOB_ID, 2)) {
+      pages.push(page.records);
+    }
+
+    expect(pages).toEqual([2, 1]);
+    expect(mock.server.requests[1].url).toContain('locator=page2');
+  });
+
+  it('asks for approval before loading records', async () => {
+    const params = {
+      object: 'Contact',
+      operation: 'insert' as const,
+      records: [{ LastName: 'Smith', Email: 'smith@example.com' }, { Email: 'nolastname@example.com' }]
+    };
+
+    const result = await salesforceBulkIngestTool.execute(params, execOptions());
+
+    expect(result.type).toBe('tool_approval_required');
+    expect(result.content).toContain('## Approval Required: Bulk insert of 2 Contact records');
+    expect(result.data).toMatchObject({ toolName: 'salesforce_bulk_ingest', args: params, object: 'Contact' });
+    expect(mock.server.requests).toHaveLength(0);
+  });
+
+  it('uploads CSV once approved and lists failed rows', async () => {
+    const result = await salesforceBulkIngestTool.execute({
+      object: 'Contact',
+      operation: 'insert',
+      records: [{ LastName: 'Smith', Email: 'smith@example.com' }, { Email: 'nolastname@example.com' }]
+    }, execOptions('session-3', true));
+
+    const upload = mock.server.requests.find(request => request.method === 'PUT');
+    expect(upload?.body).toBe('LastName,Email\nSmith,smith@example.com\n,nolastname@example.com\n');
+    expect(JSON.parse(mock.server.requests.find(request => request.method === 'PATCH')!.body)).toEqual({ state: 'UploadComplete' });
+    expect(result.content).toContain('(2 records processed, 1 failed)');
+    expect(result.content).toContain('## Failed Rows (1)');
+    expect(result.content).toContain('REQUIRED_FIELD_MISSING');
+    expect(mock.dataset.list('Contact').some(contact => contact.Email === 'smith@example.com')).toBe(true);
+  });
+
+  it('joins result pages into a single CSV document', async () => {
+    const chunks = [];
+    for await (const chunk of streamBulkQueryCsv(createClient(), SLOW_JOB_ID)) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks.join('')).toBe(
+      '"Id","Name"\n"003000000000001AAA","Alice"\n"003000000000002AAA","Bob, Jr."\n"003000000000003AAA","Carol"\n'
+    );
+  });
+
+  it('registers exports for download only in the session that started them', async () => {
+    const result = await salesforceBulkQueryTool.execute({ soql: 'SELECT Id, Name FROM Contact' }, execOptions('session-4'));
+    const jobId = result.data.job.id;
+
+    expect(await getBulkJobRegistration('session-4', jobId)).toMatchObject({
+      jobId,
+      kind: 'query',
+      object: 'Contact',
+      salesforceConfig: { instanceUrl: mock.server.url, apiVersion: '60.0' }
+    });
+    expect(await getBulkJobRegistration('someone-else', jobId)).toBeNull();
+  });
+});
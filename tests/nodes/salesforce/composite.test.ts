@@ -0,0 +1,133 @@
+/**
+ * @jest-environment node
+ */
+
+// First, so its mocks apply to the imports below
+import { setupSalesforceMockServer } from './setup';
+import path from 'path';
+import { salesforceApexCallTool, salesforceCompositeTool } from '@/nodes/salesforce';
+import { isApexPathAllowed, normalizeApexPath, assertValidSubrequests } from '@/nodes/salesforce/api';
+import { APPROVAL_REQUIRED_RESULT_TYPE } from '@/nodes/salesforce/api/constants';
+
+describe('Salesforce Apex REST and composite tools', () => {
+  const mock = setupSalesforceMockServer({ fixturesDir: path.join(__dirname, 'fixtures', 'composite') });
+
+  const execOptions = (approved = false) => ({
+    toolCallId: 'call-1',
+    sessionId: 'session-1',
+    approved,
+    nodeConfigurations: {
+      salesforce: { instanceUrl: mock.server.url, apiVersion: '60.0', apexAllowlist: ['/AccountHealth/*'] }
+    }
+  });
+
+  describe('salesforce_apex_call', () => {
+    it('calls an allowlisted GET endpoint without approval', async () => {
+      const result = await salesforceApexCallTool.execute(
+        { method: 'GET', path: '/services/apexrest/AccountHealth/0015e00000AcmeAAA' },
+        execOptions()
+      );
+
+      expect(result.type).toBe('salesforce_apex_result');
+      expect(result.data).toEqual({
+        method: 'GET',
+        path: '/AccountHealth/0015e00000AcmeAAA',
+        status: 200,
+        body: { accountId: '0015e00000AcmeAAA', score: 82, risk: 'Low' }
+      });
+      expect(result.content).toContain('"score": 82');
+    });
+
+    it('refuses paths outside the allowlist without calling the API', async () => {
+      const result = await salesforceApexCallTool.execute({ method: 'GET', path: '/Payroll/run' }, execOptions());
+
+      expect(result.content).toContain('## Salesforce Apex REST Error');
+      expect(result.content).toContain('Allowed paths: /AccountHealth/*');
+      expect(mock.server.requests).toHaveLength(0);
+    });
+
+    it('asks for approval before a POST', async () => {
+      const result = await salesforceApexCallTool.execute(
+        { method: 'POST', path: '/AccountHealth/0015e00000AcmeAAA', body: { recalculate: true } },
+        execOptions()
+      );
+
+      expect(result.type).toBe(APPROVAL_REQUIRED_RESULT_TYPE);
+      expect(result.content).toContain('## Approval Required: POST /AccountHealth/0015e00000AcmeAAA');
+      expect(mock.server.requests).toHaveLength(0);
+    });
+
+    it('matches allowlist patterns by path segment and rejects traversal', () => {
+      expect(isApexPathAllowed('/AccountHealth/001', ['/AccountHealth/*'])).toBe(true);
+      expect(isApexPathAllowed('/AccountHealth/001/history', ['/AccountHealth/*'])).toBe(false);
+      expect(isApexPathAllowed('/AccountHealth/001/history', ['/AccountHealth/**'])).toBe(true);
+      expect(() => normalizeApexPath('/AccountHealth/../Payroll')).toThrow('Invalid Apex REST path');
+      expect(() => normalizeApexPath('https://evil.example/AccountHealth')).toThrow('not full URLs');
+    });
+  });
+
+  describe('salesforce_composite', () => {
+    const subrequests = [
+      { referenceId: 'refAccount', method: 'POST' as const, url: '/sobjects/Account', body: { Name: 'Globex' } },
+      { referenceId: 'refContact', method: 'POST' as const, url: '/sobjects/Contact', body: { AccountId: '@{refAccount.id}' } },
+      {
+        referenceId: 'refOpportunity',
+        method: 'POST' as const,
+        url: '/sobjects/Opportunity',
+        body: { Name: 'Globex renewal', AccountId: '@{refAccount.id}', StageName: 'Prospecting' }
+      }
+    ];
+
+    it('asks for approval, listing each subrequest', async () => {
+      const result = await salesforceCompositeTool.execute({ mode: 'composite', allOrNone: true, subrequests }, execOptions());
+
+      expect(result.type).toBe(APPROVAL_REQUIRED_RESULT_TYPE);
+      expect(result.content).toContain('## Approval Required: 3 Salesforce subrequests');
+      expect(result.content).toContain('| refContact | POST | /sobjects/Contact |');
+      expect(mock.server.requests).toHaveLength(0);
+    });
+
+    it('summarises failures and rollbacks per subrequest', async () => {
+      const result = await salesforceCompositeTool.execute({ mode: 'composite', allOrNone: true, subrequests }, execOptions(true));
+
+      const sent = JSON.parse(mock.server.requests[0].body);
+      expect(sent.allOrNone).toBe(true);
+      expect(sent.compositeRequest[1]).toEqual({
+        method: 'POST',
+        url: '/services/data/v60.0/sobjects/Contact',
+        referenceId: 'refContact',
+        body: { AccountId: '@{refAccount.id}' }
+      });
+
+      expect(result.type).toBe('salesforce_composite_result');
+      expect(result.data.hasErrors).toBe(true);
+      expect(result.data.results.map((entry: { rolledBack?: boolean }) => Boolean(entry.rolledBack))).toEqual([true, false, true]);
+      expect(result.content).toContain('0 of 3 subrequests succeeded, 1 failed');
+      expect(result.content).toContain('| refAccount | POST /services/data/v60.0/sobjects/Account | Rolled back (201) |');
+      expect(result.content).toContain('### refContact\n- **REQUIRED_FIELD_MISSING:** Required fields are missing: [LastName] (fields: LastName)');
+      expect(result.content).toContain('**Nothing was saved:**');
+    });
+
+    it('rejects references to later or unknown subrequests', () => {
+      expect(() => assertValidSubrequests([subrequests[1], subrequests[0]])).toThrow('refers to @{refAccount...}');
+      expect(() => assertValidSubrequests([subrequests[0], subrequests[0]])).toThrow('Duplicate referenceId: refAccount');
+    });
+
+    it('reports the records that failed in an sObject tree', async () => {
+      const result = await salesforceCompositeTool.execute({
+        mode: 'tree',
+        allOrNone: true,
+        object: 'Account',
+        records: [{ Name: 'Initech', Contacts: { records: [{ attributes: { type: 'Contact' }, LastName: 'Lovelace', Email: 'ada@' }] } }]
+      }, execOptions(true));
+
+      const sent = JSON.parse(mock.server.requests[0].body);
+      expect(sent.records[0].attributes).toEqual({ type: 'Account', referenceId: 'ref1' });
+      expect(sent.records[0].Contacts.records[0].attributes).toEqual({ type: 'Contact', referenceId: 'ref2' });
+
+      expect(result.data).toMatchObject({ mode: 'tree', hasErrors: true });
+      expect(result.content).toContain('# Salesforce Record Tree: Account');
+      expect(result.content).toContain('- **INVALID_EMAIL_ADDRESS:** Email: invalid email address: ada@ (fields: Email)');
+    });
+  });
+});
@@ -0,0 +1,293 @@
+/**
+ * @jest-environment node
+ */
+
+// First, so its mocks apply to the imports below
+import { MockRequest, SalesforceMockServer, json, startSalesforceMockServer } from './setup';
+import { createVerify, generateKeyPairSync } from 'crypto';
+import { MemoryStorageProvider } from 'agentdock-core/storage/providers/memory-provider';
+import {
+  MAX_CACHED_CLIENTS,
+  SalesforceConnectionManager,
+  assertAllowedLoginUrl,
+  getCredentialsFromEnv
+} from '@/nodes/salesforce/api';
+import { SalesforceCredentials } from '@/nodes/salesforce/schema';
+import { SalesforceApiError } from '@/nodes/salesforce/utils';
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+  modulusLength: 2048,
+  privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+  publicKeyEncoding: { type: 'spki', format: 'pem' }
+});
+
+describe('SalesforceConnectionManager', () => {
+  let server: SalesforceMockServer;
+  let baseUrl: string;
+  let grants: URLSearchParams[];
+  let validTokens: Set<string>;
+  let issued: number;
+
+  // Issues a new token per grant and checks JWT assertions, which the mock org's own
+  // token endpoint doesn't, so every request is answered here
+  const tokenServer = (request: MockRequest) => {
+    if (request.path === '/services/oauth2/token') {
+      const grant = new URLSearchParams(request.body);
+      grants.push(grant);
+
+      if (grant.get('grant_type') === 'password' && grant.get('password') !== 'secretTOKEN') {
+        return json(400, { error: 'invalid_grant', error_description: 'authentication failure' });
+      }
+
+      if (grant.get('grant_type') === 'urn:ietf:params:oauth:grant-type:jwt-bearer') {
+        const [header, claims, signature] = (grant.get('assertion') || '').split('.');
+        const verifier = createVerify('RSA-SHA256');
+        verifier.update(`${header}.${claims}`);
+        const payload = JSON.parse(Buffer.from(claims, 'base64url').toString());
+        if (!verifier.verify(publicKey, Buffer.from(signature, 'base64url')) || payload.sub !== 'jwt@example.com') {
+          return json(400, { error: 'invalid_grant', error_description: 'invalid assertion' });
+        }
+      }
+
+      const accessToken = `token-${++issued}`;
+      validTokens.add(accessToken);
+      return json(200, {
+        access_token: accessToken,
+        instance_url: baseUrl,
+        token_type: 'Bearer',
+        issued_at: String(Date.now()),
+        ...(grant.get('grant_type') === 'refresh_token' ? {} : { refresh_token: 'refresh-1' })
+      });
+    }
+
+    const token = (request.headers.authorization || '').replace('Bearer ', '');
+    if (!validTokens.has(token)) {
+      return json(401, [{ message: 'Session expired or invalid', errorCode: 'INVALID_SESSION_ID' }]);
+    }
+    return json(200, { token });
+  };
+
+  beforeAll(async () => {
+    server = await startSalesforceMockServer({ intercept: tokenServer });
+    baseUrl = server.url;
+    // The mock token endpoint is only reachable as the server-configured login URL
+    process.env.SALESFORCE_LOGIN_URL = baseUrl;
+  });
+
+  afterAll(async () => {
+    delete process.env.SALESFORCE_LOGIN_URL;
+    await server.close();
+  });
+
+  beforeEach(() => {
+    grants = [];
+    validTokens = new Set();
+    issued = 0;
+  });
+
+  const passwordCredentials = () => ({
+    flow: 'password' as const,
+    loginUrl: baseUrl,
+    clientId: 'client-id',
+    clientSecret: 'client-secret',
+    username: 'user@example.com',
+    password: 'secret',
+    securityToken: 'TOKEN'
+  });
+
+  const connectSession = async (manager: SalesforceConnectionManager, sessionId: string, credentials: SalesforceCredentials = passwordCredentials()) => {
+    const { connectionId } = await manager.connect(credentials);
+    await manager.linkSession(sessionId, connectionId);
+    return connectionId;
+  };
+
+  it('authenticates once per connection and shares the client', async () => {
+    const manager = new SalesforceConnectionManager(new MemoryStorageProvider());
+    await connectSession(manager, 'session-a');
+
+    const client = manager.getConnection('session-a');
+    await client.request('/services/data/v62.0/limits');
+    await manager.getConnection('session-a').request('/services/data/v62.0/limits');
+
+    expect(manager.getConnection('session-a')).toBe(client);
+    expect(grants).toHaveLength(1);
+    expect(grants[0].get('grant_type')).toBe('password');
+    expect(grants[0].get('password')).toBe('secretTOKEN');
+    expect(client.instanceUrl).toBe(baseUrl);
+  });
+
+  it('stores only encrypted tokens, never the credentials', async () => {
+    const storage = new MemoryStorageProvider();
+    const manager = new SalesforceConnectionManager(storage);
+    await connectSession(manager, 'session-secret');
+
+    const keys = await storage.list('salesforce:');
+    const values = await Promise.all(keys.map(key => storage.get(key)));
+    const stored = JSON.stringify(values);
+
+    expect(keys).toHaveLength(2);
+    expect(stored).not.toContain('client-secret');
+    expect(stored).not.toContain('secretTOKEN');
+    expect(stored).not.toContain('token-1');
+    expect(stored).not.toContain('refresh-1');
+    expect((await manager.getSession('session-secret')).accessToken).toBe('token-1');
+  });
+
+  it('refreshes the token when a call returns INVALID_SESSION_ID', async () => {
+    const manager = new SalesforceConnectionManager(new MemoryStorageProvider());
+    await connectSession(manager, 'session-b');
+    const client = manager.getConnection('session-b');
+
+    await client.request('/services/data/v62.0/limits');
+    validTokens.clear();
+    const result = await client.request<{ token: string }>('/services/data/v62.0/limits');
+
+    expect(result.token).toBe('token-2');
+    expect(grants.map(grant => grant.get('grant_type'))).toEqual(['password', 'refresh_token']);
+    expect(grants[1].get('refresh_token')).toBe('refresh-1');
+    expect(grants[1].get('client_secret')).toBeNull();
+  });
+
+  it('signs a JWT bearer assertion with the private key', async () => {
+    const manager = new SalesforceConnectionManager(new MemoryStorageProvider());
+    await connectSession(manager, 'session-c', {
+      flow: 'jwt',
+      loginUrl: baseUrl,
+      clientId: 'client-id',
+      username: 'jwt@example.com',
+      privateKey
+    });
+
+    const result = await manager.getConnection('session-c').request<{ token: string }>('/services/data/v62.0/limits');
+
+    expect(result.token).toBe('token-1');
+    expect(grants[0].get('grant_type')).toBe('urn:ietf:params:oauth:grant-type:jwt-bearer');
+  });
+
+  it('keeps tokens separate per connection', async () => {
+    const manager = new SalesforceConnectionManager(new MemoryStorageProvider());
+    await connectSession(manager, 'session-d');
+    await connectSession(manager, 'session-e');
+
+    const first = await manager.getSession('session-d');
+    const second = await manager.getSession('session-e');
+
+    expect(first.accessToken).not.toBe(second.accessToken);
+    expect(await manager.getSession('session-d')).toEqual(first);
+  });
+
+  it('switches a session to a new connection', async () => {
+    const manager = new SalesforceConnectionManager(new MemoryStorageProvider());
+    await connectSession(manager, 'session-f');
+    await manager.getSession('session-f');
+
+    await connectSession(manager, 'session-f', { ...passwordCredentials(), username: 'other@example.com' });
+    const session = await manager.getSession('session-f');
+
+    expect(session.accessToken).toBe('token-2');
+  });
+
+  it('keeps the clients of the most recently used sessions', async () => {
+    const manager = new SalesforceConnectionManager(new MemoryStorageProvider());
+    const first = manager.getConnection('session-0');
+    const second = manager.getConnection('session-1');
+
+    for (let i = 2; i < MAX_CACHED_CLIENTS; i++) {
+      manager.getConnection(`session-${i}`);
+    }
+    expect(manager.getConnection('session-0')).toBe(first);
+
+    manager.getConnection('session-new');
+    expect(manager.getConnection('session-0')).toBe(first);
+    expect(manager.getConnection('session-1')).not.toBe(second);
+  });
+
+  it('ignores unknown connection IDs', async () => {
+    const manager = new SalesforceConnectionManager(new MemoryStorageProvider());
+    const connectionId = await connectSession(manager, 'session-h');
+
+    expect(await manager.hasConnection(connectionId)).toBe(true);
+    expect(await manager.hasConnection('not-a-connection')).toBe(false);
+    expect(await manager.linkSession('session-i', 'not-a-connection')).toBe(false);
+    await expect(manager.getSession('session-i')).rejects.toThrow('Salesforce is not connected');
+  });
+
+  it('surfaces OAuth errors', async () => {
+    const manager = new SalesforceConnectionManager(new MemoryStorageProvider());
+
+    const error = await manager.connect({ ...passwordCredentials(), password: 'wrong' }).catch(e => e);
+
+    expect(error).toBeInstanceOf(SalesforceApiError);
+    expect(error.errorCode).toBe('invalid_grant');
+    expect(error.message).toBe('authentication failure');
+  });
+
+  it('refuses login URLs outside Salesforce', async () => {
+    const manager = new SalesforceConnectionManager(new MemoryStorageProvider());
+
+    await expect(manager.connect({ ...passwordCredentials(), loginUrl: 'http://169.254.169.254' })).rejects.toThrow('is not allowed');
+    expect(grants).toHaveLength(0);
+  });
+
+  describe('shared connection', () => {
+    beforeEach(() => {
+      process.env.SALESFORCE_ACCESS_TOKEN = 'shared-token';
+      process.env.SALESFORCE_INSTANCE_URL = baseUrl;
+    });
+
+    afterEach(() => {
+      delete process.env.SALESFORCE_ACCESS_TOKEN;
+      delete process.env.SALESFORCE_INSTANCE_URL;
+      delete process.env.SALESFORCE_SHARED_CONNECTION;
+    });
+
+    it('is not used unless SALESFORCE_SHARED_CONNECTION is true', async () => {
+      const manager = new SalesforceConnectionManager(new MemoryStorageProvider());
+
+      await expect(manager.getSession('session-h')).rejects.toThrow('Salesforce is not connected');
+    });
+
+    it('serves sessions without their own connection when enabled', async () => {
+      process.env.SALESFORCE_SHARED_CONNECTION = 'true';
+      const manager = new SalesforceConnectionManager(new MemoryStorageProvider());
+
+      expect(await manager.getSession('session-h')).toEqual({ accessToken: 'shared-token', instanceUrl: baseUrl });
+    });
+  });
+});
+
+describe('Salesforce credentials', () => {
+  const originalEnv = process.env;
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('allows only Salesforce login hosts', () => {
+    expect(assertAllowedLoginUrl('https://login.salesforce.com/')).toBe('https://login.salesforce.com');
+    expect(assertAllowedLoginUrl('https://test.salesforce.com')).toBe('https://test.salesforce.com');
+    expect(assertAllowedLoginUrl('https://acme.my.salesforce.com')).toBe('https://acme.my.salesforce.com');
+
+    expect(() => assertAllowedLoginUrl('http://login.salesforce.com')).toThrow('is not allowed');
+    expect(() => assertAllowedLoginUrl('https://login.salesforce.com.example.com')).toThrow('is not allowed');
+    expect(() => assertAllowedLoginUrl('https://login.salesforce.com:8443')).toThrow('is not allowed');
+    expect(() => assertAllowedLoginUrl('https://acme.my.salesforce.com/internal')).toThrow('is not allowed');
+    expect(() => assertAllowedLoginUrl('not a url')).toThrow('Invalid Salesforce login URL');
+  });
+
+  it('allows the login URL configured on the server', () => {
+    process.env = { ...originalEnv, SALESFORCE_LOGIN_URL: 'http://localhost:8080' };
+
+    expect(assertAllowedLoginUrl('http://localhost:8080/')).toBe('http://localhost:8080');
+  });
+
+  it('infers the flow from environment variables', () => {
+    process.env = {
+      ...originalEnv,
+      SALESFORCE_CLIENT_ID: 'id',
+      SALESFORCE_REFRESH_TOKEN: 'refresh'
+    };
+
+    expect(getCredentialsFromEnv()).toEqual({ flow: 'refresh_token', clientId: 'id', refreshToken: 'refresh' });
+  });
+});
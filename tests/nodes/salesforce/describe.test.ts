@@ -0,0 +1,146 @@
+/**
+ * @jest-environment node
+ */
+
+// First, so its mocks apply to the imports below
+import { json, setupSalesforceMockServer } from './setup';
+import { MemoryStorageProvider } from 'agentdock-core/storage/providers/memory-provider';
+import { salesforceDescribeTool } from '@/nodes/salesforce';
+import {
+  SalesforceClient,
+  SalesforceMetadataCache,
+  parseSoqlSelect,
+  suggestNames
+} from '@/nodes/salesforce/api';
+
+// Metadata the seed org can't describe: inactive picklist values, a custom object,
+// a non-queryable object and a child relationship without a name
+const sobjects = [
+  { name: 'Account', label: 'Account', custom: false, queryable: true },
+  { name: 'Opportunity', label: 'Opportunity', custom: false, queryable: true },
+  { name: 'Invoice__c', label: 'Invoice', custom: true, queryable: true },
+  { name: 'AccountChangeEvent', label: 'Account Change Event', custom: false, queryable: false }
+];
+
+const opportunityDescribe = {
+  name: 'Opportunity',
+  label: 'Opportunity',
+  custom: false,
+  fields: [
+    { name: 'Id', label: 'Opportunity ID', type: 'id', custom: false, nillable: false, createable: false, defaultedOnCreate: true, updateable: false, externalId: false, referenceTo: [], relationshipName: null, picklistValues: [] },
+    { name: 'Name', label: 'Name', type: 'string', custom: false, nillable: false, createable: true, defaultedOnCreate: false, updateable: true, externalId: false, referenceTo: [], relationshipName: null, picklistValues: [] },
+    {
+      name: 'StageName', label: 'Stage', type: 'picklist', custom: false, nillable: false, createable: true, defaultedOnCreate: false, updateable: true, externalId: false, referenceTo: [], relationshipName: null,
+      picklistValues: [
+        { value: 'Prospecting', active: true },
+        { value: 'Closed Won', active: true },
+        { value: 'Retired', active: false }
+      ]
+    },
+    { name: 'AccountId', label: 'Account ID', type: 'reference', custom: false, nillable: true, createable: true, defaultedOnCreate: false, updateable: true, externalId: false, referenceTo: ['Account'], relationshipName: 'Account', picklistValues: [] }
+  ],
+  childRelationships: [
+    { childSObject: 'OpportunityLineItem', field: 'OpportunityId', relationshipName: 'OpportunityLineItems' },
+    { childSObject: 'OpportunityHistory', field: 'OpportunityId', relationshipName: null }
+  ]
+};
+
+describe('salesforce_describe', () => {
+  const mock = setupSalesforceMockServer({
+    intercept: request => {
+      if (request.path === '/services/data/v60.0/sobjects') return json(200, { sobjects });
+      if (request.path === '/services/data/v60.0/sobjects/Opportunity/describe') return json(200, opportunityDescribe);
+      return undefined;
+    }
+  });
+
+  const requestUrls = () => mock.server.requests.map(request => request.url);
+
+  const execOptions = () => ({
+    toolCallId: 'call-1',
+    sessionId: 'session-1',
+    nodeConfigurations: { salesforce: { instanceUrl: mock.server.url, apiVersion: '60.0' } }
+  });
+
+  const createClient = () => {
+    const { url: instanceUrl, accessToken } = mock.server;
+    return new SalesforceClient(
+      { instanceUrl, apiVersion: '60.0', maxRecords: 2000, describeCacheTtlSeconds: 60, apexAllowlist: [] },
+      {
+        getSession: async () => ({ accessToken, instanceUrl }),
+        refreshSession: async () => ({ accessToken, instanceUrl })
+      }
+    );
+  };
+
+  it('summarizes fields, picklist values and relationships', async () => {
+    const result = await salesforceDescribeTool.execute({ object: 'Opportunity', refresh: true }, execOptions());
+
+    expect(result.type).toBe('salesforce_describe_result');
+    expect(result.content).toContain('| StageName | Stage | picklist | required; values: Prospecting, Closed Won |');
+    expect(result.content).toContain('| AccountId | Account ID | reference | → Account via Account |');
+    expect(result.content).toContain('- OpportunityLineItems (OpportunityLineItem.OpportunityId)');
+    expect(result.content).not.toContain('Retired');
+    expect(result.data.fields).toHaveLength(4);
+  });
+
+  it('lists queryable objects filtered by a search term', async () => {
+    const result = await salesforceDescribeTool.execute({ search: 'inv' }, execOptions());
+
+    expect(result.content).toContain('1 queryable objects matching "inv"');
+    expect(result.content).toContain('| Invoice__c | Invoice | yes |');
+    expect(result.data.sobjects.map((sobject: { name: string }) => sobject.name)).not.toContain('AccountChangeEvent');
+  });
+
+  it('reports unknown objects', async () => {
+    const result = await salesforceDescribeTool.execute({ object: 'Nope__c' }, execOptions());
+
+    expect(result.content).toContain('## Salesforce Describe Error');
+    expect(result.data.error).toContain('NOT_FOUND');
+  });
+
+  it('caches describe results per org until refreshed', async () => {
+    const cache = new SalesforceMetadataCache(new MemoryStorageProvider());
+    const client = createClient();
+
+    await cache.describeSObject(client, 'Opportunity');
+    await cache.describeSObject(client, 'opportunity');
+    expect(requestUrls()).toHaveLength(1);
+
+    await cache.describeSObject(client, 'Opportunity', true);
+    expect(requestUrls()).toHaveLength(2);
+  });
+
+  it('expires cached metadata after the configured TTL', async () => {
+    jest.useFakeTimers({ now: Date.now(), doNotFake: ['nextTick', 'setImmediate'] });
+    try {
+      const cache = new SalesforceMetadataCache(new MemoryStorageProvider());
+      const client = createClient();
+
+      await cache.describeGlobal(client);
+      jest.setSystemTime(Date.now() + 61 * 1000);
+      await cache.describeGlobal(client);
+
+      expect(requestUrls()).toEqual(['/services/data/v60.0/sobjects', '/services/data/v60.0/sobjects']);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
+
+describe('SOQL metadata helpers', () => {
+  it('suggests close field names', () => {
+    const fields = ['Amount', 'ExpectedRevenue', 'CloseDate', 'StageName'];
+
+    expect(suggestNames('Revenue__c', fields)).toEqual(['ExpectedRevenue']);
+    expect(suggestNames('Stage', fields)).toEqual(['StageName']);
+    expect(suggestNames('Unrelated', fields)).toEqual([]);
+  });
+
+  it('parses the outer SELECT, skipping subqueries and aggregates', () => {
+    expect(parseSoqlSelect(
+      "SELECT Id, Account.Name acct, (SELECT Id FROM Contacts), COUNT(Id) FROM Opportunity WHERE Name = 'a, b from c'"
+    )).toEqual({ object: 'Opportunity', fields: ['Id', 'Account.Name'] });
+    expect(parseSoqlSelect('FIND {Acme}')).toBeNull();
+  });
+});
@@ -0,0 +1,276 @@
+/**
+ * @jest-environment node
+ */
+
+// First, so its mocks apply to the imports below
+import {
+  MockDataset,
+  MockSalesforceError,
+  SCRUBBED_INSTANCE_URL,
+  SCRUBBED_VALUE,
+  executeSoql,
+  mockRecordId,
+  setupSalesforceMockServer,
+  startSalesforceMockServer
+} from './setup';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  salesforceQueryTool,
+  salesforceDescribeTool,
+  salesforceCreateRecordTool,
+  salesforceUpdateRecordTool,
+  salesforceDeleteRecordTool,
+  salesforceCompositeTool,
+  salesforceBulkQueryTool,
+  salesforceBulkIngestTool,
+  salesforceRunReportTool,
+  salesforceGetDashboardTool
+} from '@/nodes/salesforce';
+import { SalesforceConnectionManager } from '@/nodes/salesforce/api';
+import { MemoryStorageProvider } from 'agentdock-core/storage/providers/memory-provider';
+
+const ACME_ID = mockRecordId('001', 1);
+
+describe('mock Salesforce server', () => {
+  const mock = setupSalesforceMockServer({ queryBatchSize: 3 });
+  let restore: () => void;
+
+  beforeEach(() => {
+    restore = mock.dataset.snapshot();
+  });
+
+  afterEach(() => {
+    restore();
+  });
+
+  const execOptions = () => ({
+    toolCallId: 'call-1',
+    sessionId: 'session-1',
+    nodeConfigurations: { salesforce: { instanceUrl: mock.server.url, apiVersion: '60.0' } },
+    approved: true
+  });
+
+  describe('SOQL evaluator', () => {
+    const dataset = new MockDataset();
+
+    it('filters, sorts and limits with parent relationship fields', () => {
+      const result = executeSoql(dataset, `
+        SELECT Name, Account.Name FROM Contact
+        WHERE Account.Name LIKE 'Acme%' OR (LastName IN ('Scorpio', 'Gibbons') AND NOT Phone = null)
+        ORDER BY LastName DESC LIMIT 2
+      `);
+
+      expect(result.records.map(record => record.Name)).toEqual(['Hank Scorpio', 'Ada Lovelace']);
+      expect(result.records[1]).toMatchObject({
+        attributes: { type: 'Contact' },
+        Account: { attributes: { type: 'Account' }, Name: 'Acme Corp' }
+      });
+    });
+
+    it('counts records', () => {
+      expect(executeSoql(dataset, 'SELECT COUNT() FROM Opportunity WHERE Amount > 10000').totalSize).toBe(3);
+    });
+
+    it('rejects unknown columns and unsupported syntax the way Salesforce does', () => {
+      expect(() => executeSoql(dataset, 'SELECT Nope FROM Account')).toThrow("No such column 'Nope' on entity 'Account'.");
+      expect(() => executeSoql(dataset, 'SELECT Name, (SELECT Id FROM Contacts) FROM Account')).toThrow(MockSalesforceError);
+    });
+  });
+
+  describe('REST API through the tools', () => {
+    it('runs a query and follows nextRecordsUrl pages', async () => {
+      const result = await salesforceQueryTool.execute(
+        { soql: 'SELECT Id, Name, Account.Name FROM Contact ORDER BY LastName' },
+        execOptions()
+      );
+
+      expect(result.type).toBe('salesforce_query_result');
+      expect(result.data.totalSize).toBe(4);
+      expect(result.data.records).toHaveLength(4);
+      expect(result.content).toContain('Ada Lovelace');
+      expect(mock.server.requests.some(request => request.url.includes('/query/01g'))).toBe(true);
+    });
+
+    it('describes an object from the seed schema', async () => {
+      const result = await salesforceDescribeTool.execute({ object: 'Account' }, execOptions());
+
+      expect(result.content).toContain('External_Id__c');
+      expect(result.content).toContain('Industry');
+    });
+
+    it('creates, updates and deletes records in the dataset', async () => {
+      const created = await salesforceCreateRecordTool.execute(
+        { object: 'Lead', fields: { LastName: 'Turing', Company: 'Bletchley' } },
+        execOptions()
+      );
+      const id = created.data.id as string;
+      expect(mock.dataset.get('Lead', id)).toMatchObject({ LastName: 'Turing', Company: 'Bletchley' });
+
+      await salesforceUpdateRecordTool.execute({ object: 'Lead', id, fields: { Company: 'GCHQ' } }, execOptions());
+      expect(mock.dataset.get('Lead', id)?.Company).toBe('GCHQ');
+
+      await salesforceDeleteRecordTool.execute({ object: 'Lead', id }, execOptions());
+      expect(mock.dataset.get('Lead', id)).toBeUndefined();
+    });
+
+    it('returns Salesforce validation errors', async () => {
+      const result = await salesforceCreateRecordTool.execute({ object: 'Lead', fields: { Company: 'Acme' } }, execOptions());
+
+      expect(result.data.error).toMatchObject({ errorCode: 'REQUIRED_FIELD_MISSING', fields: ['LastName'] });
+    });
+
+    it('resolves composite references and rolls back with allOrNone', async () => {
+      const ok = await salesforceCompositeTool.execute({
+        mode: 'composite',
+        allOrNone: true,
+        subrequests: [
+          { referenceId: 'refAccount', method: 'POST', url: '/sobjects/Account', body: { Name: 'Umbrella' } },
+          { referenceId: 'refContact', method: 'POST', url: '/sobjects/Contact', body: { LastName: 'Wesker', AccountId: '@{refAccount.id}' } }
+        ]
+      }, execOptions());
+
+      const contact = mock.dataset.list('Contact').find(record => record.LastName === 'Wesker');
+      expect(ok.data.hasErrors).toBe(false);
+      expect(contact?.AccountId).toBe(mock.dataset.list('Account').find(record => record.Name === 'Umbrella')?.Id);
+
+      const failed = await salesforceCompositeTool.execute({
+        mode: 'composite',
+        allOrNone: true,
+        subrequests: [
+          { referenceId: 'refAccount', method: 'POST', url: '/sobjects/Account', body: { Name: 'Tyrell' } },
+          { referenceId: 'refContact', method: 'POST', url: '/sobjects/Contact', body: { AccountId: '@{refAccount.id}' } }
+        ]
+      }, execOptions());
+
+      expect(failed.data.hasErrors).toBe(true);
+      expect(mock.dataset.list('Account').some(record => record.Name === 'Tyrell')).toBe(false);
+    });
+
+    it('exports and imports through Bulk API 2.0 jobs', async () => {
+      const exported = await salesforceBulkQueryTool.execute({ soql: 'SELECT Id, Name FROM Account' }, execOptions());
+      expect(exported.data.job).toMatchObject({ state: 'JobComplete', numberRecordsProcessed: 3 });
+      expect(exported.data.preview).toHaveLength(3);
+
+      const imported = await salesforceBulkIngestTool.execute({
+        object: 'Contact',
+        operation: 'insert',
+        records: [
+          { LastName: 'Babbage', AccountId: ACME_ID },
+          { FirstName: 'No', Email: 'not-an-email' }
+        ]
+      }, execOptions());
+
+      expect(imported.data.job).toMatchObject({ state: 'JobComplete', numberRecordsProcessed: 2, numberRecordsFailed: 1 });
+      expect(imported.content).toContain('INVALID_EMAIL_ADDRESS');
+      expect(mock.dataset.list('Contact').some(record => record.LastName === 'Babbage')).toBe(true);
+    });
+
+    it('runs summary reports and dashboards computed from the dataset', async () => {
+      const report = await salesforceRunReportTool.execute({ reportId: mockRecordId('00O', 1) }, execOptions());
+      expect(report.content).toContain('Pipeline by Stage');
+      expect(report.content).toContain('Closed Won');
+
+      mock.dataset.insert('Opportunity', { Name: 'Acme expansion', StageName: 'Closed Won', Amount: 1000, CloseDate: '2025-01-31' });
+      const dashboard = await salesforceGetDashboardTool.execute({ dashboardId: mockRecordId('01Z', 1) }, execOptions());
+      expect(dashboard.content).toContain('Sales Overview');
+      expect(dashboard.content).toContain('Pipeline');
+    });
+  });
+
+  describe('OAuth', () => {
+    it('issues tokens for the password flow and rejects bad credentials', async () => {
+      const server = await startSalesforceMockServer({ credentials: { username: 'user@example.com', password: 'secretTOKEN' } });
+      process.env.SALESFORCE_LOGIN_URL = server.url;
+      try {
+        const manager = new SalesforceConnectionManager(new MemoryStorageProvider());
+        const credentials = {
+          flow: 'password' as const,
+          loginUrl: server.url,
+          clientId: 'client-id',
+          clientSecret: 'client-secret',
+          username: 'user@example.com',
+          password: 'secret',
+          securityToken: 'TOKEN'
+        };
+
+        const { connectionId } = await manager.connect(credentials);
+        await manager.linkSession('good', connectionId);
+        const limits = await manager.getConnection('good').request<{ totalSize: number }>(
+          '/services/data/v60.0/query?q=' + encodeURIComponent('SELECT Id FROM Account')
+        );
+        expect(limits.totalSize).toBe(3);
+
+        await expect(manager.connect({ ...credentials, securityToken: 'WRONG' })).rejects.toThrow('authentication failure');
+      } finally {
+        delete process.env.SALESFORCE_LOGIN_URL;
+        await server.close();
+      }
+    });
+  });
+
+  describe('record mode', () => {
+    it('writes scrubbed fixtures that replay mode serves back', async () => {
+      const fixturesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'salesforce-fixtures-'));
+      const org = await startSalesforceMockServer({ accessToken: 'real-org-token' });
+      const recorder = await startSalesforceMockServer({
+        record: { targetUrl: org.url, accessToken: 'real-org-token', fixturesDir }
+      });
+
+      try {
+        const soql = 'SELECT Id, Name FROM Account ORDER BY Name';
+        const response = await fetch(`${recorder.url}/services/data/v60.0/query?q=${encodeURIComponent(soql)}`, {
+          headers: { Authorization: 'Bearer real-org-token' }
+        });
+        expect(response.status).toBe(200);
+
+        const files = fs.readdirSync(fixturesDir);
+        expect(files).toHaveLength(1);
+        const recorded = fs.readFileSync(path.join(fixturesDir, files[0]), 'utf8');
+        expect(recorded).not.toContain('real-org-token');
+        expect(recorded).not.toContain(org.url);
+
+        const replay = await startSalesforceMockServer({ fixturesDir });
+        try {
+          const replayed = await fetch(`${replay.url}/services/data/v60.0/query?q=${encodeURIComponent(soql)}`);
+          const body = await replayed.json() as { records: Array<{ Name: string }> };
+          expect(body.records.map(record => record.Name)).toEqual(['Acme Corp', 'Globex', 'Initech']);
+        } finally {
+          await replay.close();
+        }
+      } finally {
+        await recorder.close();
+        await org.close();
+        fs.rmSync(fixturesDir, { recursive: true, force: true });
+      }
+    });
+
+    it('scrubs tokens from token responses', async () => {
+      const fixturesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'salesforce-fixtures-'));
+      const org = await startSalesforceMockServer({ accessToken: 'issued-token' });
+      const recorder = await startSalesforceMockServer({ record: { targetUrl: org.url, fixturesDir } });
+
+      try {
+        const response = await fetch(`${recorder.url}/services/oauth2/token`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+          body: new URLSearchParams({ grant_type: 'password', username: 'u', password: 'p' }).toString()
+        });
+        const token = await response.json() as { access_token: string; instance_url: string };
+        expect(token.access_token).toBe('issued-token');
+        expect(token.instance_url).toBe(recorder.url);
+
+        const [file] = fs.readdirSync(fixturesDir);
+        const fixture = JSON.parse(fs.readFileSync(path.join(fixturesDir, file), 'utf8'));
+        expect(fixture.response.body.access_token).toBe(SCRUBBED_VALUE);
+        expect(fixture.response.body.refresh_token).toBe(SCRUBBED_VALUE);
+        expect(fixture.response.body.instance_url).toBe(SCRUBBED_INSTANCE_URL);
+      } finally {
+        await recorder.close();
+        await org.close();
+        fs.rmSync(fixturesDir, { recursive: true, force: true });
+      }
+    });
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * @fileoverview Analytics REST API endpoints of the mock Salesforce server.
+ *
+ * Reports are computed from the dataset on every run: tabular reports list
+ * their detail rows, summary reports group them and add a record count and an
+ * optional sum.
+ */
+
+import { MockDataset, MockReportDefinition, MockSalesforceError, MockRecord } from './dataset';
+import { MockContext, MockRequest, MockResponse, json, parseJsonBody } from './types';
+
+interface ReportFilter {
+  column: string;
+  operator: string;
+  value: string;
+}
+
+type ReportCell = { label: string; value: unknown };
+
+function compare(value: unknown, expected: string): number {
+  const number = Number(expected);
+  return typeof value === 'number' && !Number.isNaN(number) ? value - number : String(value ?? '').localeCompare(expected);
+}
+
+const FILTER_OPERATORS: Record<string, (value: unknown, expected: string) => boolean> = {
+  equals: (value, expected) => String(value ?? '').toLowerCase() === expected.toLowerCase(),
+  notEqual: (value, expected) => String(value ?? '').toLowerCase() !== expected.toLowerCase(),
+  lessThan: (value, expected) => compare(value, expected) < 0,
+  greaterThan: (value, expected) => compare(value, expected) > 0,
+  lessOrEqual: (value, expected) => compare(value, expected) <= 0,
+  greaterOrEqual: (value, expected) => compare(value, expected) >= 0,
+  contains: (value, expected) => String(value ?? '').toLowerCase().includes(expected.toLowerCase()),
+  notContain: (value, expected) => !String(value ?? '').toLowerCase().includes(expected.toLowerCase()),
+  startsWith: (value, expected) => String(value ?? '').toLowerCase().startsWith(expected.toLowerCase())
+};
+
+/**
+ * Format a value as the report cell Salesforce returns
+ */
+function cell(dataset: MockDataset, report: MockReportDefinition, fieldName: string, value: unknown): ReportCell {
+  const definition = dataset.findField(dataset.getObject(report.object), fieldName);
+  if (value === null || value === undefined) {
+    return { label: '-', value: null };
+  }
+  if (definition?.type === 'currency' && typeof value === 'number') {
+    return { label: `$${value.toLocaleString('en-US')}`, value: { amount: value, currency: 'USD' } };
+  }
+  return { label: String(value), value };
+}
+
+/**
+ * Run a report definition against the dataset
+ * @param dataset The mock org
+ * @param report The report definition
+ * @param filters Runtime filters sent with a POST run
+ * @returns The Analytics API report result
+ */
+export function runMockReport(dataset: MockDataset, report: MockReportDefinition, filters: ReportFilter[] = []): Record<string, unknown> {
+  const object = dataset.getObject(report.object);
+
+  const resolved = filters.map(filter => {
+    const definition = dataset.findField(object, filter.column);
+    const test = FILTER_OPERATORS[filter.operator];
+    if (!definition) {
+      throw new MockSalesforceError(`The column ${filter.column} is not valid for this report type.`, 'BAD_REQUEST');
+    }
+    if (!test) {
+      throw new MockSalesforceError(`The filter operator ${filter.operator} is not valid.`, 'BAD_REQUEST');
+    }
+    return { name: definition.name, value: filter.value, test };
+  });
+
+  const records = dataset.list(object.name)
+    .filter(record => resolved.every(filter => filter.test(record[filter.name], filter.value)));
+
+  const labelOf = (name: string) => dataset.findField(object, name)?.label || name;
+  const detailRow = (record: MockRecord) => ({
+    dataCells: report.detailColumns.map(column => cell(dataset, report, column, record[column]))
+  });
+
+  const aggregates = ['RowCount', ...(report.groupBy && report.sumField ? [`s!${report.sumField}`] : [])];
+  const aggregateCells = (group: MockRecord[]): ReportCell[] => {
+    const cells: ReportCell[] = [{ label: String(group.length), value: group.length }];
+    if (report.groupBy && report.sumField) {
+      const sum = group.reduce((total, record) => total + (Number(record[report.sumField!]) || 0), 0);
+      cells.push(cell(dataset, report, report.sumField, sum));
+    }
+    return cells;
+  };
+
+  const factMap: Record<string, { aggregates: ReportCell[]; rows: { dataCells: ReportCell[] }[] }> = {
+    'T!T': { aggregates: aggregateCells(records), rows: report.groupBy ? [] : records.map(detailRow) }
+  };
+  const groupings: { key: string; label: string; value: unknown; groupings: never[] }[] = [];
+
+  if (report.groupBy) {
+    const values = [...new Set(records.map(record => String(record[report.groupBy!] ?? '-')))].sort();
+    values.forEach((value, index) => {
+      const group = records.filter(record => String(record[report.groupBy!] ?? '-') === value);
+      groupings.push({ key: String(index), label: value, value, groupings: [] });
+      factMap[`${index}!T`] = { aggregates: aggregateCells(group), rows: group.map(detailRow) };
+    });
+  }
+
+  return {
+    attributes: { reportId: report.id, reportName: report.name, type: 'Report' },
+    allData: true,
+    hasDetailRows: true,
+    reportMetadata: {
+      id: report.id,
+      name: report.name,
+      reportFormat: report.groupBy ? 'SUMMARY' : 'TABULAR',
+      detailColumns: report.detailColumns,
+      aggregates,
+      groupingsDown: report.groupBy ? [{ name: report.groupBy, sortOrder: 'Asc' }] : [],
+      groupingsAcross: [],
+      reportFilters: filters,
+      chart: report.chartType ? { chartType: report.chartType } : null
+    },
+    reportExtendedMetadata: {
+      detailColumnInfo: Object.fromEntries(report.detailColumns.map(name => [name, { label: labelOf(name), dataType: 'string' }])),
+      aggregateColumnInfo: {
+        RowCount: { label: 'Record Count', dataType: 'int' },
+        ...(report.sumField ? { [`s!${report.sumField}`]: { label: `Sum of ${labelOf(report.sumField)}`, dataType: 'currency' } } : {})
+      },
+      groupingColumnInfo: report.groupBy ? { [report.groupBy]: { label: labelOf(report.groupBy), dataType: 'string' } } : {}
+    },
+    groupingsDown: { groupings },
+    groupingsAcross: { groupings: [] },
+    factMap
+  };
+}
+
+/**
+ * Handle a request under /analytics
+ * @param context The mock org
+ * @param request The request
+ * @param apiVersion API version from the request path
+ * @param segments Path segments after /analytics, e.g. ['reports', '00O...']
+ */
+export function handleAnalyticsRequest(
+  context: MockContext,
+  request: MockRequest,
+  apiVersion: string,
+  segments: string[]
+): MockResponse {
+  const { dataset } = context;
+  const [resource, id] = segments;
+
+  if (resource === 'reports' && !id && request.method === 'GET') {
+    return json(200, dataset.reports.map(report => ({
+      id: report.id,
+      name: report.name,
+      url: `/services/data/v${apiVersion}/analytics/reports/${report.id}`,
+      describeUrl: `/services/data/v${apiVersion}/analytics/reports/${report.id}/describe`,
+      instancesUrl: `/services/data/v${apiVersion}/analytics/reports/${report.id}/instances`
+    })));
+  }
+
+  if (resource === 'reports' && id && (request.method === 'GET' || request.method === 'POST')) {
+    const report = dataset.reports.find(candidate => candidate.id === id || candidate.id.slice(0, 15) === id);
+    if (!report) {
+      throw new MockSalesforceError("The report ID provided doesn't exist.", 'NOT_FOUND', 404);
+    }
+    const filters = request.method === 'POST'
+      ? parseJsonBody<{ reportMetadata?: { reportFilters?: ReportFilter[] } }>(request).reportMetadata?.reportFilters
+      : [];
+    return json(200, runMockReport(dataset, report, filters));
+  }
+
+  if (resource === 'dashboards' && !id && request.method === 'GET') {
+    return json(200, dataset.dashboards.map(dashboard => ({
+      id: dashboard.id,
+      name: dashboard.name,
+      url: `/services/data/v${apiVersion}/analytics/dashboards/${dashboard.id}`,
+      statusUrl: `/services/data/v${apiVersion}/analytics/dashboards/${dashboard.id}/status`
+    })));
+  }
+
+  if (resource === 'dashboards' && id && request.method === 'GET') {
+    const dashboard = dataset.dashboards.find(candidate => candidate.id === id || candidate.id.slice(0, 15) === id);
+    if (!dashboard) {
+      throw new MockSalesforceError("The dashboard ID provided doesn't exist.", 'NOT_FOUND', 404);
+    }
+
+    return json(200, {
+      dashboardMetadata: {
+        id: dashboard.id,
+        name: dashboard.name,
+        components: dashboard.components.map(component => ({
+          id: component.id,
+          header: component.header,
+          reportId: component.reportId,
+          properties: { visualizationType: component.visualizationType }
+        }))
+      },
+      componentData: dashboard.components.map(component => {
+        const report = dataset.reports.find(candidate => candidate.id === component.reportId);
+        return {
+          componentId: component.id,
+          reportResult: report ? runMockReport(dataset, report) : null,
+          status: { dataStatus: report ? 'DATA' : 'NODATA', errorMessage: null }
+        };
+      })
+    });
+  }
+
+  throw new MockSalesforceError('The requested resource does not exist', 'NOT_FOUND', 404);
+}
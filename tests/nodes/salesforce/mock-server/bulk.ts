@@ -0,0 +1,232 @@
+/**
+ * @fileoverview Bulk API 2.0 endpoints of the mock Salesforce server.
+ *
+ * Jobs finish as soon as they are created (query) or closed (ingest), so the
+ * first status check already reports JobComplete.
+ */
+
+import { csvToRecords, recordsToCsv } from '@/nodes/salesforce/utils/csv';
+import { MockSalesforceError, mockRecordId } from './dataset';
+import { executeSoql } from './soql';
+import { MockBulkJob, MockContext, MockRequest, MockResponse, json, parseJsonBody } from './types';
+
+const BULK_OPERATIONS = ['insert', 'update', 'upsert', 'delete', 'hardDelete'];
+
+/**
+ * Flatten nested relationship fields into dotted column names, as Bulk API CSV results do
+ */
+function flattenRecord(record: Record<string, unknown>, prefix = ''): Record<string, unknown> {
+  return Object.entries(record).reduce<Record<string, unknown>>((flat, [key, value]) => {
+    if (key === 'attributes') return flat;
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      return { ...flat, ...flattenRecord(value as Record<string, unknown>, `${prefix}${key}.`) };
+    }
+    flat[`${prefix}${key}`] = value;
+    return flat;
+  }, {});
+}
+
+/**
+ * Public view of a job
+ */
+function describeJob(job: MockBulkJob, apiVersion: string): Record<string, unknown> {
+  return {
+    id: job.id,
+    operation: job.operation,
+    object: job.object,
+    createdDate: job.createdDate,
+    state: job.state,
+    concurrencyMode: 'Parallel',
+    contentType: 'CSV',
+    apiVersion: Number(apiVersion),
+    lineEnding: 'LF',
+    columnDelimiter: 'COMMA',
+    ...(job.externalIdFieldName ? { externalIdFieldName: job.externalIdFieldName } : {}),
+    ...(job.state === 'JobComplete' || job.state === 'Failed' ? {
+      numberRecordsProcessed: job.kind === 'query' ? job.results.length : job.results.length + job.failures.length,
+      ...(job.kind === 'ingest' ? { numberRecordsFailed: job.failures.length } : {})
+    } : {}),
+    ...(job.errorMessage ? { errorMessage: job.errorMessage } : {})
+  };
+}
+
+/**
+ * Apply one CSV row of an ingest job to the dataset
+ * @returns The sf__Id of the affected record and whether it was created
+ */
+function ingestRow(context: MockContext, job: MockBulkJob, row: Record<string, string>): { id: string; created: boolean } {
+  const { Id: id, ...fields } = row;
+  // Empty cells leave a field unchanged; #N/A clears it
+  const values = Object.fromEntries(Object.entries(fields)
+    .filter(([, value]) => value !== '')
+    .map(([name, value]) => [name, value === '#N/A' ? null : value]));
+
+  switch (job.operation) {
+    case 'insert':
+      return { id: context.dataset.insert(job.object, values).Id, created: true };
+    case 'update':
+      if (!id) throw new MockSalesforceError('Id not specified in an update call', 'MISSING_ARGUMENT', 400, ['Id']);
+      return { id: context.dataset.update(job.object, id, values).Id, created: false };
+    case 'upsert': {
+      const field = job.externalIdFieldName!;
+      const externalId = row[field];
+      if (!externalId) throw new MockSalesforceError(`${field} not specified`, 'MISSING_ARGUMENT', 400, [field]);
+      const rest = Object.fromEntries(Object.entries(values).filter(([name]) => name !== field));
+      const { record, created } = context.dataset.upsert(job.object, field, externalId, rest);
+      return { id: record.Id, created };
+    }
+    default:
+      if (!id) throw new MockSalesforceError('Id not specified in a delete call', 'MISSING_ARGUMENT', 400, ['Id']);
+      context.dataset.remove(job.object, id);
+      return { id, created: false };
+  }
+}
+
+/**
+ * Run an ingest job's uploaded rows and record the successes and failures
+ */
+function processIngestJob(context: MockContext, job: MockBulkJob): void {
+  for (const row of csvToRecords(job.csv)) {
+    try {
+      const result = ingestRow(context, job, row);
+      job.results.push({ sf__Id: result.id, sf__Created: String(result.created), ...row });
+    } catch (error) {
+      const detail = error instanceof MockSalesforceError
+        ? `${error.errorCode}:${error.message}:${error.fields.join(',')} --`
+        : `UNKNOWN_EXCEPTION:${error instanceof Error ? error.message : String(error)}: --`;
+      job.failures.push({ sf__Id: '', sf__Error: detail, ...row });
+    }
+  }
+  job.state = 'JobComplete';
+}
+
+/**
+ * Read a page of query results as CSV with the locator headers the client follows
+ */
+function queryResultsPage(job: MockBulkJob, request: MockRequest): MockResponse {
+  const offset = Number(request.query.get('locator') || 0);
+  const maxRecords = Number(request.query.get('maxRecords') || job.results.length || 1);
+  const page = job.results.slice(offset, offset + maxRecords);
+  const next = offset + page.length;
+
+  return {
+    status: 200,
+    text: page.length > 0 ? recordsToCsv(page) : '',
+    headers: {
+      'Content-Type': 'text/csv',
+      'Sforce-Locator': next < job.results.length ? String(next) : 'null',
+      'Sforce-NumberOfRecords': String(page.length)
+    }
+  };
+}
+
+/**
+ * Handle a request under /jobs
+ * @param context The mock org
+ * @param request The request
+ * @param apiVersion API version from the request path
+ * @param segments Path segments after /jobs, e.g. ['query', '750...', 'results']
+ */
+export function handleBulkRequest(
+  context: MockContext,
+  request: MockRequest,
+  apiVersion: string,
+  segments: string[]
+): MockResponse {
+  const [kind, jobId, resource] = segments;
+  if (kind !== 'query' && kind !== 'ingest') {
+    throw new MockSalesforceError('The requested resource does not exist', 'NOT_FOUND', 404);
+  }
+
+  if (!jobId) {
+    if (request.method === 'GET') {
+      const records = [...context.bulkJobs.values()]
+        .filter(job => job.kind === kind)
+        .map(job => describeJob(job, apiVersion));
+      return json(200, { done: true, records, nextRecordsUrl: null });
+    }
+    if (request.method !== 'POST') {
+      throw new MockSalesforceError(`HTTP Method '${request.method}' not allowed. Allowed are GET,POST`, 'METHOD_NOT_ALLOWED', 405);
+    }
+
+    const body = parseJsonBody<{ query?: string; object?: string; operation?: string; externalIdFieldName?: string }>(request);
+    const job: MockBulkJob = {
+      id: mockRecordId('750', ++context.sequence),
+      kind,
+      operation: body.operation || (kind === 'query' ? 'query' : ''),
+      object: body.object || '',
+      state: kind === 'query' ? 'UploadComplete' : 'Open',
+      externalIdFieldName: body.externalIdFieldName,
+      query: body.query,
+      csv: '',
+      results: [],
+      failures: [],
+      createdDate: new Date().toISOString()
+    };
+
+    if (kind === 'query') {
+      if (!body.query) throw new MockSalesforceError('query is required', 'INVALIDJOB');
+      // Invalid queries are rejected when the job is created
+      const result = executeSoql(context.dataset, body.query, apiVersion);
+      job.object = body.query.match(/\bFROM\s+([A-Za-z0-9_]+)/i)?.[1] || '';
+      job.results = result.records.map(record => flattenRecord(record));
+      job.state = 'JobComplete';
+    } else {
+      if (!BULK_OPERATIONS.includes(job.operation)) {
+        throw new MockSalesforceError(`Invalid operation: ${job.operation}`, 'INVALIDJOB');
+      }
+      job.object = context.dataset.getObject(job.object).name;
+      if (job.operation === 'upsert' && !job.externalIdFieldName) {
+        throw new MockSalesforceError('External ID was blank for upsert', 'INVALIDJOB');
+      }
+    }
+
+    context.bulkJobs.set(job.id, job);
+    return json(200, describeJob(job, apiVersion));
+  }
+
+  const job = context.bulkJobs.get(jobId);
+  if (!job || job.kind !== kind) {
+    throw new MockSalesforceError('Unable to find object: ' + jobId, 'NOT_FOUND', 404);
+  }
+
+  if (!resource) {
+    if (request.method === 'GET') {
+      return json(200, describeJob(job, apiVersion));
+    }
+    if (request.method === 'DELETE') {
+      context.bulkJobs.delete(job.id);
+      return json(204);
+    }
+    if (request.method === 'PATCH') {
+      const { state } = parseJsonBody<{ state?: string }>(request);
+      if (state === 'Aborted') {
+        job.state = 'Aborted';
+      } else if (state === 'UploadComplete' && job.kind === 'ingest' && job.state === 'Open') {
+        job.state = 'UploadComplete';
+        processIngestJob(context, job);
+      } else {
+        throw new MockSalesforceError(`Invalid state transition from ${job.state} to ${state}`, 'INVALIDJOBSTATE');
+      }
+      return json(200, describeJob(job, apiVersion));
+    }
+  }
+
+  if (resource === 'batches' && request.method === 'PUT' && job.kind === 'ingest') {
+    if (job.state !== 'Open') {
+      throw new MockSalesforceError('Job is not open for uploads', 'INVALIDJOBSTATE');
+    }
+    job.csv = request.body;
+    return { status: 201, text: '' };
+  }
+
+  if (request.method === 'GET' && resource === 'results' && job.kind === 'query') {
+    return queryResultsPage(job, request);
+  }
+  if (request.method === 'GET' && (resource === 'successfulResults' || resource === 'failedResults') && job.kind === 'ingest') {
+    const rows = resource === 'failedResults' ? job.failures : job.results;
+    return { status: 200, text: rows.length > 0 ? recordsToCsv(rows) : '', headers: { 'Content-Type': 'text/csv' } };
+  }
+
+  throw new MockSalesforceError('The requested resource does not exist', 'NOT_FOUND', 404);
+}
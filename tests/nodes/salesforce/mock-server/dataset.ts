@@ -0,0 +1,513 @@
+/**
+ * @fileoverview Seeded in-memory org for the mock Salesforce server.
+ *
+ * Objects are declared with a small field model that is turned into describe
+ * responses, used to validate writes and walked by the SOQL evaluator. Every
+ * server gets its own copy of the seed data, so tests can write freely.
+ */
+
+export type MockFieldType =
+  | 'id' | 'string' | 'textarea' | 'email' | 'phone' | 'picklist'
+  | 'currency' | 'double' | 'int' | 'date' | 'datetime' | 'boolean' | 'reference';
+
+export interface MockFieldDefinition {
+  name: string;
+  label: string;
+  type: MockFieldType;
+  /** Must be set on create */
+  required?: boolean;
+  /** Set by the server; cannot be written */
+  readOnly?: boolean;
+  externalId?: boolean;
+  referenceTo?: string;
+  relationshipName?: string;
+  picklistValues?: string[];
+  /** Value used when a create leaves the field empty */
+  defaultValue?: unknown;
+}
+
+export interface MockObjectDefinition {
+  name: string;
+  label: string;
+  keyPrefix: string;
+  fields: MockFieldDefinition[];
+  /** Fields joined into the read-only Name field, e.g. FirstName and LastName on Contact */
+  nameFrom?: string[];
+}
+
+export interface MockReportDefinition {
+  id: string;
+  name: string;
+  object: string;
+  detailColumns: string[];
+  /** Summary reports group detail rows by this field */
+  groupBy?: string;
+  /** Field summed alongside the record count in summary reports */
+  sumField?: string;
+  chartType?: string;
+}
+
+export interface MockDashboardDefinition {
+  id: string;
+  name: string;
+  components: { id: string; header: string; reportId: string; visualizationType: string }[];
+}
+
+export type MockRecord = Record<string, unknown> & { Id: string };
+
+/**
+ * A failed write, shaped like a Salesforce REST API error
+ */
+export class MockSalesforceError extends Error {
+  constructor(
+    message: string,
+    public readonly errorCode: string,
+    public readonly status: number = 400,
+    public readonly fields: string[] = []
+  ) {
+    super(message);
+    this.name = 'MockSalesforceError';
+  }
+
+  /** Error body as the REST API returns it */
+  toBody(): { message: string; errorCode: string; fields: string[] }[] {
+    return [{ message: this.message, errorCode: this.errorCode, fields: this.fields }];
+  }
+}
+
+const EMAIL_PATTERN = /^[^@\s]+@[^@\s]+\.[^@\s]+$/;
+
+/**
+ * Build an 18 character record ID from a key prefix and a counter
+ */
+export function mockRecordId(keyPrefix: string, index: number): string {
+  return `${keyPrefix}${String(index).padStart(12, '0')}AAA`;
+}
+
+const field = (
+  name: string,
+  type: MockFieldType,
+  options: Partial<MockFieldDefinition> = {}
+): MockFieldDefinition => ({
+  name,
+  label: name.replace(/__c$/, '').replace(/Id$/, '').replace(/_/g, ' ').replace(/([a-z])([A-Z])/g, '$1 $2'),
+  type,
+  ...options
+});
+
+const reference = (name: string, referenceTo: string, relationshipName: string): MockFieldDefinition =>
+  field(name, 'reference', { referenceTo, relationshipName });
+
+export const MOCK_OBJECTS: MockObjectDefinition[] = [
+  {
+    name: 'Account',
+    label: 'Account',
+    keyPrefix: '001',
+    fields: [
+      field('Name', 'string', { required: true }),
+      field('Industry', 'picklist', { picklistValues: ['Manufacturing', 'Technology', 'Retail', 'Healthcare'] }),
+      field('Phone', 'phone'),
+      field('BillingCity', 'string'),
+      field('AnnualRevenue', 'currency'),
+      field('External_Id__c', 'string', { externalId: true })
+    ]
+  },
+  {
+    name: 'Contact',
+    label: 'Contact',
+    keyPrefix: '003',
+    nameFrom: ['FirstName', 'LastName'],
+    fields: [
+      field('FirstName', 'string'),
+      field('LastName', 'string', { required: true }),
+      field('Name', 'string', { readOnly: true }),
+      field('Email', 'email'),
+      field('Phone', 'phone'),
+      field('Title', 'string'),
+      reference('AccountId', 'Account', 'Account')
+    ]
+  },
+  {
+    name: 'Opportunity',
+    label: 'Opportunity',
+    keyPrefix: '006',
+    fields: [
+      field('Name', 'string', { required: true }),
+      field('StageName', 'picklist', {
+        required: true,
+        picklistValues: ['Prospecting', 'Qualification', 'Proposal', 'Closed Won', 'Closed Lost']
+      }),
+      field('Amount', 'currency'),
+      field('CloseDate', 'date', { required: true }),
+      reference('AccountId', 'Account', 'Account')
+    ]
+  },
+  {
+    name: 'Case',
+    label: 'Case',
+    keyPrefix: '500',
+    fields: [
+      field('CaseNumber', 'string', { readOnly: true }),
+      field('Subject', 'string'),
+      field('Status', 'picklist', { picklistValues: ['New', 'Working', 'Escalated', 'Closed'], defaultValue: 'New' }),
+      field('Priority', 'picklist', { picklistValues: ['Low', 'Medium', 'High'], defaultValue: 'Medium' }),
+      reference('AccountId', 'Account', 'Account'),
+      reference('ContactId', 'Contact', 'Contact')
+    ]
+  },
+  {
+    name: 'Lead',
+    label: 'Lead',
+    keyPrefix: '00Q',
+    nameFrom: ['FirstName', 'LastName'],
+    fields: [
+      field('FirstName', 'string'),
+      field('LastName', 'string', { required: true }),
+      field('Name', 'string', { readOnly: true }),
+      field('Company', 'string', { required: true }),
+      field('Email', 'email'),
+      field('Status', 'picklist', {
+        picklistValues: ['Open - Not Contacted', 'Working - Contacted', 'Closed - Converted'],
+        defaultValue: 'Open - Not Contacted'
+      })
+    ]
+  }
+];
+
+const ACME = mockRecordId('001', 1);
+const GLOBEX = mockRecordId('001', 2);
+const INITECH = mockRecordId('001', 3);
+const ADA = mockRecordId('003', 1);
+
+export const MOCK_SEED_RECORDS: Record<string, Record<string, unknown>[]> = {
+  Account: [
+    { Id: ACME, Name: 'Acme Corp', Industry: 'Manufacturing', Phone: '555-0100', BillingCity: 'Springfield', AnnualRevenue: 5000000, External_Id__c: 'ACME-1' },
+    { Id: GLOBEX, Name: 'Globex', Industry: 'Technology', Phone: '555-0200', BillingCity: 'Cypress Creek', AnnualRevenue: 12000000, External_Id__c: 'GLOBEX-1' },
+    { Id: INITECH, Name: 'Initech', Industry: 'Technology', Phone: null, BillingCity: 'Austin', AnnualRevenue: 800000, External_Id__c: null }
+  ],
+  Contact: [
+    { Id: ADA, FirstName: 'Ada', LastName: 'Lovelace', Email: 'ada@acme.example', Phone: '555-0101', Title: 'CTO', AccountId: ACME },
+    { Id: mockRecordId('003', 2), FirstName: 'Wile', LastName: 'Coyote', Email: 'wile@acme.example', Phone: null, Title: 'Buyer', AccountId: ACME },
+    { Id: mockRecordId('003', 3), FirstName: 'Hank', LastName: 'Scorpio', Email: 'hank@globex.example', Phone: '555-0201', Title: 'CEO', AccountId: GLOBEX },
+    { Id: mockRecordId('003', 4), FirstName: 'Peter', LastName: 'Gibbons', Email: 'peter@initech.example', Phone: null, Title: 'Engineer', AccountId: INITECH }
+  ],
+  Opportunity: [
+    { Id: mockRecordId('006', 1), Name: 'Acme - Anvils', StageName: 'Proposal', Amount: 25000, CloseDate: '2026-11-30', AccountId: ACME },
+    { Id: mockRecordId('006', 2), Name: 'Acme - Rockets', StageName: 'Closed Won', Amount: 90000, CloseDate: '2026-06-15', AccountId: ACME },
+    { Id: mockRecordId('006', 3), Name: 'Globex - Platform', StageName: 'Qualification', Amount: 150000, CloseDate: '2026-12-31', AccountId: GLOBEX },
+    { Id: mockRecordId('006', 4), Name: 'Initech - Printers', StageName: 'Closed Lost', Amount: 8000, CloseDate: '2026-03-01', AccountId: INITECH }
+  ],
+  Case: [
+    { Id: mockRecordId('500', 1), CaseNumber: '00001026', Subject: 'Acme shipment delayed', Status: 'New', Priority: 'High', AccountId: ACME, ContactId: ADA },
+    { Id: mockRecordId('500', 2), CaseNumber: '00001027', Subject: 'Printer jam', Status: 'Closed', Priority: 'Low', AccountId: INITECH, ContactId: null }
+  ],
+  Lead: [
+    { Id: mockRecordId('00Q', 1), FirstName: 'Marge', LastName: 'Simpson', Company: 'Kwik-E-Mart', Email: 'marge@example.com', Status: 'Open - Not Contacted' },
+    { Id: mockRecordId('00Q', 2), FirstName: 'Ned', LastName: 'Flanders', Company: 'Leftorium', Email: null, Status: 'Working - Contacted' }
+  ]
+};
+
+export const MOCK_REPORTS: MockReportDefinition[] = [
+  {
+    id: mockRecordId('00O', 1),
+    name: 'Pipeline by Stage',
+    object: 'Opportunity',
+    detailColumns: ['Name', 'Amount', 'CloseDate'],
+    groupBy: 'StageName',
+    sumField: 'Amount',
+    chartType: 'Vertical Bar'
+  },
+  {
+    id: mockRecordId('00O', 2),
+    name: 'All Accounts',
+    object: 'Account',
+    detailColumns: ['Name', 'Industry', 'BillingCity', 'AnnualRevenue']
+  }
+];
+
+export const MOCK_DASHBOARDS: MockDashboardDefinition[] = [
+  {
+    id: mockRecordId('01Z', 1),
+    name: 'Sales Overview',
+    components: [
+      { id: mockRecordId('01a', 1), header: 'Pipeline', reportId: mockRecordId('00O', 1), visualizationType: 'Donut' }
+    ]
+  }
+];
+
+/**
+ * The mock org's data and metadata
+ */
+export class MockDataset {
+  private readonly objects = new Map<string, MockObjectDefinition>();
+  private records = new Map<string, MockRecord[]>();
+  private counters = new Map<string, number>();
+
+  readonly reports: MockReportDefinition[];
+  readonly dashboards: MockDashboardDefinition[];
+
+  constructor(
+    objects: MockObjectDefinition[] = MOCK_OBJECTS,
+    seed: Record<string, Record<string, unknown>[]> = MOCK_SEED_RECORDS,
+    reports: MockReportDefinition[] = MOCK_REPORTS,
+    dashboards: MockDashboardDefinition[] = MOCK_DASHBOARDS
+  ) {
+    for (const object of objects) {
+      this.objects.set(object.name.toLowerCase(), {
+        ...object,
+        fields: [field('Id', 'id', { readOnly: true, label: 'Record ID' }), ...object.fields]
+      });
+      this.records.set(object.name, []);
+      this.counters.set(object.name, 100);
+    }
+
+    for (const [objectName, records] of Object.entries(seed)) {
+      const object = this.getObject(objectName);
+      for (const record of records) {
+        this.records.get(object.name)!.push(this.withName(object, structuredClone(record) as MockRecord));
+      }
+    }
+
+    this.reports = reports;
+    this.dashboards = dashboards;
+  }
+
+  /**
+   * All object definitions
+   */
+  listObjects(): MockObjectDefinition[] {
+    return [...this.objects.values()];
+  }
+
+  /**
+   * Find an object definition, ignoring case
+   */
+  findObject(name: string): MockObjectDefinition | undefined {
+    return this.objects.get(name.toLowerCase());
+  }
+
+  /**
+   * Get an object definition, ignoring case
+   * @throws MockSalesforceError when the org has no such object
+   */
+  getObject(name: string): MockObjectDefinition {
+    const object = this.findObject(name);
+    if (!object) {
+      throw new MockSalesforceError(`sObject type '${name}' is not supported.`, 'INVALID_TYPE');
+    }
+    return object;
+  }
+
+  /**
+   * Find a field definition, ignoring case
+   */
+  findField(object: MockObjectDefinition, name: string): MockFieldDefinition | undefined {
+    const lower = name.toLowerCase();
+    return object.fields.find(candidate => candidate.name.toLowerCase() === lower);
+  }
+
+  /**
+   * Child relationships pointing at an object, derived from the reference fields of other objects
+   */
+  childRelationships(object: MockObjectDefinition): { childSObject: string; field: string; relationshipName: string }[] {
+    return this.listObjects().flatMap(child => child.fields
+      .filter(candidate => candidate.type === 'reference' && candidate.referenceTo === object.name)
+      .map(candidate => ({
+        childSObject: child.name,
+        field: candidate.name,
+        relationshipName: child.name === 'Opportunity' ? 'Opportunities' : child.name === 'Case' ? 'Cases' : `${child.name}s`
+      })));
+  }
+
+  /**
+   * Records of an object, in insertion order
+   */
+  list(objectName: string): MockRecord[] {
+    return this.records.get(this.getObject(objectName).name) || [];
+  }
+
+  /**
+   * Find a record of an object by ID (15 or 18 characters)
+   */
+  get(objectName: string, id: string): MockRecord | undefined {
+    return this.list(objectName).find(record => record.Id === id || record.Id.slice(0, 15) === id);
+  }
+
+  /**
+   * Find a record of any object by ID, using the key prefix to pick the object
+   */
+  findById(id: string): { object: MockObjectDefinition; record: MockRecord } | undefined {
+    const object = this.listObjects().find(candidate => id.startsWith(candidate.keyPrefix));
+    const record = object ? this.get(object.name, id) : undefined;
+    return object && record ? { object, record } : undefined;
+  }
+
+  /**
+   * Create a record
+   * @returns The new record
+   */
+  insert(objectName: string, values: Record<string, unknown>): MockRecord {
+    const object = this.getObject(objectName);
+    const fields = this.validate(object, values, true);
+
+    for (const definition of object.fields) {
+      if (fields[definition.name] === undefined && definition.defaultValue !== undefined) {
+        fields[definition.name] = definition.defaultValue;
+      }
+    }
+
+    const counter = this.counters.get(object.name)! + 1;
+    this.counters.set(object.name, counter);
+
+    const record = this.withName(object, { ...fields, Id: mockRecordId(object.keyPrefix, counter) });
+    if (object.name === 'Case') {
+      record.CaseNumber = String(counter).padStart(8, '0');
+    }
+    this.records.get(object.name)!.push(record);
+    return record;
+  }
+
+  /**
+   * Change field values on a record
+   * @returns The updated record
+   */
+  update(objectName: string, id: string, values: Record<string, unknown>): MockRecord {
+    const object = this.getObject(objectName);
+    const record = this.get(object.name, id);
+    if (!record) {
+      throw new MockSalesforceError('The requested resource does not exist', 'NOT_FOUND', 404);
+    }
+
+    Object.assign(record, this.validate(object, values, false));
+    return this.withName(object, record);
+  }
+
+  /**
+   * Insert or update a record matched on an external ID field
+   * @returns The record and whether it was created
+   */
+  upsert(
+    objectName: string,
+    externalIdField: string,
+    externalId: string,
+    values: Record<string, unknown>
+  ): { record: MockRecord; created: boolean } {
+    const object = this.getObject(objectName);
+    const definition = this.findField(object, externalIdField);
+    if (!definition || !(definition.externalId || definition.type === 'id')) {
+      throw new MockSalesforceError(
+        'Provided external ID field does not exist or is not accessible: ' + externalIdField,
+        'NOT_FOUND',
+        404
+      );
+    }
+
+    const matches = this.list(object.name).filter(record => String(record[definition.name]) === externalId);
+    if (matches.length > 1) {
+      throw new MockSalesforceError(`${matches.length} records match ${definition.name} = ${externalId}`, 'MULTIPLE_CHOICES', 300);
+    }
+    if (matches.length === 1) {
+      return { record: this.update(object.name, matches[0].Id, values), created: false };
+    }
+    return { record: this.insert(object.name, { ...values, [definition.name]: externalId }), created: true };
+  }
+
+  /**
+   * Delete a record
+   */
+  remove(objectName: string, id: string): void {
+    const object = this.getObject(objectName);
+    const records = this.records.get(object.name)!;
+    const index = records.findIndex(record => record.Id === id || record.Id.slice(0, 15) === id);
+    if (index === -1) {
+      throw new MockSalesforceError('The requested resource does not exist', 'NOT_FOUND', 404);
+    }
+    records.splice(index, 1);
+  }
+
+  /**
+   * Capture the records so a failed all-or-none request can be rolled back
+   */
+  snapshot(): () => void {
+    const records = structuredClone(this.records);
+    const counters = new Map(this.counters);
+    return () => {
+      this.records = records;
+      this.counters = counters;
+    };
+  }
+
+  /**
+   * Check written values against the field model and return them keyed by canonical field name
+   */
+  private validate(object: MockObjectDefinition, values: Record<string, unknown>, creating: boolean): Record<string, unknown> {
+    const fields: Record<string, unknown> = {};
+
+    for (const [name, value] of Object.entries(values)) {
+      if (name === 'attributes') continue;
+
+      const definition = this.findField(object, name);
+      if (!definition) {
+        throw new MockSalesforceError(`No such column '${name}' on sobject of type ${object.name}`, 'INVALID_FIELD', 400, [name]);
+      }
+      if (definition.readOnly) {
+        throw new MockSalesforceError(
+          `Unable to create/update fields: ${definition.name}. Please check the security settings of this field and verify that it is read/write for your profile or permission set.`,
+          'INVALID_FIELD_FOR_INSERT_UPDATE',
+          400,
+          [definition.name]
+        );
+      }
+
+      if (value !== null && value !== '') {
+        if (definition.type === 'picklist' && definition.picklistValues && !definition.picklistValues.includes(String(value))) {
+          throw new MockSalesforceError(
+            `${definition.label}: bad value for restricted picklist field: ${value}`,
+            'INVALID_OR_NULL_FOR_RESTRICTED_PICKLIST',
+            400,
+            [definition.name]
+          );
+        }
+        if (definition.type === 'email' && !EMAIL_PATTERN.test(String(value))) {
+          throw new MockSalesforceError(`${definition.label}: invalid email address: ${value}`, 'INVALID_EMAIL_ADDRESS', 400, [definition.name]);
+        }
+        if (definition.type === 'reference' && !this.get(definition.referenceTo!, String(value))) {
+          throw new MockSalesforceError(
+            `${definition.label} ID: id value of incorrect type: ${value}`,
+            'FIELD_INTEGRITY_EXCEPTION',
+            400,
+            [definition.name]
+          );
+        }
+        if (['currency', 'double', 'int'].includes(definition.type) && Number.isNaN(Number(value))) {
+          throw new MockSalesforceError(`${definition.label}: value not of required type: ${value}`, 'INVALID_TYPE_ON_FIELD_IN_RECORD', 400, [definition.name]);
+        }
+      }
+
+      fields[definition.name] = ['currency', 'double', 'int'].includes(definition.type) && value !== null && value !== ''
+        ? Number(value)
+        : definition.type === 'boolean' ? value === true || value === 'true' : value === '' ? null : value;
+    }
+
+    const missing = object.fields
+      .filter(definition => definition.required)
+      .filter(definition => creating ? fields[definition.name] === undefined || fields[definition.name] === null
+        : definition.name in fields && fields[definition.name] === null)
+      .map(definition => definition.name);
+    if (missing.length > 0) {
+      throw new MockSalesforceError(`Required fields are missing: [${missing.join(', ')}]`, 'REQUIRED_FIELD_MISSING', 400, missing);
+    }
+
+    return fields;
+  }
+
+  /**
+   * Fill in a compound Name field from its parts
+   */
+  private withName(object: MockObjectDefinition, record: MockRecord): MockRecord {
+    if (object.nameFrom) {
+      record.Name = object.nameFrom.map(name => record[name]).filter(Boolean).join(' ');
+    }
+    return record;
+  }
+}
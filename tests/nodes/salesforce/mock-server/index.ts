@@ -0,0 +1,11 @@
+/**
+ * @fileoverview Mock Salesforce org for offline tests of the salesforce_* tools
+ */
+
+export * from './dataset';
+export * from './soql';
+export * from './types';
+export * from './recorder';
+export * from './replay';
+export * from './server';
+export * from './setup';
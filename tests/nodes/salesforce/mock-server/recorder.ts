@@ -0,0 +1,174 @@
+/**
+ * @fileoverview Record mode for the mock Salesforce server.
+ *
+ * Requests are forwarded to a real org and every exchange is written as a
+ * fixture in the format replay.ts serves back. Access tokens, refresh
+ * tokens, signatures and the org's instance URL are scrubbed before anything
+ * is written, so recorded fixtures can be committed.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+export interface RecordOptions {
+  /** Login server or instance URL of the real org, e.g. https://login.salesforce.com */
+  targetUrl: string;
+  /** Token sent to the real org in place of the one the client used */
+  accessToken?: string;
+  /** Directory the fixtures are written to */
+  fixturesDir: string;
+}
+
+export interface ForwardedRequest {
+  method: string;
+  /** Path and query string */
+  url: string;
+  headers: Record<string, string | string[] | undefined>;
+  body: string;
+}
+
+export interface ForwardedResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+export const SCRUBBED_VALUE = 'REDACTED';
+export const SCRUBBED_INSTANCE_URL = 'https://example.my.salesforce.com';
+
+const OAUTH_TOKEN_PATH = '/services/oauth2/token';
+
+// Response body keys whose values are credentials
+const SECRET_KEYS = ['access_token', 'refresh_token', 'id_token', 'signature', 'sessionId', 'client_secret', 'password'];
+
+// Response headers worth keeping in a fixture; the rest vary per request
+const RECORDED_HEADERS = ['content-type', 'sforce-locator', 'sforce-numberofrecords', 'location'];
+
+/**
+ * Replace credentials and org-specific URLs in a recorded value
+ * @param value The value to scrub
+ * @param secrets Literal strings to replace wherever they appear, e.g. tokens and the instance URL
+ * @returns The scrubbed value
+ */
+export function scrubSecrets(value: unknown, secrets: Record<string, string>): unknown {
+  if (typeof value === 'string') {
+    return Object.entries(secrets)
+      .filter(([secret]) => secret.length > 0)
+      .reduce((text, [secret, replacement]) => text.split(secret).join(replacement), value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(entry => scrubSecrets(entry, secrets));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [
+      key,
+      SECRET_KEYS.includes(key) && typeof entry === 'string' ? SCRUBBED_VALUE : scrubSecrets(entry, secrets)
+    ]));
+  }
+  return value;
+}
+
+/**
+ * Build a readable, unique file name for a request
+ * @param method HTTP method
+ * @param url Path and query string
+ */
+export function fixtureFileName(method: string, url: string): string {
+  const [pathname] = url.split('?');
+  const slug = pathname
+    .replace(/^\/services\/data\/v\d+\.\d+\//, '')
+    .replace(/^\/services\//, '')
+    .replace(/[^A-Za-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 80);
+  const hash = crypto.createHash('sha1').update(`${method} ${url}`).digest('hex').slice(0, 8);
+  return `${method.toLowerCase()}-${slug || 'root'}-${hash}.json`;
+}
+
+/**
+ * Forwards requests to a real org and writes each exchange as a fixture
+ */
+export class FixtureRecorder {
+  /** Instance URL learned from the token endpoint; requests go to the target URL until then */
+  private instanceUrl?: string;
+  private readonly secrets: Record<string, string> = {};
+
+  constructor(private readonly options: RecordOptions) {
+    fs.mkdirSync(options.fixturesDir, { recursive: true });
+    this.addSecret(options.accessToken, SCRUBBED_VALUE);
+    this.addSecret(options.targetUrl.replace(/\/+$/, ''), SCRUBBED_INSTANCE_URL);
+  }
+
+  /**
+   * Forward a request, record the exchange and return the real response
+   * @param request The request the client sent to the mock server
+   * @param publicUrl The mock server's own URL, handed to the client as the instance URL
+   */
+  async forward(request: ForwardedRequest, publicUrl: string): Promise<ForwardedResponse> {
+    const isTokenRequest = request.url.split('?')[0] === OAUTH_TOKEN_PATH;
+    const base = (isTokenRequest ? this.options.targetUrl : this.instanceUrl || this.options.targetUrl).replace(/\/+$/, '');
+
+    const headers: Record<string, string> = {};
+    for (const name of ['accept', 'content-type', 'authorization', 'sforce-query-options']) {
+      const value = request.headers[name];
+      if (typeof value === 'string') headers[name] = value;
+    }
+    if (this.options.accessToken && !isTokenRequest) {
+      headers.authorization = `Bearer ${this.options.accessToken}`;
+    }
+    if (typeof headers.authorization === 'string') {
+      this.addSecret(headers.authorization.replace(/^Bearer\s+/i, ''), SCRUBBED_VALUE);
+    }
+
+    const response = await fetch(`${base}${request.url}`, {
+      method: request.method,
+      headers,
+      ...(request.body && !['GET', 'HEAD'].includes(request.method) ? { body: request.body } : {})
+    });
+
+    let text = await response.text();
+    const contentType = response.headers.get('content-type') || '';
+    let body: unknown = text;
+    if (contentType.includes('json') && text) {
+      body = JSON.parse(text);
+    }
+
+    // Keep the client talking to the mock server after it authenticates
+    if (isTokenRequest && response.ok && body && typeof body === 'object') {
+      const token = body as { access_token?: string; refresh_token?: string; instance_url?: string };
+      this.addSecret(token.access_token, SCRUBBED_VALUE);
+      this.addSecret(token.refresh_token, SCRUBBED_VALUE);
+      if (token.instance_url) {
+        this.instanceUrl = token.instance_url;
+        this.addSecret(token.instance_url.replace(/\/+$/, ''), SCRUBBED_INSTANCE_URL);
+        text = JSON.stringify({ ...token, instance_url: publicUrl });
+      }
+    }
+
+    const recordedHeaders: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      if (RECORDED_HEADERS.includes(name.toLowerCase())) recordedHeaders[name] = value;
+    });
+
+    this.write(request, response.status, body, recordedHeaders);
+
+    return { status: response.status, headers: recordedHeaders, body: text };
+  }
+
+  private addSecret(secret: string | undefined, replacement: string): void {
+    if (secret) {
+      this.secrets[secret] = replacement;
+    }
+  }
+
+  private write(request: ForwardedRequest, status: number, body: unknown, headers: Record<string, string>): void {
+    const fixture = scrubSecrets({
+      request: { method: request.method, path: request.url },
+      response: { status, body, headers }
+    }, this.secrets);
+
+    const file = path.join(this.options.fixturesDir, fixtureFileName(request.method, request.url));
+    fs.writeFileSync(file, `${JSON.stringify(fixture, null, 2)}\n`);
+  }
+}
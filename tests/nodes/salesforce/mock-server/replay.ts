@@ -0,0 +1,53 @@
+/**
+ * @fileoverview Replay mode for the mock Salesforce server.
+ *
+ * Each fixture file holds one request/response pair:
+ * { "request": { "method": "GET", "path": "/services/data/..." }, "response": { "status": 200, "body": ... } }
+ * A fixture path with a query string only matches that exact URL; without one it matches any query.
+ * String bodies with a non-JSON Content-Type header (e.g. recorded CSV results) are sent as they are.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { MockResponse, json } from './types';
+
+export interface MockFixture {
+  request: { method: string; path: string };
+  response: { status: number; body: unknown; headers?: Record<string, string> };
+}
+
+/**
+ * Read every fixture in a directory
+ * @param directory Directory of fixture JSON files
+ * @returns The fixtures, in file name order
+ */
+export function loadFixtures(directory: string): MockFixture[] {
+  return fs.readdirSync(directory)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => JSON.parse(fs.readFileSync(path.join(directory, file), 'utf8')));
+}
+
+/**
+ * Answer a request with the first fixture matching its method and URL
+ * @param fixtures Fixtures to choose from
+ * @param method Request method
+ * @param url Request path and query string
+ * @returns The recorded response, or a NOT_FOUND error when no fixture matches
+ */
+export function replayFixture(fixtures: MockFixture[], method: string, url: string): MockResponse {
+  const fixture = fixtures.find(candidate =>
+    candidate.request.method === method &&
+    (candidate.request.path.includes('?') ? candidate.request.path === url : candidate.request.path === url.split('?')[0])
+  );
+  if (!fixture) {
+    return json(404, [{ message: `No fixture for ${method} ${url}`, errorCode: 'NOT_FOUND' }]);
+  }
+
+  const headers = fixture.response.headers || {};
+  const contentType = Object.entries(headers).find(([name]) => name.toLowerCase() === 'content-type')?.[1] || 'application/json';
+  const isText = typeof fixture.response.body === 'string' && !contentType.includes('json');
+  return isText
+    ? { status: fixture.response.status, text: fixture.response.body as string, headers }
+    : { status: fixture.response.status, body: fixture.response.body, headers };
+}
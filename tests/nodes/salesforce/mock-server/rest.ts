@@ -0,0 +1,437 @@
+/**
+ * @fileoverview REST API endpoints of the mock Salesforce server: query, search, describe,
+ * sObject CRUD, composite and sObject tree requests, plus routing to the bulk and analytics handlers
+ */
+
+import { MockDataset, MockObjectDefinition, MockSalesforceError } from './dataset';
+import { executeSoql } from './soql';
+import { handleBulkRequest } from './bulk';
+import { handleAnalyticsRequest } from './analytics';
+import { MockContext, MockRequest, MockResponse, errorResponse, json, parseJsonBody } from './types';
+
+const MAX_COMPOSITE_SUBREQUESTS = 25;
+const MAX_TREE_RECORDS = 200;
+
+const notFound = () => new MockSalesforceError('The requested resource does not exist', 'NOT_FOUND', 404);
+
+/**
+ * Build the /sobjects/{name}/describe response
+ */
+function describeObject(dataset: MockDataset, object: MockObjectDefinition): Record<string, unknown> {
+  return {
+    name: object.name,
+    label: object.label,
+    keyPrefix: object.keyPrefix,
+    custom: object.name.endsWith('__c'),
+    queryable: true,
+    createable: true,
+    fields: object.fields.map(field => ({
+      name: field.name,
+      label: field.label,
+      type: field.type,
+      custom: field.name.endsWith('__c'),
+      nillable: !field.required && field.type !== 'id',
+      createable: !field.readOnly,
+      updateable: !field.readOnly,
+      defaultedOnCreate: field.defaultValue !== undefined || field.type === 'id',
+      externalId: Boolean(field.externalId),
+      referenceTo: field.referenceTo ? [field.referenceTo] : [],
+      relationshipName: field.relationshipName ?? null,
+      picklistValues: (field.picklistValues || []).map(value => ({ value, label: value, active: true, defaultValue: value === field.defaultValue }))
+    })),
+    childRelationships: dataset.childRelationships(object)
+  };
+}
+
+/**
+ * Run a query and return its first page, keeping the rest behind a nextRecordsUrl locator
+ */
+function runQuery(context: MockContext, apiVersion: string, soql: string | null): MockResponse {
+  if (!soql) {
+    throw new MockSalesforceError('A query string has to be specified', 'MALFORMED_QUERY');
+  }
+
+  const result = executeSoql(context.dataset, soql, apiVersion);
+  return queryPage(context, apiVersion, result.totalSize, result.records);
+}
+
+function queryPage(context: MockContext, apiVersion: string, totalSize: number, records: Record<string, unknown>[]): MockResponse {
+  const page = records.slice(0, context.queryBatchSize);
+  const rest = records.slice(context.queryBatchSize);
+  const body: Record<string, unknown> = { totalSize, done: rest.length === 0, records: page };
+
+  if (rest.length > 0) {
+    const locator = `01g${String(++context.sequence).padStart(15, '0')}-${context.queryBatchSize}`;
+    context.queryCursors.set(locator, { totalSize, records: rest });
+    body.nextRecordsUrl = `/services/data/v${apiVersion}/query/${locator}`;
+  }
+  return json(200, body);
+}
+
+/**
+ * Run a SOSL search, matching the term against the text fields of each RETURNING object
+ */
+function runSearch(context: MockContext, apiVersion: string, sosl: string | null): MockResponse {
+  const match = /^\s*FIND\s*\{((?:\\.|[^}\\])*)\}\s*(?:IN\s+(\w+)\s+FIELDS\s*)?(?:RETURNING\s+([\s\S]+))?$/i.exec(sosl || '');
+  if (!match) {
+    throw new MockSalesforceError('unexpected token: search string must be enclosed in braces', 'MALFORMED_SEARCH');
+  }
+
+  const term = match[1].replace(/\\(.)/g, '$1').trim();
+  const wildcard = term.endsWith('*');
+  const needle = term.replace(/\*$/, '').toLowerCase();
+  const nameOnly = (match[2] || 'ALL').toUpperCase() === 'NAME';
+
+  // Split RETURNING Account(Id, Name LIMIT 5), Contact(...) at top-level commas
+  const specs: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of match[3] || context.dataset.listObjects().map(object => object.name).join(',')) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      specs.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) specs.push(current.trim());
+
+  const searchRecords = specs.flatMap(spec => {
+    const parts = /^([A-Za-z0-9_]+)\s*(?:\(([\s\S]*)\))?$/.exec(spec);
+    if (!parts) {
+      throw new MockSalesforceError(`unexpected token: ${spec}`, 'MALFORMED_SEARCH');
+    }
+
+    const object = context.dataset.getObject(parts[1]);
+    const inner = parts[2] || 'Id';
+    const limit = /\bLIMIT\s+(\d+)\s*$/i.exec(inner);
+    const withoutLimit = limit ? inner.slice(0, limit.index) : inner;
+    const [fields, where] = withoutLimit.split(/\bWHERE\b/i);
+    const soql = `SELECT ${fields.trim()} FROM ${object.name}${where ? ` WHERE ${where.trim()}` : ''}`;
+
+    const textFields = object.fields
+      .filter(field => ['string', 'textarea', 'email', 'phone', 'picklist'].includes(field.type))
+      .filter(field => !nameOnly || field.name === 'Name')
+      .map(field => field.name);
+    const matchesTerm = (value: unknown) => {
+      const text = String(value ?? '').toLowerCase();
+      return wildcard ? text.split(/\W+/).some(word => word.startsWith(needle)) || text.startsWith(needle) : text.includes(needle);
+    };
+
+    const hits = executeSoql(context.dataset, soql, apiVersion).records.filter(record => {
+      const id = String((record.attributes as { url: string }).url.split('/').pop());
+      const raw = context.dataset.get(object.name, id);
+      return raw && textFields.some(name => matchesTerm(raw[name]));
+    });
+    return limit ? hits.slice(0, Number(limit[1])) : hits;
+  });
+
+  return json(200, { searchRecords });
+}
+
+/**
+ * Handle /sobjects and everything below it
+ */
+function handleSObjects(context: MockContext, request: MockRequest, apiVersion: string, segments: string[]): MockResponse {
+  const { dataset } = context;
+  const [objectName, second, third] = segments;
+
+  if (!objectName) {
+    if (request.method !== 'GET') throw notFound();
+    return json(200, {
+      encoding: 'UTF-8',
+      maxBatchSize: 200,
+      sobjects: dataset.listObjects().map(object => ({
+        name: object.name,
+        label: object.label,
+        keyPrefix: object.keyPrefix,
+        custom: object.name.endsWith('__c'),
+        queryable: true,
+        createable: true,
+        urls: { sobject: `/services/data/v${apiVersion}/sobjects/${object.name}` }
+      }))
+    });
+  }
+
+  const object = dataset.findObject(objectName);
+  if (!object) throw notFound();
+
+  if (second === 'describe' && !third && request.method === 'GET') {
+    return json(200, describeObject(dataset, object));
+  }
+
+  if (!second) {
+    if (request.method === 'POST') {
+      const record = dataset.insert(object.name, parseJsonBody(request));
+      return json(201, { id: record.Id, success: true, errors: [] });
+    }
+    if (request.method === 'GET') {
+      return json(200, { objectDescribe: { name: object.name, label: object.label, keyPrefix: object.keyPrefix }, recentItems: [] });
+    }
+    throw notFound();
+  }
+
+  // /sobjects/{object}/{externalIdField}/{externalId}
+  if (third !== undefined) {
+    const externalId = decodeURIComponent(third);
+    if (request.method === 'PATCH') {
+      const { record, created } = dataset.upsert(object.name, second, externalId, parseJsonBody(request));
+      return json(created ? 201 : 200, { id: record.Id, success: true, errors: [], created });
+    }
+    if (request.method === 'GET') {
+      const field = dataset.findField(object, second);
+      const record = field && dataset.list(object.name).find(candidate => String(candidate[field.name]) === externalId);
+      if (!record) throw notFound();
+      return json(200, { attributes: { type: object.name }, ...record });
+    }
+    throw notFound();
+  }
+
+  // /sobjects/{object}/{id}
+  switch (request.method) {
+    case 'GET': {
+      const record = dataset.get(object.name, second);
+      if (!record) throw notFound();
+      const fields = request.query.get('fields');
+      const selected = fields
+        ? Object.fromEntries(fields.split(',').map(name => {
+          const field = dataset.findField(object, name.trim());
+          if (!field) throw new MockSalesforceError(`No such column '${name.trim()}' on sobject of type ${object.name}`, 'INVALID_FIELD');
+          return [field.name, record[field.name] ?? null];
+        }))
+        : record;
+      return json(200, { attributes: { type: object.name, url: `/services/data/v${apiVersion}/sobjects/${object.name}/${record.Id}` }, ...selected });
+    }
+    case 'PATCH':
+      dataset.update(object.name, second, parseJsonBody(request));
+      return json(204);
+    case 'DELETE':
+      dataset.remove(object.name, second);
+      return json(204);
+    default:
+      throw notFound();
+  }
+}
+
+/**
+ * Replace @{referenceId.path} with values from earlier subrequest responses
+ */
+function resolveReferences(value: unknown, results: Map<string, unknown>): unknown {
+  if (typeof value === 'string') {
+    return value.replace(/@\{([A-Za-z][A-Za-z0-9_]*)((?:\.[A-Za-z0-9_]+|\[\d+\])+)\}/g, (_reference, referenceId: string, path: string) => {
+      let current = results.get(referenceId);
+      for (const [, property, index] of path.matchAll(/\.([A-Za-z0-9_]+)|\[(\d+)\]/g)) {
+        current = current && typeof current === 'object'
+          ? (current as Record<string, unknown>)[property ?? Number(index)]
+          : undefined;
+      }
+      if (current === undefined || current === null) {
+        throw new MockSalesforceError(
+          `Invalid reference specified. No value for ${referenceId}${path} found in ${referenceId}.`,
+          'PROCESSING_HALTED'
+        );
+      }
+      return String(current);
+    });
+  }
+  if (Array.isArray(value)) return value.map(entry => resolveReferences(entry, results));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, resolveReferences(entry, results)]));
+  }
+  return value;
+}
+
+/**
+ * Run a composite request's subrequests in order, rolling back on failure when allOrNone is set
+ */
+function handleComposite(context: MockContext, request: MockRequest): MockResponse {
+  const { allOrNone = false, compositeRequest = [] } = parseJsonBody<{
+    allOrNone?: boolean;
+    compositeRequest?: { method: string; url: string; referenceId: string; body?: unknown }[];
+  }>(request);
+
+  if (compositeRequest.length === 0 || compositeRequest.length > MAX_COMPOSITE_SUBREQUESTS) {
+    throw new MockSalesforceError(
+      `The composite request must contain between 1 and ${MAX_COMPOSITE_SUBREQUESTS} subrequests.`,
+      'INVALID_BATCH_REQUEST'
+    );
+  }
+
+  const restore = context.dataset.snapshot();
+  const results = new Map<string, unknown>();
+  const compositeResponse: { body: unknown; httpHeaders: Record<string, string>; httpStatusCode: number; referenceId: string }[] = [];
+  let failed = false;
+
+  for (const subrequest of compositeRequest) {
+    if (failed && allOrNone) {
+      compositeResponse.push({
+        body: [{ errorCode: 'PROCESSING_HALTED', message: 'The transaction was rolled back since another operation in the same transaction failed.' }],
+        httpHeaders: {},
+        httpStatusCode: 400,
+        referenceId: subrequest.referenceId
+      });
+      continue;
+    }
+
+    let response: MockResponse;
+    try {
+      const url = new URL(resolveReferences(subrequest.url, results) as string, 'http://localhost');
+      const body = subrequest.body === undefined ? '' : JSON.stringify(resolveReferences(subrequest.body, results));
+      response = routeDataRequest(context, { method: subrequest.method, path: url.pathname, query: url.searchParams, body, headers: {} });
+    } catch (error) {
+      response = errorResponse(error);
+    }
+
+    if (response.status >= 300) {
+      failed = true;
+    } else {
+      results.set(subrequest.referenceId, response.body);
+    }
+    compositeResponse.push({
+      body: response.body ?? null,
+      httpHeaders: {},
+      httpStatusCode: response.status,
+      referenceId: subrequest.referenceId
+    });
+  }
+
+  if (failed && allOrNone) {
+    restore();
+  }
+  return json(200, { compositeResponse });
+}
+
+/**
+ * Create a tree of records; any failure rolls back the whole request
+ */
+function handleTree(context: MockContext, request: MockRequest, objectName: string): MockResponse {
+  const { dataset } = context;
+  const root = dataset.findObject(objectName);
+  if (!root) throw notFound();
+
+  const { records = [] } = parseJsonBody<{ records?: Record<string, unknown>[] }>(request);
+  const restore = dataset.snapshot();
+  const results: { referenceId: string; id: string }[] = [];
+  // Reference of the record being inserted, reported when it fails
+  let current = 'ref1';
+  let count = 0;
+
+  const insert = (object: MockObjectDefinition, record: Record<string, unknown>, parent?: { field: string; id: string }) => {
+    count++;
+    const attributes = (record.attributes || {}) as { referenceId?: string };
+    const referenceId = attributes.referenceId || `ref${count}`;
+    current = referenceId;
+    if (count > MAX_TREE_RECORDS) {
+      throw new MockSalesforceError(`Exceeded max limit of ${MAX_TREE_RECORDS} records`, 'LIMIT_EXCEEDED');
+    }
+
+    const fields: Record<string, unknown> = {};
+    const children: [string, Record<string, unknown>[]][] = [];
+    for (const [key, value] of Object.entries(record)) {
+      if (key === 'attributes') continue;
+      if (value && typeof value === 'object' && Array.isArray((value as { records?: unknown }).records)) {
+        children.push([key, (value as { records: Record<string, unknown>[] }).records]);
+      } else {
+        fields[key] = value;
+      }
+    }
+
+    const created = dataset.insert(object.name, parent ? { ...fields, [parent.field]: parent.id } : fields);
+    results.push({ referenceId, id: created.Id });
+
+    for (const [relationshipName, childRecords] of children) {
+      const relationship = dataset.childRelationships(object).find(entry => entry.relationshipName === relationshipName);
+      if (!relationship) {
+        throw new MockSalesforceError(`Invalid relationship ${relationshipName} on ${object.name}`, 'INVALID_FIELD');
+      }
+      for (const child of childRecords) {
+        insert(dataset.getObject(relationship.childSObject), child, { field: relationship.field, id: created.Id });
+      }
+    }
+  };
+
+  try {
+    for (const record of records) {
+      insert(root, record);
+    }
+  } catch (error) {
+    restore();
+    if (!(error instanceof MockSalesforceError)) throw error;
+    return json(400, {
+      hasErrors: true,
+      results: [{ referenceId: current, errors: [{ statusCode: error.errorCode, message: error.message, fields: error.fields }] }]
+    });
+  }
+
+  return json(201, { hasErrors: false, results });
+}
+
+/**
+ * Route a request under /services/data/vNN.N
+ * @param context The mock org
+ * @param request The request, with its full path
+ * @returns The response; errors are returned as REST API error bodies
+ */
+export function routeDataRequest(context: MockContext, request: MockRequest): MockResponse {
+  try {
+    const match = /^\/services\/data\/v(\d+\.\d+)(\/.*)?$/.exec(request.path);
+    if (!match) throw notFound();
+
+    const apiVersion = match[1];
+    const [resource, ...segments] = (match[2] || '').split('/').filter(Boolean);
+
+    switch (resource) {
+      case 'query':
+      case 'queryAll': {
+        if (segments[0]) {
+          const cursor = context.queryCursors.get(segments[0]);
+          if (!cursor) {
+            throw new MockSalesforceError('invalid query locator', 'INVALID_QUERY_LOCATOR');
+          }
+          context.queryCursors.delete(segments[0]);
+          return queryPage(context, apiVersion, cursor.totalSize, cursor.records);
+        }
+        return runQuery(context, apiVersion, request.query.get('q'));
+      }
+      case 'search':
+        return runSearch(context, apiVersion, request.query.get('q'));
+      case 'sobjects':
+        return handleSObjects(context, request, apiVersion, segments);
+      case 'composite':
+        if (request.method !== 'POST') throw notFound();
+        if (segments[0] === 'tree' && segments[1]) return handleTree(context, request, segments[1]);
+        if (segments.length === 0) return handleComposite(context, request);
+        throw notFound();
+      case 'jobs':
+        return handleBulkRequest(context, request, apiVersion, segments);
+      case 'analytics':
+        return handleAnalyticsRequest(context, request, apiVersion, segments);
+      default:
+        throw notFound();
+    }
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Route a request under /services/apexrest to the registered handlers
+ * @param context The mock org
+ * @param request The request, with its full path
+ */
+export function routeApexRequest(context: MockContext, request: MockRequest): MockResponse {
+  const path = request.path.replace(/^\/services\/apexrest/, '') || '/';
+  const handler = context.apexRoutes[path]
+    ?? Object.entries(context.apexRoutes).find(([pattern]) => pattern.endsWith('/*') && path.startsWith(pattern.slice(0, -1)))?.[1];
+
+  if (!handler) {
+    return json(404, [{ errorCode: 'NOT_FOUND', message: `Could not find a match for URL ${path}` }]);
+  }
+  try {
+    return handler(request, context.dataset);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,169 @@
+/**
+ * @fileoverview Local HTTP server standing in for a Salesforce org.
+ *
+ * In mock mode requests are answered from a seeded in-memory dataset. In record
+ * mode they are forwarded to a real org and each exchange is written as a
+ * fixture (see recorder.ts); in replay mode those fixtures are served back
+ * (see replay.ts).
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { MockDataset } from './dataset';
+import { FixtureRecorder, RecordOptions } from './recorder';
+import { loadFixtures, replayFixture } from './replay';
+import { routeApexRequest, routeDataRequest } from './rest';
+import { MockApexHandler, MockContext, MockInterceptor, MockRequest, MockResponse, RecordedRequest, json } from './types';
+
+export const MOCK_ACCESS_TOKEN = 'mock-access-token';
+
+const OAUTH_TOKEN_PATH = '/services/oauth2/token';
+const OAUTH_GRANT_TYPES = ['password', 'refresh_token', 'client_credentials', 'urn:ietf:params:oauth:grant-type:jwt-bearer'];
+
+export interface SalesforceMockServerOptions {
+  /** Token the server issues and expects; defaults to MOCK_ACCESS_TOKEN */
+  accessToken?: string;
+  /** Username and password accepted by the password grant; any are accepted when omitted */
+  credentials?: { username: string; password: string };
+  /** Org data; defaults to a fresh copy of the seed dataset */
+  dataset?: MockDataset;
+  /** Records per query page before a nextRecordsUrl is returned (default 2000) */
+  queryBatchSize?: number;
+  /** Handlers for /services/apexrest paths, e.g. { '/AccountHealth/*': handler } */
+  apexRoutes?: Record<string, MockApexHandler>;
+  /** Handler tried before the token endpoint, the auth check and the org's routes */
+  intercept?: MockInterceptor;
+  /** Answer from the fixtures in this directory instead of the dataset */
+  fixturesDir?: string;
+  /** Forward requests to a real org and record fixtures instead of serving the dataset */
+  record?: RecordOptions;
+}
+
+export interface SalesforceMockServer {
+  url: string;
+  accessToken: string;
+  dataset: MockDataset;
+  requests: RecordedRequest[];
+  close: () => Promise<void>;
+}
+
+/**
+ * Answer a token request for any of the supported grant types
+ */
+function handleTokenRequest(request: MockRequest, url: string, accessToken: string, options: SalesforceMockServerOptions): MockResponse {
+  const params = new URLSearchParams(request.body);
+  const grantType = params.get('grant_type') || '';
+
+  if (!OAUTH_GRANT_TYPES.includes(grantType)) {
+    return json(400, { error: 'unsupported_grant_type', error_description: 'grant type not supported' });
+  }
+  if (grantType === 'password' && options.credentials &&
+    (params.get('username') !== options.credentials.username || params.get('password') !== options.credentials.password)) {
+    return json(400, { error: 'invalid_grant', error_description: 'authentication failure' });
+  }
+
+  return json(200, {
+    access_token: accessToken,
+    instance_url: url,
+    id: `${url}/id/00D000000000001AAA/005000000000001AAA`,
+    token_type: 'Bearer',
+    issued_at: String(Date.now()),
+    signature: 'mock-signature',
+    ...(grantType === 'password' ? { refresh_token: 'mock-refresh-token' } : {})
+  });
+}
+
+/**
+ * Start a mock org on a random local port
+ * @param options Dataset, credentials, handlers and mode
+ * @returns The server's base URL, its dataset, the requests it received and a close function
+ */
+export async function startSalesforceMockServer(options: SalesforceMockServerOptions = {}): Promise<SalesforceMockServer> {
+  const accessToken = options.accessToken || MOCK_ACCESS_TOKEN;
+  const context: MockContext = {
+    dataset: options.dataset || new MockDataset(),
+    queryBatchSize: options.queryBatchSize || 2000,
+    queryCursors: new Map(),
+    bulkJobs: new Map(),
+    apexRoutes: options.apexRoutes || {},
+    sequence: 0
+  };
+  const recorder = options.record ? new FixtureRecorder(options.record) : undefined;
+  const fixtures = options.fixturesDir ? loadFixtures(options.fixturesDir) : undefined;
+  const requests: RecordedRequest[] = [];
+  let url = '';
+
+  const handle = async (request: MockRequest, rawUrl: string, headers: http.IncomingHttpHeaders): Promise<MockResponse> => {
+    if (recorder) {
+      const forwarded = await recorder.forward({ method: request.method, url: rawUrl, headers, body: request.body }, url);
+      return { status: forwarded.status, text: forwarded.body, headers: { 'Content-Type': 'application/json', ...forwarded.headers } };
+    }
+    if (fixtures) {
+      return replayFixture(fixtures, request.method, rawUrl);
+    }
+
+    const intercepted = options.intercept?.(request, context.dataset);
+    if (intercepted) {
+      return intercepted;
+    }
+
+    if (request.path === OAUTH_TOKEN_PATH && request.method === 'POST') {
+      return handleTokenRequest(request, url, accessToken, options);
+    }
+    if (request.headers.authorization !== `Bearer ${accessToken}`) {
+      return json(401, [{ message: 'Session expired or invalid', errorCode: 'INVALID_SESSION_ID' }]);
+    }
+    if (request.path.startsWith('/services/apexrest/')) {
+      return routeApexRequest(context, request);
+    }
+    return routeDataRequest(context, request);
+  };
+
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', async () => {
+      const rawUrl = req.url || '/';
+      const parsed = new URL(rawUrl, 'http://localhost');
+      requests.push({ method: req.method || 'GET', url: rawUrl, body });
+
+      let response: MockResponse;
+      try {
+        response = await handle({
+          method: req.method || 'GET',
+          path: parsed.pathname,
+          query: parsed.searchParams,
+          body,
+          headers: { authorization: req.headers.authorization, 'content-type': req.headers['content-type'] }
+        }, rawUrl, req.headers);
+      } catch (error) {
+        response = json(502, [{ message: error instanceof Error ? error.message : String(error), errorCode: 'MOCK_SERVER_ERROR' }]);
+      }
+
+      res.statusCode = response.status;
+      for (const [name, value] of Object.entries(response.headers || {})) {
+        res.setHeader(name, value);
+      }
+      if (response.text !== undefined) {
+        if (!res.hasHeader('Content-Type')) res.setHeader('Content-Type', 'text/csv');
+        res.end(response.text);
+      } else if (response.body !== undefined && response.status !== 204) {
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify(response.body));
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    url,
+    accessToken,
+    dataset: context.dataset,
+    requests,
+    close: () => new Promise<void>(resolve => server.close(() => resolve()))
+  };
+}
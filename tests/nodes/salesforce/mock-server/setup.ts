@@ -0,0 +1,90 @@
+/**
+ * @fileoverview Jest setup for tests that run the salesforce_* tools against the mock org.
+ *
+ * Call setupSalesforceMockServer() at the top of a test file (with the node test
+ * environment). It starts the server before the file's tests, points the
+ * SALESFORCE_INSTANCE_URL and SALESFORCE_ACCESS_TOKEN variables at it, enables
+ * the shared connection, and restores them afterwards. The requests the server
+ * received are cleared before each test.
+ *
+ * Set SALESFORCE_MOCK_MODE=record to run the same tests against a real org
+ * instead, writing scrubbed fixtures as they run:
+ *   SALESFORCE_RECORD_URL           instance URL of the org
+ *   SALESFORCE_RECORD_ACCESS_TOKEN  access token for the org
+ *   SALESFORCE_RECORD_DIR           fixture directory (default fixtures/recorded)
+ */
+
+import path from 'path';
+import { MockDataset } from './dataset';
+import { SalesforceMockServer, SalesforceMockServerOptions, startSalesforceMockServer } from './server';
+
+const ENV_KEYS = ['SALESFORCE_INSTANCE_URL', 'SALESFORCE_ACCESS_TOKEN', 'SALESFORCE_SHARED_CONNECTION'];
+
+/**
+ * Record options from the environment, when record mode is switched on
+ */
+function recordOptionsFromEnv(): SalesforceMockServerOptions['record'] {
+  if (process.env.SALESFORCE_MOCK_MODE !== 'record') {
+    return undefined;
+  }
+
+  const targetUrl = process.env.SALESFORCE_RECORD_URL;
+  const accessToken = process.env.SALESFORCE_RECORD_ACCESS_TOKEN;
+  if (!targetUrl || !accessToken) {
+    throw new Error('Record mode needs SALESFORCE_RECORD_URL and SALESFORCE_RECORD_ACCESS_TOKEN');
+  }
+
+  return {
+    targetUrl,
+    accessToken,
+    fixturesDir: process.env.SALESFORCE_RECORD_DIR || path.join(__dirname, '..', 'fixtures', 'recorded')
+  };
+}
+
+/**
+ * Start the mock org for the current test file
+ * @param options Server options; record mode can also be switched on from the environment
+ * @returns Accessors for the running server and its dataset
+ */
+export function setupSalesforceMockServer(options: SalesforceMockServerOptions = {}): {
+  readonly server: SalesforceMockServer;
+  readonly dataset: MockDataset;
+} {
+  let server: SalesforceMockServer | undefined;
+  const previous: Record<string, string | undefined> = {};
+
+  beforeAll(async () => {
+    server = await startSalesforceMockServer({ record: recordOptionsFromEnv(), ...options });
+    for (const key of ENV_KEYS) {
+      previous[key] = process.env[key];
+    }
+    process.env.SALESFORCE_INSTANCE_URL = server.url;
+    process.env.SALESFORCE_ACCESS_TOKEN = server.accessToken;
+    process.env.SALESFORCE_SHARED_CONNECTION = 'true';
+  });
+
+  beforeEach(() => {
+    if (server) server.requests.length = 0;
+  });
+
+  afterAll(async () => {
+    for (const key of ENV_KEYS) {
+      if (previous[key] === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = previous[key];
+      }
+    }
+    await server?.close();
+  });
+
+  return {
+    get server() {
+      if (!server) throw new Error('The Salesforce mock server is only available inside tests');
+      return server;
+    },
+    get dataset() {
+      return this.server.dataset;
+    }
+  };
+}
@@ -0,0 +1,490 @@
+/**
+ * @fileoverview Tiny SOQL evaluator for the mock Salesforce server.
+ *
+ * Supports the subset the tools generate:
+ *   SELECT field, Parent.Field | COUNT() FROM Object
+ *   [WHERE a = 'x' AND (b > 1 OR c LIKE 'A%') AND d IN ('x', 'y') AND NOT e = null]
+ *   [ORDER BY field [ASC|DESC] [NULLS FIRST|LAST], ...] [LIMIT n] [OFFSET n]
+ * Anything else (subqueries, GROUP BY, aggregate functions, relative dates such as TODAY) is rejected
+ * with MALFORMED_QUERY, which is how the real API reports syntax it cannot parse.
+ */
+
+import { MockDataset, MockFieldDefinition, MockObjectDefinition, MockRecord, MockSalesforceError } from './dataset';
+
+type Token =
+  | { type: 'word'; value: string }
+  | { type: 'string'; value: string }
+  | { type: 'number'; value: number }
+  | { type: 'op'; value: string }
+  | { type: 'punct'; value: string };
+
+type Literal = string | number | boolean | null;
+
+type Condition =
+  | { type: 'and' | 'or'; conditions: Condition[] }
+  | { type: 'not'; condition: Condition }
+  | { type: 'compare'; field: string; operator: string; value: Literal | Literal[] };
+
+export interface SoqlQuery {
+  object: string;
+  fields: string[];
+  count: boolean;
+  where?: Condition;
+  orderBy: { field: string; descending: boolean; nullsLast: boolean }[];
+  limit?: number;
+  offset?: number;
+}
+
+const KEYWORDS = ['SELECT', 'FROM', 'WHERE', 'AND', 'OR', 'NOT', 'IN', 'LIKE', 'ORDER', 'BY', 'ASC', 'DESC', 'NULLS', 'FIRST', 'LAST', 'LIMIT', 'OFFSET'];
+
+function malformed(message: string): MockSalesforceError {
+  return new MockSalesforceError(message, 'MALFORMED_QUERY');
+}
+
+/**
+ * Split a SOQL statement into tokens
+ */
+function tokenize(soql: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < soql.length) {
+    const char = soql[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === "'") {
+      let value = '';
+      i++;
+      while (i < soql.length && soql[i] !== "'") {
+        if (soql[i] === '\\' && i + 1 < soql.length) {
+          i++;
+        }
+        value += soql[i++];
+      }
+      if (i >= soql.length) throw malformed('unexpected end of string literal');
+      i++;
+      tokens.push({ type: 'string', value });
+    } else if (/[0-9]/.test(char) || (char === '-' && /[0-9]/.test(soql[i + 1] || ''))) {
+      const match = /^-?\d+(\.\d+)?/.exec(soql.slice(i))!;
+      // Date literals such as 2026-01-31 are compared as strings
+      const date = /^\d{4}-\d{2}-\d{2}(T[\d:.]+Z)?/.exec(soql.slice(i));
+      if (date) {
+        tokens.push({ type: 'string', value: date[0] });
+        i += date[0].length;
+      } else {
+        tokens.push({ type: 'number', value: Number(match[0]) });
+        i += match[0].length;
+      }
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_.]*/.exec(soql.slice(i))!;
+      tokens.push({ type: 'word', value: match[0] });
+      i += match[0].length;
+    } else if (/[<>!=]/.test(char)) {
+      const match = /^(<=|>=|!=|<>|=|<|>)/.exec(soql.slice(i));
+      if (!match) throw malformed(`unexpected token: '${char}'`);
+      tokens.push({ type: 'op', value: match[0] === '<>' ? '!=' : match[0] });
+      i += match[0].length;
+    } else if ('(),'.includes(char)) {
+      tokens.push({ type: 'punct', value: char });
+      i++;
+    } else {
+      throw malformed(`unexpected token: '${char}'`);
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive descent parser over the token list
+ */
+class Parser {
+  private position = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): SoqlQuery {
+    this.expectKeyword('SELECT');
+
+    let count = false;
+    const fields: string[] = [];
+    if (this.isWord('COUNT') && this.peek(1)?.value === '(') {
+      this.position += 2;
+      this.expectPunct(')');
+      count = true;
+    } else {
+      do {
+        if (this.peek()?.value === '(') {
+          throw malformed('Subqueries are not supported by the mock server');
+        }
+        fields.push(this.expectIdentifier());
+        if (this.peek()?.value === '(') {
+          throw malformed(`Aggregate and function calls are not supported: ${fields[fields.length - 1]}()`);
+        }
+      } while (this.acceptPunct(','));
+    }
+
+    this.expectKeyword('FROM');
+    const object = this.expectIdentifier();
+
+    const query: SoqlQuery = { object, fields, count, orderBy: [] };
+
+    if (this.acceptKeyword('WHERE')) {
+      query.where = this.parseOr();
+    }
+
+    if (this.acceptKeyword('ORDER')) {
+      this.expectKeyword('BY');
+      do {
+        const field = this.expectIdentifier();
+        const descending = this.acceptKeyword('DESC');
+        if (!descending) {
+          this.acceptKeyword('ASC');
+        }
+
+        // Nulls sort first by default, and last when descending
+        let nullsLast = descending;
+        if (this.acceptKeyword('NULLS')) {
+          nullsLast = this.acceptKeyword('LAST');
+          if (!nullsLast) {
+            this.expectKeyword('FIRST');
+          }
+        }
+        query.orderBy.push({ field, descending, nullsLast });
+      } while (this.acceptPunct(','));
+    }
+
+    if (this.acceptKeyword('LIMIT')) {
+      query.limit = this.expectNumber();
+    }
+    if (this.acceptKeyword('OFFSET')) {
+      query.offset = this.expectNumber();
+    }
+
+    const rest = this.peek();
+    if (rest) {
+      throw malformed(`unexpected token: '${rest.value}'`);
+    }
+    return query;
+  }
+
+  private parseOr(): Condition {
+    const conditions = [this.parseAnd()];
+    while (this.acceptKeyword('OR')) {
+      conditions.push(this.parseAnd());
+    }
+    return conditions.length === 1 ? conditions[0] : { type: 'or', conditions };
+  }
+
+  private parseAnd(): Condition {
+    const conditions = [this.parseUnary()];
+    while (this.acceptKeyword('AND')) {
+      conditions.push(this.parseUnary());
+    }
+    return conditions.length === 1 ? conditions[0] : { type: 'and', conditions };
+  }
+
+  private parseUnary(): Condition {
+    if (this.acceptKeyword('NOT')) {
+      return { type: 'not', condition: this.parseUnary() };
+    }
+    if (this.acceptPunct('(')) {
+      const condition = this.parseOr();
+      this.expectPunct(')');
+      return condition;
+    }
+
+    const field = this.expectIdentifier();
+    const token = this.peek();
+
+    if (token?.type === 'op') {
+      this.position++;
+      return { type: 'compare', field, operator: token.value, value: this.parseLiteral() };
+    }
+    if (this.acceptKeyword('LIKE')) {
+      return { type: 'compare', field, operator: 'LIKE', value: this.parseLiteral() };
+    }
+
+    const negated = this.acceptKeyword('NOT');
+    if (this.acceptKeyword('IN')) {
+      this.expectPunct('(');
+      if (this.isWord('SELECT')) {
+        throw malformed('Semi-join subqueries are not supported by the mock server');
+      }
+      const values: Literal[] = [];
+      do {
+        values.push(this.parseLiteral());
+      } while (this.acceptPunct(','));
+      this.expectPunct(')');
+      return { type: 'compare', field, operator: negated ? 'NOT IN' : 'IN', value: values };
+    }
+
+    throw malformed(`unexpected token: '${token?.value ?? 'end of query'}'`);
+  }
+
+  private parseLiteral(): Literal {
+    const token = this.tokens[this.position++];
+    if (!token) throw malformed('unexpected end of query');
+    if (token.type === 'string' || token.type === 'number') return token.value;
+    if (token.type === 'word') {
+      const upper = token.value.toUpperCase();
+      if (upper === 'NULL') return null;
+      if (upper === 'TRUE' || upper === 'FALSE') return upper === 'TRUE';
+    }
+    throw malformed(`unexpected token: '${token.value}'`);
+  }
+
+  private peek(offset = 0): Token | undefined {
+    return this.tokens[this.position + offset];
+  }
+
+  private isWord(keyword: string): boolean {
+    const token = this.peek();
+    return token?.type === 'word' && token.value.toUpperCase() === keyword;
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    if (this.isWord(keyword)) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectKeyword(keyword: string): void {
+    if (!this.acceptKeyword(keyword)) {
+      throw malformed(`expecting '${keyword}', found '${this.peek()?.value ?? 'end of query'}'`);
+    }
+  }
+
+  private acceptPunct(value: string): boolean {
+    if (this.peek()?.type === 'punct' && this.peek()?.value === value) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectPunct(value: string): void {
+    if (!this.acceptPunct(value)) {
+      throw malformed(`expecting '${value}', found '${this.peek()?.value ?? 'end of query'}'`);
+    }
+  }
+
+  private expectIdentifier(): string {
+    const token = this.tokens[this.position++];
+    if (token?.type !== 'word' || KEYWORDS.includes(token.value.toUpperCase())) {
+      throw malformed(`unexpected token: '${token?.value ?? 'end of query'}'`);
+    }
+    return token.value;
+  }
+
+  private expectNumber(): number {
+    const token = this.tokens[this.position++];
+    if (token?.type !== 'number' || !Number.isInteger(token.value) || token.value < 0) {
+      throw malformed(`expecting a non-negative integer, found '${token?.value ?? 'end of query'}'`);
+    }
+    return token.value;
+  }
+}
+
+/**
+ * Parse a SOQL statement
+ * @throws MockSalesforceError with MALFORMED_QUERY for unsupported syntax
+ */
+export function parseSoql(soql: string): SoqlQuery {
+  return new Parser(tokenize(soql)).parse();
+}
+
+/**
+ * A field path resolved against the object model, e.g. Account.Owner.Name
+ */
+interface ResolvedPath {
+  /** Canonical path used as the output key, e.g. Account.Name */
+  canonical: string;
+  /** Reference fields followed before the final field */
+  hops: { field: MockFieldDefinition; object: MockObjectDefinition }[];
+  field: MockFieldDefinition;
+}
+
+function resolvePath(dataset: MockDataset, object: MockObjectDefinition, path: string): ResolvedPath {
+  const parts = path.split('.');
+  const hops: ResolvedPath['hops'] = [];
+  let current = object;
+
+  for (const relationship of parts.slice(0, -1)) {
+    const lower = relationship.toLowerCase();
+    const reference = current.fields.find(candidate => candidate.relationshipName?.toLowerCase() === lower);
+    if (!reference) {
+      throw new MockSalesforceError(
+        `Didn't understand relationship '${relationship}' in field path. If you are attempting to use a custom relationship, be sure to append the '__r' after the custom relationship name.`,
+        'INVALID_FIELD'
+      );
+    }
+    const target = dataset.getObject(reference.referenceTo!);
+    hops.push({ field: reference, object: target });
+    current = target;
+  }
+
+  const name = parts[parts.length - 1];
+  const field = dataset.findField(current, name);
+  if (!field) {
+    throw new MockSalesforceError(`No such column '${name}' on entity '${current.name}'.`, 'INVALID_FIELD');
+  }
+
+  return {
+    canonical: [...hops.map(hop => hop.field.relationshipName!), field.name].join('.'),
+    hops,
+    field
+  };
+}
+
+function readPath(dataset: MockDataset, record: MockRecord, path: ResolvedPath): unknown {
+  let current: MockRecord | undefined = record;
+  for (const hop of path.hops) {
+    const id: unknown = current[hop.field.name];
+    current = typeof id === 'string' ? dataset.get(hop.object.name, id) : undefined;
+    if (!current) return null;
+  }
+  return current[path.field.name] ?? null;
+}
+
+function compareValues(left: unknown, right: unknown): number {
+  if (typeof left === 'number' && typeof right === 'number') return left - right;
+  return String(left).localeCompare(String(right));
+}
+
+function matches(dataset: MockDataset, object: MockObjectDefinition, record: MockRecord, condition: Condition): boolean {
+  switch (condition.type) {
+    case 'and':
+      return condition.conditions.every(entry => matches(dataset, object, record, entry));
+    case 'or':
+      return condition.conditions.some(entry => matches(dataset, object, record, entry));
+    case 'not':
+      return !matches(dataset, object, record, condition.condition);
+  }
+
+  const value = readPath(dataset, record, resolvePath(dataset, object, condition.field));
+  const expected = condition.value;
+  const isNull = value === null || value === undefined;
+  const equals = (candidate: Literal) => candidate === null
+    ? isNull
+    : !isNull && String(value).toLowerCase() === String(candidate).toLowerCase();
+
+  switch (condition.operator) {
+    case '=':
+      return equals(expected as Literal);
+    case '!=':
+      return !equals(expected as Literal);
+    case '<':
+      return !isNull && compareValues(value, expected) < 0;
+    case '<=':
+      return !isNull && compareValues(value, expected) <= 0;
+    case '>':
+      return !isNull && compareValues(value, expected) > 0;
+    case '>=':
+      return !isNull && compareValues(value, expected) >= 0;
+    case 'LIKE': {
+      const pattern = String(expected).replace(/[.+?^${}()|[\]\\*]/g, '\\$&').replace(/%/g, '.*').replace(/_/g, '.');
+      return !isNull && new RegExp(`^${pattern}$`, 'i').test(String(value));
+    }
+    case 'IN':
+      return (expected as Literal[]).some(equals);
+    case 'NOT IN':
+      return !(expected as Literal[]).some(equals);
+    default:
+      throw malformed(`unexpected operator: ${condition.operator}`);
+  }
+}
+
+/**
+ * Build the REST API representation of a record with the selected fields,
+ * nesting parent fields under their relationship names
+ */
+function shapeRecord(
+  dataset: MockDataset,
+  apiVersion: string,
+  object: MockObjectDefinition,
+  record: MockRecord,
+  paths: ResolvedPath[]
+): Record<string, unknown> {
+  const shaped: Record<string, unknown> = {
+    attributes: { type: object.name, url: `/services/data/v${apiVersion}/sobjects/${object.name}/${record.Id}` }
+  };
+
+  for (const path of paths) {
+    let target = shaped;
+    let source: MockRecord | undefined = record;
+
+    for (const hop of path.hops) {
+      const id: unknown = source?.[hop.field.name];
+      source = typeof id === 'string' ? dataset.get(hop.object.name, id) : undefined;
+      const key = hop.field.relationshipName!;
+      if (!source) {
+        target[key] = null;
+        target = {};
+        break;
+      }
+      if (!target[key]) {
+        target[key] = {
+          attributes: { type: hop.object.name, url: `/services/data/v${apiVersion}/sobjects/${hop.object.name}/${source.Id}` }
+        };
+      }
+      target = target[key] as Record<string, unknown>;
+    }
+
+    if (source) {
+      target[path.field.name] = source[path.field.name] ?? null;
+    }
+  }
+
+  return shaped;
+}
+
+/**
+ * Run a SOQL statement against the dataset
+ * @param dataset The mock org
+ * @param soql The SOQL statement
+ * @param apiVersion API version used in record attribute URLs
+ * @returns The total number of matching records and the selected page of shaped records
+ */
+export function executeSoql(
+  dataset: MockDataset,
+  soql: string,
+  apiVersion: string = '60.0'
+): { totalSize: number; records: Record<string, unknown>[] } {
+  const query = parseSoql(soql);
+  const object = dataset.getObject(query.object);
+  const paths = query.fields.map(field => resolvePath(dataset, object, field));
+  const order = query.orderBy.map(entry => ({ ...entry, path: resolvePath(dataset, object, entry.field) }));
+
+  let records = dataset.list(object.name).filter(record => !query.where || matches(dataset, object, record, query.where));
+
+  if (order.length > 0) {
+    records = [...records].sort((a, b) => {
+      for (const entry of order) {
+        const left = readPath(dataset, a, entry.path);
+        const right = readPath(dataset, b, entry.path);
+        if (left === right) continue;
+        if (left === null) return entry.nullsLast ? 1 : -1;
+        if (right === null) return entry.nullsLast ? -1 : 1;
+        const result = compareValues(left, right);
+        if (result !== 0) return entry.descending ? -result : result;
+      }
+      return 0;
+    });
+  }
+
+  const offset = query.offset ?? 0;
+  const page = records.slice(offset, query.limit !== undefined ? offset + query.limit : undefined);
+
+  if (query.count) {
+    return { totalSize: page.length, records: [] };
+  }
+
+  return {
+    totalSize: page.length,
+    records: page.map(record => shapeRecord(dataset, apiVersion, object, record, paths))
+  };
+}
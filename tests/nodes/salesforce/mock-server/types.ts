@@ -0,0 +1,105 @@
+/**
+ * @fileoverview Request, response and state types shared by the mock Salesforce server's handlers
+ */
+
+import { MockDataset, MockSalesforceError } from './dataset';
+
+export interface MockRequest {
+  method: string;
+  /** Path without the query string */
+  path: string;
+  query: URLSearchParams;
+  body: string;
+  headers: Record<string, string | undefined>;
+}
+
+/**
+ * A request as the server received it, kept for assertions
+ */
+export interface RecordedRequest {
+  method: string;
+  /** Path and query string */
+  url: string;
+  body: string;
+}
+
+export interface MockResponse {
+  status: number;
+  /** JSON body */
+  body?: unknown;
+  /** Raw body, e.g. CSV results; sent as text/csv unless headers say otherwise */
+  text?: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Handler for a custom Apex REST route
+ */
+export type MockApexHandler = (request: MockRequest, dataset: MockDataset) => MockResponse;
+
+/**
+ * Test-specific handler run before the token endpoint and the org's routes, for
+ * responses the dataset can't produce (e.g. metadata a test needs verbatim or a
+ * failure it provokes). Returning undefined leaves the request to the server.
+ */
+export type MockInterceptor = (request: MockRequest, dataset: MockDataset) => MockResponse | undefined;
+
+export interface MockBulkJob {
+  id: string;
+  kind: 'query' | 'ingest';
+  operation: string;
+  object: string;
+  state: string;
+  externalIdFieldName?: string;
+  query?: string;
+  /** Uploaded CSV for ingest jobs */
+  csv: string;
+  /** Query results, or processed ingest rows with their sf__ columns */
+  results: Record<string, unknown>[];
+  failures: Record<string, unknown>[];
+  errorMessage?: string;
+  createdDate: string;
+}
+
+/**
+ * Mutable state of one mock org
+ */
+export interface MockContext {
+  dataset: MockDataset;
+  queryBatchSize: number;
+  /** Remaining records of paged queries and their total size, keyed by locator */
+  queryCursors: Map<string, { totalSize: number; records: Record<string, unknown>[] }>;
+  bulkJobs: Map<string, MockBulkJob>;
+  apexRoutes: Record<string, MockApexHandler>;
+  /** Next value for generated cursor and job IDs */
+  sequence: number;
+}
+
+/**
+ * Build a JSON response
+ */
+export function json(status: number, body?: unknown): MockResponse {
+  return { status, body };
+}
+
+/**
+ * Convert a thrown error into the REST API's error response
+ */
+export function errorResponse(error: unknown): MockResponse {
+  if (error instanceof MockSalesforceError) {
+    return json(error.status, error.toBody());
+  }
+  return json(500, [{ message: error instanceof Error ? error.message : String(error), errorCode: 'UNKNOWN_EXCEPTION' }]);
+}
+
+/**
+ * Parse a JSON request body
+ * @throws MockSalesforceError with JSON_PARSER_ERROR when the body is not valid JSON
+ */
+export function parseJsonBody<T = Record<string, unknown>>(request: MockRequest): T {
+  try {
+    return (request.body ? JSON.parse(request.body) : {}) as T;
+  } catch {
+    throw new MockSalesforceError('Unexpected character in request body', 'JSON_PARSER_ERROR');
+  }
+}
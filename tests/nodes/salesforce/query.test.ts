@@ -0,0 +1,162 @@
+/**
+ * @jest-environment node
+ */
+
+// First, so its mocks apply to the imports below
+import { MockDataset, json, mockRecordId, setupSalesforceMockServer } from './setup';
+import { salesforceQueryTool } from '@/nodes/salesforce';
+import { buildSoqlQuery } from '@/nodes/salesforce/api';
+import { formatRecordsAsTable } from '@/nodes/salesforce/formatters';
+
+const OWNER_ID = mockRecordId('005', 1);
+
+// Accounts owned by a user whose name needs escaping in a Markdown table
+const dataset = () => new MockDataset(
+  [
+    {
+      name: 'Account',
+      label: 'Account',
+      keyPrefix: '001',
+      fields: [
+        { name: 'Name', label: 'Account Name', type: 'string', required: true },
+        { name: 'Industry', label: 'Industry', type: 'string' },
+        { name: 'AnnualRevenue', label: 'Annual Revenue', type: 'currency' },
+        { name: 'OwnerId', label: 'Owner ID', type: 'reference', referenceTo: 'User', relationshipName: 'Owner' }
+      ]
+    },
+    { name: 'User', label: 'User', keyPrefix: '005', fields: [{ name: 'Name', label: 'Full Name', type: 'string' }] }
+  ],
+  {
+    Account: Array.from({ length: 5 }, (_, i) => ({ Id: mockRecordId('001', i + 1), Name: `Account ${i + 1}`, OwnerId: OWNER_ID })),
+    User: [{ Id: OWNER_ID, Name: 'Ada | Admin' }]
+  }
+);
+
+describe('salesforce_query', () => {
+  const mock = setupSalesforceMockServer({
+    dataset: dataset(),
+    queryBatchSize: 2,
+    intercept: request => {
+      if (request.path.endsWith('/query') && request.query.get('q')?.includes("'Redirect'")) {
+        return json(200, {
+          totalSize: 5,
+          done: false,
+          records: [],
+          nextRecordsUrl: 'http://127.0.0.1:1/services/data/v60.0/query/01gxx-2'
+        });
+      }
+      return undefined;
+    }
+  });
+
+  const queryRequests = () => mock.server.requests.map(request => request.url).filter(url => url.includes('/query'));
+
+  const execOptions = (config: Record<string, unknown> = {}) => ({
+    toolCallId: 'call-1',
+    sessionId: 'session-1',
+    nodeConfigurations: { salesforce: { instanceUrl: mock.server.url, apiVersion: '60.0', ...config } }
+  });
+
+  it('follows nextRecordsUrl until the query is done', async () => {
+    const result = await salesforceQueryTool.execute({ soql: 'SELECT Id, Name, Owner.Name FROM Account' }, execOptions());
+
+    expect(result.type).toBe('salesforce_query_result');
+    expect(result.data.records).toHaveLength(5);
+    expect(result.data.pages).toBe(3);
+    expect(result.data.truncated).toBe(false);
+    expect(queryRequests()[0]).toContain('/services/data/v60.0/query?q=SELECT');
+    expect(result.content).toContain('| Id | Name | Owner.Name |');
+    expect(result.content).toContain(`| ${mockRecordId('001', 5)} | Account 5 | Ada \\| Admin |`);
+  });
+
+  it('stops paginating at the configured record cap', async () => {
+    const result = await salesforceQueryTool.execute({ soql: 'SELECT Id FROM Account' }, execOptions({ maxRecords: 3 }));
+
+    expect(result.data.records).toHaveLength(3);
+    expect(result.data.pages).toBe(2);
+    expect(result.data.truncated).toBe(true);
+    expect(result.content).toContain('capped at 3 records');
+  });
+
+  it('does not follow a nextRecordsUrl outside the instance', async () => {
+    const result = await salesforceQueryTool.execute({ soql: "SELECT Id FROM Account WHERE Industry = 'Redirect'" }, execOptions());
+
+    expect(result.data.error).toContain('Refusing to send a Salesforce request to http://127.0.0.1:1');
+    expect(queryRequests()).toHaveLength(1);
+  });
+
+  it('builds the query from structured parameters', async () => {
+    const result = await salesforceQueryTool.execute(
+      { object: 'Account', fields: ['Id', 'Name'], where: "Industry = 'Energy'", orderBy: 'Name', limit: 10 },
+      execOptions()
+    );
+
+    expect(result.data.soql).toBe("SELECT Id, Name FROM Account WHERE Industry = 'Energy' ORDER BY Name LIMIT 10");
+    expect(decodeURIComponent(queryRequests()[0])).toContain("WHERE Industry = 'Energy'");
+  });
+
+  it('returns Salesforce API errors as a formatted message', async () => {
+    const result = await salesforceQueryTool.execute({ soql: 'SELECT Id FROM Account WHERE Bogus__c = 1' }, execOptions());
+
+    expect(result.data.error).toContain('INVALID_FIELD');
+    expect(result.content).toContain('## Salesforce Query Error');
+  });
+
+  it('rejects unknown fields with suggestions before calling the query endpoint', async () => {
+    const result = await salesforceQueryTool.execute(
+      { soql: 'SELECT Id, Revenue__c, Owner.Nme FROM Account' },
+      execOptions()
+    );
+
+    expect(result.data.issues).toEqual([
+      { kind: 'field', name: 'Revenue__c', object: 'Account', suggestions: ['AnnualRevenue'] },
+      { kind: 'field', name: 'Nme', object: 'User', suggestions: ['Name'] }
+    ]);
+    expect(result.content).toContain('Unknown field `Revenue__c` on Account. Did you mean `AnnualRevenue`?');
+    expect(queryRequests()).toHaveLength(0);
+  });
+
+  it('suggests objects for an unknown sObject', async () => {
+    const result = await salesforceQueryTool.execute({ soql: 'SELECT Id FROM Acount' }, execOptions());
+
+    expect(result.content).toContain('Unknown object `Acount`. Did you mean `Account`?');
+  });
+
+  it('reports a missing instance URL', async () => {
+    const instanceUrl = process.env.SALESFORCE_INSTANCE_URL;
+    delete process.env.SALESFORCE_INSTANCE_URL;
+    try {
+      const result = await salesforceQueryTool.execute({ soql: 'SELECT Id FROM Account' }, { toolCallId: 'call-1', sessionId: 'session-1' });
+
+      expect(result.data.error).toContain('instance URL is not configured');
+      expect(mock.server.requests).toHaveLength(0);
+    } finally {
+      process.env.SALESFORCE_INSTANCE_URL = instanceUrl;
+    }
+  });
+});
+
+describe('buildSoqlQuery', () => {
+  it('prefers a raw SOQL statement', () => {
+    expect(buildSoqlQuery({ soql: '  SELECT Id FROM Lead ', object: 'Account' })).toBe('SELECT Id FROM Lead');
+  });
+
+  it('defaults to selecting Id', () => {
+    expect(buildSoqlQuery({ object: 'Contact' })).toBe('SELECT Id FROM Contact');
+  });
+
+  it('rejects invalid identifiers', () => {
+    expect(() => buildSoqlQuery({ object: 'Account; DELETE', fields: ['Id'] })).toThrow('Invalid sObject or field name');
+    expect(() => buildSoqlQuery({})).toThrow('Provide either a SOQL statement');
+  });
+});
+
+describe('formatRecordsAsTable', () => {
+  it('summarizes child subqueries as record counts', () => {
+    const table = formatRecordsAsTable([
+      { attributes: { type: 'Account', url: '' }, Id: '001', Contacts: { totalSize: 2, done: true, records: [{}, {}] } }
+    ]);
+
+    expect(table.split('\n')).toEqual(['| Id | Contacts |', '| --- | --- |', '| 001 | 2 records |']);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * @jest-environment node
+ */
+
+// First, so its mocks apply to the imports below
+import { json, mockRecordId, setupSalesforceMockServer } from './setup';
+import {
+  salesforceCreateRecordTool,
+  salesforceUpdateRecordTool,
+  salesforceUpsertRecordTool,
+  salesforceDeleteRecordTool
+} from '@/nodes/salesforce';
+
+const OPPORTUNITY_ID = mockRecordId('006', 1);
+const CONTACT_ID = mockRecordId('003', 1).slice(0, 15);
+
+describe('Salesforce record tools', () => {
+  const mock = setupSalesforceMockServer({
+    // The seed org has no validation rules; stand one in for negative amounts
+    intercept: request => {
+      if (request.method === 'PATCH' && request.path.endsWith(`/sobjects/Opportunity/${OPPORTUNITY_ID}`) &&
+        JSON.parse(request.body).Amount < 0) {
+        return json(400, [{ message: 'Amount must be positive', errorCode: 'FIELD_CUSTOM_VALIDATION_EXCEPTION', fields: ['Amount'] }]);
+      }
+      return undefined;
+    }
+  });
+
+  const execOptions = (approved = true) => ({
+    toolCallId: 'call-1',
+    sessionId: 'session-1',
+    nodeConfigurations: { salesforce: { instanceUrl: mock.server.url, apiVersion: '60.0' } },
+    approved
+  });
+
+  it('asks for approval before writing', async () => {
+    const params = { object: 'Lead', fields: { LastName: 'Smith', Company: 'Acme' } };
+    const result = await salesforceCreateRecordTool.execute(params, execOptions(false));
+
+    expect(result.type).toBe('tool_approval_required');
+    expect(result.data).toEqual({ toolName: 'salesforce_create_record', args: params, operation: 'create', object: 'Lead' });
+    expect(result.content).toContain('## Approval Required: Create Lead');
+    expect(result.content).toContain('| Company | Acme |');
+    expect(mock.server.requests).toHaveLength(0);
+  });
+
+  it('creates a record once approved', async () => {
+    const result = await salesforceCreateRecordTool.execute(
+      { object: 'Lead', fields: { LastName: 'Smith', Company: 'Acme' } },
+      execOptions()
+    );
+
+    const lead = mock.dataset.list('Lead').find(record => record.LastName === 'Smith');
+    expect(result.type).toBe('salesforce_record_result');
+    expect(result.data.id).toBe(lead?.Id);
+    expect(result.content).toContain(`Created Lead \`${lead?.Id}\``);
+    expect(mock.server.requests[0]).toMatchObject({ method: 'POST', url: '/services/data/v60.0/sobjects/Lead' });
+    expect(JSON.parse(mock.server.requests[0].body)).toEqual({ LastName: 'Smith', Company: 'Acme' });
+  });
+
+  it('returns REQUIRED_FIELD_MISSING as a structured error', async () => {
+    const result = await salesforceCreateRecordTool.execute({ object: 'Lead', fields: { Company: 'Acme' } }, execOptions());
+
+    expect(result.data.error).toEqual({
+      message: 'REQUIRED_FIELD_MISSING: Required fields are missing: [LastName]',
+      errorCode: 'REQUIRED_FIELD_MISSING',
+      fields: ['LastName'],
+      hint: expect.stringContaining('missing fields')
+    });
+    expect(result.content).toContain('## Salesforce Create Error');
+    expect(result.content).toContain('**Fields:** LastName');
+  });
+
+  it('returns validation rule failures as a structured error', async () => {
+    const result = await salesforceUpdateRecordTool.execute(
+      { object: 'Opportunity', id: OPPORTUNITY_ID, fields: { Amount: -5 } },
+      execOptions()
+    );
+
+    expect(result.data.error.errorCode).toBe('FIELD_CUSTOM_VALIDATION_EXCEPTION');
+    expect(result.data.error.fields).toEqual(['Amount']);
+    expect(result.data.error.hint).toContain('validation rule');
+  });
+
+  it('updates a record', async () => {
+    const result = await salesforceUpdateRecordTool.execute(
+      { object: 'Opportunity', id: OPPORTUNITY_ID, fields: { StageName: 'Closed Won' } },
+      execOptions()
+    );
+
+    expect(result.data).toMatchObject({ operation: 'update', id: OPPORTUNITY_ID });
+    expect(mock.server.requests[0].method).toBe('PATCH');
+    expect(mock.dataset.get('Opportunity', OPPORTUNITY_ID)?.StageName).toBe('Closed Won');
+  });
+
+  it('upserts by external ID and reports whether a record was created', async () => {
+    const inserted = await salesforceUpsertRecordTool.execute(
+      { object: 'Account', externalIdField: 'External_Id__c', externalId: 'NEW 1', fields: { Name: 'Acme' } },
+      execOptions()
+    );
+    const updated = await salesforceUpsertRecordTool.execute(
+      { object: 'Account', externalIdField: 'External_Id__c', externalId: 'ACME-1', fields: { Name: 'Acme' } },
+      execOptions()
+    );
+
+    expect(inserted.data.created).toBe(true);
+    expect(inserted.content).toContain('Inserted Account where External_Id__c = NEW 1');
+    expect(updated.data.created).toBe(false);
+    expect(mock.server.requests[0].url).toBe('/services/data/v60.0/sobjects/Account/External_Id__c/NEW%201');
+  });
+
+  it('deletes a record', async () => {
+    const result = await salesforceDeleteRecordTool.execute({ object: 'Contact', id: CONTACT_ID }, execOptions());
+
+    expect(result.content).toContain(`Deleted Contact \`${CONTACT_ID}\``);
+    expect(mock.server.requests[0].method).toBe('DELETE');
+    expect(mock.dataset.get('Contact', CONTACT_ID)).toBeUndefined();
+  });
+
+  it('rejects malformed IDs and field names without calling the API', async () => {
+    const badId = await salesforceDeleteRecordTool.execute({ object: 'Contact', id: '../query' }, execOptions());
+    const badField = await salesforceCreateRecordTool.execute({ object: 'Lead', fields: { 'Owner.Name': 'x' } }, execOptions());
+
+    expect(badId.data.error.message).toContain('Invalid record ID');
+    expect(badField.data.error.message).toContain('Invalid sObject or field name');
+    expect(mock.server.requests).toHaveLength(0);
+  });
+});
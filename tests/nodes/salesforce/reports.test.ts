@@ -0,0 +1,102 @@
+/**
+ * @jest-environment node
+ */
+
+// First, so its mocks apply to the imports below
+import { setupSalesforceMockServer } from './setup';
+import path from 'path';
+import {
+  salesforceListReportsTool,
+  salesforceRunReportTool,
+  salesforceGetDashboardTool
+} from '@/nodes/salesforce';
+
+describe('Salesforce report tools', () => {
+  const mock = setupSalesforceMockServer({ fixturesDir: path.join(__dirname, 'fixtures', 'analytics') });
+
+  const execOptions = () => ({
+    toolCallId: 'call-1',
+    sessionId: 'session-1',
+    nodeConfigurations: { salesforce: { instanceUrl: mock.server.url, apiVersion: '60.0' } }
+  });
+
+  it('lists reports filtered by name', async () => {
+    const result = await salesforceListReportsTool.execute({ search: 'pipeline' }, execOptions());
+
+    expect(result.type).toBe('salesforce_report_result');
+    expect(result.content).toContain('1 recently viewed reports matching "pipeline"');
+    expect(result.content).toContain('| 00O5e000008PipeEAA | Pipeline by Stage |');
+  });
+
+  it('turns a summary report into rows and a bar chart', async () => {
+    const result = await salesforceRunReportTool.execute({ reportId: '00O5e000008PipeEAA' }, execOptions());
+
+    expect(result.content).toContain('| Stage | Sum of Amount | Record Count |');
+    expect(result.content).toContain('| Closed Won | 320000 | 4 |');
+    expect(result.content).toContain('**Grand total:** $550,000.00, 8');
+    expect(result.data.chart).toEqual({
+      type: 'bar',
+      title: 'Pipeline by Stage',
+      categoryKey: 'group',
+      series: [{ key: 's_AMOUNT', label: 'Sum of Amount' }, { key: 'RowCount', label: 'Record Count' }],
+      data: [
+        { group: 'Prospecting', s_AMOUNT: 150000, RowCount: 3 },
+        { group: 'Negotiation/Review', s_AMOUNT: 80000, RowCount: 1 },
+        { group: 'Closed Won', s_AMOUNT: 320000, RowCount: 4 }
+      ]
+    });
+  });
+
+  it('sends runtime filters and honours the requested chart type', async () => {
+    const filters = [{ column: 'STAGE_NAME', operator: 'equals' as const, value: 'Closed Won' }];
+    const result = await salesforceRunReportTool.execute(
+      { reportId: '00O5e000008PipeEAA', filters, chartType: 'pie' },
+      execOptions()
+    );
+
+    expect(mock.server.requests[0].method).toBe('POST');
+    expect(JSON.parse(mock.server.requests[0].body)).toEqual({ reportMetadata: { reportFilters: filters } });
+    expect(result.content).toContain('**Filters:** STAGE_NAME equals "Closed Won"');
+    expect(result.data.chart.type).toBe('pie');
+    // Pie charts show a single series, preferring amounts over record counts
+    expect(result.data.chart.series).toEqual([{ key: 's_AMOUNT', label: 'Sum of Amount' }]);
+  });
+
+  it('pivots a matrix report into one column per across grouping', async () => {
+    const result = await salesforceRunReportTool.execute({ reportId: '00O5e000008CaseEAA' }, execOptions());
+
+    expect(result.data.report.rows).toEqual([
+      { group: 'High', c0: 5, c1: 2 },
+      { group: 'Low', c0: 1, c1: 0 }
+    ]);
+    expect(result.content).toContain('| Priority | New | Working |');
+    expect(result.data.chart.type).toBe('line');
+  });
+
+  it('returns detail rows for tabular reports without a chart', async () => {
+    const result = await salesforceRunReportTool.execute({ reportId: '00O5e000008DealEAA' }, execOptions());
+
+    expect(result.data.report.rows).toEqual([
+      { OPPORTUNITY_NAME: 'Acme Renewal', AMOUNT: 120000 },
+      { OPPORTUNITY_NAME: 'Globex Expansion', AMOUNT: 45500 }
+    ]);
+    expect(result.data.chart).toBeUndefined();
+    expect(result.content).toContain('only the first 2,000 detail rows');
+  });
+
+  it('rejects IDs that are not report IDs', async () => {
+    const result = await salesforceRunReportTool.execute({ reportId: '0015e000008PipeEAA' }, execOptions());
+
+    expect(result.content).toContain('## Salesforce Report Error');
+    expect(mock.server.requests).toHaveLength(0);
+  });
+
+  it('charts each dashboard component and reports components without data', async () => {
+    const result = await salesforceGetDashboardTool.execute({ dashboardId: '01Z5e000000SalsEAA' }, execOptions());
+
+    expect(result.content).toContain('# Sales Overview');
+    expect(result.content).toContain('_No data available (The source report has been deleted.)._');
+    expect(result.data.components[0].chart).toMatchObject({ type: 'pie', title: 'Pipeline', categoryKey: 'group' });
+    expect(result.data.components[1].chart).toBeUndefined();
+  });
+});
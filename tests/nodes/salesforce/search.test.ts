@@ -0,0 +1,54 @@
+/**
+ * @jest-environment node
+ */
+
+// First, so its mocks apply to the imports below
+import { setupSalesforceMockServer } from './setup';
+import path from 'path';
+import { salesforceSearchTool } from '@/nodes/salesforce';
+import { buildSoslQuery, escapeSoslTerm } from '@/nodes/salesforce/api';
+
+describe('salesforce_search', () => {
+  const mock = setupSalesforceMockServer({ fixturesDir: path.join(__dirname, 'fixtures', 'search') });
+
+  const execOptions = () => ({
+    toolCallId: 'call-1',
+    sessionId: 'session-1',
+    nodeConfigurations: { salesforce: { instanceUrl: mock.server.url, apiVersion: '60.0' } }
+  });
+
+  it('groups hits by object in RETURNING order with deep links', async () => {
+    const result = await salesforceSearchTool.execute({ term: 'Acme' }, execOptions());
+
+    expect(result.type).toBe('salesforce_search_result');
+    expect(result.data.groups.map((group: { object: string }) => group.object)).toEqual(['Account', 'Contact', 'Case']);
+    expect(result.content).toContain('# Salesforce Search Results: "Acme"');
+    expect(result.content).toContain('Found 3 records across 3 objects');
+    expect(result.content).toContain('## Account (1)\n\n### Acme Corp\n\n**Industry:** Manufacturing | **Phone:** 555-0100');
+    expect(result.content).toContain('**Email:** ada@acme.example | **Account.Name:** Acme Corp');
+    expect(result.content).toContain(`[Open in Salesforce](${mock.server.url}/lightning/r/Contact/0035e00000AcmeAAA/view)`);
+    expect(result.content).toContain('### Acme shipment delayed');
+
+    const sosl = new URL(mock.server.requests[0].url, mock.server.url).searchParams.get('q');
+    expect(sosl).toContain('FIND {Acme} IN ALL FIELDS RETURNING Account(Id, Name, Industry, Phone LIMIT 10)');
+  });
+
+  it('builds SOSL from structured objects, adding Id and escaping the term', () => {
+    expect(buildSoslQuery({
+      term: 'O\'Brien & Sons',
+      searchIn: 'NAME',
+      objects: [{ object: 'Lead', fields: ['Name', 'Company'], where: "Status = 'Open'", limit: 5 }]
+    })).toBe("FIND {O\\'Brien \\& Sons} IN NAME FIELDS RETURNING Lead(Id, Name, Company WHERE Status = 'Open' LIMIT 5)");
+    expect(escapeSoslTerm('acm*')).toBe('acm*');
+  });
+
+  it('rejects invalid object names without calling the API', async () => {
+    const result = await salesforceSearchTool.execute(
+      { term: 'Acme', objects: [{ object: 'Account) RETURNING User(Id' }] },
+      execOptions()
+    );
+
+    expect(result.content).toContain('## Salesforce Search Error');
+    expect(mock.server.requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,33 @@
+/**
+ * @fileoverview Shared setup for the salesforce_* tool tests.
+ *
+ * Import it before anything under @/nodes/salesforce: it silences the logger and
+ * backs the orchestration adapter with in-memory storage and a job-tracking state
+ * manager. It also re-exports the mock org, so a test file needs only this import.
+ */
+
+jest.mock('agentdock-core', () => ({
+  logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+  LogCategory: { NODE: 'node' }
+}));
+
+jest.mock('@/lib/orchestration-adapter', () => {
+  const { MemoryStorageProvider } = jest.requireActual('agentdock-core/storage/providers/memory-provider');
+  const storage = new MemoryStorageProvider({ namespace: 'salesforce-test' });
+  // Tracked jobs per session, standing in for the orchestration state manager
+  const jobs: Record<string, Array<{ id: string; tool: string; kind?: string; createdAt: number }>> = {};
+  const stateManager = {
+    trackJob: async (sessionId: string, job: { id: string; tool: string; kind?: string }) => {
+      const existing = (jobs[sessionId] || []).filter(entry => entry.id !== job.id);
+      jobs[sessionId] = [...existing, { ...job, createdAt: Date.now() }];
+    },
+    getTrackedJobs: async (sessionId: string, tools?: string[]) =>
+      (jobs[sessionId] || []).filter(job => !tools || tools.includes(job.tool)).reverse()
+  };
+  return {
+    getStorageProvider: () => storage,
+    getOrchestrationManagerInstance: () => ({ getStateManager: () => stateManager })
+  };
+});
+
+export * from './mock-server';
@@ -72,6 +72,12 @@ async function validateTypes(): Promise<boolean> {
   return true;
 }
 
+async function validateOrchestrationSimulations(): Promise<boolean> {
+  console.log(chalk.blue('🔍 Running orchestration simulations...'));
+  await runCommand('pnpm run simulate-orchestrations');
+  return true;
+}
+
 async function validateRouteHandler(): Promise<boolean> {
   console.log(chalk.blue('🔍 Validating route handler...'));
   
@@ -208,6 +214,11 @@ const validationSteps: ValidationStep[] = [
     check: validateTypes,
     error: 'TypeScript validation failed'
   },
+  {
+    name: 'Orchestration Simulations',
+    check: validateOrchestrationSimulations,
+    error: 'Orchestration simulation failed'
+  },
   {
     name: 'Route Handler',
     check: validateRouteHandler,